@@ -0,0 +1,14 @@
+-- Picks synced from Couch Managers are won by teams, not necessarily app users
+
+-- AlterTable
+ALTER TABLE "draft_picks" ALTER COLUMN "draftedByUserId" DROP NOT NULL;
+ALTER TABLE "draft_picks" ADD COLUMN "draftedByTeam" TEXT;
+
+-- DropForeignKey
+ALTER TABLE "draft_picks" DROP CONSTRAINT "draft_picks_draftedByUserId_fkey";
+
+-- AddForeignKey
+ALTER TABLE "draft_picks" ADD CONSTRAINT "draft_picks_draftedByUserId_fkey" FOREIGN KEY ("draftedByUserId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "draft_picks_leagueId_playerId_key" ON "draft_picks"("leagueId", "playerId");
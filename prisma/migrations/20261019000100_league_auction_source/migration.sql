@@ -0,0 +1,19 @@
+-- Generalize the Couch Managers room link into an auction source type + ID
+
+-- AlterTable
+ALTER TABLE "leagues" ADD COLUMN "auctionSourceType" TEXT;
+ALTER TABLE "leagues" ADD COLUMN "auctionSourceId" TEXT;
+
+-- Backfill existing Couch Managers rooms
+UPDATE "leagues"
+SET "auctionSourceType" = 'couchmanagers', "auctionSourceId" = "couchManagerRoomId"
+WHERE "couchManagerRoomId" IS NOT NULL AND "couchManagerRoomId" <> '';
+
+-- DropIndex
+DROP INDEX "leagues_couchManagerRoomId_idx";
+
+-- AlterTable
+ALTER TABLE "leagues" DROP COLUMN "couchManagerRoomId";
+
+-- CreateIndex
+CREATE INDEX "leagues_auctionSourceType_auctionSourceId_idx" ON "leagues"("auctionSourceType", "auctionSourceId");
@@ -0,0 +1,4 @@
+-- Projection blend weights for leagues using projectionSystem "blend"
+
+-- AlterTable
+ALTER TABLE "leagues" ADD COLUMN "projectionBlend" JSONB;
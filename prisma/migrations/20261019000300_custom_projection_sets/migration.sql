@@ -0,0 +1,31 @@
+-- User-uploaded projection sets, selectable as projectionSystem "custom"
+
+-- AlterTable
+ALTER TABLE "leagues" ADD COLUMN "customProjectionSetId" TEXT;
+
+-- CreateTable
+CREATE TABLE "custom_projection_sets" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "leagueId" TEXT,
+    "name" TEXT NOT NULL,
+    "projections" JSONB NOT NULL,
+    "hitterCount" INTEGER NOT NULL,
+    "pitcherCount" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "custom_projection_sets_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "custom_projection_sets_userId_idx" ON "custom_projection_sets"("userId");
+
+-- CreateIndex
+CREATE INDEX "custom_projection_sets_leagueId_idx" ON "custom_projection_sets"("leagueId");
+
+-- AddForeignKey
+ALTER TABLE "custom_projection_sets" ADD CONSTRAINT "custom_projection_sets_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "custom_projection_sets" ADD CONSTRAINT "custom_projection_sets_leagueId_fkey" FOREIGN KEY ("leagueId") REFERENCES "leagues"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,4 @@
+-- Per-league edits to a player's projected stats, applied before values are calculated
+
+-- AlterTable
+ALTER TABLE "league_players" ADD COLUMN "statOverrides" JSONB;
@@ -0,0 +1,4 @@
+-- Pre-auction keepers for keeper leagues
+
+-- AlterTable
+ALTER TABLE "leagues" ADD COLUMN "keepers" JSONB;
@@ -0,0 +1,4 @@
+-- Minor league roster slots and farm budget for dynasty leagues
+
+-- AlterTable
+ALTER TABLE "leagues" ADD COLUMN "farmSettings" JSONB;
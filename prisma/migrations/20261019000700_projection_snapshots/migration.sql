@@ -0,0 +1,17 @@
+-- Dated snapshots of each fetched projection set, for diffs and value history
+
+-- CreateTable
+CREATE TABLE "projection_snapshots" (
+    "id" TEXT NOT NULL,
+    "projectionSystem" TEXT NOT NULL,
+    "season" INTEGER NOT NULL,
+    "contentHash" TEXT NOT NULL,
+    "playerCount" INTEGER NOT NULL,
+    "projections" JSONB NOT NULL,
+    "fetchedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "projection_snapshots_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "projection_snapshots_projectionSystem_season_fetchedAt_idx" ON "projection_snapshots"("projectionSystem", "season", "fetchedAt");
@@ -0,0 +1,32 @@
+-- Invites to share a league with members and co-managers
+
+-- CreateTable
+CREATE TABLE "league_invites" (
+    "id" TEXT NOT NULL,
+    "leagueId" TEXT NOT NULL,
+    "invitedById" TEXT NOT NULL,
+    "email" TEXT,
+    "role" TEXT NOT NULL DEFAULT 'member',
+    "tokenHash" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "respondedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "league_invites_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "league_invites_tokenHash_key" ON "league_invites"("tokenHash");
+
+-- CreateIndex
+CREATE INDEX "league_invites_leagueId_idx" ON "league_invites"("leagueId");
+
+-- CreateIndex
+CREATE INDEX "league_invites_email_status_idx" ON "league_invites"("email", "status");
+
+-- AddForeignKey
+ALTER TABLE "league_invites" ADD CONSTRAINT "league_invites_leagueId_fkey" FOREIGN KEY ("leagueId") REFERENCES "leagues"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "league_invites" ADD CONSTRAINT "league_invites_invitedById_fkey" FOREIGN KEY ("invitedById") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
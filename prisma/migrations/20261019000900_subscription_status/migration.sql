@@ -0,0 +1,6 @@
+-- Billing state for subscription entitlements
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "subscriptionStatus" TEXT NOT NULL DEFAULT 'active',
+ADD COLUMN "subscriptionPeriodEnd" TIMESTAMP(3),
+ADD COLUMN "subscriptionCancelAtPeriodEnd" BOOLEAN NOT NULL DEFAULT false;
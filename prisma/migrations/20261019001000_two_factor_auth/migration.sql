@@ -0,0 +1,7 @@
+-- TOTP two-factor authentication with hashed recovery codes
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "twoFactorSecret" TEXT,
+ADD COLUMN "twoFactorEnabledAt" TIMESTAMP(3),
+ADD COLUMN "twoFactorLastUsedStep" INTEGER,
+ADD COLUMN "twoFactorRecoveryCodeHashes" TEXT[] DEFAULT ARRAY[]::TEXT[];
@@ -0,0 +1,6 @@
+-- Device, IP, and last-used time for active session management
+
+-- AlterTable
+ALTER TABLE "refresh_tokens" ADD COLUMN "userAgent" TEXT,
+ADD COLUMN "ipAddress" TEXT,
+ADD COLUMN "lastUsedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
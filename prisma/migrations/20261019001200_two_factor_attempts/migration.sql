@@ -0,0 +1,5 @@
+-- Limit code attempts per two-factor sign-in challenge
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "twoFactorChallengeId" TEXT,
+ADD COLUMN "twoFactorChallengeAttempts" INTEGER NOT NULL DEFAULT 0;
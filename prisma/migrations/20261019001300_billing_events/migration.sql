@@ -0,0 +1,19 @@
+-- Processed billing webhook events, and the time of the last one applied per user
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "subscriptionEventAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "billing_events" (
+    "eventId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "userId" TEXT,
+    "occurredAt" TIMESTAMP(3) NOT NULL,
+    "applied" BOOLEAN NOT NULL,
+    "processedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "billing_events_pkey" PRIMARY KEY ("eventId")
+);
+
+-- CreateIndex
+CREATE INDEX "billing_events_userId_idx" ON "billing_events"("userId");
@@ -51,6 +51,10 @@ const envSchema = z.object({
   // Scraping Configuration
   COUCH_MANAGERS_BASE_URL: z.string().url().default('https://couchmanagers.com'),
   SCRAPING_TIMEOUT_MS: z.string().transform(Number).pipe(z.number().int().positive()).default('30000'),
+  // Re-scrape interval for rooms with live (SSE) subscribers
+  LIVE_AUCTION_POLL_SECONDS: z.string().transform(Number).pipe(z.number().int().min(5)).default('20'),
+  // Most rooms with live subscribers at once, each running its own scrape loop
+  LIVE_AUCTION_MAX_ROOMS: z.string().transform(Number).pipe(z.number().int().positive()).default('50'),
 
   // Cache Configuration
   PROJECTIONS_CACHE_TTL_HOURS: z.string().transform(Number).pipe(z.number().int().positive()).default('24'),
@@ -62,6 +66,9 @@ const envSchema = z.object({
   GROQ_MODEL: z.string().default('llama-3.3-70b-versatile'),
   CHAT_MAX_TOKENS: z.string().transform(Number).pipe(z.number().int().positive()).default('1024'),
   CHAT_RATE_LIMIT_PER_MINUTE: z.string().transform(Number).pipe(z.number().int().positive()).default('30'),
+
+  // Billing webhook (shared secret sent by the billing provider; unset disables the webhook)
+  BILLING_WEBHOOK_SECRET: z.string().min(16, 'BILLING_WEBHOOK_SECRET must be at least 16 characters').optional(),
 });
 
 /**
@@ -229,5 +236,6 @@ export function logConfig() {
   console.log(`  Redis: ${env.REDIS_URL ? 'Configured' : 'Not configured (optional)'}`);
   console.log(`  Google OAuth: ${env.GOOGLE_CLIENT_ID ? 'Configured' : 'Not configured'}`);
   console.log(`  Chat Assistant: ${chatConfig.isEnabled ? `Enabled (${env.GROQ_MODEL})` : 'Not configured'}`);
+  console.log(`  Billing Webhook: ${env.BILLING_WEBHOOK_SECRET ? 'Configured' : 'Not configured'}`);
   console.log('');
 }
@@ -11,6 +11,7 @@
  * - AUTH: Authentication/Authorization
  * - USER: User management
  * - LEAGUE: League operations
+ * - SUB: Subscriptions and entitlements
  * - SYNC: External data synchronization
  * - PROJ: Projections/calculations
  * - VAL: Input validation
@@ -60,6 +61,15 @@ export const ErrorCodes = {
   LEAGUE_INVALID_SETTINGS: 'LEAGUE_009',
   LEAGUE_DELETION_FAILED: 'LEAGUE_010',
 
+  // ==========================================================================
+  // SUBSCRIPTIONS & ENTITLEMENTS (SUB_xxx)
+  // ==========================================================================
+  SUB_UPGRADE_REQUIRED: 'SUB_001',
+  SUB_LEAGUE_LIMIT_REACHED: 'SUB_002',
+  SUB_INVALID_TIER: 'SUB_003',
+  SUB_WEBHOOK_UNAUTHORIZED: 'SUB_004',
+  SUB_WEBHOOK_INVALID_EVENT: 'SUB_005',
+
   // ==========================================================================
   // PLAYER MANAGEMENT (PLAYER_xxx)
   // ==========================================================================
@@ -175,7 +185,7 @@ export interface ErrorCodeMetadata {
   description: string;
   userMessage: string;
   retryable: boolean;
-  category: 'auth' | 'user' | 'league' | 'sync' | 'proj' | 'val' | 'db' | 'cache' | 'rate' | 'general';
+  category: 'auth' | 'user' | 'league' | 'sub' | 'sync' | 'proj' | 'val' | 'db' | 'cache' | 'rate' | 'general';
 }
 
 /**
@@ -201,6 +211,24 @@ export const ErrorCodeMetadata: Record<string, ErrorCodeMetadata> = {
     category: 'auth',
   },
 
+  // Subscriptions
+  [ErrorCodes.SUB_UPGRADE_REQUIRED]: {
+    code: ErrorCodes.SUB_UPGRADE_REQUIRED,
+    title: 'Premium Required',
+    description: 'The feature is not included in the user\'s subscription tier',
+    userMessage: 'This feature is part of the Premium plan.',
+    retryable: false,
+    category: 'sub',
+  },
+  [ErrorCodes.SUB_LEAGUE_LIMIT_REACHED]: {
+    code: ErrorCodes.SUB_LEAGUE_LIMIT_REACHED,
+    title: 'League Limit Reached',
+    description: 'The user owns as many leagues as their subscription tier allows',
+    userMessage: 'You\'ve reached the league limit for the Free plan. Delete a league or upgrade to Premium.',
+    retryable: false,
+    category: 'sub',
+  },
+
   // Sync errors
   [ErrorCodes.SYNC_COUCH_MANAGERS_UNAVAILABLE]: {
     code: ErrorCodes.SYNC_COUCH_MANAGERS_UNAVAILABLE,
@@ -28,7 +28,9 @@ import adminRoutes from './routes/admin.js';
 import errorsRoutes from './routes/errors.js';
 import notificationsRoutes from './routes/notifications.js';
 import chatRoutes from './routes/chat.js';
-import { closeBrowser, prewarmBrowser } from './services/couchManagersScraper.js';
+import billingRoutes from './routes/billing.js';
+import { prewarmBrowser } from './services/couchManagersScraper.js';
+import { closeAuctionSources } from './services/auctionSourceRegistry.js';
 import { apiLimiter, authLimiter, scrapingLimiter, chatLimiter } from './middleware/rateLimiter.js';
 import { sanitizeBody } from './middleware/sanitize.js';
 import requestLogger, { slowRequestLogger } from './middleware/requestLogger.js';
@@ -106,6 +108,10 @@ export function createServer(): Express {
       if (req.headers['x-no-compression']) {
         return false;
       }
+      // Compression buffers output, which would hold back SSE events
+      if (req.headers.accept === 'text/event-stream') {
+        return false;
+      }
       return compression.filter(req, res);
     },
   }));
@@ -178,6 +184,9 @@ export function createServer(): Express {
   // Chat assistant routes (LLM-powered draft assistant)
   app.use('/api/chat', chatLimiter, chatRoutes);
 
+  // Billing routes (subscription status webhook)
+  app.use('/api/billing', billingRoutes);
+
   // ==========================================================================
   // STATIC FILE SERVING (Production only - serves built frontend if present)
   // Note: When using split deployment (Vercel frontend + Railway backend),
@@ -292,9 +301,9 @@ export async function startServer(): Promise<void> {
         cleanupAuctionRoutes();
         logger.info('Auction cache cleanup interval cleared');
 
-        // Close browser
-        await closeBrowser();
-        logger.info('Browser closed');
+        // Close auction sources (Couch Managers browser)
+        await closeAuctionSources();
+        logger.info('Auction sources closed');
 
         // Close Redis connection
         await closeRedis();
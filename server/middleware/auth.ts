@@ -11,6 +11,9 @@ import {
   findUserById,
 } from '../services/authService.js';
 import { toAuthUser, AuthUser } from '../types/auth.js';
+import { ErrorCodes } from '../errors/errorCodes.js';
+import { FEATURE_LABELS, tiersWithFeature } from '../services/entitlements.js';
+import type { PremiumFeature } from '../../src/lib/types.js';
 
 /**
  * Error codes for authentication failures
@@ -232,7 +235,11 @@ export function getAuthUser(req: Request): AuthUser {
 /**
  * Middleware factory to require specific subscription tiers
  *
+ * Returns 402 Payment Required with SUB_UPGRADE_REQUIRED when the user's tier
+ * isn't allowed, so the client can prompt an upgrade.
+ *
  * @param allowedTiers - Array of subscription tiers that can access the route
+ * @param feature - The gated feature, named in the error message
  * @returns Middleware function
  *
  * @example
@@ -242,7 +249,7 @@ export function getAuthUser(req: Request): AuthUser {
  * });
  * ```
  */
-export function requireTier(allowedTiers: string[]) {
+export function requireTier(allowedTiers: string[], feature?: PremiumFeature) {
   return (req: Request, res: Response, next: NextFunction): void => {
     if (!req.user) {
       res.status(401).json(AUTH_ERRORS.NO_TOKEN);
@@ -250,10 +257,13 @@ export function requireTier(allowedTiers: string[]) {
     }
 
     if (!allowedTiers.includes(req.user.subscriptionTier)) {
-      res.status(403).json({
-        error: 'Insufficient subscription',
-        code: 'SUBSCRIPTION_REQUIRED',
-        message: `This feature requires one of the following subscription tiers: ${allowedTiers.join(', ')}`,
+      res.status(402).json({
+        error: 'Upgrade required',
+        code: ErrorCodes.SUB_UPGRADE_REQUIRED,
+        message: feature
+          ? `${FEATURE_LABELS[feature]} requires a ${allowedTiers.join(' or ')} subscription`
+          : `This feature requires one of the following subscription tiers: ${allowedTiers.join(', ')}`,
+        feature,
         requiredTiers: allowedTiers,
         currentTier: req.user.subscriptionTier,
       });
@@ -264,6 +274,22 @@ export function requireTier(allowedTiers: string[]) {
   };
 }
 
+/**
+ * Require a subscription tier that includes a feature (see services/entitlements)
+ *
+ * Must be used AFTER requireAuth middleware.
+ *
+ * @example
+ * ```typescript
+ * router.post('/', requireAuth, requireFeature('chatAssistant'), (req, res) => {
+ *   // Only accessible on tiers with the chat assistant
+ * });
+ * ```
+ */
+export function requireFeature(feature: PremiumFeature) {
+  return requireTier(tiersWithFeature(feature), feature);
+}
+
 /**
  * Require admin role middleware
  *
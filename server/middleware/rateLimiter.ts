@@ -162,15 +162,23 @@ function createStore(windowMs: number, prefix: string): Store | undefined {
 }
 
 /**
- * Key generator function - extracts client IP from request
+ * Client IP for a request, or null when it can't be determined.
+ * Also used to label sessions, so both agree on where a request came from.
  */
-function keyGenerator(req: Request): string {
+export function getClientIp(req: Request): string | null {
   // Use X-Forwarded-For header if behind a proxy, otherwise use IP
   const forwarded = req.headers['x-forwarded-for'];
   if (typeof forwarded === 'string') {
     return forwarded.split(',')[0].trim();
   }
-  return req.ip || req.socket.remoteAddress || 'unknown';
+  return req.ip || req.socket.remoteAddress || null;
+}
+
+/**
+ * Key generator function - extracts client IP from request
+ */
+function keyGenerator(req: Request): string {
+  return getClientIp(req) ?? 'unknown';
 }
 
 /**
@@ -268,7 +276,9 @@ export const authLimiter = createRateLimiter({
     return path === '/me' ||
            path === '/refresh' ||
            path === '/google/status' ||
-           path === '/logout';
+           path === '/logout' ||
+           path === '/sessions' ||
+           path.startsWith('/sessions/');
   },
 });
 
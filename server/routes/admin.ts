@@ -10,6 +10,9 @@ import { z } from 'zod';
 import { prisma } from '../db.js';
 import { requireAuth, requireAdmin, getAuthUser } from '../middleware/auth.js';
 import { logger } from '../services/logger.js';
+import { SUBSCRIPTION_TIERS } from '../services/entitlements.js';
+import { disableTwoFactor } from '../services/authService.js';
+import { ErrorCodes } from '../errors/errorCodes.js';
 
 const router = Router();
 
@@ -24,6 +27,10 @@ const updateRoleSchema = z.object({
   role: z.enum(['user', 'admin']),
 });
 
+const updateSubscriptionSchema = z.object({
+  tier: z.enum(SUBSCRIPTION_TIERS),
+});
+
 const errorFiltersSchema = z.object({
   source: z.enum(['frontend', 'backend', 'all']).optional().default('all'),
   severity: z.enum(['error', 'warning', 'info', 'all']).optional().default('all'),
@@ -153,6 +160,7 @@ router.get('/users', async (req: Request, res: Response) => {
           role: true,
           subscriptionTier: true,
           authProvider: true,
+          twoFactorEnabledAt: true,
           createdAt: true,
           lastLoginAt: true,
           _count: {
@@ -176,6 +184,7 @@ router.get('/users', async (req: Request, res: Response) => {
         role: user.role,
         subscriptionTier: user.subscriptionTier,
         authProvider: user.authProvider,
+        twoFactorEnabled: user.twoFactorEnabledAt !== null,
         createdAt: user.createdAt.toISOString(),
         lastLoginAt: user.lastLoginAt?.toISOString() || null,
         leagueCount: user._count.ownedLeagues,
@@ -346,6 +355,121 @@ router.put('/users/:id/role', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * PUT /api/admin/users/:id/subscription
+ * Grant or revoke premium (comps, support, and testing without billing)
+ */
+router.put('/users/:id/subscription', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const admin = getAuthUser(req);
+
+    const validation = updateSubscriptionSchema.safeParse(req.body);
+    if (!validation.success) {
+      res.status(400).json({
+        error: 'Invalid request body',
+        code: ErrorCodes.SUB_INVALID_TIER,
+        details: validation.error.errors,
+      });
+      return;
+    }
+
+    const { tier } = validation.data;
+
+    const user = await prisma.user.findUnique({
+      where: { id },
+      select: { id: true, email: true, subscriptionTier: true },
+    });
+
+    if (!user) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    // A manual grant is active until revoked; billing fields are left to the webhook
+    const updatedUser = await prisma.user.update({
+      where: { id },
+      data: { subscriptionTier: tier, subscriptionStatus: 'active' },
+      select: {
+        id: true,
+        email: true,
+        name: true,
+        subscriptionTier: true,
+      },
+    });
+
+    logger.info(
+      {
+        adminId: admin.id,
+        adminEmail: admin.email,
+        targetUserId: id,
+        targetEmail: user.email,
+        previousTier: user.subscriptionTier,
+        newTier: tier,
+      },
+      'User subscription tier updated by admin'
+    );
+
+    res.json({
+      success: true,
+      user: updatedUser,
+      message: `User ${updatedUser.email} is now on the ${tier} tier`,
+    });
+  } catch (error) {
+    logger.error({ error }, 'Failed to update user subscription');
+    res.status(500).json({
+      error: 'Failed to update user subscription',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
+/**
+ * DELETE /api/admin/users/:id/two-factor
+ * Reset a user's 2FA (lost authenticator and recovery codes) so they can sign in
+ * with just their password and set it up again
+ */
+router.delete('/users/:id/two-factor', async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const admin = getAuthUser(req);
+
+    const user = await prisma.user.findUnique({
+      where: { id },
+      select: { id: true, email: true, twoFactorEnabledAt: true },
+    });
+
+    if (!user) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+
+    await disableTwoFactor(id);
+
+    logger.info(
+      {
+        adminId: admin.id,
+        adminEmail: admin.email,
+        targetUserId: id,
+        targetEmail: user.email,
+        wasEnabled: user.twoFactorEnabledAt !== null,
+      },
+      'User two-factor authentication reset by admin'
+    );
+
+    res.json({
+      success: true,
+      message: `Two-factor authentication reset for ${user.email}`,
+    });
+  } catch (error) {
+    logger.error({ error }, 'Failed to reset user two-factor authentication');
+    res.status(500).json({
+      error: 'Failed to reset two-factor authentication',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+});
+
 // =============================================================================
 // ERROR LOG ENDPOINTS
 // =============================================================================
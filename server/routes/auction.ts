@@ -1,24 +1,36 @@
 import { Router, Request, Response } from 'express';
 import { z } from 'zod';
-import { scrapeAuction, scrapeDraftedPlayers } from '../services/couchManagersScraper.js';
-import { matchAllPlayers } from '../services/playerMatcher.js';
+import { matchAllPlayers, normalizeName } from '../services/playerMatcher.js';
 import { calculateInflationStats } from '../services/inflationCalculator.js';
-import { getCachedProjections } from '../services/projectionsCacheService.js';
+import { getCachedProjections, getOrFetchProjections } from '../services/projectionsCacheService.js';
+import { loadBlendedProjections, getActiveBlendSystems } from '../services/projectionBlender.js';
+import { loadCustomProjections } from '../services/customProjectionStore.js';
+import { applyStatOverrides } from '../services/projectionOverrides.js';
+import { getMemberLeagueStatOverrides } from '../services/projectionOverrideStore.js';
+import { getAuthUser, requireAuth, requireFeature } from '../middleware/auth.js';
 import { getDynastyRankings } from '../services/dynastyRankingsScraper.js';
 import { calculateAuctionValues } from '../services/valueCalculator.js';
 import {
-  getCachedAuctionData,
-  setCachedAuctionData,
   invalidateAuctionCache,
   getAuctionCacheStatus,
   listCachedAuctionRooms,
   cleanupExpiredCaches,
   AUCTION_CACHE_DEFAULTS,
 } from '../services/auctionCacheService.js';
-import { getRedisClient, isRedisHealthy } from '../services/redisClient.js';
+import { getAuctionDataWithCache } from '../services/auctionScrapeService.js';
+import { recordAuctionCursor, getAuctionFingerprint } from '../services/auctionSyncHistory.js';
+import { getChangesSince } from '../services/auctionDiff.js';
+import { persistDraftProgress } from '../services/draftPersistenceService.js';
+import { calculateManualInflation } from '../services/manualDraftService.js';
+import {
+  simulateAuctionOutcomes,
+  MAX_SIMULATION_ITERATIONS,
+  POOL_SIZE_FACTOR,
+} from '../services/auctionSimulator.js';
+import { subscribeToRoom, stopAllLiveRooms, type LiveAuctionEvent } from '../services/liveAuctionService.js';
 import { logger } from '../services/logger.js';
-import { checkAndSendNotifications } from '../services/auctionNotificationService.js';
-import type { AuctionSyncResult, ScrapedAuctionData } from '../types/auction.js';
+import type { AuctionSyncResult, AuctionSyncDelta, KeeperCost } from '../types/auction.js';
+import type { PlayerWithValue } from '../types/projections.js';
 import type { LeagueSettings } from '../../src/lib/types.js';
 
 // Zod validation schemas for API input validation
@@ -62,11 +74,65 @@ const LeagueConfigSchema = z.object({
       team: z.string().optional(),
       positions: z.array(z.string()).optional(),
     })).optional(),
+    projectionYears: z.number().int().min(3).max(5).optional(),
+    discountRate: z.number().min(0).max(1).optional(),
+    contractYears: z.number().int().min(1).max(10).optional(),
+    salaryEscalator: z.number().min(0).max(100).optional(),
   }).optional(),
+  keepers: z.array(z.object({
+    teamName: z.string().min(1).max(100),
+    playerName: z.string().min(1).max(200),
+    playerId: z.string().optional(),
+    salary: z.number().min(0).max(10000),
+  })).max(500).optional(),
 });
 
 type ValidatedLeagueConfig = z.infer<typeof LeagueConfigSchema>;
 
+const ManualDraftSchema = z.object({
+  leagueConfig: LeagueConfigSchema,
+  teams: z.array(z.string().min(1).max(100)).max(30),
+  players: z.array(z.object({
+    id: z.string(),
+    name: z.string(),
+    team: z.string(),
+    positions: z.array(z.string()),
+    projectedValue: z.number(),
+    draftedBy: z.string().min(1).max(100).optional(),
+    draftedPrice: z.number().min(0).optional(),
+  })).max(5000),
+});
+
+const ProjectionBlendSchema = z.object({
+  steamer: z.number().min(0).optional(),
+  batx: z.number().min(0).optional(),
+  ja: z.number().min(0).optional(),
+  oopsy: z.number().min(0).optional(),
+});
+
+// Same limits as LeagueConfigSchema: 30 teams with up to 50 roster spots each
+const MAX_FORECAST_TEAMS = 30;
+const MAX_FORECAST_SPOTS_PER_TEAM = 50;
+
+const PriceForecastSchema = z.object({
+  // Only the top (open spots x POOL_SIZE_FACTOR) players are simulated
+  players: z.array(z.object({
+    id: z.string().max(100),
+    projectedValue: z.number().min(-100).max(1000),
+    positions: z.array(z.string().max(10)).max(10),
+  })).max(Math.ceil(MAX_FORECAST_TEAMS * MAX_FORECAST_SPOTS_PER_TEAM * POOL_SIZE_FACTOR)),
+  teams: z.array(z.object({
+    teamName: z.string().max(100),
+    rawRemaining: z.number().min(0).max(10000),
+    rosterSpotsRemaining: z.number().int().min(0).max(MAX_FORECAST_SPOTS_PER_TEAM),
+  })).min(1).max(MAX_FORECAST_TEAMS),
+  positionalScarcity: z.array(z.object({
+    position: z.string().max(10),
+    inflationAdjustment: z.number().min(0).max(10),
+  })).max(20).optional(),
+  iterations: z.number().int().min(1).max(MAX_SIMULATION_ITERATIONS).optional(),
+});
+
 /**
  * Interface matching what calculateInflationStats expects
  */
@@ -75,6 +141,7 @@ interface InflationLeagueConfig {
   budgetPerTeam: number;
   totalRosterSpots: number;
   rosterSpots?: Record<string, number>;
+  keepers?: KeeperCost[];
 }
 
 /**
@@ -94,8 +161,9 @@ function validateLeagueConfig(leagueConfig: unknown): ValidatedLeagueConfig {
 
 /**
  * Converts validated config to the format expected by calculateInflationStats
+ * Keepers are only charged when their values are known (from calculated values)
  */
-function toInflationLeagueConfig(config: ValidatedLeagueConfig): InflationLeagueConfig {
+function toInflationLeagueConfig(config: ValidatedLeagueConfig, keepers?: KeeperCost[]): InflationLeagueConfig {
   // Calculate totalRosterSpots from rosterSpots if not provided
   const totalRosterSpots = config.totalRosterSpots ??
     (config.rosterSpots ? Object.values(config.rosterSpots).reduce((a, b) => a + (b ?? 0), 0) : 23);
@@ -105,102 +173,86 @@ function toInflationLeagueConfig(config: ValidatedLeagueConfig): InflationLeague
     budgetPerTeam: config.budgetPerTeam,
     totalRosterSpots,
     rosterSpots: config.rosterSpots as Record<string, number> | undefined,
+    keepers,
   };
 }
 
-const router = Router();
-
-// In-memory lock map for fallback when Redis is not available
-// Also used for local deduplication within a single instance
-const scrapingLocks = new Map<string, Promise<ScrapedAuctionData>>();
-
-// Redis distributed lock configuration
-const REDIS_LOCK_PREFIX = 'scrape-lock:';
-const REDIS_LOCK_TTL_SECONDS = 60; // Auto-expire lock after 60 seconds (safety net)
-
 /**
- * Attempt to acquire a distributed lock using Redis.
- * Uses SET with NX (only set if not exists) and EX (expiration) for atomic lock acquisition.
- *
- * @param lockKey - The key to lock on
- * @returns true if lock was acquired, false if already locked by another instance
+ * Keeper salaries and pre-keeper values from calculated auction values
  */
-async function acquireDistributedLock(lockKey: string): Promise<boolean> {
-  if (!isRedisHealthy()) {
-    return true; // Fall back to in-memory only
-  }
-
-  const redis = getRedisClient();
-  if (!redis) {
-    return true; // Fall back to in-memory only
-  }
-
-  try {
-    // SET key value NX EX seconds - atomic operation
-    // NX = only set if key doesn't exist
-    // EX = expire after TTL seconds (safety net if process crashes)
-    const result = await redis.set(
-      `${REDIS_LOCK_PREFIX}${lockKey}`,
-      Date.now().toString(), // Store timestamp as value for debugging
-      'EX',
-      REDIS_LOCK_TTL_SECONDS,
-      'NX'
-    );
-    return result === 'OK';
-  } catch (error) {
-    logger.error({ error }, 'Redis lock acquisition failed');
-    return true; // Fall back to in-memory only on error
-  }
+function toKeeperCosts(players: PlayerWithValue[]): KeeperCost[] {
+  return players
+    .filter(p => p.keeperSalary !== undefined)
+    .map(p => ({
+      teamName: p.keptBy ?? '',
+      playerName: p.name,
+      salary: p.keeperSalary ?? 0,
+      projectedValue: p.auctionValue,
+    }));
 }
 
 /**
- * Release a distributed lock in Redis.
- *
- * @param lockKey - The key to unlock
+ * Keeper salaries from the league config, valued from the players sent with
+ * the request (by ID, then name). Keepers missing from them are valued at
+ * their salary, so they still come off the budget without adding surplus.
  */
-async function releaseDistributedLock(lockKey: string): Promise<void> {
-  if (!isRedisHealthy()) {
-    return;
-  }
-
-  const redis = getRedisClient();
-  if (!redis) {
-    return;
-  }
-
-  try {
-    await redis.del(`${REDIS_LOCK_PREFIX}${lockKey}`);
-  } catch (error) {
-    logger.error({ error, lockKey }, 'Redis lock release failed');
-    // Lock will auto-expire via TTL if release fails
-  }
+function toKeeperCostsFromProjections(
+  keepers: ValidatedLeagueConfig['keepers'],
+  projections: Array<{ id?: string; name: string; projectedValue?: number }>
+): KeeperCost[] | undefined {
+  if (!keepers || keepers.length === 0) return undefined;
+
+  const byId = new Map(projections.filter(p => p.id).map(p => [p.id, p]));
+  const byName = new Map(projections.map(p => [normalizeName(p.name), p]));
+
+  return keepers.map(keeper => {
+    const projection = (keeper.playerId ? byId.get(keeper.playerId) : undefined)
+      ?? byName.get(normalizeName(keeper.playerName));
+    return {
+      teamName: keeper.teamName,
+      playerName: keeper.playerName,
+      salary: keeper.salary,
+      projectedValue: projection?.projectedValue ?? keeper.salary,
+    };
+  });
 }
 
 /**
- * Check if a distributed lock exists in Redis.
- *
- * @param lockKey - The key to check
- * @returns true if locked by another instance, false if not locked
+ * Builds the sync response for a client cursor.
+ * Returns an AuctionSyncDelta when the cursor is still in the room's history,
+ * otherwise the full AuctionSyncResult (with a new cursor) as a fallback.
  */
-async function isDistributedLocked(lockKey: string): Promise<boolean> {
-  if (!isRedisHealthy()) {
-    return false; // Can't check, assume not locked
+function toSyncResponse(result: AuctionSyncResult, sinceCursor: unknown): AuctionSyncResult | AuctionSyncDelta {
+  const cursor = recordAuctionCursor(result.auctionData);
+  const fingerprint = typeof sinceCursor === 'string'
+    ? getAuctionFingerprint(result.auctionData.roomId, sinceCursor)
+    : null;
+
+  if (!fingerprint) {
+    return { ...result, cursor };
   }
 
-  const redis = getRedisClient();
-  if (!redis) {
-    return false;
-  }
+  const { changedPlayers, changedTeams, removedPlayerIds, removedTeamNames } =
+    getChangesSince(fingerprint, result.auctionData);
+  const changedIds = new Set(changedPlayers.map(p => p.couchManagersId));
+  const { players: _players, teams: _teams, ...auctionMeta } = result.auctionData;
 
-  try {
-    const exists = await redis.exists(`${REDIS_LOCK_PREFIX}${lockKey}`);
-    return exists === 1;
-  } catch (error) {
-    logger.error({ error, lockKey }, 'Redis lock check failed');
-    return false; // On error, assume not locked
-  }
+  return {
+    mode: 'delta',
+    cursor,
+    baseCursor: sinceCursor as string,
+    auctionData: auctionMeta,
+    changedPlayers,
+    changedMatches: result.matchedPlayers.filter(m => changedIds.has(m.scrapedPlayer.couchManagersId)),
+    changedTeams,
+    removedPlayerIds,
+    removedTeamNames,
+    inflationStats: result.inflationStats,
+  };
 }
 
+const router = Router();
+
 // Periodic cleanup of expired file caches (runs every 30 minutes)
 // Store interval ID so it can be cleared on shutdown
 let cacheCleanupIntervalId: ReturnType<typeof setInterval> | null = null;
@@ -209,9 +261,13 @@ cacheCleanupIntervalId = setInterval(() => {
   cleanupExpiredCaches(60 * 60 * 1000); // Clean entries expired > 1 hour ago
 }, 30 * 60 * 1000);
 
+// Keep idle SSE connections alive through proxies (Railway closes idle sockets)
+const STREAM_HEARTBEAT_MS = 25 * 1000;
+
 /**
  * Cleanup function to be called during graceful shutdown.
- * Clears the cache cleanup interval to allow process to terminate promptly.
+ * Clears the cache cleanup interval and stops live room scrape loops
+ * to allow process to terminate promptly.
  */
 export function cleanupAuctionRoutes(): void {
   if (cacheCleanupIntervalId) {
@@ -219,104 +275,78 @@ export function cleanupAuctionRoutes(): void {
     cacheCleanupIntervalId = null;
     logger.info('Cache cleanup interval cleared');
   }
+  stopAllLiveRooms();
 }
 
 /**
- * Helper to get auction data with file-based caching.
- * Uses distributed Redis locks (with in-memory fallback) to prevent concurrent scrapes
- * for the same room across multiple server instances.
+ * POST /api/auction/manual/inflation
+ * Calculates inflation for a manual draft (no Couch Managers room).
+ * Team budgets and roster counts are built from the entered picks, so team
+ * constraints work the same as in a synced room.
+ *
+ * Body should contain:
+ * - leagueConfig: { numTeams, budgetPerTeam, totalRosterSpots, rosterSpots, keepers }
+ * - teams: Fantasy team names
+ * - players: Drafted players (with draftedBy and draftedPrice), plus the
+ *   undrafted players with value left - the only ones inflation reads
+ * Requires authentication.
  */
-async function getAuctionDataWithCache(
-  roomId: string,
-  forceRefresh: boolean = false
-): Promise<ScrapedAuctionData> {
-  // Check file-based cache first (unless force refresh)
-  if (!forceRefresh) {
-    const cached = await getCachedAuctionData(roomId);
-    if (cached && !cached.isStale) {
-      return cached.data;
-    }
+router.post('/manual/inflation', requireAuth, (req: Request, res: Response) => {
+  const parsed = ManualDraftSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: 'Invalid manual draft data',
+      message: parsed.error.errors[0]?.message ?? 'Invalid request body',
+    });
   }
 
-  const lockKey = `scraping-${roomId}`;
-
-  // Check in-memory lock first (handles requests within same instance)
-  let scrapePromise = scrapingLocks.get(lockKey);
-  if (scrapePromise) {
-    logger.debug({ roomId }, 'Waiting for existing local scrape');
-    return scrapePromise;
+  try {
+    const { leagueConfig, teams, players } = parsed.data;
+    const inflationStats = calculateManualInflation(
+      players,
+      teams,
+      toInflationLeagueConfig(leagueConfig, toKeeperCostsFromProjections(leagueConfig.keepers, players))
+    );
+    res.json(inflationStats);
+  } catch (error) {
+    logger.error({ error }, 'Error calculating manual draft inflation');
+    res.status(500).json({
+      error: 'Failed to calculate inflation.',
+    });
   }
+});
 
-  // Check distributed lock (handles requests across instances)
-  const isLockedRemotely = await isDistributedLocked(lockKey);
-  if (isLockedRemotely) {
-    // Another instance is scraping - wait briefly and check cache
-    logger.debug({ roomId }, 'Room is being scraped by another instance, waiting');
-    // Wait up to 30 seconds, polling cache every 2 seconds
-    for (let i = 0; i < 15; i++) {
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      const cached = await getCachedAuctionData(roomId);
-      if (cached && !cached.isStale) {
-        logger.debug({ roomId }, 'Found cached data after waiting');
-        return cached.data;
-      }
-      // Check if still locked
-      if (!(await isDistributedLocked(lockKey))) {
-        logger.debug({ roomId }, 'Remote lock released, checking cache');
-        const freshCached = await getCachedAuctionData(roomId);
-        if (freshCached && !freshCached.isStale) {
-          return freshCached.data;
-        }
-        break; // Lock released but no cache - we should scrape
-      }
-    }
-    logger.debug({ roomId }, 'Timeout waiting for remote scrape, attempting own scrape');
+/**
+ * POST /api/auction/forecast
+ * Monte Carlo forecast of final prices for the remaining pool.
+ * Requires authentication. Large leagues get fewer iterations (see MAX_SIMULATION_WORK).
+ *
+ * Body should contain:
+ * - players: Remaining (undrafted) players with projected values
+ * - teams: Team budget constraints from the current inflation stats
+ * - positionalScarcity (optional): From the current inflation stats
+ * - iterations (optional): Number of simulated auction completions
+ */
+router.post('/forecast', requireAuth, (req: Request, res: Response) => {
+  const parsed = PriceForecastSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: 'Invalid forecast request',
+      message: parsed.error.errors[0]?.message ?? 'Invalid request body',
+    });
   }
 
-  // Try to acquire distributed lock
-  const acquiredDistributedLock = await acquireDistributedLock(lockKey);
-  if (!acquiredDistributedLock) {
-    // Race condition - another instance just acquired the lock
-    // Wait briefly and check cache again
-    logger.debug({ roomId }, 'Lost race for distributed lock, waiting');
-    await new Promise(resolve => setTimeout(resolve, 5000));
-    const cached = await getCachedAuctionData(roomId);
-    if (cached && !cached.isStale) {
-      return cached.data;
-    }
-    // If still no cache, proceed with scrape anyway (lock may have been released)
+  try {
+    const { players, teams, positionalScarcity, iterations } = parsed.data;
+    const forecasts = simulateAuctionOutcomes(players, teams, { iterations, positionalScarcity });
+    res.json({ forecasts });
+  } catch (error) {
+    logger.error({ error }, 'Error simulating auction outcomes');
+    res.status(500).json({
+      error: 'Failed to forecast prices.',
+    });
   }
-
-  // No scrape in progress, start one
-  logger.info({ roomId }, 'Scraping fresh auction data');
-  const startTime = Date.now();
-
-  // Create the promise and immediately add it to the local lock map
-  scrapePromise = scrapeAuction(roomId).then(async data => {
-    logger.info({ roomId, durationMs: Date.now() - startTime }, 'Scrape completed');
-
-    // Cache the result if valid
-    if (data.status !== 'not_found') {
-      await setCachedAuctionData(roomId, data);
-
-      // Check for bid changes and send SMS notifications (non-blocking)
-      checkAndSendNotifications(roomId, data).catch(err => {
-        logger.error({ error: err, roomId }, 'Notification check failed');
-      });
-    }
-
-    return data;
-  }).finally(async () => {
-    // Release both locks
-    scrapingLocks.delete(lockKey);
-    await releaseDistributedLock(lockKey);
-  });
-
-  // Set the local lock immediately (synchronously)
-  scrapingLocks.set(lockKey, scrapePromise);
-
-  return scrapePromise;
-}
+});
 
 /**
  * GET /api/auction/:roomId
@@ -374,14 +404,20 @@ router.get('/:roomId', async (req: Request, res: Response) => {
  *
  * Body should contain:
  * - projections: Array of player projections from the client
- * - leagueConfig: { numTeams, budgetPerTeam, totalRosterSpots }
+ * - leagueConfig: { numTeams, budgetPerTeam, totalRosterSpots, keepers }
+ * - leagueId (optional): Saved league linked to this room - picks are recorded
+ *   for it when I own or co-manage it
+ * - cursor (optional): Cursor from the previous sync; if still known, only
+ *   changes since then are returned (AuctionSyncDelta)
  *
  * Query params:
  * - refresh=true: Force a fresh scrape, bypassing cache
+ *
+ * Requires a tier with live sync (402 SUB_UPGRADE_REQUIRED otherwise).
  */
-router.post('/:roomId/sync', async (req: Request, res: Response) => {
+router.post('/:roomId/sync', requireAuth, requireFeature('liveSync'), async (req: Request, res: Response) => {
   const { roomId } = req.params;
-  const { projections, leagueConfig } = req.body;
+  const { projections, leagueConfig, leagueId, cursor } = req.body;
   const forceRefresh = req.query.refresh === 'true';
 
   if (!roomId || !/^\d+$/.test(roomId) || roomId.length > 6) {
@@ -396,6 +432,11 @@ router.post('/:roomId/sync', async (req: Request, res: Response) => {
       error: 'Projections array is required in request body.',
     });
   }
+  if (leagueId !== undefined && typeof leagueId !== 'string') {
+    return res.status(400).json({
+      error: 'leagueId must be a string.',
+    });
+  }
 
   // Validate league config with Zod
   let validatedConfig;
@@ -421,7 +462,10 @@ router.post('/:roomId/sync', async (req: Request, res: Response) => {
     const { matched, unmatched } = matchAllPlayers(auctionData.players, projections);
 
     // Calculate inflation stats with team data for effective budget and positional scarcity
-    const inflationLeagueConfig = toInflationLeagueConfig(validatedConfig);
+    const inflationLeagueConfig = toInflationLeagueConfig(
+      validatedConfig,
+      toKeeperCostsFromProjections(validatedConfig.keepers, projections)
+    );
     const inflationStats = calculateInflationStats(matched, inflationLeagueConfig, auctionData.teams);
 
     const result: AuctionSyncResult = {
@@ -431,7 +475,14 @@ router.post('/:roomId/sync', async (req: Request, res: Response) => {
       unmatchedPlayers: unmatched,
     };
 
-    res.json(result);
+    // Record picks for the league being drafted (non-blocking)
+    if (leagueId) {
+      persistDraftProgress(auctionData, matched, inflationStats, { leagueId, userId: getAuthUser(req).id }).catch(err => {
+        logger.error({ error: err, roomId, leagueId }, 'Draft persistence failed');
+      });
+    }
+
+    res.json(toSyncResponse(result, cursor));
   } catch (error) {
     logger.error({ error, roomId }, 'Error syncing auction');
     res.status(503).json({
@@ -447,15 +498,23 @@ router.post('/:roomId/sync', async (req: Request, res: Response) => {
  * Uses file-based caching with 5-minute TTL to reduce Couch Managers API load.
  *
  * Body should contain:
- * - projectionSystem: 'steamer' | 'batx' | 'ja'
+ * - projectionSystem: 'steamer' | 'batx' | 'ja' | 'blend' | 'custom'
+ * - projectionBlend (blend only): Relative weight per projection system
+ * - customProjectionSetId (custom only): Uploaded projection set - requires auth
+ * - leagueId (optional): Saved league whose per-player stat overrides apply. Picks
+ *   are recorded for it when it's linked to this room and I own or co-manage it
  * - leagueConfig: { numTeams, budgetPerTeam, totalRosterSpots }
+ * - cursor (optional): Cursor from the previous sync; if still known, only
+ *   changes since then are returned (AuctionSyncDelta)
  *
  * Query params:
  * - refresh=true: Force a fresh scrape, bypassing cache
+ *
+ * Requires a tier with live sync (402 SUB_UPGRADE_REQUIRED otherwise).
  */
-router.post('/:roomId/sync-lite', async (req: Request, res: Response) => {
+router.post('/:roomId/sync-lite', requireAuth, requireFeature('liveSync'), async (req: Request, res: Response) => {
   const { roomId } = req.params;
-  const { projectionSystem = 'steamer', leagueConfig } = req.body;
+  const { projectionSystem = 'steamer', projectionBlend, customProjectionSetId, leagueId, leagueConfig, cursor } = req.body;
   const forceRefresh = req.query.refresh === 'true';
 
   if (!roomId || !/^\d+$/.test(roomId) || roomId.length > 6) {
@@ -475,10 +534,53 @@ router.post('/:roomId/sync-lite', async (req: Request, res: Response) => {
     });
   }
 
+  const isBlend = projectionSystem === 'blend';
+  const blendWeights = ProjectionBlendSchema.safeParse(projectionBlend ?? {});
+  if (isBlend && (!blendWeights.success || getActiveBlendSystems(blendWeights.data).length === 0)) {
+    return res.status(400).json({
+      error: 'projectionBlend must give at least one projection system a positive weight.',
+    });
+  }
+
+  const isCustom = projectionSystem === 'custom';
+  if (isCustom && typeof customProjectionSetId !== 'string') {
+    return res.status(400).json({
+      error: 'customProjectionSetId is required for custom projections.',
+    });
+  }
+  if (leagueId !== undefined && typeof leagueId !== 'string') {
+    return res.status(400).json({
+      error: 'leagueId must be a string.',
+    });
+  }
+
+  const user = getAuthUser(req);
+
   try {
+    // Blends load each system through the cache, then combine them; uploaded sets come from the database
+    let loadedProjections;
+    if (isCustom) {
+      const customProjections = await loadCustomProjections(customProjectionSetId, user.id);
+      if (!customProjections) {
+        return res.status(404).json({
+          error: 'Custom projection set not found.',
+        });
+      }
+      loadedProjections = customProjections;
+    } else if (isBlend && blendWeights.success) {
+      try {
+        loadedProjections = await loadBlendedProjections(blendWeights.data, getOrFetchProjections);
+      } catch (fetchError) {
+        logger.error({ error: fetchError, projectionBlend }, 'Failed to load blended projections');
+        return res.status(503).json({
+          error: 'Failed to load projections for the blend. Please try again.',
+        });
+      }
+    }
+
     // Get projections from server cache, or fetch fresh if cache is empty
-    let cachedProjections = await getCachedProjections(projectionSystem);
-    if (!cachedProjections) {
+    let cachedProjections = loadedProjections ? null : await getCachedProjections(projectionSystem);
+    if (!loadedProjections && !cachedProjections) {
       logger.info({ projectionSystem }, 'No cached projections, fetching fresh');
       try {
         // Import and fetch projections dynamically based on system
@@ -512,12 +614,24 @@ router.post('/:roomId/sync-lite', async (req: Request, res: Response) => {
       }
     }
 
-    if (!cachedProjections) {
+    let sourceProjections = loadedProjections ?? cachedProjections?.projections;
+    if (!sourceProjections) {
       return res.status(503).json({
         error: `No projections available for ${projectionSystem}.`,
       });
     }
 
+    // Apply the league's edited stat lines before valuing
+    if (leagueId) {
+      const overrides = await getMemberLeagueStatOverrides(leagueId, user.id);
+      if (!overrides) {
+        return res.status(404).json({
+          error: 'League not found.',
+        });
+      }
+      sourceProjections = applyStatOverrides(sourceProjections, overrides);
+    }
+
     // Build LeagueSettings from validated config for value calculation
     // Use provided rosterSpots or defaults (must have all required fields)
     const defaultRosterSpots: LeagueSettings['rosterSpots'] = {
@@ -543,11 +657,13 @@ router.post('/:roomId/sync-lite', async (req: Request, res: Response) => {
       leagueType,
       scoringType,
       projectionSystem: projectionSystem as LeagueSettings['projectionSystem'],
+      projectionBlend: isBlend && blendWeights.success ? blendWeights.data : undefined,
       // Pass user-selected categories if provided (cast to expected type)
       hittingCategories: validatedConfig.hittingCategories as LeagueSettings['hittingCategories'],
       pitchingCategories: validatedConfig.pitchingCategories as LeagueSettings['pitchingCategories'],
       pointsSettings: validatedConfig.pointsSettings,
       dynastySettings: validatedConfig.dynastySettings,
+      keepers: validatedConfig.keepers,
     };
 
     // For dynasty leagues, fetch dynasty rankings
@@ -563,7 +679,7 @@ router.post('/:roomId/sync-lite', async (req: Request, res: Response) => {
     }
 
     // Calculate auction values for all players (with optional dynasty rankings)
-    const valuedResult = calculateAuctionValues(cachedProjections.projections, leagueSettings, dynastyRankings);
+    const valuedResult = calculateAuctionValues(sourceProjections, leagueSettings, dynastyRankings);
 
     // Transform to the format expected by playerMatcher
     // Include mlbamId for cross-projection-system matching
@@ -589,7 +705,7 @@ router.post('/:roomId/sync-lite', async (req: Request, res: Response) => {
     const { matched, unmatched } = matchAllPlayers(auctionData.players, projections);
 
     // Calculate inflation stats with team data for effective budget and positional scarcity
-    const inflationLeagueConfig = toInflationLeagueConfig(validatedConfig);
+    const inflationLeagueConfig = toInflationLeagueConfig(validatedConfig, toKeeperCosts(valuedResult.players));
     const inflationStats = calculateInflationStats(matched, inflationLeagueConfig, auctionData.teams);
 
     // Get cache status for response metadata
@@ -602,8 +718,15 @@ router.post('/:roomId/sync-lite', async (req: Request, res: Response) => {
       unmatchedPlayers: unmatched,
     };
 
+    // Record picks for the league being drafted (non-blocking)
+    if (leagueId) {
+      persistDraftProgress(auctionData, matched, inflationStats, { leagueId, userId: user.id }).catch(err => {
+        logger.error({ error: err, roomId, leagueId }, 'Draft persistence failed');
+      });
+    }
+
     res.json({
-      ...result,
+      ...toSyncResponse(result, cursor),
       fromCache: !forceRefresh && cacheStatus.exists && !cacheStatus.expired,
       cacheInfo: {
         ageSeconds: cacheStatus.ageSeconds,
@@ -666,6 +789,66 @@ router.get('/:roomId/current', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/auction/:roomId/stream
+ * Server-Sent Events stream of live room changes.
+ * All clients watching a room share one server-side scrape loop; each client
+ * receives a `diff` event only when picks, bids or team budgets change.
+ *
+ * Events:
+ * - diff: AuctionRoomDiff
+ * - error: { message }
+ * - closed: { message } - the room stopped being watched (e.g. not found); the stream ends
+ *
+ * Requires a tier with live sync (402 SUB_UPGRADE_REQUIRED otherwise).
+ * Returns 503 when the server is already watching as many rooms as it allows.
+ */
+router.get('/:roomId/stream', requireAuth, requireFeature('liveSync'), (req: Request, res: Response) => {
+  const { roomId } = req.params;
+
+  if (!roomId || !/^\d+$/.test(roomId) || roomId.length > 6) {
+    return res.status(400).json({
+      error: 'Invalid room ID',
+      message: 'Room ID must be a numeric value up to 6 digits',
+    });
+  }
+
+  const unsubscribe = subscribeToRoom(roomId, (event: LiveAuctionEvent) => {
+    const payload = event.type === 'diff' ? event.diff : { message: event.message };
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify(payload)}\n\n`);
+    if (event.type === 'closed') {
+      res.end();
+    }
+  });
+
+  if (!unsubscribe) {
+    return res.status(503).json({
+      error: 'Live updates are busy',
+      code: 'LIVE_ROOMS_FULL',
+      message: 'Too many draft rooms are being watched right now. Updates will arrive by regular sync instead.',
+    });
+  }
+
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no', // Disable proxy buffering
+  });
+  res.flushHeaders();
+  res.write(': connected\n\n');
+
+  const heartbeat = setInterval(() => {
+    res.write(': heartbeat\n\n');
+  }, STREAM_HEARTBEAT_MS);
+
+  // Fires when the client disconnects and when the stream is ended here
+  res.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+});
+
 /**
  * GET /api/auction/:roomId/cache
  * Gets cache status for a specific room. Useful for debugging.
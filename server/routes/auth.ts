@@ -1,12 +1,14 @@
 /**
  * Authentication Routes
  *
- * Handles user registration, login, token refresh, logout, and password reset.
+ * Handles user registration, login, token refresh, logout, password reset,
+ * two-factor authentication, and active session management.
  * All routes use Zod for request validation.
  */
 
 import { Router, Request, Response } from 'express';
 import { z } from 'zod';
+import QRCode from 'qrcode';
 import {
   hashPassword,
   verifyPassword,
@@ -15,7 +17,10 @@ import {
   verifyRefreshToken,
   storeRefreshToken,
   revokeRefreshToken,
-  isRefreshTokenValid,
+  touchRefreshToken,
+  revokeAllUserTokens,
+  listActiveSessions,
+  revokeSession,
   updateLastLogin,
   findUserByEmail,
   findUserById,
@@ -25,14 +30,27 @@ import {
   storePasswordResetToken,
   verifyPasswordResetToken,
   updatePassword,
+  generateTwoFactorChallengeToken,
+  verifyTwoFactorChallengeToken,
+  claimTwoFactorAttempt,
+  completeTwoFactorChallenge,
+  startTwoFactorSetup,
+  enableTwoFactor,
+  verifyTwoFactorCode,
+  disableTwoFactor,
 } from '../services/authService.js';
+import { buildOtpauthUrl } from '../services/totp.js';
+import { describeUserAgent } from '../services/userAgent.js';
 import { env } from '../config/env.js';
 import { requireAuth } from '../middleware/auth.js';
-import { passwordResetLimiter } from '../middleware/rateLimiter.js';
+import { getClientIp, passwordResetLimiter } from '../middleware/rateLimiter.js';
 import {
   toUserResponse,
   AuthResponse,
   TokenRefreshResponse,
+  TwoFactorChallengeResponse,
+  SessionClient,
+  SessionResponse,
 } from '../types/auth.js';
 import { logger, LoggerHelper } from '../services/logger.js';
 
@@ -56,6 +74,11 @@ const router = Router();
  */
 const DUMMY_PASSWORD_HASH = '$2a$12$K8HpHMKlWMBIJqRHkTz3/.wTBqPTnWL6P8KjHsXJd.HJvMdXKfGJu';
 
+/**
+ * Issuer shown next to the account in authenticator apps
+ */
+const TOTP_ISSUER = 'Fantasy Baseball Auction Tool';
+
 // =============================================================================
 // VALIDATION SCHEMAS
 // =============================================================================
@@ -115,6 +138,20 @@ const resetPasswordSchema = z.object({
   password: passwordSchema,
 });
 
+/**
+ * Two-factor code schema (authenticator code or recovery code)
+ */
+const twoFactorCodeSchema = z.object({
+  code: z.string().trim().min(6, 'Code is required').max(20),
+});
+
+/**
+ * Second login step request schema
+ */
+const twoFactorVerifySchema = twoFactorCodeSchema.extend({
+  challengeToken: z.string().min(1, 'Challenge token is required'),
+});
+
 // =============================================================================
 // HELPER FUNCTIONS
 // =============================================================================
@@ -130,6 +167,16 @@ function validateBody<T>(schema: z.ZodSchema<T>, body: unknown): { success: true
   return { success: false, errors: result.error.issues };
 }
 
+/**
+ * Device and IP for the sessions list
+ */
+function getSessionClient(req: Request): SessionClient {
+  return {
+    userAgent: req.get('user-agent')?.slice(0, 500) || null,
+    ipAddress: getClientIp(req)?.slice(0, 100) || null,
+  };
+}
+
 /**
  * Format Zod validation errors for response
  */
@@ -187,12 +234,12 @@ router.post('/register', async (req: Request, res: Response) => {
     const passwordHash = await hashPassword(password);
     const user = await createUser(email, passwordHash, name);
 
-    // Generate tokens
-    const accessToken = generateAccessToken(user);
+    // Generate tokens; the access token carries the new session's ID
     const { token: refreshToken } = generateRefreshToken(user);
 
     // Store refresh token in database
-    await storeRefreshToken(user.id, refreshToken);
+    const sessionId = await storeRefreshToken(user.id, refreshToken, getSessionClient(req));
+    const accessToken = generateAccessToken(user, sessionId);
 
     // Prepare response
     const response: AuthResponse = {
@@ -224,7 +271,8 @@ router.post('/register', async (req: Request, res: Response) => {
  * - password: Password
  *
  * Response:
- * - 200: Login successful with tokens
+ * - 200: Login successful with tokens, or { twoFactorRequired, challengeToken }
+ *        when the account has 2FA enabled (finish at POST /api/auth/2fa/verify)
  * - 400: Validation error
  * - 401: Invalid credentials
  */
@@ -280,15 +328,25 @@ router.post('/login', async (req: Request, res: Response) => {
       });
     }
 
+    // With 2FA on, the password only earns a challenge for the second step
+    if (user.twoFactorEnabledAt) {
+      const challenge: TwoFactorChallengeResponse = {
+        twoFactorRequired: true,
+        challengeToken: await generateTwoFactorChallengeToken(user),
+      };
+      LoggerHelper.logAuth('user_login_2fa_challenge', user.id, { email: user.email });
+      return res.status(200).json(challenge);
+    }
+
     // Update last login timestamp
     await updateLastLogin(user.id);
 
-    // Generate tokens
-    const accessToken = generateAccessToken(user);
+    // Generate tokens; the access token carries the new session's ID
     const { token: refreshToken } = generateRefreshToken(user);
 
     // Store refresh token in database
-    await storeRefreshToken(user.id, refreshToken);
+    const sessionId = await storeRefreshToken(user.id, refreshToken, getSessionClient(req));
+    const accessToken = generateAccessToken(user, sessionId);
 
     // Prepare response
     const response: AuthResponse = {
@@ -352,9 +410,9 @@ router.post('/refresh', async (req: Request, res: Response) => {
       });
     }
 
-    // Verify token exists in database (not revoked)
-    const isValid = await isRefreshTokenValid(refreshToken);
-    if (!isValid) {
+    // Verify token exists in database (not revoked) and mark the session used
+    const sessionId = await touchRefreshToken(refreshToken, getSessionClient(req));
+    if (!sessionId) {
       return res.status(401).json({
         error: 'Refresh token revoked',
         code: 'TOKEN_REVOKED',
@@ -373,7 +431,7 @@ router.post('/refresh', async (req: Request, res: Response) => {
     }
 
     // Generate new access token
-    const accessToken = generateAccessToken(user);
+    const accessToken = generateAccessToken(user, sessionId);
 
     const response: TokenRefreshResponse = {
       accessToken,
@@ -484,6 +542,117 @@ router.get('/me', requireAuth, async (req: Request, res: Response) => {
   }
 });
 
+// =============================================================================
+// SESSION ROUTES
+// =============================================================================
+
+/**
+ * GET /api/auth/sessions
+ *
+ * List the devices signed in to this account (one per refresh token).
+ * Requires authentication.
+ *
+ * Response:
+ * - 200: { sessions } - most recently used first, with `current` on this device
+ * - 401: Not authenticated
+ */
+router.get('/sessions', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const currentSessionId = req.tokenPayload?.sessionId;
+    const sessions = await listActiveSessions(req.user!.id);
+
+    const response: SessionResponse[] = sessions.map(session => ({
+      id: session.id,
+      device: describeUserAgent(session.userAgent),
+      userAgent: session.userAgent,
+      ipAddress: session.ipAddress,
+      createdAt: session.createdAt.toISOString(),
+      lastUsedAt: session.lastUsedAt.toISOString(),
+      expiresAt: session.expiresAt.toISOString(),
+      current: session.id === currentSessionId,
+    }));
+
+    return res.status(200).json({ sessions: response });
+  } catch (error) {
+    logger.error({ error }, 'List sessions error');
+    return res.status(500).json({
+      error: 'Failed to list sessions',
+      code: 'SESSIONS_ERROR',
+      message: 'An unexpected error occurred while loading your sessions',
+    });
+  }
+});
+
+/**
+ * DELETE /api/auth/sessions
+ *
+ * Sign out everywhere else: revoke every session except this one.
+ * Requires authentication.
+ *
+ * Response:
+ * - 200: { success, revoked }
+ * - 401: Not authenticated
+ */
+router.delete('/sessions', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.id;
+    const currentSessionId = req.tokenPayload?.sessionId;
+
+    // Tokens from before sessions were tracked don't know their session,
+    // so this signs out every device including this one
+    const revoked = await revokeAllUserTokens(userId, currentSessionId);
+
+    LoggerHelper.logAuth('sessions_revoked', userId, { revoked, keptCurrent: !!currentSessionId });
+
+    return res.status(200).json({ success: true, revoked });
+  } catch (error) {
+    logger.error({ error }, 'Revoke sessions error');
+    return res.status(500).json({
+      error: 'Failed to sign out other sessions',
+      code: 'SESSIONS_ERROR',
+      message: 'An unexpected error occurred while signing out your other sessions',
+    });
+  }
+});
+
+/**
+ * DELETE /api/auth/sessions/:id
+ *
+ * Sign out one device. Its access token keeps working until it expires
+ * (15 minutes), but it can't be refreshed.
+ * Requires authentication.
+ *
+ * Response:
+ * - 200: { success }
+ * - 401: Not authenticated
+ * - 404: No such session on this account
+ */
+router.delete('/sessions/:id', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const userId = req.user!.id;
+    const revoked = await revokeSession(userId, req.params.id);
+
+    if (!revoked) {
+      return res.status(404).json({
+        error: 'Session not found',
+        code: 'SESSION_NOT_FOUND',
+        message: 'That session has already ended',
+      });
+    }
+
+    LoggerHelper.logAuth('session_revoked', userId, { sessionId: req.params.id });
+
+    return res.status(200).json({ success: true });
+  } catch (error) {
+    logger.error({ error }, 'Revoke session error');
+    return res.status(500).json({
+      error: 'Failed to sign out session',
+      code: 'SESSIONS_ERROR',
+      message: 'An unexpected error occurred while signing out that session',
+    });
+  }
+});
+
 // =============================================================================
 // PASSWORD RESET ROUTES
 // =============================================================================
@@ -632,6 +801,295 @@ router.post('/reset-password', async (req: Request, res: Response) => {
   }
 });
 
+// =============================================================================
+// TWO-FACTOR AUTHENTICATION ROUTES
+// =============================================================================
+
+/**
+ * POST /api/auth/2fa/verify
+ *
+ * Second login step: exchange a challenge token and a code for session tokens.
+ * Recovery codes are accepted in place of an authenticator code and work once.
+ * A challenge allows 5 codes and is used up once passed; after that, sign in again.
+ *
+ * Request body:
+ * - challengeToken: From the /login or /google/callback response
+ * - code: 6-digit authenticator code or a recovery code
+ *
+ * Response:
+ * - 200: Login successful with tokens
+ * - 400: Validation error
+ * - 401: Expired or used-up challenge (INVALID_2FA_CHALLENGE) or wrong code (INVALID_2FA_CODE)
+ */
+router.post('/2fa/verify', async (req: Request, res: Response) => {
+  try {
+    const validation = validateBody(twoFactorVerifySchema, req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        code: 'VALIDATION_ERROR',
+        details: formatValidationErrors(validation.errors),
+      });
+    }
+
+    const { challengeToken, code } = validation.data;
+
+    let payload;
+    try {
+      payload = verifyTwoFactorChallengeToken(challengeToken);
+    } catch {
+      return res.status(401).json({
+        error: 'Sign-in expired',
+        code: 'INVALID_2FA_CHALLENGE',
+        message: 'Your sign-in attempt expired. Please sign in again.',
+      });
+    }
+
+    const user = await findUserById(payload.userId);
+    if (!user || !user.twoFactorEnabledAt) {
+      return res.status(401).json({
+        error: 'Sign-in expired',
+        code: 'INVALID_2FA_CHALLENGE',
+        message: 'Your sign-in attempt expired. Please sign in again.',
+      });
+    }
+
+    // Each challenge allows a few codes, counted before checking so
+    // concurrent guesses can't get past the limit
+    if (!(await claimTwoFactorAttempt(user.id, payload.challengeId))) {
+      LoggerHelper.logAuth('user_login_2fa_failed', user.id, { email: user.email, reason: 'challenge_used_up' });
+      return res.status(401).json({
+        error: 'Sign-in expired',
+        code: 'INVALID_2FA_CHALLENGE',
+        message: 'Too many incorrect codes, or your sign-in attempt expired. Please sign in again.',
+      });
+    }
+
+    const method = await verifyTwoFactorCode(user, code);
+    if (!method) {
+      LoggerHelper.logAuth('user_login_2fa_failed', user.id, { email: user.email });
+      return res.status(401).json({
+        error: 'Invalid code',
+        code: 'INVALID_2FA_CODE',
+        message: 'That code is incorrect or has already been used',
+      });
+    }
+
+    await completeTwoFactorChallenge(user.id, payload.challengeId);
+    await updateLastLogin(user.id);
+
+    const { token: refreshToken } = generateRefreshToken(user);
+    const sessionId = await storeRefreshToken(user.id, refreshToken, getSessionClient(req));
+    const accessToken = generateAccessToken(user, sessionId);
+
+    const response: AuthResponse = {
+      user: toUserResponse(user),
+      accessToken,
+      refreshToken,
+    };
+
+    LoggerHelper.logAuth('user_login', user.id, { email: user.email, twoFactorMethod: method });
+
+    return res.status(200).json(response);
+  } catch (error) {
+    logger.error({ error }, 'Two-factor verify error');
+    return res.status(500).json({
+      error: 'Verification failed',
+      code: 'TWO_FACTOR_ERROR',
+      message: 'An unexpected error occurred during sign-in',
+    });
+  }
+});
+
+/**
+ * POST /api/auth/2fa/setup
+ *
+ * Start enrollment: generate a secret and its QR code for an authenticator app.
+ * Requires authentication. 2FA isn't on until /2fa/enable confirms a code.
+ *
+ * Response:
+ * - 200: { secret, otpauthUrl, qrCodeDataUrl }
+ * - 401: Not authenticated
+ * - 409: 2FA already enabled
+ */
+router.post('/2fa/setup', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const user = await findUserById(req.user!.id);
+    if (!user) {
+      return res.status(401).json({
+        error: 'User not found',
+        code: 'USER_NOT_FOUND',
+        message: 'Your user account no longer exists',
+      });
+    }
+
+    if (user.twoFactorEnabledAt) {
+      return res.status(409).json({
+        error: 'Two-factor already enabled',
+        code: 'TWO_FACTOR_ALREADY_ENABLED',
+        message: 'Turn off two-factor authentication before setting it up again',
+      });
+    }
+
+    const secret = await startTwoFactorSetup(user.id);
+    const otpauthUrl = buildOtpauthUrl(secret, user.email, TOTP_ISSUER);
+    const qrCodeDataUrl = await QRCode.toDataURL(otpauthUrl);
+
+    return res.status(200).json({ secret, otpauthUrl, qrCodeDataUrl });
+  } catch (error) {
+    logger.error({ error }, 'Two-factor setup error');
+    return res.status(500).json({
+      error: 'Setup failed',
+      code: 'TWO_FACTOR_ERROR',
+      message: 'An unexpected error occurred while setting up two-factor authentication',
+    });
+  }
+});
+
+/**
+ * POST /api/auth/2fa/enable
+ *
+ * Finish enrollment with a code from the authenticator app.
+ * Requires authentication.
+ *
+ * Request body:
+ * - code: 6-digit authenticator code
+ *
+ * Response:
+ * - 200: { user, recoveryCodes } - recovery codes are only ever shown here
+ * - 400: Validation error, no setup in progress, or wrong code
+ * - 401: Not authenticated
+ */
+router.post('/2fa/enable', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const validation = validateBody(twoFactorCodeSchema, req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        code: 'VALIDATION_ERROR',
+        details: formatValidationErrors(validation.errors),
+      });
+    }
+
+    const user = await findUserById(req.user!.id);
+    if (!user) {
+      return res.status(401).json({
+        error: 'User not found',
+        code: 'USER_NOT_FOUND',
+        message: 'Your user account no longer exists',
+      });
+    }
+
+    if (user.twoFactorEnabledAt) {
+      return res.status(409).json({
+        error: 'Two-factor already enabled',
+        code: 'TWO_FACTOR_ALREADY_ENABLED',
+        message: 'Two-factor authentication is already on',
+      });
+    }
+
+    if (!user.twoFactorSecret) {
+      return res.status(400).json({
+        error: 'No setup in progress',
+        code: 'TWO_FACTOR_NOT_SET_UP',
+        message: 'Start two-factor setup first',
+      });
+    }
+
+    const recoveryCodes = await enableTwoFactor(user, validation.data.code);
+    if (!recoveryCodes) {
+      return res.status(400).json({
+        error: 'Invalid code',
+        code: 'INVALID_2FA_CODE',
+        message: 'That code is incorrect. Check the time on your device and try again.',
+      });
+    }
+
+    LoggerHelper.logAuth('two_factor_enabled', user.id, { email: user.email });
+
+    const updatedUser = await findUserById(user.id);
+    return res.status(200).json({
+      user: toUserResponse(updatedUser!),
+      recoveryCodes,
+    });
+  } catch (error) {
+    logger.error({ error }, 'Two-factor enable error');
+    return res.status(500).json({
+      error: 'Enable failed',
+      code: 'TWO_FACTOR_ERROR',
+      message: 'An unexpected error occurred while enabling two-factor authentication',
+    });
+  }
+});
+
+/**
+ * POST /api/auth/2fa/disable
+ *
+ * Turn off 2FA. Takes a current authenticator or recovery code so a stolen
+ * session alone can't remove the second factor.
+ * Requires authentication.
+ *
+ * Request body:
+ * - code: Authenticator or recovery code
+ *
+ * Response:
+ * - 200: { user }
+ * - 400: Validation error, 2FA not enabled, or wrong code
+ * - 401: Not authenticated
+ */
+router.post('/2fa/disable', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const validation = validateBody(twoFactorCodeSchema, req.body);
+    if (!validation.success) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        code: 'VALIDATION_ERROR',
+        details: formatValidationErrors(validation.errors),
+      });
+    }
+
+    const user = await findUserById(req.user!.id);
+    if (!user) {
+      return res.status(401).json({
+        error: 'User not found',
+        code: 'USER_NOT_FOUND',
+        message: 'Your user account no longer exists',
+      });
+    }
+
+    if (!user.twoFactorEnabledAt) {
+      return res.status(400).json({
+        error: 'Two-factor not enabled',
+        code: 'TWO_FACTOR_NOT_ENABLED',
+        message: 'Two-factor authentication is already off',
+      });
+    }
+
+    const method = await verifyTwoFactorCode(user, validation.data.code);
+    if (!method) {
+      return res.status(400).json({
+        error: 'Invalid code',
+        code: 'INVALID_2FA_CODE',
+        message: 'That code is incorrect or has already been used',
+      });
+    }
+
+    await disableTwoFactor(user.id);
+
+    LoggerHelper.logAuth('two_factor_disabled', user.id, { email: user.email });
+
+    const updatedUser = await findUserById(user.id);
+    return res.status(200).json({ user: toUserResponse(updatedUser!) });
+  } catch (error) {
+    logger.error({ error }, 'Two-factor disable error');
+    return res.status(500).json({
+      error: 'Disable failed',
+      code: 'TWO_FACTOR_ERROR',
+      message: 'An unexpected error occurred while turning off two-factor authentication',
+    });
+  }
+});
+
 // =============================================================================
 // GOOGLE OAUTH ROUTES
 // =============================================================================
@@ -709,7 +1167,7 @@ router.get('/google', (req: Request, res: Response) => {
  * - code: Authorization code from Google
  *
  * Response:
- * - 200: Login successful with tokens
+ * - 200: Login successful with tokens, or a 2FA challenge (see /login)
  * - 400: Invalid or missing code
  * - 500: OAuth exchange failed
  */
@@ -804,12 +1262,21 @@ router.post('/google/callback', async (req: Request, res: Response) => {
     });
     logger.debug({ userId: user.id }, 'User found/created');
 
-    // Generate tokens
-    const accessToken = generateAccessToken(user);
+    if (user.twoFactorEnabledAt) {
+      const challenge: TwoFactorChallengeResponse = {
+        twoFactorRequired: true,
+        challengeToken: await generateTwoFactorChallengeToken(user),
+      };
+      LoggerHelper.logAuth('google_login_2fa_challenge', user.id, { email: user.email });
+      return res.status(200).json(challenge);
+    }
+
+    // Generate tokens; the access token carries the new session's ID
     const { token: refreshToken } = generateRefreshToken(user);
 
     // Store refresh token in database
-    await storeRefreshToken(user.id, refreshToken);
+    const sessionId = await storeRefreshToken(user.id, refreshToken, getSessionClient(req));
+    const accessToken = generateAccessToken(user, sessionId);
     logger.debug('Tokens generated and stored');
 
     // Prepare response
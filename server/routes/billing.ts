@@ -0,0 +1,183 @@
+/**
+ * Billing Routes
+ *
+ * Webhook for subscription status changes from the billing provider.
+ * There's no payment integration yet, so this is a provider-neutral stand-in:
+ * callers authenticate with a shared secret and post the subscription's status,
+ * which sets the user's tier (see applyBillingEvent in services/entitlements).
+ *
+ * Providers retry and can deliver out of order, so each eventId is applied at
+ * most once and an event older than the user's last applied one is ignored.
+ */
+
+import crypto from 'crypto';
+import { Router, Request, Response } from 'express';
+import { Prisma } from '@prisma/client';
+import { z } from 'zod';
+import { prisma } from '../db.js';
+import { env } from '../config/env.js';
+import { logger } from '../services/logger.js';
+import {
+  applyBillingEvent,
+  BILLING_EVENT_TYPES,
+  SUBSCRIPTION_STATUSES,
+} from '../services/entitlements.js';
+import { ErrorCodes } from '../errors/errorCodes.js';
+
+const router = Router();
+
+// =============================================================================
+// VALIDATION SCHEMAS
+// =============================================================================
+
+const billingEventSchema = z.object({
+  eventId: z.string().min(1).max(255),
+  type: z.enum(BILLING_EVENT_TYPES),
+  // The account is matched by ID, or by email when the provider only knows that
+  userId: z.string().uuid().optional(),
+  email: z.string().email().optional(),
+  // When the change happened at the provider - orders events for a user
+  occurredAt: z.string().datetime(),
+  status: z.enum(SUBSCRIPTION_STATUSES),
+  currentPeriodEnd: z.string().datetime().optional(),
+  cancelAtPeriodEnd: z.boolean().default(false),
+}).refine(data => data.userId || data.email, {
+  message: 'userId or email is required',
+});
+
+/**
+ * Constant-time comparison of the X-Billing-Secret header
+ */
+function hasValidSecret(req: Request, secret: string): boolean {
+  const provided = req.get('x-billing-secret');
+  if (!provided) return false;
+
+  const expected = Buffer.from(secret);
+  const actual = Buffer.from(provided);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+// =============================================================================
+// WEBHOOK
+// =============================================================================
+
+/**
+ * POST /api/billing/webhook
+ * Apply a subscription status change
+ *
+ * Headers: X-Billing-Secret: <BILLING_WEBHOOK_SECRET>
+ * Body: { eventId, type, userId? | email?, occurredAt, status, currentPeriodEnd?, cancelAtPeriodEnd? }
+ *
+ * Response: { received: true, applied, reason? } where reason is
+ * 'unknown_user', 'duplicate' (eventId seen before) or 'stale' (older than
+ * the last event applied for the user)
+ */
+router.post('/webhook', async (req: Request, res: Response) => {
+  if (!env.BILLING_WEBHOOK_SECRET) {
+    res.status(503).json({
+      error: 'Billing webhook not configured',
+      code: 'BILLING_NOT_CONFIGURED',
+      message: 'Set BILLING_WEBHOOK_SECRET to accept subscription events',
+    });
+    return;
+  }
+
+  if (!hasValidSecret(req, env.BILLING_WEBHOOK_SECRET)) {
+    logger.warn({ ip: req.ip }, 'Billing webhook rejected: bad secret');
+    res.status(401).json({
+      error: 'Invalid webhook secret',
+      code: ErrorCodes.SUB_WEBHOOK_UNAUTHORIZED,
+    });
+    return;
+  }
+
+  const validation = billingEventSchema.safeParse(req.body);
+  if (!validation.success) {
+    res.status(400).json({
+      error: 'Invalid billing event',
+      code: ErrorCodes.SUB_WEBHOOK_INVALID_EVENT,
+      details: validation.error.errors,
+    });
+    return;
+  }
+
+  const event = validation.data;
+
+  try {
+    const user = await prisma.user.findFirst({
+      where: event.userId ? { id: event.userId } : { email: event.email!.toLowerCase() },
+      select: { id: true, subscriptionTier: true },
+    });
+
+    if (!user) {
+      // Acknowledge so the provider doesn't retry an event for an unknown account
+      logger.warn({ eventId: event.eventId, type: event.type }, 'Billing event for unknown user');
+      res.json({ received: true, applied: false, reason: 'unknown_user' });
+      return;
+    }
+
+    const update = applyBillingEvent({
+      type: event.type,
+      status: event.status,
+      currentPeriodEnd: event.currentPeriodEnd ? new Date(event.currentPeriodEnd) : null,
+      cancelAtPeriodEnd: event.cancelAtPeriodEnd,
+    });
+    const occurredAt = new Date(event.occurredAt);
+
+    let applied: boolean;
+    try {
+      applied = await prisma.$transaction(async (tx) => {
+        const { count } = await tx.user.updateMany({
+          where: {
+            id: user.id,
+            OR: [{ subscriptionEventAt: null }, { subscriptionEventAt: { lt: occurredAt } }],
+          },
+          data: { ...update, subscriptionEventAt: occurredAt },
+        });
+        // A repeated eventId fails here and rolls back the update above
+        await tx.billingEvent.create({
+          data: { eventId: event.eventId, type: event.type, userId: user.id, occurredAt, applied: count === 1 },
+        });
+        return count === 1;
+      });
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        logger.info({ eventId: event.eventId, type: event.type, userId: user.id }, 'Duplicate billing event ignored');
+        res.json({ received: true, applied: false, reason: 'duplicate' });
+        return;
+      }
+      throw error;
+    }
+
+    if (!applied) {
+      logger.warn(
+        { eventId: event.eventId, type: event.type, userId: user.id, occurredAt: event.occurredAt },
+        'Stale billing event ignored'
+      );
+      res.json({ received: true, applied: false, reason: 'stale' });
+      return;
+    }
+
+    logger.info(
+      {
+        eventId: event.eventId,
+        type: event.type,
+        userId: user.id,
+        status: update.subscriptionStatus,
+        previousTier: user.subscriptionTier,
+        newTier: update.subscriptionTier,
+      },
+      'Billing event applied'
+    );
+
+    res.json({ received: true, applied: true, tier: update.subscriptionTier });
+  } catch (error) {
+    logger.error({ error, eventId: event.eventId }, 'Failed to apply billing event');
+    res.status(500).json({
+      error: 'Failed to apply billing event',
+      message: 'An error occurred while updating the subscription',
+    });
+  }
+});
+
+export default router;
@@ -8,6 +8,7 @@
 import { Router, Request, Response } from 'express';
 import { z } from 'zod';
 import { logger } from '../services/logger.js';
+import { requireAuth, requireFeature } from '../middleware/auth.js';
 import { getChatResponse, isChatServiceAvailable } from '../services/chatService.js';
 import { buildDraftContext, DraftContext } from '../services/chatContextBuilder.js';
 
@@ -95,7 +96,7 @@ const ChatRequestSchema = z.object({
       )
       .optional(),
     // New fields for projection context
-    projectionSystem: z.enum(['steamer', 'batx', 'ja']).optional(),
+    projectionSystem: z.enum(['steamer', 'batx', 'ja', 'oopsy', 'blend', 'custom']).optional(),
     season: z.number().optional(),
     scoringType: z.enum(['rotisserie', 'h2h-categories', 'h2h-points']).optional(),
     categoryLeaders: CategoryLeadersSchema.optional(),
@@ -118,8 +119,10 @@ router.get('/status', (_req: Request, res: Response) => {
 /**
  * POST /api/chat
  * Send a message to the draft assistant
+ *
+ * Requires a tier with the chat assistant (402 SUB_UPGRADE_REQUIRED otherwise).
  */
-router.post('/', async (req: Request, res: Response) => {
+router.post('/', requireAuth, requireFeature('chatAssistant'), async (req: Request, res: Response) => {
   // Check if service is available
   if (!isChatServiceAvailable()) {
     return res.status(503).json({
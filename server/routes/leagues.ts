@@ -7,16 +7,43 @@
 
 import { Router, Request, Response } from 'express';
 import { z } from 'zod';
+import type { League } from '@prisma/client';
 import { prisma } from '../db.js';
+import { env } from '../config/env.js';
 import { requireAuth, getAuthUser } from '../middleware/auth.js';
 import { logger } from '../services/logger.js';
-import { fetchSteamerProjections, fetchBatXProjections } from '../services/projectionsService.js';
-import { fetchJAProjections } from '../services/jaProjectionsService.js';
-import { getCachedProjections, setCachedProjections } from '../services/projectionsCacheService.js';
+import { getOrFetchProjections } from '../services/projectionsCacheService.js';
+import { loadBlendedProjections, getActiveBlendSystems } from '../services/projectionBlender.js';
+import { loadCustomProjections } from '../services/customProjectionStore.js';
+import { applyStatOverrides, HITTING_STAT_KEYS, PITCHING_STAT_KEYS } from '../services/projectionOverrides.js';
+import { getLeagueStatOverrides, setPlayerStatOverrides } from '../services/projectionOverrideStore.js';
 import { getDynastyRankings } from '../services/dynastyRankingsScraper.js';
 import { calculateAuctionValues } from '../services/valueCalculator.js';
-import type { LeagueSettings } from '../../src/lib/types.js';
-import type { PlayerWithValue, PlayerWithDynastyValue } from '../types/projections.js';
+import { getDraftTimeline } from '../services/draftTimelineService.js';
+import { parseDraftResultsCsv, buildDraftImport } from '../services/draftImportService.js';
+import { DEFAULT_AUCTION_SOURCE, getAuctionSourceKey, isAuctionSourceType } from '../services/auctionSourceRegistry.js';
+import { getCachedAuctionData } from '../services/auctionCacheService.js';
+import { hasLeagueRole, INVITE_ROLES } from '../services/leagueMembership.js';
+import { canCreateLeague, FEATURE_LABELS, FREE_LEAGUE_LIMIT, hasFeature } from '../services/entitlements.js';
+import { ErrorCodes } from '../errors/errorCodes.js';
+import {
+  createLeagueInvite,
+  findLeagueForUser,
+  getLeagueRole,
+  leagueMemberWhere,
+  listInvitesForUser,
+  listLeagueInvites,
+  listLeagueMembers,
+  removeLeagueMember,
+  respondToInvite,
+  revokeLeagueInvite,
+  setLeagueMemberTeam,
+  updateLeagueMemberRole,
+} from '../services/leagueMembershipStore.js';
+import { AUCTION_SOURCE_TYPES } from '../types/auction.js';
+import type { DraftImportResult } from '../types/auction.js';
+import type { AuctionSourceType, KeeperEntry, LeagueSettings } from '../../src/lib/types.js';
+import type { PlayerWithValue, PlayerWithDynastyValue, ProjectionBlendWeights } from '../types/projections.js';
 
 const router = Router();
 
@@ -49,12 +76,21 @@ const rosterSpotsSchema = z.object({
 const leagueSettingsSchema = z.object({
   leagueName: z.string().min(1).max(100),
   couchManagerRoomId: z.string().optional().default(''),
+  auctionSourceType: z.enum(AUCTION_SOURCE_TYPES).optional(),
+  auctionSourceId: z.string().max(100).optional(),
   numTeams: z.number().int().min(2).max(30),
   budgetPerTeam: z.number().int().min(100).max(1000),
   rosterSpots: rosterSpotsSchema,
   leagueType: z.enum(['redraft', 'dynasty']),
   scoringType: z.enum(['rotisserie', 'h2h-categories', 'h2h-points']),
-  projectionSystem: z.enum(['steamer', 'batx', 'ja']),
+  projectionSystem: z.enum(['steamer', 'batx', 'ja', 'blend', 'custom']),
+  projectionBlend: z.object({
+    steamer: z.number().min(0).max(100).optional(),
+    batx: z.number().min(0).max(100).optional(),
+    ja: z.number().min(0).max(100).optional(),
+    oopsy: z.number().min(0).max(100).optional(),
+  }).optional(),
+  customProjectionSetId: z.string().uuid().optional(),
   dynastySettings: z.object({
     dynastyWeight: z.number().min(0).max(1),
     includeMinors: z.boolean(),
@@ -64,7 +100,21 @@ const leagueSettingsSchema = z.object({
       rank: z.number(),
       playerId: z.string().optional(),
     })).optional(),
+    projectionYears: z.number().int().min(3).max(5).optional(),
+    discountRate: z.number().min(0).max(1).optional(),
+    contractYears: z.number().int().min(1).max(10).optional(),
+    salaryEscalator: z.number().min(0).max(100).optional(),
+  }).optional(),
+  farmSettings: z.object({
+    milbSlots: z.number().int().min(0).max(50),
+    farmBudget: z.number().min(0).max(10000),
   }).optional(),
+  keepers: z.array(z.object({
+    teamName: z.string().min(1).max(100),
+    playerName: z.string().min(1).max(200),
+    playerId: z.string().optional(),
+    salary: z.number().min(0).max(10000),
+  })).max(500).optional(),
   hittingCategories: z.record(z.boolean()).optional(),
   pitchingCategories: z.record(z.boolean()).optional(),
   pointsSettings: z.record(z.number()).optional(),
@@ -94,10 +144,156 @@ const createLeagueSchema = z.object({
   lastModified: z.string().optional(),
 });
 
+// =============================================================================
+// AUCTION SOURCE MAPPING
+// =============================================================================
+
+/**
+ * Settings fields for a league's auction source. couchManagerRoomId is kept
+ * for the Couch Managers source since the draft room UI is built around it.
+ */
+function toAuctionSourceSettings(league: { auctionSourceType: string | null; auctionSourceId: string | null }) {
+  return {
+    couchManagerRoomId: league.auctionSourceType === 'couchmanagers' ? league.auctionSourceId || '' : '',
+    auctionSourceType: (league.auctionSourceType ?? undefined) as AuctionSourceType | undefined,
+    auctionSourceId: league.auctionSourceId ?? undefined,
+  };
+}
+
+/**
+ * Resolves the auction source columns from submitted settings. A Couch Managers
+ * room ID wins; otherwise an explicit non-default source is kept.
+ */
+function fromAuctionSourceSettings(settings: z.infer<typeof leagueSettingsSchema>): {
+  auctionSourceType: AuctionSourceType | null;
+  auctionSourceId: string | null;
+} {
+  if (settings.couchManagerRoomId) {
+    return { auctionSourceType: 'couchmanagers', auctionSourceId: settings.couchManagerRoomId };
+  }
+  if (settings.auctionSourceType && settings.auctionSourceType !== DEFAULT_AUCTION_SOURCE && settings.auctionSourceId) {
+    return { auctionSourceType: settings.auctionSourceType, auctionSourceId: settings.auctionSourceId };
+  }
+  return { auctionSourceType: null, auctionSourceId: null };
+}
+
+// =============================================================================
+// ENTITLEMENTS
+// =============================================================================
+
+function sendDynastyUpgradeRequired(res: Response): void {
+  res.status(402).json({
+    error: 'Upgrade required',
+    code: ErrorCodes.SUB_UPGRADE_REQUIRED,
+    message: `${FEATURE_LABELS.dynastyMode} requires a premium subscription`,
+    feature: 'dynastyMode',
+  });
+}
+
 // =============================================================================
 // ROUTES
 // =============================================================================
 
+// =============================================================================
+// LEAGUE INVITES (invitee side)
+// (registered before /:id so "invites" isn't taken for a league ID)
+// =============================================================================
+
+const respondToInviteSchema = z.object({
+  // Token from the invite link, required for every invite
+  token: z.string().max(128).optional(),
+});
+
+const INVITE_ERROR_STATUS = {
+  INVITE_NOT_FOUND: 404,
+  INVITE_FORBIDDEN: 403,
+  INVITE_NOT_PENDING: 409,
+  INVITE_EXPIRED: 410,
+} as const;
+
+const INVITE_ERROR_MESSAGES = {
+  INVITE_NOT_FOUND: 'Invite not found',
+  INVITE_FORBIDDEN: 'Open the invite link from the account it was sent to',
+  INVITE_NOT_PENDING: 'This invite has already been used or revoked',
+  INVITE_EXPIRED: 'This invite has expired',
+} as const;
+
+/**
+ * GET /api/leagues/invites
+ * The pending invite for an invite link I opened
+ *
+ * Query: token? (from the invite link; without it the list is empty)
+ */
+router.get('/invites', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const user = getAuthUser(req);
+    const token = typeof req.query.token === 'string' ? req.query.token : undefined;
+    const invites = await listInvitesForUser(user, token);
+    res.json({ invites });
+  } catch (error) {
+    logger.error({ error }, 'Failed to fetch league invites');
+    res.status(500).json({
+      error: 'Failed to fetch invites',
+      code: 'INVITE_FETCH_ERROR',
+      message: 'An error occurred while fetching your league invites',
+    });
+  }
+});
+
+/**
+ * Accepts or declines an invite; the token from the invite link is required
+ */
+function respondToInviteHandler(accept: boolean) {
+  return async (req: Request, res: Response) => {
+    const validationResult = respondToInviteSchema.safeParse(req.body ?? {});
+    if (!validationResult.success) {
+      res.status(400).json({
+        error: 'Invalid invite response',
+        code: 'VALIDATION_ERROR',
+        details: validationResult.error.errors,
+      });
+      return;
+    }
+
+    try {
+      const user = getAuthUser(req);
+      const result = await respondToInvite(req.params.inviteId, user, validationResult.data.token, accept);
+
+      if ('error' in result) {
+        res.status(INVITE_ERROR_STATUS[result.error]).json({
+          error: INVITE_ERROR_MESSAGES[result.error],
+          code: result.error,
+        });
+        return;
+      }
+
+      res.json({ success: true, leagueId: result.leagueId });
+    } catch (error) {
+      logger.error({ error, inviteId: req.params.inviteId }, 'Failed to respond to league invite');
+      res.status(500).json({
+        error: 'Failed to respond to invite',
+        code: 'INVITE_RESPONSE_ERROR',
+        message: 'An error occurred while responding to the invite',
+      });
+    }
+  };
+}
+
+/**
+ * POST /api/leagues/invites/:inviteId/accept
+ * Join the league with the invite's role
+ *
+ * Body: { token?: string }
+ */
+router.post('/invites/:inviteId/accept', requireAuth, respondToInviteHandler(true));
+
+/**
+ * POST /api/leagues/invites/:inviteId/decline
+ *
+ * Body: { token?: string }
+ */
+router.post('/invites/:inviteId/decline', requireAuth, respondToInviteHandler(false));
+
 /**
  * GET /api/leagues
  * List all leagues for the authenticated user
@@ -108,9 +304,10 @@ router.get('/', requireAuth, async (req: Request, res: Response) => {
 
     logger.info({ userId: user.id }, 'Fetching user leagues');
 
-    // Get all leagues owned by this user
+    // Get all leagues this user owns or has joined
     const leagues = await prisma.league.findMany({
-      where: { ownerId: user.id },
+      where: leagueMemberWhere(user.id),
+      include: { userLeagues: { where: { userId: user.id }, select: { userId: true, role: true, teamName: true } } },
       orderBy: { updatedAt: 'desc' },
     });
 
@@ -120,14 +317,18 @@ router.get('/', requireAuth, async (req: Request, res: Response) => {
       leagueName: league.name,
       settings: {
         leagueName: league.name,
-        couchManagerRoomId: league.couchManagerRoomId || '',
+        ...toAuctionSourceSettings(league),
         numTeams: league.numTeams,
         budgetPerTeam: league.budgetPerTeam,
         rosterSpots: league.rosterSpots,
         leagueType: league.leagueType,
         scoringType: league.scoringType,
         projectionSystem: league.projectionSystem,
+        projectionBlend: league.projectionBlend ?? undefined,
+        customProjectionSetId: league.customProjectionSetId ?? undefined,
         dynastySettings: league.dynastySettings,
+        keepers: league.keepers ?? undefined,
+        farmSettings: league.farmSettings ?? undefined,
         hittingCategories: league.hittingCategories,
         pitchingCategories: league.pitchingCategories,
       },
@@ -136,6 +337,8 @@ router.get('/', requireAuth, async (req: Request, res: Response) => {
       lastModified: league.updatedAt.toISOString(),
       status: league.status,
       setupStep: league.setupStep,
+      role: getLeagueRole(league, user.id),
+      myTeamName: league.userLeagues[0]?.teamName ?? undefined,
     }));
 
     logger.info({ userId: user.id, count: leagues.length }, 'Leagues fetched successfully');
@@ -160,14 +363,9 @@ router.get('/:id', requireAuth, async (req: Request, res: Response) => {
     const user = getAuthUser(req);
     const { id } = req.params;
 
-    const league = await prisma.league.findFirst({
-      where: {
-        id,
-        ownerId: user.id,
-      },
-    });
+    const access = await findLeagueForUser(id, user.id);
 
-    if (!league) {
+    if (!access) {
       res.status(404).json({
         error: 'League not found',
         code: 'LEAGUE_NOT_FOUND',
@@ -176,19 +374,25 @@ router.get('/:id', requireAuth, async (req: Request, res: Response) => {
       return;
     }
 
+    const league = access.league;
+
     const formattedLeague = {
       id: league.id,
       leagueName: league.name,
       settings: {
         leagueName: league.name,
-        couchManagerRoomId: league.couchManagerRoomId || '',
+        ...toAuctionSourceSettings(league),
         numTeams: league.numTeams,
         budgetPerTeam: league.budgetPerTeam,
         rosterSpots: league.rosterSpots,
         leagueType: league.leagueType,
         scoringType: league.scoringType,
         projectionSystem: league.projectionSystem,
+        projectionBlend: league.projectionBlend ?? undefined,
+        customProjectionSetId: league.customProjectionSetId ?? undefined,
         dynastySettings: league.dynastySettings,
+        keepers: league.keepers ?? undefined,
+        farmSettings: league.farmSettings ?? undefined,
         hittingCategories: league.hittingCategories,
         pitchingCategories: league.pitchingCategories,
       },
@@ -197,6 +401,8 @@ router.get('/:id', requireAuth, async (req: Request, res: Response) => {
       lastModified: league.updatedAt.toISOString(),
       status: league.status,
       setupStep: league.setupStep,
+      role: access.role,
+      myTeamName: access.teamName ?? undefined,
     };
 
     res.json({ league: formattedLeague });
@@ -232,6 +438,21 @@ router.post('/', requireAuth, async (req: Request, res: Response) => {
 
     const data = validationResult.data;
 
+    if (data.settings.leagueType === 'dynasty' && !hasFeature(user.subscriptionTier, 'dynastyMode')) {
+      sendDynastyUpgradeRequired(res);
+      return;
+    }
+
+    const ownedLeagueCount = await prisma.league.count({ where: { ownerId: user.id } });
+    if (!canCreateLeague(user.subscriptionTier, ownedLeagueCount)) {
+      res.status(403).json({
+        error: 'League limit reached',
+        code: ErrorCodes.SUB_LEAGUE_LIMIT_REACHED,
+        message: `The free plan includes up to ${FREE_LEAGUE_LIMIT} leagues. Delete a league or upgrade to premium to create more.`,
+      });
+      return;
+    }
+
     logger.info({ userId: user.id, leagueName: data.leagueName }, 'Creating new league');
 
     // Create the league
@@ -239,16 +460,20 @@ router.post('/', requireAuth, async (req: Request, res: Response) => {
       data: {
         name: data.leagueName,
         ownerId: user.id,
-        couchManagerRoomId: data.settings.couchManagerRoomId || null,
+        ...fromAuctionSourceSettings(data.settings),
         numTeams: data.settings.numTeams,
         budgetPerTeam: data.settings.budgetPerTeam,
         scoringType: data.settings.scoringType,
         projectionSystem: data.settings.projectionSystem,
+        projectionBlend: data.settings.projectionBlend ?? undefined,
+        customProjectionSetId: data.settings.customProjectionSetId ?? null,
         leagueType: data.settings.leagueType,
         rosterSpots: data.settings.rosterSpots,
         hittingCategories: data.settings.hittingCategories ?? undefined,
         pitchingCategories: data.settings.pitchingCategories ?? undefined,
         dynastySettings: data.settings.dynastySettings ?? undefined,
+        keepers: data.settings.keepers ?? undefined,
+        farmSettings: data.settings.farmSettings ?? undefined,
         status: data.status,
         setupStep: data.setupStep ?? null,
       },
@@ -270,14 +495,18 @@ router.post('/', requireAuth, async (req: Request, res: Response) => {
       leagueName: league.name,
       settings: {
         leagueName: league.name,
-        couchManagerRoomId: league.couchManagerRoomId || '',
+        ...toAuctionSourceSettings(league),
         numTeams: league.numTeams,
         budgetPerTeam: league.budgetPerTeam,
         rosterSpots: league.rosterSpots,
         leagueType: league.leagueType,
         scoringType: league.scoringType,
         projectionSystem: league.projectionSystem,
+        projectionBlend: league.projectionBlend ?? undefined,
+        customProjectionSetId: league.customProjectionSetId ?? undefined,
         dynastySettings: league.dynastySettings,
+        keepers: league.keepers ?? undefined,
+        farmSettings: league.farmSettings ?? undefined,
         hittingCategories: league.hittingCategories,
         pitchingCategories: league.pitchingCategories,
       },
@@ -286,6 +515,7 @@ router.post('/', requireAuth, async (req: Request, res: Response) => {
       lastModified: league.updatedAt.toISOString(),
       status: league.status,
       setupStep: league.setupStep,
+      role: 'owner',
     };
 
     res.status(201).json({ league: formattedLeague });
@@ -340,6 +570,16 @@ router.put('/:id', requireAuth, async (req: Request, res: Response) => {
 
     const data = validationResult.data;
 
+    // Leagues that are already dynasty stay editable after a downgrade
+    if (
+      data.settings.leagueType === 'dynasty' &&
+      existingLeague.leagueType !== 'dynasty' &&
+      !hasFeature(user.subscriptionTier, 'dynastyMode')
+    ) {
+      sendDynastyUpgradeRequired(res);
+      return;
+    }
+
     logger.info({ userId: user.id, leagueId: id }, 'Updating league');
 
     // Update the league
@@ -350,16 +590,20 @@ router.put('/:id', requireAuth, async (req: Request, res: Response) => {
       where: { id },
       data: {
         name: data.leagueName,
-        couchManagerRoomId: data.settings.couchManagerRoomId || null,
+        ...fromAuctionSourceSettings(data.settings),
         numTeams: data.settings.numTeams,
         budgetPerTeam: data.settings.budgetPerTeam,
         scoringType: data.settings.scoringType,
         projectionSystem: data.settings.projectionSystem,
+        projectionBlend: data.settings.projectionBlend ?? undefined,
+        customProjectionSetId: data.settings.customProjectionSetId ?? null,
         leagueType: data.settings.leagueType,
         rosterSpots: data.settings.rosterSpots,
         hittingCategories: data.settings.hittingCategories ?? undefined,
         pitchingCategories: data.settings.pitchingCategories ?? undefined,
         dynastySettings: data.settings.dynastySettings ?? undefined,
+        keepers: data.settings.keepers ?? undefined,
+        farmSettings: data.settings.farmSettings ?? undefined,
         status: data.status,
         setupStep: setupStepValue,
         updatedAt: new Date(),
@@ -373,14 +617,18 @@ router.put('/:id', requireAuth, async (req: Request, res: Response) => {
       leagueName: league.name,
       settings: {
         leagueName: league.name,
-        couchManagerRoomId: league.couchManagerRoomId || '',
+        ...toAuctionSourceSettings(league),
         numTeams: league.numTeams,
         budgetPerTeam: league.budgetPerTeam,
         rosterSpots: league.rosterSpots,
         leagueType: league.leagueType,
         scoringType: league.scoringType,
         projectionSystem: league.projectionSystem,
+        projectionBlend: league.projectionBlend ?? undefined,
+        customProjectionSetId: league.customProjectionSetId ?? undefined,
         dynastySettings: league.dynastySettings,
+        keepers: league.keepers ?? undefined,
+        farmSettings: league.farmSettings ?? undefined,
         hittingCategories: league.hittingCategories,
         pitchingCategories: league.pitchingCategories,
       },
@@ -389,6 +637,7 @@ router.put('/:id', requireAuth, async (req: Request, res: Response) => {
       lastModified: league.updatedAt.toISOString(),
       status: league.status,
       setupStep: league.setupStep,
+      role: 'owner',
     };
 
     res.json({ league: formattedLeague });
@@ -416,10 +665,42 @@ const draftPlayerSchema = z.object({
   draftedPrice: z.number().optional(),
   draftedBy: z.string().optional(),  // Team name that drafted this player
   isTargeted: z.boolean().optional(), // Whether player is marked as a target/watchlist
+  valueOverride: z.number().int().min(1).max(10000).optional(), // Pinned dollar value
+  maxPrice: z.number().int().min(1).max(10000).optional(),      // Personal "max I'll pay"
 });
 
+const manualPickSchema = z.object({
+  teamName: z.string().min(1).max(100),
+  price: z.number().min(0),
+}).nullable();
+
+// Keep in sync with MAX_DRAFT_LOG_ENTRIES in src/lib/draftHistory.ts
+const MAX_DRAFT_LOG_ENTRIES = 500;
+
+/**
+ * Schema for a manual draft log entry (undo/redo history and audit trail)
+ */
+const draftLogEntrySchema = z.object({
+  id: z.string().max(50),
+  op: z.enum(['do', 'undo', 'redo']),
+  action: z.object({
+    type: z.enum(['draft', 'undraft', 'change_price', 'reassign_team', 'rename_team']),
+    playerId: z.string(),
+    playerName: z.string(),
+    from: manualPickSchema,
+    to: manualPickSchema,
+  }),
+  at: z.string().datetime(),
+});
+
+// Saved entries also record who made the change, stamped from the signed-in user
+type DraftLogEntry = z.infer<typeof draftLogEntrySchema> & { by?: string };
+
 const saveDraftStateSchema = z.object({
   players: z.array(draftPlayerSchema),
+  // New manual draft log entries. The saved log is append-only: entries are added
+  // to the end, and ones already saved (same id) are skipped.
+  logEntries: z.array(draftLogEntrySchema).max(MAX_DRAFT_LOG_ENTRIES).optional(),
   // Optional: for optimistic locking - if provided, save will fail if data has been modified
   expectedLastModified: z.string().datetime().optional(),
 });
@@ -433,15 +714,10 @@ router.get('/:id/draft-state', requireAuth, async (req: Request, res: Response)
     const user = getAuthUser(req);
     const { id } = req.params;
 
-    // Verify league exists and belongs to user
-    const league = await prisma.league.findFirst({
-      where: {
-        id,
-        ownerId: user.id,
-      },
-    });
+    // Verify league exists and the user is in it
+    const access = await findLeagueForUser(id, user.id);
 
-    if (!league) {
+    if (!access) {
       res.status(404).json({
         error: 'League not found',
         code: 'LEAGUE_NOT_FOUND',
@@ -450,6 +726,8 @@ router.get('/:id/draft-state', requireAuth, async (req: Request, res: Response)
       return;
     }
 
+    const league = access.league;
+
     // Fetch draft state from draftState JSON column
     const draftState = league.draftState as { players: Array<{
       id: string;
@@ -458,7 +736,9 @@ router.get('/:id/draft-state', requireAuth, async (req: Request, res: Response)
       draftedPrice?: number;
       draftedBy?: string;
       isTargeted?: boolean;
-    }> } | null;
+      valueOverride?: number;
+      maxPrice?: number;
+    }>; log?: DraftLogEntry[] } | null;
 
     logger.info(
       { userId: user.id, leagueId: id, playerCount: draftState?.players?.length ?? 0 },
@@ -468,6 +748,7 @@ router.get('/:id/draft-state', requireAuth, async (req: Request, res: Response)
     res.json({
       leagueId: id,
       players: draftState?.players ?? [],
+      log: draftState?.log ?? [],
       lastModified: league.updatedAt.toISOString(),
     });
   } catch (error) {
@@ -484,21 +765,18 @@ router.get('/:id/draft-state', requireAuth, async (req: Request, res: Response)
  * PUT /api/leagues/:id/draft-state
  * Save the draft state (drafted players) for a league
  * Only saves players that have been drafted (status !== 'available')
+ * New manual draft log entries (logEntries) are appended to the saved log,
+ * each stamped with who saved it
  */
 router.put('/:id/draft-state', requireAuth, async (req: Request, res: Response) => {
   try {
     const user = getAuthUser(req);
     const { id } = req.params;
 
-    // Verify league exists and belongs to user
-    const existingLeague = await prisma.league.findFirst({
-      where: {
-        id,
-        ownerId: user.id,
-      },
-    });
+    // Verify league exists and the user is in it
+    const access = await findLeagueForUser(id, user.id);
 
-    if (!existingLeague) {
+    if (!access) {
       res.status(404).json({
         error: 'League not found',
         code: 'LEAGUE_NOT_FOUND',
@@ -507,6 +785,17 @@ router.put('/:id/draft-state', requireAuth, async (req: Request, res: Response)
       return;
     }
 
+    if (!hasLeagueRole(access.role, 'co-manager')) {
+      res.status(403).json({
+        error: 'Read-only access',
+        code: 'LEAGUE_READ_ONLY',
+        message: 'Only the league owner and co-managers can change the draft',
+      });
+      return;
+    }
+
+    const existingLeague = access.league;
+
     // Validate request body
     const validationResult = saveDraftStateSchema.safeParse(req.body);
     if (!validationResult.success) {
@@ -519,7 +808,7 @@ router.put('/:id/draft-state', requireAuth, async (req: Request, res: Response)
       return;
     }
 
-    const { players, expectedLastModified } = validationResult.data;
+    const { players, logEntries = [], expectedLastModified } = validationResult.data;
 
     // Optimistic locking: check if data has been modified since client last read it
     if (expectedLastModified) {
@@ -542,21 +831,37 @@ router.put('/:id/draft-state', requireAuth, async (req: Request, res: Response)
       }
     }
 
-    // Store players that are either drafted/on_block OR targeted (even if available)
-    // This allows us to persist watchlist/target selections across sessions
-    const playersToSave = players.filter(p => p.status !== 'available' || p.isTargeted === true);
+    // Store players that are either drafted/on_block OR targeted/priced (even if available)
+    // This allows us to persist watchlist/target selections and price targets across sessions
+    const playersToSave = players.filter(p =>
+      p.status !== 'available' ||
+      p.isTargeted === true ||
+      p.valueOverride !== undefined ||
+      p.maxPrice !== undefined
+    );
 
     logger.info(
       { userId: user.id, leagueId: id, savedCount: playersToSave.length },
       'Saving draft state'
     );
 
+    const existingState = existingLeague.draftState as { log?: DraftLogEntry[] } | null;
+    const existingLog = existingState?.log ?? [];
+    const savedEntryIds = new Set(existingLog.map(entry => entry.id));
+    const actor = user.name || user.email;
+    const logToSave = [
+      ...existingLog,
+      ...logEntries
+        .filter(entry => !savedEntryIds.has(entry.id))
+        .map(entry => ({ ...entry, by: actor })),
+    ].slice(-MAX_DRAFT_LOG_ENTRIES);
+
     // Store draft state as JSON in the league record
     const newUpdatedAt = new Date();
     await prisma.league.update({
       where: { id },
       data: {
-        draftState: { players: playersToSave },
+        draftState: { players: playersToSave, log: logToSave },
         updatedAt: newUpdatedAt,
       },
     });
@@ -584,13 +889,72 @@ router.put('/:id/draft-state', requireAuth, async (req: Request, res: Response)
 // LEAGUE PROJECTIONS EXPORT
 // =============================================================================
 
-const VALID_PROJECTION_SYSTEMS = ['steamer', 'batx', 'ja'] as const;
+const VALID_PROJECTION_SYSTEMS = ['steamer', 'batx', 'ja', 'blend', 'custom'] as const;
 type ProjectionSystem = typeof VALID_PROJECTION_SYSTEMS[number];
 
 function isValidProjectionSystem(system: string): system is ProjectionSystem {
   return VALID_PROJECTION_SYSTEMS.includes(system as ProjectionSystem);
 }
 
+/**
+ * Get projections for a league from cache, fetching and caching fresh ones on a miss.
+ * Blends combine each weighted system's projections; custom sets are loaded as the league owner.
+ */
+async function loadSystemProjections(projectionSystem: ProjectionSystem, league: League) {
+  if (projectionSystem === 'custom') {
+    if (!league.customProjectionSetId) {
+      return null;
+    }
+    const projections = await loadCustomProjections(league.customProjectionSetId, league.ownerId);
+    return projections ? { projections } : null;
+  }
+
+  if (projectionSystem === 'blend') {
+    const weights = (league.projectionBlend ?? {}) as ProjectionBlendWeights;
+    if (getActiveBlendSystems(weights).length === 0) {
+      return null;
+    }
+    return { projections: await loadBlendedProjections(weights, getOrFetchProjections) };
+  }
+
+  return { projections: await getOrFetchProjections(projectionSystem) };
+}
+
+/**
+ * Get projections for a league with the league's per-player stat overrides applied
+ */
+async function loadProjections(projectionSystem: ProjectionSystem, league: League) {
+  const loaded = await loadSystemProjections(projectionSystem, league);
+  if (!loaded) {
+    return null;
+  }
+  const overrides = await getLeagueStatOverrides(league.id);
+  return { projections: applyStatOverrides(loaded.projections, overrides) };
+}
+
+/**
+ * Build league settings from stored league data
+ */
+function toLeagueSettings(league: League, projectionSystem: ProjectionSystem): LeagueSettings {
+  return {
+    leagueName: league.name,
+    ...toAuctionSourceSettings(league),
+    numTeams: league.numTeams,
+    budgetPerTeam: league.budgetPerTeam,
+    rosterSpots: league.rosterSpots as LeagueSettings['rosterSpots'],
+    leagueType: league.leagueType as LeagueSettings['leagueType'],
+    scoringType: league.scoringType as LeagueSettings['scoringType'],
+    projectionSystem: projectionSystem,
+    projectionBlend: (league.projectionBlend ?? undefined) as LeagueSettings['projectionBlend'],
+    customProjectionSetId: league.customProjectionSetId ?? undefined,
+    dynastySettings: league.dynastySettings as unknown as LeagueSettings['dynastySettings'],
+    keepers: (league.keepers ?? undefined) as unknown as LeagueSettings['keepers'],
+    farmSettings: (league.farmSettings ?? undefined) as LeagueSettings['farmSettings'],
+    hittingCategories: league.hittingCategories as LeagueSettings['hittingCategories'],
+    pitchingCategories: league.pitchingCategories as LeagueSettings['pitchingCategories'],
+  };
+}
+
 /**
  * Export player projection format for the projections endpoint
  */
@@ -616,15 +980,10 @@ router.get('/:id/projections', requireAuth, async (req: Request, res: Response)
     const user = getAuthUser(req);
     const { id } = req.params;
 
-    // Verify league exists and belongs to user
-    const league = await prisma.league.findFirst({
-      where: {
-        id,
-        ownerId: user.id,
-      },
-    });
+    // Verify league exists and the user is in it
+    const access = await findLeagueForUser(id, user.id);
 
-    if (!league) {
+    if (!access) {
       res.status(404).json({
         error: 'League not found',
         code: 'LEAGUE_NOT_FOUND',
@@ -633,6 +992,8 @@ router.get('/:id/projections', requireAuth, async (req: Request, res: Response)
       return;
     }
 
+    const league = access.league;
+
     // Validate projection system
     const projectionSystem = league.projectionSystem;
     if (!isValidProjectionSystem(projectionSystem)) {
@@ -650,34 +1011,7 @@ router.get('/:id/projections', requireAuth, async (req: Request, res: Response)
     );
 
     // Get projections (from cache or fetch fresh)
-    let cached = await getCachedProjections(projectionSystem);
-
-    if (!cached) {
-      logger.info({ projectionSystem }, 'No cached projections, fetching fresh');
-
-      let projections;
-      switch (projectionSystem) {
-        case 'steamer':
-          projections = await fetchSteamerProjections();
-          break;
-        case 'ja':
-          projections = await fetchJAProjections();
-          break;
-        case 'batx':
-          projections = await fetchBatXProjections();
-          break;
-        default:
-          res.status(400).json({
-            error: 'Invalid projection system',
-            code: 'INVALID_PROJECTION_SYSTEM',
-            message: `Unsupported projection system: ${projectionSystem}`,
-          });
-          return;
-      }
-
-      await setCachedProjections(projectionSystem, projections);
-      cached = await getCachedProjections(projectionSystem);
-    }
+    const cached = await loadProjections(projectionSystem, league);
 
     if (!cached) {
       res.status(503).json({
@@ -688,20 +1022,7 @@ router.get('/:id/projections', requireAuth, async (req: Request, res: Response)
       return;
     }
 
-    // Build league settings from stored league data
-    const leagueSettings: LeagueSettings = {
-      leagueName: league.name,
-      couchManagerRoomId: league.couchManagerRoomId || '',
-      numTeams: league.numTeams,
-      budgetPerTeam: league.budgetPerTeam,
-      rosterSpots: league.rosterSpots as LeagueSettings['rosterSpots'],
-      leagueType: league.leagueType as LeagueSettings['leagueType'],
-      scoringType: league.scoringType as LeagueSettings['scoringType'],
-      projectionSystem: projectionSystem,
-      dynastySettings: league.dynastySettings as unknown as LeagueSettings['dynastySettings'],
-      hittingCategories: league.hittingCategories as LeagueSettings['hittingCategories'],
-      pitchingCategories: league.pitchingCategories as LeagueSettings['pitchingCategories'],
-    };
+    const leagueSettings = toLeagueSettings(league, projectionSystem);
 
     // For dynasty leagues, also fetch dynasty rankings
     let dynastyRankings;
@@ -805,6 +1126,373 @@ router.get('/:id/projections', requireAuth, async (req: Request, res: Response)
   }
 });
 
+// =============================================================================
+// DRAFT IMPORT
+// =============================================================================
+
+const draftImportSchema = z.object({
+  csv: z.string().min(1).max(1_000_000),
+  myTeamName: z.string().max(100).optional(),
+  resolutions: z.record(z.string()).optional(), // CSV row number -> player ID for unmatched rows
+  skipUnmatched: z.boolean().optional().default(false), // Import anyway, leaving unresolved rows out
+  dryRun: z.boolean().optional().default(false),
+});
+
+/**
+ * POST /api/leagues/:id/draft-import
+ * Import offline draft results from CSV (player name, team, price, fantasy team,
+ * optional pick order). Rows are matched to the league's projections; unmatched
+ * rows come back with candidate players so they can be resolved and re-submitted.
+ *
+ * Replaces the league's drafted players, unless dryRun is set. Unresolved rows
+ * are rejected unless skipUnmatched is set; the draft is only marked complete
+ * when every row was imported.
+ */
+router.post('/:id/draft-import', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const user = getAuthUser(req);
+    const { id } = req.params;
+
+    // Verify league exists and the user is in it
+    const access = await findLeagueForUser(id, user.id);
+
+    if (!access) {
+      res.status(404).json({
+        error: 'League not found',
+        code: 'LEAGUE_NOT_FOUND',
+        message: 'The requested league does not exist or you do not have access to it',
+      });
+      return;
+    }
+
+    if (!hasLeagueRole(access.role, 'co-manager')) {
+      res.status(403).json({
+        error: 'Read-only access',
+        code: 'LEAGUE_READ_ONLY',
+        message: 'Only the league owner and co-managers can change the draft',
+      });
+      return;
+    }
+
+    const league = access.league;
+
+    const validationResult = draftImportSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      res.status(400).json({
+        error: 'Invalid draft import data',
+        code: 'VALIDATION_ERROR',
+        details: validationResult.error.errors,
+      });
+      return;
+    }
+
+    const { csv, myTeamName, resolutions, skipUnmatched, dryRun } = validationResult.data;
+
+    let parsed;
+    try {
+      parsed = parseDraftResultsCsv(csv);
+    } catch (parseError) {
+      // Parse errors name the missing columns, so surface them as the error itself
+      res.status(400).json({
+        error: parseError instanceof Error ? parseError.message : 'Invalid CSV',
+        code: 'INVALID_CSV',
+        message: 'Unable to parse draft results CSV',
+      });
+      return;
+    }
+
+    const projectionSystem = league.projectionSystem;
+    if (!isValidProjectionSystem(projectionSystem)) {
+      res.status(400).json({
+        error: 'Invalid projection system',
+        code: 'INVALID_PROJECTION_SYSTEM',
+        message: `League has invalid projection system: ${projectionSystem}`,
+      });
+      return;
+    }
+
+    const cached = await loadProjections(projectionSystem, league);
+    if (!cached) {
+      res.status(503).json({
+        error: 'Failed to load projections',
+        code: 'PROJECTIONS_UNAVAILABLE',
+        message: 'Unable to fetch or load projection data',
+      });
+      return;
+    }
+
+    // Match against league-valued players so IDs line up with the draft room
+    const valued = calculateAuctionValues(cached.projections, toLeagueSettings(league, projectionSystem));
+    const projections = valued.players.map(p => ({
+      id: p.externalId,
+      mlbamId: p.mlbamId,
+      name: p.name,
+      team: p.team,
+      positions: p.positions,
+      projectedValue: p.auctionValue ?? 0,
+    }));
+
+    const { players, unmatched } = buildDraftImport(parsed.rows, projections, {
+      myTeamName,
+      resolutions: resolutions
+        ? Object.fromEntries(Object.entries(resolutions).map(([row, playerId]) => [Number(row), playerId]))
+        : undefined,
+    });
+
+    if (!dryRun && unmatched.length > 0 && !skipUnmatched) {
+      res.status(409).json({
+        error: 'Unmatched players',
+        code: 'DRAFT_IMPORT_UNMATCHED',
+        message: `${unmatched.length} player(s) still need a match - resolve them or skip them to import the rest`,
+      });
+      return;
+    }
+
+    // Skipped or invalid rows mean some picks are missing, so the draft stays open
+    const complete = unmatched.length === 0 && parsed.errors.length === 0;
+
+    const result: DraftImportResult = {
+      leagueId: id,
+      applied: !dryRun,
+      complete,
+      totalRows: parsed.rows.length,
+      importedCount: players.length,
+      teams: [...new Set(parsed.rows.map(r => r.fantasyTeam))],
+      unmatched,
+      rowErrors: parsed.errors,
+    };
+
+    if (!dryRun) {
+      // Keep watchlist targets and price targets for players that were not drafted
+      const existingState = league.draftState as { players?: Array<{
+        id: string;
+        name: string;
+        isTargeted?: boolean;
+        valueOverride?: number;
+        maxPrice?: number;
+      }>; log?: DraftLogEntry[] } | null;
+      const importedIds = new Set(players.map(p => p.id));
+      const targets = (existingState?.players ?? [])
+        .filter(p => (p.isTargeted || p.valueOverride !== undefined || p.maxPrice !== undefined) && !importedIds.has(p.id))
+        .map(p => ({
+          id: p.id,
+          name: p.name,
+          status: 'available',
+          isTargeted: p.isTargeted,
+          valueOverride: p.valueOverride,
+          maxPrice: p.maxPrice,
+        }));
+
+      const now = new Date();
+      await prisma.league.update({
+        where: { id },
+        data: {
+          // The manual draft log is append-only, so an import keeps it
+          draftState: { players: [...players, ...targets], log: existingState?.log ?? [] },
+          ...(complete ? { status: 'complete', draftCompletedAt: league.draftCompletedAt ?? now } : {}),
+          updatedAt: now,
+        },
+      });
+      result.lastModified = now.toISOString();
+    }
+
+    logger.info(
+      {
+        userId: user.id,
+        leagueId: id,
+        dryRun,
+        totalRows: result.totalRows,
+        imported: result.importedCount,
+        unmatched: unmatched.length,
+        rowErrors: parsed.errors.length,
+      },
+      'Draft import processed'
+    );
+
+    res.json(result);
+  } catch (error) {
+    logger.error({ error, leagueId: req.params.id }, 'Failed to import draft');
+    res.status(500).json({
+      error: 'Failed to import draft',
+      code: 'DRAFT_IMPORT_ERROR',
+      message: 'An error occurred while importing draft results',
+    });
+  }
+});
+
+/**
+ * GET /api/leagues/:id/timeline
+ * Ordered pick events with inflation, team budgets and positional scarcity
+ * as of each pick. Built from picks persisted during Couch Managers syncs,
+ * with the room's teams (from the last cached scrape) and the league's keepers.
+ */
+router.get('/:id/timeline', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const user = getAuthUser(req);
+    const { id } = req.params;
+
+    // Verify league exists and the user is in it
+    const access = await findLeagueForUser(id, user.id);
+
+    if (!access) {
+      res.status(404).json({
+        error: 'League not found',
+        code: 'LEAGUE_NOT_FOUND',
+        message: 'The requested league does not exist or you do not have access to it',
+      });
+      return;
+    }
+
+    const league = access.league;
+
+    const picks = await prisma.draftPick.findMany({
+      where: { leagueId: id },
+      orderBy: { pickNumber: 'asc' },
+      include: {
+        player: {
+          select: { id: true, name: true, team: true, positions: true },
+        },
+      },
+    });
+
+    // Projected values at draft time live on LeaguePlayer
+    const leaguePlayers = await prisma.leaguePlayer.findMany({
+      where: { leagueId: id, playerId: { in: picks.map(p => p.playerId) } },
+      select: { playerId: true, projectedValue: true },
+    });
+    const projectedValues = new Map(leaguePlayers.map(lp => [lp.playerId, lp.projectedValue]));
+
+    // Room teams include ones that never won a player
+    const sourceType = league.auctionSourceType ?? DEFAULT_AUCTION_SOURCE;
+    const cachedRoom = league.auctionSourceId && isAuctionSourceType(sourceType)
+      ? await getCachedAuctionData(getAuctionSourceKey(sourceType, league.auctionSourceId), { staleWhileRevalidate: true })
+      : null;
+
+    // Keeper values aren't stored, so they're charged at salary with no surplus
+    const keepers = ((league.keepers ?? []) as unknown as KeeperEntry[]).map(k => ({
+      teamName: k.teamName,
+      playerName: k.playerName,
+      salary: k.salary,
+      projectedValue: k.salary,
+    }));
+
+    const events = getDraftTimeline(
+      league.id,
+      picks.map(pick => ({
+        pickNumber: pick.pickNumber,
+        draftedAt: pick.draftedAt,
+        price: pick.price,
+        draftedBy: pick.draftedByTeam,
+        inflationRateAtPick: pick.inflationRateAtPick,
+        projectedValue: projectedValues.get(pick.playerId) ?? null,
+        player: pick.player,
+      })),
+      {
+        numTeams: league.numTeams,
+        budgetPerTeam: league.budgetPerTeam,
+        rosterSpots: league.rosterSpots as Record<string, number>,
+        teamNames: cachedRoom?.data.teams.map(t => t.name),
+        keepers,
+      }
+    );
+
+    res.json({
+      leagueId: league.id,
+      leagueName: league.name,
+      totalPicks: events.length,
+      events,
+    });
+  } catch (error) {
+    logger.error({ error, leagueId: req.params.id }, 'Failed to build draft timeline');
+    res.status(500).json({
+      error: 'Failed to fetch timeline',
+      code: 'TIMELINE_FETCH_ERROR',
+      message: 'An error occurred while building the draft timeline',
+    });
+  }
+});
+
+const statValueSchema = z.number().finite().min(0);
+
+const statOverridesSchema = z.object({
+  player: z.object({
+    mlbamId: z.number().int().optional(),
+    name: z.string().min(1).max(200),
+    team: z.string().max(10).optional(),
+    positions: z.array(z.string()).max(20),
+    playerType: z.enum(['hitter', 'pitcher']),
+  }),
+  // null reverts the player to the league's projection system
+  overrides: z.object({
+    hitting: z.record(z.enum(HITTING_STAT_KEYS), statValueSchema).optional(),
+    pitching: z.record(z.enum(PITCHING_STAT_KEYS), statValueSchema).optional(),
+  }).nullable(),
+});
+
+/**
+ * PUT /api/leagues/:id/players/:externalId/overrides
+ * Edit a player's projected stat line for this league (e.g. a closer's saves).
+ * Overrides are applied before auction values are calculated; null or an
+ * empty stat line reverts to the projection system.
+ */
+router.put('/:id/players/:externalId/overrides', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const user = getAuthUser(req);
+    const { id, externalId } = req.params;
+
+    // Verify league exists and belongs to user
+    const league = await prisma.league.findFirst({
+      where: {
+        id,
+        ownerId: user.id,
+      },
+    });
+
+    if (!league) {
+      res.status(404).json({
+        error: 'League not found',
+        code: 'LEAGUE_NOT_FOUND',
+        message: 'The requested league does not exist or you do not have access to it',
+      });
+      return;
+    }
+
+    const validationResult = statOverridesSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      res.status(400).json({
+        error: 'Invalid stat overrides',
+        code: 'VALIDATION_ERROR',
+        details: validationResult.error.errors,
+      });
+      return;
+    }
+
+    const { player, overrides } = validationResult.data;
+    const hasOverrides = !!overrides && (
+      Object.keys(overrides.hitting ?? {}).length > 0 ||
+      Object.keys(overrides.pitching ?? {}).length > 0
+    );
+
+    await setPlayerStatOverrides(
+      league.id,
+      { ...player, externalId },
+      hasOverrides ? overrides : null
+    );
+
+    res.json({
+      externalId,
+      statOverrides: hasOverrides ? overrides : null,
+    });
+  } catch (error) {
+    logger.error({ error, leagueId: req.params.id }, 'Failed to save stat overrides');
+    res.status(500).json({
+      error: 'Failed to save stat overrides',
+      code: 'STAT_OVERRIDES_SAVE_ERROR',
+      message: 'An error occurred while saving the player projection',
+    });
+  }
+});
+
 /**
  * DELETE /api/leagues/:id
  * Delete a league
@@ -851,4 +1539,275 @@ router.delete('/:id', requireAuth, async (req: Request, res: Response) => {
   }
 });
 
+// =============================================================================
+// LEAGUE SHARING (members and invites)
+// =============================================================================
+
+const createInviteSchema = z.object({
+  // Only this account can accept; omit for a link anyone can use
+  email: z.string().email().max(255).optional(),
+  role: z.enum(INVITE_ROLES).default('member'),
+});
+
+const updateMemberSchema = z.object({
+  role: z.enum(INVITE_ROLES).optional(),
+  // Couch Managers team the member runs (null unassigns)
+  teamName: z.string().trim().min(1).max(100).nullable().optional(),
+}).refine(data => data.role !== undefined || data.teamName !== undefined, {
+  message: 'Provide a role or a team name',
+});
+
+function sendOwnerOnly(res: Response): void {
+  res.status(403).json({
+    error: 'Owner only',
+    code: 'LEAGUE_OWNER_ONLY',
+    message: 'Only the league owner can manage members and invites',
+  });
+}
+
+function sendLeagueNotFound(res: Response): void {
+  res.status(404).json({
+    error: 'League not found',
+    code: 'LEAGUE_NOT_FOUND',
+    message: 'The requested league does not exist or you do not have access to it',
+  });
+}
+
+/**
+ * GET /api/leagues/:id/members
+ * Members of a league; the owner also gets its pending invites
+ */
+router.get('/:id/members', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const user = getAuthUser(req);
+    const access = await findLeagueForUser(req.params.id, user.id);
+    if (!access) {
+      sendLeagueNotFound(res);
+      return;
+    }
+
+    const members = await listLeagueMembers(access.league.id);
+    const invites = access.role === 'owner' ? await listLeagueInvites(access.league.id) : [];
+    res.json({ members, invites, role: access.role });
+  } catch (error) {
+    logger.error({ error, leagueId: req.params.id }, 'Failed to fetch league members');
+    res.status(500).json({
+      error: 'Failed to fetch league members',
+      code: 'LEAGUE_MEMBERS_FETCH_ERROR',
+      message: 'An error occurred while fetching league members',
+    });
+  }
+});
+
+/**
+ * POST /api/leagues/:id/invites
+ * Invite someone to the league (owner only)
+ *
+ * Body: { email?: string, role?: 'member' | 'co-manager' }
+ * Returns the invite and its link; the token isn't retrievable later.
+ * Nothing is emailed - the owner sends the link themselves.
+ */
+router.post('/:id/invites', requireAuth, async (req: Request, res: Response) => {
+  const validationResult = createInviteSchema.safeParse(req.body);
+  if (!validationResult.success) {
+    res.status(400).json({
+      error: 'Invalid invite',
+      code: 'VALIDATION_ERROR',
+      details: validationResult.error.errors,
+    });
+    return;
+  }
+
+  try {
+    const user = getAuthUser(req);
+    const access = await findLeagueForUser(req.params.id, user.id);
+    if (!access) {
+      sendLeagueNotFound(res);
+      return;
+    }
+    if (access.role !== 'owner') {
+      sendOwnerOnly(res);
+      return;
+    }
+
+    const { email, role } = validationResult.data;
+    if (email) {
+      const existingMember = await prisma.league.findFirst({
+        where: {
+          id: access.league.id,
+          OR: [
+            { owner: { email: email.toLowerCase() } },
+            { userLeagues: { some: { user: { email: email.toLowerCase() } } } },
+          ],
+        },
+        select: { id: true },
+      });
+      if (existingMember) {
+        res.status(409).json({
+          error: 'Already a member',
+          code: 'ALREADY_MEMBER',
+          message: `${email} is already in this league`,
+        });
+        return;
+      }
+    }
+
+    const { invite, token } = await createLeagueInvite(access.league.id, user.id, role, email);
+    // There's no outgoing email yet - the owner shares the link, and an email
+    // invite's link only works for that account
+    const inviteUrl = `${env.FRONTEND_URL}/invite?token=${token}`;
+
+    res.status(201).json({ invite, inviteUrl });
+  } catch (error) {
+    logger.error({ error, leagueId: req.params.id }, 'Failed to create league invite');
+    res.status(500).json({
+      error: 'Failed to create invite',
+      code: 'INVITE_CREATE_ERROR',
+      message: 'An error occurred while creating the invite',
+    });
+  }
+});
+
+/**
+ * DELETE /api/leagues/:id/invites/:inviteId
+ * Revoke a pending invite (owner only)
+ */
+router.delete('/:id/invites/:inviteId', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const user = getAuthUser(req);
+    const access = await findLeagueForUser(req.params.id, user.id);
+    if (!access) {
+      sendLeagueNotFound(res);
+      return;
+    }
+    if (access.role !== 'owner') {
+      sendOwnerOnly(res);
+      return;
+    }
+
+    const revoked = await revokeLeagueInvite(access.league.id, req.params.inviteId);
+    if (!revoked) {
+      res.status(404).json({
+        error: 'Invite not found',
+        code: 'INVITE_NOT_FOUND',
+      });
+      return;
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    logger.error({ error, leagueId: req.params.id }, 'Failed to revoke league invite');
+    res.status(500).json({
+      error: 'Failed to revoke invite',
+      code: 'INVITE_REVOKE_ERROR',
+      message: 'An error occurred while revoking the invite',
+    });
+  }
+});
+
+/**
+ * PUT /api/leagues/:id/members/:userId
+ * Change a member's role or assigned team (owner only)
+ *
+ * Body: { role?: 'member' | 'co-manager', teamName?: string | null }
+ * The owner's own team can be assigned too; their role can't change.
+ */
+router.put('/:id/members/:userId', requireAuth, async (req: Request, res: Response) => {
+  const validationResult = updateMemberSchema.safeParse(req.body);
+  if (!validationResult.success) {
+    res.status(400).json({
+      error: 'Invalid member update',
+      code: 'VALIDATION_ERROR',
+      details: validationResult.error.errors,
+    });
+    return;
+  }
+
+  try {
+    const user = getAuthUser(req);
+    const access = await findLeagueForUser(req.params.id, user.id);
+    if (!access) {
+      sendLeagueNotFound(res);
+      return;
+    }
+    if (access.role !== 'owner') {
+      sendOwnerOnly(res);
+      return;
+    }
+
+    const { role, teamName } = validationResult.data;
+    const memberId = req.params.userId;
+    if (role && memberId === access.league.ownerId) {
+      res.status(400).json({
+        error: 'Cannot change the owner\'s role',
+        code: 'OWNER_ROLE_FIXED',
+      });
+      return;
+    }
+
+    let updated = true;
+    if (role) {
+      updated = await updateLeagueMemberRole(access.league.id, memberId, role);
+    }
+    if (updated && teamName !== undefined) {
+      updated = await setLeagueMemberTeam(access.league, memberId, teamName);
+    }
+    if (!updated) {
+      res.status(404).json({
+        error: 'Member not found',
+        code: 'MEMBER_NOT_FOUND',
+      });
+      return;
+    }
+
+    logger.info({ leagueId: access.league.id, memberId, role, teamName }, 'League member updated');
+    res.json({ success: true });
+  } catch (error) {
+    logger.error({ error, leagueId: req.params.id }, 'Failed to update league member');
+    res.status(500).json({
+      error: 'Failed to update member',
+      code: 'MEMBER_UPDATE_ERROR',
+      message: 'An error occurred while updating the member',
+    });
+  }
+});
+
+/**
+ * DELETE /api/leagues/:id/members/:userId
+ * Remove a member (owner), or leave the league (the member themselves)
+ */
+router.delete('/:id/members/:userId', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const user = getAuthUser(req);
+    const access = await findLeagueForUser(req.params.id, user.id);
+    if (!access) {
+      sendLeagueNotFound(res);
+      return;
+    }
+    if (access.role !== 'owner' && req.params.userId !== user.id) {
+      sendOwnerOnly(res);
+      return;
+    }
+
+    const removed = await removeLeagueMember(access.league.id, req.params.userId);
+    if (!removed) {
+      res.status(404).json({
+        error: 'Member not found',
+        code: 'MEMBER_NOT_FOUND',
+      });
+      return;
+    }
+
+    logger.info({ leagueId: access.league.id, memberId: req.params.userId, byUserId: user.id }, 'League member removed');
+    res.json({ success: true });
+  } catch (error) {
+    logger.error({ error, leagueId: req.params.id }, 'Failed to remove league member');
+    res.status(500).json({
+      error: 'Failed to remove member',
+      code: 'MEMBER_REMOVE_ERROR',
+      message: 'An error occurred while removing the member',
+    });
+  }
+});
+
 export default router;
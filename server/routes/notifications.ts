@@ -11,7 +11,9 @@
 
 import { Router, Request, Response } from 'express';
 import { z } from 'zod';
-import { requireAuth } from '../middleware/auth.js';
+import { requireAuth, requireFeature } from '../middleware/auth.js';
+import { hasFeature } from '../services/entitlements.js';
+import { ErrorCodes } from '../errors/errorCodes.js';
 import { prisma } from '../db.js';
 import { logger } from '../services/logger.js';
 import {
@@ -230,6 +232,16 @@ router.put('/preferences', async (req: Request, res: Response) => {
 
     const { smsNotificationsEnabled } = result.data;
 
+    // Turning alerts off is always allowed, so a downgraded user can opt out
+    if (smsNotificationsEnabled && !hasFeature(req.user!.subscriptionTier, 'smsAlerts')) {
+      return res.status(402).json({
+        error: 'Upgrade required',
+        code: ErrorCodes.SUB_UPGRADE_REQUIRED,
+        message: 'SMS alerts require a premium subscription',
+        feature: 'smsAlerts',
+      });
+    }
+
     // Check if user has phone number before enabling
     if (smsNotificationsEnabled) {
       const user = await prisma.user.findUnique({
@@ -267,7 +279,7 @@ router.put('/preferences', async (req: Request, res: Response) => {
  * POST /api/notifications/test
  * Send a test SMS to verify the user's phone number works
  */
-router.post('/test', async (req: Request, res: Response) => {
+router.post('/test', requireFeature('smsAlerts'), async (req: Request, res: Response) => {
   try {
     const userId = req.user!.id;
 
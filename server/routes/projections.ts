@@ -4,11 +4,14 @@
  */
 
 import { Router, Request, Response } from 'express';
+import { z } from 'zod';
+import { prisma } from '../db.js';
 import { fetchSteamerProjections, fetchBatXProjections, fetchOopsyProjections } from '../services/projectionsService.js';
 import { fetchJAProjections } from '../services/jaProjectionsService.js';
 import {
   getCachedProjections,
   setCachedProjections,
+  getOrFetchProjections,
   invalidateCache,
   getCacheStatus,
 } from '../services/projectionsCacheService.js';
@@ -18,9 +21,27 @@ import {
   getDynastyRankingsCacheStatus,
 } from '../services/dynastyRankingsScraper.js';
 import { calculateAuctionValues } from '../services/valueCalculator.js';
+import { calculateProspectValues, hasFarmSlots, loadProspects } from '../services/prospectService.js';
+import { loadBlendedProjections, getActiveBlendSystems } from '../services/projectionBlender.js';
+import {
+  listCustomProjectionSets,
+  createCustomProjectionSet,
+  deleteCustomProjectionSet,
+  loadCustomProjections,
+} from '../services/customProjectionStore.js';
+import { MAX_CUSTOM_PROJECTION_ROWS } from '../services/customProjectionNormalizer.js';
+import { applyStatOverrides } from '../services/projectionOverrides.js';
+import { getMemberLeagueStatOverrides } from '../services/projectionOverrideStore.js';
+import {
+  diffProjectionSnapshots,
+  getPlayerValueHistory,
+  listProjectionSnapshots,
+} from '../services/projectionSnapshotStore.js';
+import { requireAuth, optionalAuth, getAuthUser } from '../middleware/auth.js';
 import { refreshLimiter } from '../middleware/rateLimiter.js';
 import { logger } from '../services/logger.js';
 import type { LeagueSettings } from '../../src/lib/types.js';
+import type { CustomProjectionRow } from '../types/projections.js';
 
 const router = Router();
 
@@ -31,6 +52,116 @@ function isValidSystem(system: string): system is ProjectionSystem {
   return VALID_SYSTEMS.includes(system as ProjectionSystem);
 }
 
+// ============================================================================
+// CUSTOM PROJECTION SETS
+// (registered before /:system so "custom" isn't taken for a system name)
+// ============================================================================
+
+// Stats are keyed by HittingStats/PitchingStats field; unknown keys are ignored when normalizing
+const statValuesSchema = z.record(z.string(), z.number().finite()).optional();
+
+const CustomProjectionUploadSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  leagueId: z.string().uuid().optional(),
+  projections: z.array(z.object({
+    name: z.string().max(100),
+    team: z.string().max(10).optional(),
+    positions: z.string().max(50).optional(),
+    playerType: z.enum(['hitter', 'pitcher']),
+    mlbamId: z.number().int().min(0).optional(),
+    externalId: z.string().max(50).optional(),
+    hitting: statValuesSchema,
+    pitching: statValuesSchema,
+  })).min(1).max(MAX_CUSTOM_PROJECTION_ROWS),
+});
+
+/**
+ * GET /api/projections/custom
+ * Lists custom projection sets the user uploaded or that are shared with their leagues
+ */
+router.get('/custom', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const user = getAuthUser(req);
+    const sets = await listCustomProjectionSets(user.id);
+    res.json({ sets });
+  } catch (error) {
+    logger.error({ error }, 'Error listing custom projection sets');
+    res.status(500).json({
+      error: 'Failed to list custom projection sets',
+      code: 'CUSTOM_PROJECTIONS_FETCH_ERROR',
+    });
+  }
+});
+
+/**
+ * POST /api/projections/custom
+ * Uploads a custom projection set (rows already column-mapped by the client)
+ *
+ * Body: {
+ *   name: string,
+ *   leagueId?: string (share with a league you own),
+ *   projections: CustomProjectionRow[]
+ * }
+ */
+router.post('/custom', requireAuth, async (req: Request, res: Response) => {
+  const parsed = CustomProjectionUploadSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: 'Invalid custom projection set',
+      code: 'VALIDATION_ERROR',
+      message: parsed.error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', '),
+    });
+  }
+
+  try {
+    const user = getAuthUser(req);
+    const { name, leagueId, projections } = parsed.data;
+
+    if (leagueId) {
+      const league = await prisma.league.findFirst({ where: { id: leagueId, ownerId: user.id } });
+      if (!league) {
+        return res.status(404).json({
+          error: 'League not found',
+          code: 'LEAGUE_NOT_FOUND',
+        });
+      }
+    }
+
+    const set = await createCustomProjectionSet(user.id, name, projections as CustomProjectionRow[], leagueId);
+    res.status(201).json({ set });
+  } catch (error) {
+    logger.error({ error }, 'Error storing custom projection set');
+    res.status(500).json({
+      error: 'Failed to store custom projection set',
+      code: 'CUSTOM_PROJECTIONS_CREATE_ERROR',
+    });
+  }
+});
+
+/**
+ * DELETE /api/projections/custom/:id
+ * Deletes a custom projection set (uploader only)
+ */
+router.delete('/custom/:id', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const user = getAuthUser(req);
+    const deleted = await deleteCustomProjectionSet(user.id, req.params.id);
+    if (!deleted) {
+      return res.status(404).json({
+        error: 'Custom projection set not found',
+        code: 'CUSTOM_PROJECTIONS_NOT_FOUND',
+      });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    logger.error({ error }, 'Error deleting custom projection set');
+    res.status(500).json({
+      error: 'Failed to delete custom projection set',
+      code: 'CUSTOM_PROJECTIONS_DELETE_ERROR',
+    });
+  }
+});
+
 /**
  * GET /api/projections/:system
  * Returns projections for the specified system (steamer, batx, ja)
@@ -188,20 +319,207 @@ router.post('/:system/refresh', refreshLimiter, async (req: Request, res: Respon
   }
 });
 
+// ============================================================================
+// PROJECTION SNAPSHOTS
+// ============================================================================
+
+const rosterSlotCount = z.number().int().min(0).max(10);
+
+// Scoring settings keyed by stat, e.g. { HR: true } or { HR: 4 }
+function statRecord<T extends z.ZodTypeAny>(value: T) {
+  return z.record(z.string().max(30), value)
+    .refine(stats => Object.keys(stats).length <= 100, 'Too many stats');
+}
+
+/**
+ * The league settings that change a snapshot's values. Snapshots are valued
+ * as redraft leagues (there are no dynasty rankings per snapshot), and the
+ * fields that don't affect values are filled in so the result is a full
+ * LeagueSettings.
+ */
+const snapshotLeagueSettingsSchema = z.object({
+  numTeams: z.number().int().min(2).max(30),
+  budgetPerTeam: z.number().int().min(100).max(1000),
+  rosterSpots: z.object({
+    C: rosterSlotCount,
+    '1B': rosterSlotCount,
+    '2B': rosterSlotCount,
+    '3B': rosterSlotCount,
+    SS: rosterSlotCount,
+    OF: rosterSlotCount,
+    CI: rosterSlotCount,
+    MI: rosterSlotCount,
+    UTIL: rosterSlotCount,
+    SP: rosterSlotCount,
+    RP: rosterSlotCount,
+    P: rosterSlotCount,
+    Bench: z.number().int().min(0).max(20),
+  }),
+  scoringType: z.enum(['rotisserie', 'h2h-categories', 'h2h-points']),
+  hittingCategories: statRecord(z.boolean()).optional(),
+  pitchingCategories: statRecord(z.boolean()).optional(),
+  pointsSettings: statRecord(z.number().min(-100).max(100)).optional(),
+  hitterPitcherSplit: z.object({
+    hitter: z.number().min(0).max(1),
+    pitcher: z.number().min(0).max(1),
+  }).optional(),
+  inflationSettings: z.object({
+    enableMarketCorrection: z.boolean(),
+    enablePositionScarcity: z.boolean(),
+  }).optional(),
+  keepers: z.array(z.object({
+    teamName: z.string().min(1).max(100),
+    playerName: z.string().min(1).max(200),
+    playerId: z.string().max(50).optional(),
+    salary: z.number().min(0).max(10000),
+  })).max(500).optional(),
+}).transform((settings): LeagueSettings => ({
+  ...settings,
+  leagueName: 'Snapshot values',
+  couchManagerRoomId: '',
+  leagueType: 'redraft',
+  projectionSystem: 'steamer',
+}));
+
+const SnapshotDiffSchema = z.object({
+  fromSnapshotId: z.string().uuid(),
+  toSnapshotId: z.string().uuid(),
+  leagueSettings: snapshotLeagueSettingsSchema,
+  limit: z.number().int().min(1).max(100).optional(),
+});
+
+const ValueHistorySchema = z.object({
+  playerId: z.string().min(1).max(50),
+  leagueSettings: snapshotLeagueSettingsSchema,
+});
+
+/**
+ * GET /api/projections/:system/snapshots
+ * Lists this season's stored snapshots for a projection system, newest first
+ */
+router.get('/:system/snapshots', async (req: Request, res: Response) => {
+  const { system } = req.params;
+
+  if (!isValidSystem(system)) {
+    return res.status(400).json({
+      error: `Invalid projection system. Must be one of: ${VALID_SYSTEMS.join(', ')}`,
+    });
+  }
+
+  try {
+    const snapshots = await listProjectionSnapshots(system);
+    res.json({ system, snapshots });
+  } catch (error) {
+    logger.error({ error, system }, 'Error listing projection snapshots');
+    res.status(500).json({
+      error: 'Failed to list projection snapshots',
+      code: 'SNAPSHOTS_FETCH_ERROR',
+    });
+  }
+});
+
+/**
+ * POST /api/projections/snapshots/diff
+ * Biggest auction value risers and fallers between two snapshots of one system
+ *
+ * Body: {
+ *   fromSnapshotId: string,
+ *   toSnapshotId: string,
+ *   leagueSettings: LeagueSettings (both snapshots are valued with these),
+ *   limit?: number (per list, default 25)
+ * }
+ */
+router.post('/snapshots/diff', requireAuth, async (req: Request, res: Response) => {
+  const parsed = SnapshotDiffSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: 'Invalid snapshot diff request',
+      code: 'VALIDATION_ERROR',
+      message: parsed.error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', '),
+    });
+  }
+
+  try {
+    const { fromSnapshotId, toSnapshotId, leagueSettings, limit } = parsed.data;
+    const diff = await diffProjectionSnapshots(
+      fromSnapshotId,
+      toSnapshotId,
+      leagueSettings,
+      limit
+    );
+    if (!diff) {
+      return res.status(404).json({
+        error: 'Snapshots not found or from different projection systems',
+        code: 'SNAPSHOT_NOT_FOUND',
+      });
+    }
+    res.json(diff);
+  } catch (error) {
+    logger.error({ error }, 'Error diffing projection snapshots');
+    res.status(500).json({
+      error: 'Failed to diff projection snapshots',
+      code: 'SNAPSHOT_DIFF_ERROR',
+    });
+  }
+});
+
+/**
+ * POST /api/projections/:system/value-history
+ * A player's auction value in each of this season's snapshots, oldest first
+ *
+ * Body: {
+ *   playerId: string (externalId),
+ *   leagueSettings: LeagueSettings
+ * }
+ */
+router.post('/:system/value-history', requireAuth, async (req: Request, res: Response) => {
+  const { system } = req.params;
+
+  if (!isValidSystem(system)) {
+    return res.status(400).json({
+      error: `Invalid projection system. Must be one of: ${VALID_SYSTEMS.join(', ')}`,
+    });
+  }
+
+  const parsed = ValueHistorySchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({
+      error: 'Invalid value history request',
+      code: 'VALIDATION_ERROR',
+      message: parsed.error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', '),
+    });
+  }
+
+  try {
+    const { playerId, leagueSettings } = parsed.data;
+    const history = await getPlayerValueHistory(system, playerId, leagueSettings);
+    res.json({ system, playerId, history });
+  } catch (error) {
+    logger.error({ error, system }, 'Error building player value history');
+    res.status(500).json({
+      error: 'Failed to build player value history',
+      code: 'VALUE_HISTORY_ERROR',
+    });
+  }
+});
+
 /**
  * POST /api/projections/calculate-values
  * Calculates auction values for a league configuration
  * Supports both redraft (steamer-only) and dynasty (blended) modes
  *
  * Body: {
- *   projectionSystem: 'steamer' | 'batx' | 'ja',
- *   leagueSettings: LeagueSettings
+ *   projectionSystem: 'steamer' | 'batx' | 'ja' | 'oopsy' | 'blend' | 'custom',
+ *   leagueSettings: LeagueSettings (with projectionBlend weights when blending,
+ *     customProjectionSetId for an uploaded set - requires auth),
+ *   leagueId?: Saved league whose per-player stat overrides apply - requires auth
  * }
  */
-router.post('/calculate-values', async (req: Request, res: Response) => {
-  const { projectionSystem, leagueSettings } = req.body as {
+router.post('/calculate-values', optionalAuth, async (req: Request, res: Response) => {
+  const { projectionSystem, leagueSettings, leagueId } = req.body as {
     projectionSystem: string;
     leagueSettings: LeagueSettings;
+    leagueId?: string;
   };
 
   // Validate required fields
@@ -211,9 +529,11 @@ router.post('/calculate-values', async (req: Request, res: Response) => {
     });
   }
 
-  if (!isValidSystem(projectionSystem)) {
+  const isBlend = projectionSystem === 'blend';
+  const isCustom = projectionSystem === 'custom';
+  if (!isBlend && !isCustom && !isValidSystem(projectionSystem)) {
     return res.status(400).json({
-      error: `Invalid projection system. Must be one of: ${VALID_SYSTEMS.join(', ')}`,
+      error: `Invalid projection system. Must be one of: ${VALID_SYSTEMS.join(', ')}, blend, custom`,
     });
   }
 
@@ -235,41 +555,74 @@ router.post('/calculate-values', async (req: Request, res: Response) => {
     });
   }
 
+  if (isBlend && getActiveBlendSystems(leagueSettings.projectionBlend ?? {}).length === 0) {
+    return res.status(400).json({
+      error: 'leagueSettings.projectionBlend must give at least one projection system a positive weight',
+    });
+  }
+
+  if (isCustom && !leagueSettings.customProjectionSetId) {
+    return res.status(400).json({
+      error: 'leagueSettings.customProjectionSetId is required for custom projections',
+    });
+  }
+
+  if (isCustom && !req.user) {
+    return res.status(401).json({
+      error: 'Sign in to use custom projections',
+      code: 'AUTH_REQUIRED',
+    });
+  }
+
+  if (leagueId !== undefined && typeof leagueId !== 'string') {
+    return res.status(400).json({
+      error: 'leagueId must be a string',
+    });
+  }
+
+  if (leagueId && !req.user) {
+    return res.status(401).json({
+      error: 'Sign in to use league projection overrides',
+      code: 'AUTH_REQUIRED',
+    });
+  }
+
   try {
-    // Get projections (from cache or fresh)
-    let cached = await getCachedProjections(projectionSystem);
-
-    if (!cached) {
-      logger.info({ projectionSystem }, 'No cached projections, fetching fresh');
-
-      let projections;
-      switch (projectionSystem) {
-        case 'steamer':
-          projections = await fetchSteamerProjections();
-          break;
-        case 'ja':
-          projections = await fetchJAProjections();
-          break;
-        case 'batx':
-          projections = await fetchBatXProjections();
-          break;
-        case 'oopsy':
-          projections = await fetchOopsyProjections();
-          break;
-        default:
-          return res.status(400).json({ error: 'Invalid projection system' });
+    // Get projections (from cache or fresh), blending systems or loading an uploaded set when requested
+    let projections;
+    if (isCustom) {
+      const custom = await loadCustomProjections(leagueSettings.customProjectionSetId ?? '', getAuthUser(req).id);
+      if (!custom) {
+        return res.status(404).json({
+          error: 'Custom projection set not found',
+          code: 'CUSTOM_PROJECTIONS_NOT_FOUND',
+        });
       }
-
-      await setCachedProjections(projectionSystem, projections);
-      cached = await getCachedProjections(projectionSystem);
+      projections = custom;
+    } else {
+      projections = isBlend
+        ? await loadBlendedProjections(leagueSettings.projectionBlend ?? {}, getOrFetchProjections)
+        : await getOrFetchProjections(projectionSystem as ProjectionSystem);
     }
 
-    if (!cached) {
+    if (projections.length === 0) {
       return res.status(503).json({
         error: 'Failed to load projections',
       });
     }
 
+    // Apply the league's edited stat lines before valuing
+    if (leagueId) {
+      const overrides = await getMemberLeagueStatOverrides(leagueId, getAuthUser(req).id);
+      if (!overrides) {
+        return res.status(404).json({
+          error: 'League not found',
+          code: 'LEAGUE_NOT_FOUND',
+        });
+      }
+      projections = applyStatOverrides(projections, overrides);
+    }
+
     // For dynasty leagues, also fetch dynasty rankings
     logger.debug({ leagueType: leagueSettings.leagueType, dynastyWeight: leagueSettings.dynastySettings?.dynastyWeight }, 'calculate-values called');
     let dynastyRankings;
@@ -286,7 +639,7 @@ router.post('/calculate-values', async (req: Request, res: Response) => {
 
     // Calculate auction values (with optional dynasty rankings)
     const result = calculateAuctionValues(
-      cached.projections,
+      projections,
       {
         ...leagueSettings,
         projectionSystem: projectionSystem as LeagueSettings['projectionSystem'],
@@ -378,4 +731,42 @@ router.post('/dynasty-rankings/refresh', refreshLimiter, async (req: Request, re
   }
 });
 
+// ============================================================================
+// PROSPECT ENDPOINTS
+// ============================================================================
+
+/**
+ * POST /api/projections/prospect-values
+ * Farm values for the local prospect list in a dynasty league with MiLB slots
+ *
+ * Body: { leagueSettings: LeagueSettings (dynasty, with farmSettings.milbSlots > 0) }
+ */
+router.post('/prospect-values', async (req: Request, res: Response) => {
+  const { leagueSettings } = req.body as { leagueSettings?: LeagueSettings };
+
+  if (!leagueSettings?.numTeams) {
+    return res.status(400).json({
+      error: 'leagueSettings must include numTeams',
+    });
+  }
+
+  if (!hasFarmSlots(leagueSettings)) {
+    return res.status(400).json({
+      error: 'Farm values need a dynasty league with MiLB slots',
+      code: 'NO_FARM_SLOTS',
+    });
+  }
+
+  try {
+    const prospects = await loadProspects();
+    res.json({ prospects: calculateProspectValues(prospects, leagueSettings) });
+  } catch (error) {
+    logger.error({ error }, 'Error calculating prospect values');
+    res.status(500).json({
+      error: 'Failed to calculate prospect values',
+      message: error instanceof Error ? error.message : undefined,
+    });
+  }
+});
+
 export default router;
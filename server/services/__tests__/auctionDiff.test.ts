@@ -0,0 +1,177 @@
+/**
+ * Auction Diff Tests
+ * Tests change detection between consecutive scrapes of a room
+ */
+
+import { describe, it, expect } from 'vitest';
+import '../../../server/test/setup';
+import { diffAuctionData, hasAuctionChanges, fingerprintAuction, getChangesSince } from '../auctionDiff';
+import type { ScrapedAuctionData, ScrapedPlayer } from '../../types/auction';
+
+function makePlayer(id: number, name: string, overrides: Partial<ScrapedPlayer> = {}): ScrapedPlayer {
+  const [firstName, lastName] = name.split(' ');
+  return {
+    couchManagersId: id,
+    firstName,
+    lastName,
+    fullName: name,
+    normalizedName: name.toLowerCase(),
+    positions: ['OF'],
+    mlbTeam: 'NYY',
+    status: 'available',
+    ...overrides,
+  };
+}
+
+function makeAuction(overrides: Partial<ScrapedAuctionData> = {}): ScrapedAuctionData {
+  return {
+    roomId: '1234',
+    scrapedAt: '2025-03-01T12:00:00.000Z',
+    status: 'active',
+    players: [makePlayer(1, 'Aaron Judge'), makePlayer(2, 'Juan Soto')],
+    teams: [
+      { name: 'Team A', budget: 260, spent: 0, remaining: 260, playersDrafted: 0, isOnline: true },
+      { name: 'Team B', budget: 260, spent: 0, remaining: 260, playersDrafted: 0, isOnline: true },
+    ],
+    activeAuctions: [],
+    totalPlayersDrafted: 0,
+    totalMoneySpent: 0,
+    ...overrides,
+  };
+}
+
+describe('Auction Diff', () => {
+  it('reports no changes for identical scrapes', () => {
+    const previous = makeAuction();
+    const next = makeAuction({ scrapedAt: '2025-03-01T12:00:20.000Z' });
+
+    const diff = diffAuctionData(previous, next);
+
+    expect(diff.newlyDrafted).toHaveLength(0);
+    expect(diff.bidChanges).toHaveLength(0);
+    expect(diff.closedAuctions).toHaveLength(0);
+    expect(diff.teamChanges).toHaveLength(0);
+    expect(hasAuctionChanges(diff, previous)).toBe(false);
+  });
+
+  it('detects newly drafted players and team budget changes', () => {
+    const previous = makeAuction({
+      activeAuctions: [
+        { playerId: 1, playerName: 'Aaron Judge', currentBid: 40, currentBidder: 'Team A', timeRemaining: 10 },
+      ],
+    });
+    const next = makeAuction({
+      players: [
+        makePlayer(1, 'Aaron Judge', { status: 'drafted', winningBid: 42, winningTeam: 'Team A' }),
+        makePlayer(2, 'Juan Soto'),
+      ],
+      teams: [
+        { name: 'Team A', budget: 260, spent: 42, remaining: 218, playersDrafted: 1, isOnline: true },
+        { name: 'Team B', budget: 260, spent: 0, remaining: 260, playersDrafted: 0, isOnline: true },
+      ],
+      totalPlayersDrafted: 1,
+      totalMoneySpent: 42,
+    });
+
+    const diff = diffAuctionData(previous, next);
+
+    expect(diff.newlyDrafted.map(p => p.couchManagersId)).toEqual([1]);
+    expect(diff.closedAuctions).toEqual([1]);
+    expect(diff.teamChanges).toEqual([
+      { name: 'Team A', previousRemaining: 260, remaining: 218, spent: 42, playersDrafted: 1 },
+    ]);
+    expect(diff.totalMoneySpent).toBe(42);
+    expect(hasAuctionChanges(diff, previous)).toBe(true);
+  });
+
+  it('detects new nominations and raised bids', () => {
+    const previous = makeAuction({
+      activeAuctions: [
+        { playerId: 1, playerName: 'Aaron Judge', currentBid: 10, currentBidder: 'Team A', timeRemaining: 30 },
+      ],
+    });
+    const next = makeAuction({
+      activeAuctions: [
+        { playerId: 1, playerName: 'Aaron Judge', currentBid: 15, currentBidder: 'Team B', timeRemaining: 25 },
+        { playerId: 2, playerName: 'Juan Soto', currentBid: 1, currentBidder: 'Team A', timeRemaining: 30 },
+      ],
+    });
+
+    const diff = diffAuctionData(previous, next);
+
+    expect(diff.bidChanges).toEqual([
+      { playerId: 1, playerName: 'Aaron Judge', previousBid: 10, currentBid: 15, currentBidder: 'Team B', timeRemaining: 25 },
+      { playerId: 2, playerName: 'Juan Soto', previousBid: null, currentBid: 1, currentBidder: 'Team A', timeRemaining: 30 },
+    ]);
+  });
+
+  it('ignores timer-only changes on the block', () => {
+    const previous = makeAuction({
+      currentAuction: { playerId: 1, playerName: 'Aaron Judge', currentBid: 10, currentBidder: 'Team A', timeRemaining: 30 },
+    });
+    const next = makeAuction({
+      currentAuction: { playerId: 1, playerName: 'Aaron Judge', currentBid: 10, currentBidder: 'Team A', timeRemaining: 12 },
+    });
+
+    const diff = diffAuctionData(previous, next);
+
+    expect(diff.bidChanges).toHaveLength(0);
+    expect(hasAuctionChanges(diff, previous)).toBe(false);
+  });
+
+  it('treats a status change as a change', () => {
+    const previous = makeAuction();
+    const next = makeAuction({ status: 'completed' });
+
+    expect(hasAuctionChanges(diffAuctionData(previous, next), previous)).toBe(true);
+  });
+});
+
+describe('Auction Diff - Sync Cursors', () => {
+  it('returns nothing when the room has not changed since the fingerprint', () => {
+    const data = makeAuction();
+
+    const changes = getChangesSince(fingerprintAuction(data), makeAuction());
+
+    expect(changes.changedPlayers).toHaveLength(0);
+    expect(changes.changedTeams).toHaveLength(0);
+    expect(changes.removedPlayerIds).toHaveLength(0);
+    expect(changes.removedTeamNames).toHaveLength(0);
+  });
+
+  it('returns only players and teams whose draft state changed', () => {
+    const fingerprint = fingerprintAuction(makeAuction());
+    const next = makeAuction({
+      players: [
+        makePlayer(1, 'Aaron Judge'),
+        makePlayer(2, 'Juan Soto', { status: 'drafted', winningBid: 55, winningTeam: 'Team B' }),
+        makePlayer(3, 'Mookie Betts'),
+      ],
+      teams: [
+        { name: 'Team A', budget: 260, spent: 0, remaining: 260, playersDrafted: 0, isOnline: false },
+        { name: 'Team B', budget: 260, spent: 55, remaining: 205, playersDrafted: 1, isOnline: true },
+      ],
+    });
+
+    const changes = getChangesSince(fingerprint, next);
+
+    // Soto was drafted, Betts is new to the pool; online status alone is not a change
+    expect(changes.changedPlayers.map(p => p.couchManagersId)).toEqual([2, 3]);
+    expect(changes.changedTeams.map(t => t.name)).toEqual(['Team B']);
+  });
+
+  it('returns players and teams the room no longer lists', () => {
+    const fingerprint = fingerprintAuction(makeAuction());
+    const base = makeAuction();
+    const next = makeAuction({
+      players: base.players.filter(p => p.couchManagersId !== 2),
+      teams: base.teams.filter(t => t.name !== 'Team B'),
+    });
+
+    const changes = getChangesSince(fingerprint, next);
+
+    expect(changes.changedPlayers).toHaveLength(0);
+    expect(changes.removedPlayerIds).toEqual([2]);
+    expect(changes.removedTeamNames).toEqual(['Team B']);
+  });
+});
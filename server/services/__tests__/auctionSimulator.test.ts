@@ -0,0 +1,84 @@
+/**
+ * Auction Simulator Tests
+ * Tests the Monte Carlo price forecast for the remaining player pool
+ */
+
+import { describe, it, expect } from 'vitest';
+import '../../../server/test/setup';
+import {
+  getSimulationIterations,
+  MAX_SIMULATION_ITERATIONS,
+  MAX_SIMULATION_WORK,
+  simulateAuctionOutcomes,
+  type SimulationPlayer,
+} from '../auctionSimulator';
+
+function makePlayer(id: string, projectedValue: number, positions: string[] = ['OF']): SimulationPlayer {
+  return { id, projectedValue, positions };
+}
+
+const players = [
+  makePlayer('1', 40),
+  makePlayer('2', 25),
+  makePlayer('3', 15, ['C']),
+  makePlayer('4', 8),
+  makePlayer('5', 3),
+  makePlayer('6', 1),
+  makePlayer('7', 1),
+];
+
+const teams = [
+  { teamName: 'Team A', rawRemaining: 60, rosterSpotsRemaining: 2 },
+  { teamName: 'Team B', rawRemaining: 40, rosterSpotsRemaining: 2 },
+];
+
+describe('Auction Simulator', () => {
+  it('returns ordered percentiles for every drafted player', () => {
+    const forecasts = simulateAuctionOutcomes(players, teams, { iterations: 200, seed: 42 });
+
+    expect(forecasts.length).toBeGreaterThan(0);
+    for (const f of forecasts) {
+      expect(f.p10).toBeLessThanOrEqual(f.p50);
+      expect(f.p50).toBeLessThanOrEqual(f.p90);
+      expect(f.draftedRate).toBeGreaterThan(0);
+      expect(f.draftedRate).toBeLessThanOrEqual(1);
+    }
+  });
+
+  it('never prices a player above the richest max bid', () => {
+    // Team A can bid at most $60 - $1 for its other open spot
+    const forecasts = simulateAuctionOutcomes(players, teams, { iterations: 200, seed: 7 });
+
+    expect(Math.max(...forecasts.map(f => f.p90))).toBeLessThanOrEqual(59);
+  });
+
+  it('fills only the open roster spots in each run', () => {
+    const forecasts = simulateAuctionOutcomes(players, teams, { iterations: 100, seed: 1 });
+    const totalDraftedRate = forecasts.reduce((sum, f) => sum + f.draftedRate, 0);
+
+    expect(totalDraftedRate).toBeCloseTo(4);
+  });
+
+  it('is reproducible with a seed', () => {
+    const first = simulateAuctionOutcomes(players, teams, { iterations: 50, seed: 123 });
+    const second = simulateAuctionOutcomes(players, teams, { iterations: 50, seed: 123 });
+
+    expect(second).toEqual(first);
+  });
+
+  it('returns nothing when no team has an open spot', () => {
+    const fullTeams = teams.map(t => ({ ...t, rosterSpotsRemaining: 0 }));
+
+    expect(simulateAuctionOutcomes(players, fullTeams)).toEqual([]);
+  });
+
+  it('runs fewer iterations when a big league would exceed the work cap', () => {
+    expect(getSimulationIterations(undefined, 4, 2)).toBe(300);
+    expect(getSimulationIterations(5000, 4, 2)).toBe(MAX_SIMULATION_ITERATIONS);
+
+    // 30 teams with 50 open spots each
+    const iterations = getSimulationIterations(MAX_SIMULATION_ITERATIONS, 1500, 30);
+    expect(iterations * 1500 * 30).toBeLessThanOrEqual(MAX_SIMULATION_WORK);
+    expect(iterations).toBeGreaterThanOrEqual(1);
+  });
+});
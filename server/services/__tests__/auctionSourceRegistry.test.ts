@@ -0,0 +1,93 @@
+/**
+ * Auction Source Registry Tests
+ * Tests adapter lookup, room keys and shutdown of the auction sources
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import '../../../server/test/setup';
+import type { ScrapedAuctionData } from '../../types/auction';
+
+vi.mock('../couchManagersScraper.js', () => ({
+  scrapeAuction: vi.fn(),
+  closeBrowser: vi.fn(),
+}));
+
+import { scrapeAuction, closeBrowser } from '../couchManagersScraper.js';
+import { couchManagersAdapter } from '../couchManagersAdapter';
+import {
+  DEFAULT_AUCTION_SOURCE,
+  closeAuctionSources,
+  getAuctionSourceAdapter,
+  getAuctionSourceKey,
+  isAuctionSourceType,
+} from '../auctionSourceRegistry';
+import { AUCTION_SOURCE_TYPES } from '../../types/auction';
+
+function makeAuction(roomId: string): ScrapedAuctionData {
+  return {
+    roomId,
+    scrapedAt: '2025-03-01T12:00:00.000Z',
+    status: 'active',
+    players: [],
+    teams: [],
+    totalPlayersDrafted: 0,
+    totalMoneySpent: 0,
+  };
+}
+
+describe('auctionSourceRegistry', () => {
+  describe('getAuctionSourceAdapter', () => {
+    it('should default to Couch Managers', () => {
+      expect(DEFAULT_AUCTION_SOURCE).toBe('couchmanagers');
+      expect(getAuctionSourceAdapter()).toBe(couchManagersAdapter);
+    });
+
+    it('should register an adapter for every source type', () => {
+      AUCTION_SOURCE_TYPES.forEach(type => {
+        expect(getAuctionSourceAdapter(type).type).toBe(type);
+      });
+    });
+  });
+
+  describe('isAuctionSourceType', () => {
+    it('should accept registered source types only', () => {
+      expect(isAuctionSourceType('couchmanagers')).toBe(true);
+      expect(isAuctionSourceType('espn')).toBe(false);
+      expect(isAuctionSourceType('toString')).toBe(false);
+      expect(isAuctionSourceType(null)).toBe(false);
+    });
+  });
+
+  describe('getAuctionSourceKey', () => {
+    it('should keep the bare room ID for Couch Managers rooms', () => {
+      expect(getAuctionSourceKey('couchmanagers', '1234')).toBe('1234');
+    });
+  });
+
+  describe('closeAuctionSources', () => {
+    it('should close the Couch Managers browser', async () => {
+      vi.mocked(closeBrowser).mockResolvedValue(undefined);
+
+      await closeAuctionSources();
+
+      expect(closeBrowser).toHaveBeenCalled();
+    });
+
+    it('should not throw when an adapter fails to close', async () => {
+      vi.mocked(closeBrowser).mockRejectedValue(new Error('browser gone'));
+
+      await expect(closeAuctionSources()).resolves.toBeUndefined();
+    });
+  });
+});
+
+describe('couchManagersAdapter', () => {
+  it('should fetch room state with a single scrape', async () => {
+    const auction = makeAuction('1234');
+    vi.mocked(scrapeAuction).mockResolvedValue(auction);
+
+    await expect(couchManagersAdapter.fetchRoomState('1234')).resolves.toBe(auction);
+    expect(scrapeAuction).toHaveBeenCalledTimes(1);
+    expect(scrapeAuction).toHaveBeenCalledWith('1234');
+  });
+});
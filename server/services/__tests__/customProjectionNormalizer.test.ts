@@ -0,0 +1,69 @@
+/**
+ * Custom Projection Normalizer Tests
+ * Tests turning column-mapped spreadsheet rows into normalized projections
+ */
+
+import { describe, it, expect } from 'vitest';
+import '../../../server/test/setup';
+import { normalizeCustomProjections, countCustomProjections } from '../customProjectionNormalizer';
+
+describe('Custom Projection Normalizer', () => {
+  it('derives missing hitting rate stats from counting stats', () => {
+    const [hitter] = normalizeCustomProjections([
+      {
+        name: 'Test Hitter',
+        playerType: 'hitter',
+        positions: 'SS/2B',
+        hitting: { plateAppearances: 600, atBats: 540, hits: 162, doubles: 30, triples: 2, homeRuns: 25, walks: 60 },
+      },
+    ], 'set1');
+
+    expect(hitter.positions).toEqual(['SS', '2B']);
+    expect(hitter.hitting?.battingAvg).toBeCloseTo(0.3);
+    expect(hitter.hitting?.singles).toBe(105);
+    expect(hitter.hitting?.onBasePct).toBeCloseTo(222 / 600);
+    expect(hitter.hitting?.ops).toBeCloseTo((hitter.hitting?.onBasePct ?? 0) + (hitter.hitting?.sluggingPct ?? 0));
+  });
+
+  it('keeps provided rates and fills components from them', () => {
+    const [pitcher] = normalizeCustomProjections([
+      { name: 'Test Pitcher', playerType: 'pitcher', pitching: { inningsPitched: 180, era: 3.5, k9: 10, games: 30, gamesStarted: 30 } },
+    ], 'set1');
+
+    expect(pitcher.pitching?.era).toBe(3.5);
+    expect(pitcher.pitching?.earnedRuns).toBe(70);
+    expect(pitcher.pitching?.strikeouts).toBe(200);
+    expect(pitcher.positions).toEqual(['SP']);
+  });
+
+  it('classifies pitchers without eligibility by games started', () => {
+    const [reliever] = normalizeCustomProjections([
+      { name: 'Closer', playerType: 'pitcher', pitching: { games: 65, gamesStarted: 0, inningsPitched: 65, saves: 30 } },
+    ], 'set1');
+
+    expect(reliever.positions).toEqual(['RP']);
+  });
+
+  it('builds stable IDs for rows without one and skips blank names', () => {
+    const projections = normalizeCustomProjections([
+      { name: 'Has Id', playerType: 'hitter', externalId: 'fg123', mlbamId: 660271 },
+      { name: '  ', playerType: 'hitter' },
+      { name: 'No Id', playerType: 'hitter' },
+    ], 'set1');
+
+    expect(projections.map(p => p.externalId)).toEqual(['fg123', 'custom-set1-1']);
+    expect(projections[0].mlbamId).toBe(660271);
+    expect(projections[1].team).toBe('FA');
+    expect(projections[1].positions).toEqual(['UTIL']);
+  });
+
+  it('counts hitters and pitchers', () => {
+    const projections = normalizeCustomProjections([
+      { name: 'A', playerType: 'hitter' },
+      { name: 'B', playerType: 'pitcher' },
+      { name: 'C', playerType: 'pitcher' },
+    ], 'set1');
+
+    expect(countCustomProjections(projections)).toEqual({ hitterCount: 1, pitcherCount: 2 });
+  });
+});
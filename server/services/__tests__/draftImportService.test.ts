@@ -0,0 +1,97 @@
+/**
+ * Draft Import Service Tests
+ * Tests CSV parsing and matching of offline draft results to projections
+ */
+
+import { describe, it, expect } from 'vitest';
+import '../../../server/test/setup';
+import { parseDraftResultsCsv, buildDraftImport } from '../draftImportService';
+
+const projections = [
+  { id: 'p1', mlbamId: 592450, name: 'Aaron Judge', team: 'NYY', positions: ['OF'], projectedValue: 45 },
+  { id: 'p2', mlbamId: 665742, name: 'Juan Soto', team: 'NYM', positions: ['OF'], projectedValue: 40 },
+  { id: 'p3', mlbamId: 669373, name: 'Tarik Skubal', team: 'DET', positions: ['SP'], projectedValue: 35 },
+  { id: 'p4', mlbamId: 605141, name: 'Mookie Betts', team: 'LAD', positions: ['SS', 'OF'], projectedValue: 30 },
+];
+
+describe('Draft Import - CSV Parsing', () => {
+  it('maps flexible headers and validates rows', () => {
+    const csv = [
+      'Pick,Player,MLB Team,Pos,Cost,Owner',
+      '2,"Soto, Juan",NYM,OF,$38,Team B',
+      '1,Aaron Judge,NYY,OF,50,Team A',
+      '3,Tarik Skubal,DET,SP,abc,Team A',
+      '4,Mookie Betts,LAD,SS/OF,30,',
+    ].join('\n');
+
+    const { rows, errors } = parseDraftResultsCsv(csv);
+
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toEqual({
+      rowNumber: 2,
+      playerName: 'Soto, Juan',
+      mlbTeam: 'NYM',
+      positions: ['OF'],
+      price: 38,
+      fantasyTeam: 'Team B',
+      pickNumber: 2,
+    });
+    expect(errors.map(e => e.rowNumber)).toEqual([4, 5]);
+  });
+
+  it('keeps line breaks inside quoted fields in one row', () => {
+    const { rows, errors } = parseDraftResultsCsv([
+      'Player,Cost,Owner,Notes',
+      'Aaron Judge,50,Team A,"Kept over\r\nSoto"',
+      'Juan Soto,38,Team B,',
+    ].join('\r\n'));
+
+    expect(errors).toHaveLength(0);
+    expect(rows.map(r => [r.rowNumber, r.playerName, r.fantasyTeam])).toEqual([
+      [2, 'Aaron Judge', 'Team A'],
+      [3, 'Juan Soto', 'Team B'],
+    ]);
+  });
+
+  it('rejects files without the required columns', () => {
+    expect(() => parseDraftResultsCsv('Player,Team\nAaron Judge,NYY')).toThrow(/price, fantasyTeam/);
+  });
+});
+
+describe('Draft Import - Matching', () => {
+  it('matches rows in pick order and assigns my team', () => {
+    const { rows } = parseDraftResultsCsv([
+      'Player,Team,Price,Owner,Pick',
+      'Juan Soto,NYM,38,Team B,2',
+      'Aaron Judge,NYY,50,Team A,1',
+    ].join('\n'));
+
+    const { players, unmatched } = buildDraftImport(rows, projections, { myTeamName: 'team a' });
+
+    expect(unmatched).toHaveLength(0);
+    expect(players).toEqual([
+      { id: 'p1', name: 'Aaron Judge', status: 'onMyTeam', draftedPrice: 50, draftedBy: 'Team A' },
+      { id: 'p2', name: 'Juan Soto', status: 'drafted', draftedPrice: 38, draftedBy: 'Team B' },
+    ]);
+  });
+
+  it('falls back to a unique exact name when team and position are missing', () => {
+    const { rows } = parseDraftResultsCsv('Player,Price,Owner\nTarik Skubal,30,Team A');
+
+    const { players } = buildDraftImport(rows, projections);
+
+    expect(players.map(p => p.id)).toEqual(['p3']);
+  });
+
+  it('reports unmatched rows with candidates and applies resolutions', () => {
+    const { rows } = parseDraftResultsCsv('Player,Team,Price,Owner\nM. Betts,LAD,30,Team A');
+
+    const first = buildDraftImport(rows, projections);
+    expect(first.players).toHaveLength(0);
+    expect(first.unmatched[0].candidates.map(c => c.id)).toEqual(['p4']);
+
+    const second = buildDraftImport(rows, projections, { resolutions: { 2: 'p4' } });
+    expect(second.unmatched).toHaveLength(0);
+    expect(second.players[0]).toMatchObject({ id: 'p4', draftedPrice: 30, draftedBy: 'Team A' });
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Draft Persistence Tests
+ * Tests which scraped players are stored and how new picks are numbered
+ */
+
+import { describe, it, expect } from 'vitest';
+import '../../../server/test/setup';
+import {
+  collectTrackedPlayers,
+  getExternalId,
+  getPlayerType,
+  planNewPicks,
+} from '../draftPersistence';
+import type { MatchedPlayer, ScrapedAuctionData, ScrapedPlayer } from '../../types/auction';
+
+function makePlayer(id: number, overrides: Partial<ScrapedPlayer> = {}): ScrapedPlayer {
+  return {
+    couchManagersId: id,
+    firstName: 'Player',
+    lastName: String(id),
+    fullName: `Player ${id}`,
+    normalizedName: `player ${id}`,
+    positions: ['OF'],
+    mlbTeam: 'NYY',
+    status: 'available',
+    ...overrides,
+  };
+}
+
+function makeAuction(players: ScrapedPlayer[], overrides: Partial<ScrapedAuctionData> = {}): ScrapedAuctionData {
+  return {
+    roomId: '1234',
+    scrapedAt: '2026-03-01T12:00:00.000Z',
+    status: 'active',
+    players,
+    teams: [],
+    totalPlayersDrafted: 0,
+    totalMoneySpent: 0,
+    ...overrides,
+  };
+}
+
+function drafted(id: number, saleOrder?: number): ScrapedPlayer {
+  return makePlayer(id, { status: 'drafted', winningBid: 10 + id, winningTeam: `Team ${id}`, saleOrder });
+}
+
+describe('Draft Persistence', () => {
+  describe('collectTrackedPlayers', () => {
+    it('keeps drafted and on-block players, preferring the drafted entry for duplicates', () => {
+      const onBlock = makePlayer(3, { status: 'on_block' });
+      const tracked = collectTrackedPlayers(
+        makeAuction(
+          [makePlayer(1), drafted(2), makePlayer(2, { status: 'on_block' }), onBlock],
+          { activeAuctions: [{ playerId: 3, playerName: 'Player 3', currentBid: 5, currentBidder: 'Team A', timeRemaining: 30 }] }
+        ),
+        []
+      );
+
+      expect(tracked.map(t => [t.scraped.couchManagersId, t.scraped.status])).toEqual([
+        [2, 'drafted'],
+        [3, 'on_block'],
+      ]);
+      expect(tracked[1].auction?.currentBid).toBe(5);
+    });
+
+    it('attaches projection matches and falls back to a Couch Managers external ID', () => {
+      const match = {
+        scrapedPlayer: drafted(2),
+        projectionPlayerId: 'steamer-2',
+        projectedValue: 20,
+      } as MatchedPlayer;
+      const [matched, unmatched] = collectTrackedPlayers(makeAuction([drafted(2), drafted(4)]), [match]);
+
+      expect(getExternalId(matched)).toBe('steamer-2');
+      expect(getExternalId(unmatched)).toBe('couchmanagers:4');
+    });
+  });
+
+  describe('getPlayerType', () => {
+    it('only treats pitcher-only players as pitchers', () => {
+      expect(getPlayerType(['SP', 'RP'])).toBe('pitcher');
+      expect(getPlayerType(['SP', 'OF'])).toBe('hitter');
+      expect(getPlayerType([])).toBe('hitter');
+    });
+  });
+
+  describe('planNewPicks', () => {
+    const playerIds = new Map([[1, 'p1'], [2, 'p2'], [3, 'p3'], [4, 'p4']]);
+
+    it('numbers picks in sale order, with sales no longer listed first', () => {
+      const tracked = collectTrackedPlayers(
+        makeAuction([drafted(1, 7), drafted(2), drafted(3, 2), drafted(4)]),
+        []
+      );
+      const picks = planNewPicks(tracked, playerIds, [], 0.1);
+
+      expect(picks.map(p => [p.playerId, p.pickNumber])).toEqual([
+        ['p2', 1],
+        ['p4', 2],
+        ['p3', 3],
+        ['p1', 4],
+      ]);
+      expect(picks[0]).toMatchObject({ draftedByTeam: 'Team 2', price: 12, inflationRateAtPick: 0.1 });
+    });
+
+    it('skips recorded and unresolved players and continues the numbering', () => {
+      const tracked = collectTrackedPlayers(
+        makeAuction([drafted(1, 1), drafted(2, 2), drafted(5, 3), makePlayer(3, { status: 'on_block' })]),
+        []
+      );
+      const picks = planNewPicks(tracked, playerIds, [{ playerId: 'p1', pickNumber: 4 }], 0);
+
+      expect(picks.map(p => [p.playerId, p.pickNumber])).toEqual([['p2', 5]]);
+    });
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Draft Timeline Service Tests
+ * Tests pick-by-pick reconstruction of league state
+ */
+
+import { describe, it, expect } from 'vitest';
+import '../../../server/test/setup';
+import { buildDraftTimeline, getDraftTimeline, type TimelinePick } from '../draftTimelineService';
+
+function makePick(pickNumber: number, name: string, price: number, draftedBy: string, projectedValue: number): TimelinePick {
+  return {
+    pickNumber,
+    draftedAt: new Date(Date.UTC(2025, 2, 1, 12, pickNumber)),
+    price,
+    draftedBy,
+    inflationRateAtPick: null,
+    projectedValue,
+    player: { id: `p${pickNumber}`, name, team: 'NYY', positions: ['OF'] },
+  };
+}
+
+const config = {
+  numTeams: 2,
+  budgetPerTeam: 260,
+  rosterSpots: { OF: 3, Bench: 1 },
+};
+
+describe('Draft Timeline', () => {
+  it('returns one event per pick in pick order', () => {
+    const events = buildDraftTimeline(
+      [makePick(2, 'Juan Soto', 30, 'Team B', 40), makePick(1, 'Aaron Judge', 50, 'Team A', 45)],
+      config
+    );
+
+    expect(events.map(e => e.pickNumber)).toEqual([1, 2]);
+    expect(events[0].player.name).toBe('Aaron Judge');
+    expect(events[0].draftedAt).toBe('2025-03-01T12:01:00.000Z');
+  });
+
+  it('accumulates team budgets and drafted counts pick by pick', () => {
+    const events = buildDraftTimeline(
+      [
+        makePick(1, 'Aaron Judge', 50, 'Team A', 45),
+        makePick(2, 'Juan Soto', 30, 'Team B', 40),
+        makePick(3, 'Mookie Betts', 20, 'Team A', 25),
+      ],
+      config
+    );
+
+    expect(events[0].teamBudgets).toEqual([
+      { name: 'Team A', spent: 50, remaining: 210, playersDrafted: 1 },
+      { name: 'Team B', spent: 0, remaining: 260, playersDrafted: 0 },
+    ]);
+    expect(events[2].teamBudgets).toEqual([
+      { name: 'Team A', spent: 70, remaining: 190, playersDrafted: 2 },
+      { name: 'Team B', spent: 30, remaining: 230, playersDrafted: 1 },
+    ]);
+    expect(events.map(e => e.inflation.draftedPlayersCount)).toEqual([1, 2, 3]);
+    expect(events[2].inflation.totalActualSpent).toBe(100);
+  });
+
+  it('lists room teams without picks and keeper-only teams from the first pick', () => {
+    const events = buildDraftTimeline(
+      [makePick(1, 'Aaron Judge', 50, 'Team A', 45)],
+      {
+        ...config,
+        numTeams: 3,
+        teamNames: ['Team A', 'Team B'],
+        keepers: [{ teamName: 'Team C', playerName: 'Bobby Witt Jr.', salary: 12, projectedValue: 12 }],
+      }
+    );
+
+    expect(events[0].teamBudgets).toEqual([
+      { name: 'Team A', spent: 50, remaining: 210, playersDrafted: 1 },
+      { name: 'Team B', spent: 0, remaining: 260, playersDrafted: 0 },
+      { name: 'Team C', spent: 12, remaining: 248, playersDrafted: 1 },
+    ]);
+  });
+
+  it('stops charging a keeper once they show up as a pick', () => {
+    const events = buildDraftTimeline(
+      [makePick(1, 'Aaron Judge', 50, 'Team A', 45), makePick(2, 'Bobby Witt Jr.', 12, 'Team B', 30)],
+      { ...config, keepers: [{ teamName: 'Team B', playerName: 'Bobby Witt Jr.', salary: 12, projectedValue: 12 }] }
+    );
+
+    const teamB = { name: 'Team B', spent: 12, remaining: 248, playersDrafted: 1 };
+    expect(events[0].teamBudgets.find(t => t.name === 'Team B')).toEqual(teamB);
+    expect(events[1].teamBudgets.find(t => t.name === 'Team B')).toEqual(teamB);
+  });
+
+  describe('getDraftTimeline', () => {
+    it('reuses the timeline until the picks change', () => {
+      const picks = [makePick(1, 'Aaron Judge', 50, 'Team A', 45)];
+      const first = getDraftTimeline('league-1', picks, config);
+
+      expect(getDraftTimeline('league-1', [...picks], config)).toBe(first);
+
+      const updated = getDraftTimeline('league-1', [...picks, makePick(2, 'Juan Soto', 30, 'Team B', 40)], config);
+      expect(updated).not.toBe(first);
+      expect(updated).toHaveLength(2);
+    });
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Dynasty Projection Tests
+ * Tests aging curves, contract terms, and break-even contract pricing
+ */
+
+import { describe, it, expect } from 'vitest';
+import '../../../server/test/setup';
+import {
+  calculateContractValue,
+  getAgingGroup,
+  getDynastyContractTerms,
+  projectYearlyValues,
+  type DynastyContractTerms,
+} from '../dynastyProjection';
+
+const terms = (overrides: Partial<DynastyContractTerms> = {}): DynastyContractTerms => ({
+  projectionYears: 3,
+  discountRate: 0.15,
+  contractYears: 3,
+  salaryEscalator: 0,
+  ...overrides,
+});
+
+describe('Dynasty Projection', () => {
+  describe('getDynastyContractTerms', () => {
+    it('fills in defaults and runs contracts over the projection window', () => {
+      expect(getDynastyContractTerms({ dynastyWeight: 0.5, includeMinors: false })).toEqual(terms());
+      expect(getDynastyContractTerms({ dynastyWeight: 0.5, includeMinors: false, projectionYears: 5 }).contractYears).toBe(5);
+    });
+
+    it('clamps the projection window to 3-5 seasons', () => {
+      expect(getDynastyContractTerms({ dynastyWeight: 0.5, includeMinors: false, projectionYears: 8 }).projectionYears).toBe(5);
+      expect(getDynastyContractTerms({ dynastyWeight: 0.5, includeMinors: false, projectionYears: 1 }).projectionYears).toBe(3);
+    });
+  });
+
+  describe('getAgingGroup', () => {
+    it('uses the primary position for hitters and SP eligibility for pitchers', () => {
+      expect(getAgingGroup(['C', '1B'], 'hitter')).toBe('C');
+      expect(getAgingGroup(['1B', 'C'], 'hitter')).toBe('hitter');
+      expect(getAgingGroup(['SP', 'RP'], 'pitcher')).toBe('SP');
+      expect(getAgingGroup(['RP'], 'pitcher')).toBe('RP');
+    });
+  });
+
+  describe('projectYearlyValues', () => {
+    it('grows young players and declines veterans', () => {
+      const young = projectYearlyValues(20, 23, 'hitter', 3);
+      const veteran = projectYearlyValues(20, 34, 'hitter', 3);
+
+      expect(young[0]).toBe(20);
+      expect(young[2]).toBeGreaterThan(young[1]);
+      expect(young[1]).toBeGreaterThan(20);
+      expect(veteran[2]).toBeLessThan(veteran[1]);
+      expect(veteran[1]).toBeLessThan(20);
+    });
+
+    it('ages catchers faster than other hitters', () => {
+      const catcher = projectYearlyValues(20, 31, 'C', 4);
+      const hitter = projectYearlyValues(20, 31, 'hitter', 4);
+
+      expect(catcher[3]).toBeLessThan(hitter[3]);
+    });
+
+    it('holds players without a known age flat', () => {
+      expect(projectYearlyValues(15, null, 'SP', 4)).toEqual([15, 15, 15, 15]);
+    });
+  });
+
+  describe('calculateContractValue', () => {
+    it('is worth this season only on a one-year contract', () => {
+      expect(calculateContractValue([20, 30, 40], terms({ contractYears: 1 }))).toBe(20);
+    });
+
+    it('adds discounted surplus for players worth more than their salary later', () => {
+      // P = 20 + (30 - P)/1.15 + (40 - P)/1.15^2 solves to P ≈ 29.1
+      const value = calculateContractValue([20, 30, 40], terms());
+
+      expect(value).toBeCloseTo(29.07, 1);
+    });
+
+    it('does not charge for declining years since the player can be cut', () => {
+      expect(calculateContractValue([20, 15, 10], terms())).toBeCloseTo(20, 5);
+    });
+
+    it('lowers the value when salaries escalate', () => {
+      const flat = calculateContractValue([20, 30, 40], terms());
+      const escalated = calculateContractValue([20, 30, 40], terms({ salaryEscalator: 5 }));
+
+      expect(escalated).toBeLessThan(flat);
+      expect(escalated).toBeGreaterThanOrEqual(20);
+    });
+
+    it('values future seasons more with a lower discount rate', () => {
+      const steep = calculateContractValue([20, 30, 40], terms({ discountRate: 0.3 }));
+      const gentle = calculateContractValue([20, 30, 40], terms({ discountRate: 0 }));
+
+      expect(gentle).toBeGreaterThan(steep);
+    });
+  });
+});
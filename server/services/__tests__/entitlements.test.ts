@@ -0,0 +1,90 @@
+/**
+ * Entitlements Tests
+ * Tests what each tier unlocks and how billing events change the tier
+ */
+
+import { describe, it, expect } from 'vitest';
+import '../../../server/test/setup';
+import {
+  applyBillingEvent,
+  canCreateLeague,
+  FREE_LEAGUE_LIMIT,
+  getEffectiveTier,
+  getEntitlements,
+  tiersWithFeature,
+  type BillingEvent,
+} from '../entitlements';
+
+const NOW = new Date('2026-03-01T12:00:00Z');
+
+const event = (overrides: Partial<BillingEvent> = {}): BillingEvent => ({
+  type: 'subscription.updated',
+  status: 'active',
+  currentPeriodEnd: new Date('2026-03-31T12:00:00Z'),
+  cancelAtPeriodEnd: false,
+  ...overrides,
+});
+
+describe('Entitlements', () => {
+  describe('getEntitlements', () => {
+    it('gates premium features and caps free leagues', () => {
+      const free = getEntitlements('free');
+      expect(Object.values(free.features).every(enabled => !enabled)).toBe(true);
+      expect(free.maxLeagues).toBe(FREE_LEAGUE_LIMIT);
+
+      const premium = getEntitlements('premium');
+      expect(Object.values(premium.features).every(enabled => enabled)).toBe(true);
+      expect(premium.maxLeagues).toBeNull();
+    });
+
+    it('treats unknown tiers as free', () => {
+      expect(getEntitlements('enterprise').tier).toBe('free');
+      expect(tiersWithFeature('liveSync')).toEqual(['premium']);
+    });
+  });
+
+  describe('getEffectiveTier', () => {
+    const premium = { subscriptionTier: 'premium', subscriptionStatus: 'active', subscriptionPeriodEnd: null };
+
+    it('keeps a cancelled subscription premium only until the paid period ends', () => {
+      const cancelled = { ...premium, subscriptionStatus: 'cancelled', subscriptionPeriodEnd: new Date('2026-03-31T12:00:00Z') };
+
+      expect(getEffectiveTier(cancelled, NOW)).toBe('premium');
+      expect(getEffectiveTier(cancelled, new Date('2026-04-01T12:00:00Z'))).toBe('free');
+      expect(getEffectiveTier({ ...cancelled, subscriptionPeriodEnd: null }, NOW)).toBe('free');
+    });
+
+    it('leaves active, past due, and granted tiers alone', () => {
+      expect(getEffectiveTier(premium, NOW)).toBe('premium');
+      expect(getEffectiveTier({ ...premium, subscriptionStatus: 'past_due' }, NOW)).toBe('premium');
+      expect(getEffectiveTier({ ...premium, subscriptionTier: 'free' }, NOW)).toBe('free');
+    });
+  });
+
+  describe('canCreateLeague', () => {
+    it('stops free accounts at the league limit', () => {
+      expect(canCreateLeague('free', FREE_LEAGUE_LIMIT - 1)).toBe(true);
+      expect(canCreateLeague('free', FREE_LEAGUE_LIMIT)).toBe(false);
+      expect(canCreateLeague('premium', 50)).toBe(true);
+    });
+  });
+
+  describe('applyBillingEvent', () => {
+    it('keeps premium while past due or cancelled within the paid period', () => {
+      expect(applyBillingEvent(event({ status: 'past_due' }), NOW).subscriptionTier).toBe('premium');
+      expect(applyBillingEvent(event({ status: 'cancelled' }), NOW).subscriptionTier).toBe('premium');
+      expect(applyBillingEvent(
+        event({ status: 'cancelled', currentPeriodEnd: new Date('2026-02-28T12:00:00Z') }),
+        NOW
+      ).subscriptionTier).toBe('free');
+    });
+
+    it('drops to free when the subscription is deleted', () => {
+      const update = applyBillingEvent(event({ type: 'subscription.deleted', cancelAtPeriodEnd: true }), NOW);
+
+      expect(update.subscriptionTier).toBe('free');
+      expect(update.subscriptionStatus).toBe('cancelled');
+      expect(update.subscriptionCancelAtPeriodEnd).toBe(false);
+    });
+  });
+});
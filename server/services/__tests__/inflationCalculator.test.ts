@@ -345,6 +345,49 @@ describe('Inflation Calculator - Tier-Weighted Calculations', () => {
     });
   });
 
+  describe('Keepers', () => {
+    const keepers = [
+      { teamName: 'Team F', playerName: 'Kept Star', salary: 10, projectedValue: 40 },
+      { teamName: 'Team F', playerName: 'Available Mid', salary: 5, projectedValue: 12 },
+    ];
+
+    it('should take keeper salaries and roster spots out of the remaining budget', () => {
+      const without = calculateInflationStats(mockMatchedPlayers, leagueConfig, mockTeams);
+      const stats = calculateInflationStats(mockMatchedPlayers, { ...leagueConfig, keepers }, mockTeams);
+
+      // $15 of salaries come off, and 2 fewer spots need a $1 reserve
+      expect(stats.adjustedRemainingBudget).toBe(without.adjustedRemainingBudget - 15 + 2);
+      expect(stats.keeperSalaries).toBe(15);
+      expect(stats.keeperSurplus).toBe(37);
+    });
+
+    it('should not count keepers listed in the room as remaining value', () => {
+      const without = calculateInflationStats(mockMatchedPlayers, leagueConfig, mockTeams);
+      const stats = calculateInflationStats(mockMatchedPlayers, { ...leagueConfig, keepers }, mockTeams);
+
+      expect(stats.remainingProjectedValue).toBe(without.remainingProjectedValue - 12);
+    });
+
+    it('should charge keepers to their team', () => {
+      const stats = calculateInflationStats(mockMatchedPlayers, { ...leagueConfig, keepers }, mockTeams);
+      const teamF = stats.teamConstraints.find(t => t.teamName === 'Team F');
+
+      expect(teamF?.rawRemaining).toBe(245);
+      expect(teamF?.rosterSpotsRemaining).toBe(16);
+    });
+
+    it('should not charge keepers the room already lists as drafted again', () => {
+      const roomKeeper = [{ teamName: 'Team A', playerName: 'Mike Trout', salary: 45, projectedValue: 40 }];
+      const without = calculateInflationStats(mockMatchedPlayers, leagueConfig, mockTeams);
+      const stats = calculateInflationStats(mockMatchedPlayers, { ...leagueConfig, keepers: roomKeeper }, mockTeams);
+      const teamA = stats.teamConstraints.find(t => t.teamName === 'Team A');
+
+      expect(teamA).toEqual(without.teamConstraints.find(t => t.teamName === 'Team A'));
+      // Charged once league-wide: the salary moves from the auction spend to keepers
+      expect(stats.adjustedRemainingBudget).toBe(without.adjustedRemainingBudget);
+    });
+  });
+
   describe('Competition Factor', () => {
     it('should return 1.0 when all teams can easily afford', () => {
       const constraints = calculateEffectiveBudget(mockTeams, leagueConfig);
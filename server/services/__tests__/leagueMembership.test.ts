@@ -0,0 +1,66 @@
+/**
+ * League Membership Tests
+ * Tests role permissions and who can answer a league invite
+ */
+
+import { describe, it, expect } from 'vitest';
+import '../../../server/test/setup';
+import {
+  generateInviteToken,
+  getInviteError,
+  hasLeagueRole,
+  type InviteCheck,
+} from '../leagueMembership';
+
+const NOW = new Date('2026-03-01T12:00:00Z');
+
+const invite = (overrides: Partial<InviteCheck> = {}): InviteCheck => ({
+  status: 'pending',
+  email: null,
+  tokenHash: '',
+  expiresAt: new Date('2026-03-05T12:00:00Z'),
+  ...overrides,
+});
+
+describe('League Membership', () => {
+  describe('hasLeagueRole', () => {
+    it('lets higher roles do everything lower roles can', () => {
+      expect(hasLeagueRole('owner', 'co-manager')).toBe(true);
+      expect(hasLeagueRole('co-manager', 'co-manager')).toBe(true);
+      expect(hasLeagueRole('member', 'co-manager')).toBe(false);
+      expect(hasLeagueRole('co-manager', 'owner')).toBe(false);
+    });
+  });
+
+  describe('getInviteError', () => {
+    it('accepts a link invite from anyone holding the token', () => {
+      const { token, tokenHash } = generateInviteToken();
+
+      expect(getInviteError(invite({ tokenHash }), { email: 'a@example.com' }, token, NOW)).toBeNull();
+      expect(getInviteError(invite({ tokenHash }), { email: 'a@example.com' }, 'wrong', NOW)).toBe('INVITE_FORBIDDEN');
+      expect(getInviteError(invite({ tokenHash }), { email: 'a@example.com' }, undefined, NOW)).toBe('INVITE_FORBIDDEN');
+    });
+
+    it('only lets the invited account answer an email invite, and only with its link', () => {
+      const { token, tokenHash } = generateInviteToken();
+      const emailInvite = invite({ email: 'friend@example.com', tokenHash });
+
+      expect(getInviteError(emailInvite, { email: 'Friend@Example.com' }, token, NOW)).toBeNull();
+      expect(getInviteError(emailInvite, { email: 'Friend@Example.com' }, undefined, NOW)).toBe('INVITE_FORBIDDEN');
+      expect(getInviteError(emailInvite, { email: 'other@example.com' }, token, NOW)).toBe('INVITE_FORBIDDEN');
+    });
+
+    it('rejects invites that were answered, revoked, or have expired', () => {
+      const user = { email: 'friend@example.com' };
+
+      expect(getInviteError(invite({ email: user.email, status: 'accepted' }), user, undefined, NOW)).toBe('INVITE_NOT_PENDING');
+      expect(getInviteError(invite({ email: user.email, status: 'revoked' }), user, undefined, NOW)).toBe('INVITE_NOT_PENDING');
+      expect(getInviteError(
+        invite({ email: user.email, expiresAt: new Date('2026-02-28T12:00:00Z') }),
+        user,
+        undefined,
+        NOW
+      )).toBe('INVITE_EXPIRED');
+    });
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * Manual Draft Service Tests
+ * Tests team budget state and inflation for hand-entered picks
+ */
+
+import { describe, it, expect } from 'vitest';
+import '../../../server/test/setup';
+import { calculateManualInflation, type ManualDraftPlayer } from '../manualDraftService';
+import { buildManualTeams } from '../../../src/lib/manualDraft';
+
+function makePlayer(id: string, projectedValue: number, draftedBy?: string, draftedPrice?: number): ManualDraftPlayer {
+  return { id, name: `Player ${id}`, team: 'NYY', positions: ['OF'], projectedValue, draftedBy, draftedPrice };
+}
+
+const config = {
+  numTeams: 2,
+  budgetPerTeam: 100,
+  totalRosterSpots: 4,
+  rosterSpots: { OF: 4 },
+};
+
+describe('Manual Draft', () => {
+  it('builds budgets for every team, including teams without picks', () => {
+    const teams = buildManualTeams(
+      ['Team A', 'Team B'],
+      [makePlayer('1', 40, 'Team A', 45), makePlayer('2', 20, 'Team A', 15), makePlayer('3', 10)],
+      100
+    );
+
+    expect(teams).toEqual([
+      { name: 'Team A', budget: 100, spent: 60, remaining: 40, playersDrafted: 2, isOnline: false },
+      { name: 'Team B', budget: 100, spent: 0, remaining: 100, playersDrafted: 0, isOnline: false },
+    ]);
+  });
+
+  it('keeps picks for teams missing from the team list', () => {
+    const teams = buildManualTeams(['Team A'], [makePlayer('1', 40, 'Old Name', 30)], 100);
+
+    expect(teams.map(t => t.name)).toEqual(['Team A', 'Old Name']);
+    expect(teams[1].remaining).toBe(70);
+  });
+
+  it('calculates inflation with team constraints from the picks', () => {
+    const stats = calculateManualInflation(
+      [makePlayer('1', 40, 'Team A', 50), makePlayer('2', 30), makePlayer('3', 20)],
+      ['Team A', 'Team B'],
+      config
+    );
+
+    expect(stats.draftedPlayersCount).toBe(1);
+    expect(stats.totalActualSpent).toBe(50);
+    // Team A: $50 left with 3 open spots keeps $2 in reserve
+    expect(stats.teamConstraints).toEqual([
+      expect.objectContaining({ teamName: 'Team A', rawRemaining: 50, rosterSpotsRemaining: 3, effectiveBudget: 48 }),
+      expect.objectContaining({ teamName: 'Team B', rawRemaining: 100, rosterSpotsRemaining: 4, effectiveBudget: 97 }),
+    ]);
+  });
+});
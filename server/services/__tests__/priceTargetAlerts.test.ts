@@ -0,0 +1,60 @@
+/**
+ * Price Target Alerts Tests
+ * Tests finding targeted players nominated below the user's price
+ */
+
+import { describe, it, expect } from 'vitest';
+import '../../../server/test/setup';
+import { findPriceTargetAlerts, getPriceTargets } from '../priceTargetAlerts';
+import type { CurrentAuction } from '../../types/auction';
+
+function makeAuction(playerId: number, playerName: string, currentBid: number): CurrentAuction {
+  return { playerId, playerName, currentBid, currentBidder: 'Team A', timeRemaining: 30 };
+}
+
+describe('Price Target Alerts', () => {
+  it('only uses targeted players with a price, preferring the max price', () => {
+    const targets = getPriceTargets([
+      { id: '1', name: 'Max Set', isTargeted: true, maxPrice: 20, valueOverride: 30 },
+      { id: '2', name: 'Pinned Only', isTargeted: true, valueOverride: 12 },
+      { id: '3', name: 'No Price', isTargeted: true },
+      { id: '4', name: 'Not Targeted', maxPrice: 15 },
+    ]);
+
+    expect(targets).toEqual([
+      { playerName: 'Max Set', price: 20 },
+      { playerName: 'Pinned Only', price: 12 },
+    ]);
+  });
+
+  it('alerts for a newly nominated target below its price', () => {
+    const alerts = findPriceTargetAlerts(
+      [makeAuction(1, 'Félix Bautista', 8), makeAuction(2, 'Other Player', 3)],
+      new Set(),
+      [{ playerName: 'Felix Bautista', price: 15 }]
+    );
+
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0].auction.playerId).toBe(1);
+  });
+
+  it('skips targets already at or above the price', () => {
+    const alerts = findPriceTargetAlerts(
+      [makeAuction(1, 'Target Player', 15)],
+      new Set(),
+      [{ playerName: 'Target Player', price: 15 }]
+    );
+
+    expect(alerts).toEqual([]);
+  });
+
+  it('skips auctions that were already on the block', () => {
+    const alerts = findPriceTargetAlerts(
+      [makeAuction(1, 'Target Player', 5)],
+      new Set([1]),
+      [{ playerName: 'Target Player', price: 15 }]
+    );
+
+    expect(alerts).toEqual([]);
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Projection Blender Tests
+ * Tests joining and weighted averaging of multiple projection systems
+ */
+
+import { describe, it, expect } from 'vitest';
+import '../../../server/test/setup';
+import { blendProjections, getActiveBlendSystems } from '../projectionBlender';
+import type { NormalizedProjection } from '../../types/projections';
+
+function makeHitter(id: string, mlbamId: number, overrides: Partial<NonNullable<NormalizedProjection['hitting']>> = {}): NormalizedProjection {
+  return {
+    externalId: id,
+    mlbamId,
+    name: 'Test Hitter',
+    team: 'NYY',
+    positions: ['OF'],
+    playerType: 'hitter',
+    hitting: {
+      games: 150, atBats: 500, plateAppearances: 600, runs: 90, hits: 150,
+      singles: 100, doubles: 25, triples: 2, homeRuns: 23, rbi: 85,
+      stolenBases: 10, caughtStealing: 3, walks: 80, strikeouts: 120,
+      battingAvg: 0.3, onBasePct: 0.38, sluggingPct: 0.5, ops: 0.88,
+      wOBA: 0.37, wrcPlus: 140, war: 5,
+      ...overrides,
+    },
+  };
+}
+
+function makePitcher(id: string, name: string, inningsPitched: number, era: number): NormalizedProjection {
+  return {
+    externalId: id,
+    mlbamId: 0,
+    name,
+    team: 'LAD',
+    positions: ['SP'],
+    playerType: 'pitcher',
+    pitching: {
+      games: 30, gamesStarted: 30, inningsPitched, wins: 12, losses: 8, saves: 0, holds: 0,
+      hitsAllowed: 150, earnedRuns: (era * inningsPitched) / 9, homeRunsAllowed: 20,
+      walks: 50, strikeouts: 200, era, whip: 1.2, k9: 9, bb9: 2.5, fip: 3.5, war: 4,
+      kPercent: 0.25, bbPercent: 0.07, battersFaced: 800, qualityStarts: 15,
+    },
+  };
+}
+
+describe('Projection Blender', () => {
+  it('averages counting stats by weight and recomputes rate stats', () => {
+    const [blended] = blendProjections([
+      { system: 'steamer', weight: 75, projections: [makeHitter('fg1', 100, { homeRuns: 20, hits: 150, atBats: 500 })] },
+      { system: 'batx', weight: 25, projections: [makeHitter('fg1', 100, { homeRuns: 40, hits: 120, atBats: 400 })] },
+    ]);
+
+    expect(blended.hitting?.homeRuns).toBe(25);
+    // AVG from averaged hits (142.5) over averaged at-bats (475)
+    expect(blended.hitting?.battingAvg).toBeCloseTo(0.3);
+    expect(blended.hitting?.ops).toBeCloseTo((blended.hitting?.onBasePct ?? 0) + (blended.hitting?.sluggingPct ?? 0));
+  });
+
+  it('weights ERA by innings rather than averaging the rates', () => {
+    const [blended] = blendProjections([
+      { system: 'steamer', weight: 1, projections: [makePitcher('fg2', 'Ace Pitcher', 180, 3.0)] },
+      { system: 'ja', weight: 1, projections: [makePitcher('ja-abc', 'Ace Pitcher', 60, 6.0)] },
+    ]);
+
+    // (3.0 x 180 + 6.0 x 60) / 240
+    expect(blended.pitching?.era).toBeCloseTo(3.75);
+    expect(blended.pitching?.inningsPitched).toBe(120);
+  });
+
+  it('renormalizes weights for players missing from a system', () => {
+    const blended = blendProjections([
+      { system: 'steamer', weight: 50, projections: [makeHitter('fg1', 100), makeHitter('fg3', 300, { homeRuns: 30 })] },
+      { system: 'batx', weight: 50, projections: [makeHitter('fg1', 100)] },
+    ]);
+
+    expect(blended).toHaveLength(2);
+    expect(blended.find(p => p.externalId === 'fg3')?.hitting?.homeRuns).toBe(30);
+  });
+
+  it('takes identity from the highest-weighted system', () => {
+    const [blended] = blendProjections([
+      { system: 'batx', weight: 20, projections: [{ ...makeHitter('fg1', 100), team: 'BOS' }] },
+      { system: 'steamer', weight: 80, projections: [{ ...makeHitter('fg1', 100), team: 'NYY' }] },
+    ]);
+
+    expect(blended.team).toBe('NYY');
+  });
+
+  it('does not merge namesakes from the same system', () => {
+    const blended = blendProjections([
+      { system: 'ja', weight: 1, projections: [makePitcher('ja-1', 'Will Smith', 60, 3), makePitcher('ja-2', 'Will Smith', 70, 4)] },
+    ]);
+
+    expect(blended).toHaveLength(2);
+  });
+
+  it('lists only systems with a positive weight, highest first', () => {
+    expect(getActiveBlendSystems({ steamer: 20, batx: 50, ja: 0 })).toEqual(['batx', 'steamer']);
+  });
+});
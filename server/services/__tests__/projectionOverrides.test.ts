@@ -0,0 +1,89 @@
+/**
+ * Projection Overrides Tests
+ * Tests applying a league's per-player stat edits to projections
+ */
+
+import { describe, it, expect } from 'vitest';
+import '../../../server/test/setup';
+import { applyStatOverrides } from '../projectionOverrides';
+import type { NormalizedProjection } from '../../types/projections';
+
+const hitter: NormalizedProjection = {
+  externalId: 'fg1',
+  mlbamId: 100,
+  name: 'Test Hitter',
+  team: 'NYY',
+  positions: ['OF'],
+  playerType: 'hitter',
+  hitting: {
+    games: 150, atBats: 500, plateAppearances: 580, runs: 90, hits: 150,
+    singles: 100, doubles: 25, triples: 2, homeRuns: 23, rbi: 85,
+    stolenBases: 10, caughtStealing: 3, walks: 70, strikeouts: 120,
+    battingAvg: 0.3, onBasePct: 0.379, sluggingPct: 0.5, ops: 0.879,
+    wOBA: 0.37, wrcPlus: 140, war: 5,
+  },
+};
+
+const reliever: NormalizedProjection = {
+  externalId: 'fg2',
+  mlbamId: 200,
+  name: 'Test Reliever',
+  team: 'LAD',
+  positions: ['RP'],
+  playerType: 'pitcher',
+  pitching: {
+    games: 65, gamesStarted: 0, inningsPitched: 60, wins: 4, losses: 3, saves: 5, holds: 20,
+    hitsAllowed: 50, earnedRuns: 20, homeRunsAllowed: 6, walks: 20, strikeouts: 75,
+    era: 3.0, whip: 1.17, k9: 11.25, bb9: 3, fip: 3.2, war: 1,
+    kPercent: 0.3, bbPercent: 0.08, battersFaced: 250, qualityStarts: 0,
+  },
+};
+
+describe('Projection Overrides', () => {
+  it('applies an override and flags the line', () => {
+    const [, closer] = applyStatOverrides([hitter, reliever], [
+      { externalId: 'fg2', mlbamId: 200, overrides: { pitching: { saves: 30 } } },
+    ]);
+
+    expect(closer.pitching?.saves).toBe(30);
+    expect(closer.pitching?.era).toBe(3.0);
+    expect(closer.statOverrides).toEqual({ pitching: { saves: 30 } });
+  });
+
+  it('recalculates rate stats derived from an overridden stat', () => {
+    const [edited] = applyStatOverrides([hitter], [
+      { externalId: 'fg1', mlbamId: 100, overrides: { hitting: { hits: 140 } } },
+    ]);
+
+    expect(edited.hitting?.battingAvg).toBeCloseTo(0.28);
+    expect(edited.hitting?.singles).toBe(90);
+    expect(edited.hitting?.ops).toBeCloseTo((edited.hitting?.onBasePct ?? 0) + (edited.hitting?.sluggingPct ?? 0));
+  });
+
+  it('keeps rate stats that were overridden alongside their components', () => {
+    const [, edited] = applyStatOverrides([hitter, reliever], [
+      { externalId: 'fg2', mlbamId: 200, overrides: { pitching: { inningsPitched: 70, era: 2.5 } } },
+    ]);
+
+    expect(edited.pitching?.era).toBe(2.5);
+    expect(edited.pitching?.earnedRuns).toBe(Math.round((2.5 * 70) / 9));
+  });
+
+  it('matches by MLBAM ID when the external ID differs', () => {
+    const [edited] = applyStatOverrides([{ ...reliever, externalId: 'ja-xyz' }], [
+      { externalId: 'fg2', mlbamId: 200, overrides: { pitching: { saves: 25 } } },
+    ]);
+
+    expect(edited.pitching?.saves).toBe(25);
+  });
+
+  it('leaves players without overrides untouched', () => {
+    const projections = [hitter, reliever];
+    const result = applyStatOverrides(projections, [
+      { externalId: 'fg1', mlbamId: 100, overrides: { pitching: { saves: 10 } } },
+    ]);
+
+    expect(result[0]).toBe(hitter);
+    expect(result[1]).toBe(reliever);
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Projection Snapshot Diff Tests
+ * Tests snapshot hashing and value risers/fallers between snapshots
+ */
+
+import { describe, it, expect } from 'vitest';
+import '../../../server/test/setup';
+import { diffPlayerValues, hashProjections } from '../projectionSnapshotDiff';
+import type { NormalizedProjection, PlayerWithValue } from '../../types/projections';
+
+const projection = (externalId: string, homeRuns: number): NormalizedProjection => ({
+  externalId,
+  mlbamId: 0,
+  name: `Player ${externalId}`,
+  team: 'SEA',
+  positions: ['OF'],
+  playerType: 'hitter',
+  hitting: { homeRuns } as NormalizedProjection['hitting'],
+});
+
+const valued = (externalId: string, auctionValue: number): PlayerWithValue => ({
+  ...projection(externalId, 0),
+  auctionValue,
+  tier: 1,
+  isInDraftPool: auctionValue > 0,
+});
+
+describe('Projection Snapshot Diff', () => {
+  describe('hashProjections', () => {
+    it('ignores player order but not stat changes', () => {
+      const a = projection('1', 30);
+      const b = projection('2', 20);
+
+      expect(hashProjections([a, b])).toBe(hashProjections([b, a]));
+      expect(hashProjections([a, b])).not.toBe(hashProjections([projection('1', 31), b]));
+    });
+  });
+
+  describe('diffPlayerValues', () => {
+    it('sorts risers and fallers by the size of the move', () => {
+      const diff = diffPlayerValues(
+        [valued('1', 10), valued('2', 20), valued('3', 30), valued('4', 5)],
+        [valued('1', 12), valued('2', 28), valued('3', 21), valued('4', 5)]
+      );
+
+      expect(diff.risers.map(c => c.externalId)).toEqual(['2', '1']);
+      expect(diff.risers[0]).toMatchObject({ fromValue: 20, toValue: 28, change: 8 });
+      expect(diff.fallers.map(c => c.externalId)).toEqual(['3']);
+      expect(diff.fallers[0].change).toBe(-9);
+    });
+
+    it('lists valued players added to or dropped from the projections', () => {
+      const diff = diffPlayerValues(
+        [valued('1', 10), valued('gone', 7), valued('gone-scrub', 0)],
+        [valued('1', 10), valued('new', 4), valued('new-scrub', 0)]
+      );
+
+      expect(diff.added).toEqual([expect.objectContaining({ externalId: 'new', fromValue: null, toValue: 4 })]);
+      expect(diff.removed).toEqual([expect.objectContaining({ externalId: 'gone', fromValue: 7, toValue: null })]);
+      expect(diff.risers).toHaveLength(0);
+      expect(diff.fallers).toHaveLength(0);
+    });
+
+    it('caps each list at the limit', () => {
+      const from = Array.from({ length: 10 }, (_, i) => valued(String(i), 10));
+      const to = Array.from({ length: 10 }, (_, i) => valued(String(i), 11 + i));
+
+      expect(diffPlayerValues(from, to, 3).risers.map(c => c.externalId)).toEqual(['9', '8', '7']);
+    });
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Prospect Service Tests
+ * Tests prospect list parsing and farm slot valuation
+ */
+
+import { describe, it, expect } from 'vitest';
+import '../../../server/test/setup';
+import { calculateProspectValues, hasFarmSlots, parseProspectList } from '../prospectService';
+import type { LeagueSettings } from '../../../src/lib/types';
+import type { Prospect } from '../../types/projections';
+
+const settings = (farmSettings?: LeagueSettings['farmSettings']): LeagueSettings => ({
+  leagueName: 'Dynasty League',
+  couchManagerRoomId: '',
+  numTeams: 2,
+  budgetPerTeam: 260,
+  rosterSpots: {
+    C: 1, '1B': 1, '2B': 1, '3B': 1, SS: 1, OF: 3,
+    CI: 0, MI: 0, UTIL: 1, SP: 5, RP: 2, P: 0, Bench: 0,
+  },
+  leagueType: 'dynasty',
+  scoringType: 'rotisserie',
+  projectionSystem: 'steamer',
+  dynastySettings: { dynastyWeight: 0.5, includeMinors: true, discountRate: 0.2 },
+  farmSettings,
+});
+
+const prospect = (name: string, rank: number, level: Prospect['level'], eta: number): Prospect => ({
+  name,
+  team: 'SEA',
+  positions: ['SS'],
+  level,
+  eta,
+  rank,
+  age: 20,
+});
+
+describe('Prospect Service', () => {
+  describe('parseProspectList', () => {
+    it('parses rows and skips ones missing a name, rank, or ETA', () => {
+      const prospects = parseProspectList([
+        { name: 'Top Prospect', team: 'SEA', positions: 'SS/2B', level: 'AA', eta: 2027, rank: 1, age: 20 },
+        { name: 'Odd Level', rank: 2, eta: 2028, level: 'Rookie' },
+        { name: 'No Rank', eta: 2027 },
+        { rank: 3, eta: 2027 },
+      ]);
+
+      expect(prospects).toHaveLength(2);
+      expect(prospects[0].positions).toEqual(['SS', '2B']);
+      expect(prospects[1].level).toBe('other');
+      expect(prospects[1].age).toBeNull();
+    });
+
+    it('rejects lists that are not arrays', () => {
+      expect(() => parseProspectList({ prospects: [] })).toThrow('Prospect list must be a JSON array');
+    });
+  });
+
+  describe('hasFarmSlots', () => {
+    it('requires a dynasty league with MiLB slots', () => {
+      expect(hasFarmSlots(settings({ milbSlots: 2, farmBudget: 0 }))).toBe(true);
+      expect(hasFarmSlots(settings({ milbSlots: 0, farmBudget: 20 }))).toBe(false);
+      expect(hasFarmSlots(settings())).toBe(false);
+      expect(hasFarmSlots({ ...settings({ milbSlots: 2, farmBudget: 20 }), leagueType: 'redraft' })).toBe(false);
+    });
+  });
+
+  describe('calculateProspectValues', () => {
+    it('discounts prospects further from the majors', () => {
+      const values = calculateProspectValues([
+        prospect('Near', 10, 'AAA', 2026),
+        prospect('Far', 10, 'A', 2029),
+      ], settings({ milbSlots: 1, farmBudget: 10 }), 2026);
+
+      const near = values.find(p => p.name === 'Near');
+      const far = values.find(p => p.name === 'Far');
+      expect(near?.futureValue).toBeGreaterThan(far?.futureValue ?? 0);
+    });
+
+    it('splits the farm budget across the MiLB slots', () => {
+      const values = calculateProspectValues([
+        prospect('First', 1, 'AA', 2027),
+        prospect('Second', 20, 'AA', 2027),
+        prospect('Third', 80, 'AA', 2027),
+        prospect('Fourth', 200, 'A', 2028),
+        prospect('Graduated', 5, 'MLB', 2025),
+      ], settings({ milbSlots: 1, farmBudget: 20 }), 2026);
+
+      expect(values.map(p => p.name)).toEqual(['First', 'Second', 'Third', 'Fourth']);
+      expect(values.filter(p => p.isInFarmPool)).toHaveLength(2);
+      expect(Math.abs(values[0].farmValue + values[1].farmValue - 40)).toBeLessThanOrEqual(1);
+      expect(values[0].farmValue).toBeGreaterThan(values[1].farmValue);
+      expect(values[2].farmValue).toBe(0);
+    });
+
+    it('ranks prospects without dollars when there is no farm budget', () => {
+      const values = calculateProspectValues([
+        prospect('First', 1, 'AA', 2027),
+      ], settings({ milbSlots: 3, farmBudget: 0 }), 2026);
+
+      expect(values[0].isInFarmPool).toBe(true);
+      expect(values[0].farmValue).toBe(0);
+      expect(values[0].futureValue).toBeGreaterThan(0);
+    });
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * TOTP Tests
+ * Tests code generation against the RFC 6238 vectors, drift and replay handling, and recovery codes
+ */
+
+import { describe, it, expect } from 'vitest';
+import '../../../server/test/setup';
+import {
+  base32Decode,
+  base32Encode,
+  generateRecoveryCodes,
+  generateTotp,
+  getTotpStep,
+  hashRecoveryCode,
+  verifyTotp,
+} from '../totp';
+
+// The RFC 6238 SHA-1 test key, "12345678901234567890"
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('TOTP', () => {
+  describe('base32', () => {
+    it('round-trips and ignores case, spaces, and padding', () => {
+      expect(RFC_SECRET).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+      expect(base32Decode('gezd gnbv gy3t qojq gezd gnbv gy3t qojq==').toString()).toBe('12345678901234567890');
+    });
+  });
+
+  describe('generateTotp', () => {
+    it('matches the RFC 6238 test vectors (last 6 digits)', () => {
+      expect(generateTotp(RFC_SECRET, getTotpStep(59 * 1000))).toBe('287082');
+      expect(generateTotp(RFC_SECRET, getTotpStep(1111111109 * 1000))).toBe('081804');
+      expect(generateTotp(RFC_SECRET, getTotpStep(1234567890 * 1000))).toBe('005924');
+    });
+  });
+
+  describe('verifyTotp', () => {
+    const now = 1111111109 * 1000;
+    const step = getTotpStep(now);
+
+    it('accepts one step of clock drift either way', () => {
+      expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step), null, now)).toBe(step);
+      expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 1), null, now)).toBe(step - 1);
+      expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step + 1), null, now)).toBe(step + 1);
+      expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 2), null, now)).toBeNull();
+    });
+
+    it('rejects codes at or before the last used step', () => {
+      const code = generateTotp(RFC_SECRET, step);
+      expect(verifyTotp(RFC_SECRET, code, step, now)).toBeNull();
+      expect(verifyTotp(RFC_SECRET, code, step - 1, now)).toBe(step);
+    });
+
+    it('rejects malformed codes', () => {
+      expect(verifyTotp(RFC_SECRET, '12345', null, now)).toBeNull();
+      expect(verifyTotp(RFC_SECRET, 'abcdef', null, now)).toBeNull();
+    });
+  });
+
+  describe('generateRecoveryCodes', () => {
+    it('returns distinct codes whose hashes match however they are typed', () => {
+      const { codes, hashes } = generateRecoveryCodes();
+
+      expect(codes).toHaveLength(10);
+      expect(new Set(codes).size).toBe(10);
+      expect(codes[0]).toMatch(/^[A-Z2-7]{5}-[A-Z2-7]{5}$/);
+      expect(hashRecoveryCode(codes[0].toLowerCase().replace('-', ''))).toBe(hashes[0]);
+    });
+  });
+});
@@ -0,0 +1,38 @@
+/**
+ * User Agent Tests
+ * Tests the device labels shown in the active sessions list
+ */
+
+import { describe, it, expect } from 'vitest';
+import '../../../server/test/setup';
+import { describeUserAgent } from '../userAgent';
+
+describe('User Agent', () => {
+  describe('describeUserAgent', () => {
+    it('names common desktop browsers', () => {
+      expect(describeUserAgent(
+        'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/129.0.0.0 Safari/537.36'
+      )).toBe('Chrome on macOS');
+      expect(describeUserAgent(
+        'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/129.0.0.0 Safari/537.36 Edg/129.0.0.0'
+      )).toBe('Edge on Windows');
+      expect(describeUserAgent(
+        'Mozilla/5.0 (X11; Linux x86_64; rv:131.0) Gecko/20100101 Firefox/131.0'
+      )).toBe('Firefox on Linux');
+    });
+
+    it('prefers the mobile platform over the desktop one it mentions', () => {
+      expect(describeUserAgent(
+        'Mozilla/5.0 (iPhone; CPU iPhone OS 18_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/18.0 Mobile/15E148 Safari/604.1'
+      )).toBe('Safari on iPhone');
+      expect(describeUserAgent(
+        'Mozilla/5.0 (Linux; Android 14; Pixel 8) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/129.0.0.0 Mobile Safari/537.36'
+      )).toBe('Chrome on Android');
+    });
+
+    it('falls back when the agent is missing or unrecognized', () => {
+      expect(describeUserAgent(null)).toBe('Unknown device');
+      expect(describeUserAgent('curl/8.4.0')).toBe('Unknown browser on unknown device');
+    });
+  });
+});
@@ -4,9 +4,14 @@
  */
 
 import { describe, it, expect, beforeEach } from 'vitest';
-import type { NormalizedProjection } from '../../types/projections';
+import type { HittingStats, NormalizedProjection, PitchingStats } from '../../types/projections';
 import type { LeagueSettings } from '../../../src/lib/types';
-import { calculateAuctionValues, validateScoringCategories, getCategorySupportSummary } from '../valueCalculator';
+import {
+  calculateAuctionValues,
+  validateScoringCategories,
+  validatePointsCategories,
+  getCategorySupportSummary,
+} from '../valueCalculator';
 
 describe('Value Calculator - SGP-Based Calculations', () => {
   let mockProjections: NormalizedProjection[];
@@ -415,6 +420,92 @@ describe('Value Calculator - SGP-Based Calculations', () => {
       // Trout's 50 HRs should make him significantly more valuable
       expect(trout.pointsValue!).toBeGreaterThan(average.pointsValue! * 2);
     });
+
+    it('should value players over positional replacement', () => {
+      const hitter = (id: string, positions: string[], runs: number): NormalizedProjection => ({
+        ...mockProjections[0],
+        externalId: id,
+        name: id,
+        positions,
+        hitting: { ...(mockProjections[0].hitting as HittingStats), runs },
+      });
+
+      const settings: LeagueSettings = {
+        ...baseLeagueSettings,
+        numTeams: 2,
+        scoringType: 'h2h-points',
+        rosterSpots: {
+          C: 1, '1B': 0, '2B': 0, '3B': 0, SS: 0, OF: 1,
+          CI: 0, MI: 0, UTIL: 1, SP: 0, RP: 0, P: 0, Bench: 0,
+        },
+        pointsSettings: { R: 1 },
+        inflationSettings: { enableMarketCorrection: false, enablePositionScarcity: false },
+      };
+
+      const result = calculateAuctionValues([
+        hitter('C1', ['C'], 300),
+        hitter('C2', ['C'], 200),
+        hitter('C3', ['C'], 100),
+        hitter('OF1', ['OF'], 500),
+        hitter('OF2', ['OF'], 480),
+        hitter('OF3', ['OF'], 460),
+        hitter('OF4', ['OF'], 450),
+        hitter('OF5', ['OF'], 440),
+      ], settings);
+
+      const byName = (name: string) => result.players.find(p => p.name === name);
+
+      // OF3 and OF4 take the UTIL spots, so C3 and OF5 are the replacement players
+      expect(byName('C1')?.pointsAboveReplacement).toBe(200);
+      expect(byName('OF1')?.pointsAboveReplacement).toBe(60);
+      expect(byName('OF4')?.isInDraftPool).toBe(true);
+      expect(byName('C3')?.isInDraftPool).toBe(false);
+      expect(byName('C1')?.auctionValue).toBeGreaterThan(byName('OF1')?.auctionValue ?? 0);
+    });
+
+    it('should score wins and appearances separately for starts and relief', () => {
+      const reliever: NormalizedProjection = {
+        ...mockProjections[3],
+        externalId: 'rp1',
+        name: 'Middle Reliever',
+        positions: ['RP'],
+        pitching: {
+          ...(mockProjections[3].pitching as PitchingStats),
+          games: 60,
+          gamesStarted: 0,
+          inningsPitched: 65,
+          wins: 4,
+          losses: 3,
+        },
+      };
+
+      const result = calculateAuctionValues([mockProjections[3], reliever], {
+        ...baseLeagueSettings,
+        scoringType: 'h2h-points',
+        pointsSettings: { SW: 5, RW: 2, RL: -1, RA: 1 },
+      });
+
+      const starter = result.players.find(p => p.name === 'Gerrit Cole');
+      const relief = result.players.find(p => p.name === 'Middle Reliever');
+
+      // 4 RW × 2 - 3 RL + 60 RA
+      expect(relief?.pointsValue).toBe(65);
+      // Cole never pitches in relief: 15 SW × 5
+      expect(starter?.pointsValue).toBe(75);
+    });
+
+    it('should report estimated points categories with the results', () => {
+      const result = calculateAuctionValues(mockProjections, {
+        ...baseLeagueSettings,
+        scoringType: 'h2h-points',
+        pointsSettings: { R: 1, HBP: 1, QS: 3 },
+      });
+
+      expect(result.categoryWarnings).toEqual([
+        expect.stringContaining('"HBP" uses estimated values'),
+        expect.stringContaining('"QS" uses estimated values'),
+      ]);
+    });
   });
 
   describe('Edge Cases', () => {
@@ -554,6 +645,26 @@ describe('Value Calculator - SGP-Based Calculations', () => {
       expect(validation.warnings.some(w => w.includes('not supported'))).toBe(true);
     });
 
+    it('should validate configured points categories', () => {
+      const validation = validatePointsCategories({
+        ...baseLeagueSettings,
+        scoringType: 'h2h-points',
+        pointsSettings: { R: 1, HBP: 1, CYC: 10, SO_look: 0, IP: 3, SW: 2 },
+      });
+
+      expect(validation.hitting.map(c => [c.category, c.dataSource])).toEqual([
+        ['R', 'direct'],
+        ['HBP', 'estimated'],
+        ['CYC', 'unsupported'],
+      ]);
+      expect(validation.pitching.map(c => [c.category, c.dataSource])).toEqual([
+        ['IP', 'direct'],
+        ['SW', 'estimated'],
+      ]);
+      expect(validation.warnings).toHaveLength(3);
+      expect(validation.warnings.some(w => w.includes('CYC') && w.includes('not supported'))).toBe(true);
+    });
+
     it('should provide category support summary', () => {
       const summary = getCategorySupportSummary(baseLeagueSettings);
 
@@ -656,6 +767,80 @@ describe('Value Calculator - SGP-Based Calculations', () => {
     });
   });
 
+  describe('Keepers', () => {
+    const hitter = (id: string, name: string, positions: string[], runs: number): NormalizedProjection => ({
+      ...mockProjections[0],
+      externalId: id,
+      name,
+      positions,
+      hitting: { ...(mockProjections[0].hitting as HittingStats), runs },
+    });
+
+    const keeperSettings = (keepers?: LeagueSettings['keepers']): LeagueSettings => ({
+      ...baseLeagueSettings,
+      numTeams: 2,
+      scoringType: 'h2h-points',
+      rosterSpots: {
+        C: 1, '1B': 0, '2B': 0, '3B': 0, SS: 0, OF: 2,
+        CI: 0, MI: 0, UTIL: 0, SP: 0, RP: 0, P: 0, Bench: 0,
+      },
+      pointsSettings: { R: 1 },
+      inflationSettings: { enableMarketCorrection: false, enablePositionScarcity: false },
+      keepers,
+    });
+
+    const pool = () => [
+      hitter('c1', 'Catcher One', ['C'], 300),
+      hitter('c2', 'Catcher Two', ['C'], 250),
+      hitter('c3', 'Catcher Three', ['C'], 100),
+      hitter('of1', 'Outfield Star', ['OF'], 500),
+      hitter('of2', 'Outfield Good', ['OF'], 450),
+      hitter('of3', 'Outfield Okay', ['OF'], 420),
+      hitter('of4', 'Outfield Fine', ['OF'], 400),
+      hitter('of5', 'Outfield Filler', ['OF'], 300),
+    ];
+
+    it('should remove keepers from the pool at their salary', () => {
+      const base = calculateAuctionValues(pool(), keeperSettings());
+      const result = calculateAuctionValues(pool(), keeperSettings([
+        { teamName: 'Team A', playerName: 'Outfield Star', playerId: 'of1', salary: 5 },
+      ]));
+
+      const star = result.players.find(p => p.externalId === 'of1');
+      expect(star?.isInDraftPool).toBe(false);
+      expect(star?.keeperSalary).toBe(5);
+      expect(star?.keptBy).toBe('Team A');
+      expect(star?.auctionValue).toBe(base.players.find(p => p.externalId === 'of1')?.auctionValue);
+
+      // The keeper fills a roster slot, so one fewer player is bought at auction
+      expect(result.players.find(p => p.externalId === 'of5')?.isInDraftPool).toBe(false);
+      expect(result.players.filter(p => p.isInDraftPool)).toHaveLength(
+        base.players.filter(p => p.isInDraftPool).length - 1
+      );
+    });
+
+    it('should inflate the remaining pool by the keeper surplus', () => {
+      const base = calculateAuctionValues(pool(), keeperSettings());
+      const result = calculateAuctionValues(pool(), keeperSettings([
+        { teamName: 'Team A', playerName: 'outfield star', salary: 5 },
+      ]));
+
+      const baseValue = (id: string) => base.players.find(p => p.externalId === id)?.auctionValue ?? 0;
+      const value = (id: string) => result.players.find(p => p.externalId === id)?.auctionValue ?? 0;
+
+      expect(value('of2')).toBeGreaterThan(baseValue('of2'));
+      expect(value('c1')).toBeGreaterThan(baseValue('c1'));
+
+      // Remaining pool spends what's left of the hitter budget after the keeper salary
+      const poolTotal = result.players.filter(p => p.isInDraftPool).reduce((sum, p) => sum + p.auctionValue, 0);
+      expect(Math.abs(poolTotal - (result.leagueSummary.hitterBudget - 5))).toBeLessThanOrEqual(3);
+
+      expect(result.leagueSummary.keeperCount).toBe(1);
+      expect(result.leagueSummary.keeperSalaries).toBe(5);
+      expect(result.leagueSummary.keeperSurplus).toBe(baseValue('of1') - 5);
+    });
+  });
+
   describe('League Summary Validation', () => {
     it('should calculate correct league summary values', () => {
       const result = calculateAuctionValues(mockProjections, baseLeagueSettings);
@@ -0,0 +1,179 @@
+/**
+ * Auction Diff
+ * Computes what changed between two scrapes of the same Couch Managers room.
+ *
+ * Pure functions only - used by the live auction service to decide whether
+ * subscribers need to be notified, and by the sync endpoints to return only
+ * what changed since a client's cursor.
+ */
+
+import type {
+  ScrapedAuctionData,
+  ScrapedPlayer,
+  ScrapedTeam,
+  CurrentAuction,
+  AuctionRoomDiff,
+  AuctionBidChange,
+  AuctionTeamChange,
+} from '../types/auction.js';
+
+/**
+ * Collects every auction on the block (activeAuctions plus the legacy
+ * single currentAuction), keyed by player ID.
+ */
+function getActiveAuctionMap(data: ScrapedAuctionData | null): Map<number, CurrentAuction> {
+  const auctions = new Map<number, CurrentAuction>();
+  if (!data) return auctions;
+
+  for (const auction of data.activeAuctions ?? []) {
+    auctions.set(auction.playerId, auction);
+  }
+  if (data.currentAuction && !auctions.has(data.currentAuction.playerId)) {
+    auctions.set(data.currentAuction.playerId, data.currentAuction);
+  }
+  return auctions;
+}
+
+/**
+ * Diffs two consecutive scrapes of a room.
+ *
+ * @param previous - Last scrape sent to subscribers (null on the first scrape)
+ * @param next - Newly scraped auction data
+ * @returns Changes from previous to next
+ */
+export function diffAuctionData(
+  previous: ScrapedAuctionData | null,
+  next: ScrapedAuctionData
+): AuctionRoomDiff {
+  // Newly drafted players
+  const previouslyDrafted = new Set(
+    (previous?.players ?? [])
+      .filter(p => p.status === 'drafted')
+      .map(p => p.couchManagersId)
+  );
+  const newlyDrafted = next.players.filter(
+    p => p.status === 'drafted' && !previouslyDrafted.has(p.couchManagersId)
+  );
+
+  // Bid changes on the block (new nominations count as a change)
+  const previousAuctions = getActiveAuctionMap(previous);
+  const nextAuctions = getActiveAuctionMap(next);
+  const bidChanges: AuctionBidChange[] = [];
+
+  for (const [playerId, auction] of nextAuctions) {
+    const before = previousAuctions.get(playerId);
+    if (before && before.currentBid === auction.currentBid && before.currentBidder === auction.currentBidder) {
+      continue;
+    }
+    bidChanges.push({
+      playerId,
+      playerName: auction.playerName,
+      previousBid: before?.currentBid ?? null,
+      currentBid: auction.currentBid,
+      currentBidder: auction.currentBidder,
+      timeRemaining: auction.timeRemaining,
+    });
+  }
+
+  const closedAuctions = [...previousAuctions.keys()].filter(id => !nextAuctions.has(id));
+
+  // Team budget / roster changes
+  const previousTeams = new Map((previous?.teams ?? []).map(t => [t.name, t]));
+  const teamChanges: AuctionTeamChange[] = [];
+
+  for (const team of next.teams) {
+    const before = previousTeams.get(team.name);
+    if (before && before.remaining === team.remaining && before.playersDrafted === team.playersDrafted) {
+      continue;
+    }
+    teamChanges.push({
+      name: team.name,
+      previousRemaining: before?.remaining ?? null,
+      remaining: team.remaining,
+      spent: team.spent,
+      playersDrafted: team.playersDrafted,
+    });
+  }
+
+  return {
+    roomId: next.roomId,
+    scrapedAt: next.scrapedAt,
+    status: next.status,
+    newlyDrafted,
+    bidChanges,
+    closedAuctions,
+    teamChanges,
+    totalPlayersDrafted: next.totalPlayersDrafted,
+    totalMoneySpent: next.totalMoneySpent,
+  };
+}
+
+/**
+ * Returns true if the diff contains anything worth pushing to subscribers.
+ */
+export function hasAuctionChanges(diff: AuctionRoomDiff, previous: ScrapedAuctionData | null): boolean {
+  return (
+    diff.newlyDrafted.length > 0 ||
+    diff.bidChanges.length > 0 ||
+    diff.closedAuctions.length > 0 ||
+    diff.teamChanges.length > 0 ||
+    previous?.status !== diff.status
+  );
+}
+
+// =============================================================================
+// SYNC CURSORS
+// =============================================================================
+
+/**
+ * Compact per-scrape state used to answer "what changed since cursor X".
+ * Only the fields that drive sync results are kept, so a fingerprint of a
+ * 1200-player room is a few tens of KB instead of the full scrape.
+ */
+export interface AuctionFingerprint {
+  players: Map<number, string>;
+  teams: Map<string, string>;
+}
+
+function playerKey(player: ScrapedPlayer): string {
+  return `${player.status}|${player.winningBid ?? ''}|${player.winningTeam ?? ''}`;
+}
+
+function teamKey(team: ScrapedTeam): string {
+  return `${team.remaining}|${team.spent}|${team.playersDrafted}`;
+}
+
+/**
+ * Builds the fingerprint for a scrape.
+ */
+export function fingerprintAuction(data: ScrapedAuctionData): AuctionFingerprint {
+  return {
+    players: new Map(data.players.map(p => [p.couchManagersId, playerKey(p)])),
+    teams: new Map(data.teams.map(t => [t.name, teamKey(t)])),
+  };
+}
+
+/**
+ * Returns the players (status, winning bid or winning team) and teams
+ * (budget or roster count) that differ from an earlier fingerprint, and the
+ * ones the room no longer lists.
+ */
+export function getChangesSince(
+  fingerprint: AuctionFingerprint,
+  data: ScrapedAuctionData
+): {
+  changedPlayers: ScrapedPlayer[];
+  changedTeams: ScrapedTeam[];
+  removedPlayerIds: number[];
+  removedTeamNames: string[];
+} {
+  const playerIds = new Set(data.players.map(p => p.couchManagersId));
+  const teamNames = new Set(data.teams.map(t => t.name));
+
+  return {
+    changedPlayers: data.players.filter(p => fingerprint.players.get(p.couchManagersId) !== playerKey(p)),
+    changedTeams: data.teams.filter(t => fingerprint.teams.get(t.name) !== teamKey(t)),
+    removedPlayerIds: [...fingerprint.players.keys()].filter(id => !playerIds.has(id)),
+    removedTeamNames: [...fingerprint.teams.keys()].filter(name => !teamNames.has(name)),
+  };
+}
@@ -5,9 +5,14 @@
  * Integrates with auction sync to track:
  * 1. When a player on the user's team is bid on
  * 2. When the user is outbid
+ * 3. When a targeted player is nominated below the user's price
  */
 
+import { prisma } from '../db.js';
 import { logger } from './logger.js';
+import { DEFAULT_AUCTION_SOURCE } from './auctionSourceRegistry.js';
+import { getPriceTargets, findPriceTargetAlerts, type SavedDraftPlayer } from './priceTargetAlerts.js';
+import { leagueMemberWhere } from './leagueMembershipStore.js';
 import {
   getSubscribedUsers,
   sendNotificationSMS,
@@ -39,6 +44,20 @@ function cleanupOldStates() {
   }
 }
 
+/**
+ * Price targets saved in leagues for this room that the user owns or has joined
+ */
+async function getSubscriberPriceTargets(userId: string, roomId: string) {
+  const leagues = await prisma.league.findMany({
+    where: { ...leagueMemberWhere(userId), auctionSourceType: DEFAULT_AUCTION_SOURCE, auctionSourceId: roomId },
+    select: { draftState: true },
+  });
+  return leagues.flatMap(league => {
+    const draftState = league.draftState as { players?: SavedDraftPlayer[] } | null;
+    return getPriceTargets(draftState?.players ?? []);
+  });
+}
+
 /**
  * Check for bid changes and send notifications
  *
@@ -101,6 +120,43 @@ export async function checkAndSendNotifications(
       ? [currentAuction, ...newActiveAuctions.filter(a => a.playerId !== currentAuction.playerId)]
       : newActiveAuctions;
 
+    // Case 3: A targeted player was just nominated below the user's price
+    const previousPlayerIds = new Set(previousAuctionsMap.keys());
+    for (const subscriber of subscribers) {
+      if (!subscriber.phoneNumber) continue;
+
+      const targets = await getSubscriberPriceTargets(subscriber.id, roomId);
+      for (const { auction, target } of findPriceTargetAlerts(allCurrentAuctions, previousPlayerIds, targets)) {
+        const message = NotificationMessages.targetOnBlock(
+          auction.playerName,
+          auction.currentBid,
+          target.price,
+          env.FRONTEND_URL
+        );
+
+        await sendNotificationSMS(
+          subscriber.id,
+          subscriber.phoneNumber,
+          'target_on_block',
+          message,
+          {
+            playerId: auction.playerId,
+            playerName: auction.playerName,
+            currentBid: auction.currentBid,
+            targetPrice: target.price,
+            roomId,
+          }
+        );
+
+        logger.info({
+          userId: subscriber.id,
+          playerName: auction.playerName,
+          currentBid: auction.currentBid,
+          targetPrice: target.price,
+        }, 'Sent price target notification');
+      }
+    }
+
     for (const auction of allCurrentAuctions) {
       const previousAuction = previousAuctionsMap.get(auction.playerId);
 
@@ -159,8 +215,7 @@ export async function checkAndSendNotifications(
           }
         } else {
           // New auction started (no previous state for this player)
-          // Check if another team bid on a player
-          // For now, we only notify on outbid scenarios, not every new auction
+          // Only price targets (handled above) notify when auctions start
           // This prevents notification spam when auctions start
         }
       }
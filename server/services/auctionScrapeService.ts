@@ -0,0 +1,211 @@
+/**
+ * Auction Scrape Service
+ * Single entry point for fetching live auction state from any auction source.
+ *
+ * Wraps the source adapter with the auction cache and a distributed Redis lock
+ * (with in-memory fallback) so that HTTP sync requests and live room
+ * streams never trigger concurrent scrapes for the same room.
+ */
+
+import { getAuctionSourceAdapter, getAuctionSourceKey, DEFAULT_AUCTION_SOURCE } from './auctionSourceRegistry.js';
+import { getCachedAuctionData, setCachedAuctionData } from './auctionCacheService.js';
+import { getRedisClient, isRedisHealthy } from './redisClient.js';
+import { logger } from './logger.js';
+import { checkAndSendNotifications } from './auctionNotificationService.js';
+import type { ScrapedAuctionData } from '../types/auction.js';
+import type { AuctionSourceType } from '../../src/lib/types.js';
+
+// In-memory lock map for fallback when Redis is not available
+// Also used for local deduplication within a single instance
+const scrapingLocks = new Map<string, Promise<ScrapedAuctionData>>();
+
+// Redis distributed lock configuration
+const REDIS_LOCK_PREFIX = 'scrape-lock:';
+const REDIS_LOCK_TTL_SECONDS = 60; // Auto-expire lock after 60 seconds (safety net)
+
+/**
+ * Attempt to acquire a distributed lock using Redis.
+ * Uses SET with NX (only set if not exists) and EX (expiration) for atomic lock acquisition.
+ *
+ * @param lockKey - The key to lock on
+ * @returns true if lock was acquired, false if already locked by another instance
+ */
+async function acquireDistributedLock(lockKey: string): Promise<boolean> {
+  if (!isRedisHealthy()) {
+    return true; // Fall back to in-memory only
+  }
+
+  const redis = getRedisClient();
+  if (!redis) {
+    return true; // Fall back to in-memory only
+  }
+
+  try {
+    // SET key value NX EX seconds - atomic operation
+    // NX = only set if key doesn't exist
+    // EX = expire after TTL seconds (safety net if process crashes)
+    const result = await redis.set(
+      `${REDIS_LOCK_PREFIX}${lockKey}`,
+      Date.now().toString(), // Store timestamp as value for debugging
+      'EX',
+      REDIS_LOCK_TTL_SECONDS,
+      'NX'
+    );
+    return result === 'OK';
+  } catch (error) {
+    logger.error({ error }, 'Redis lock acquisition failed');
+    return true; // Fall back to in-memory only on error
+  }
+}
+
+/**
+ * Release a distributed lock in Redis.
+ *
+ * @param lockKey - The key to unlock
+ */
+async function releaseDistributedLock(lockKey: string): Promise<void> {
+  if (!isRedisHealthy()) {
+    return;
+  }
+
+  const redis = getRedisClient();
+  if (!redis) {
+    return;
+  }
+
+  try {
+    await redis.del(`${REDIS_LOCK_PREFIX}${lockKey}`);
+  } catch (error) {
+    logger.error({ error, lockKey }, 'Redis lock release failed');
+    // Lock will auto-expire via TTL if release fails
+  }
+}
+
+/**
+ * Check if a distributed lock exists in Redis.
+ *
+ * @param lockKey - The key to check
+ * @returns true if locked by another instance, false if not locked
+ */
+async function isDistributedLocked(lockKey: string): Promise<boolean> {
+  if (!isRedisHealthy()) {
+    return false; // Can't check, assume not locked
+  }
+
+  const redis = getRedisClient();
+  if (!redis) {
+    return false;
+  }
+
+  try {
+    const exists = await redis.exists(`${REDIS_LOCK_PREFIX}${lockKey}`);
+    return exists === 1;
+  } catch (error) {
+    logger.error({ error, lockKey }, 'Redis lock check failed');
+    return false; // On error, assume not locked
+  }
+}
+
+/**
+ * Helper to get auction data with file-based caching.
+ * Uses distributed Redis locks (with in-memory fallback) to prevent concurrent scrapes
+ * for the same room across multiple server instances.
+ *
+ * @param roomId - Room ID on the auction source
+ * @param forceRefresh - Skip the cache and fetch fresh state
+ * @param sourceType - Auction platform hosting the room (default Couch Managers)
+ */
+export async function getAuctionDataWithCache(
+  roomId: string,
+  forceRefresh: boolean = false,
+  sourceType: AuctionSourceType = DEFAULT_AUCTION_SOURCE
+): Promise<ScrapedAuctionData> {
+  const cacheKey = getAuctionSourceKey(sourceType, roomId);
+
+  // Check file-based cache first (unless force refresh)
+  if (!forceRefresh) {
+    const cached = await getCachedAuctionData(cacheKey);
+    if (cached && !cached.isStale) {
+      return cached.data;
+    }
+  }
+
+  const lockKey = `scraping-${cacheKey}`;
+
+  // Check in-memory lock first (handles requests within same instance)
+  let scrapePromise = scrapingLocks.get(lockKey);
+  if (scrapePromise) {
+    logger.debug({ roomId }, 'Waiting for existing local scrape');
+    return scrapePromise;
+  }
+
+  // Check distributed lock (handles requests across instances)
+  const isLockedRemotely = await isDistributedLocked(lockKey);
+  if (isLockedRemotely) {
+    // Another instance is scraping - wait briefly and check cache
+    logger.debug({ roomId }, 'Room is being scraped by another instance, waiting');
+    // Wait up to 30 seconds, polling cache every 2 seconds
+    for (let i = 0; i < 15; i++) {
+      await new Promise(resolve => setTimeout(resolve, 2000));
+      const cached = await getCachedAuctionData(cacheKey);
+      if (cached && !cached.isStale) {
+        logger.debug({ roomId }, 'Found cached data after waiting');
+        return cached.data;
+      }
+      // Check if still locked
+      if (!(await isDistributedLocked(lockKey))) {
+        logger.debug({ roomId }, 'Remote lock released, checking cache');
+        const freshCached = await getCachedAuctionData(cacheKey);
+        if (freshCached && !freshCached.isStale) {
+          return freshCached.data;
+        }
+        break; // Lock released but no cache - we should scrape
+      }
+    }
+    logger.debug({ roomId }, 'Timeout waiting for remote scrape, attempting own scrape');
+  }
+
+  // Try to acquire distributed lock
+  const acquiredDistributedLock = await acquireDistributedLock(lockKey);
+  if (!acquiredDistributedLock) {
+    // Race condition - another instance just acquired the lock
+    // Wait briefly and check cache again
+    logger.debug({ roomId }, 'Lost race for distributed lock, waiting');
+    await new Promise(resolve => setTimeout(resolve, 5000));
+    const cached = await getCachedAuctionData(cacheKey);
+    if (cached && !cached.isStale) {
+      return cached.data;
+    }
+    // If still no cache, proceed with scrape anyway (lock may have been released)
+  }
+
+  // No scrape in progress, start one
+  logger.info({ roomId, sourceType }, 'Scraping fresh auction data');
+  const startTime = Date.now();
+
+  // Create the promise and immediately add it to the local lock map
+  scrapePromise = getAuctionSourceAdapter(sourceType).fetchRoomState(roomId).then(async data => {
+    logger.info({ roomId, durationMs: Date.now() - startTime }, 'Scrape completed');
+
+    // Cache the result if valid
+    if (data.status !== 'not_found') {
+      await setCachedAuctionData(cacheKey, data);
+
+      // Check for bid changes and send SMS notifications (non-blocking)
+      checkAndSendNotifications(cacheKey, data).catch(err => {
+        logger.error({ error: err, roomId }, 'Notification check failed');
+      });
+    }
+
+    return data;
+  }).finally(async () => {
+    // Release both locks
+    scrapingLocks.delete(lockKey);
+    await releaseDistributedLock(lockKey);
+  });
+
+  // Set the local lock immediately (synchronously)
+  scrapingLocks.set(lockKey, scrapePromise);
+
+  return scrapePromise;
+}
@@ -0,0 +1,200 @@
+/**
+ * Auction Simulator
+ *
+ * Monte Carlo forecast of final prices for the remaining player pool. Each
+ * run plays out the rest of the auction:
+ * 1. Players are nominated roughly in value order (with noise)
+ * 2. Every team with an open roster spot values the player at its
+ *    budget-adjusted worth, scaled by private noise and budget pressure
+ *    (money per open spot vs the league average)
+ * 3. Bids are capped at each team's max bid (remaining budget minus $1 for
+ *    every other open spot); the player goes for the runner-up bid + $1
+ *
+ * Repeating this gives each player's price distribution (p10/p50/p90), which
+ * shows how uncertain late-draft prices are compared to a single
+ * inflation-adjusted value.
+ */
+
+import type { PlayerPriceForecast, PositionalScarcity, TeamBudgetConstraint } from '../types/auction.js';
+
+export interface SimulationPlayer {
+  id: string;
+  projectedValue: number;
+  positions: string[];
+}
+
+interface SimulationOptions {
+  iterations?: number;
+  seed?: number;
+  positionalScarcity?: Pick<PositionalScarcity, 'position' | 'inflationAdjustment'>[];
+}
+
+export const DEFAULT_SIMULATION_ITERATIONS = 300;
+export const MAX_SIMULATION_ITERATIONS = 1000;
+// Cap on bids evaluated per request (iterations x open spots x bidding teams).
+// The simulation runs on the request thread, so big leagues get fewer
+// iterations instead of blocking the server; this is roughly a second of work.
+export const MAX_SIMULATION_WORK = 1_500_000;
+
+// Log-normal spread of each team's private valuation of a player
+const VALUATION_NOISE = 0.25;
+// Log-normal spread of nomination order around value order
+const NOMINATION_NOISE = 0.35;
+// Simulate this many pool players per open roster spot (the rest never go)
+export const POOL_SIZE_FACTOR = 1.5;
+// Bounds on how much budget pressure can raise or lower a team's valuations
+const MIN_PRESSURE = 0.75;
+const MAX_PRESSURE = 1.33;
+
+/**
+ * Small seeded PRNG (mulberry32) so simulations are reproducible
+ */
+function createRng(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Standard normal sample (Box-Muller)
+ */
+function gaussian(rng: () => number): number {
+  const u = 1 - rng();
+  const v = rng();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+function percentile(sorted: number[], p: number): number {
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.round(p * (sorted.length - 1))));
+  return sorted[index];
+}
+
+/**
+ * Iterations to run: the requested count, clamped to MAX_SIMULATION_ITERATIONS
+ * and to what fits in MAX_SIMULATION_WORK for this many open spots and teams
+ */
+export function getSimulationIterations(
+  requested: number | undefined,
+  totalSpots: number,
+  teamCount: number
+): number {
+  const workPerIteration = Math.max(1, totalSpots * teamCount);
+  return Math.max(1, Math.min(
+    MAX_SIMULATION_ITERATIONS,
+    requested ?? DEFAULT_SIMULATION_ITERATIONS,
+    Math.floor(MAX_SIMULATION_WORK / workPerIteration)
+  ));
+}
+
+/**
+ * Runs randomized completions of the auction and returns each player's
+ * simulated price distribution. Players never drafted in any run are omitted.
+ *
+ * @param players - Remaining (undrafted) players
+ * @param teams - Current team budget constraints
+ * @param options.iterations - Number of simulated completions (lowered to stay
+ *   within MAX_SIMULATION_WORK for large leagues)
+ * @param options.seed - PRNG seed (defaults to the current time)
+ * @param options.positionalScarcity - Per-position inflation adjustments
+ */
+export function simulateAuctionOutcomes(
+  players: SimulationPlayer[],
+  teams: Pick<TeamBudgetConstraint, 'teamName' | 'rawRemaining' | 'rosterSpotsRemaining'>[],
+  options: SimulationOptions = {}
+): PlayerPriceForecast[] {
+  const rng = createRng(options.seed ?? Date.now());
+
+  const openTeams = teams.filter(t => t.rosterSpotsRemaining > 0 && t.rawRemaining > 0);
+  const totalSpots = openTeams.reduce((sum, t) => sum + t.rosterSpotsRemaining, 0);
+  if (totalSpots === 0 || players.length === 0) return [];
+
+  const iterations = getSimulationIterations(options.iterations, totalSpots, openTeams.length);
+
+  const pool = [...players]
+    .sort((a, b) => b.projectedValue - a.projectedValue)
+    .slice(0, Math.ceil(totalSpots * POOL_SIZE_FACTOR));
+
+  // Money above the $1 minimums vs value above $1 of the players expected to go
+  const totalMoney = openTeams.reduce((sum, t) => sum + t.rawRemaining, 0);
+  const spendableMoney = Math.max(0, totalMoney - totalSpots);
+  const valueAboveMinimum = pool
+    .slice(0, totalSpots)
+    .reduce((sum, p) => sum + Math.max(0, p.projectedValue - 1), 0);
+  const moneyPerValue = valueAboveMinimum > 0 ? spendableMoney / valueAboveMinimum : 1;
+  const avgPerSpot = totalMoney / totalSpots;
+
+  const scarcity = new Map(
+    (options.positionalScarcity ?? []).map(s => [s.position, s.inflationAdjustment])
+  );
+  const baseValues = pool.map(p => {
+    const scarcityMultiplier = Math.max(1, ...p.positions.map(pos => scarcity.get(pos) ?? 1));
+    return 1 + Math.max(0, p.projectedValue - 1) * moneyPerValue * scarcityMultiplier;
+  });
+
+  const prices: number[][] = pool.map(() => []);
+
+  for (let run = 0; run < iterations; run++) {
+    const state = openTeams.map(t => ({ remaining: t.rawRemaining, spots: t.rosterSpotsRemaining }));
+    let spotsLeft = totalSpots;
+
+    const order = pool
+      .map((p, index) => ({ index, key: Math.max(p.projectedValue, 0.1) * Math.exp(NOMINATION_NOISE * gaussian(rng)) }))
+      .sort((a, b) => b.key - a.key);
+
+    for (const { index } of order) {
+      if (spotsLeft === 0) break;
+
+      let best = -1;
+      let bestBid = 0;
+      let secondBid = 0;
+      for (let t = 0; t < state.length; t++) {
+        const team = state[t];
+        if (team.spots === 0) continue;
+
+        const maxBid = team.remaining - (team.spots - 1);
+        const pressure = Math.min(MAX_PRESSURE, Math.max(MIN_PRESSURE, Math.sqrt(team.remaining / team.spots / avgPerSpot)));
+        const valuation = baseValues[index] * pressure * Math.exp(VALUATION_NOISE * gaussian(rng));
+        const bid = Math.max(1, Math.min(maxBid, Math.round(valuation)));
+
+        // Ties go to a random bidder
+        if (bid > bestBid || (bid === bestBid && rng() < 0.5)) {
+          secondBid = Math.max(secondBid, bestBid);
+          bestBid = bid;
+          best = t;
+        } else if (bid > secondBid) {
+          secondBid = bid;
+        }
+      }
+
+      if (best === -1) break;
+
+      const price = Math.max(1, Math.min(bestBid, secondBid + 1));
+      state[best].remaining -= price;
+      state[best].spots -= 1;
+      spotsLeft -= 1;
+      prices[index].push(price);
+    }
+  }
+
+  const forecasts: PlayerPriceForecast[] = [];
+  pool.forEach((player, index) => {
+    const sorted = prices[index].sort((a, b) => a - b);
+    if (sorted.length === 0) return;
+
+    forecasts.push({
+      playerId: player.id,
+      p10: percentile(sorted, 0.1),
+      p50: percentile(sorted, 0.5),
+      p90: percentile(sorted, 0.9),
+      mean: Math.round((sorted.reduce((sum, p) => sum + p, 0) / sorted.length) * 10) / 10,
+      draftedRate: sorted.length / iterations,
+    });
+  });
+
+  return forecasts;
+}
@@ -0,0 +1,49 @@
+/**
+ * Auction Source Registry
+ * Looks up the adapter for a league's auction source type.
+ *
+ * To support another auction host, implement AuctionSourceAdapter, add its
+ * type to AuctionSourceType (src/lib/types.ts) and AUCTION_SOURCE_TYPES, and
+ * register it below.
+ */
+
+import { couchManagersAdapter } from './couchManagersAdapter.js';
+import { logger } from './logger.js';
+import type { AuctionSourceAdapter } from '../types/auction.js';
+import type { AuctionSourceType } from '../../src/lib/types.js';
+
+export const DEFAULT_AUCTION_SOURCE: AuctionSourceType = 'couchmanagers';
+
+const adapters: Record<AuctionSourceType, AuctionSourceAdapter> = {
+  couchmanagers: couchManagersAdapter,
+};
+
+export function getAuctionSourceAdapter(type: AuctionSourceType = DEFAULT_AUCTION_SOURCE): AuctionSourceAdapter {
+  return adapters[type];
+}
+
+export function isAuctionSourceType(value: unknown): value is AuctionSourceType {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(adapters, value);
+}
+
+/**
+ * Cache and lock key for a room. Couch Managers rooms keep their bare room ID
+ * so existing caches stay valid.
+ */
+export function getAuctionSourceKey(type: AuctionSourceType, sourceId: string): string {
+  return type === DEFAULT_AUCTION_SOURCE ? sourceId : `${type}-${sourceId}`;
+}
+
+/**
+ * Closes every adapter that holds long-lived resources. Called on shutdown.
+ */
+export async function closeAuctionSources(): Promise<void> {
+  for (const adapter of Object.values(adapters)) {
+    if (!adapter.close) continue;
+    try {
+      await adapter.close();
+    } catch (error) {
+      logger.error({ error, source: adapter.type }, 'Failed to close auction source');
+    }
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * Auction Sync History
+ * Remembers recent scrape fingerprints per room so sync endpoints can
+ * answer incremental requests ("what changed since cursor X").
+ *
+ * The cursor handed to clients is the scrape's `scrapedAt` timestamp.
+ * History is in-memory and per instance: an unknown or expired cursor
+ * (e.g. a request routed to another instance) simply falls back to a
+ * full snapshot.
+ */
+
+import { fingerprintAuction, type AuctionFingerprint } from './auctionDiff.js';
+import type { ScrapedAuctionData } from '../types/auction.js';
+
+// Keep enough cursors to cover a client that missed a few syncs
+const MAX_CURSORS_PER_ROOM = 20;
+// Cursors older than this always get a full snapshot
+const CURSOR_MAX_AGE_MS = 30 * 60 * 1000;
+
+interface CursorEntry {
+  cursor: string;
+  recordedAt: number;
+  fingerprint: AuctionFingerprint;
+}
+
+const roomHistory = new Map<string, CursorEntry[]>();
+
+/**
+ * Drops expired cursors across all rooms.
+ */
+function pruneHistory(now: number): void {
+  for (const [roomId, entries] of roomHistory) {
+    const fresh = entries.filter(e => now - e.recordedAt <= CURSOR_MAX_AGE_MS);
+    if (fresh.length === 0) {
+      roomHistory.delete(roomId);
+    } else if (fresh.length !== entries.length) {
+      roomHistory.set(roomId, fresh);
+    }
+  }
+}
+
+/**
+ * Records a scrape and returns its cursor.
+ * Recording the same scrape twice (e.g. served from cache) is a no-op.
+ */
+export function recordAuctionCursor(data: ScrapedAuctionData): string {
+  const cursor = data.scrapedAt;
+  const now = Date.now();
+  pruneHistory(now);
+
+  const entries = roomHistory.get(data.roomId) ?? [];
+  if (!entries.some(e => e.cursor === cursor)) {
+    entries.push({ cursor, recordedAt: now, fingerprint: fingerprintAuction(data) });
+    if (entries.length > MAX_CURSORS_PER_ROOM) {
+      entries.splice(0, entries.length - MAX_CURSORS_PER_ROOM);
+    }
+    roomHistory.set(data.roomId, entries);
+  }
+
+  return cursor;
+}
+
+/**
+ * Looks up the fingerprint for a cursor previously handed to a client.
+ *
+ * @returns The fingerprint, or null if the cursor is unknown or too old
+ */
+export function getAuctionFingerprint(roomId: string, cursor: string): AuctionFingerprint | null {
+  const entry = roomHistory.get(roomId)?.find(e => e.cursor === cursor);
+  if (!entry || Date.now() - entry.recordedAt > CURSOR_MAX_AGE_MS) {
+    return null;
+  }
+  return entry.fingerprint;
+}
@@ -10,9 +10,17 @@ import jwt from 'jsonwebtoken';
 import crypto from 'crypto';
 import { prisma } from '../db.js';
 import { jwtConfig } from '../config/env.js';
+import {
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashRecoveryCode,
+  verifyTotp,
+} from './totp.js';
 import type {
   AccessTokenPayload,
   RefreshTokenPayload,
+  TwoFactorChallengePayload,
+  SessionClient,
   AuthUser,
 } from '../types/auth.js';
 
@@ -50,13 +58,16 @@ export async function verifyPassword(password: string, hash: string): Promise<bo
  * Generate an access token for a user
  *
  * @param user - User object with id and email
+ * @param sessionId - Refresh token row this access token came from, so the
+ *   sessions list can mark the current device
  * @returns JWT access token string (15 minute expiry)
  */
-export function generateAccessToken(user: { id: string; email: string }): string {
+export function generateAccessToken(user: { id: string; email: string }, sessionId?: string): string {
   const payload: Omit<AccessTokenPayload, 'iat' | 'exp'> = {
     userId: user.id,
     email: user.email,
     type: 'access',
+    ...(sessionId && { sessionId }),
   };
 
   return jwt.sign(payload, jwtConfig.secret, {
@@ -189,27 +200,40 @@ function calculateExpiryDate(expiry: string): Date {
  *
  * @param userId - User ID
  * @param token - Raw refresh token (will be hashed before storage)
+ * @param client - Device and IP the session was started from
+ * @returns Session ID (the refresh token row's ID)
  */
-export async function storeRefreshToken(userId: string, token: string): Promise<void> {
+export async function storeRefreshToken(
+  userId: string,
+  token: string,
+  client: SessionClient = { userAgent: null, ipAddress: null }
+): Promise<string> {
   const tokenHash = hashToken(token);
   const expiresAt = calculateExpiryDate(jwtConfig.refreshExpiry);
 
-  await prisma.refreshToken.create({
+  const session = await prisma.refreshToken.create({
     data: {
       userId,
       tokenHash,
       expiresAt,
+      userAgent: client.userAgent,
+      ipAddress: client.ipAddress,
     },
+    select: { id: true },
   });
+
+  return session.id;
 }
 
 /**
- * Verify a refresh token exists in the database and is not expired
+ * Verify a refresh token exists in the database and is not expired,
+ * and record its use on the session
  *
  * @param token - Raw refresh token
- * @returns True if token exists and is valid, false otherwise
+ * @param client - Device and IP making the refresh
+ * @returns Session ID if token exists and is valid, null otherwise
  */
-export async function isRefreshTokenValid(token: string): Promise<boolean> {
+export async function touchRefreshToken(token: string, client: SessionClient): Promise<string | null> {
   const tokenHash = hashToken(token);
 
   const storedToken = await prisma.refreshToken.findUnique({
@@ -217,7 +241,7 @@ export async function isRefreshTokenValid(token: string): Promise<boolean> {
   });
 
   if (!storedToken) {
-    return false;
+    return null;
   }
 
   // Check if token has expired
@@ -226,10 +250,19 @@ export async function isRefreshTokenValid(token: string): Promise<boolean> {
     await prisma.refreshToken.delete({
       where: { id: storedToken.id },
     });
-    return false;
+    return null;
   }
 
-  return true;
+  await prisma.refreshToken.update({
+    where: { id: storedToken.id },
+    data: {
+      lastUsedAt: new Date(),
+      ipAddress: client.ipAddress ?? storedToken.ipAddress,
+      userAgent: client.userAgent ?? storedToken.userAgent,
+    },
+  });
+
+  return storedToken.id;
 }
 
 /**
@@ -256,16 +289,59 @@ export async function revokeRefreshToken(token: string): Promise<boolean> {
  * Revoke all refresh tokens for a user (logout from all devices)
  *
  * @param userId - User ID
+ * @param exceptSessionId - Session to keep signed in ("everywhere else")
  * @returns Number of tokens revoked
  */
-export async function revokeAllUserTokens(userId: string): Promise<number> {
+export async function revokeAllUserTokens(userId: string, exceptSessionId?: string): Promise<number> {
   const result = await prisma.refreshToken.deleteMany({
-    where: { userId },
+    where: {
+      userId,
+      ...(exceptSessionId && { id: { not: exceptSessionId } }),
+    },
   });
 
   return result.count;
 }
 
+/**
+ * List a user's unexpired sessions, most recently used first
+ *
+ * @param userId - User ID
+ * @returns Session rows (without token hashes)
+ */
+export async function listActiveSessions(userId: string) {
+  return prisma.refreshToken.findMany({
+    where: {
+      userId,
+      expiresAt: { gt: new Date() },
+    },
+    select: {
+      id: true,
+      userAgent: true,
+      ipAddress: true,
+      createdAt: true,
+      lastUsedAt: true,
+      expiresAt: true,
+    },
+    orderBy: { lastUsedAt: 'desc' },
+  });
+}
+
+/**
+ * Revoke one of a user's sessions
+ *
+ * @param userId - User ID (sessions of other users are never touched)
+ * @param sessionId - Session ID
+ * @returns True if the session was revoked, false if it wasn't found
+ */
+export async function revokeSession(userId: string, sessionId: string): Promise<boolean> {
+  const result = await prisma.refreshToken.deleteMany({
+    where: { id: sessionId, userId },
+  });
+
+  return result.count > 0;
+}
+
 /**
  * Clean up expired refresh tokens (maintenance task)
  *
@@ -377,6 +453,233 @@ export async function updatePassword(userId: string, newPasswordHash: string): P
   });
 }
 
+// =============================================================================
+// TWO-FACTOR AUTHENTICATION
+// =============================================================================
+
+// Wrong codes allowed per sign-in challenge before it's discarded
+const MAX_TWO_FACTOR_ATTEMPTS = 5;
+
+/**
+ * Generate a challenge token for the second login step
+ *
+ * Issued in place of session tokens when a password or Google login succeeds
+ * for an account with 2FA enabled. It only proves the first factor, so it
+ * has its own type and can't be used as an access token. Only the user's
+ * latest challenge is valid, for MAX_TWO_FACTOR_ATTEMPTS codes.
+ *
+ * @param user - User object with id
+ * @returns JWT challenge token string (5 minute expiry)
+ */
+export async function generateTwoFactorChallengeToken(user: { id: string }): Promise<string> {
+  const challengeId = crypto.randomBytes(16).toString('hex');
+  await prisma.user.update({
+    where: { id: user.id },
+    data: { twoFactorChallengeId: challengeId, twoFactorChallengeAttempts: 0 },
+  });
+
+  const payload: Omit<TwoFactorChallengePayload, 'iat' | 'exp'> = {
+    userId: user.id,
+    challengeId,
+    type: 'two_factor',
+  };
+
+  return jwt.sign(payload, jwtConfig.secret, { expiresIn: '5m' });
+}
+
+/**
+ * Use up one code attempt on a 2FA challenge, before the code is checked
+ *
+ * @param userId - User ID from the challenge token
+ * @param challengeId - Challenge ID from the challenge token
+ * @returns false if the challenge was replaced, completed, or out of attempts
+ */
+export async function claimTwoFactorAttempt(userId: string, challengeId: string): Promise<boolean> {
+  const { count } = await prisma.user.updateMany({
+    where: {
+      id: userId,
+      twoFactorChallengeId: challengeId,
+      twoFactorChallengeAttempts: { lt: MAX_TWO_FACTOR_ATTEMPTS },
+    },
+    data: { twoFactorChallengeAttempts: { increment: 1 } },
+  });
+  return count === 1;
+}
+
+/**
+ * Discard a 2FA challenge once it has been passed, so it can't be used again
+ *
+ * @param userId - User ID
+ * @param challengeId - Challenge ID from the challenge token
+ */
+export async function completeTwoFactorChallenge(userId: string, challengeId: string): Promise<void> {
+  await prisma.user.updateMany({
+    where: { id: userId, twoFactorChallengeId: challengeId },
+    data: { twoFactorChallengeId: null, twoFactorChallengeAttempts: 0 },
+  });
+}
+
+/**
+ * Verify and decode a 2FA challenge token
+ *
+ * @param token - JWT challenge token string
+ * @returns Decoded token payload
+ * @throws Error if token is invalid, expired, or wrong type
+ */
+export function verifyTwoFactorChallengeToken(token: string): TwoFactorChallengePayload {
+  try {
+    const decoded = jwt.verify(token, jwtConfig.secret) as TwoFactorChallengePayload;
+
+    if (decoded.type !== 'two_factor') {
+      throw new Error('Invalid token type');
+    }
+
+    return decoded;
+  } catch (error) {
+    if (error instanceof jwt.TokenExpiredError) {
+      throw new Error('Challenge expired');
+    }
+    if (error instanceof jwt.JsonWebTokenError) {
+      throw new Error('Invalid challenge');
+    }
+    throw error;
+  }
+}
+
+/**
+ * Start 2FA enrollment with a new secret
+ *
+ * The secret is stored right away but 2FA stays off until enableTwoFactor
+ * confirms the user's app produces matching codes.
+ *
+ * @param userId - User ID
+ * @returns Base32 TOTP secret
+ */
+export async function startTwoFactorSetup(userId: string): Promise<string> {
+  const secret = generateTotpSecret();
+
+  await prisma.user.update({
+    where: { id: userId },
+    data: {
+      twoFactorSecret: secret,
+      twoFactorEnabledAt: null,
+      twoFactorLastUsedStep: null,
+      twoFactorRecoveryCodeHashes: [],
+    },
+  });
+
+  return secret;
+}
+
+/**
+ * Finish enrollment once a code from the pending secret checks out
+ *
+ * @param user - User with a pending twoFactorSecret
+ * @param code - Code from the authenticator app
+ * @returns Plain recovery codes to show once, or null if the code is wrong
+ */
+export async function enableTwoFactor(
+  user: { id: string; twoFactorSecret: string | null },
+  code: string
+): Promise<string[] | null> {
+  if (!user.twoFactorSecret) {
+    return null;
+  }
+
+  const step = verifyTotp(user.twoFactorSecret, code);
+  if (step === null) {
+    return null;
+  }
+
+  const { codes, hashes } = generateRecoveryCodes();
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      twoFactorEnabledAt: new Date(),
+      twoFactorLastUsedStep: step,
+      twoFactorRecoveryCodeHashes: hashes,
+    },
+  });
+
+  return codes;
+}
+
+/**
+ * Check a second-factor code: an authenticator code, or else a recovery code
+ *
+ * Accepted codes are used up - the TOTP step can't be replayed and the
+ * recovery code's hash is removed. A code only counts if using it up
+ * succeeds, so a concurrent request with the same code gets null.
+ *
+ * @param user - User with 2FA enabled
+ * @param code - Authenticator or recovery code
+ * @returns Which kind of code matched, or null
+ */
+export async function verifyTwoFactorCode(
+  user: {
+    id: string;
+    twoFactorSecret: string | null;
+    twoFactorLastUsedStep: number | null;
+    twoFactorRecoveryCodeHashes: string[];
+  },
+  code: string
+): Promise<'totp' | 'recovery' | null> {
+  if (!user.twoFactorSecret) {
+    return null;
+  }
+
+  // Both updates only apply if nothing used a code since `user` was loaded,
+  // so the same code can't be accepted twice by concurrent requests
+  const step = verifyTotp(user.twoFactorSecret, code, user.twoFactorLastUsedStep);
+  if (step !== null) {
+    const { count } = await prisma.user.updateMany({
+      where: {
+        id: user.id,
+        twoFactorSecret: user.twoFactorSecret,
+        OR: [{ twoFactorLastUsedStep: null }, { twoFactorLastUsedStep: { lt: step } }],
+      },
+      data: { twoFactorLastUsedStep: step },
+    });
+    return count === 1 ? 'totp' : null;
+  }
+
+  const codeHash = hashRecoveryCode(code);
+  if (user.twoFactorRecoveryCodeHashes.includes(codeHash)) {
+    // Matching the whole list, not just this code, keeps two recovery codes
+    // used at once from each writing back the other's code
+    const { count } = await prisma.user.updateMany({
+      where: {
+        id: user.id,
+        twoFactorRecoveryCodeHashes: { equals: user.twoFactorRecoveryCodeHashes },
+      },
+      data: {
+        twoFactorRecoveryCodeHashes: user.twoFactorRecoveryCodeHashes.filter(hash => hash !== codeHash),
+      },
+    });
+    return count === 1 ? 'recovery' : null;
+  }
+
+  return null;
+}
+
+/**
+ * Turn off 2FA and clear its secret and recovery codes
+ *
+ * @param userId - User ID
+ */
+export async function disableTwoFactor(userId: string): Promise<void> {
+  await prisma.user.update({
+    where: { id: userId },
+    data: {
+      twoFactorSecret: null,
+      twoFactorEnabledAt: null,
+      twoFactorLastUsedStep: null,
+      twoFactorRecoveryCodeHashes: [],
+    },
+  });
+}
+
 // =============================================================================
 // USER OPERATIONS
 // =============================================================================
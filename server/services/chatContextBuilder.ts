@@ -49,7 +49,7 @@ export interface DraftContext {
     scarcityLevel: string;
   }>;
   /** Projection system being used */
-  projectionSystem?: 'steamer' | 'batx' | 'ja';
+  projectionSystem?: 'steamer' | 'batx' | 'ja' | 'oopsy' | 'blend' | 'custom';
   /** Current season year */
   season?: number;
   /** League scoring type */
@@ -69,6 +69,9 @@ const PROJECTION_NAMES: Record<string, string> = {
   steamer: 'Steamer',
   batx: 'THE BAT X',
   ja: 'JA Projections',
+  oopsy: 'OOPSY',
+  blend: 'blended',
+  custom: 'custom',
 };
 
 /**
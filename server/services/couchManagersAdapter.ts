@@ -0,0 +1,20 @@
+/**
+ * Couch Managers Auction Source
+ * Adapts the Puppeteer scraper to the AuctionSourceAdapter contract.
+ */
+
+import { scrapeAuction, closeBrowser } from './couchManagersScraper.js';
+import type { AuctionSourceAdapter } from '../types/auction.js';
+
+export const couchManagersAdapter: AuctionSourceAdapter = {
+  type: 'couchmanagers',
+  displayName: 'Couch Managers',
+
+  fetchRoomState(roomId) {
+    return scrapeAuction(roomId);
+  },
+
+  close() {
+    return closeBrowser();
+  },
+};
@@ -339,8 +339,11 @@ export async function scrapeAuction(roomId: string): Promise<ScrapedAuctionData>
       // Step 3: Also build highest bid map from auctionArray (for price data)
       const playerHighestBidMap = {} as Record<number, { teamname: string; amount: number }>;
       const allBidsByPlayer = {} as Record<number, Array<{ teamname: string; amount: number }>>;
+      // Position of each player's last entry in auctionArray - entries are kept in
+      // the order the auctions ran, so this orders the sales it still lists
+      const lastAuctionIndexByPlayer = {} as Record<number, number>;
 
-      for (const key of Object.keys(auctionArray)) {
+      Object.keys(auctionArray).forEach((key, auctionIndex) => {
         const auction = auctionArray[key];
         if (auction && auction.playerid && auction.teamname) {
           const playerId = Number(auction.playerid);
@@ -351,8 +354,9 @@ export async function scrapeAuction(roomId: string): Promise<ScrapedAuctionData>
             allBidsByPlayer[playerId] = [];
           }
           allBidsByPlayer[playerId].push({ teamname, amount });
+          lastAuctionIndexByPlayer[playerId] = auctionIndex;
         }
-      }
+      });
 
       for (const playerIdStr of Object.keys(allBidsByPlayer)) {
         const playerId = Number(playerIdStr);
@@ -426,6 +430,7 @@ export async function scrapeAuction(roomId: string): Promise<ScrapedAuctionData>
 
         const winningBid = isDrafted ? (potentialWinningBid || undefined) : undefined;
         const winningTeam = isDrafted ? (potentialWinningTeam || undefined) : undefined;
+        const saleOrder = status === 'drafted' ? lastAuctionIndexByPlayer[Number(id)] : undefined;
 
         players.push({
           couchManagersId: Number(id),
@@ -438,6 +443,7 @@ export async function scrapeAuction(roomId: string): Promise<ScrapedAuctionData>
           status,
           winningBid,
           winningTeam,
+          saleOrder,
           stats: {
             avg: p.avg || p.stat1 || p[8],
             hr: Number(p.hr || p.stat2 || p[9]) || undefined,
@@ -0,0 +1,163 @@
+/**
+ * Custom Projection Normalizer
+ * Turns uploaded spreadsheet rows (already column-mapped on the client) into
+ * NormalizedProjections, so a custom set values exactly like Steamer.
+ *
+ * Spreadsheets rarely carry every stat, so missing rate stats are derived from
+ * their components (AVG from H/AB, ERA from ER/IP, ...) and missing components
+ * from their rates. Anything that can't be derived is zero.
+ */
+
+import type {
+  CustomProjectionRow,
+  HittingStats,
+  NormalizedProjection,
+  PitchingStats,
+} from '../types/projections.js';
+import { parsePositions } from './projectionsService.js';
+
+// Upper bound on rows per set (the full Steamer set is ~1,500 hitters + pitchers)
+export const MAX_CUSTOM_PROJECTION_ROWS = 4000;
+
+function finite(value: number | undefined): number | undefined {
+  return value !== undefined && Number.isFinite(value) ? value : undefined;
+}
+
+function ratio(numerator: number, denominator: number): number {
+  return denominator > 0 ? numerator / denominator : 0;
+}
+
+/**
+ * Complete hitting line from partial stats, deriving what's missing
+ */
+export function normalizeHittingStats(stats: Partial<HittingStats> = {}): HittingStats {
+  const get = (key: keyof HittingStats) => finite(stats[key]);
+
+  const walks = get('walks') ?? 0;
+  const plateAppearances = get('plateAppearances') ?? (get('atBats') ?? 0) + walks;
+  const atBats = get('atBats') ?? Math.max(0, plateAppearances - walks);
+  const homeRuns = get('homeRuns') ?? 0;
+  const doubles = get('doubles') ?? 0;
+  const triples = get('triples') ?? 0;
+  const hits = get('hits') ?? Math.round((get('battingAvg') ?? 0) * atBats);
+  const singles = get('singles') ?? Math.max(0, hits - doubles - triples - homeRuns);
+
+  const onBasePct = get('onBasePct') ?? ratio(hits + walks, plateAppearances);
+  const sluggingPct = get('sluggingPct') ?? ratio(singles + 2 * doubles + 3 * triples + 4 * homeRuns, atBats);
+
+  return {
+    games: Math.round(get('games') ?? 0),
+    atBats: Math.round(atBats),
+    plateAppearances: Math.round(plateAppearances),
+    runs: Math.round(get('runs') ?? 0),
+    hits: Math.round(hits),
+    singles: Math.round(singles),
+    doubles: Math.round(doubles),
+    triples: Math.round(triples),
+    homeRuns: Math.round(homeRuns),
+    rbi: Math.round(get('rbi') ?? 0),
+    stolenBases: Math.round(get('stolenBases') ?? 0),
+    caughtStealing: Math.round(get('caughtStealing') ?? 0),
+    walks: Math.round(walks),
+    strikeouts: Math.round(get('strikeouts') ?? 0),
+    battingAvg: get('battingAvg') ?? ratio(hits, atBats),
+    onBasePct,
+    sluggingPct,
+    ops: get('ops') ?? onBasePct + sluggingPct,
+    wOBA: get('wOBA') ?? 0,
+    wrcPlus: get('wrcPlus') ?? 0,
+    war: get('war') ?? 0,
+  };
+}
+
+/**
+ * Complete pitching line from partial stats, deriving what's missing
+ */
+export function normalizePitchingStats(stats: Partial<PitchingStats> = {}): PitchingStats {
+  const get = (key: keyof PitchingStats) => finite(stats[key]);
+
+  const inningsPitched = get('inningsPitched') ?? 0;
+  const hitsAllowed = get('hitsAllowed') ?? 0;
+  const walks = get('walks') ?? ratio((get('bb9') ?? 0) * inningsPitched, 9);
+  const strikeouts = get('strikeouts') ?? ratio((get('k9') ?? 0) * inningsPitched, 9);
+  const earnedRuns = get('earnedRuns') ?? ratio((get('era') ?? 0) * inningsPitched, 9);
+  const era = get('era') ?? ratio(earnedRuns * 9, inningsPitched);
+  // Roughly three batters per inning plus baserunners allowed
+  const battersFaced = get('battersFaced') ?? Math.round(inningsPitched * 3 + hitsAllowed + walks);
+
+  return {
+    games: Math.round(get('games') ?? 0),
+    gamesStarted: Math.round(get('gamesStarted') ?? 0),
+    inningsPitched,
+    wins: Math.round(get('wins') ?? 0),
+    losses: Math.round(get('losses') ?? 0),
+    saves: Math.round(get('saves') ?? 0),
+    holds: Math.round(get('holds') ?? 0),
+    hitsAllowed: Math.round(hitsAllowed),
+    earnedRuns: Math.round(earnedRuns),
+    homeRunsAllowed: Math.round(get('homeRunsAllowed') ?? 0),
+    walks: Math.round(walks),
+    strikeouts: Math.round(strikeouts),
+    era,
+    whip: get('whip') ?? ratio(walks + hitsAllowed, inningsPitched),
+    k9: get('k9') ?? ratio(strikeouts * 9, inningsPitched),
+    bb9: get('bb9') ?? ratio(walks * 9, inningsPitched),
+    fip: get('fip') ?? era,
+    war: get('war') ?? 0,
+    kPercent: get('kPercent') ?? ratio(strikeouts, battersFaced),
+    bbPercent: get('bbPercent') ?? ratio(walks, battersFaced),
+    battersFaced,
+    qualityStarts: Math.round(get('qualityStarts') ?? 0),
+  };
+}
+
+/**
+ * Pitchers without an eligibility column are SP or RP by share of games started,
+ * same as FanGraphs projections
+ */
+function pitcherPositions(pitching: PitchingStats): string[] {
+  return ratio(pitching.gamesStarted, pitching.games || 1) >= 0.5 ? ['SP'] : ['RP'];
+}
+
+/**
+ * Normalizes uploaded rows. Rows without a name are skipped.
+ *
+ * @param rows - Column-mapped spreadsheet rows
+ * @param setId - Uploaded set ID, used to build stable external IDs for rows without one
+ */
+export function normalizeCustomProjections(rows: CustomProjectionRow[], setId: string): NormalizedProjection[] {
+  return rows
+    .filter(row => row.name.trim().length > 0)
+    .map((row, index) => {
+      const base = {
+        externalId: row.externalId?.trim() || `custom-${setId}-${index}`,
+        mlbamId: row.mlbamId && row.mlbamId > 0 ? Math.round(row.mlbamId) : 0,
+        name: row.name.trim(),
+        team: row.team?.trim().toUpperCase() || 'FA',
+      };
+
+      if (row.playerType === 'pitcher') {
+        const pitching = normalizePitchingStats(row.pitching);
+        const positions = row.positions ? parsePositions(row.positions) : pitcherPositions(pitching);
+        return { ...base, positions, playerType: 'pitcher' as const, pitching };
+      }
+
+      return {
+        ...base,
+        positions: parsePositions(row.positions),
+        playerType: 'hitter' as const,
+        hitting: normalizeHittingStats(row.hitting),
+      };
+    });
+}
+
+/**
+ * Hitter and pitcher counts for a normalized set
+ */
+export function countCustomProjections(projections: NormalizedProjection[]): {
+  hitterCount: number;
+  pitcherCount: number;
+} {
+  const hitterCount = projections.filter(p => p.playerType === 'hitter').length;
+  return { hitterCount, pitcherCount: projections.length - hitterCount };
+}
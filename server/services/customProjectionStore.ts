@@ -0,0 +1,119 @@
+/**
+ * Custom Projection Store
+ *
+ * Persists user-uploaded projection sets (see customProjectionNormalizer).
+ * A set belongs to its uploader and can optionally be shared with a league,
+ * in which case the league's owner and members can use it too.
+ */
+
+import { randomUUID } from 'crypto';
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../db.js';
+import { logger } from './logger.js';
+import { normalizeCustomProjections, countCustomProjections } from './customProjectionNormalizer.js';
+import type {
+  CustomProjectionRow,
+  CustomProjectionSetSummary,
+  NormalizedProjection,
+} from '../types/projections.js';
+
+const SUMMARY_SELECT = {
+  id: true,
+  name: true,
+  leagueId: true,
+  hitterCount: true,
+  pitcherCount: true,
+  createdAt: true,
+} as const;
+
+/**
+ * Sets the user uploaded, plus sets shared with leagues they own or belong to
+ */
+function accessibleTo(userId: string): Prisma.CustomProjectionSetWhereInput {
+  return {
+    OR: [
+      { userId },
+      { league: { ownerId: userId } },
+      { league: { userLeagues: { some: { userId } } } },
+    ],
+  };
+}
+
+function toSummary(set: {
+  id: string;
+  name: string;
+  leagueId: string | null;
+  hitterCount: number;
+  pitcherCount: number;
+  createdAt: Date;
+}): CustomProjectionSetSummary {
+  return { ...set, createdAt: set.createdAt.toISOString() };
+}
+
+export async function listCustomProjectionSets(userId: string): Promise<CustomProjectionSetSummary[]> {
+  const sets = await prisma.customProjectionSet.findMany({
+    where: accessibleTo(userId),
+    select: SUMMARY_SELECT,
+    orderBy: { createdAt: 'desc' },
+  });
+  return sets.map(toSummary);
+}
+
+/**
+ * Normalizes and stores an uploaded set
+ *
+ * @param leagueId - League to share the set with (caller checks the user owns it)
+ */
+export async function createCustomProjectionSet(
+  userId: string,
+  name: string,
+  rows: CustomProjectionRow[],
+  leagueId?: string
+): Promise<CustomProjectionSetSummary> {
+  const id = randomUUID();
+  const projections = normalizeCustomProjections(rows, id);
+  const counts = countCustomProjections(projections);
+
+  const set = await prisma.customProjectionSet.create({
+    data: {
+      id,
+      userId,
+      leagueId: leagueId ?? null,
+      name,
+      projections: projections as unknown as Prisma.InputJsonValue,
+      ...counts,
+    },
+    select: SUMMARY_SELECT,
+  });
+
+  logger.info({ userId, setId: id, leagueId, ...counts }, 'Stored custom projection set');
+  return toSummary(set);
+}
+
+/**
+ * Deletes a set. Only the uploader can delete it.
+ *
+ * @returns false when the set doesn't exist or wasn't uploaded by the user
+ */
+export async function deleteCustomProjectionSet(userId: string, setId: string): Promise<boolean> {
+  const { count } = await prisma.customProjectionSet.deleteMany({
+    where: { id: setId, userId },
+  });
+  return count > 0;
+}
+
+/**
+ * Loads a set's projections for a user who can access it
+ *
+ * @returns null when the set doesn't exist or the user can't access it
+ */
+export async function loadCustomProjections(
+  setId: string,
+  userId: string
+): Promise<NormalizedProjection[] | null> {
+  const set = await prisma.customProjectionSet.findFirst({
+    where: { id: setId, ...accessibleTo(userId) },
+    select: { projections: true },
+  });
+  return set ? (set.projections as unknown as NormalizedProjection[]) : null;
+}
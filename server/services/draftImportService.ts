@@ -0,0 +1,358 @@
+/**
+ * Draft Import Service
+ *
+ * Turns a draft results spreadsheet (in-person / offline auctions) into league
+ * draft state:
+ * 1. parseDraftResultsCsv - flexible header matching, per-row validation
+ * 2. buildDraftImport - matches rows to projections via matchAllPlayers,
+ *    applies manual resolutions and suggests candidates for the rest
+ */
+
+import { matchAllPlayers, normalizeName, normalizeTeam } from './playerMatcher.js';
+import type {
+  ScrapedPlayer,
+  DraftImportRow,
+  DraftImportCandidate,
+  DraftImportUnmatchedRow,
+} from '../types/auction.js';
+
+// Header names accepted for each column (compared lowercased, without spaces/punctuation)
+const COLUMN_PATTERNS = {
+  playerName: ['player', 'name', 'playername', 'fullname'],
+  mlbTeam: ['team', 'mlbteam', 'mlb', 'proteam', 'tm'],
+  positions: ['pos', 'position', 'positions', 'eligibility'],
+  price: ['price', 'cost', 'bid', 'amount', 'salary', 'winningbid', 'paid'],
+  fantasyTeam: ['fantasyteam', 'owner', 'manager', 'draftedby', 'winner', 'winningteam', 'teamname'],
+  pickNumber: ['pick', 'picknumber', 'order', 'overall', 'pickorder', 'nomination'],
+} as const;
+
+type ImportColumn = keyof typeof COLUMN_PATTERNS;
+
+const REQUIRED_COLUMNS: ImportColumn[] = ['playerName', 'price', 'fantasyTeam'];
+
+const MAX_IMPORT_ROWS = 1000;
+const MAX_CANDIDATES = 3;
+
+interface ProjectionPlayer {
+  id: string;
+  mlbamId?: number;
+  name: string;
+  team: string;
+  positions: string[];
+  projectedValue: number;
+}
+
+/**
+ * Player entry in League.draftState, as saved by PUT /draft-state
+ */
+export type ImportedDraftPlayer = {
+  id: string;
+  name: string;
+  status: 'drafted' | 'onMyTeam';
+  draftedPrice: number;
+  draftedBy: string;
+};
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Splits CSV text into records. Line breaks inside double-quoted fields
+ * (e.g. a note cell with several lines) stay part of the record.
+ */
+function splitCsvRecords(text: string): string[] {
+  const records: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (const char of text) {
+    if (char === '"') {
+      // An escaped quote ("") toggles twice, so it leaves the state unchanged
+      inQuotes = !inQuotes;
+    } else if (char === '\n' && !inQuotes) {
+      records.push(current.replace(/\r$/, ''));
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  records.push(current.replace(/\r$/, ''));
+
+  return records;
+}
+
+/**
+ * Splits one CSV record, honoring double-quoted fields and escaped quotes.
+ */
+function parseCsvLine(line: string, delimiter: string): string[] {
+  const values: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      values.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  values.push(current.trim());
+
+  return values;
+}
+
+/**
+ * Maps each known column to its index in the header row.
+ * "Team" is ambiguous between MLB team and fantasy team - it is only used
+ * as the MLB team, so the fantasy team needs a more specific header.
+ */
+function resolveColumns(headers: string[]): Partial<Record<ImportColumn, number>> {
+  const normalized = headers.map(normalizeHeader);
+  const columns: Partial<Record<ImportColumn, number>> = {};
+
+  for (const column of Object.keys(COLUMN_PATTERNS) as ImportColumn[]) {
+    const patterns: readonly string[] = COLUMN_PATTERNS[column];
+    const index = normalized.findIndex(h => patterns.includes(h));
+    if (index !== -1) {
+      columns[column] = index;
+    }
+  }
+
+  return columns;
+}
+
+/**
+ * Parses draft results CSV text.
+ * Required columns: player name, price, fantasy team.
+ * Optional columns: MLB team, positions, pick order.
+ *
+ * @throws Error when the header row is missing required columns
+ * @returns Valid rows and per-row validation errors
+ */
+export function parseDraftResultsCsv(text: string): {
+  rows: DraftImportRow[];
+  errors: Array<{ rowNumber: number; message: string }>;
+} {
+  const records = splitCsvRecords(text.replace(/^\uFEFF/, ''));
+  const headerLine = records[0]?.trim();
+  if (!headerLine || records.length < 2) {
+    throw new Error('CSV must contain a header row and at least one data row');
+  }
+
+  const delimiter = headerLine.includes('\t') ? '\t' : ',';
+  const headers = parseCsvLine(headerLine, delimiter);
+  const columns = resolveColumns(headers);
+
+  const missing = REQUIRED_COLUMNS.filter(c => columns[c] === undefined);
+  if (missing.length > 0) {
+    throw new Error(
+      `Missing required column(s): ${missing.join(', ')}. Found columns: ${headers.join(', ')}`
+    );
+  }
+
+  const rows: DraftImportRow[] = [];
+  const errors: Array<{ rowNumber: number; message: string }> = [];
+  const get = (values: string[], column: ImportColumn) => {
+    const index = columns[column];
+    return index === undefined ? '' : values[index] ?? '';
+  };
+
+  for (let i = 1; i < records.length; i++) {
+    const line = records[i].trim();
+    if (!line) continue;
+
+    const rowNumber = i + 1;
+    if (rows.length >= MAX_IMPORT_ROWS) {
+      errors.push({ rowNumber, message: `Import is limited to ${MAX_IMPORT_ROWS} rows` });
+      break;
+    }
+
+    const values = parseCsvLine(line, delimiter);
+    const playerName = get(values, 'playerName');
+    const fantasyTeam = get(values, 'fantasyTeam');
+    const price = Number(get(values, 'price').replace(/^\$/, ''));
+    const pickValue = get(values, 'pickNumber');
+    const pickNumber = pickValue ? Number(pickValue) : undefined;
+
+    if (!playerName) {
+      errors.push({ rowNumber, message: 'Missing player name' });
+      continue;
+    }
+    if (!fantasyTeam) {
+      errors.push({ rowNumber, message: `Missing fantasy team for ${playerName}` });
+      continue;
+    }
+    if (!Number.isFinite(price) || price < 0) {
+      errors.push({ rowNumber, message: `Invalid price for ${playerName}` });
+      continue;
+    }
+    if (pickNumber !== undefined && (!Number.isInteger(pickNumber) || pickNumber < 1)) {
+      errors.push({ rowNumber, message: `Invalid pick number for ${playerName}` });
+      continue;
+    }
+
+    rows.push({
+      rowNumber,
+      playerName,
+      mlbTeam: get(values, 'mlbTeam'),
+      positions: get(values, 'positions')
+        .split(/[,/|]/)
+        .map(p => p.trim().toUpperCase())
+        .filter(Boolean),
+      price: Math.round(price),
+      fantasyTeam,
+      pickNumber,
+    });
+  }
+
+  return { rows, errors };
+}
+
+/**
+ * Shapes an import row like a drafted scraped player so it can go through
+ * the same matcher as Couch Managers data. The row number stands in for the
+ * source player ID.
+ */
+function toScrapedPlayer(row: DraftImportRow): ScrapedPlayer {
+  const [firstName, ...rest] = row.playerName.split(' ');
+  return {
+    couchManagersId: row.rowNumber,
+    firstName,
+    lastName: rest.join(' '),
+    fullName: row.playerName,
+    normalizedName: normalizeName(row.playerName),
+    positions: row.positions,
+    mlbTeam: row.mlbTeam,
+    status: 'drafted',
+    winningBid: row.price,
+    winningTeam: row.fantasyTeam,
+  };
+}
+
+/**
+ * Likely projection players for an unmatched row: same last name, with
+ * same-team players first, then by projected value.
+ */
+function findCandidates(
+  row: DraftImportRow,
+  projections: ProjectionPlayer[],
+  usedIds: Set<string>
+): DraftImportCandidate[] {
+  const nameParts = normalizeName(row.playerName).split(' ');
+  const lastName = nameParts[nameParts.length - 1];
+  const team = row.mlbTeam ? normalizeTeam(row.mlbTeam) : null;
+
+  return projections
+    .filter(p => !usedIds.has(p.id) && normalizeName(p.name).split(' ').includes(lastName))
+    .sort((a, b) => {
+      const teamA = team && normalizeTeam(a.team) === team ? 1 : 0;
+      const teamB = team && normalizeTeam(b.team) === team ? 1 : 0;
+      return teamB - teamA || b.projectedValue - a.projectedValue;
+    })
+    .slice(0, MAX_CANDIDATES)
+    .map(({ id, name, team: playerTeam, positions, projectedValue }) => ({
+      id,
+      name,
+      team: playerTeam,
+      positions,
+      projectedValue,
+    }));
+}
+
+/**
+ * Matches parsed rows to projection players and builds draft state entries.
+ *
+ * @param rows - Parsed CSV rows
+ * @param projections - League-valued projection players
+ * @param options.myTeamName - Fantasy team whose picks become 'onMyTeam'
+ * @param options.resolutions - Manual matches for previously unmatched rows (rowNumber -> player ID)
+ * @returns Draft state entries in pick order, plus rows still unmatched
+ */
+export function buildDraftImport(
+  rows: DraftImportRow[],
+  projections: ProjectionPlayer[],
+  options: { myTeamName?: string; resolutions?: Record<number, string> } = {}
+): { players: ImportedDraftPlayer[]; unmatched: DraftImportUnmatchedRow[] } {
+  const resolutions = options.resolutions ?? {};
+  const myTeam = options.myTeamName?.trim().toLowerCase();
+  const projectionsById = new Map(projections.map(p => [p.id, p]));
+
+  // Manually resolved rows bypass the matcher
+  const resolvedIds = new Map<number, string>();
+  const usedIds = new Set<string>();
+  for (const row of rows) {
+    const playerId = resolutions[row.rowNumber];
+    if (playerId && projectionsById.has(playerId) && !usedIds.has(playerId)) {
+      resolvedIds.set(row.rowNumber, playerId);
+      usedIds.add(playerId);
+    }
+  }
+
+  const toMatch = rows.filter(r => !resolvedIds.has(r.rowNumber));
+  const { matched } = matchAllPlayers(
+    toMatch.map(toScrapedPlayer),
+    projections.filter(p => !usedIds.has(p.id))
+  );
+  for (const match of matched) {
+    if (match.projectionPlayerId) {
+      resolvedIds.set(match.scrapedPlayer.couchManagersId, match.projectionPlayerId);
+      usedIds.add(match.projectionPlayerId);
+    }
+  }
+
+  // The matcher needs team or position confirmation, which spreadsheets often
+  // lack - accept an exact name when exactly one projection has it
+  const projectionsByName = new Map<string, ProjectionPlayer[]>();
+  for (const projection of projections) {
+    const key = normalizeName(projection.name);
+    projectionsByName.set(key, [...(projectionsByName.get(key) ?? []), projection]);
+  }
+  for (const row of toMatch) {
+    if (resolvedIds.has(row.rowNumber)) continue;
+    const sameName = projectionsByName.get(normalizeName(row.playerName)) ?? [];
+    if (sameName.length === 1 && !usedIds.has(sameName[0].id)) {
+      resolvedIds.set(row.rowNumber, sameName[0].id);
+      usedIds.add(sameName[0].id);
+    }
+  }
+
+  // Pick order from the file when given, otherwise row order
+  const ordered = [...rows].sort((a, b) =>
+    (a.pickNumber ?? Infinity) - (b.pickNumber ?? Infinity) || a.rowNumber - b.rowNumber
+  );
+
+  const players: ImportedDraftPlayer[] = [];
+  const unmatched: DraftImportUnmatchedRow[] = [];
+  for (const row of ordered) {
+    const playerId = resolvedIds.get(row.rowNumber);
+    const projection = playerId ? projectionsById.get(playerId) : undefined;
+    if (!projection) {
+      unmatched.push({ row, candidates: findCandidates(row, projections, usedIds) });
+      continue;
+    }
+
+    players.push({
+      id: projection.id,
+      name: projection.name,
+      status: myTeam && row.fantasyTeam.toLowerCase() === myTeam ? 'onMyTeam' : 'drafted',
+      draftedPrice: row.price,
+      draftedBy: row.fantasyTeam,
+    });
+  }
+
+  return { players, unmatched };
+}
@@ -0,0 +1,104 @@
+/**
+ * Draft Persistence
+ *
+ * Pure helpers for mirroring Couch Managers draft progress into DraftPick
+ * and LeaguePlayer: which scraped players carry state worth storing, and
+ * which new picks to record in what order. The database side lives in
+ * draftPersistenceService.
+ */
+
+import type {
+  ScrapedAuctionData,
+  ScrapedPlayer,
+  MatchedPlayer,
+  CurrentAuction,
+} from '../types/auction.js';
+
+const PITCHER_POSITIONS = new Set(['SP', 'RP', 'P']);
+
+export interface TrackedPlayer {
+  scraped: ScrapedPlayer;
+  match: MatchedPlayer | undefined;
+  auction: CurrentAuction | undefined; // Set while the player is on the block
+}
+
+export interface PlannedPick {
+  playerId: string;
+  draftedByTeam: string | null;
+  pickNumber: number;
+  price: number;
+  inflationRateAtPick: number;
+}
+
+/**
+ * External ID used for the Player row: the projection ID when matched,
+ * otherwise a Couch Managers-scoped ID so unmatched picks are still recorded.
+ */
+export function getExternalId(tracked: TrackedPlayer): string {
+  return tracked.match?.projectionPlayerId ?? `couchmanagers:${tracked.scraped.couchManagersId}`;
+}
+
+export function getPlayerType(positions: string[]): 'hitter' | 'pitcher' {
+  return positions.length > 0 && positions.every(p => PITCHER_POSITIONS.has(p)) ? 'pitcher' : 'hitter';
+}
+
+/**
+ * Drafted and on-block players from a scrape - the only ones with state worth storing.
+ * When Couch Managers lists a player twice, the drafted entry wins.
+ */
+export function collectTrackedPlayers(
+  auctionData: ScrapedAuctionData,
+  matchedPlayers: MatchedPlayer[]
+): TrackedPlayer[] {
+  const matchesById = new Map(matchedPlayers.map(m => [m.scrapedPlayer.couchManagersId, m]));
+  const auctionsById = new Map((auctionData.activeAuctions ?? []).map(a => [a.playerId, a]));
+  if (auctionData.currentAuction && !auctionsById.has(auctionData.currentAuction.playerId)) {
+    auctionsById.set(auctionData.currentAuction.playerId, auctionData.currentAuction);
+  }
+
+  const trackedById = new Map<number, TrackedPlayer>();
+  for (const scraped of auctionData.players) {
+    if (scraped.status !== 'drafted' && scraped.status !== 'on_block') continue;
+    const current = trackedById.get(scraped.couchManagersId);
+    if (current?.scraped.status === 'drafted') continue;
+    trackedById.set(scraped.couchManagersId, {
+      scraped,
+      match: matchesById.get(scraped.couchManagersId),
+      auction: scraped.status === 'on_block' ? auctionsById.get(scraped.couchManagersId) : undefined,
+    });
+  }
+  return [...trackedById.values()];
+}
+
+/**
+ * Picks not yet recorded for a league, numbered after the existing ones in the
+ * order they were sold. Sales Couch Managers no longer lists in its recent
+ * auctions happened before the ones it does, so they're numbered first.
+ *
+ * @param tracked - Players from the scrape
+ * @param playerIds - Couch Managers ID to Player.id
+ * @param existingPicks - Picks already stored for the league
+ * @param inflationRate - Inflation at the time of this scrape
+ */
+export function planNewPicks(
+  tracked: TrackedPlayer[],
+  playerIds: Map<number, string>,
+  existingPicks: Array<{ playerId: string; pickNumber: number }>,
+  inflationRate: number
+): PlannedPick[] {
+  const pickedPlayerIds = new Set(existingPicks.map(p => p.playerId));
+  let nextPickNumber = existingPicks.reduce((max, p) => Math.max(max, p.pickNumber), 0) + 1;
+
+  return tracked
+    .filter(t => t.scraped.status === 'drafted')
+    .map(t => ({ t, playerId: playerIds.get(t.scraped.couchManagersId) }))
+    .filter((p): p is { t: TrackedPlayer; playerId: string } => !!p.playerId && !pickedPlayerIds.has(p.playerId))
+    .sort((a, b) => (a.t.scraped.saleOrder ?? -1) - (b.t.scraped.saleOrder ?? -1))
+    .map(({ t, playerId }) => ({
+      playerId,
+      draftedByTeam: t.scraped.winningTeam ?? null,
+      pickNumber: nextPickNumber++,
+      price: Math.round(t.scraped.winningBid ?? 0),
+      inflationRateAtPick: inflationRate,
+    }));
+}
@@ -0,0 +1,262 @@
+/**
+ * Draft Persistence Service
+ *
+ * Mirrors Couch Managers draft progress into the relational tables so draft
+ * history can be queried instead of living only in League.draftState JSON:
+ * 1. DraftPick - one row per won player, with sequential pickNumber, price
+ *    and the inflation rate at the time the pick was first seen
+ * 2. LeaguePlayer - current status / bid / bidder per player
+ *
+ * Runs after each auction sync, for the league the sync was run for.
+ */
+
+import { prisma } from '../db.js';
+import { logger } from './logger.js';
+import {
+  collectTrackedPlayers,
+  getExternalId,
+  getPlayerType,
+  planNewPicks,
+  type TrackedPlayer,
+} from './draftPersistence.js';
+import { findLeagueForUser } from './leagueMembershipStore.js';
+import { hasLeagueRole } from './leagueMembership.js';
+import type {
+  ScrapedAuctionData,
+  MatchedPlayer,
+  InflationStats,
+} from '../types/auction.js';
+
+// Last scrape persisted per league - syncs served from cache are skipped.
+// Entries for leagues that stop syncing expire (persisting a scrape again is safe).
+const PERSISTED_SCRAPE_MAX_AGE_MS = 30 * 60 * 1000;
+const lastPersistedScrape = new Map<string, { scrapedAt: string; persistedAt: number }>();
+
+// Serializes persistence per room so concurrent syncs can't race on pickNumber
+const persistQueues = new Map<string, Promise<void>>();
+
+export interface DraftProgressTarget {
+  leagueId: string; // League the sync is for
+  userId: string; // Signed-in user who ran the sync
+}
+
+/**
+ * Drops expired last-persisted scrapes across all leagues.
+ */
+function pruneLastPersisted(now: number): void {
+  for (const [leagueId, entry] of lastPersistedScrape) {
+    if (now - entry.persistedAt > PERSISTED_SCRAPE_MAX_AGE_MS) {
+      lastPersistedScrape.delete(leagueId);
+    }
+  }
+}
+
+/**
+ * Finds or creates Player rows for the tracked players.
+ *
+ * @returns Map of Couch Managers ID to Player.id
+ */
+async function resolvePlayerIds(tracked: TrackedPlayer[]): Promise<Map<number, string>> {
+  const byExternalId = new Map(tracked.map(t => [getExternalId(t), t]));
+  const playerIds = new Map<number, string>();
+
+  const assign = (rows: Array<{ id: string; externalId: string | null; mlbamId: number | null }>) => {
+    for (const row of rows) {
+      const t = row.externalId ? byExternalId.get(row.externalId) : undefined;
+      if (t) playerIds.set(t.scraped.couchManagersId, row.id);
+    }
+  };
+
+  assign(await prisma.player.findMany({
+    where: { externalId: { in: [...byExternalId.keys()] } },
+    select: { id: true, externalId: true, mlbamId: true },
+  }));
+
+  // Fall back to MLBAM ID for players stored under a different external ID
+  const missingByMlbam = new Map(
+    tracked
+      .filter(t => !playerIds.has(t.scraped.couchManagersId) && t.scraped.mlbamId)
+      .map(t => [t.scraped.mlbamId as number, t])
+  );
+  if (missingByMlbam.size > 0) {
+    const rows = await prisma.player.findMany({
+      where: { mlbamId: { in: [...missingByMlbam.keys()] } },
+      select: { id: true, mlbamId: true },
+    });
+    for (const row of rows) {
+      const t = row.mlbamId !== null ? missingByMlbam.get(row.mlbamId) : undefined;
+      if (t) playerIds.set(t.scraped.couchManagersId, row.id);
+    }
+  }
+
+  const toCreate = tracked.filter(t => !playerIds.has(t.scraped.couchManagersId));
+  if (toCreate.length > 0) {
+    await prisma.player.createMany({
+      data: toCreate.map(t => ({
+        externalId: getExternalId(t),
+        mlbamId: t.scraped.mlbamId ?? null,
+        name: t.scraped.fullName,
+        team: t.scraped.mlbTeam || null,
+        positions: t.scraped.positions,
+        playerType: getPlayerType(t.scraped.positions),
+      })),
+      skipDuplicates: true,
+    });
+    assign(await prisma.player.findMany({
+      where: { externalId: { in: toCreate.map(getExternalId) } },
+      select: { id: true, externalId: true, mlbamId: true },
+    }));
+  }
+
+  return playerIds;
+}
+
+/**
+ * Writes new picks and changed player statuses for one league.
+ */
+async function persistLeague(
+  leagueId: string,
+  tracked: TrackedPlayer[],
+  playerIds: Map<number, string>,
+  inflationRate: number
+): Promise<void> {
+  const existingPicks = await prisma.draftPick.findMany({
+    where: { leagueId },
+    select: { playerId: true, pickNumber: true },
+  });
+  const newPicks = planNewPicks(tracked, playerIds, existingPicks, inflationRate)
+    .map(pick => ({ leagueId, ...pick }));
+
+  if (newPicks.length > 0) {
+    await prisma.draftPick.createMany({ data: newPicks, skipDuplicates: true });
+  }
+
+  // Only write LeaguePlayer rows whose state actually changed
+  const trackedIds = [...playerIds.values()];
+  const existingRows = await prisma.leaguePlayer.findMany({
+    where: { leagueId, playerId: { in: trackedIds } },
+    select: { playerId: true, status: true, draftedPrice: true, draftedBy: true, currentBid: true, currentBidder: true },
+  });
+  const existingByPlayerId = new Map(existingRows.map(r => [r.playerId, r]));
+
+  const upserts = [];
+  for (const t of tracked) {
+    const playerId = playerIds.get(t.scraped.couchManagersId);
+    if (!playerId) continue;
+
+    const isDrafted = t.scraped.status === 'drafted';
+    const state = {
+      status: t.scraped.status,
+      draftedPrice: isDrafted ? t.scraped.winningBid ?? null : null,
+      draftedBy: isDrafted ? t.scraped.winningTeam ?? null : null,
+      currentBid: t.auction?.currentBid ?? null,
+      currentBidder: t.auction?.currentBidder ?? null,
+    };
+
+    const existing = existingByPlayerId.get(playerId);
+    if (
+      existing &&
+      existing.status === state.status &&
+      existing.draftedPrice === state.draftedPrice &&
+      existing.draftedBy === state.draftedBy &&
+      existing.currentBid === state.currentBid &&
+      existing.currentBidder === state.currentBidder
+    ) {
+      continue;
+    }
+
+    const data = {
+      ...state,
+      draftedAt: isDrafted && existing?.status !== 'drafted' ? new Date() : undefined,
+      projectedValue: t.match?.projectedValue ?? undefined,
+    };
+    upserts.push(prisma.leaguePlayer.upsert({
+      where: { leagueId_playerId: { leagueId, playerId } },
+      create: { leagueId, playerId, ...data },
+      update: data,
+    }));
+  }
+
+  if (upserts.length > 0) {
+    await prisma.$transaction(upserts);
+  }
+
+  // Players that left the block without being drafted go back to available
+  await prisma.leaguePlayer.updateMany({
+    where: { leagueId, status: 'on_block', playerId: { notIn: trackedIds } },
+    data: { status: 'available', currentBid: null, currentBidder: null },
+  });
+
+  if (newPicks.length > 0 || upserts.length > 0) {
+    logger.info({ leagueId, newPicks: newPicks.length, updatedPlayers: upserts.length }, 'Persisted draft progress');
+  }
+}
+
+/**
+ * Persists one scrape for the caller's league, if it is linked to the room
+ * and the caller can change its draft.
+ */
+async function persist(
+  auctionData: ScrapedAuctionData,
+  matchedPlayers: MatchedPlayer[],
+  inflationStats: InflationStats,
+  target: DraftProgressTarget
+): Promise<void> {
+  const { roomId, scrapedAt } = auctionData;
+  const { leagueId, userId } = target;
+  pruneLastPersisted(Date.now());
+  if (lastPersistedScrape.get(leagueId)?.scrapedAt === scrapedAt) {
+    return;
+  }
+
+  // Values and inflation come from the caller's projections, so they're only
+  // written to a league the caller runs
+  const access = await findLeagueForUser(leagueId, userId);
+  if (
+    !access ||
+    !hasLeagueRole(access.role, 'co-manager') ||
+    access.league.auctionSourceType !== 'couchmanagers' ||
+    access.league.auctionSourceId !== roomId
+  ) {
+    return;
+  }
+
+  const tracked = collectTrackedPlayers(auctionData, matchedPlayers);
+  const playerIds = await resolvePlayerIds(tracked);
+  await persistLeague(leagueId, tracked, playerIds, inflationStats.overallInflationRate);
+
+  lastPersistedScrape.set(leagueId, { scrapedAt, persistedAt: Date.now() });
+}
+
+/**
+ * Persists draft progress from a sync into DraftPick and LeaguePlayer for
+ * the league the sync was run for. Nothing is written unless that league is
+ * linked to the room and the user is its owner or a co-manager. Safe to call
+ * on every sync - repeated calls for the same scrape are no-ops.
+ *
+ * @param auctionData - Scraped room state
+ * @param matchedPlayers - Scraped players matched to the caller's projections
+ * @param inflationStats - Inflation stats from the same sync
+ * @param target - League to write to and the user who synced it
+ */
+export function persistDraftProgress(
+  auctionData: ScrapedAuctionData,
+  matchedPlayers: MatchedPlayer[],
+  inflationStats: InflationStats,
+  target: DraftProgressTarget
+): Promise<void> {
+  const { roomId } = auctionData;
+  const previous = persistQueues.get(roomId) ?? Promise.resolve();
+
+  const next = previous
+    .catch(() => undefined)
+    .then(() => persist(auctionData, matchedPlayers, inflationStats, target))
+    .finally(() => {
+      if (persistQueues.get(roomId) === next) {
+        persistQueues.delete(roomId);
+      }
+    });
+
+  persistQueues.set(roomId, next);
+  return next;
+}
@@ -0,0 +1,188 @@
+/**
+ * Draft Timeline Service
+ *
+ * Replays a league's stored picks in order and reconstructs the league
+ * state after each one: inflation (via calculateInflationStats), team
+ * budgets and positional scarcity. Used for post-draft review.
+ *
+ * Only drafted players are stored per league, so the replay pool is the set
+ * of players that were eventually drafted: at pick N, picks 1..N count as
+ * drafted and the rest as still available. Every room team is listed from the
+ * first pick, with keepers charged until they show up as picks.
+ *
+ * Each pick reruns the inflation calculation over the whole pool, so built
+ * timelines are cached per league until its picks or settings change.
+ */
+
+import { createHash } from 'crypto';
+import { applyKeepersToTeams, calculateInflationStats, getKeepersMissingFromRoom } from './inflationCalculator.js';
+import type { DraftTimelineEvent, KeeperCost, MatchedPlayer, ScrapedTeam } from '../types/auction.js';
+
+export interface TimelinePick {
+  pickNumber: number;
+  draftedAt: Date;
+  price: number;
+  draftedBy: string | null;
+  inflationRateAtPick: number | null;
+  projectedValue: number | null;
+  player: {
+    id: string;
+    name: string;
+    team: string | null;
+    positions: string[];
+  };
+}
+
+interface TimelineLeagueConfig {
+  numTeams: number;
+  budgetPerTeam: number;
+  rosterSpots: Record<string, number>;
+  teamNames?: string[]; // Room teams, including ones without picks
+  keepers?: KeeperCost[];
+}
+
+// Built timelines kept in memory (least recently used evicted first)
+const MAX_CACHED_TIMELINES = 50;
+const timelineCache = new Map<string, { key: string; events: DraftTimelineEvent[] }>();
+
+function toPoolPlayer(pick: TimelinePick, index: number, isDrafted: boolean): MatchedPlayer {
+  return {
+    scrapedPlayer: {
+      couchManagersId: index,
+      firstName: '',
+      lastName: '',
+      fullName: pick.player.name,
+      normalizedName: pick.player.name.toLowerCase(),
+      positions: pick.player.positions,
+      mlbTeam: pick.player.team ?? '',
+      status: isDrafted ? 'drafted' : 'available',
+      winningBid: isDrafted ? pick.price : undefined,
+      winningTeam: isDrafted ? pick.draftedBy ?? undefined : undefined,
+    },
+    projectionPlayerId: pick.player.id,
+    projectedValue: pick.projectedValue,
+    actualBid: isDrafted ? pick.price : null,
+    inflationAmount: null,
+    inflationPercent: null,
+    matchConfidence: 'exact',
+  };
+}
+
+/**
+ * Builds the pick-by-pick timeline for a league.
+ *
+ * @param picks - Stored picks for the league (any order)
+ * @param config - League budget and roster configuration, room teams and keepers
+ * @returns One event per pick, in pick order
+ */
+export function buildDraftTimeline(
+  picks: TimelinePick[],
+  config: TimelineLeagueConfig
+): DraftTimelineEvent[] {
+  const orderedPicks = [...picks].sort((a, b) => a.pickNumber - b.pickNumber);
+  const totalRosterSpots = Object.values(config.rosterSpots).reduce((sum, n) => sum + (n || 0), 0);
+  const keepers = config.keepers ?? [];
+  const leagueConfig = {
+    numTeams: config.numTeams,
+    budgetPerTeam: config.budgetPerTeam,
+    totalRosterSpots,
+    rosterSpots: config.rosterSpots,
+    keepers,
+  };
+
+  // Every team from the start: room teams, then keeper-only teams, then any other winning team
+  const teamTotals = new Map<string, { spent: number; playersDrafted: number }>();
+  const teamNames = [
+    ...(config.teamNames ?? []),
+    ...keepers.map(k => k.teamName),
+    ...orderedPicks.flatMap(p => p.draftedBy ? [p.draftedBy] : []),
+  ];
+  teamNames.forEach(name => {
+    if (!teamTotals.has(name)) teamTotals.set(name, { spent: 0, playersDrafted: 0 });
+  });
+
+  // Built once - each pick only flips its own player to drafted
+  const pool = orderedPicks.map((p, i) => toPoolPlayer(p, i, false));
+
+  return orderedPicks.map((pick, index) => {
+    if (pick.draftedBy) {
+      const totals = teamTotals.get(pick.draftedBy);
+      if (totals) {
+        totals.spent += pick.price;
+        totals.playersDrafted += 1;
+      }
+    }
+    pool[index] = toPoolPlayer(pick, index, true);
+
+    const teams: ScrapedTeam[] = [...teamTotals.entries()].map(([name, totals]) => ({
+      name,
+      budget: config.budgetPerTeam,
+      spent: totals.spent,
+      remaining: config.budgetPerTeam - totals.spent,
+      playersDrafted: totals.playersDrafted,
+      isOnline: false,
+    }));
+
+    // Keepers are charged inside calculateInflationStats; budgets shown need the same charge
+    const stats = calculateInflationStats(pool, leagueConfig, teams);
+    const unchargedKeepers = getKeepersMissingFromRoom(keepers, pool.map(p => p.scrapedPlayer));
+    const teamsWithKeepers = unchargedKeepers.length > 0 ? applyKeepersToTeams(teams, unchargedKeepers) : teams;
+
+    return {
+      pickNumber: pick.pickNumber,
+      draftedAt: pick.draftedAt.toISOString(),
+      player: pick.player,
+      draftedBy: pick.draftedBy,
+      price: pick.price,
+      projectedValue: pick.projectedValue,
+      inflationRateAtPick: pick.inflationRateAtPick,
+      inflation: {
+        overallInflationRate: stats.overallInflationRate,
+        totalProjectedValue: stats.totalProjectedValue,
+        totalActualSpent: stats.totalActualSpent,
+        draftedPlayersCount: stats.draftedPlayersCount,
+        tierInflation: stats.tierInflation ?? [],
+      },
+      teamBudgets: teamsWithKeepers.map(({ name, spent, remaining, playersDrafted }) => ({
+        name,
+        spent,
+        remaining,
+        playersDrafted,
+      })),
+      positionalScarcity: stats.positionalScarcity,
+    };
+  });
+}
+
+/**
+ * Timeline for a league, rebuilt only when its picks or settings change.
+ *
+ * @param leagueId - League the picks belong to (cache key)
+ * @param picks - Stored picks for the league (any order)
+ * @param config - League budget and roster configuration, room teams and keepers
+ */
+export function getDraftTimeline(
+  leagueId: string,
+  picks: TimelinePick[],
+  config: TimelineLeagueConfig
+): DraftTimelineEvent[] {
+  const key = createHash('sha256').update(JSON.stringify({ picks, config })).digest('hex');
+  const cached = timelineCache.get(leagueId);
+  if (cached?.key === key) {
+    // Re-insert so the entry becomes the most recently used
+    timelineCache.delete(leagueId);
+    timelineCache.set(leagueId, cached);
+    return cached.events;
+  }
+
+  const events = buildDraftTimeline(picks, config);
+
+  timelineCache.delete(leagueId);
+  if (timelineCache.size >= MAX_CACHED_TIMELINES) {
+    // Maps iterate in insertion order, so the first key is the least recently used
+    const leastRecent = timelineCache.keys().next().value;
+    if (leastRecent !== undefined) timelineCache.delete(leastRecent);
+  }
+  timelineCache.set(leagueId, { key, events });
+  return events;
+}
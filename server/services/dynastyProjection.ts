@@ -0,0 +1,155 @@
+/**
+ * Dynasty Projection
+ * Projects a player's auction value several seasons forward with
+ * position-specific aging curves, and prices a keeper contract over those years.
+ *
+ * A player bought at auction keeps that salary (plus the league's escalator)
+ * for the contract length. The contract value is the highest price that still
+ * breaks even: this season's value plus the discounted surplus of each future
+ * season the player is worth more than the escalated salary (otherwise cut).
+ */
+
+import type { LeagueSettings } from '../../src/lib/types.js';
+
+export type AgingGroup = 'C' | 'hitter' | 'SP' | 'RP';
+
+export interface DynastyContractTerms {
+  projectionYears: number;
+  discountRate: number;
+  contractYears: number;
+  salaryEscalator: number;
+}
+
+export const DEFAULT_PROJECTION_YEARS = 3;
+export const DEFAULT_DISCOUNT_RATE = 0.15;
+const MIN_PROJECTION_YEARS = 3;
+const MAX_PROJECTION_YEARS = 5;
+
+/**
+ * Year-over-year change in value by age, per aging group
+ * Each entry applies from its age up to the next entry's age
+ */
+const AGING_CURVES: Record<AgingGroup, Array<{ age: number; change: number }>> = {
+  // Catchers peak early and fall off quickly
+  C: [
+    { age: 0, change: 0.05 },
+    { age: 25, change: 0.02 },
+    { age: 27, change: 0 },
+    { age: 28, change: -0.04 },
+    { age: 30, change: -0.07 },
+    { age: 32, change: -0.12 },
+  ],
+  hitter: [
+    { age: 0, change: 0.06 },
+    { age: 25, change: 0.03 },
+    { age: 27, change: 0 },
+    { age: 29, change: -0.03 },
+    { age: 31, change: -0.06 },
+    { age: 33, change: -0.10 },
+  ],
+  SP: [
+    { age: 0, change: 0.05 },
+    { age: 25, change: 0.02 },
+    { age: 28, change: 0 },
+    { age: 30, change: -0.04 },
+    { age: 32, change: -0.07 },
+    { age: 34, change: -0.10 },
+  ],
+  // Relievers develop less and are flat until an earlier decline
+  RP: [
+    { age: 0, change: 0.03 },
+    { age: 26, change: 0 },
+    { age: 30, change: -0.05 },
+    { age: 32, change: -0.09 },
+  ],
+};
+
+/**
+ * Resolve contract terms from dynasty settings, filling in defaults
+ * Contracts without a set length run for the whole projection window
+ */
+export function getDynastyContractTerms(
+  dynastySettings: LeagueSettings['dynastySettings']
+): DynastyContractTerms {
+  const projectionYears = Math.min(
+    MAX_PROJECTION_YEARS,
+    Math.max(MIN_PROJECTION_YEARS, Math.round(dynastySettings?.projectionYears ?? DEFAULT_PROJECTION_YEARS))
+  );
+
+  return {
+    projectionYears,
+    discountRate: Math.max(0, dynastySettings?.discountRate ?? DEFAULT_DISCOUNT_RATE),
+    contractYears: Math.max(1, Math.round(dynastySettings?.contractYears ?? projectionYears)),
+    salaryEscalator: Math.max(0, dynastySettings?.salaryEscalator ?? 0),
+  };
+}
+
+/**
+ * Pick the aging curve for a player from their positions
+ */
+export function getAgingGroup(positions: string[], playerType: 'hitter' | 'pitcher'): AgingGroup {
+  if (playerType === 'pitcher') {
+    return positions.includes('SP') ? 'SP' : 'RP';
+  }
+  return positions[0] === 'C' ? 'C' : 'hitter';
+}
+
+function getAgingChange(group: AgingGroup, age: number): number {
+  const curve = AGING_CURVES[group];
+  let change = curve[0].change;
+  for (const point of curve) {
+    if (age >= point.age) change = point.change;
+  }
+  return change;
+}
+
+/**
+ * Project this season's value forward, one entry per season
+ * Players without a known age are held flat.
+ */
+export function projectYearlyValues(
+  currentValue: number,
+  age: number | null | undefined,
+  group: AgingGroup,
+  years: number
+): number[] {
+  const values = [currentValue];
+  for (let year = 1; year < years; year++) {
+    const change = age != null ? getAgingChange(group, age + year - 1) : 0;
+    values.push(values[year - 1] * (1 + change));
+  }
+  return values;
+}
+
+/**
+ * Break-even price for a contract over the projected seasons
+ *
+ * Solves P = value[0] + Σ discount^y × max(0, value[y] - (P + escalator × y))
+ * over the contract's seasons within the projection window. The right side
+ * falls as P rises, so bisection finds the single crossing.
+ */
+export function calculateContractValue(yearlyValues: number[], terms: DynastyContractTerms): number {
+  if (yearlyValues.length === 0) return 0;
+
+  const seasons = Math.min(yearlyValues.length, terms.projectionYears, terms.contractYears);
+  const surplusAt = (price: number): number => {
+    let total = yearlyValues[0];
+    for (let year = 1; year < seasons; year++) {
+      const salary = price + terms.salaryEscalator * year;
+      const discount = Math.pow(1 + terms.discountRate, -year);
+      total += discount * Math.max(0, yearlyValues[year] - salary);
+    }
+    return total - price;
+  };
+
+  let low = Math.max(0, yearlyValues[0]);
+  let high = low + yearlyValues.slice(1, seasons).reduce((sum, v) => sum + Math.max(0, v), 0);
+  if (surplusAt(high) >= 0) return high;
+
+  for (let i = 0; i < 40; i++) {
+    const mid = (low + high) / 2;
+    if (surplusAt(mid) > 0) low = mid;
+    else high = mid;
+  }
+  return (low + high) / 2;
+}
@@ -0,0 +1,144 @@
+/**
+ * Entitlements
+ * What each subscription tier unlocks (enforced by requireFeature in middleware/auth).
+ *
+ * - free: manual drafts, projections, and up to FREE_LEAGUE_LIMIT leagues
+ * - premium: live auction sync, chat assistant, SMS alerts, dynasty mode, unlimited leagues
+ */
+
+import type {
+  Entitlements,
+  PremiumFeature,
+  SubscriptionInfo,
+  SubscriptionTier,
+} from '../../src/lib/types.js';
+
+export const SUBSCRIPTION_TIERS = ['free', 'premium'] as const;
+
+export const SUBSCRIPTION_STATUSES = ['active', 'cancelled', 'past_due'] as const;
+
+export const FREE_LEAGUE_LIMIT = 3;
+
+const TIER_FEATURES: Record<SubscriptionTier, PremiumFeature[]> = {
+  free: [],
+  premium: ['liveSync', 'chatAssistant', 'smsAlerts', 'dynastyMode'],
+};
+
+const TIER_LEAGUE_LIMITS: Record<SubscriptionTier, number | null> = {
+  free: FREE_LEAGUE_LIMIT,
+  premium: null,
+};
+
+export const FEATURE_LABELS: Record<PremiumFeature, string> = {
+  liveSync: 'Live auction sync',
+  chatAssistant: 'The draft assistant',
+  smsAlerts: 'SMS alerts',
+  dynastyMode: 'Dynasty mode',
+};
+
+/**
+ * Reads User.subscriptionTier; anything unrecognized gets the free tier
+ */
+export function toSubscriptionTier(tier: string): SubscriptionTier {
+  return tier === 'premium' ? 'premium' : 'free';
+}
+
+/**
+ * The tier a user has right now. A cancelled subscription keeps its stored
+ * tier only until the paid period ends, so access lapses on time even when
+ * no further billing event arrives.
+ */
+export function getEffectiveTier(
+  user: { subscriptionTier: string; subscriptionStatus: string; subscriptionPeriodEnd: Date | null },
+  now = new Date()
+): SubscriptionTier {
+  if (
+    user.subscriptionStatus === 'cancelled' &&
+    (user.subscriptionPeriodEnd === null || user.subscriptionPeriodEnd.getTime() <= now.getTime())
+  ) {
+    return 'free';
+  }
+  return toSubscriptionTier(user.subscriptionTier);
+}
+
+export function getEntitlements(tier: string): Entitlements {
+  const subscriptionTier = toSubscriptionTier(tier);
+  const unlocked = TIER_FEATURES[subscriptionTier];
+
+  return {
+    tier: subscriptionTier,
+    features: {
+      liveSync: unlocked.includes('liveSync'),
+      chatAssistant: unlocked.includes('chatAssistant'),
+      smsAlerts: unlocked.includes('smsAlerts'),
+      dynastyMode: unlocked.includes('dynastyMode'),
+    },
+    maxLeagues: TIER_LEAGUE_LIMITS[subscriptionTier],
+  };
+}
+
+export function hasFeature(tier: string, feature: PremiumFeature): boolean {
+  return TIER_FEATURES[toSubscriptionTier(tier)].includes(feature);
+}
+
+/**
+ * Tiers that unlock a feature, for requireTier
+ */
+export function tiersWithFeature(feature: PremiumFeature): SubscriptionTier[] {
+  return SUBSCRIPTION_TIERS.filter(tier => TIER_FEATURES[tier].includes(feature));
+}
+
+/**
+ * Whether a user who already owns `ownedCount` leagues can create another
+ */
+export function canCreateLeague(tier: string, ownedCount: number): boolean {
+  const limit = TIER_LEAGUE_LIMITS[toSubscriptionTier(tier)];
+  return limit === null || ownedCount < limit;
+}
+
+export const BILLING_EVENT_TYPES = [
+  'subscription.created',
+  'subscription.updated',
+  'subscription.deleted',
+] as const;
+
+export interface BillingEvent {
+  type: typeof BILLING_EVENT_TYPES[number];
+  status: SubscriptionInfo['status'];
+  currentPeriodEnd: Date | null;
+  cancelAtPeriodEnd: boolean;
+}
+
+/**
+ * The User subscription fields after a billing event
+ *
+ * Past-due subscriptions keep premium while the payment is retried, and
+ * cancelled ones keep it until the paid period ends. A deleted subscription
+ * drops to free right away.
+ */
+export function applyBillingEvent(
+  event: BillingEvent,
+  now = new Date()
+): {
+  subscriptionTier: SubscriptionTier;
+  subscriptionStatus: SubscriptionInfo['status'];
+  subscriptionPeriodEnd: Date | null;
+  subscriptionCancelAtPeriodEnd: boolean;
+} {
+  if (event.type === 'subscription.deleted') {
+    return {
+      subscriptionTier: 'free',
+      subscriptionStatus: 'cancelled',
+      subscriptionPeriodEnd: event.currentPeriodEnd,
+      subscriptionCancelAtPeriodEnd: false,
+    };
+  }
+
+  const paidThrough = event.currentPeriodEnd !== null && event.currentPeriodEnd.getTime() > now.getTime();
+  return {
+    subscriptionTier: event.status !== 'cancelled' || paidThrough ? 'premium' : 'free',
+    subscriptionStatus: event.status,
+    subscriptionPeriodEnd: event.currentPeriodEnd,
+    subscriptionCancelAtPeriodEnd: event.cancelAtPeriodEnd,
+  };
+}
@@ -1,17 +1,21 @@
 import type {
   MatchedPlayer,
   InflationStats,
+  ScrapedPlayer,
   ScrapedTeam,
   PositionalScarcity,
   TeamBudgetConstraint,
   EnhancedInflationStats,
+  KeeperCost,
 } from '../types/auction.js';
+import { normalizeName } from './playerMatcher.js';
 
 interface LeagueConfig {
   numTeams: number;
   budgetPerTeam: number;
   totalRosterSpots: number;
   rosterSpots?: Record<string, number>;
+  keepers?: KeeperCost[];
 }
 
 /**
@@ -176,6 +180,37 @@ export function calculateEffectiveBudget(
   });
 }
 
+/**
+ * Keepers the room doesn't list as drafted yet. Rooms that preload keepers
+ * already count them in their teams' spent and playersDrafted.
+ */
+export function getKeepersMissingFromRoom(keepers: KeeperCost[], roomPlayers: ScrapedPlayer[]): KeeperCost[] {
+  const draftedNames = new Set(
+    roomPlayers.filter(p => p.status === 'drafted').map(p => normalizeName(p.fullName))
+  );
+  return keepers.filter(k => !draftedNames.has(normalizeName(k.playerName)));
+}
+
+/**
+ * Charges keepers to their teams' budgets and roster counts.
+ * Only pass keepers missing from the room, so preloaded ones aren't charged twice.
+ * Teams not in the list (e.g. misspelled keeper teams) are left unchanged.
+ */
+export function applyKeepersToTeams(teams: ScrapedTeam[], keepers: KeeperCost[]): ScrapedTeam[] {
+  return teams.map(team => {
+    const teamKeepers = keepers.filter(k => k.teamName === team.name);
+    if (teamKeepers.length === 0) return team;
+
+    const keeperSalaries = teamKeepers.reduce((sum, k) => sum + k.salary, 0);
+    return {
+      ...team,
+      spent: team.spent + keeperSalaries,
+      remaining: team.remaining - keeperSalaries,
+      playersDrafted: team.playersDrafted + teamKeepers.length,
+    };
+  });
+}
+
 /**
  * Calculates positional scarcity based on available players vs league need.
  *
@@ -338,12 +373,29 @@ function getDampenedWeight(projectedValue: number): number {
  *
  * For remaining budget adjustments:
  * Uses EFFECTIVE remaining budget (not raw) for forward-looking inflation.
+ *
+ * Keepers (leagueConfig.keepers) come off the league budget and roster spots
+ * before the auction. Keepers kept below value leave extra money for the
+ * remaining pool, which shows up in remainingBudgetInflationAdjustment.
  */
 export function calculateInflationStats(
-  matchedPlayers: MatchedPlayer[],
+  allMatchedPlayers: MatchedPlayer[],
   leagueConfig: LeagueConfig,
-  teams?: ScrapedTeam[]
+  allTeams?: ScrapedTeam[]
 ): EnhancedInflationStats {
+  // Keepers are charged from the league config, so ignore them if the room lists them too
+  const keepers = leagueConfig.keepers ?? [];
+  const keeperNames = new Set(keepers.map(k => normalizeName(k.playerName)));
+  const matchedPlayers = keeperNames.size > 0
+    ? allMatchedPlayers.filter(p => !keeperNames.has(normalizeName(p.scrapedPlayer.fullName)))
+    : allMatchedPlayers;
+  // The room's team totals already include keepers it lists as drafted
+  const unchargedKeepers = getKeepersMissingFromRoom(keepers, allMatchedPlayers.map(p => p.scrapedPlayer));
+  const teams = allTeams && unchargedKeepers.length > 0 ? applyKeepersToTeams(allTeams, unchargedKeepers) : allTeams;
+  const keeperSalaries = keepers.reduce((sum, k) => sum + k.salary, 0);
+  const keeperSurplus = keepers.reduce((sum, k) => sum + k.projectedValue, 0) - keeperSalaries;
+  const keeperStats = keepers.length > 0 ? { keeperSalaries, keeperSurplus } : {};
+
   // Filter to only drafted players with both actual bid and projected value
   const draftedWithValues = matchedPlayers.filter(
     p =>
@@ -374,9 +426,9 @@ export function calculateInflationStats(
 
   // Empty state return
   if (draftedWithValues.length === 0) {
-    const totalLeagueBudget = leagueConfig.numTeams * leagueConfig.budgetPerTeam;
+    const totalLeagueBudget = leagueConfig.numTeams * leagueConfig.budgetPerTeam - keeperSalaries;
     // Calculate league-wide reserve: each team needs $1 per remaining roster spot (minus 1)
-    const totalRosterSpots = leagueConfig.totalRosterSpots * leagueConfig.numTeams;
+    const totalRosterSpots = leagueConfig.totalRosterSpots * leagueConfig.numTeams - keepers.length;
     const leagueReserve = Math.max(0, totalRosterSpots - leagueConfig.numTeams) * 1; // Reserve for all unfilled spots
     const effectiveRemainingBudget = Math.max(0, totalLeagueBudget - leagueReserve);
 
@@ -403,6 +455,7 @@ export function calculateInflationStats(
       leagueEffectiveBudget: effectiveRemainingBudget,
       adjustedRemainingBudget: effectiveRemainingBudget,
       remainingProjectedValue,
+      ...keeperStats,
     };
   }
 
@@ -467,13 +520,13 @@ export function calculateInflationStats(
   // Calculate remaining budget using raw remaining minus league-wide reserves
   // IMPORTANT: We use rawRemainingBudget (total budget - total spent), NOT the sum of team effective budgets
   // The sum of team effective budgets can be incorrect when team spending data is incomplete from scraping
-  const totalLeagueBudget = leagueConfig.numTeams * leagueConfig.budgetPerTeam;
+  const totalLeagueBudget = leagueConfig.numTeams * leagueConfig.budgetPerTeam - keeperSalaries;
   const rawRemainingBudget = totalLeagueBudget - totalActualSpent;
 
   // Calculate league-wide reserve requirement
   // Each team needs $1 per remaining roster spot (minus 1 for current bid)
   const totalRosterSpots = leagueConfig.totalRosterSpots;
-  const playersRemainingToDraft = (totalRosterSpots * leagueConfig.numTeams) - draftedPlayersCount;
+  const playersRemainingToDraft = (totalRosterSpots * leagueConfig.numTeams) - keepers.length - draftedPlayersCount;
   const leagueReserve = Math.max(0, playersRemainingToDraft - leagueConfig.numTeams) * 1;
   const adjustedRemainingBudget = Math.max(0, rawRemainingBudget - leagueReserve);
 
@@ -508,6 +561,7 @@ export function calculateInflationStats(
     leagueEffectiveBudget: adjustedRemainingBudget, // Use the correctly calculated value
     adjustedRemainingBudget,
     remainingProjectedValue,
+    ...keeperStats,
   };
 }
 
@@ -0,0 +1,71 @@
+/**
+ * League Membership
+ * Roles and invite rules for shared leagues (see leagueMembershipStore).
+ *
+ * - owner: everything, including settings, members, and invites
+ * - co-manager: also edits draft state, so two people can run one team
+ * - member: read-only access to the league and its draft
+ */
+
+import crypto from 'crypto';
+import type { LeagueRole } from '../../src/lib/types.js';
+
+// Lowest to highest access
+const LEAGUE_ROLES: LeagueRole[] = ['member', 'co-manager', 'owner'];
+
+// Roles an invite can grant (there is only one owner)
+export const INVITE_ROLES = ['member', 'co-manager'] as const;
+
+export type InviteStatus = 'pending' | 'accepted' | 'declined' | 'revoked';
+
+export type InviteError = 'INVITE_NOT_FOUND' | 'INVITE_NOT_PENDING' | 'INVITE_EXPIRED' | 'INVITE_FORBIDDEN';
+
+export const INVITE_EXPIRY_DAYS = 7;
+
+/**
+ * Whether a role grants at least the required role's permissions
+ */
+export function hasLeagueRole(role: LeagueRole, required: LeagueRole): boolean {
+  return LEAGUE_ROLES.indexOf(role) >= LEAGUE_ROLES.indexOf(required);
+}
+
+/**
+ * Generates an invite token for a link, and the hash that's stored
+ */
+export function generateInviteToken(): { token: string; tokenHash: string } {
+  const token = crypto.randomBytes(32).toString('hex');
+  return { token, tokenHash: hashInviteToken(token) };
+}
+
+export function hashInviteToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export interface InviteCheck {
+  status: InviteStatus;
+  email: string | null;
+  tokenHash: string;
+  expiresAt: Date;
+}
+
+/**
+ * Why a user can't respond to an invite, or null when they can
+ *
+ * Every invite needs the token from its link - account emails aren't verified,
+ * so an email match alone doesn't prove the invite reached its recipient.
+ * Invites addressed to an email can also only be answered from that account;
+ * link invites (no email) can be answered by anyone holding the token.
+ */
+export function getInviteError(
+  invite: InviteCheck,
+  user: { email: string },
+  token: string | undefined,
+  now = new Date()
+): Exclude<InviteError, 'INVITE_NOT_FOUND'> | null {
+  if (invite.status !== 'pending') return 'INVITE_NOT_PENDING';
+  if (invite.expiresAt.getTime() <= now.getTime()) return 'INVITE_EXPIRED';
+
+  if (token === undefined || hashInviteToken(token) !== invite.tokenHash) return 'INVITE_FORBIDDEN';
+  if (invite.email && invite.email !== user.email.toLowerCase()) return 'INVITE_FORBIDDEN';
+  return null;
+}
@@ -0,0 +1,319 @@
+/**
+ * League Membership Store
+ *
+ * Shares a league through UserLeague rows (see leagueMembership for roles).
+ * The owner is League.ownerId; everyone else joins by accepting an invite,
+ * either addressed to their account's email or opened from an invite link.
+ */
+
+import type { League, Prisma } from '@prisma/client';
+import { prisma } from '../db.js';
+import { logger } from './logger.js';
+import {
+  generateInviteToken,
+  getInviteError,
+  hashInviteToken,
+  INVITE_EXPIRY_DAYS,
+  type InviteError,
+  type InviteStatus,
+} from './leagueMembership.js';
+import type { LeagueInvite, LeagueMember, LeagueRole } from '../../src/lib/types.js';
+
+const INVITE_INCLUDE = {
+  league: { select: { name: true } },
+  invitedBy: { select: { name: true, email: true } },
+} as const;
+
+type InviteRow = Prisma.LeagueInviteGetPayload<{ include: typeof INVITE_INCLUDE }>;
+
+function toInvite(invite: InviteRow): LeagueInvite {
+  return {
+    id: invite.id,
+    leagueId: invite.leagueId,
+    leagueName: invite.league.name,
+    email: invite.email,
+    role: invite.role as LeagueInvite['role'],
+    invitedByName: invite.invitedBy.name || invite.invitedBy.email,
+    expiresAt: invite.expiresAt.toISOString(),
+    createdAt: invite.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Leagues the user owns or has joined
+ */
+export function leagueMemberWhere(userId: string): Prisma.LeagueWhereInput {
+  return {
+    OR: [
+      { ownerId: userId },
+      { userLeagues: { some: { userId } } },
+    ],
+  };
+}
+
+/**
+ * The user's role in a league
+ */
+export function getLeagueRole(
+  league: { ownerId: string; userLeagues?: Array<{ userId: string; role: string }> },
+  userId: string
+): LeagueRole {
+  if (league.ownerId === userId) return 'owner';
+  const membership = league.userLeagues?.find(m => m.userId === userId);
+  return membership?.role === 'co-manager' ? 'co-manager' : 'member';
+}
+
+/**
+ * Loads a league the user owns or has joined, with their role and the
+ * Couch Managers team the commissioner assigned them (if any)
+ *
+ * @returns null when the league doesn't exist or the user isn't in it
+ */
+export async function findLeagueForUser(
+  leagueId: string,
+  userId: string
+): Promise<{ league: League; role: LeagueRole; teamName: string | null } | null> {
+  const league = await prisma.league.findFirst({
+    where: { id: leagueId, ...leagueMemberWhere(userId) },
+    include: { userLeagues: { where: { userId }, select: { userId: true, role: true, teamName: true } } },
+  });
+  if (!league) return null;
+  return {
+    league,
+    role: getLeagueRole(league, userId),
+    teamName: league.userLeagues[0]?.teamName ?? null,
+  };
+}
+
+/**
+ * The owner followed by everyone who has joined, oldest first
+ */
+export async function listLeagueMembers(leagueId: string): Promise<LeagueMember[]> {
+  const league = await prisma.league.findUnique({
+    where: { id: leagueId },
+    select: {
+      ownerId: true,
+      createdAt: true,
+      owner: { select: { id: true, name: true, email: true } },
+      userLeagues: {
+        include: { user: { select: { name: true, email: true } } },
+        orderBy: { joinedAt: 'asc' },
+      },
+    },
+  });
+  if (!league) return [];
+
+  const ownerRow = league.userLeagues.find(m => m.userId === league.ownerId);
+  const owner: LeagueMember = {
+    userId: league.owner.id,
+    name: league.owner.name || league.owner.email,
+    email: league.owner.email,
+    role: 'owner',
+    teamName: ownerRow?.teamName ?? undefined,
+    joinedAt: (ownerRow?.joinedAt ?? league.createdAt).toISOString(),
+  };
+
+  return [
+    owner,
+    ...league.userLeagues
+      .filter(m => m.userId !== league.ownerId)
+      .map(m => ({
+        userId: m.userId,
+        name: m.user.name || m.user.email,
+        email: m.user.email,
+        role: getLeagueRole({ ownerId: league.ownerId, userLeagues: [m] }, m.userId),
+        teamName: m.teamName ?? undefined,
+        joinedAt: m.joinedAt.toISOString(),
+      })),
+  ];
+}
+
+/**
+ * Pending invites for a league, newest first
+ */
+export async function listLeagueInvites(leagueId: string): Promise<LeagueInvite[]> {
+  const invites = await prisma.leagueInvite.findMany({
+    where: { leagueId, status: 'pending', expiresAt: { gt: new Date() } },
+    include: INVITE_INCLUDE,
+    orderBy: { createdAt: 'desc' },
+  });
+  return invites.map(toInvite);
+}
+
+/**
+ * Creates an invite. The token is only returned here, for the invite link.
+ *
+ * @param email - Only this account can accept; omit for a link anyone can use
+ */
+export async function createLeagueInvite(
+  leagueId: string,
+  invitedById: string,
+  role: LeagueInvite['role'],
+  email?: string
+): Promise<{ invite: LeagueInvite; token: string }> {
+  const { token, tokenHash } = generateInviteToken();
+  const expiresAt = new Date(Date.now() + INVITE_EXPIRY_DAYS * 24 * 60 * 60 * 1000);
+
+  const invite = await prisma.leagueInvite.create({
+    data: {
+      leagueId,
+      invitedById,
+      email: email ? email.toLowerCase() : null,
+      role,
+      tokenHash,
+      expiresAt,
+    },
+    include: INVITE_INCLUDE,
+  });
+
+  logger.info({ leagueId, inviteId: invite.id, role, byEmail: !!email }, 'League invite created');
+  return { invite: toInvite(invite), token };
+}
+
+/**
+ * Revokes a pending invite
+ *
+ * @returns false when there's no pending invite with that ID in the league
+ */
+export async function revokeLeagueInvite(leagueId: string, inviteId: string): Promise<boolean> {
+  const { count } = await prisma.leagueInvite.updateMany({
+    where: { id: inviteId, leagueId, status: 'pending' },
+    data: { status: 'revoked', respondedAt: new Date() },
+  });
+  return count > 0;
+}
+
+/**
+ * The pending invite for a link token the user opened, if it's theirs to
+ * answer. Without a token there's nothing to list: emails aren't verified,
+ * so invites are only reachable through their link.
+ * Invites to leagues they're already in are left out.
+ */
+export async function listInvitesForUser(
+  user: { id: string; email: string },
+  token?: string
+): Promise<LeagueInvite[]> {
+  if (!token) return [];
+
+  const invites = await prisma.leagueInvite.findMany({
+    where: {
+      status: 'pending',
+      expiresAt: { gt: new Date() },
+      tokenHash: hashInviteToken(token),
+      OR: [{ email: null }, { email: user.email.toLowerCase() }],
+      league: { NOT: leagueMemberWhere(user.id) },
+    },
+    include: INVITE_INCLUDE,
+    orderBy: { createdAt: 'desc' },
+  });
+  return invites.map(toInvite);
+}
+
+/**
+ * Accepts or declines an invite
+ *
+ * Accepting adds the user to the league with the invite's role; a user who
+ * already belongs keeps their current role.
+ *
+ * @param token - Token from the invite link, required for every invite
+ */
+export async function respondToInvite(
+  inviteId: string,
+  user: { id: string; email: string },
+  token: string | undefined,
+  accept: boolean
+): Promise<{ leagueId: string } | { error: InviteError }> {
+  const invite = await prisma.leagueInvite.findUnique({ where: { id: inviteId } });
+  if (!invite) return { error: 'INVITE_NOT_FOUND' };
+
+  const error = getInviteError(
+    { ...invite, status: invite.status as InviteStatus },
+    user,
+    token
+  );
+  if (error) return { error };
+
+  const status: InviteStatus = accept ? 'accepted' : 'declined';
+  const answered = await prisma.$transaction(async (tx) => {
+    // Conditional so two concurrent responses can't both use the invite
+    const { count } = await tx.leagueInvite.updateMany({
+      where: { id: invite.id, status: 'pending' },
+      data: { status, respondedAt: new Date() },
+    });
+    if (count !== 1) return false;
+
+    if (accept) {
+      const league = await tx.league.findUnique({ where: { id: invite.leagueId }, select: { ownerId: true } });
+      if (league && league.ownerId !== user.id) {
+        await tx.userLeague.upsert({
+          where: { userId_leagueId: { userId: user.id, leagueId: invite.leagueId } },
+          create: { userId: user.id, leagueId: invite.leagueId, role: invite.role },
+          update: {},
+        });
+      }
+    }
+    return true;
+  });
+  if (!answered) return { error: 'INVITE_NOT_PENDING' };
+
+  logger.info({ leagueId: invite.leagueId, inviteId, userId: user.id, status }, 'League invite answered');
+  return { leagueId: invite.leagueId };
+}
+
+/**
+ * Changes a member's role (never the owner's)
+ *
+ * @returns false when the user isn't a member of the league
+ */
+export async function updateLeagueMemberRole(
+  leagueId: string,
+  userId: string,
+  role: LeagueInvite['role']
+): Promise<boolean> {
+  const { count } = await prisma.userLeague.updateMany({
+    where: { leagueId, userId, league: { ownerId: { not: userId } } },
+    data: { role },
+  });
+  return count > 0;
+}
+
+/**
+ * Assigns a member (or the owner) the team they run in the auction room,
+ * so their draft room opens on their own roster and budget
+ *
+ * @param teamName - A Couch Managers team name, or null to unassign
+ * @returns false when the user isn't in the league
+ */
+export async function setLeagueMemberTeam(
+  league: { id: string; ownerId: string },
+  userId: string,
+  teamName: string | null
+): Promise<boolean> {
+  if (userId === league.ownerId) {
+    // Leagues created before sharing may not have the owner's row
+    await prisma.userLeague.upsert({
+      where: { userId_leagueId: { userId, leagueId: league.id } },
+      create: { userId, leagueId: league.id, role: 'owner', teamName },
+      update: { teamName },
+    });
+    return true;
+  }
+
+  const { count } = await prisma.userLeague.updateMany({
+    where: { leagueId: league.id, userId },
+    data: { teamName },
+  });
+  return count > 0;
+}
+
+/**
+ * Removes a member from a league (never the owner)
+ *
+ * @returns false when the user isn't a member of the league
+ */
+export async function removeLeagueMember(leagueId: string, userId: string): Promise<boolean> {
+  const { count } = await prisma.userLeague.deleteMany({
+    where: { leagueId, userId, league: { ownerId: { not: userId } } },
+  });
+  return count > 0;
+}
@@ -0,0 +1,171 @@
+/**
+ * Live Auction Service
+ * Push-based room updates for the draft room.
+ *
+ * Runs exactly one scrape loop per room with at least one subscriber, no
+ * matter how many clients are watching. Each loop goes through
+ * getAuctionDataWithCache, so the Redis scrape lock still deduplicates work
+ * across server instances, and a fresh enough cache entry written by another
+ * instance is reused instead of scraping again.
+ *
+ * Subscribers only receive a diff when something actually changed
+ * (new picks, bids, nominations, team budgets), not the full auction state.
+ */
+
+import { getAuctionDataWithCache } from './auctionScrapeService.js';
+import { getAuctionCacheStatus } from './auctionCacheService.js';
+import { diffAuctionData, hasAuctionChanges } from './auctionDiff.js';
+import { env } from '../config/env.js';
+import { logger } from './logger.js';
+import type { ScrapedAuctionData, AuctionRoomDiff } from '../types/auction.js';
+
+// How often each watched room is re-scraped (default: 20 seconds)
+const LIVE_POLL_INTERVAL_SECONDS = env.LIVE_AUCTION_POLL_SECONDS;
+// Each watched room runs its own scrape loop, so the number of rooms is capped
+const MAX_LIVE_ROOMS = env.LIVE_AUCTION_MAX_ROOMS;
+
+// `closed` is the last event a subscriber gets: the room's loop has stopped
+// (e.g. the room doesn't exist) and the subscription is dropped
+export type LiveAuctionEvent =
+  | { type: 'diff'; diff: AuctionRoomDiff }
+  | { type: 'error'; message: string }
+  | { type: 'closed'; message: string };
+
+export type LiveAuctionListener = (event: LiveAuctionEvent) => void;
+
+interface LiveRoom {
+  listeners: Set<LiveAuctionListener>;
+  lastData: ScrapedAuctionData | null;
+  timer: ReturnType<typeof setTimeout> | null;
+  stopped: boolean;
+}
+
+// Active rooms keyed by Couch Managers room ID
+const liveRooms = new Map<string, LiveRoom>();
+
+/**
+ * Sends an event to every subscriber of a room.
+ * A failing listener (e.g. a closed socket) must not affect the others.
+ */
+function broadcast(roomId: string, room: LiveRoom, event: LiveAuctionEvent): void {
+  for (const listener of room.listeners) {
+    try {
+      listener(event);
+    } catch (error) {
+      logger.warn({ error, roomId }, 'Live auction listener failed');
+    }
+  }
+}
+
+/**
+ * One iteration of a room's scrape loop. Schedules the next iteration
+ * when done, unless the room was stopped in the meantime.
+ */
+async function pollRoom(roomId: string, room: LiveRoom): Promise<void> {
+  try {
+    // Only force a scrape when the shared cache is older than the poll interval.
+    // Another instance (or an HTTP sync) may have just refreshed it.
+    const cacheStatus = await getAuctionCacheStatus(roomId);
+    const forceRefresh = cacheStatus.ageSeconds === null || cacheStatus.ageSeconds >= LIVE_POLL_INTERVAL_SECONDS;
+
+    const data = await getAuctionDataWithCache(roomId, forceRefresh);
+    if (room.stopped) return;
+
+    if (data.status === 'not_found') {
+      // Nothing to watch - stop instead of re-scraping a missing room forever
+      broadcast(roomId, room, { type: 'closed', message: `Auction room ${roomId} not found` });
+      room.listeners.clear();
+      stopRoom(roomId, room);
+    } else {
+      // The first scrape only establishes a baseline - clients run their own
+      // full sync when they connect.
+      if (room.lastData) {
+        const diff = diffAuctionData(room.lastData, data);
+        if (hasAuctionChanges(diff, room.lastData)) {
+          broadcast(roomId, room, { type: 'diff', diff });
+        }
+      }
+      room.lastData = data;
+    }
+  } catch (error) {
+    logger.warn({ error, roomId }, 'Live auction poll failed');
+    if (!room.stopped) {
+      broadcast(roomId, room, { type: 'error', message: 'Failed to fetch auction data' });
+    }
+  } finally {
+    if (!room.stopped) {
+      room.timer = setTimeout(() => {
+        void pollRoom(roomId, room);
+      }, LIVE_POLL_INTERVAL_SECONDS * 1000);
+    }
+  }
+}
+
+/**
+ * Stops a room's scrape loop and forgets its state.
+ */
+function stopRoom(roomId: string, room: LiveRoom): void {
+  room.stopped = true;
+  if (room.timer) {
+    clearTimeout(room.timer);
+    room.timer = null;
+  }
+  liveRooms.delete(roomId);
+  logger.info({ roomId }, 'Live auction room stopped');
+}
+
+/**
+ * Subscribe to live changes for a room.
+ * Starts the room's scrape loop if this is the first subscriber.
+ *
+ * @param roomId - Couch Managers room ID
+ * @param listener - Called with every diff or error for the room
+ * @returns Unsubscribe function; the loop stops when the last subscriber leaves.
+ *   null when the room isn't watched yet and MAX_LIVE_ROOMS are already running.
+ */
+export function subscribeToRoom(roomId: string, listener: LiveAuctionListener): (() => void) | null {
+  let room = liveRooms.get(roomId);
+
+  if (!room) {
+    if (liveRooms.size >= MAX_LIVE_ROOMS) {
+      logger.warn({ roomId, roomCount: liveRooms.size }, 'Live auction room limit reached');
+      return null;
+    }
+    room = { listeners: new Set(), lastData: null, timer: null, stopped: false };
+    liveRooms.set(roomId, room);
+    logger.info({ roomId, intervalSeconds: LIVE_POLL_INTERVAL_SECONDS }, 'Live auction room started');
+    void pollRoom(roomId, room);
+  }
+
+  const activeRoom = room;
+  activeRoom.listeners.add(listener);
+
+  return () => {
+    activeRoom.listeners.delete(listener);
+    if (activeRoom.listeners.size === 0 && !activeRoom.stopped) {
+      stopRoom(roomId, activeRoom);
+    }
+  };
+}
+
+/**
+ * Returns the number of watched rooms and connected subscribers.
+ */
+export function getLiveAuctionStats(): { roomCount: number; subscriberCount: number } {
+  let subscriberCount = 0;
+  for (const room of liveRooms.values()) {
+    subscriberCount += room.listeners.size;
+  }
+  return { roomCount: liveRooms.size, subscriberCount };
+}
+
+/**
+ * Stops every scrape loop. Called during graceful shutdown.
+ */
+export function stopAllLiveRooms(): void {
+  for (const [roomId, room] of liveRooms) {
+    room.listeners.clear();
+    stopRoom(roomId, room);
+  }
+}
+
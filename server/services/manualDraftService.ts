@@ -0,0 +1,75 @@
+/**
+ * Manual Draft Service
+ *
+ * Builds Couch Managers-shaped auction state from picks entered by hand
+ * (in-person auctions with no room to sync), so manual drafts get the same
+ * team budget constraints and positional scarcity as synced rooms:
+ * 1. buildManualTeams (shared with the draft room) - budgets/roster counts per fantasy team
+ * 2. calculateManualInflation - runs calculateInflationStats on the pool
+ */
+
+import { calculateInflationStats } from './inflationCalculator.js';
+import { buildManualTeams } from '../../src/lib/manualDraft.js';
+import type { EnhancedInflationStats, MatchedPlayer } from '../types/auction.js';
+
+/**
+ * Player in the manual draft pool, as sent by the draft room.
+ * Drafted players carry the winning team and price.
+ */
+export interface ManualDraftPlayer {
+  id: string;
+  name: string;
+  team: string;
+  positions: string[];
+  projectedValue: number;
+  draftedBy?: string;
+  draftedPrice?: number;
+}
+
+interface ManualLeagueConfig {
+  numTeams: number;
+  budgetPerTeam: number;
+  totalRosterSpots: number;
+  rosterSpots?: Record<string, number>;
+}
+
+/**
+ * Calculates inflation for a manual draft with real team constraints.
+ *
+ * @param players - Drafted players and the undrafted ones with value left
+ * @param teamNames - Fantasy teams in the league
+ * @param leagueConfig - League budget and roster configuration
+ */
+export function calculateManualInflation(
+  players: ManualDraftPlayer[],
+  teamNames: string[],
+  leagueConfig: ManualLeagueConfig
+): EnhancedInflationStats {
+  const matched: MatchedPlayer[] = players.map((player, index) => {
+    const isDrafted = player.draftedBy !== undefined;
+    const price = isDrafted ? player.draftedPrice ?? 0 : null;
+    return {
+      scrapedPlayer: {
+        couchManagersId: index,
+        firstName: '',
+        lastName: '',
+        fullName: player.name,
+        normalizedName: player.name.toLowerCase(),
+        positions: player.positions,
+        mlbTeam: player.team,
+        status: isDrafted ? 'drafted' : 'available',
+        winningBid: price ?? undefined,
+        winningTeam: player.draftedBy,
+      },
+      projectionPlayerId: player.id,
+      projectedValue: player.projectedValue,
+      actualBid: price,
+      inflationAmount: null,
+      inflationPercent: null,
+      matchConfidence: 'exact',
+    };
+  });
+
+  const teams = buildManualTeams(teamNames, players, leagueConfig.budgetPerTeam);
+  return calculateInflationStats(matched, leagueConfig, teams);
+}
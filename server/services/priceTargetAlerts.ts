@@ -0,0 +1,67 @@
+/**
+ * Price Target Alerts
+ * Finds targeted players that were just nominated below the user's price.
+ *
+ * Targets come from a league's saved draft state: players marked as targets
+ * with a "max I'll pay" (or failing that, a pinned value). Auctions are matched
+ * to targets by normalized name since Couch Managers IDs aren't projection IDs.
+ */
+
+import { normalizeName } from './playerMatcher.js';
+import type { CurrentAuction } from '../types/auction.js';
+
+export interface SavedDraftPlayer {
+  id: string;
+  name: string;
+  isTargeted?: boolean;
+  valueOverride?: number;
+  maxPrice?: number;
+}
+
+export interface PriceTarget {
+  playerName: string;
+  price: number;
+}
+
+export interface PriceTargetAlert {
+  auction: CurrentAuction;
+  target: PriceTarget;
+}
+
+/**
+ * Targets with a price from saved draft players. A max price wins over a pinned value.
+ */
+export function getPriceTargets(players: SavedDraftPlayer[]): PriceTarget[] {
+  return players.flatMap(p => {
+    const price = p.maxPrice ?? p.valueOverride;
+    return p.isTargeted && price !== undefined ? [{ playerName: p.name, price }] : [];
+  });
+}
+
+/**
+ * Auctions that started since the last sync for a target, with the bid below its price
+ *
+ * @param auctions - Auctions currently on the block
+ * @param previousPlayerIds - Couch Managers player IDs on the block at the last sync
+ * @param targets - The user's price targets
+ */
+export function findPriceTargetAlerts(
+  auctions: CurrentAuction[],
+  previousPlayerIds: Set<number>,
+  targets: PriceTarget[]
+): PriceTargetAlert[] {
+  if (targets.length === 0) return [];
+
+  const targetsByName = new Map(targets.map(t => [normalizeName(t.playerName), t]));
+  const alerts: PriceTargetAlert[] = [];
+
+  for (const auction of auctions) {
+    if (previousPlayerIds.has(auction.playerId)) continue;
+    const target = targetsByName.get(normalizeName(auction.playerName));
+    if (target && auction.currentBid < target.price) {
+      alerts.push({ auction, target });
+    }
+  }
+
+  return alerts;
+}
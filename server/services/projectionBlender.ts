@@ -0,0 +1,229 @@
+/**
+ * Projection Blender
+ * Combines several projection systems into one weighted-average projection set
+ *
+ * Blending rules:
+ * - Players are joined across systems by MLBAM ID, then FanGraphs ID, then
+ *   normalized name (JA pitchers only carry a Savant ID)
+ * - Weights are renormalized over the systems that project each player, so a
+ *   player missing from one system isn't dragged toward zero
+ * - Counting stats are weighted averages
+ * - Rate stats are recomputed from the averaged components (e.g. ERA from
+ *   averaged earned runs and innings) rather than averaging the rates
+ * - Name, team and positions come from the highest-weighted system
+ */
+
+import type {
+  BlendableProjectionSystem,
+  HittingStats,
+  NormalizedProjection,
+  PitchingStats,
+  ProjectionBlendWeights,
+} from '../types/projections.js';
+import { normalizeName } from './playerMatcher.js';
+import { logger } from './logger.js';
+
+export const BLENDABLE_PROJECTION_SYSTEMS: BlendableProjectionSystem[] = ['steamer', 'batx', 'ja', 'oopsy'];
+
+export interface WeightedProjectionSource {
+  system: BlendableProjectionSystem;
+  weight: number;
+  projections: NormalizedProjection[];
+}
+
+interface WeightedProjection {
+  system: BlendableProjectionSystem;
+  projection: NormalizedProjection;
+  weight: number;
+}
+
+/**
+ * Systems with a positive weight, highest weight first
+ */
+export function getActiveBlendSystems(weights: ProjectionBlendWeights): BlendableProjectionSystem[] {
+  return BLENDABLE_PROJECTION_SYSTEMS
+    .filter(system => (weights[system] ?? 0) > 0)
+    .sort((a, b) => (weights[b] ?? 0) - (weights[a] ?? 0));
+}
+
+/**
+ * Weighted average of a stat across the systems projecting a player
+ */
+function average(entries: WeightedProjection[], stat: (p: NormalizedProjection) => number): number {
+  const totalWeight = entries.reduce((sum, e) => sum + e.weight, 0);
+  if (totalWeight === 0) return 0;
+  return entries.reduce((sum, e) => sum + stat(e.projection) * e.weight, 0) / totalWeight;
+}
+
+/**
+ * Rate stat recomputed from averaged components: sum(rate x denominator) / sum(denominator).
+ * Falls back to a plain weighted average when no system has the denominator.
+ */
+function averageRate(
+  entries: WeightedProjection[],
+  rate: (p: NormalizedProjection) => number,
+  denominator: (p: NormalizedProjection) => number
+): number {
+  const averagedDenominator = average(entries, denominator);
+  if (averagedDenominator <= 0) return average(entries, rate);
+  return average(entries, p => rate(p) * denominator(p)) / averagedDenominator;
+}
+
+function blendHitting(entries: WeightedProjection[]): HittingStats {
+  const withStats = entries.filter(e => e.projection.hitting);
+  const stat = (key: keyof HittingStats) => average(withStats, p => p.hitting?.[key] ?? 0);
+  const perPA = (key: keyof HittingStats) =>
+    averageRate(withStats, p => p.hitting?.[key] ?? 0, p => p.hitting?.plateAppearances ?? 0);
+
+  const atBats = stat('atBats');
+  const hits = stat('hits');
+  const onBasePct = perPA('onBasePct');
+  const sluggingPct = averageRate(withStats, p => p.hitting?.sluggingPct ?? 0, p => p.hitting?.atBats ?? 0);
+
+  return {
+    games: Math.round(stat('games')),
+    atBats: Math.round(atBats),
+    plateAppearances: Math.round(stat('plateAppearances')),
+    runs: Math.round(stat('runs')),
+    hits: Math.round(hits),
+    singles: Math.round(stat('singles')),
+    doubles: Math.round(stat('doubles')),
+    triples: Math.round(stat('triples')),
+    homeRuns: Math.round(stat('homeRuns')),
+    rbi: Math.round(stat('rbi')),
+    stolenBases: Math.round(stat('stolenBases')),
+    caughtStealing: Math.round(stat('caughtStealing')),
+    walks: Math.round(stat('walks')),
+    strikeouts: Math.round(stat('strikeouts')),
+    battingAvg: atBats > 0 ? hits / atBats : stat('battingAvg'),
+    onBasePct,
+    sluggingPct,
+    ops: onBasePct + sluggingPct,
+    wOBA: perPA('wOBA'),
+    wrcPlus: perPA('wrcPlus'),
+    war: stat('war'),
+  };
+}
+
+function blendPitching(entries: WeightedProjection[]): PitchingStats {
+  const withStats = entries.filter(e => e.projection.pitching);
+  const stat = (key: keyof PitchingStats) => average(withStats, p => p.pitching?.[key] ?? 0);
+  const perIP = (key: keyof PitchingStats) =>
+    averageRate(withStats, p => p.pitching?.[key] ?? 0, p => p.pitching?.inningsPitched ?? 0);
+  const perBF = (key: keyof PitchingStats) =>
+    averageRate(withStats, p => p.pitching?.[key] ?? 0, p => p.pitching?.battersFaced ?? 0);
+
+  const inningsPitched = stat('inningsPitched');
+  const strikeouts = stat('strikeouts');
+  const walks = stat('walks');
+
+  return {
+    games: Math.round(stat('games')),
+    gamesStarted: Math.round(stat('gamesStarted')),
+    inningsPitched,
+    wins: Math.round(stat('wins')),
+    losses: Math.round(stat('losses')),
+    saves: Math.round(stat('saves')),
+    holds: Math.round(stat('holds')),
+    hitsAllowed: Math.round(stat('hitsAllowed')),
+    earnedRuns: Math.round(stat('earnedRuns')),
+    homeRunsAllowed: Math.round(stat('homeRunsAllowed')),
+    walks: Math.round(walks),
+    strikeouts: Math.round(strikeouts),
+    era: perIP('era'),
+    whip: perIP('whip'),
+    k9: inningsPitched > 0 ? (strikeouts / inningsPitched) * 9 : stat('k9'),
+    bb9: inningsPitched > 0 ? (walks / inningsPitched) * 9 : stat('bb9'),
+    fip: perIP('fip'),
+    war: stat('war'),
+    kPercent: perBF('kPercent'),
+    bbPercent: perBF('bbPercent'),
+    battersFaced: Math.round(stat('battersFaced')),
+    qualityStarts: Math.round(stat('qualityStarts')),
+  };
+}
+
+/**
+ * Blends projection sets into one weighted-average set (see rules above)
+ */
+export function blendProjections(sources: WeightedProjectionSource[]): NormalizedProjection[] {
+  const active = sources
+    .filter(s => s.weight > 0)
+    .sort((a, b) => b.weight - a.weight);
+
+  const groups: WeightedProjection[][] = [];
+  const byMlbamId = new Map<string, WeightedProjection[]>();
+  const byExternalId = new Map<string, WeightedProjection[]>();
+  const byName = new Map<string, WeightedProjection[]>();
+
+  for (const source of active) {
+    for (const projection of source.projections) {
+      const type = projection.playerType;
+      const mlbamKey = projection.mlbamId > 0 ? `${type}:${projection.mlbamId}` : null;
+      const externalKey = `${type}:${projection.externalId}`;
+      const nameKey = `${type}:${normalizeName(projection.name)}`;
+
+      // Fall back to the name only for players without an MLBAM ID
+      let group = (mlbamKey && byMlbamId.get(mlbamKey)) || byExternalId.get(externalKey)
+        || (!mlbamKey ? byName.get(nameKey) : undefined);
+      // Never merge two players from the same system (e.g. namesakes)
+      if (!group || group.some(e => e.system === source.system)) {
+        group = [];
+        groups.push(group);
+      }
+      group.push({ system: source.system, projection, weight: source.weight });
+
+      if (mlbamKey && !byMlbamId.has(mlbamKey)) byMlbamId.set(mlbamKey, group);
+      if (!byExternalId.has(externalKey)) byExternalId.set(externalKey, group);
+      if (!byName.has(nameKey)) byName.set(nameKey, group);
+    }
+  }
+
+  return groups.map(entries => {
+    // Highest-weighted system comes first (sources were sorted by weight)
+    const primary = entries[0].projection;
+    const mlbamId = entries.find(e => e.projection.mlbamId > 0)?.projection.mlbamId ?? 0;
+
+    return {
+      externalId: primary.externalId,
+      mlbamId,
+      name: primary.name,
+      team: primary.team,
+      positions: primary.positions,
+      playerType: primary.playerType,
+      hitting: primary.playerType === 'hitter' ? blendHitting(entries) : undefined,
+      pitching: primary.playerType === 'pitcher' ? blendPitching(entries) : undefined,
+    };
+  });
+}
+
+/**
+ * Loads each weighted system and blends them
+ *
+ * @param weights - Relative weight per system (zero/missing = excluded)
+ * @param loadSystem - Loads one system's projections (from cache or fresh)
+ */
+export async function loadBlendedProjections(
+  weights: ProjectionBlendWeights,
+  loadSystem: (system: BlendableProjectionSystem) => Promise<NormalizedProjection[]>
+): Promise<NormalizedProjection[]> {
+  const systems = getActiveBlendSystems(weights);
+  if (systems.length === 0) {
+    throw new Error('Projection blend needs at least one system with a positive weight');
+  }
+
+  const sources = await Promise.all(
+    systems.map(async system => ({
+      system,
+      weight: weights[system] ?? 0,
+      projections: await loadSystem(system),
+    }))
+  );
+
+  const blended = blendProjections(sources);
+  logger.info(
+    { weights, systems: sources.map(s => ({ system: s.system, count: s.projections.length })), blendedCount: blended.length },
+    'Blended projections'
+  );
+  return blended;
+}
@@ -0,0 +1,114 @@
+/**
+ * Projection Override Store
+ *
+ * Persists a league's per-player stat edits on LeaguePlayer.statOverrides
+ * (see projectionOverrides for how they're applied). Player rows are found
+ * by projection external ID, then MLBAM ID, and created when missing.
+ */
+
+import { Prisma } from '@prisma/client';
+import { prisma } from '../db.js';
+import { logger } from './logger.js';
+import { leagueMemberWhere } from './leagueMembershipStore.js';
+import type { StoredStatOverride } from './projectionOverrides.js';
+import type { ProjectionStatOverrides } from '../types/projections.js';
+
+export interface OverriddenPlayer {
+  externalId: string;
+  mlbamId?: number;
+  name: string;
+  team?: string;
+  positions: string[];
+  playerType: 'hitter' | 'pitcher';
+}
+
+/**
+ * All stat overrides for a league
+ */
+export async function getLeagueStatOverrides(leagueId: string): Promise<StoredStatOverride[]> {
+  const rows = await prisma.leaguePlayer.findMany({
+    where: { leagueId, statOverrides: { not: Prisma.DbNull } },
+    select: {
+      statOverrides: true,
+      player: { select: { externalId: true, mlbamId: true } },
+    },
+  });
+
+  return rows
+    .filter(row => row.player.externalId)
+    .map(row => ({
+      externalId: row.player.externalId as string,
+      mlbamId: row.player.mlbamId,
+      overrides: row.statOverrides as ProjectionStatOverrides,
+    }));
+}
+
+/**
+ * Stat overrides for a league the user owns or has joined, or null when they
+ * aren't in it. Used by the value endpoints that take an optional league ID.
+ */
+export async function getMemberLeagueStatOverrides(
+  leagueId: string,
+  userId: string
+): Promise<StoredStatOverride[] | null> {
+  const league = await prisma.league.findFirst({
+    where: { id: leagueId, ...leagueMemberWhere(userId) },
+    select: { id: true },
+  });
+  return league ? getLeagueStatOverrides(league.id) : null;
+}
+
+async function findOrCreatePlayerId(player: OverriddenPlayer): Promise<string> {
+  const byExternalId = await prisma.player.findUnique({
+    where: { externalId: player.externalId },
+    select: { id: true },
+  });
+  if (byExternalId) return byExternalId.id;
+
+  // Fall back to MLBAM ID for players stored under a different external ID
+  if (player.mlbamId && player.mlbamId > 0) {
+    const byMlbamId = await prisma.player.findUnique({
+      where: { mlbamId: player.mlbamId },
+      select: { id: true },
+    });
+    if (byMlbamId) return byMlbamId.id;
+  }
+
+  const created = await prisma.player.create({
+    data: {
+      externalId: player.externalId,
+      mlbamId: player.mlbamId && player.mlbamId > 0 ? player.mlbamId : null,
+      name: player.name,
+      team: player.team || null,
+      positions: player.positions,
+      playerType: player.playerType,
+    },
+    select: { id: true },
+  });
+  return created.id;
+}
+
+/**
+ * Saves (or with null, reverts) a player's stat overrides in a league
+ */
+export async function setPlayerStatOverrides(
+  leagueId: string,
+  player: OverriddenPlayer,
+  overrides: ProjectionStatOverrides | null
+): Promise<void> {
+  const playerId = await findOrCreatePlayerId(player);
+  const statOverrides = overrides
+    ? (overrides as Prisma.InputJsonValue)
+    : Prisma.DbNull;
+
+  await prisma.leaguePlayer.upsert({
+    where: { leagueId_playerId: { leagueId, playerId } },
+    create: { leagueId, playerId, statOverrides },
+    update: { statOverrides },
+  });
+
+  logger.info(
+    { leagueId, externalId: player.externalId, reverted: overrides === null },
+    'Saved player stat overrides'
+  );
+}
@@ -0,0 +1,125 @@
+/**
+ * Projection Overrides
+ * Applies a league's per-player stat edits (e.g. a closer's saves set to 30)
+ * to the loaded projections before auction values are calculated.
+ *
+ * Overrides are matched by projection external ID, then MLBAM ID, so a
+ * two-way player's hitting and pitching edits both land. Stats derived from
+ * an overridden stat (AVG from hits, ERA from innings, ...) are recalculated
+ * unless they were overridden too.
+ */
+
+import type {
+  HittingStats,
+  NormalizedProjection,
+  PitchingStats,
+  ProjectionStatOverrides,
+} from '../types/projections.js';
+import { normalizeHittingStats, normalizePitchingStats } from './customProjectionNormalizer.js';
+
+export interface StoredStatOverride {
+  externalId: string;
+  mlbamId: number | null;
+  overrides: ProjectionStatOverrides;
+}
+
+// Stats a league can override
+export const HITTING_STAT_KEYS = [
+  'games', 'atBats', 'plateAppearances', 'runs', 'hits', 'singles', 'doubles', 'triples',
+  'homeRuns', 'rbi', 'stolenBases', 'caughtStealing', 'walks', 'strikeouts',
+  'battingAvg', 'onBasePct', 'sluggingPct', 'ops', 'wOBA', 'wrcPlus', 'war',
+] as const satisfies ReadonlyArray<keyof HittingStats>;
+
+export const PITCHING_STAT_KEYS = [
+  'games', 'gamesStarted', 'inningsPitched', 'wins', 'losses', 'saves', 'holds',
+  'hitsAllowed', 'earnedRuns', 'homeRunsAllowed', 'walks', 'strikeouts', 'era', 'whip',
+  'k9', 'bb9', 'fip', 'war', 'kPercent', 'bbPercent', 'battersFaced', 'qualityStarts',
+] as const satisfies ReadonlyArray<keyof PitchingStats>;
+
+// Stats recalculated when the key stat is overridden
+const HITTING_DEPENDENTS: Partial<Record<keyof HittingStats, Array<keyof HittingStats>>> = {
+  hits: ['battingAvg', 'singles', 'onBasePct', 'sluggingPct', 'ops'],
+  atBats: ['battingAvg', 'sluggingPct', 'ops'],
+  plateAppearances: ['onBasePct', 'ops'],
+  walks: ['onBasePct', 'ops'],
+  singles: ['sluggingPct', 'ops'],
+  doubles: ['singles', 'sluggingPct', 'ops'],
+  triples: ['singles', 'sluggingPct', 'ops'],
+  homeRuns: ['singles', 'sluggingPct', 'ops'],
+  battingAvg: ['hits', 'singles', 'onBasePct', 'sluggingPct', 'ops'],
+  onBasePct: ['ops'],
+  sluggingPct: ['ops'],
+};
+
+const PITCHING_DEPENDENTS: Partial<Record<keyof PitchingStats, Array<keyof PitchingStats>>> = {
+  inningsPitched: ['era', 'whip', 'k9', 'bb9', 'battersFaced', 'kPercent', 'bbPercent'],
+  earnedRuns: ['era'],
+  era: ['earnedRuns'],
+  hitsAllowed: ['whip', 'battersFaced', 'kPercent', 'bbPercent'],
+  walks: ['whip', 'bb9', 'battersFaced', 'kPercent', 'bbPercent'],
+  strikeouts: ['k9', 'kPercent'],
+  k9: ['strikeouts', 'kPercent'],
+  bb9: ['walks', 'whip', 'bbPercent'],
+  battersFaced: ['kPercent', 'bbPercent'],
+};
+
+/**
+ * Merges overrides into a stat line, dropping stale derived stats so they're recalculated
+ */
+function mergeStats<T extends object>(
+  stats: T,
+  overrides: Partial<T>,
+  dependents: Partial<Record<keyof T, Array<keyof T>>>
+): Partial<T> {
+  const merged: Partial<T> = { ...stats, ...overrides };
+  for (const key of Object.keys(overrides) as Array<keyof T>) {
+    for (const dependent of dependents[key] ?? []) {
+      if (!(dependent in overrides)) delete merged[dependent];
+    }
+  }
+  return merged;
+}
+
+function hasEntries(stats: object | undefined): stats is object {
+  return !!stats && Object.keys(stats).length > 0;
+}
+
+/**
+ * Applies stored overrides to projections. Overridden entries carry the applied
+ * overrides in statOverrides so the UI can flag and revert them.
+ */
+export function applyStatOverrides(
+  projections: NormalizedProjection[],
+  stored: StoredStatOverride[]
+): NormalizedProjection[] {
+  if (stored.length === 0) return projections;
+
+  const byExternalId = new Map(stored.map(s => [s.externalId, s.overrides]));
+  const byMlbamId = new Map(
+    stored.filter(s => s.mlbamId && s.mlbamId > 0).map(s => [s.mlbamId as number, s.overrides])
+  );
+
+  return projections.map(projection => {
+    const overrides = byExternalId.get(projection.externalId)
+      ?? (projection.mlbamId > 0 ? byMlbamId.get(projection.mlbamId) : undefined);
+    if (!overrides) return projection;
+
+    if (projection.playerType === 'hitter' && projection.hitting && hasEntries(overrides.hitting)) {
+      return {
+        ...projection,
+        hitting: normalizeHittingStats(mergeStats(projection.hitting, overrides.hitting, HITTING_DEPENDENTS)),
+        statOverrides: { hitting: overrides.hitting },
+      };
+    }
+
+    if (projection.playerType === 'pitcher' && projection.pitching && hasEntries(overrides.pitching)) {
+      return {
+        ...projection,
+        pitching: normalizePitchingStats(mergeStats(projection.pitching, overrides.pitching, PITCHING_DEPENDENTS)),
+        statOverrides: { pitching: overrides.pitching },
+      };
+    }
+
+    return projection;
+  });
+}
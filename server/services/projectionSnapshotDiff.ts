@@ -0,0 +1,89 @@
+/**
+ * Projection Snapshot Diff
+ * Compares auction values between two snapshots of a projection system
+ * (see projectionSnapshotStore) to surface the preseason's risers and fallers.
+ *
+ * Both snapshots are valued with the same league settings first, so a change
+ * reflects the projections moving rather than the league.
+ */
+
+import { createHash } from 'crypto';
+import type {
+  NormalizedProjection,
+  SnapshotPlayerValue,
+  SnapshotValueChange,
+} from '../types/projections.js';
+
+export const DEFAULT_DIFF_LIMIT = 25;
+
+/**
+ * Stable hash of a projection set, used to skip storing unchanged refreshes
+ * Players are sorted by ID so source ordering doesn't change the hash.
+ */
+export function hashProjections(projections: NormalizedProjection[]): string {
+  const sorted = [...projections].sort((a, b) => a.externalId.localeCompare(b.externalId));
+  return createHash('sha256').update(JSON.stringify(sorted)).digest('hex');
+}
+
+function toChange(
+  player: SnapshotPlayerValue,
+  fromValue: number | null,
+  toValue: number | null
+): SnapshotValueChange {
+  return {
+    externalId: player.externalId,
+    name: player.name,
+    team: player.team,
+    positions: player.positions,
+    playerType: player.playerType,
+    fromValue,
+    toValue,
+    change: (toValue ?? 0) - (fromValue ?? 0),
+  };
+}
+
+/**
+ * Biggest value movers between two valued snapshots
+ *
+ * Players are matched by external ID and type (two-way players appear once
+ * per type). Players without value in either snapshot are ignored, and each
+ * list is capped at `limit`.
+ */
+export function diffPlayerValues(
+  from: SnapshotPlayerValue[],
+  to: SnapshotPlayerValue[],
+  limit = DEFAULT_DIFF_LIMIT
+): {
+  risers: SnapshotValueChange[];
+  fallers: SnapshotValueChange[];
+  added: SnapshotValueChange[];
+  removed: SnapshotValueChange[];
+} {
+  const key = (p: SnapshotPlayerValue) => `${p.externalId}:${p.playerType}`;
+  const fromByKey = new Map(from.map(p => [key(p), p]));
+  const toKeys = new Set(to.map(key));
+
+  const moved: SnapshotValueChange[] = [];
+  const added: SnapshotValueChange[] = [];
+  for (const player of to) {
+    const previous = fromByKey.get(key(player));
+    if (!previous) {
+      if (player.auctionValue > 0) added.push(toChange(player, null, player.auctionValue));
+      continue;
+    }
+    if (player.auctionValue !== previous.auctionValue) {
+      moved.push(toChange(player, previous.auctionValue, player.auctionValue));
+    }
+  }
+
+  const removed = from
+    .filter(p => !toKeys.has(key(p)) && p.auctionValue > 0)
+    .map(p => toChange(p, p.auctionValue, null));
+
+  return {
+    risers: moved.filter(c => c.change > 0).sort((a, b) => b.change - a.change).slice(0, limit),
+    fallers: moved.filter(c => c.change < 0).sort((a, b) => a.change - b.change).slice(0, limit),
+    added: added.sort((a, b) => b.change - a.change).slice(0, limit),
+    removed: removed.sort((a, b) => a.change - b.change).slice(0, limit),
+  };
+}
@@ -0,0 +1,199 @@
+/**
+ * Projection Snapshot Store
+ *
+ * The projections cache only holds the latest fetch per system, so each fresh
+ * fetch is also stored here as a dated snapshot. Snapshots back the diff
+ * endpoint (risers/fallers between two dates) and a player's value history.
+ * Refreshes that return identical projections are not stored again.
+ */
+
+import { createHash } from 'crypto';
+import type { Prisma } from '@prisma/client';
+import { prisma } from '../db.js';
+import { logger } from './logger.js';
+import { calculateAuctionValues } from './valueCalculator.js';
+import { diffPlayerValues, hashProjections } from './projectionSnapshotDiff.js';
+import type { LeagueSettings } from '../../src/lib/types.js';
+import type {
+  NormalizedProjection,
+  PlayerValueHistoryPoint,
+  ProjectionSnapshotDiff,
+  ProjectionSnapshotSummary,
+  SnapshotPlayerValue,
+} from '../types/projections.js';
+
+const CURRENT_YEAR = new Date().getFullYear();
+
+// Snapshots included in a player's value history (most recent first)
+const MAX_HISTORY_SNAPSHOTS = 20;
+
+// Valued snapshots kept in memory (least recently used evicted first), keyed by
+// snapshot + league settings. Enough for several leagues' full value histories.
+const MAX_VALUED_SNAPSHOTS = 200;
+const valuedSnapshots = new Map<string, SnapshotPlayerValue[]>();
+
+const SUMMARY_SELECT = {
+  id: true,
+  projectionSystem: true,
+  season: true,
+  playerCount: true,
+  fetchedAt: true,
+} as const;
+
+function toSummary(snapshot: {
+  id: string;
+  projectionSystem: string;
+  season: number;
+  playerCount: number;
+  fetchedAt: Date;
+}): ProjectionSnapshotSummary {
+  return { ...snapshot, fetchedAt: snapshot.fetchedAt.toISOString() };
+}
+
+/**
+ * Stores a fetched projection set unless it matches the latest snapshot
+ */
+export async function recordProjectionSnapshot(
+  system: string,
+  projections: NormalizedProjection[]
+): Promise<void> {
+  const contentHash = hashProjections(projections);
+
+  const latest = await prisma.projectionSnapshot.findFirst({
+    where: { projectionSystem: system, season: CURRENT_YEAR },
+    orderBy: { fetchedAt: 'desc' },
+    select: { contentHash: true },
+  });
+  if (latest?.contentHash === contentHash) {
+    logger.debug({ system }, 'Projections unchanged, skipping snapshot');
+    return;
+  }
+
+  await prisma.projectionSnapshot.create({
+    data: {
+      projectionSystem: system,
+      season: CURRENT_YEAR,
+      contentHash,
+      playerCount: projections.length,
+      projections: projections as unknown as Prisma.InputJsonValue,
+    },
+  });
+  logger.info({ system, playerCount: projections.length }, 'Stored projection snapshot');
+}
+
+/**
+ * This season's snapshots for a system, newest first
+ */
+export async function listProjectionSnapshots(system: string): Promise<ProjectionSnapshotSummary[]> {
+  const snapshots = await prisma.projectionSnapshot.findMany({
+    where: { projectionSystem: system, season: CURRENT_YEAR },
+    select: SUMMARY_SELECT,
+    orderBy: { fetchedAt: 'desc' },
+  });
+  return snapshots.map(toSummary);
+}
+
+/**
+ * Values a snapshot's projections for a league, reusing earlier results
+ * Only the fields diffs and history read are kept, so cached snapshots stay small.
+ */
+async function getSnapshotValues(
+  snapshotId: string,
+  settings: LeagueSettings
+): Promise<SnapshotPlayerValue[] | null> {
+  const settingsHash = createHash('sha256').update(JSON.stringify(settings)).digest('hex');
+  const cacheKey = `${snapshotId}:${settingsHash}`;
+  const cached = valuedSnapshots.get(cacheKey);
+  if (cached) {
+    // Re-insert so the entry becomes the most recently used
+    valuedSnapshots.delete(cacheKey);
+    valuedSnapshots.set(cacheKey, cached);
+    return cached;
+  }
+
+  const snapshot = await prisma.projectionSnapshot.findUnique({
+    where: { id: snapshotId },
+    select: { projections: true },
+  });
+  if (!snapshot) return null;
+
+  const players: SnapshotPlayerValue[] = calculateAuctionValues(
+    snapshot.projections as unknown as NormalizedProjection[],
+    settings
+  ).players.map(({ externalId, name, team, positions, playerType, auctionValue }) => ({
+    externalId,
+    name,
+    team,
+    positions,
+    playerType,
+    auctionValue,
+  }));
+
+  if (valuedSnapshots.size >= MAX_VALUED_SNAPSHOTS) {
+    // Maps iterate in insertion order, so the first key is the least recently used
+    const leastRecent = valuedSnapshots.keys().next().value;
+    if (leastRecent !== undefined) valuedSnapshots.delete(leastRecent);
+  }
+  valuedSnapshots.set(cacheKey, players);
+  return players;
+}
+
+/**
+ * Biggest value movers between two snapshots of the same system
+ *
+ * @returns null when either snapshot doesn't exist or they're from different systems
+ */
+export async function diffProjectionSnapshots(
+  fromSnapshotId: string,
+  toSnapshotId: string,
+  settings: LeagueSettings,
+  limit?: number
+): Promise<ProjectionSnapshotDiff | null> {
+  const snapshots = await prisma.projectionSnapshot.findMany({
+    where: { id: { in: [fromSnapshotId, toSnapshotId] } },
+    select: SUMMARY_SELECT,
+  });
+  const from = snapshots.find(s => s.id === fromSnapshotId);
+  const to = snapshots.find(s => s.id === toSnapshotId);
+  if (!from || !to || from.projectionSystem !== to.projectionSystem) return null;
+
+  const fromValues = await getSnapshotValues(from.id, settings);
+  const toValues = await getSnapshotValues(to.id, settings);
+  if (!fromValues || !toValues) return null;
+
+  return {
+    from: toSummary(from),
+    to: toSummary(to),
+    ...diffPlayerValues(fromValues, toValues, limit),
+  };
+}
+
+/**
+ * A player's auction value across this season's snapshots, oldest first
+ * Snapshots the player isn't in are skipped.
+ */
+export async function getPlayerValueHistory(
+  system: string,
+  playerId: string,
+  settings: LeagueSettings
+): Promise<PlayerValueHistoryPoint[]> {
+  const snapshots = await prisma.projectionSnapshot.findMany({
+    where: { projectionSystem: system, season: CURRENT_YEAR },
+    select: { id: true, fetchedAt: true },
+    orderBy: { fetchedAt: 'desc' },
+    take: MAX_HISTORY_SNAPSHOTS,
+  });
+
+  const history: PlayerValueHistoryPoint[] = [];
+  for (const snapshot of snapshots.reverse()) {
+    const players = await getSnapshotValues(snapshot.id, settings);
+    const player = players?.find(p => p.externalId === playerId);
+    if (!player) continue;
+    history.push({
+      snapshotId: snapshot.id,
+      fetchedAt: snapshot.fetchedAt.toISOString(),
+      auctionValue: player.auctionValue,
+    });
+  }
+  return history;
+}
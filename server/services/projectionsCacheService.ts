@@ -13,7 +13,11 @@ import * as path from 'path';
 import { cacheGetJSON, cacheSetJSON, cacheDelete, cacheExists } from './cacheService.js';
 import { env } from '../config/env.js';
 import { logger } from './logger.js';
+import { fetchSteamerProjections, fetchBatXProjections, fetchOopsyProjections } from './projectionsService.js';
+import { fetchJAProjections } from './jaProjectionsService.js';
+import { recordProjectionSnapshot } from './projectionSnapshotStore.js';
 import type {
+  BlendableProjectionSystem,
   NormalizedProjection,
   ProjectionCacheEntry,
   ProjectionCacheMetadata,
@@ -84,6 +88,7 @@ export async function getCachedProjections(
 
 /**
  * Stores projections in cache (both Redis and file-based for redundancy)
+ * and records a dated snapshot of the set
  */
 export async function setCachedProjections(
   system: string,
@@ -132,6 +137,42 @@ export async function setCachedProjections(
   } catch (error) {
     logger.warn({ error, system }, 'Failed to create file backup for projections');
   }
+
+  // Keep a dated snapshot for value history (non-blocking; the cache is what callers need)
+  recordProjectionSnapshot(system, projections).catch(error => {
+    logger.warn({ error, system }, 'Failed to store projection snapshot');
+  });
+}
+
+/**
+ * Gets projections for a system from cache, fetching and caching fresh ones on a miss
+ */
+export async function getOrFetchProjections(system: BlendableProjectionSystem): Promise<NormalizedProjection[]> {
+  const cached = await getCachedProjections(system);
+  if (cached) {
+    return cached.projections;
+  }
+
+  logger.info({ system }, 'No cached projections, fetching fresh');
+
+  let projections: NormalizedProjection[];
+  switch (system) {
+    case 'steamer':
+      projections = await fetchSteamerProjections();
+      break;
+    case 'batx':
+      projections = await fetchBatXProjections();
+      break;
+    case 'ja':
+      projections = await fetchJAProjections();
+      break;
+    case 'oopsy':
+      projections = await fetchOopsyProjections();
+      break;
+  }
+
+  await setCachedProjections(system, projections);
+  return projections;
 }
 
 /**
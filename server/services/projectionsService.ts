@@ -310,7 +310,7 @@ function normalizePitcher(raw: FanGraphsPitcher): NormalizedProjection {
  * Parses position string from FanGraphs into array of positions
  * FanGraphs minpos can be: "OF", "1B/DH", "SS/2B", etc.
  */
-function parsePositions(minpos: string | null | undefined): string[] {
+export function parsePositions(minpos: string | null | undefined): string[] {
   if (!minpos) return ['UTIL'];
 
   // Split on common delimiters
@@ -0,0 +1,161 @@
+/**
+ * Prospect Service
+ * Values minor league prospects for dynasty farm rosters.
+ *
+ * Prospects have no projections, so they're valued from a local prospect list
+ * (rank, level, ETA) instead:
+ * 1. loadProspects - reads the list from PROSPECTS_FILE (JSON array)
+ * 2. calculateProspectValues - future value and farm budget dollars per prospect
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { LeagueSettings } from '../../src/lib/types.js';
+import type { DynastyRanking, Prospect, ProspectWithValue } from '../types/projections.js';
+import { getDynastyContractTerms } from './dynastyProjection.js';
+import { logger } from './logger.js';
+
+const PROSPECTS_FILE = process.env.PROSPECTS_FILE || path.join(process.cwd(), 'data', 'prospects.json');
+
+// Ranks past this are treated as organizational depth with no future value
+const PROSPECT_RANK_CEILING = 500;
+
+/**
+ * Chance a prospect at each level becomes a useful major leaguer
+ */
+const LEVEL_SUCCESS_RATE: Record<DynastyRanking['level'], number> = {
+  MLB: 1,
+  AAA: 0.85,
+  AA: 0.7,
+  'A+': 0.55,
+  A: 0.45,
+  other: 0.35,
+};
+
+const VALID_LEVELS = Object.keys(LEVEL_SUCCESS_RATE) as DynastyRanking['level'][];
+
+let cachedProspects: { mtimeMs: number; prospects: Prospect[] } | null = null;
+
+/**
+ * Load the local prospect list, re-reading only when the file changes
+ * Returns an empty list when no file is configured
+ */
+export async function loadProspects(): Promise<Prospect[]> {
+  let stat;
+  try {
+    stat = await fs.stat(PROSPECTS_FILE);
+  } catch {
+    logger.info({ file: PROSPECTS_FILE }, 'No prospect list found');
+    return [];
+  }
+
+  if (cachedProspects && cachedProspects.mtimeMs === stat.mtimeMs) {
+    return cachedProspects.prospects;
+  }
+
+  const content = await fs.readFile(PROSPECTS_FILE, 'utf-8');
+  const prospects = parseProspectList(JSON.parse(content));
+  cachedProspects = { mtimeMs: stat.mtimeMs, prospects };
+  logger.info({ count: prospects.length }, 'Loaded prospect list');
+  return prospects;
+}
+
+/**
+ * Parse prospect list rows, skipping rows without a name, rank, or ETA
+ */
+export function parseProspectList(raw: unknown): Prospect[] {
+  if (!Array.isArray(raw)) {
+    throw new Error('Prospect list must be a JSON array');
+  }
+
+  const prospects: Prospect[] = [];
+  let skipped = 0;
+
+  for (const row of raw as Array<Record<string, unknown>>) {
+    const name = typeof row?.name === 'string' ? row.name.trim() : '';
+    const rank = Number(row?.rank);
+    const eta = Number(row?.eta);
+    if (!name || !Number.isFinite(rank) || rank < 1 || !Number.isInteger(eta)) {
+      skipped++;
+      continue;
+    }
+
+    const level = VALID_LEVELS.includes(row.level as DynastyRanking['level'])
+      ? (row.level as DynastyRanking['level'])
+      : 'other';
+    const positions = Array.isArray(row.positions)
+      ? row.positions.filter((p): p is string => typeof p === 'string')
+      : typeof row.positions === 'string'
+        ? row.positions.split(/[/,]/).map(p => p.trim()).filter(Boolean)
+        : [];
+
+    prospects.push({
+      name,
+      team: typeof row.team === 'string' ? row.team : '',
+      positions,
+      level,
+      eta,
+      rank,
+      age: typeof row.age === 'number' ? row.age : null,
+    });
+  }
+
+  if (skipped > 0) {
+    logger.warn({ skipped }, 'Skipped invalid prospect list rows');
+  }
+
+  return prospects;
+}
+
+/**
+ * Whether a league rosters minor leaguers in separate farm slots
+ */
+export function hasFarmSlots(settings: LeagueSettings): boolean {
+  return settings.leagueType === 'dynasty' && (settings.farmSettings?.milbSlots ?? 0) > 0;
+}
+
+/**
+ * Value prospects for the league's minor league roster slots
+ *
+ * Future value = rank value × chance of reaching MLB from the current level,
+ * discounted by the dynasty discount rate for each season until the ETA.
+ * The top (teams × MiLB slots) prospects split the league's farm budget by
+ * future value, after the $1 minimum per slot.
+ */
+export function calculateProspectValues(
+  prospects: Prospect[],
+  settings: LeagueSettings,
+  currentYear = new Date().getFullYear()
+): ProspectWithValue[] {
+  const milbSlots = settings.farmSettings?.milbSlots ?? 0;
+  const farmBudget = settings.farmSettings?.farmBudget ?? 0;
+  const { discountRate } = getDynastyContractTerms(settings.dynastySettings);
+
+  const valued = prospects
+    // Graduated prospects are valued from their projections instead
+    .filter(p => p.level !== 'MLB')
+    .map(prospect => {
+      const rankValue = Math.max(0, 1 - Math.log(prospect.rank) / Math.log(PROSPECT_RANK_CEILING));
+      const yearsAway = Math.max(0, prospect.eta - currentYear);
+      const futureValue = Math.pow(rankValue, 1.2)
+        * LEVEL_SUCCESS_RATE[prospect.level]
+        * Math.pow(1 + discountRate, -yearsAway);
+      return { ...prospect, futureValue };
+    })
+    .sort((a, b) => b.futureValue - a.futureValue);
+
+  const poolSize = Math.min(valued.length, settings.numTeams * milbSlots);
+  const totalFutureValue = valued.slice(0, poolSize).reduce((sum, p) => sum + p.futureValue, 0);
+  const distributable = Math.max(0, settings.numTeams * farmBudget - poolSize);
+
+  return valued.map((prospect, index) => {
+    const isInFarmPool = index < poolSize;
+    const share = isInFarmPool && totalFutureValue > 0 ? prospect.futureValue / totalFutureValue : 0;
+    return {
+      ...prospect,
+      futureValue: Math.round(prospect.futureValue * 1000) / 1000,
+      farmValue: isInFarmPool && farmBudget > 0 ? Math.round(1 + distributable * share) : 0,
+      isInFarmPool,
+    };
+  });
+}
@@ -8,6 +8,7 @@
 import { logger } from './logger.js';
 import { prisma } from '../db.js';
 import { env } from '../config/env.js';
+import { tiersWithFeature } from './entitlements.js';
 import { Prisma } from '@prisma/client';
 
 // Twilio client - dynamically imported to avoid errors if not configured
@@ -122,7 +123,7 @@ export async function sendSMS(to: string, message: string): Promise<boolean> {
 export async function sendNotificationSMS(
   userId: string,
   phoneNumber: string,
-  type: 'player_bid' | 'outbid',
+  type: 'player_bid' | 'outbid' | 'target_on_block',
   message: string,
   metadata?: Record<string, unknown>
 ): Promise<boolean> {
@@ -148,6 +149,7 @@ export async function sendNotificationSMS(
 
 /**
  * Get users subscribed to notifications for a specific room
+ * (only those whose tier still includes SMS alerts)
  */
 export async function getSubscribedUsers(roomId: string) {
   return prisma.user.findMany({
@@ -155,6 +157,12 @@ export async function getSubscribedUsers(roomId: string) {
       selectedRoomId: roomId,
       smsNotificationsEnabled: true,
       phoneNumber: { not: null },
+      subscriptionTier: { in: tiersWithFeature('smsAlerts') },
+      // Cancelled subscriptions only count until the paid period ends (see getEffectiveTier)
+      OR: [
+        { subscriptionStatus: { not: 'cancelled' } },
+        { subscriptionPeriodEnd: { gt: new Date() } },
+      ],
     },
     select: {
       id: true,
@@ -200,6 +208,17 @@ export const NotificationMessages = {
     return message;
   },
 
+  /**
+   * Message when a targeted player is nominated below the user's price
+   */
+  targetOnBlock: (playerName: string, currentBid: number, targetPrice: number, appUrl?: string): string => {
+    let message = `TARGET - ${playerName} is on the block at $${currentBid}, under your $${targetPrice} price!`;
+    if (appUrl) {
+      message += `\n${appUrl}`;
+    }
+    return message;
+  },
+
   /**
    * Test message to verify SMS is working
    */
@@ -0,0 +1,44 @@
+/**
+ * User Agent
+ * Short device labels ("Chrome on macOS") for the active sessions list.
+ * Only covers the browsers and platforms people sign in from - anything else
+ * falls back to "Unknown browser" / "unknown device".
+ */
+
+const BROWSERS: Array<[RegExp, string]> = [
+  // Order matters: Edge and Opera include "Chrome", and Chrome includes "Safari"
+  [/Edg(e|A|iOS)?\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/Firefox\/|FxiOS\//, 'Firefox'],
+  [/Chrome\/|CriOS\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+const PLATFORMS: Array<[RegExp, string]> = [
+  // iPads and iPhones mention "Mac OS X", and Android mentions "Linux"
+  [/iPhone|iPod/, 'iPhone'],
+  [/iPad/, 'iPad'],
+  [/Android/, 'Android'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux'],
+];
+
+function firstMatch(userAgent: string, patterns: Array<[RegExp, string]>): string | null {
+  const match = patterns.find(([pattern]) => pattern.test(userAgent));
+  return match ? match[1] : null;
+}
+
+/**
+ * "Chrome on macOS", "Safari on iPhone", or "Unknown device" when there's no user agent
+ */
+export function describeUserAgent(userAgent: string | null | undefined): string {
+  if (!userAgent) {
+    return 'Unknown device';
+  }
+
+  const browser = firstMatch(userAgent, BROWSERS) ?? 'Unknown browser';
+  const platform = firstMatch(userAgent, PLATFORMS) ?? 'unknown device';
+  return `${browser} on ${platform}`;
+}
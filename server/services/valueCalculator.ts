@@ -15,8 +15,16 @@ import type {
   DynastyRanking,
   PlayerWithDynastyValue,
 } from '../types/projections.js';
-import type { LeagueSettings } from '../../src/lib/types.js';
+import type { KeeperEntry, LeagueSettings } from '../../src/lib/types.js';
 import { matchDynastyRankingsToProjections } from './dynastyRankingsScraper.js';
+import { normalizeName } from './playerMatcher.js';
+import {
+  calculateContractValue,
+  getAgingGroup,
+  getDynastyContractTerms,
+  projectYearlyValues,
+  type DynastyContractTerms,
+} from './dynastyProjection.js';
 import { logger } from './logger.js';
 
 // Default hitter/pitcher budget split
@@ -34,6 +42,9 @@ const MIN_AUCTION_VALUE = 1;
  */
 const MAX_PROJECTION_PLAYERS = 1200;
 
+// Average innings per start, used to split swingmen between starting and relief
+const AVG_IP_PER_START = 5.5;
+
 // ============================================================================
 // MARKET INFLATION CORRECTION FACTORS
 // Based on historical auction analysis from Duke Draft (Room 1362) and others
@@ -289,6 +300,133 @@ const PITCHING_CATEGORY_SOURCES: Record<string, { source: CategoryDataSource; de
   'SIERA': { source: 'unsupported', desc: 'SIERA - not in Steamer projections' },
 };
 
+/**
+ * H2H Points hitting stats (pointsSettings keys) and their data sources
+ */
+const HITTING_POINTS_SOURCES: Record<string, { source: CategoryDataSource; desc: string }> = {
+  // Direct from projections (high accuracy)
+  'H': { source: 'direct', desc: 'Hits - scored on singles when 1B is not set' },
+  '1B': { source: 'direct', desc: 'Singles - from projections' },
+  '2B': { source: 'direct', desc: 'Doubles - from projections' },
+  '3B': { source: 'direct', desc: 'Triples - from projections' },
+  'HR': { source: 'direct', desc: 'Home Runs - from projections' },
+  'RBI': { source: 'direct', desc: 'RBI - from projections' },
+  'R': { source: 'direct', desc: 'Runs - from projections' },
+  'BB': { source: 'direct', desc: 'Walks - from projections' },
+  'SB': { source: 'direct', desc: 'Stolen Bases - from projections' },
+  'K_hitter': { source: 'direct', desc: 'Strikeouts - from projections' },
+  'CS': { source: 'direct', desc: 'Caught Stealing - from projections' },
+  'GP_hitter': { source: 'direct', desc: 'Games Played - from projections' },
+  'PA': { source: 'direct', desc: 'Plate Appearances - from projections' },
+  'AB': { source: 'direct', desc: 'At Bats - from projections' },
+
+  // Calculated from projections (high accuracy)
+  'TB': { source: 'calculated', desc: 'Total Bases = 1B + 2×2B + 3×3B + 4×HR' },
+  'XBH': { source: 'calculated', desc: 'Extra Base Hits = 2B + 3B + HR' },
+  'SBN': { source: 'calculated', desc: 'Net Stolen Bases = SB - CS' },
+
+  // Estimated from correlations (medium accuracy)
+  'GIDP': { source: 'estimated', desc: 'Double Plays - estimated from K rate, speed, batted ball' },
+  'HBP': { source: 'estimated', desc: 'Hit By Pitch - estimated from walk rate' },
+  'SF': { source: 'estimated', desc: 'Sacrifice Flies - estimated from RBI/HR' },
+
+  // Unsupported (scored as 0)
+  'SO_look': { source: 'unsupported', desc: 'Strikeouts Looking - not projected' },
+  'E_hitter': { source: 'unsupported', desc: 'Errors - position-dependent, not projected' },
+  'SH': { source: 'unsupported', desc: 'Sacrifice Hits - not projected' },
+  'IBB': { source: 'unsupported', desc: 'Intentional Walks - not projected' },
+  'Sl': { source: 'unsupported', desc: 'Grand Slams - too rare to estimate' },
+  'CYC': { source: 'unsupported', desc: 'Hit for Cycle - too rare to estimate' },
+  'GWRBI': { source: 'unsupported', desc: 'Game Winning RBI - situational, not projected' },
+  'A': { source: 'unsupported', desc: 'Fielding Assists - position-dependent, not projected' },
+  'PO': { source: 'unsupported', desc: 'Putouts - position-dependent, not projected' },
+  'DP': { source: 'unsupported', desc: 'Fielding Double Plays - not projected' },
+  'TP': { source: 'unsupported', desc: 'Triple Plays - extremely rare, not projected' },
+  'PB': { source: 'unsupported', desc: 'Passed Balls - catcher only, not projected' },
+  'CSA_hitter': { source: 'unsupported', desc: 'Caught Stealing Against - catcher only, not projected' },
+  'SBA_hitter': { source: 'unsupported', desc: 'Stolen Bases Against - catcher only, not projected' },
+  'PKO_field': { source: 'unsupported', desc: 'Pickoffs - fielding, not projected' },
+  'PKO_hitting': { source: 'unsupported', desc: 'Picked Off - not projected' },
+  'FB': { source: 'unsupported', desc: 'Fly Balls - batted ball data not in projections' },
+  'GB': { source: 'unsupported', desc: 'Ground Balls - batted ball data not in projections' },
+  'IF_hitter': { source: 'unsupported', desc: 'Innings Fielded - not projected' },
+  'AOF': { source: 'unsupported', desc: 'Outfield Assists - not projected' },
+  'POOF': { source: 'unsupported', desc: 'Outfield Putouts - not projected' },
+};
+
+/**
+ * H2H Points pitching stats (pointsSettings keys) and their data sources
+ */
+const PITCHING_POINTS_SOURCES: Record<string, { source: CategoryDataSource; desc: string }> = {
+  // Direct from projections (high accuracy)
+  'IP': { source: 'direct', desc: 'Innings Pitched - from projections' },
+  'W': { source: 'direct', desc: 'Wins - from projections' },
+  'K_pitcher': { source: 'direct', desc: 'Strikeouts - from projections' },
+  'SV': { source: 'direct', desc: 'Saves - from projections' },
+  'L': { source: 'direct', desc: 'Losses - from projections' },
+  'ER': { source: 'direct', desc: 'Earned Runs - from projections' },
+  'H_allowed': { source: 'direct', desc: 'Hits Allowed - from projections' },
+  'BB_allowed': { source: 'direct', desc: 'Walks Allowed - from projections' },
+  'HR_allowed': { source: 'direct', desc: 'Home Runs Allowed - from projections' },
+  'HD': { source: 'direct', desc: 'Holds - from projections' },
+  'GS': { source: 'direct', desc: 'Games Started - from projections' },
+  'GP_pitcher': { source: 'direct', desc: 'Games Played - from projections' },
+
+  // Calculated from projections (high accuracy)
+  'SVH': { source: 'calculated', desc: 'Saves + Holds' },
+  'SVH2': { source: 'calculated', desc: 'SV + 0.5×HLD' },
+  'SVH3': { source: 'calculated', desc: '0.5×SV + HLD' },
+  'SVH4': { source: 'calculated', desc: 'SV + 0.75×HLD' },
+  'SVH5': { source: 'calculated', desc: '0.75×SV + HLD' },
+  'SVH6': { source: 'calculated', desc: 'SV + 0.25×HLD' },
+  'SVH7': { source: 'calculated', desc: '0.25×SV + HLD' },
+  'RA': { source: 'calculated', desc: 'Relief Appearances = G - GS' },
+
+  // Estimated from correlations (medium accuracy)
+  'QS': { source: 'estimated', desc: 'Quality Starts - estimated from IP/GS and ERA' },
+  'W+QS': { source: 'estimated', desc: 'Wins + Quality Starts (QS estimated)' },
+  'SW': { source: 'estimated', desc: 'Starter Wins - wins split by innings from starts' },
+  'SL': { source: 'estimated', desc: 'Starter Losses - losses split by innings from starts' },
+  'RW': { source: 'estimated', desc: 'Relief Wins - wins split by innings in relief' },
+  'RL': { source: 'estimated', desc: 'Relief Losses - losses split by innings in relief' },
+  'R_allowed': { source: 'estimated', desc: 'Runs Allowed - estimated from earned runs' },
+  'BS': { source: 'estimated', desc: 'Blown Saves - estimated from saves and ERA' },
+  'NS': { source: 'estimated', desc: 'Net Saves = SV - BS (BS estimated)' },
+  'NS2': { source: 'estimated', desc: 'SV - 0.5×BS (BS estimated)' },
+  'NS3': { source: 'estimated', desc: 'SV - BS + HLD (BS estimated)' },
+  'NS4': { source: 'estimated', desc: 'SV + HLD - BS (BS estimated)' },
+  'NSH': { source: 'estimated', desc: 'Net Saves + Holds (BS estimated)' },
+  'NSH2': { source: 'estimated', desc: '(SV + HLD) - BS (BS estimated)' },
+  'HB': { source: 'estimated', desc: 'Hit Batsmen - estimated from innings and walk rate' },
+  'WP': { source: 'estimated', desc: 'Wild Pitches - estimated from innings and walk rate' },
+  'CG': { source: 'estimated', desc: 'Complete Games - estimated from IP/GS' },
+  'SHO': { source: 'estimated', desc: 'Shutouts - estimated from complete games' },
+  'GF': { source: 'estimated', desc: 'Games Finished - estimated from saves' },
+  'BF': { source: 'estimated', desc: 'Batters Faced - estimated from IP, H, BB' },
+  '1B_allowed': { source: 'estimated', desc: 'Singles Allowed - estimated from hits allowed' },
+  '2B_allowed': { source: 'estimated', desc: 'Doubles Allowed - estimated from hits allowed' },
+  '3B_allowed': { source: 'estimated', desc: 'Triples Allowed - estimated from hits allowed' },
+  'TB_allowed': { source: 'estimated', desc: 'Total Bases Allowed - estimated from hits and HR' },
+  'SBA_pitcher': { source: 'estimated', desc: 'Stolen Bases Against - estimated from IP' },
+  'CSA_pitcher': { source: 'estimated', desc: 'Caught Stealing Against - estimated from SB against' },
+  'PKO_pitcher': { source: 'estimated', desc: 'Pickoffs - estimated from IP' },
+  'IR': { source: 'estimated', desc: 'Inherited Runners - estimated from relief role' },
+  'IRS': { source: 'estimated', desc: 'Inherited Runners Stranded - estimated' },
+  'GIDP_pitcher': { source: 'estimated', desc: 'Double Plays Induced - estimated from IP' },
+  'DPI': { source: 'estimated', desc: 'Double Plays Induced - estimated from IP' },
+
+  // Unsupported (scored as 0)
+  'BK': { source: 'unsupported', desc: 'Balks - not projected' },
+  'NH': { source: 'unsupported', desc: 'No Hitters - too rare to estimate' },
+  'PG': { source: 'unsupported', desc: 'Perfect Games - too rare to estimate' },
+  'SVO': { source: 'unsupported', desc: 'Save Opportunities - not projected' },
+  'PIT': { source: 'unsupported', desc: 'Pitches - not in projections' },
+  'IBB_allowed': { source: 'unsupported', desc: 'Intentional Walks Allowed - not projected' },
+  'SF_allowed': { source: 'unsupported', desc: 'Sacrifice Flies Allowed - not projected' },
+  'CGL': { source: 'unsupported', desc: 'Complete Game Losses - not projected' },
+  'UER': { source: 'unsupported', desc: 'Unearned Runs - not projected' },
+};
+
 /**
  * Validate scoring categories and return information about data sources
  */
@@ -298,84 +436,85 @@ export function validateScoringCategories(settings: LeagueSettings): {
   warnings: string[];
 } {
   const warnings: string[] = [];
-  const hittingValidations: CategoryValidation[] = [];
-  const pitchingValidations: CategoryValidation[] = [];
 
-  // Validate hitting categories
   const enabledHitting = Object.entries(settings.hittingCategories || {})
     .filter(([_, enabled]) => enabled)
     .map(([cat]) => cat);
-
-  for (const cat of enabledHitting) {
-    const info = HITTING_CATEGORY_SOURCES[cat];
-    if (!info) {
-      hittingValidations.push({
-        category: cat,
-        dataSource: 'unsupported',
-        description: `Unknown category - will be ignored`,
-        accuracy: 'none',
-      });
-      warnings.push(`Hitting category "${cat}" is not supported and will be ignored in calculations`);
-    } else {
-      const accuracy = info.source === 'direct' ? 'high' :
-        info.source === 'calculated' ? 'high' :
-          info.source === 'estimated' ? 'medium' : 'none';
-
-      hittingValidations.push({
-        category: cat,
-        dataSource: info.source,
-        description: info.desc,
-        accuracy,
-      });
-
-      if (info.source === 'estimated') {
-        warnings.push(`Hitting category "${cat}" uses estimated values: ${info.desc}`);
-      } else if (info.source === 'unsupported') {
-        warnings.push(`Hitting category "${cat}" is not supported: ${info.desc}`);
-      }
-    }
-  }
-
-  // Validate pitching categories
   const enabledPitching = Object.entries(settings.pitchingCategories || {})
     .filter(([_, enabled]) => enabled)
     .map(([cat]) => cat);
 
-  for (const cat of enabledPitching) {
-    const info = PITCHING_CATEGORY_SOURCES[cat];
+  return {
+    hitting: validateCategories(enabledHitting, HITTING_CATEGORY_SOURCES, 'Hitting category', warnings),
+    pitching: validateCategories(enabledPitching, PITCHING_CATEGORY_SOURCES, 'Pitching category', warnings),
+    warnings,
+  };
+}
+
+/**
+ * Validate H2H Points categories (any stat with a non-zero point value)
+ * Mirrors validateScoringCategories so points leagues report estimated stats too
+ */
+export function validatePointsCategories(settings: LeagueSettings): {
+  hitting: CategoryValidation[];
+  pitching: CategoryValidation[];
+  warnings: string[];
+} {
+  const warnings: string[] = [];
+  const configured = Object.entries(settings.pointsSettings || {})
+    .filter(([_, points]) => points !== undefined && points !== 0)
+    .map(([cat]) => cat);
+
+  // Unknown keys are reported with the hitting categories
+  const pitchingCats = configured.filter(cat => cat in PITCHING_POINTS_SOURCES);
+  const hittingCats = configured.filter(cat => !(cat in PITCHING_POINTS_SOURCES));
+
+  return {
+    hitting: validateCategories(hittingCats, HITTING_POINTS_SOURCES, 'Hitting points category', warnings),
+    pitching: validateCategories(pitchingCats, PITCHING_POINTS_SOURCES, 'Pitching points category', warnings),
+    warnings,
+  };
+}
+
+/**
+ * Classify categories against a data source map, adding warnings for
+ * estimated and unsupported categories
+ */
+function validateCategories(
+  categories: string[],
+  sources: Record<string, { source: CategoryDataSource; desc: string }>,
+  label: string,
+  warnings: string[]
+): CategoryValidation[] {
+  return categories.map(cat => {
+    const info = sources[cat];
     if (!info) {
-      pitchingValidations.push({
+      warnings.push(`${label} "${cat}" is not supported and will be ignored in calculations`);
+      return {
         category: cat,
         dataSource: 'unsupported',
         description: `Unknown category - will be ignored`,
         accuracy: 'none',
-      });
-      warnings.push(`Pitching category "${cat}" is not supported and will be ignored in calculations`);
-    } else {
-      const accuracy = info.source === 'direct' ? 'high' :
-        info.source === 'calculated' ? 'high' :
-          info.source === 'estimated' ? 'medium' : 'none';
+      };
+    }
 
-      pitchingValidations.push({
-        category: cat,
-        dataSource: info.source,
-        description: info.desc,
-        accuracy,
-      });
-
-      if (info.source === 'estimated') {
-        warnings.push(`Pitching category "${cat}" uses estimated values: ${info.desc}`);
-      } else if (info.source === 'unsupported') {
-        warnings.push(`Pitching category "${cat}" is not supported: ${info.desc}`);
-      }
+    const accuracy = info.source === 'direct' ? 'high' :
+      info.source === 'calculated' ? 'high' :
+        info.source === 'estimated' ? 'medium' : 'none';
+
+    if (info.source === 'estimated') {
+      warnings.push(`${label} "${cat}" uses estimated values: ${info.desc}`);
+    } else if (info.source === 'unsupported') {
+      warnings.push(`${label} "${cat}" is not supported: ${info.desc}`);
     }
-  }
 
-  return {
-    hitting: hittingValidations,
-    pitching: pitchingValidations,
-    warnings,
-  };
+    return {
+      category: cat,
+      dataSource: info.source,
+      description: info.desc,
+      accuracy,
+    };
+  });
 }
 
 /**
@@ -387,7 +526,9 @@ export function getCategorySupportSummary(settings: LeagueSettings): {
   unsupported: number;
   details: string;
 } {
-  const validation = validateScoringCategories(settings);
+  const validation = settings.scoringType === 'h2h-points'
+    ? validatePointsCategories(settings)
+    : validateScoringCategories(settings);
 
   const allCategories = [...validation.hitting, ...validation.pitching];
   const supported = allCategories.filter(c => c.dataSource === 'direct' || c.dataSource === 'calculated').length;
@@ -438,6 +579,11 @@ export function calculateAuctionValues(
   const hitters = projections.filter(p => p.playerType === 'hitter');
   const pitchers = projections.filter(p => p.playerType === 'pitcher');
 
+  // Report categories that had to be estimated or can't be scored
+  const categoryValidation = settings.scoringType === 'h2h-points'
+    ? validatePointsCategories(settings)
+    : validateScoringCategories(settings);
+
   // Calculate values based on scoring type
   let playersWithValues: PlayerWithValue[];
 
@@ -483,6 +629,20 @@ export function calculateAuctionValues(
     );
   }
 
+  // Take keepers out of the pool and reprice the rest for the keeper surplus
+  if (settings.keepers && settings.keepers.length > 0) {
+    playersWithValues = applyKeeperAdjustments(
+      playersWithValues,
+      settings.keepers,
+      hitterPoolSize,
+      pitcherPoolSize,
+      hitterBudget,
+      pitcherBudget
+    );
+  }
+  const keptPlayers = playersWithValues.filter(p => p.keeperSalary !== undefined);
+  const keeperSalaries = keptPlayers.reduce((sum, p) => sum + (p.keeperSalary ?? 0), 0);
+
   // CRITICAL: Limit players to top N by SGP (Z-Score) to prevent MiLB prospect confusion
   // Steamer projections include 2000+ players, but only the top ~1200 are relevant
   //
@@ -523,7 +683,13 @@ export function calculateAuctionValues(
       pitcherBudget,
       leagueType: settings.leagueType,
       dynastyWeight: settings.dynastySettings?.dynastyWeight,
+      ...(keptPlayers.length > 0 && {
+        keeperCount: keptPlayers.length,
+        keeperSalaries,
+        keeperSurplus: keptPlayers.reduce((sum, p) => sum + p.auctionValue, 0) - keeperSalaries,
+      }),
     },
+    categoryWarnings: categoryValidation.warnings,
     players: topPlayers,
   };
 }
@@ -582,6 +748,8 @@ function calculateCategoryValues(
 
 /**
  * Calculate values for H2H Points leagues
+ * Dollars follow points above positional replacement, so a catcher's points
+ * are measured against the best catcher left after every roster slot is filled
  */
 function calculatePointsValues(
   hitters: NormalizedProjection[],
@@ -610,16 +778,24 @@ function calculatePointsValues(
       points: calculatePitcherPoints(p.pitching!, pointSettings),
     }));
 
-  // Sort by points
-  const sortedHitters = [...hitterPoints].sort((a, b) => b.points - a.points);
-  const sortedPitchers = [...pitcherPoints].sort((a, b) => b.points - a.points);
+  // Value each player over replacement at their position, then sort by that value
+  const sortedHitters = calculatePointsAboveReplacement(
+    hitterPoints,
+    getPointsRosterSlots(settings, 'hitter'),
+    hitterPoolSize
+  );
+  const sortedPitchers = calculatePointsAboveReplacement(
+    pitcherPoints,
+    getPointsRosterSlots(settings, 'pitcher'),
+    pitcherPoolSize
+  );
 
-  // Get pool and calculate total points
+  // Get pool and calculate total points above replacement
   const poolHitters = sortedHitters.slice(0, hitterPoolSize);
   const poolPitchers = sortedPitchers.slice(0, pitcherPoolSize);
 
-  const totalHitterPoints = poolHitters.reduce((sum, h) => sum + Math.max(0, h.points), 0);
-  const totalPitcherPoints = poolPitchers.reduce((sum, p) => sum + Math.max(0, p.points), 0);
+  const totalHitterPoints = poolHitters.reduce((sum, h) => sum + Math.max(0, h.pointsAboveReplacement), 0);
+  const totalPitcherPoints = poolPitchers.reduce((sum, p) => sum + Math.max(0, p.pointsAboveReplacement), 0);
 
   // Convert points to dollars with market-aware adjustments
   const hitterResults = convertPointsToDollarsMarketAdjusted(
@@ -641,6 +817,123 @@ function calculatePointsValues(
   return [...hitterResults, ...pitcherResults];
 }
 
+/**
+ * A league-wide roster slot used to find replacement levels
+ * Players without an explicit eligibility list can fill the slot if they
+ * have any position (UTIL for hitters, P for pitchers)
+ */
+interface PointsRosterSlot {
+  slot: string;
+  eligible?: string[];
+  count: number;
+}
+
+/**
+ * Get league-wide active roster slots for hitters or pitchers
+ * Dedicated positions come before flex slots so they're filled first
+ */
+function getPointsRosterSlots(settings: LeagueSettings, playerType: 'hitter' | 'pitcher'): PointsRosterSlot[] {
+  const rs = settings.rosterSpots;
+  const slot = (name: keyof LeagueSettings['rosterSpots'], eligible?: string[]): PointsRosterSlot => ({
+    slot: name,
+    eligible,
+    count: (rs[name] ?? 0) * settings.numTeams,
+  });
+
+  if (playerType === 'pitcher') {
+    return [slot('SP', ['SP']), slot('RP', ['RP']), slot('P')];
+  }
+
+  return [
+    slot('C', ['C']),
+    slot('1B', ['1B']),
+    slot('2B', ['2B']),
+    slot('3B', ['3B']),
+    slot('SS', ['SS']),
+    slot('OF', ['OF']),
+    slot('CI', ['1B', '3B']),
+    slot('MI', ['2B', 'SS']),
+    slot('UTIL'),
+  ];
+}
+
+/**
+ * Get the roster positions a player can fill
+ * Outfield spots map to OF; pitchers listed only as P get a role from their starts
+ */
+function getRosterPositions(player: NormalizedProjection): string[] {
+  const positions = player.positions.map(pos => (['LF', 'CF', 'RF'].includes(pos) ? 'OF' : pos));
+
+  if (player.playerType === 'pitcher' && player.pitching && !positions.some(pos => pos === 'SP' || pos === 'RP')) {
+    const isStarter = player.pitching.gamesStarted * 2 >= player.pitching.games && player.pitching.gamesStarted > 0;
+    positions.push(isStarter ? 'SP' : 'RP');
+  }
+
+  return positions;
+}
+
+function canFillSlot(slot: PointsRosterSlot, positions: string[]): boolean {
+  return !slot.eligible || slot.eligible.some(pos => positions.includes(pos));
+}
+
+/**
+ * Calculate points above positional replacement
+ *
+ * Players are rostered greedily by points: each takes the first open slot they
+ * can fill (dedicated positions, then CI/MI/UTIL or P), and any left over fill
+ * the bench share of the pool. A slot's replacement level is the best player
+ * still unrostered who could fill it, and a player is measured against the
+ * lowest replacement level among the filled slots they're eligible for.
+ *
+ * @returns Players sorted by points above replacement (highest first)
+ */
+function calculatePointsAboveReplacement(
+  players: Array<{ player: NormalizedProjection; points: number }>,
+  slots: PointsRosterSlot[],
+  poolSize: number
+): Array<{ player: NormalizedProjection; points: number; pointsAboveReplacement: number }> {
+  const sorted = [...players]
+    .sort((a, b) => b.points - a.points)
+    .map(p => ({ ...p, positions: getRosterPositions(p.player) }));
+
+  // Fill active slots, then the bench
+  const openSlots = slots.map(s => s.count);
+  let openBench = Math.max(0, poolSize - openSlots.reduce((sum, count) => sum + count, 0));
+  const rostered = sorted.map(p => {
+    const slotIndex = slots.findIndex((s, i) => openSlots[i] > 0 && canFillSlot(s, p.positions));
+    if (slotIndex >= 0) {
+      openSlots[slotIndex]--;
+      return true;
+    }
+    if (openBench > 0) {
+      openBench--;
+      return true;
+    }
+    return false;
+  });
+
+  // Best remaining player per slot (players are sorted, so the first match)
+  const replacementLevels = slots.map(s =>
+    sorted.find((p, i) => !rostered[i] && canFillSlot(s, p.positions))?.points ?? 0
+  );
+
+  // The last slot is the catch-all flex slot (UTIL / P)
+  const flexIndex = slots.length - 1;
+
+  return sorted
+    .map(({ player, points, positions }) => {
+      const eligibleLevels = slots
+        .map((s, i) => (s.count > 0 && canFillSlot(s, positions) ? replacementLevels[i] : undefined))
+        .filter((level): level is number => level !== undefined);
+      const replacementLevel = eligibleLevels.length > 0
+        ? Math.min(...eligibleLevels)
+        : replacementLevels[flexIndex] ?? 0;
+
+      return { player, points, pointsAboveReplacement: points - replacementLevel };
+    })
+    .sort((a, b) => b.pointsAboveReplacement - a.pointsAboveReplacement);
+}
+
 /**
  * Calculate SGP values for hitters
  */
@@ -1384,6 +1677,38 @@ function estimateInheritedRunnersStranded(stats: PitchingStats): number {
   return Math.round(ir * strandRate);
 }
 
+/**
+ * Estimate a pitcher's wins and losses as a starter vs in relief
+ * Pure starters and relievers keep their full line; for swingmen, starts are
+ * assumed to average AVG_IP_PER_START innings and wins and losses are split
+ * by the share of innings pitched in each role
+ */
+function estimatePitchingRoleSplit(stats: PitchingStats): {
+  starterWins: number;
+  starterLosses: number;
+  reliefWins: number;
+  reliefLosses: number;
+  reliefAppearances: number;
+} {
+  const reliefAppearances = Math.max(0, stats.games - stats.gamesStarted);
+  let startShare: number;
+  if (stats.gamesStarted === 0) {
+    startShare = 0;
+  } else if (reliefAppearances === 0 || stats.inningsPitched === 0) {
+    startShare = 1;
+  } else {
+    startShare = Math.min(stats.inningsPitched, stats.gamesStarted * AVG_IP_PER_START) / stats.inningsPitched;
+  }
+
+  return {
+    starterWins: stats.wins * startShare,
+    starterLosses: stats.losses * startShare,
+    reliefWins: stats.wins * (1 - startShare),
+    reliefLosses: stats.losses * (1 - startShare),
+    reliefAppearances,
+  };
+}
+
 // ============================================================================
 // MARKET INFLATION CORRECTION HELPERS
 // ============================================================================
@@ -1718,6 +2043,10 @@ function calculatePitcherPoints(
   points += (stats.saves + stats.holds) * (pointSettings.SVH ?? 0);
   points += (stats.saves + (0.5 * stats.holds)) * (pointSettings.SVH2 ?? 0);
   points += ((0.5 * stats.saves) + stats.holds) * (pointSettings.SVH3 ?? 0);
+  points += (stats.saves + (0.75 * stats.holds)) * (pointSettings.SVH4 ?? 0);
+  points += ((0.75 * stats.saves) + stats.holds) * (pointSettings.SVH5 ?? 0);
+  points += (stats.saves + (0.25 * stats.holds)) * (pointSettings.SVH6 ?? 0);
+  points += ((0.25 * stats.saves) + stats.holds) * (pointSettings.SVH7 ?? 0);
 
   // Net Saves
   const bs = estimateBlownSaves(stats);
@@ -1726,6 +2055,7 @@ function calculatePitcherPoints(
   points += (stats.saves - bs + stats.holds) * (pointSettings.NS3 ?? 0);
   points += (stats.saves + stats.holds - bs) * (pointSettings.NS4 ?? 0);
   points += ((stats.saves + stats.holds) - bs) * (pointSettings.NSH ?? 0);
+  points += ((stats.saves + stats.holds) - bs) * (pointSettings.NSH2 ?? 0);
 
   // Additional Counting
   points += estimateCompleteGames(stats) * (pointSettings.CG ?? 0);
@@ -1736,6 +2066,14 @@ function calculatePitcherPoints(
   points += estimateBattersFaced(stats) * (pointSettings.BF ?? 0);
   points += (stats.wins + estimateQualityStarts(stats)) * (pointSettings['W+QS'] ?? 0);
 
+  // Per-start vs per-relief scoring
+  const split = estimatePitchingRoleSplit(stats);
+  points += split.starterWins * (pointSettings.SW ?? 0);
+  points += split.starterLosses * (pointSettings.SL ?? 0);
+  points += split.reliefWins * (pointSettings.RW ?? 0);
+  points += split.reliefLosses * (pointSettings.RL ?? 0);
+  points += split.reliefAppearances * (pointSettings.RA ?? 0);
+
   // Allowed Stats
   points += estimateSinglesAllowed(stats) * (pointSettings['1B_allowed'] ?? 0);
   points += estimateDoublesAllowed(stats) * (pointSettings['2B_allowed'] ?? 0);
@@ -1756,10 +2094,11 @@ function calculatePitcherPoints(
 
 /**
  * Convert points to dollar values with market-aware distribution
- * This enhanced version applies inflation corrections based on historical data
+ * Dollars are shared by points above replacement; this enhanced version
+ * applies inflation corrections based on historical data
  */
 function convertPointsToDollarsMarketAdjusted(
-  players: Array<{ player: NormalizedProjection; points: number }>,
+  players: Array<{ player: NormalizedProjection; points: number; pointsAboveReplacement: number }>,
   poolSize: number,
   totalBudget: number,
   totalPoolPoints: number,
@@ -1775,8 +2114,8 @@ function convertPointsToDollarsMarketAdjusted(
     const isInPool = index < poolSize;
     let baseValue = 0;
 
-    if (isInPool && totalPoolPoints > 0 && p.points > 0) {
-      const pointsShare = p.points / totalPoolPoints;
+    if (isInPool && totalPoolPoints > 0 && p.pointsAboveReplacement > 0) {
+      const pointsShare = p.pointsAboveReplacement / totalPoolPoints;
       baseValue = MIN_AUCTION_VALUE + Math.round(pointsShare * distributableDollars);
     } else if (isInPool) {
       baseValue = MIN_AUCTION_VALUE;
@@ -1785,6 +2124,7 @@ function convertPointsToDollarsMarketAdjusted(
     return {
       player: p.player,
       points: p.points,
+      pointsAboveReplacement: p.pointsAboveReplacement,
       baseValue,
       tier: calculateTier(index, poolSize),
       isInPool,
@@ -1813,6 +2153,7 @@ function convertPointsToDollarsMarketAdjusted(
     ...p.player,
     auctionValue: p.baseValue,
     pointsValue: p.points,
+    pointsAboveReplacement: p.pointsAboveReplacement,
     tier: p.tier,
     isInDraftPool: p.isInPool,
   }));
@@ -1948,6 +2289,116 @@ function getEnabledPitchingCategories(settings: LeagueSettings): string[] {
   return enabled;
 }
 
+// ============================================================================
+// KEEPER ADJUSTMENTS
+// ============================================================================
+
+/**
+ * Remove keepers from the auction and reprice the remaining pool
+ *
+ * Each keeper takes a roster slot out of the hitter or pitcher pool and
+ * their salary out of that budget. Keepers kept below value leave more money
+ * chasing fewer good players, so that surplus inflates every remaining pool
+ * player's dollars above the $1 minimum. Keepers keep their pre-keeper value
+ * so surplus (value - salary) can be shown next to the salary.
+ */
+function applyKeeperAdjustments(
+  players: PlayerWithValue[],
+  keepers: KeeperEntry[],
+  hitterPoolSize: number,
+  pitcherPoolSize: number,
+  hitterBudget: number,
+  pitcherBudget: number
+): PlayerWithValue[] {
+  const keeperMap = matchKeepersToPlayers(keepers, players);
+  if (keeperMap.size === 0) {
+    return players;
+  }
+
+  const reprice = (playerType: 'hitter' | 'pitcher', poolSize: number, budget: number): PlayerWithValue[] => {
+    const ofType = players.filter(p => p.playerType === playerType);
+    const kept: PlayerWithValue[] = [];
+    const available: PlayerWithValue[] = [];
+
+    for (const player of ofType) {
+      const keeper = keeperMap.get(player.externalId);
+      if (keeper) {
+        kept.push({ ...player, isInDraftPool: false, keeperSalary: keeper.salary, keptBy: keeper.teamName });
+      } else {
+        available.push(player);
+      }
+    }
+    if (kept.length === 0) {
+      return ofType;
+    }
+
+    const remainingPoolSize = Math.max(0, poolSize - kept.length);
+    const remainingBudget = budget - kept.reduce((sum, p) => sum + (p.keeperSalary ?? 0), 0);
+    available.sort((a, b) => b.auctionValue - a.auctionValue);
+
+    // Spread what's left above the $1 reserves over the remaining pool's value above $1
+    const poolPlayers = available.slice(0, remainingPoolSize);
+    const distributable = Math.max(0, remainingBudget - remainingPoolSize * MIN_AUCTION_VALUE);
+    const poolSurplusValue = poolPlayers.reduce((sum, p) => sum + Math.max(0, p.auctionValue - MIN_AUCTION_VALUE), 0);
+    const scale = poolSurplusValue > 0 ? distributable / poolSurplusValue : 1;
+
+    const repriced = available.map((player, index) => {
+      if (index >= remainingPoolSize) {
+        return { ...player, isInDraftPool: false };
+      }
+      const aboveMinimum = Math.max(0, player.auctionValue - MIN_AUCTION_VALUE);
+      return {
+        ...player,
+        auctionValue: Math.round(MIN_AUCTION_VALUE + aboveMinimum * scale),
+        isInDraftPool: true,
+      };
+    });
+
+    return [...repriced, ...kept];
+  };
+
+  return [
+    ...reprice('hitter', hitterPoolSize, hitterBudget),
+    ...reprice('pitcher', pitcherPoolSize, pitcherBudget),
+  ];
+}
+
+/**
+ * Match keepers to valued players by projection ID, falling back to name
+ * When a name matches several players, the most valuable one is kept
+ */
+function matchKeepersToPlayers(
+  keepers: KeeperEntry[],
+  players: PlayerWithValue[]
+): Map<string, KeeperEntry> {
+  const playersById = new Map(players.map(p => [p.externalId, p]));
+  const playersByName = new Map<string, PlayerWithValue>();
+  for (const player of [...players].sort((a, b) => b.auctionValue - a.auctionValue)) {
+    const key = normalizeName(player.name);
+    if (!playersByName.has(key)) {
+      playersByName.set(key, player);
+    }
+  }
+
+  const keeperMap = new Map<string, KeeperEntry>();
+  const unmatched: string[] = [];
+  for (const keeper of keepers) {
+    const player = (keeper.playerId ? playersById.get(keeper.playerId) : undefined)
+      ?? playersByName.get(normalizeName(keeper.playerName));
+    if (player) {
+      keeperMap.set(player.externalId, keeper);
+    } else {
+      unmatched.push(keeper.playerName);
+    }
+  }
+
+  if (unmatched.length > 0) {
+    logger.warn({ unmatched }, 'Keepers not found in projections');
+  }
+
+  return keeperMap;
+}
+
 // ============================================================================
 // DYNASTY VALUE CALCULATIONS
 // ============================================================================
@@ -1956,7 +2407,8 @@ function getEnabledPitchingCategories(settings: LeagueSettings): string[] {
  * Apply dynasty adjustments to calculated auction values
  *
  * Dynasty value blends:
- * 1. Steamer projections (short-term production) - uses existing auction values
+ * 1. Multi-year projection value - this season's auction value aged forward
+ *    and priced over the league's keeper contract (see dynastyProjection)
  * 2. Dynasty rankings (long-term value including age, upside, contract)
  *
  * Key insight: We blend at the DOLLAR level, not the score level.
@@ -1973,6 +2425,7 @@ function applyDynastyAdjustments(
 ): PlayerWithDynastyValue[] {
   const dynastyWeight = settings.dynastySettings?.dynastyWeight ?? 0.5;
   const includeMinors = settings.dynastySettings?.includeMinors ?? false;
+  const contractTerms = getDynastyContractTerms(settings.dynastySettings);
 
   // Filter dynasty rankings based on includeMinors setting
   // When includeMinors is false, only include players at MLB level
@@ -2023,6 +2476,7 @@ function applyDynastyAdjustments(
     hitters,
     rankingMap,
     dynastyWeight,
+    contractTerms,
     hitterPoolSize,
     hitterBudget
   );
@@ -2031,6 +2485,7 @@ function applyDynastyAdjustments(
     pitchers,
     rankingMap,
     dynastyWeight,
+    contractTerms,
     pitcherPoolSize,
     pitcherBudget
   );
@@ -2043,8 +2498,9 @@ function applyDynastyAdjustments(
  *
  * This approach:
  * 1. Calculates a "dynasty dollar value" based purely on dynasty rank
- * 2. Blends dynasty dollars with Steamer dollars based on dynastyWeight
- * 3. Re-normalizes to ensure budget constraints
+ * 2. Prices each player's contract over the projection window with aging curves
+ * 3. Blends dynasty dollars with multi-year dollars based on dynastyWeight
+ * 4. Re-normalizes to ensure budget constraints
  *
  * Key insight: Dynasty rank should ADD value for prospects, not just multiply.
  * A #15 dynasty prospect should be worth $25-40+ regardless of their 2025 Steamer projection.
@@ -2053,6 +2509,7 @@ function calculateDynastyAdjustedValuesDollarBased(
   players: PlayerWithValue[],
   rankingMap: Map<string, DynastyRanking>,
   dynastyWeight: number,
+  contractTerms: DynastyContractTerms,
   poolSize: number,
   totalBudget: number
 ): PlayerWithDynastyValue[] {
@@ -2068,6 +2525,15 @@ function calculateDynastyAdjustedValuesDollarBased(
     const dynastyRanking = rankingMap.get(player.externalId);
     const steamerValue = player.auctionValue;
 
+    // Age this season's value forward and price it over the keeper contract
+    const yearlyValues = projectYearlyValues(
+      steamerValue,
+      dynastyRanking?.age,
+      getAgingGroup(player.positions, player.playerType),
+      contractTerms.projectionYears
+    );
+    const multiYearValue = calculateContractValue(yearlyValues, contractTerms);
+
     let dynastyDollarValue = 0; // Dollar value based purely on dynasty rank
     let dynastyRank: number | undefined;
     let hasNoDynastyData = false; // Track if player is unranked
@@ -2112,15 +2578,17 @@ function calculateDynastyAdjustedValuesDollarBased(
       dynastyDollarValue = 0;
     }
 
-    // Blend Steamer value with Dynasty dollar value based on dynastyWeight
-    // dynastyWeight of 0.65 means: 35% Steamer value + 65% dynasty dollar value
-    const adjustedValue = (1 - dynastyWeight) * steamerValue + dynastyWeight * dynastyDollarValue;
+    // Blend multi-year value with Dynasty dollar value based on dynastyWeight
+    // dynastyWeight of 0.65 means: 35% multi-year value + 65% dynasty dollar value
+    const adjustedValue = (1 - dynastyWeight) * multiYearValue + dynastyWeight * dynastyDollarValue;
 
     return {
       ...player,
       dynastyRank,
       dynastyValue: dynastyRanking?.dynastyValue,
       steamerValue,
+      multiYearValue: Math.round(multiYearValue * 10) / 10,
+      yearlyValues: yearlyValues.map(v => Math.round(v * 10) / 10),
       adjustedValue, // Temporary field for sorting
       hasNoDynastyData, // Track if player is unranked
     } as PlayerWithDynastyValue & { adjustedValue: number; hasNoDynastyData: boolean };
@@ -2252,37 +2720,6 @@ function calculateDynastyAdjustedValuesDollarBased(
   return results;
 }
 
-/**
- * Calculate age-based value adjustment for dynasty leagues
- *
- * Young players get a premium (more peak years ahead)
- * Older players get a discount (decline curve approaching)
- */
-function calculateAgeAdjustment(age: number): number {
-  if (age < 23) {
-    // Very young - high upside but also more risk
-    return 1.12;
-  } else if (age < 26) {
-    // Young prime - best years ahead
-    return 1.15;
-  } else if (age < 28) {
-    // Early prime - peak production expected
-    return 1.08;
-  } else if (age < 30) {
-    // Prime years - still valuable
-    return 1.0;
-  } else if (age < 32) {
-    // Late prime - some decline expected
-    return 0.92;
-  } else if (age < 35) {
-    // Decline phase
-    return 0.82;
-  } else {
-    // Late career - significant decline risk
-    return 0.70;
-  }
-}
-
 /**
  * Calculate tier from rank position
  */
@@ -1,4 +1,10 @@
 // Types for Couch Managers auction scraping
+//
+// ScrapedAuctionData is also the contract for every auction source adapter:
+// other platforms map their room state onto it (couchManagersId holds the
+// source's own numeric player ID).
+
+import type { AuctionSourceType } from '../../src/lib/types.js';
 
 export interface ScrapedPlayer {
   couchManagersId: number;
@@ -17,6 +23,9 @@ export interface ScrapedPlayer {
   status: 'available' | 'drafted' | 'on_block' | 'passed';
   winningBid?: number;
   winningTeam?: string;
+  // Position of the sale in Couch Managers' recent auction list (higher = sold
+  // later). Missing for sales older than that list.
+  saleOrder?: number;
   // Stats from playerArray (batting avg, HR, RBI, SB, runs)
   stats?: {
     avg?: string;
@@ -57,6 +66,25 @@ export interface ScrapedAuctionData {
   totalMoneySpent: number;
 }
 
+/**
+ * Supported live auction platforms, as a runtime list for request validation.
+ * Stored on League.auctionSourceType; the type itself lives in src/lib/types.ts.
+ */
+export const AUCTION_SOURCE_TYPES = ['couchmanagers'] as const satisfies readonly AuctionSourceType[];
+
+/**
+ * A live auction platform. Implementations fetch raw room state only -
+ * caching, scrape locking and notifications are handled by auctionScrapeService.
+ */
+export interface AuctionSourceAdapter {
+  type: AuctionSourceType;
+  displayName: string;
+  /** Full room state: players, teams, active auctions and totals */
+  fetchRoomState(sourceId: string): Promise<ScrapedAuctionData>;
+  /** Releases long-lived resources (browsers, sockets) on shutdown */
+  close?(): Promise<void>;
+}
+
 export interface MatchedPlayer {
   scrapedPlayer: ScrapedPlayer;
   projectionPlayerId: string | null;
@@ -95,6 +123,25 @@ export interface AuctionSyncResult {
   matchedPlayers: MatchedPlayer[];
   inflationStats: InflationStats;
   unmatchedPlayers: ScrapedPlayer[];
+  /** Pass back on the next sync to receive an AuctionSyncDelta */
+  cursor?: string;
+}
+
+/**
+ * Incremental sync response - only what changed since the client's cursor.
+ * Returned instead of AuctionSyncResult when the cursor is still known.
+ */
+export interface AuctionSyncDelta {
+  mode: 'delta';
+  cursor: string;
+  baseCursor: string;
+  auctionData: Omit<ScrapedAuctionData, 'players' | 'teams'>;
+  changedPlayers: ScrapedPlayer[];  // Status, winning bid or winning team changed
+  changedMatches: MatchedPlayer[];  // Match results for changedPlayers (missing = unmatched)
+  changedTeams: ScrapedTeam[];      // Budget or roster count changed
+  removedPlayerIds: number[];       // Couch Managers IDs no longer in the room
+  removedTeamNames: string[];       // Teams no longer in the room
+  inflationStats: InflationStats;   // Always recalculated in full
 }
 
 /**
@@ -121,6 +168,16 @@ export interface TeamBudgetConstraint {
   canAffordThreshold: number;       // Max player value they can reasonably bid
 }
 
+/**
+ * Keeper salary and value, as passed to inflation calculations
+ */
+export interface KeeperCost {
+  teamName: string;
+  playerName: string;
+  salary: number;
+  projectedValue: number;           // Value before keepers were removed from the pool
+}
+
 /**
  * Enhanced inflation stats with positional scarcity and team constraints
  */
@@ -130,4 +187,131 @@ export interface EnhancedInflationStats extends InflationStats {
   leagueEffectiveBudget: number;    // Sum of all team effectiveBudgets
   adjustedRemainingBudget: number;  // Effective budget for forward-looking inflation
   remainingProjectedValue: number;  // Sum of projected values for undrafted players
+  keeperSalaries?: number;          // Budget already committed to keepers
+  keeperSurplus?: number;           // Keeper value above salary (inflates the rest of the pool)
+}
+
+/**
+ * Simulated final price distribution for a player still in the pool
+ */
+export interface PlayerPriceForecast {
+  playerId: string;
+  p10: number;
+  p50: number;
+  p90: number;
+  mean: number;
+  draftedRate: number;              // Share of simulations in which the player was drafted (0-1)
+}
+
+/**
+ * A bid that appeared or changed on a player currently on the block
+ */
+export interface AuctionBidChange {
+  playerId: number;
+  playerName: string;
+  previousBid: number | null;       // null when the player was just nominated
+  currentBid: number;
+  currentBidder: string;
+  timeRemaining: number;
+}
+
+/**
+ * A team whose budget or roster count changed between scrapes
+ */
+export interface AuctionTeamChange {
+  name: string;
+  previousRemaining: number | null; // null when the team was not seen before
+  remaining: number;
+  spent: number;
+  playersDrafted: number;
+}
+
+/**
+ * Incremental change between two consecutive scrapes of the same room.
+ * Pushed to live room subscribers instead of the full auction state.
+ */
+export interface AuctionRoomDiff {
+  roomId: string;
+  scrapedAt: string;
+  status: ScrapedAuctionData['status'];
+  newlyDrafted: ScrapedPlayer[];
+  bidChanges: AuctionBidChange[];
+  closedAuctions: number[];         // Player IDs no longer on the block
+  teamChanges: AuctionTeamChange[];
+  totalPlayersDrafted: number;
+  totalMoneySpent: number;
+}
+
+/**
+ * One pick in a league's draft timeline, with league state as of that pick
+ */
+export interface DraftTimelineEvent {
+  pickNumber: number;
+  draftedAt: string;
+  player: {
+    id: string;
+    name: string;
+    team: string | null;
+    positions: string[];
+  };
+  draftedBy: string | null;          // Winning team name
+  price: number;
+  projectedValue: number | null;
+  inflationRateAtPick: number | null; // As recorded live during the sync
+  inflation: {
+    overallInflationRate: number;    // Replayed with calculateInflationStats
+    totalProjectedValue: number;
+    totalActualSpent: number;
+    draftedPlayersCount: number;
+    tierInflation: TierInflationData[];
+  };
+  teamBudgets: Array<{
+    name: string;
+    spent: number;
+    remaining: number;
+    playersDrafted: number;
+  }>;
+  positionalScarcity: PositionalScarcity[];
+}
+
+/**
+ * One row of an imported draft results CSV
+ */
+export interface DraftImportRow {
+  rowNumber: number;                // Line number in the CSV (header is line 1)
+  playerName: string;
+  mlbTeam: string;
+  positions: string[];              // Optional column - helps disambiguate matches
+  price: number;
+  fantasyTeam: string;
+  pickNumber?: number;
+}
+
+export interface DraftImportCandidate {
+  id: string;
+  name: string;
+  team: string;
+  positions: string[];
+  projectedValue: number;
+}
+
+/**
+ * Row that could not be matched to a projection, with likely players
+ * the user can pick from to resolve it
+ */
+export interface DraftImportUnmatchedRow {
+  row: DraftImportRow;
+  candidates: DraftImportCandidate[];
+}
+
+export interface DraftImportResult {
+  leagueId: string;
+  applied: boolean;                 // false for dry runs
+  complete: boolean;                // Every row imported, so the draft is (or would be) marked complete
+  totalRows: number;
+  importedCount: number;
+  teams: string[];
+  unmatched: DraftImportUnmatchedRow[];
+  rowErrors: Array<{ rowNumber: number; message: string }>;
+  lastModified?: string;
 }
@@ -5,6 +5,8 @@
  */
 
 import { User } from '@prisma/client';
+import { getEffectiveTier, getEntitlements } from '../services/entitlements.js';
+import type { Entitlements, SubscriptionInfo } from '../../src/lib/types.js';
 
 /**
  * User information attached to authenticated requests
@@ -29,6 +31,7 @@ export interface AccessTokenPayload {
   userId: string;
   email: string;
   type: 'access';
+  sessionId?: string; // Refresh token row ID; missing on tokens issued before sessions were tracked
   iat?: number;
   exp?: number;
 }
@@ -44,6 +47,40 @@ export interface RefreshTokenPayload {
   exp?: number;
 }
 
+/**
+ * JWT 2FA Challenge Token Payload
+ * Issued after the first factor; exchanged for session tokens at /api/auth/2fa/verify
+ */
+export interface TwoFactorChallengePayload {
+  userId: string;
+  challengeId: string; // Must match User.twoFactorChallengeId
+  type: 'two_factor';
+  iat?: number;
+  exp?: number;
+}
+
+/**
+ * Where a session was started or refreshed from
+ */
+export interface SessionClient {
+  userAgent: string | null;
+  ipAddress: string | null;
+}
+
+/**
+ * Active session entry for the sessions list
+ */
+export interface SessionResponse {
+  id: string;
+  device: string; // e.g. "Chrome on macOS"
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  current: boolean; // The session making the request
+}
+
 /**
  * Generic token payload for verification
  */
@@ -83,6 +120,9 @@ export interface UserResponse {
   profilePictureUrl: string | null;
   authProvider: string;
   subscriptionTier: string;
+  subscription: SubscriptionInfo;
+  entitlements: Entitlements;
+  twoFactorEnabled: boolean;
   role: string; // "user" | "admin"
   createdAt: string;
   lastLoginAt: string | null;
@@ -97,6 +137,14 @@ export interface AuthResponse {
   refreshToken: string;
 }
 
+/**
+ * Login response when the account has 2FA enabled (no session tokens yet)
+ */
+export interface TwoFactorChallengeResponse {
+  twoFactorRequired: true;
+  challengeToken: string;
+}
+
 /**
  * Token refresh response (only new access token)
  */
@@ -108,13 +156,22 @@ export interface TokenRefreshResponse {
  * Converts a Prisma User to a safe UserResponse
  */
 export function toUserResponse(user: User): UserResponse {
+  const tier = getEffectiveTier(user);
   return {
     id: user.id,
     email: user.email,
     name: user.name,
     profilePictureUrl: user.profilePictureUrl,
     authProvider: user.authProvider,
-    subscriptionTier: user.subscriptionTier,
+    subscriptionTier: tier,
+    subscription: {
+      tier,
+      status: user.subscriptionStatus as SubscriptionInfo['status'],
+      currentPeriodEnd: user.subscriptionPeriodEnd?.toISOString(),
+      cancelAtPeriodEnd: user.subscriptionCancelAtPeriodEnd,
+    },
+    entitlements: getEntitlements(tier),
+    twoFactorEnabled: user.twoFactorEnabledAt !== null,
     role: user.role,
     createdAt: user.createdAt.toISOString(),
     lastLoginAt: user.lastLoginAt?.toISOString() || null,
@@ -122,7 +179,8 @@ export function toUserResponse(user: User): UserResponse {
 }
 
 /**
- * Converts a Prisma User to AuthUser (for request attachment)
+ * Converts a Prisma User to AuthUser (for request attachment).
+ * subscriptionTier is the effective tier, so lapsed subscriptions are free.
  */
 export function toAuthUser(user: User): AuthUser {
   return {
@@ -131,7 +189,7 @@ export function toAuthUser(user: User): AuthUser {
     name: user.name,
     profilePictureUrl: user.profilePictureUrl,
     authProvider: user.authProvider,
-    subscriptionTier: user.subscriptionTier,
+    subscriptionTier: getEffectiveTier(user),
     role: user.role,
     createdAt: user.createdAt,
     lastLoginAt: user.lastLoginAt,
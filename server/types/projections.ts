@@ -140,6 +140,54 @@ export interface NormalizedProjection {
 
   // Pitching stats (undefined for hitters)
   pitching?: PitchingStats;
+
+  // League stat edits applied to this line (only set when overridden)
+  statOverrides?: ProjectionStatOverrides;
+}
+
+/**
+ * A league's edits to one player's projected stat line
+ */
+export interface ProjectionStatOverrides {
+  hitting?: Partial<HittingStats>;
+  pitching?: Partial<PitchingStats>;
+}
+
+/**
+ * Projection systems that can be combined in a blend
+ */
+export type BlendableProjectionSystem = 'steamer' | 'batx' | 'ja' | 'oopsy';
+
+/**
+ * Relative weight per projection system for a blend (e.g. { steamer: 50, batx: 30, ja: 20 })
+ */
+export type ProjectionBlendWeights = Partial<Record<BlendableProjectionSystem, number>>;
+
+/**
+ * One row of an uploaded projection spreadsheet, after the client's column mapping.
+ * Stats not mapped are left out and derived (or zeroed) on the server.
+ */
+export interface CustomProjectionRow {
+  name: string;
+  team?: string;
+  positions?: string;       // Eligibility as written, e.g. "SS/2B"
+  playerType: 'hitter' | 'pitcher';
+  mlbamId?: number;
+  externalId?: string;
+  hitting?: Partial<HittingStats>;
+  pitching?: Partial<PitchingStats>;
+}
+
+/**
+ * Uploaded projection set as listed to its owner (projections omitted)
+ */
+export interface CustomProjectionSetSummary {
+  id: string;
+  name: string;
+  leagueId: string | null;
+  hitterCount: number;
+  pitcherCount: number;
+  createdAt: string;
 }
 
 /**
@@ -162,6 +210,61 @@ export interface ProjectionCacheEntry {
   projections: NormalizedProjection[];
 }
 
+/**
+ * Stored projection snapshot as listed (projections omitted)
+ */
+export interface ProjectionSnapshotSummary {
+  id: string;
+  projectionSystem: string;
+  season: number;
+  playerCount: number;
+  fetchedAt: string;
+}
+
+/**
+ * A player's auction value change between two snapshots
+ * fromValue is null for players new to the later snapshot, toValue for players dropped from it
+ */
+export interface SnapshotValueChange {
+  externalId: string;
+  name: string;
+  team: string;
+  positions: string[];
+  playerType: 'hitter' | 'pitcher';
+  fromValue: number | null;
+  toValue: number | null;
+  change: number;
+}
+
+/**
+ * Value movement between two snapshots of the same projection system
+ */
+export interface ProjectionSnapshotDiff {
+  from: ProjectionSnapshotSummary;
+  to: ProjectionSnapshotSummary;
+  risers: SnapshotValueChange[];
+  fallers: SnapshotValueChange[];
+  added: SnapshotValueChange[];
+  removed: SnapshotValueChange[];
+}
+
+/**
+ * The parts of a valued player that snapshot diffs and value history read
+ */
+export type SnapshotPlayerValue = Pick<
+  PlayerWithValue,
+  'externalId' | 'name' | 'team' | 'positions' | 'playerType' | 'auctionValue'
+>;
+
+/**
+ * A player's auction value in one snapshot
+ */
+export interface PlayerValueHistoryPoint {
+  snapshotId: string;
+  fetchedAt: string;
+  auctionValue: number;
+}
+
 /**
  * Player with calculated auction value
  */
@@ -169,8 +272,11 @@ export interface PlayerWithValue extends NormalizedProjection {
   auctionValue: number;      // Dollar value for auction
   sgpValue?: number;         // SGP contribution (for roto/cats)
   pointsValue?: number;      // Total points (for h2h points)
+  pointsAboveReplacement?: number; // Points over positional replacement (for h2h points)
   tier: number;              // Value tier (1-10)
   isInDraftPool: boolean;    // Whether player is in draftable pool
+  keeperSalary?: number;     // Salary when kept before the auction (out of the pool)
+  keptBy?: string;           // Fantasy team keeping the player
 }
 
 /**
@@ -191,7 +297,11 @@ export interface CalculatedValuesResult {
     pitcherBudget: number;
     leagueType?: 'redraft' | 'dynasty';
     dynastyWeight?: number;
+    keeperCount?: number;
+    keeperSalaries?: number;
+    keeperSurplus?: number;
   };
+  categoryWarnings?: string[]; // Scoring categories that were estimated or unsupported
   players: PlayerWithValue[];
 }
 
@@ -217,6 +327,28 @@ export interface DynastyRanking {
   };
 }
 
+/**
+ * Minor league prospect from the local prospect list
+ */
+export interface Prospect {
+  name: string;
+  team: string;
+  positions: string[];
+  level: DynastyRanking['level'];
+  eta: number; // Expected MLB debut season
+  rank: number; // Prospect rank (1 = best)
+  age: number | null;
+}
+
+/**
+ * Prospect with farm roster value
+ */
+export interface ProspectWithValue extends Prospect {
+  futureValue: number; // Rank value × chance of reaching MLB, discounted to the ETA
+  farmValue: number; // Dollars against the farm budget
+  isInFarmPool: boolean; // Whether prospect fills one of the league's MiLB slots
+}
+
 /**
  * Cache structure for dynasty rankings
  */
@@ -237,5 +369,7 @@ export interface PlayerWithDynastyValue extends PlayerWithValue {
   dynastyRank?: number;
   dynastyValue?: number; // Raw dynasty value
   steamerValue?: number; // Original steamer-only auction value
+  multiYearValue?: number; // Contract value over the projection window
+  yearlyValues?: number[]; // Aged auction value for each projected season
   blendedScore?: number; // Combined score before dollar conversion
 }
@@ -1,9 +1,11 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { toast, Toaster } from 'sonner';
-import { LeagueSettings, Player, SavedLeague, UserData } from './lib/types';
+import { LeagueSettings, Player, SavedLeague, UserData, DraftLogEntry } from './lib/types';
 import { generateMockPlayers } from './lib/mockData';
-import { calculateLeagueAuctionValues, convertToPlayers } from './lib/auctionApi';
-import { fetchLeagues, fetchLeague, createLeague as createLeagueApi, updateLeague as updateLeagueApi, deleteLeague as deleteLeagueApi, fetchDraftState, saveDraftState, DraftPlayerState } from './lib/leaguesApi';
+import { calculateLeagueAuctionValues, convertToPlayers, mergeRecalculatedValues } from './lib/auctionApi';
+import { hasPriceTargets } from './lib/calculations';
+import { getUnsavedDraftLog } from './lib/draftHistory';
+import { fetchLeagues, fetchLeague, createLeague as createLeagueApi, updateLeague as updateLeagueApi, deleteLeague as deleteLeagueApi, removeLeagueMember, fetchDraftState, saveDraftState, DraftPlayerState } from './lib/leaguesApi';
 import { ErrorBoundary } from './components/ErrorBoundary';
 import { LandingPage } from './components/LandingPage';
 import { LoginPage } from './components/LoginPage';
@@ -20,6 +22,15 @@ import { AccountScreen } from './components/AccountScreen';
 import { AdminDashboard } from './components/AdminDashboard';
 import { LeagueProjections } from './components/LeagueProjections';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
+import { UpgradeRequiredError } from './lib/authApi';
+
+// Invite link token, kept for the session so it survives signing in first
+const INVITE_TOKEN_KEY = 'pendingLeagueInviteToken';
+
+// Local-only leagues and leagues shared with me as a view-only member aren't saved
+function canSaveDraftToServer(league: SavedLeague): boolean {
+  return !league.id.startsWith('league-') && league.role !== 'member';
+}
 
 type AppScreen = 'landing' | 'login' | 'forgot-password' | 'reset-password' | 'google-callback' | 'leagues' | 'setup' | 'draft' | 'analysis' | 'account' | 'admin' | 'projections';
 
@@ -41,9 +52,21 @@ function AppContent() {
   // Track lastModified for optimistic locking of draft state
   const draftLastModifiedRef = useRef<string | null>(null);
 
+  // Latest player state and manual draft log reported by the draft room (used for saves)
+  const draftPlayersRef = useRef<Player[] | null>(null);
+  const draftLogRef = useRef<DraftLogEntry[] | null>(null);
+  const [initialDraftLog, setInitialDraftLog] = useState<DraftLogEntry[]>([]);
+  // Log entries the server already has - it only appends, so saves send the rest
+  const savedDraftLogIdsRef = useRef<Set<string>>(new Set());
+
   // Track reset password token from URL
   const [resetToken, setResetToken] = useState<string>('');
 
+  // League invite link token from URL (answered from the leagues list)
+  const [inviteToken, setInviteToken] = useState<string | undefined>(
+    () => sessionStorage.getItem(INVITE_TOKEN_KEY) ?? undefined
+  );
+
   // Check for special routes on mount (OAuth callback, password reset)
   useEffect(() => {
     const path = window.location.pathname;
@@ -57,6 +80,13 @@ function AppContent() {
       setCurrentScreen('reset-password');
       // Clean up the URL without reloading the page
       window.history.replaceState({}, '', '/reset-password');
+    } else if (path === '/invite') {
+      const token = searchParams.get('token');
+      if (token) {
+        sessionStorage.setItem(INVITE_TOKEN_KEY, token);
+        setInviteToken(token);
+      }
+      window.history.replaceState({}, '', '/');
     }
   }, []);
 
@@ -185,7 +215,8 @@ function AppContent() {
         email: user.email,
         leagues: [],
         authProvider: user.authProvider,
-        profilePicture: user.profilePictureUrl || undefined
+        profilePicture: user.profilePictureUrl || undefined,
+        subscription: user.subscription
       };
       setUserData(initialUserData);
 
@@ -360,6 +391,12 @@ function AppContent() {
           }
         }
       } catch (error) {
+        // Over the free plan's league limit, or dynasty mode on the free plan
+        if (error instanceof UpgradeRequiredError) {
+          toast.error('Upgrade to Premium', { description: error.message });
+          setCurrentScreen('leagues');
+          return;
+        }
         console.error('[App] Failed to save league to backend:', error);
         toast.error('League saved locally only', {
           description: 'Your league could not be saved to the server. It will be saved locally.',
@@ -446,6 +483,12 @@ function AppContent() {
     setCurrentLeague(league);
     setIsLoadingProjections(true);
 
+    if (league.role === 'member') {
+      toast.info('View only', {
+        description: 'This league is shared with you as a member, so draft changes are not saved.',
+      });
+    }
+
     try {
       // For backend leagues, fetch fresh settings from server to ensure cross-device consistency
       // This prevents issues where mobile/desktop have different cached settings
@@ -465,16 +508,21 @@ function AppContent() {
       }
 
       // Always reload full player projections from API using the freshest settings
-      const calculatedValues = await calculateLeagueAuctionValues(leagueToUse.settings);
+      const calculatedValues = await calculateLeagueAuctionValues(
+        leagueToUse.settings,
+        league.id.startsWith('league-') ? undefined : league.id
+      );
       const projectedPlayers = convertToPlayers(calculatedValues);
 
       // Fetch draft state from server (primary source for cross-device sync)
       // Only if league has a backend ID (not a local-only league)
       let serverDraftState: DraftPlayerState[] = [];
+      let serverDraftLog: DraftLogEntry[] = [];
       if (!league.id.startsWith('league-')) {
         try {
           const draftResult = await fetchDraftState(league.id);
           serverDraftState = draftResult.players;
+          serverDraftLog = draftResult.log;
           // Store lastModified for optimistic locking on future saves
           draftLastModifiedRef.current = draftResult.lastModified;
           if (import.meta.env.DEV) {
@@ -490,7 +538,7 @@ function AppContent() {
 
       // First, add localStorage draft data as fallback
       league.players.forEach(p => {
-        if (p.status === 'drafted' || p.status === 'onMyTeam' || p.isTargeted) {
+        if (p.status === 'drafted' || p.status === 'onMyTeam' || p.isTargeted || hasPriceTargets(p)) {
           draftedMap.set(p.id, {
             id: p.id,
             name: p.name,
@@ -498,6 +546,8 @@ function AppContent() {
             draftedPrice: p.draftedPrice,
             draftedBy: p.draftedBy,
             isTargeted: p.isTargeted,
+            valueOverride: p.valueOverride,
+            maxPrice: p.maxPrice,
           });
         }
       });
@@ -507,7 +557,7 @@ function AppContent() {
         draftedMap.set(p.id, p);
       });
 
-      // Merge draft status and isTargeted with full player projections
+      // Merge draft status, isTargeted and price targets with full player projections
       const mergedPlayers = projectedPlayers.map(p => {
         const savedPlayer = draftedMap.get(p.id);
         if (savedPlayer) {
@@ -521,6 +571,10 @@ function AppContent() {
           if (savedPlayer.isTargeted) {
             updates.isTargeted = true;
           }
+          if (hasPriceTargets(savedPlayer)) {
+            updates.valueOverride = savedPlayer.valueOverride;
+            updates.maxPrice = savedPlayer.maxPrice;
+          }
           if (Object.keys(updates).length > 0) {
             return { ...p, ...updates };
           }
@@ -529,6 +583,10 @@ function AppContent() {
       });
 
       setPlayers(mergedPlayers);
+      setInitialDraftLog(serverDraftLog);
+      savedDraftLogIdsRef.current = new Set(serverDraftLog.map(entry => entry.id));
+      draftPlayersRef.current = null;
+      draftLogRef.current = null;
 
       // Update the league in userData with full player data and fresh settings
       if (userData) {
@@ -562,6 +620,13 @@ function AppContent() {
 
   const handleDeleteLeague = async (leagueId: string) => {
     if (userData) {
+      // Shared leagues are left, not deleted
+      const league = userData.leagues.find(l => l.id === leagueId);
+      if (league?.role && league.role !== 'owner') {
+        await handleLeaveLeague(league);
+        return;
+      }
+
       // Optimistically update UI first
       const updatedUser = {
         ...userData,
@@ -586,6 +651,32 @@ function AppContent() {
     }
   };
 
+  const handleLeaveLeague = async (league: SavedLeague) => {
+    if (!userData || !user) return;
+    try {
+      await removeLeagueMember(league.id, user.id);
+      setUserData({
+        ...userData,
+        leagues: userData.leagues.filter(l => l.id !== league.id)
+      });
+    } catch (error) {
+      console.error('[App] Failed to leave league:', error);
+      toast.error('Failed to leave league');
+    }
+  };
+
+  // Accepted invites add a shared league - reload the list to pick it up
+  const handleInviteAccepted = async () => {
+    sessionStorage.removeItem(INVITE_TOKEN_KEY);
+    setInviteToken(undefined);
+    try {
+      const backendLeagues = await fetchLeagues();
+      setUserData((prev) => prev ? { ...prev, leagues: backendLeagues } : null);
+    } catch (error) {
+      console.error('[App] Failed to reload leagues after joining:', error);
+    }
+  };
+
   const handleEditLeague = async (updatedLeague: SavedLeague) => {
     if (userData) {
       // Optimistically update UI first
@@ -614,6 +705,27 @@ function AppContent() {
     }
   };
 
+  // Imported draft results live on the server - drop local draft status so it
+  // doesn't resurface as a fallback, then open the results
+  const handleDraftImported = (importedLeague: SavedLeague) => {
+    const updatedLeague: SavedLeague = {
+      ...importedLeague,
+      players: importedLeague.players.map(p =>
+        p.status === 'drafted' || p.status === 'onMyTeam'
+          ? { ...p, status: 'available', draftedPrice: undefined, draftedBy: undefined }
+          : p
+      ),
+    };
+    if (userData) {
+      setUserData({
+        ...userData,
+        leagues: userData.leagues.map(l => l.id === updatedLeague.id ? updatedLeague : l),
+      });
+    }
+    toast.success('Draft results imported');
+    handleContinueDraft(updatedLeague);
+  };
+
   const handleReloadProjections = async (league: SavedLeague, newProjectionSystem?: LeagueSettings['projectionSystem']) => {
     setIsLoadingProjections(true);
     setLoadingSettings(league.settings);
@@ -628,7 +740,10 @@ function AppContent() {
         ? { ...league.settings, projectionSystem: newProjectionSystem }
         : league.settings;
 
-      const calculatedValues = await calculateLeagueAuctionValues(settingsToUse);
+      const calculatedValues = await calculateLeagueAuctionValues(
+        settingsToUse,
+        league.id.startsWith('league-') ? undefined : league.id
+      );
       const projectedPlayers = convertToPlayers(calculatedValues);
 
       if (import.meta.env.DEV) {
@@ -686,16 +801,29 @@ function AppContent() {
     }
   };
 
+  // Keep the draft room's latest state for saves without re-rendering it
+  const handleDraftStateChange = useCallback((draftPlayers: Player[], log: DraftLogEntry[]) => {
+    draftPlayersRef.current = draftPlayers;
+    draftLogRef.current = log;
+  }, []);
+
+  // Keep the league's player values in step with stat overrides saved in the draft room
+  const handleProjectionsChange = useCallback((recalculated: Player[]) => {
+    setPlayers(prev => mergeRecalculatedValues(prev, recalculated));
+    setCurrentLeague(prev => prev ? { ...prev, players: mergeRecalculatedValues(prev.players, recalculated) } : prev);
+  }, []);
+
   const handleDraftComplete = () => {
     // Get the drafted players from the draft room
-    const myTeam = players.filter(p => p.status === 'onMyTeam');
+    const draftPlayers = draftPlayersRef.current ?? players;
+    const myTeam = draftPlayers.filter(p => p.status === 'onMyTeam');
     setFinalRoster(myTeam as any);
 
     // Update league status
     if (currentLeague && userData) {
       const updatedLeague: SavedLeague = {
         ...currentLeague,
-        players,
+        players: draftPlayers,
         lastModified: new Date().toISOString(),
         status: 'complete'
       };
@@ -716,13 +844,14 @@ function AppContent() {
 
   // Helper to save draft state immediately (used on navigation and beforeunload)
   const saveDraftStateNow = useCallback(async () => {
-    if (!currentLeague || currentLeague.id.startsWith('league-') || players.length === 0) {
+    const draftPlayers = draftPlayersRef.current ?? players;
+    if (!currentLeague || !canSaveDraftToServer(currentLeague) || draftPlayers.length === 0) {
       return;
     }
 
-    // Save players that are either drafted/on_block OR targeted (even if available)
-    const playersToSave: DraftPlayerState[] = players
-      .filter(p => p.status !== 'available' || p.isTargeted === true)
+    // Save players that are either drafted/on_block OR targeted/priced (even if available)
+    const playersToSave: DraftPlayerState[] = draftPlayers
+      .filter(p => p.status !== 'available' || p.isTargeted === true || hasPriceTargets(p))
       .map(p => ({
         id: p.id,
         name: p.name,
@@ -730,17 +859,23 @@ function AppContent() {
         draftedPrice: p.draftedPrice,
         draftedBy: p.draftedBy,
         isTargeted: p.isTargeted,
+        valueOverride: p.valueOverride,
+        maxPrice: p.maxPrice,
       }));
 
-    if (playersToSave.length > 0) {
+    // A manual draft log still needs saving after every pick is undone
+    const logEntries = getUnsavedDraftLog(draftLogRef.current, savedDraftLogIdsRef.current);
+    if (playersToSave.length > 0 || logEntries.length > 0) {
       try {
         const result = await saveDraftState(
           currentLeague.id,
           playersToSave,
-          draftLastModifiedRef.current || undefined
+          draftLastModifiedRef.current || undefined,
+          logEntries
         );
         if (result.success) {
           draftLastModifiedRef.current = result.lastModified;
+          logEntries.forEach(entry => savedDraftLogIdsRef.current.add(entry.id));
         }
       } catch (error) {
         console.error('[App] Failed to save draft state on navigation:', error);
@@ -758,6 +893,9 @@ function AppContent() {
     setPlayers([]);
     setFinalRoster([]);
     draftLastModifiedRef.current = null;
+    draftPlayersRef.current = null;
+    draftLogRef.current = null;
+    savedDraftLogIdsRef.current = new Set();
   };
 
   const handleSwitchLeague = async (league: SavedLeague) => {
@@ -771,7 +909,10 @@ function AppContent() {
 
     try {
       // Reload full player projections from API
-      const calculatedValues = await calculateLeagueAuctionValues(league.settings);
+      const calculatedValues = await calculateLeagueAuctionValues(
+        league.settings,
+        league.id.startsWith('league-') ? undefined : league.id
+      );
       const projectedPlayers = convertToPlayers(calculatedValues);
 
       // Update the league with fresh projections
@@ -807,9 +948,10 @@ function AppContent() {
   useEffect(() => {
     if (currentScreen === 'draft' && currentLeague && userData) {
       const interval = setInterval(async () => {
+        const draftPlayers = draftPlayersRef.current ?? players;
         const updatedLeague: SavedLeague = {
           ...currentLeague,
-          players,
+          players: draftPlayers,
           lastModified: new Date().toISOString()
         };
 
@@ -824,11 +966,11 @@ function AppContent() {
         setUserData(updatedUser);
 
         // Also save draft state to server for cross-device sync
-        // Only save if league has a backend ID (not a local-only league)
-        if (!currentLeague.id.startsWith('league-')) {
-          // Save players that are either drafted/on_block OR targeted (even if available)
-          const playersToSave: DraftPlayerState[] = players
-            .filter(p => p.status !== 'available' || p.isTargeted === true)
+        // Only save if league has a backend ID (not a local-only league) I can edit
+        if (canSaveDraftToServer(currentLeague)) {
+          // Save players that are either drafted/on_block OR targeted/priced (even if available)
+          const playersToSave: DraftPlayerState[] = draftPlayers
+            .filter(p => p.status !== 'available' || p.isTargeted === true || hasPriceTargets(p))
             .map(p => ({
               id: p.id,
               name: p.name,
@@ -836,14 +978,18 @@ function AppContent() {
               draftedPrice: p.draftedPrice,
               draftedBy: p.draftedBy,
               isTargeted: p.isTargeted,
+              valueOverride: p.valueOverride,
+              maxPrice: p.maxPrice,
             }));
 
           try {
             // Use optimistic locking to detect conflicts
+            const logEntries = getUnsavedDraftLog(draftLogRef.current, savedDraftLogIdsRef.current);
             const result = await saveDraftState(
               currentLeague.id,
               playersToSave,
-              draftLastModifiedRef.current || undefined
+              draftLastModifiedRef.current || undefined,
+              logEntries
             );
 
             if (result.conflict) {
@@ -857,6 +1003,7 @@ function AppContent() {
             } else if (result.success) {
               // Update lastModified for next save
               draftLastModifiedRef.current = result.lastModified;
+              logEntries.forEach(entry => savedDraftLogIdsRef.current.add(entry.id));
               if (import.meta.env.DEV) {
                 console.log('[App] Draft state saved to server:', playersToSave.length, 'players');
               }
@@ -873,7 +1020,7 @@ function AppContent() {
 
   // Save draft state when user leaves or refreshes the page
   useEffect(() => {
-    if (currentScreen !== 'draft' || !currentLeague || currentLeague.id.startsWith('league-')) {
+    if (currentScreen !== 'draft' || !currentLeague || !canSaveDraftToServer(currentLeague)) {
       return;
     }
 
@@ -945,6 +1092,7 @@ function AppContent() {
         <GoogleCallbackHandler
           onSuccess={handleLoginSuccess}
           onError={() => setCurrentScreen('login')}
+          onTwoFactorRequired={() => setCurrentScreen('login')}
         />
       )}
 
@@ -966,11 +1114,14 @@ function AppContent() {
             onEditLeague={handleEditLeague}
             onReloadProjections={handleReloadProjections}
             onViewProjections={handleViewProjections}
+            onDraftImported={handleDraftImported}
             onLogout={handleLogout}
             onAccount={() => setCurrentScreen('account')}
             onAdmin={user?.role === 'admin' ? () => setCurrentScreen('admin') : undefined}
             profilePicture={userData.profilePicture}
             subscription={userData.subscription}
+            inviteToken={inviteToken}
+            onInviteAccepted={handleInviteAccepted}
           />
         </ErrorBoundary>
       )}
@@ -1026,6 +1177,11 @@ function AppContent() {
             settings={currentLeague.settings}
             players={players}
             onComplete={handleDraftComplete}
+            leagueId={currentLeague.id.startsWith('league-') ? undefined : currentLeague.id}
+            initialDraftLog={initialDraftLog}
+            onDraftStateChange={handleDraftStateChange}
+            onProjectionsChange={handleProjectionsChange}
+            assignedTeamName={currentLeague.myTeamName}
           />
         </ErrorBoundary>
       )}
@@ -1057,6 +1213,7 @@ function AppContent() {
           <AccountScreen
             userData={userData}
             onUpdateUser={setUserData}
+            onLogout={handleLogout}
             onBack={handleBackToLeagues}
           />
         </ErrorBoundary>
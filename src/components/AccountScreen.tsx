@@ -9,14 +9,17 @@ import {
   sendTestSMS,
   NotificationSettings,
 } from '../lib/notificationsApi';
+import { TwoFactorSettings } from './TwoFactorSettings';
+import { SessionsPanel } from './SessionsPanel';
 
 interface AccountScreenProps {
   userData: UserData;
   onUpdateUser?: (updatedUser: UserData) => void; // Reserved for future use
+  onLogout: () => void | Promise<void>;
   onBack: () => void;
 }
 
-export function AccountScreen({ userData, onBack }: AccountScreenProps) {
+export function AccountScreen({ userData, onLogout, onBack }: AccountScreenProps) {
   const isGoogleUser = userData.authProvider === 'google';
   const subscription = userData.subscription || { tier: 'free', status: 'active' } as SubscriptionInfo;
 
@@ -228,6 +231,12 @@ export function AccountScreen({ userData, onBack }: AccountScreenProps) {
             </div>
           )}
 
+          {/* Two-Factor Authentication Section */}
+          <TwoFactorSettings />
+
+          {/* Active Sessions Section */}
+          <SessionsPanel onLogout={onLogout} />
+
           {/* Subscription Section */}
           <div className="bg-gradient-to-br from-slate-800 to-slate-900 border border-slate-700 rounded-2xl p-6 shadow-xl backdrop-blur-sm animate-slideInLeft" style={{ animationDelay: '0.2s' }}>
             <div className="flex items-center gap-3 mb-6">
@@ -297,15 +306,19 @@ export function AccountScreen({ userData, onBack }: AccountScreenProps) {
                       </li>
                       <li className="flex items-center gap-2">
                         <CheckCircle className="w-4 h-4 text-emerald-400" />
-                        Advanced analytics & insights
+                        Live auction sync (Couch Managers)
                       </li>
                       <li className="flex items-center gap-2">
                         <CheckCircle className="w-4 h-4 text-emerald-400" />
-                        Live auction sync (Couch Managers)
+                        Draft assistant chat
+                      </li>
+                      <li className="flex items-center gap-2">
+                        <CheckCircle className="w-4 h-4 text-emerald-400" />
+                        SMS bid and pick alerts
                       </li>
                       <li className="flex items-center gap-2">
                         <CheckCircle className="w-4 h-4 text-emerald-400" />
-                        Dynasty rankings integration
+                        Dynasty mode and rankings
                       </li>
                       <li className="flex items-center gap-2">
                         <CheckCircle className="w-4 h-4 text-emerald-400" />
@@ -328,7 +341,7 @@ export function AccountScreen({ userData, onBack }: AccountScreenProps) {
                     </span>
                   </div>
                   <p className="text-slate-300 text-sm mb-4">
-                    Premium subscriptions with advanced features, unlimited leagues, and live auction sync will be available soon.
+                    The free plan includes manual drafts and up to 3 leagues. Premium adds unlimited leagues, live auction sync, the draft assistant, SMS alerts, and dynasty mode.
                   </p>
                   <div className="flex items-center gap-3 p-3 bg-slate-900/50 rounded-lg">
                     <Clock className="w-5 h-5 text-amber-400 flex-shrink-0" />
@@ -17,6 +17,8 @@ import {
   ArrowLeft,
   LayoutDashboard,
   TrendingUp,
+  Crown,
+  KeyRound,
 } from 'lucide-react';
 import { useIsMobile } from './ui/use-mobile';
 import {
@@ -24,6 +26,8 @@ import {
   fetchUsers,
   fetchErrorLogs,
   updateUserRole,
+  updateUserSubscription,
+  resetUserTwoFactor,
   resolveError,
   unresolveError,
 } from '../lib/adminApi';
@@ -138,6 +142,33 @@ export function AdminDashboard({ onBack }: AdminDashboardProps) {
     }
   };
 
+  // Handle granting or revoking premium
+  const handleSubscriptionChange = async (userId: string, tier: 'free' | 'premium') => {
+    try {
+      await updateUserSubscription(userId, tier);
+      toast.success(tier === 'premium' ? 'Premium granted' : 'Premium revoked');
+      loadUsers();
+    } catch (error) {
+      console.error('Failed to update subscription:', error);
+      toast.error('Failed to update subscription');
+    }
+  };
+
+  // Handle resetting 2FA for a user locked out of their authenticator
+  const handleTwoFactorReset = async (user: AdminUserEntry) => {
+    if (!confirm(`Reset two-factor authentication for ${user.email}? They'll sign in with just their password until they set it up again.`)) {
+      return;
+    }
+    try {
+      await resetUserTwoFactor(user.id);
+      toast.success('Two-factor authentication reset');
+      loadUsers();
+    } catch (error) {
+      console.error('Failed to reset two-factor:', error);
+      toast.error('Failed to reset two-factor authentication');
+    }
+  };
+
   // Handle resolve error
   const handleResolveError = async (errorId: string) => {
     try {
@@ -533,6 +564,7 @@ export function AdminDashboard({ onBack }: AdminDashboardProps) {
                         <tr>
                           <th className="px-4 py-3 text-left text-xs font-medium text-slate-400 uppercase tracking-wider">User</th>
                           <th className="px-4 py-3 text-left text-xs font-medium text-slate-400 uppercase tracking-wider">Role</th>
+                          <th className="px-4 py-3 text-left text-xs font-medium text-slate-400 uppercase tracking-wider">Plan</th>
                           <th className="px-4 py-3 text-left text-xs font-medium text-slate-400 uppercase tracking-wider">Auth</th>
                           <th className="px-4 py-3 text-left text-xs font-medium text-slate-400 uppercase tracking-wider">Leagues</th>
                           <th className="px-4 py-3 text-left text-xs font-medium text-slate-400 uppercase tracking-wider">Joined</th>
@@ -543,7 +575,7 @@ export function AdminDashboard({ onBack }: AdminDashboardProps) {
                       <tbody className="divide-y divide-slate-700">
                         {users.length === 0 ? (
                           <tr>
-                            <td colSpan={7} className="px-4 py-8 text-center text-slate-400">
+                            <td colSpan={8} className="px-4 py-8 text-center text-slate-400">
                               No users found
                             </td>
                           </tr>
@@ -568,6 +600,18 @@ export function AdminDashboard({ onBack }: AdminDashboardProps) {
                                   </span>
                                 )}
                               </td>
+                              <td className="px-4 py-3 whitespace-nowrap">
+                                {user.subscriptionTier === 'premium' ? (
+                                  <span className="px-2 py-1 text-xs rounded-full bg-amber-500/20 text-amber-400 flex items-center gap-1 w-fit">
+                                    <Crown className="w-3 h-3" />
+                                    Premium
+                                  </span>
+                                ) : (
+                                  <span className="px-2 py-1 text-xs rounded-full bg-slate-500/20 text-slate-400">
+                                    Free
+                                  </span>
+                                )}
+                              </td>
                               <td className="px-4 py-3 whitespace-nowrap">
                                 <span className={`px-2 py-1 text-xs rounded-full ${
                                   user.authProvider === 'google'
@@ -587,6 +631,22 @@ export function AdminDashboard({ onBack }: AdminDashboardProps) {
                                 {user.lastLoginAt ? formatRelativeTime(user.lastLoginAt) : 'Never'}
                               </td>
                               <td className="px-4 py-3 whitespace-nowrap text-right">
+                                <button
+                                  onClick={() => handleSubscriptionChange(user.id, user.subscriptionTier === 'premium' ? 'free' : 'premium')}
+                                  className="p-1.5 rounded-lg hover:bg-amber-500/20 text-slate-400 hover:text-amber-400"
+                                  title={user.subscriptionTier === 'premium' ? 'Revoke premium' : 'Grant premium'}
+                                >
+                                  <Crown className="w-4 h-4" />
+                                </button>
+                                {user.twoFactorEnabled && (
+                                  <button
+                                    onClick={() => handleTwoFactorReset(user)}
+                                    className="p-1.5 rounded-lg hover:bg-blue-500/20 text-slate-400 hover:text-blue-400"
+                                    title="Reset two-factor authentication"
+                                  >
+                                    <KeyRound className="w-4 h-4" />
+                                  </button>
+                                )}
                                 {user.role === 'admin' ? (
                                   <button
                                     onClick={() => handleRoleChange(user.id, 'user')}
@@ -0,0 +1,126 @@
+import { useEffect, useState } from 'react';
+import { AlertCircle, Loader2, Trash2, Upload, Users } from 'lucide-react';
+import { CustomProjectionSetSummary } from '../lib/types';
+import { fetchCustomProjectionSets, deleteCustomProjectionSet } from '../lib/auctionApi';
+import { CustomProjectionUploadModal } from './CustomProjectionUploadModal';
+
+interface CustomProjectionSetPickerProps {
+  selectedSetId?: string;
+  // League the selection is for - uploads can be shared with it
+  leagueId?: string;
+  onChange: (setId: string | undefined) => void;
+}
+
+export function CustomProjectionSetPicker({ selectedSetId, leagueId, onChange }: CustomProjectionSetPickerProps) {
+  const [sets, setSets] = useState<CustomProjectionSetSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [isUploadOpen, setIsUploadOpen] = useState(false);
+
+  useEffect(() => {
+    fetchCustomProjectionSets()
+      .then(setSets)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load custom projection sets'))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const handleDelete = async (set: CustomProjectionSetSummary) => {
+    if (!confirm(`Delete "${set.name}"? Leagues using it will need another projection system.`)) return;
+    setError(null);
+    try {
+      await deleteCustomProjectionSet(set.id);
+      setSets(prev => prev.filter(s => s.id !== set.id));
+      if (selectedSetId === set.id) onChange(undefined);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete custom projection set');
+    }
+  };
+
+  return (
+    <div className="bg-slate-800/50 border border-slate-700 rounded-xl p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-slate-400 text-sm">
+          Values, standings and the assistant use the selected set just like Steamer.
+        </p>
+        <button
+          onClick={() => setIsUploadOpen(true)}
+          className="flex items-center gap-2 px-3 py-1.5 bg-slate-700 text-white text-sm rounded-lg hover:bg-slate-600 transition-colors"
+        >
+          <Upload className="w-4 h-4" />
+          Upload CSV
+        </button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-slate-400 text-sm">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Loading your projection sets...
+        </div>
+      ) : sets.length === 0 ? (
+        <div className="text-slate-500 text-sm">No custom projections uploaded yet.</div>
+      ) : (
+        <div className="space-y-2">
+          {sets.map(set => (
+            <div
+              key={set.id}
+              onClick={() => onChange(set.id)}
+              className={`flex items-center gap-3 px-3 py-2 rounded-lg border cursor-pointer transition-colors ${
+                selectedSetId === set.id
+                  ? 'border-red-500 bg-red-900/20'
+                  : 'border-slate-700 bg-slate-900/50 hover:border-slate-600'
+              }`}
+            >
+              <div className="flex-1 min-w-0">
+                <div className="text-white text-sm truncate">{set.name}</div>
+                <div className="text-slate-500 text-xs">
+                  {set.hitterCount} hitters, {set.pitcherCount} pitchers - {new Date(set.createdAt).toLocaleDateString()}
+                </div>
+              </div>
+              {set.leagueId && (
+                <span className="flex items-center gap-1 text-xs text-slate-400" title="Shared with a league">
+                  <Users className="w-3 h-3" />
+                  League
+                </span>
+              )}
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleDelete(set);
+                }}
+                className="p-1 text-slate-500 hover:text-red-400 transition-colors"
+                title="Delete"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {!isLoading && !selectedSetId && sets.length > 0 && (
+        <div className="flex items-center gap-2 text-red-300 text-sm">
+          <AlertCircle className="w-4 h-4" />
+          Select a projection set.
+        </div>
+      )}
+
+      {error && (
+        <div className="flex items-center gap-2 text-red-300 text-sm">
+          <AlertCircle className="w-4 h-4" />
+          {error}
+        </div>
+      )}
+
+      <CustomProjectionUploadModal
+        isOpen={isUploadOpen}
+        leagueId={leagueId}
+        onClose={() => setIsUploadOpen(false)}
+        onUploaded={(set) => {
+          setSets(prev => [set, ...prev]);
+          onChange(set.id);
+          setIsUploadOpen(false);
+        }}
+      />
+    </div>
+  );
+}
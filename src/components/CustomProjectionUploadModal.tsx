@@ -0,0 +1,199 @@
+import { useState } from 'react';
+import { CustomProjectionSetSummary } from '../lib/types';
+import { uploadCustomProjectionSet } from '../lib/auctionApi';
+import {
+  readProjectionCsv,
+  suggestColumnMapping,
+  buildProjectionRows,
+  getProjectionColumnFields,
+  ProjectionCsvTable,
+  ProjectionColumnMapping,
+  ProjectionPlayerType,
+} from '../lib/projectionCsvParser';
+import { X, Upload, FileSpreadsheet, AlertCircle, Loader2 } from 'lucide-react';
+
+interface CustomProjectionUploadModalProps {
+  isOpen: boolean;
+  // League the set can be shared with (only for leagues already saved to my account)
+  leagueId?: string;
+  onClose: () => void;
+  onUploaded: (set: CustomProjectionSetSummary) => void;
+}
+
+interface MappedFile {
+  fileName: string;
+  table: ProjectionCsvTable;
+  mapping: ProjectionColumnMapping;
+}
+
+const PLAYER_TYPES: Array<{ value: ProjectionPlayerType; label: string }> = [
+  { value: 'hitter', label: 'Hitters' },
+  { value: 'pitcher', label: 'Pitchers' },
+];
+
+export function CustomProjectionUploadModal({ isOpen, leagueId, onClose, onUploaded }: CustomProjectionUploadModalProps) {
+  const [name, setName] = useState('');
+  const [files, setFiles] = useState<Partial<Record<ProjectionPlayerType, MappedFile>>>({});
+  const [shareWithLeague, setShareWithLeague] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const handleFileUpload = async (playerType: ProjectionPlayerType, e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setError(null);
+    try {
+      const table = readProjectionCsv(await file.text());
+      setFiles(prev => ({
+        ...prev,
+        [playerType]: { fileName: file.name, table, mapping: suggestColumnMapping(table.headers, playerType) },
+      }));
+      if (!name) setName(file.name.replace(/\.[^.]+$/, ''));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read file');
+    }
+  };
+
+  const updateMapping = (playerType: ProjectionPlayerType, field: string, column: number) => {
+    setFiles(prev => {
+      const mapped = prev[playerType];
+      if (!mapped) return prev;
+      return { ...prev, [playerType]: { ...mapped, mapping: { ...mapped.mapping, [field]: column } } };
+    });
+  };
+
+  const handleUpload = async () => {
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const rows = PLAYER_TYPES.flatMap(({ value }) => {
+        const mapped = files[value];
+        return mapped ? buildProjectionRows(mapped.table, mapped.mapping, value) : [];
+      });
+      if (rows.length === 0) {
+        throw new Error('No players found - check that a column is mapped to Name');
+      }
+      const set = await uploadCustomProjectionSet(name.trim(), rows, leagueId && shareWithLeague ? leagueId : undefined);
+      onUploaded(set);
+      setFiles({});
+      setName('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to upload projections');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const hasFile = PLAYER_TYPES.some(({ value }) => files[value]);
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div
+        className="bg-slate-900 border border-slate-700 text-white max-w-3xl w-full rounded-lg p-6 max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center gap-2">
+            <FileSpreadsheet className="w-5 h-5 text-emerald-400" />
+            <h2 className="text-lg font-semibold">Upload Custom Projections</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 hover:bg-slate-800 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5 text-slate-400" />
+          </button>
+        </div>
+
+        <p className="text-slate-400 text-sm mb-4">
+          Upload a CSV of hitters and/or pitchers, then check which column feeds each stat.
+          Unmapped rate stats are calculated from the counting stats (e.g. AVG from H and AB).
+        </p>
+
+        <label className="block text-slate-400 text-sm mb-1">Name</label>
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="e.g. Commissioner projections 2026"
+          maxLength={100}
+          className="w-full px-3 py-2 mb-4 bg-slate-800 border border-slate-700 rounded-lg text-white placeholder-slate-600 focus:outline-none focus:border-emerald-500"
+        />
+
+        {PLAYER_TYPES.map(({ value: playerType, label }) => {
+          const mapped = files[playerType];
+          return (
+            <div key={playerType} className="mb-4">
+              <label className="flex items-center justify-center gap-2 w-full px-4 py-3 mb-3 bg-slate-800 border border-dashed border-slate-600 rounded-lg cursor-pointer hover:border-emerald-500/50 transition-colors">
+                <Upload className="w-4 h-4 text-slate-400" />
+                <span className="text-slate-300 text-sm">
+                  {mapped ? `${label}: ${mapped.fileName} (${mapped.table.rows.length} rows)` : `Choose ${label.toLowerCase()} CSV`}
+                </span>
+                <input type="file" accept=".csv,.tsv,.txt" onChange={(e) => handleFileUpload(playerType, e)} className="hidden" />
+              </label>
+
+              {mapped && (
+                <div className="grid grid-cols-3 gap-2 p-3 bg-slate-800/60 border border-slate-700 rounded-lg">
+                  {getProjectionColumnFields(playerType).map(({ field, label: fieldLabel }) => (
+                    <div key={field} className="flex items-center gap-2 text-sm">
+                      <span className="w-24 truncate text-slate-300">{fieldLabel}</span>
+                      <select
+                        value={mapped.mapping[field] ?? -1}
+                        onChange={(e) => updateMapping(playerType, field, parseInt(e.target.value, 10))}
+                        className="flex-1 min-w-0 px-2 py-1 bg-slate-800 border border-slate-700 rounded text-white"
+                      >
+                        <option value={-1}>-</option>
+                        {mapped.table.headers.map((header, index) => (
+                          <option key={index} value={index}>{header}</option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+
+        {leagueId && (
+          <label className="flex items-center gap-2 mb-4 text-sm text-slate-300">
+            <input
+              type="checkbox"
+              checked={shareWithLeague}
+              onChange={(e) => setShareWithLeague(e.target.checked)}
+              className="accent-emerald-500"
+            />
+            Share with this league&apos;s members
+          </label>
+        )}
+
+        {error && (
+          <div className="flex items-start gap-2 p-3 mb-4 bg-red-900/30 border border-red-500/30 rounded-lg text-red-300 text-sm">
+            <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-slate-800 text-slate-300 border border-slate-700 rounded-lg hover:bg-slate-700 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleUpload}
+            disabled={!hasFile || !name.trim() || isSubmitting}
+            className="px-4 py-2 bg-gradient-to-r from-emerald-600 to-green-700 text-white rounded-lg hover:from-emerald-700 hover:to-green-800 transition-all disabled:opacity-50 flex items-center gap-2"
+          >
+            {isSubmitting && <Loader2 className="w-4 h-4 animate-spin" />}
+            Upload Projections
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
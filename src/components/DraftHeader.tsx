@@ -1,6 +1,6 @@
 import { LeagueSettings } from '../lib/types';
 import { getInflationIndicator } from '../lib/calculations';
-import { DollarSign, Users, TrendingUp, Trophy } from 'lucide-react';
+import { DollarSign, Users, TrendingUp, Trophy, History, Sprout } from 'lucide-react';
 
 interface DraftHeaderProps {
   settings: LeagueSettings;
@@ -11,6 +11,8 @@ interface DraftHeaderProps {
   isMobile?: boolean;
   onOpenTeamRankings?: () => void;
   onOpenProjectedStandings?: () => void;
+  onOpenReplay?: () => void;
+  onOpenFarmProspects?: () => void;
 }
 
 export function DraftHeader({
@@ -22,6 +24,8 @@ export function DraftHeader({
   isMobile,
   onOpenTeamRankings,
   onOpenProjectedStandings,
+  onOpenReplay,
+  onOpenFarmProspects,
 }: DraftHeaderProps) {
   const totalRosterSpots = Object.values(settings.rosterSpots).reduce((a, b) => a + b, 0);
   const totalPlayersNeeded = totalRosterSpots * settings.numTeams;
@@ -195,6 +199,38 @@ export function DraftHeader({
                 </div>
               </button>
             )}
+
+            {/* Draft Replay Button */}
+            {onOpenReplay && (
+              <button
+                onClick={onOpenReplay}
+                className="flex items-center gap-3 bg-gradient-to-br from-sky-500/30 to-sky-600/30 hover:from-sky-500/50 hover:to-sky-600/50 px-4 py-3 rounded-xl border-2 border-sky-400/60 hover:border-sky-400 backdrop-blur-sm transition-all group shadow-lg shadow-sky-500/20 hover:shadow-sky-500/40"
+              >
+                <div className="p-2 bg-gradient-to-br from-sky-400 to-sky-500 rounded-lg group-hover:scale-110 transition-transform shadow-md">
+                  <History className="w-5 h-5 text-white" />
+                </div>
+                <div className="flex flex-col text-left">
+                  <span className="text-sky-200 font-semibold">Replay</span>
+                  <span className="text-sky-300/80 text-xs">Pick-by-pick timeline</span>
+                </div>
+              </button>
+            )}
+
+            {/* Farm Prospects Button */}
+            {onOpenFarmProspects && (
+              <button
+                onClick={onOpenFarmProspects}
+                className="flex items-center gap-3 bg-gradient-to-br from-lime-500/30 to-lime-600/30 hover:from-lime-500/50 hover:to-lime-600/50 px-4 py-3 rounded-xl border-2 border-lime-400/60 hover:border-lime-400 backdrop-blur-sm transition-all group shadow-lg shadow-lime-500/20 hover:shadow-lime-500/40"
+              >
+                <div className="p-2 bg-gradient-to-br from-lime-400 to-lime-500 rounded-lg group-hover:scale-110 transition-transform shadow-md">
+                  <Sprout className="w-5 h-5 text-white" />
+                </div>
+                <div className="flex flex-col text-left">
+                  <span className="text-lime-200 font-semibold">Farm</span>
+                  <span className="text-lime-300/80 text-xs">Prospect values</span>
+                </div>
+              </button>
+            )}
           </div>
         )}
       </div>
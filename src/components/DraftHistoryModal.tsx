@@ -0,0 +1,182 @@
+import { useEffect, useState } from 'react';
+import { Player, DraftLogEntry, ManualPick } from '../lib/types';
+import { describeDraftAction } from '../lib/draftHistory';
+import { History, X, Undo2, Redo2, Trash2 } from 'lucide-react';
+
+interface DraftHistoryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  picks: Player[];
+  teams: string[];
+  log: DraftLogEntry[];
+  onEditPick: (player: Player, pick: ManualPick | null) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+interface PickRowProps {
+  player: Player;
+  teams: string[];
+  onEditPick: (player: Player, pick: ManualPick | null) => void;
+}
+
+function PickRow({ player, teams, onEditPick }: PickRowProps) {
+  const teamName = player.draftedBy ?? '';
+  const price = player.draftedPrice ?? 0;
+  const [priceInput, setPriceInput] = useState(String(price));
+
+  // Undo/redo can change the price underneath the input
+  useEffect(() => {
+    setPriceInput(String(price));
+  }, [price]);
+
+  const commitPrice = () => {
+    const newPrice = parseInt(priceInput, 10);
+    if (isNaN(newPrice) || newPrice < 0) {
+      setPriceInput(String(price));
+      return;
+    }
+    onEditPick(player, { teamName, price: newPrice });
+  };
+
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      <span className="flex-1 truncate text-slate-200">{player.name}</span>
+      <select
+        value={teamName}
+        onChange={(e) => onEditPick(player, { teamName: e.target.value, price })}
+        className="w-32 px-2 py-1 bg-slate-800 border border-slate-700 rounded text-white focus:outline-none focus:border-emerald-500"
+      >
+        {/* Keep a team that is no longer in the list selectable */}
+        {!teams.includes(teamName) && <option value={teamName}>{teamName}</option>}
+        {teams.map(team => (
+          <option key={team} value={team}>{team}</option>
+        ))}
+      </select>
+      <span className="text-slate-400">$</span>
+      <input
+        type="number"
+        min="0"
+        value={priceInput}
+        onChange={(e) => setPriceInput(e.target.value)}
+        onBlur={commitPrice}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') commitPrice();
+        }}
+        className="w-16 px-2 py-1 bg-slate-800 border border-slate-700 rounded text-white focus:outline-none focus:border-emerald-500"
+      />
+      <button
+        onClick={() => onEditPick(player, null)}
+        className="p-1 text-slate-400 hover:text-red-400 transition-colors"
+        title="Remove pick"
+      >
+        <Trash2 className="w-4 h-4" />
+      </button>
+    </div>
+  );
+}
+
+export function DraftHistoryModal({
+  isOpen,
+  onClose,
+  picks,
+  teams,
+  log,
+  onEditPick,
+  onUndo,
+  onRedo,
+  canUndo,
+  canRedo,
+}: DraftHistoryModalProps) {
+  const [activeTab, setActiveTab] = useState<'picks' | 'history'>('picks');
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div
+        className="bg-slate-900 border border-slate-700 text-white max-w-2xl w-full rounded-lg p-6 max-h-[90vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center gap-2">
+            <History className="w-5 h-5 text-sky-400" />
+            <h2 className="text-lg font-semibold">Draft Entries</h2>
+          </div>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={onUndo}
+              disabled={!canUndo}
+              className="p-1.5 hover:bg-slate-800 rounded-lg transition-colors disabled:opacity-40"
+              title="Undo"
+            >
+              <Undo2 className="w-4 h-4 text-slate-300" />
+            </button>
+            <button
+              onClick={onRedo}
+              disabled={!canRedo}
+              className="p-1.5 hover:bg-slate-800 rounded-lg transition-colors disabled:opacity-40"
+              title="Redo"
+            >
+              <Redo2 className="w-4 h-4 text-slate-300" />
+            </button>
+            <button
+              onClick={onClose}
+              className="p-1 hover:bg-slate-800 rounded-lg transition-colors ml-2"
+            >
+              <X className="w-5 h-5 text-slate-400" />
+            </button>
+          </div>
+        </div>
+
+        {/* Tabs */}
+        <div className="flex gap-2 mb-4">
+          {(['picks', 'history'] as const).map(tab => (
+            <button
+              key={tab}
+              onClick={() => setActiveTab(tab)}
+              className={`px-3 py-1.5 rounded-lg text-sm transition-colors ${
+                activeTab === tab ? 'bg-slate-700 text-white' : 'text-slate-400 hover:bg-slate-800'
+              }`}
+            >
+              {tab === 'picks' ? `Picks (${picks.length})` : `History (${log.length})`}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex-1 overflow-y-auto min-h-0">
+          {activeTab === 'picks' ? (
+            picks.length === 0 ? (
+              <p className="text-slate-500 text-sm py-6 text-center">No picks recorded yet.</p>
+            ) : (
+              <div className="space-y-2">
+                {[...picks].reverse().map(player => (
+                  <PickRow key={player.id} player={player} teams={teams} onEditPick={onEditPick} />
+                ))}
+              </div>
+            )
+          ) : log.length === 0 ? (
+            <p className="text-slate-500 text-sm py-6 text-center">No changes recorded yet.</p>
+          ) : (
+            <div className="space-y-1">
+              {[...log].reverse().map(entry => (
+                <div key={entry.id} className="flex items-center gap-3 text-sm py-1 border-b border-slate-800">
+                  <span className="text-slate-500 w-20 shrink-0">{new Date(entry.at).toLocaleTimeString()}</span>
+                  {entry.op !== 'do' && (
+                    <span className="px-1.5 py-0.5 rounded text-xs bg-amber-500/20 text-amber-300 uppercase">
+                      {entry.op}
+                    </span>
+                  )}
+                  <span className="flex-1 text-slate-200">{describeDraftAction(entry.action)}</span>
+                  {entry.by && <span className="text-slate-500 truncate max-w-[8rem]">{entry.by}</span>}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,228 @@
+import { useState } from 'react';
+import { SavedLeague, DraftImportResult } from '../lib/types';
+import { importDraftResults } from '../lib/leaguesApi';
+import { X, Upload, FileSpreadsheet, AlertCircle, CheckCircle, Loader2 } from 'lucide-react';
+
+interface DraftImportModalProps {
+  league: SavedLeague;
+  isOpen: boolean;
+  onClose: () => void;
+  onImported: (league: SavedLeague) => void;
+}
+
+export function DraftImportModal({ league, isOpen, onClose, onImported }: DraftImportModalProps) {
+  const [csvText, setCsvText] = useState('');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [myTeamName, setMyTeamName] = useState('');
+  const [resolutions, setResolutions] = useState<Record<number, string>>({});
+  const [preview, setPreview] = useState<DraftImportResult | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setCsvText(await file.text());
+    setFileName(file.name);
+    setPreview(null);
+    setResolutions({});
+    setError(null);
+  };
+
+  const runImport = async (dryRun: boolean) => {
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const result = await importDraftResults(league.id, csvText, {
+        myTeamName: myTeamName.trim() || undefined,
+        resolutions,
+        // Rows left on "Skip" in the preview are skipped on purpose
+        skipUnmatched: !dryRun,
+        dryRun,
+      });
+      if (dryRun) {
+        setPreview(result);
+      } else {
+        onImported({
+          ...league,
+          status: result.complete ? 'complete' : league.status,
+          lastModified: result.lastModified ?? league.lastModified,
+        });
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import draft results');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const resolvedCount = preview ? preview.unmatched.filter(u => resolutions[u.row.rowNumber]).length : 0;
+  const skippedCount = preview ? preview.unmatched.length - resolvedCount + preview.rowErrors.length : 0;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div
+        className="bg-slate-900 border border-slate-700 text-white max-w-2xl w-full rounded-lg p-6 max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center gap-2">
+            <FileSpreadsheet className="w-5 h-5 text-emerald-400" />
+            <h2 className="text-lg font-semibold">Import Draft Results</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 hover:bg-slate-800 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5 text-slate-400" />
+          </button>
+        </div>
+
+        <p className="text-slate-400 text-sm mb-4">
+          Upload or paste a CSV with columns for player, price and fantasy team (e.g. Owner).
+          MLB team, position and pick order columns are optional but improve matching.
+          Importing replaces the drafted players in this league.
+        </p>
+
+        {/* CSV input */}
+        <label className="flex items-center justify-center gap-2 w-full px-4 py-3 mb-3 bg-slate-800 border border-dashed border-slate-600 rounded-lg cursor-pointer hover:border-emerald-500/50 transition-colors">
+          <Upload className="w-4 h-4 text-slate-400" />
+          <span className="text-slate-300 text-sm">{fileName ?? 'Choose CSV file'}</span>
+          <input type="file" accept=".csv,.tsv,.txt" onChange={handleFileUpload} className="hidden" />
+        </label>
+        <textarea
+          value={csvText}
+          onChange={(e) => {
+            setCsvText(e.target.value);
+            setFileName(null);
+            setPreview(null);
+          }}
+          placeholder={'Player,Team,Price,Owner,Pick\nAaron Judge,NYY,52,Team Alpha,1'}
+          rows={6}
+          className="w-full px-3 py-2 mb-3 bg-slate-800 border border-slate-700 rounded-lg text-sm text-white font-mono placeholder-slate-600 focus:outline-none focus:border-emerald-500"
+        />
+
+        <label className="block text-slate-400 text-sm mb-1">Your team</label>
+        {preview && preview.teams.length > 0 ? (
+          <select
+            value={myTeamName}
+            onChange={(e) => setMyTeamName(e.target.value)}
+            className="w-full px-3 py-2 mb-4 bg-slate-800 border border-slate-700 rounded-lg text-white focus:outline-none focus:border-emerald-500"
+          >
+            <option value="">None</option>
+            {preview.teams.map(team => (
+              <option key={team} value={team}>{team}</option>
+            ))}
+          </select>
+        ) : (
+          <input
+            type="text"
+            value={myTeamName}
+            onChange={(e) => setMyTeamName(e.target.value)}
+            placeholder="Fantasy team name as it appears in the CSV"
+            className="w-full px-3 py-2 mb-4 bg-slate-800 border border-slate-700 rounded-lg text-white placeholder-slate-600 focus:outline-none focus:border-emerald-500"
+          />
+        )}
+
+        {error && (
+          <div className="flex items-start gap-2 p-3 mb-4 bg-red-900/30 border border-red-500/30 rounded-lg text-red-300 text-sm">
+            <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        {/* Preview */}
+        {preview && (
+          <div className="mb-4 space-y-3">
+            <div className="flex items-center gap-2 text-sm text-emerald-300">
+              <CheckCircle className="w-4 h-4" />
+              <span>
+                {preview.importedCount} of {preview.totalRows} picks matched across {preview.teams.length} teams
+              </span>
+            </div>
+
+            {preview.rowErrors.length > 0 && (
+              <div className="p-3 bg-amber-900/20 border border-amber-500/30 rounded-lg text-amber-300 text-sm">
+                {preview.rowErrors.map(e => (
+                  <div key={e.rowNumber}>Line {e.rowNumber}: {e.message}</div>
+                ))}
+              </div>
+            )}
+
+            {preview.unmatched.length > 0 && (
+              <div className="p-3 bg-slate-800/60 border border-slate-700 rounded-lg">
+                <div className="text-slate-300 text-sm mb-2">
+                  Unmatched players ({resolvedCount}/{preview.unmatched.length} resolved) - pick a match or leave skipped
+                </div>
+                <div className="space-y-2">
+                  {preview.unmatched.map(({ row, candidates }) => (
+                    <div key={row.rowNumber} className="flex items-center gap-3 text-sm">
+                      <span className="flex-1 truncate text-slate-300">
+                        {row.playerName}{row.mlbTeam ? ` (${row.mlbTeam})` : ''} - ${row.price}, {row.fantasyTeam}
+                      </span>
+                      <select
+                        value={resolutions[row.rowNumber] ?? ''}
+                        onChange={(e) => setResolutions(prev => {
+                          const next = { ...prev };
+                          if (e.target.value) {
+                            next[row.rowNumber] = e.target.value;
+                          } else {
+                            delete next[row.rowNumber];
+                          }
+                          return next;
+                        })}
+                        disabled={candidates.length === 0}
+                        className="w-56 px-2 py-1 bg-slate-800 border border-slate-700 rounded text-white disabled:opacity-50"
+                      >
+                        <option value="">{candidates.length === 0 ? 'No candidates' : 'Skip'}</option>
+                        {candidates.map(c => (
+                          <option key={c.id} value={c.id}>
+                            {c.name} ({c.team}, {c.positions.join('/')})
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {skippedCount > 0 && (
+              <div className="text-slate-400 text-sm">
+                {skippedCount} skipped {skippedCount === 1 ? 'row' : 'rows'} will be left out, so the draft stays open
+                until the missing picks are added.
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-slate-800 text-slate-300 border border-slate-700 rounded-lg hover:bg-slate-700 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => runImport(true)}
+            disabled={!csvText.trim() || isSubmitting}
+            className="px-4 py-2 bg-slate-700 text-white rounded-lg hover:bg-slate-600 transition-colors disabled:opacity-50"
+          >
+            {preview ? 'Re-check' : 'Check Matches'}
+          </button>
+          <button
+            onClick={() => runImport(false)}
+            disabled={!preview || isSubmitting}
+            className="px-4 py-2 bg-gradient-to-r from-emerald-600 to-green-700 text-white rounded-lg hover:from-emerald-700 hover:to-green-800 transition-all disabled:opacity-50 flex items-center gap-2"
+          >
+            {isSubmitting && <Loader2 className="w-4 h-4 animate-spin" />}
+            Import {preview ? preview.importedCount + resolvedCount : ''} Picks
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
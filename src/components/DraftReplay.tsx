@@ -0,0 +1,274 @@
+import { useEffect, useMemo, useState } from 'react';
+import { DraftTimelineEvent } from '../lib/types';
+import { fetchDraftTimeline } from '../lib/leaguesApi';
+import {
+  History,
+  X,
+  AlertCircle,
+  ChevronLeft,
+  ChevronRight,
+  SkipBack,
+  SkipForward,
+  Loader2,
+} from 'lucide-react';
+
+interface DraftReplayProps {
+  isOpen: boolean;
+  onClose: () => void;
+  leagueId: string;
+  isMobile?: boolean;
+}
+
+function formatPercent(value: number): string {
+  return `${value >= 0 ? '+' : ''}${value.toFixed(1)}%`;
+}
+
+export function DraftReplay({ isOpen, onClose, leagueId, isMobile }: DraftReplayProps) {
+  const [events, setEvents] = useState<DraftTimelineEvent[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [pickIndex, setPickIndex] = useState(0);
+
+  // Load the timeline each time the replay is opened (picks keep coming in during a live draft)
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    fetchDraftTimeline(leagueId)
+      .then(timeline => {
+        if (cancelled) return;
+        setEvents(timeline);
+        setPickIndex(Math.max(0, timeline.length - 1));
+      })
+      .catch(err => {
+        if (cancelled) return;
+        setError(err instanceof Error ? err.message : 'Failed to load draft timeline');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, leagueId]);
+
+  const current = events[pickIndex];
+
+  // Picks leading up to the current one, most recent first
+  const recentPicks = useMemo(
+    () => events.slice(Math.max(0, pickIndex - 9), pickIndex + 1).reverse(),
+    [events, pickIndex]
+  );
+
+  const sortedBudgets = useMemo(
+    () => current ? [...current.teamBudgets].sort((a, b) => b.remaining - a.remaining) : [],
+    [current]
+  );
+
+  const scarcePositions = useMemo(
+    () => current
+      ? current.positionalScarcity.filter(p => p.scarcityLevel === 'severe' || p.scarcityLevel === 'moderate')
+      : [],
+    [current]
+  );
+
+  if (!isOpen) return null;
+
+  const header = (
+    <div className="flex items-center justify-between mb-4">
+      <div className="flex items-center gap-2">
+        <History className="w-5 h-5 text-sky-400" />
+        <h2 className="text-lg font-semibold">Draft Replay</h2>
+      </div>
+      <button
+        onClick={onClose}
+        className="p-1 hover:bg-slate-800 rounded-lg transition-colors"
+      >
+        <X className="w-5 h-5 text-slate-400" />
+      </button>
+    </div>
+  );
+
+  if (isLoading || error || events.length === 0 || !current) {
+    return (
+      <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4" onClick={onClose}>
+        <div
+          className="bg-slate-900 border border-slate-700 text-white max-w-md w-full rounded-lg p-6"
+          onClick={(e) => e.stopPropagation()}
+        >
+          {header}
+          <div className="flex flex-col items-center justify-center py-8 text-center">
+            {isLoading ? (
+              <Loader2 className="w-10 h-10 text-slate-500 animate-spin" />
+            ) : (
+              <>
+                <AlertCircle className="w-12 h-12 text-slate-500 mb-4" />
+                <p className="text-slate-400">{error ?? 'No picks recorded yet.'}</p>
+                {!error && (
+                  <p className="text-slate-500 text-sm mt-1">Picks are recorded as the draft syncs with Couch Managers.</p>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  const valueDiff = current.projectedValue !== null ? current.price - current.projectedValue : null;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div
+        className={`bg-slate-900 border border-slate-700 text-white w-full rounded-lg p-6 max-h-[90vh] overflow-y-auto ${isMobile ? 'max-w-lg' : 'max-w-4xl'}`}
+        onClick={(e) => e.stopPropagation()}
+      >
+        {header}
+
+        {/* Scrubber */}
+        <div className="flex items-center gap-2 mb-6">
+          <button
+            onClick={() => setPickIndex(0)}
+            disabled={pickIndex === 0}
+            className="p-1.5 hover:bg-slate-800 rounded-lg transition-colors disabled:opacity-40"
+          >
+            <SkipBack className="w-4 h-4 text-slate-300" />
+          </button>
+          <button
+            onClick={() => setPickIndex(i => Math.max(0, i - 1))}
+            disabled={pickIndex === 0}
+            className="p-1.5 hover:bg-slate-800 rounded-lg transition-colors disabled:opacity-40"
+          >
+            <ChevronLeft className="w-4 h-4 text-slate-300" />
+          </button>
+          <input
+            type="range"
+            min="0"
+            max={events.length - 1}
+            value={pickIndex}
+            onChange={(e) => setPickIndex(Number(e.target.value))}
+            className="flex-1 h-2 rounded-lg appearance-none cursor-pointer"
+            style={{
+              background: `linear-gradient(to right, #38bdf8 ${events.length > 1 ? (pickIndex / (events.length - 1)) * 100 : 100}%, rgba(255,255,255,0.2) ${events.length > 1 ? (pickIndex / (events.length - 1)) * 100 : 100}%)`
+            }}
+          />
+          <button
+            onClick={() => setPickIndex(i => Math.min(events.length - 1, i + 1))}
+            disabled={pickIndex === events.length - 1}
+            className="p-1.5 hover:bg-slate-800 rounded-lg transition-colors disabled:opacity-40"
+          >
+            <ChevronRight className="w-4 h-4 text-slate-300" />
+          </button>
+          <button
+            onClick={() => setPickIndex(events.length - 1)}
+            disabled={pickIndex === events.length - 1}
+            className="p-1.5 hover:bg-slate-800 rounded-lg transition-colors disabled:opacity-40"
+          >
+            <SkipForward className="w-4 h-4 text-slate-300" />
+          </button>
+          <span className="text-slate-400 text-sm w-24 text-right">
+            Pick {current.pickNumber} / {events[events.length - 1].pickNumber}
+          </span>
+        </div>
+
+        {/* Current pick */}
+        <div className="p-4 bg-slate-800/60 rounded-lg border border-slate-700 mb-4">
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <div className="text-white font-semibold">{current.player.name}</div>
+              <div className="text-slate-400 text-sm">
+                {current.player.positions.join(', ')}{current.player.team ? ` · ${current.player.team}` : ''}
+              </div>
+            </div>
+            <div className="text-right">
+              <div className="text-emerald-400 font-semibold">${current.price}</div>
+              <div className="text-slate-400 text-sm">{current.draftedBy ?? 'Unknown team'}</div>
+            </div>
+          </div>
+          <div className="flex gap-4 mt-3 text-sm">
+            <span className="text-slate-400">
+              Value: <span className="text-slate-200">{current.projectedValue !== null ? `$${Math.round(current.projectedValue)}` : '--'}</span>
+            </span>
+            {valueDiff !== null && (
+              <span className={valueDiff > 0 ? 'text-red-400' : 'text-emerald-400'}>
+                {valueDiff > 0 ? `+$${Math.round(valueDiff)} overpay` : `$${Math.round(-valueDiff)} bargain`}
+              </span>
+            )}
+            <span className="text-slate-500 ml-auto">{new Date(current.draftedAt).toLocaleTimeString()}</span>
+          </div>
+        </div>
+
+        <div className={`grid gap-4 ${isMobile ? 'grid-cols-1' : 'grid-cols-3'}`}>
+          {/* Inflation as of this pick */}
+          <div className="p-4 bg-slate-800/40 rounded-lg border border-slate-700">
+            <div className="text-slate-400 text-sm mb-2">Inflation</div>
+            <div className="text-2xl text-amber-400 font-semibold">
+              {formatPercent(current.inflation.overallInflationRate)}
+            </div>
+            <div className="text-slate-500 text-xs mt-1">
+              ${current.inflation.totalActualSpent} spent on ${Math.round(current.inflation.totalProjectedValue)} of value
+            </div>
+            {current.inflationRateAtPick !== null && (
+              <div className="text-slate-500 text-xs mt-1">
+                Live at the time: {formatPercent(current.inflationRateAtPick)}
+              </div>
+            )}
+            {scarcePositions.length > 0 && (
+              <div className="mt-3">
+                <div className="text-slate-400 text-xs mb-1">Scarce positions</div>
+                <div className="flex flex-wrap gap-1">
+                  {scarcePositions.map(p => (
+                    <span
+                      key={p.position}
+                      className={`px-2 py-0.5 rounded text-xs ${p.scarcityLevel === 'severe' ? 'bg-red-500/20 text-red-300' : 'bg-amber-500/20 text-amber-300'}`}
+                    >
+                      {p.position}
+                    </span>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* Team budgets */}
+          <div className="p-4 bg-slate-800/40 rounded-lg border border-slate-700">
+            <div className="text-slate-400 text-sm mb-2">Team Budgets</div>
+            <div className="space-y-1 max-h-56 overflow-y-auto">
+              {sortedBudgets.map(team => (
+                <div key={team.name} className="flex items-center justify-between text-sm">
+                  <span className={`truncate ${team.name === current.draftedBy ? 'text-sky-300' : 'text-slate-300'}`}>
+                    {team.name}
+                  </span>
+                  <span className="text-slate-400 whitespace-nowrap ml-2">
+                    ${team.remaining} · {team.playersDrafted}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Recent picks */}
+          <div className="p-4 bg-slate-800/40 rounded-lg border border-slate-700">
+            <div className="text-slate-400 text-sm mb-2">Recent Picks</div>
+            <div className="space-y-1">
+              {recentPicks.map(event => (
+                <button
+                  key={event.pickNumber}
+                  onClick={() => setPickIndex(events.indexOf(event))}
+                  className={`w-full flex items-center justify-between text-sm px-1 rounded hover:bg-slate-700/50 ${event === current ? 'text-white' : 'text-slate-400'}`}
+                >
+                  <span className="truncate">#{event.pickNumber} {event.player.name}</span>
+                  <span className="ml-2">${event.price}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,25 @@
 import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
-import { LeagueSettings, Player, SyncState, AuctionSyncResult, MatchedPlayer, PositionalScarcity, EnhancedInflationStats, ScrapedPlayer } from '../lib/types';
-import { calculateTierWeightedInflation, adjustPlayerValuesWithTiers, InflationResult, normalizeName } from '../lib/calculations';
-import { syncAuctionLite } from '../lib/auctionApi';
+import { toast } from 'sonner';
+import { LeagueSettings, Player, SyncState, AuctionSyncResult, MatchedPlayer, PositionalScarcity, EnhancedInflationStats, ScrapedPlayer, DraftAction, DraftLogEntry, ManualPick, PlayerPriceForecast, ProjectionStatOverrides } from '../lib/types';
+import { calculateTierWeightedInflation, adjustPlayerValuesWithTiers, InflationResult, normalizeName, getTargetPrice } from '../lib/calculations';
+import {
+  syncAuctionLite,
+  subscribeToAuctionRoom,
+  calculateManualInflation,
+  fetchPriceForecasts,
+  calculateLeagueAuctionValues,
+  convertToPlayers,
+  mergeRecalculatedValues,
+} from '../lib/auctionApi';
+import { saveStatOverrides } from '../lib/leaguesApi';
+import { getDefaultManualTeams, buildManualAuctionData } from '../lib/manualDraft';
+import { createBudgetPlanContext } from '../lib/budgetPlanner';
+import {
+  appendDraftLog,
+  getUndoRedoStacks,
+  applyManualPick,
+  appendTeamRenames,
+} from '../lib/draftHistory';
 import { selectTeam as apiSelectTeam, getNotificationSettings } from '../lib/notificationsApi';
 import { DraftHeader } from './DraftHeader';
 import { PlayerQueue } from './PlayerQueue';
@@ -9,18 +27,25 @@ import { RosterPanel } from './RosterPanel';
 import { InflationTracker } from './InflationTracker';
 import { TeamOverviewGrid } from './TeamOverviewGrid';
 import { TeamRankings } from './TeamRankings';
+import { DraftReplay } from './DraftReplay';
+import { FarmProspects } from './FarmProspects';
+import { ManualTeamsModal } from './ManualTeamsModal';
+import { DraftHistoryModal } from './DraftHistoryModal';
 import { ProjectedStandings } from './ProjectedStandings';
 import { PlayerDetailModal } from './PlayerDetailModal';
+import type { PriceTargets } from './PlayerPriceTargets';
 import { DraftRoomLoadingScreen } from './DraftRoomLoadingScreen';
 import { ChatAssistant } from './ChatAssistant';
 import { useIsMobile } from './ui/use-mobile';
 import { useAuth } from '../contexts/AuthContext';
+import { UpgradeRequiredError } from '../lib/authApi';
 import { Users, ListFilter, Trophy, TrendingUp } from 'lucide-react';
 
 // Timing constants
-const SYNC_INTERVAL_MS = 2 * 60 * 1000; // Sync interval: 2 minutes
+const SYNC_INTERVAL_MS = 2 * 60 * 1000; // Fallback sync interval while the live stream is down: 2 minutes
 const INITIAL_SYNC_DELAY_MS = 300; // Delay before first sync to let component mount
 const LOADING_TRANSITION_DELAY_MS = 300; // Delay for smooth loading transition
+const MANUAL_INFLATION_DELAY_MS = 500; // Debounce for manual-mode inflation requests
 
 // Buffer for draft pool size (extra players beyond roster needs for variance)
 const DRAFT_POOL_BUFFER = 150;
@@ -29,19 +54,43 @@ interface DraftRoomProps {
   settings: LeagueSettings;
   players: Player[];
   onComplete: () => void;
+  leagueId?: string; // Only set for leagues saved on the server
+  initialDraftLog?: DraftLogEntry[]; // Saved manual draft log (undo/redo and audit trail)
+  onDraftStateChange?: (players: Player[], log: DraftLogEntry[]) => void;
+  onProjectionsChange?: (recalculated: Player[]) => void; // Values recalculated after a stat override
+  assignedTeamName?: string; // Team the league's commissioner assigned me
 }
 
 
-export function DraftRoom({ settings, players: initialPlayers, onComplete }: DraftRoomProps) {
-  const { isAuthenticated } = useAuth();
+export function DraftRoom({
+  settings,
+  players: initialPlayers,
+  onComplete,
+  leagueId,
+  initialDraftLog = [],
+  onDraftStateChange,
+  onProjectionsChange,
+  assignedTeamName,
+}: DraftRoomProps) {
+  const { isAuthenticated, user } = useAuth();
   const [players, setPlayers] = useState<Player[]>(initialPlayers);
   const [myRoster, setMyRoster] = useState<Player[]>([]);
-  const [allDrafted, setAllDrafted] = useState<Player[]>([]);
+  // Manual drafts resume from the saved picks; synced rooms rebuild them on the first sync
+  const [allDrafted, setAllDrafted] = useState<Player[]>(() =>
+    settings.couchManagerRoomId
+      ? []
+      : initialPlayers.filter(p => p.status === 'drafted' || p.status === 'onMyTeam')
+  );
+  const [draftLog, setDraftLog] = useState<DraftLogEntry[]>(initialDraftLog);
+  const [isDraftHistoryOpen, setIsDraftHistoryOpen] = useState(false);
   const [inflationRate, setInflationRate] = useState(0);
   const [rosterNeedsRemaining, setRosterNeedsRemaining] = useState(settings.rosterSpots);
   const [selectedPlayerForDetail, setSelectedPlayerForDetail] = useState<Player | null>(null);
   const [isTeamRankingsOpen, setIsTeamRankingsOpen] = useState(false);
   const [isProjectedStandingsOpen, setIsProjectedStandingsOpen] = useState(false);
+  const [isReplayOpen, setIsReplayOpen] = useState(false);
+  const [isFarmProspectsOpen, setIsFarmProspectsOpen] = useState(false);
+  const [isManualTeamsOpen, setIsManualTeamsOpen] = useState(false);
 
   // Mobile detection and tab state
   const isMobile = useIsMobile();
@@ -61,6 +110,26 @@ export function DraftRoom({ settings, players: initialPlayers, onComplete }: Dra
   const [availableTeams, setAvailableTeams] = useState<string[]>([]);
   const [selectedTeam, setSelectedTeam] = useState<string | null>(null);
 
+  // Determine if we're in manual mode (no Couch Managers room ID)
+  const isManualMode = !settings.couchManagerRoomId;
+
+  // Dynasty leagues with MiLB slots get farm values for the prospect list
+  const hasFarmSlots = settings.leagueType === 'dynasty' && (settings.farmSettings?.milbSlots ?? 0) > 0;
+
+  // Manual mode teams - every pick is entered with one of these as the winning team (first is mine)
+  const manualTeamsKey = `manualTeams-${leagueId ?? settings.leagueName}`;
+  const [manualTeams, setManualTeams] = useState<string[]>(() => {
+    try {
+      const saved = JSON.parse(localStorage.getItem(manualTeamsKey) ?? 'null');
+      if (Array.isArray(saved) && saved.length > 0 && saved.every(t => typeof t === 'string')) {
+        return saved;
+      }
+    } catch {
+      // Fall through to defaults
+    }
+    return getDefaultManualTeams(settings.numTeams);
+  });
+
   // Initial loading state - show loading screen until first sync completes
   const [isInitialLoading, setIsInitialLoading] = useState(!!settings.couchManagerRoomId);
   const [loadingMessage, setLoadingMessage] = useState('Initializing...');
@@ -74,10 +143,21 @@ export function DraftRoom({ settings, players: initialPlayers, onComplete }: Dra
   });
   const [syncResult, setSyncResult] = useState<AuctionSyncResult | null>(null);
   const [liveInflationStats, setLiveInflationStats] = useState<EnhancedInflationStats | null>(null);
+  // Simulated price ranges, tied to the inflation stats they were simulated from
+  const [priceForecasts, setPriceForecasts] = useState<{
+    stats: EnhancedInflationStats;
+    byPlayerId: Map<string, PlayerPriceForecast>;
+  } | null>(null);
+  const [isForecastLoading, setIsForecastLoading] = useState(false);
   const syncIntervalRef = useRef<number | null>(null);
+  const isLiveConnectedRef = useRef(false);
+  // Last full sync result - its cursor lets the server send only what changed
+  const lastSyncResultRef = useRef<AuctionSyncResult | null>(null);
   const isSyncingRef = useRef(false);
   const isFirstSyncRef = useRef(true);
   const isMountedRef = useRef(true);
+  // Set when my plan doesn't include live sync, so the room stops retrying
+  const upgradeRequiredRef = useRef(false);
 
   const moneySpent = myRoster.reduce((sum, p) => sum + (p.draftedPrice || 0), 0);
   const moneyRemaining = settings.budgetPerTeam - moneySpent;
@@ -94,6 +174,8 @@ export function DraftRoom({ settings, players: initialPlayers, onComplete }: Dra
       console.log(`[DraftRoom] Starting sync for room ${settings.couchManagerRoomId}`);
     }
 
+    if (upgradeRequiredRef.current) return;
+
     // Prevent concurrent syncs
     if (isSyncingRef.current) {
       if (import.meta.env.DEV) {
@@ -122,7 +204,7 @@ export function DraftRoom({ settings, players: initialPlayers, onComplete }: Dra
       if (import.meta.env.DEV) {
         console.log(`[DraftRoom] Calling syncAuctionLite for room ${settings.couchManagerRoomId}`);
       }
-      const result = await syncAuctionLite(settings.couchManagerRoomId, settings);
+      const result = await syncAuctionLite(settings.couchManagerRoomId, settings, lastSyncResultRef.current, leagueId);
 
       // Check if component is still mounted before updating state
       if (!isMountedRef.current) {
@@ -135,6 +217,7 @@ export function DraftRoom({ settings, players: initialPlayers, onComplete }: Dra
       if (import.meta.env.DEV) {
         console.log(`[DraftRoom] Sync successful! Matched ${result.matchedPlayers.length} players, ${result.auctionData.players.filter(p => p.status === 'drafted').length} drafted`);
       }
+      lastSyncResultRef.current = result;
       setSyncResult(result);
       // Cast to EnhancedInflationStats since the server now returns enhanced data
       setLiveInflationStats(result.inflationStats as EnhancedInflationStats);
@@ -814,6 +897,12 @@ export function DraftRoom({ settings, players: initialPlayers, onComplete }: Dra
       if (import.meta.env.DEV) {
         console.error('Sync error:', error);
       }
+      if (error instanceof UpgradeRequiredError && !upgradeRequiredRef.current) {
+        upgradeRequiredRef.current = true;
+        toast.error('Live sync is a Premium feature', {
+          description: 'Upgrade from your account page, or draft manually without a room ID.',
+        });
+      }
       setSyncState(prev => ({
         ...prev,
         syncError: error instanceof Error ? error.message : 'Sync failed',
@@ -826,9 +915,10 @@ export function DraftRoom({ settings, players: initialPlayers, onComplete }: Dra
     } finally {
       isSyncingRef.current = false;
     }
-  }, [settings, initialPlayers]); // Depends on settings and initialPlayers
+  }, [settings, initialPlayers, leagueId]); // Depends on settings, initialPlayers and the league (for stat overrides)
 
-  // Auto-sync on mount and every 2 minutes if roomId is set
+  // Auto-sync on mount, then re-sync whenever the live stream reports a change.
+  // Falls back to polling every 2 minutes while the stream is disconnected.
   useEffect(() => {
     // Mark component as mounted
     isMountedRef.current = true;
@@ -841,13 +931,37 @@ export function DraftRoom({ settings, players: initialPlayers, onComplete }: Dra
     // Initial sync with small delay to let component mount
     const initialSyncTimeout = setTimeout(performSync, INITIAL_SYNC_DELAY_MS);
 
-    // Set up interval
-    syncIntervalRef.current = window.setInterval(performSync, SYNC_INTERVAL_MS);
+    // Live updates - the server pushes a diff only when picks, bids or budgets change
+    const unsubscribeLive = subscribeToAuctionRoom(settings.couchManagerRoomId, {
+      onDiff: (diff) => {
+        if (import.meta.env.DEV) {
+          console.log(`[DraftRoom] Live update: ${diff.newlyDrafted.length} drafted, ${diff.bidChanges.length} bids`);
+        }
+        performSync();
+      },
+      onError: (message) => {
+        setSyncState(prev => ({ ...prev, syncError: message }));
+      },
+      onConnectionChange: (connected) => {
+        isLiveConnectedRef.current = connected;
+      },
+    });
+
+    // Fallback polling interval (skipped while the live stream is connected)
+    syncIntervalRef.current = window.setInterval(() => {
+      if (!isLiveConnectedRef.current) {
+        performSync();
+      }
+    }, SYNC_INTERVAL_MS);
 
     return () => {
       // Mark component as unmounted to prevent state updates after cleanup
       isMountedRef.current = false;
       clearTimeout(initialSyncTimeout);
+      unsubscribeLive();
+      isLiveConnectedRef.current = false;
+      // Settings changed (or unmounting) - next sync must start from a full snapshot
+      lastSyncResultRef.current = null;
       if (syncIntervalRef.current) {
         clearInterval(syncIntervalRef.current);
       }
@@ -971,6 +1085,78 @@ export function DraftRoom({ settings, players: initialPlayers, onComplete }: Dra
     setMyRoster(teamPlayers);
   }, [selectedTeam, allDrafted]);
 
+  // Manual mode: my team is always the first manual team
+  useEffect(() => {
+    if (isManualMode) {
+      setSelectedTeam(manualTeams[0] ?? null);
+    }
+  }, [isManualMode, manualTeams]);
+
+  // Manual mode: inflation with team constraints built from the entered picks
+  // Debounced so quick successive picks send one request
+  useEffect(() => {
+    if (!isManualMode) return;
+
+    let cancelled = false;
+    // The picks, plus the undrafted players with value left (the rest don't move inflation)
+    const draftedIds = new Set(allDrafted.map(p => p.id));
+    const pool = [
+      ...allDrafted,
+      ...initialPlayers
+        .filter(p => !draftedIds.has(p.id) && p.projectedValue > 0)
+        .map(p => ({ ...p, draftedBy: undefined })),
+    ];
+
+    const timeoutId = window.setTimeout(() => {
+      calculateManualInflation(pool, manualTeams, settings)
+        .then(stats => {
+          if (!cancelled) setLiveInflationStats(stats);
+        })
+        .catch(error => {
+          // Non-blocking - client-side tier inflation still applies
+          console.warn('[DraftRoom] Failed to calculate manual draft inflation:', error);
+        });
+    }, MANUAL_INFLATION_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeoutId);
+    };
+  }, [isManualMode, allDrafted, initialPlayers, manualTeams, settings]);
+
+  // Simulate price ranges when a player's details are opened and the team
+  // budgets have changed since the last simulation
+  useEffect(() => {
+    if (!selectedPlayerForDetail || !liveInflationStats?.teamConstraints?.length) return;
+    if (priceForecasts?.stats === liveInflationStats) return;
+
+    let cancelled = false;
+    const draftedIds = new Set(allDrafted.map(p => p.id));
+    const remaining = initialPlayers.filter(p => !draftedIds.has(p.id));
+
+    setIsForecastLoading(true);
+    fetchPriceForecasts(remaining, liveInflationStats)
+      .then(forecasts => {
+        if (cancelled) return;
+        setPriceForecasts({
+          stats: liveInflationStats,
+          byPlayerId: new Map(forecasts.map(f => [f.playerId, f])),
+        });
+      })
+      .catch(error => {
+        // Non-blocking - the modal just shows no simulated range
+        console.warn('[DraftRoom] Failed to forecast prices:', error);
+      })
+      .finally(() => {
+        if (!cancelled) setIsForecastLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+      setIsForecastLoading(false);
+    };
+  }, [selectedPlayerForDetail, liveInflationStats, priceForecasts, allDrafted, initialPlayers]);
+
   // Handler for team selection
   const handleTeamSelect = useCallback(async (teamName: string) => {
     setSelectedTeam(teamName);
@@ -992,11 +1178,17 @@ export function DraftRoom({ settings, players: initialPlayers, onComplete }: Dra
   }, [settings.couchManagerRoomId, isAuthenticated]);
 
   // Load saved team selection on mount
-  // Priority: 1. User account (if authenticated), 2. localStorage
+  // Priority: 1. Commissioner's assignment, 2. User account (if authenticated), 3. localStorage
   useEffect(() => {
     async function loadSavedTeam() {
       if (!settings.couchManagerRoomId) return;
 
+      // Commissioner mode: open on my own team (also saved to my account for SMS alerts)
+      if (assignedTeamName) {
+        handleTeamSelect(assignedTeamName);
+        return;
+      }
+
       // If authenticated, try to load from account first
       if (isAuthenticated) {
         try {
@@ -1026,7 +1218,7 @@ export function DraftRoom({ settings, players: initialPlayers, onComplete }: Dra
     }
 
     loadSavedTeam();
-  }, [settings.couchManagerRoomId, isAuthenticated]);
+  }, [settings.couchManagerRoomId, isAuthenticated, assignedTeamName, handleTeamSelect]);
 
   // Handler for toggling player target status (watchlist)
   const handleToggleTarget = useCallback((playerId: string) => {
@@ -1039,38 +1231,141 @@ export function DraftRoom({ settings, players: initialPlayers, onComplete }: Dra
     );
   }, []);
 
-  // Memoized handler for drafting a player
-  const handleDraftPlayer = useCallback((player: Player, price: number, draftedBy: 'me' | 'other') => {
-    const draftedPlayer: Player = {
-      ...player,
-      status: draftedBy === 'me' ? 'onMyTeam' : 'drafted',
-      draftedPrice: price,
-      draftedBy: draftedBy === 'me' ? 'My Team' : 'Opponent'
-    };
+  // Handler for pinning a value or "max I'll pay" - a max also makes the player a target
+  const handleChangePriceTargets = useCallback((player: Player, targets: PriceTargets) => {
+    const update = (p: Player): Player => adjustPlayerValuesWithTiers([{
+      ...p,
+      valueOverride: targets.valueOverride,
+      maxPrice: targets.maxPrice,
+      isTargeted: targets.maxPrice !== undefined || p.isTargeted,
+    }], inflationResult)[0];
+
+    setPlayers(prevPlayers => prevPlayers.map(p => (p.id === player.id ? update(p) : p)));
+    setSelectedPlayerForDetail(prev => (prev?.id === player.id ? update(prev) : prev));
+  }, [inflationResult]);
+
+  // Alert when a target is nominated below my price (once per time on the block)
+  const alertedTargetIdsRef = useRef<Set<string>>(new Set());
+  useEffect(() => {
+    const onBlockIds = new Set<string>();
+    players.forEach(p => {
+      if (p.status !== 'on_block') return;
+      onBlockIds.add(p.id);
+      if (!p.isTargeted || p.currentBid === undefined || alertedTargetIdsRef.current.has(p.id)) return;
+
+      const targetPrice = getTargetPrice(p);
+      if (p.currentBid < targetPrice) {
+        alertedTargetIdsRef.current.add(p.id);
+        toast.info(`${p.name} is on the block at $${p.currentBid}`, {
+          description: `Under your $${targetPrice} ${p.maxPrice !== undefined ? 'max' : 'value'}`,
+        });
+      }
+    });
+    alertedTargetIdsRef.current.forEach(id => {
+      if (!onBlockIds.has(id)) alertedTargetIdsRef.current.delete(id);
+    });
+  }, [players]);
+
+  // Sets a player's manual pick (null = back to available) in both player lists
+  const applyPick = useCallback((playerId: string, pick: ManualPick | null) => {
+    const player = players.find(p => p.id === playerId);
+    if (!player) return;
 
-    // Update players list
     setPlayers(prevPlayers =>
-      prevPlayers.map(p =>
-        p.id === player.id
-          ? draftedPlayer
-          : p
-      )
+      prevPlayers.map(p => (p.id === playerId ? applyManualPick(p, pick, selectedTeam) : p))
     );
 
-    // Update rosters
-    if (draftedBy === 'me') {
-      setMyRoster(prev => [...prev, draftedPlayer]);
-    }
-    setAllDrafted(prev => [...prev, draftedPlayer]);
-  }, []);
+    // myRoster follows allDrafted for the selected team
+    setAllDrafted(prev => {
+      if (!prev.some(p => p.id === playerId)) {
+        return pick ? [...prev, applyManualPick(player, pick, selectedTeam)] : prev;
+      }
+      return pick
+        ? prev.map(p => (p.id === playerId ? applyManualPick(p, pick, selectedTeam) : p))
+        : prev.filter(p => p.id !== playerId);
+    });
+  }, [players, selectedTeam]);
+
+  // Manual draft changes go through the log so they can be undone and audited
+  const recordDraftAction = useCallback((action: DraftAction) => {
+    applyPick(action.playerId, action.to);
+    setDraftLog(prev => appendDraftLog(prev, 'do', action));
+  }, [applyPick]);
+
+  const { undo: undoStack, redo: redoStack } = useMemo(() => getUndoRedoStacks(draftLog), [draftLog]);
+
+  const handleUndo = useCallback(() => {
+    const action = undoStack[undoStack.length - 1];
+    if (!action) return;
+    applyPick(action.playerId, action.from);
+    setDraftLog(prev => appendDraftLog(prev, 'undo', action));
+  }, [undoStack, applyPick]);
+
+  const handleRedo = useCallback(() => {
+    const action = redoStack[redoStack.length - 1];
+    if (!action) return;
+    applyPick(action.playerId, action.to);
+    setDraftLog(prev => appendDraftLog(prev, 'redo', action));
+  }, [redoStack, applyPick]);
+
+  // Handler for manual draft mode (when no room ID) - records the pick for the winning team
+  const handleManualDraft = useCallback((player: Player, price: number, teamName: string) => {
+    recordDraftAction({
+      type: 'draft',
+      playerId: player.id,
+      playerName: player.name,
+      from: null,
+      to: { teamName, price },
+    });
+  }, [recordDraftAction]);
+
+  // Handler for correcting a recorded manual pick (price, team, or removing it)
+  const handleEditManualPick = useCallback((player: Player, pick: ManualPick | null) => {
+    if (!player.draftedBy) return;
+    const from: ManualPick = { teamName: player.draftedBy, price: player.draftedPrice ?? 0 };
+    if (pick && pick.teamName === from.teamName && pick.price === from.price) return;
+
+    recordDraftAction({
+      type: !pick ? 'undraft' : pick.teamName !== from.teamName ? 'reassign_team' : 'change_price',
+      playerId: player.id,
+      playerName: player.name,
+      from,
+      to: pick,
+    });
+  }, [recordDraftAction]);
+
+  // Handler for renaming manual mode teams - picks move with their team
+  const handleManualTeamsChange = useCallback((teams: string[]) => {
+    const renamed = new Map<string, string>();
+    manualTeams.forEach((name, i) => {
+      if (teams[i] && teams[i] !== name) renamed.set(name, teams[i]);
+    });
+    const renameTeam = (p: Player): Player =>
+      p.draftedBy && renamed.has(p.draftedBy) ? { ...p, draftedBy: renamed.get(p.draftedBy) } : p;
 
-  // Handler for manual draft mode (when no room ID)
-  const handleManualDraft = useCallback((player: Player, price: number, toMyTeam: boolean) => {
-    handleDraftPlayer(player, price, toMyTeam ? 'me' : 'other');
-  }, [handleDraftPlayer]);
+    setPlayers(prevPlayers => prevPlayers.map(renameTeam));
+    setAllDrafted(prev => prev.map(renameTeam));
+    if (renamed.size > 0) setDraftLog(prev => appendTeamRenames(prev, renamed));
+    setManualTeams(teams);
+    localStorage.setItem(manualTeamsKey, JSON.stringify(teams));
+  }, [manualTeams, manualTeamsKey]);
 
-  // Determine if we're in manual mode (no Couch Managers room ID)
-  const isManualMode = !settings.couchManagerRoomId;
+  // Report state changes so the parent can persist picks and the draft log
+  useEffect(() => {
+    onDraftStateChange?.(players, draftLog);
+  }, [players, draftLog, onDraftStateChange]);
+
+  // Manual mode team budgets, shaped like synced room data for the team grid, rankings and standings
+  const manualAuctionData = useMemo(
+    () => isManualMode ? buildManualAuctionData(manualTeams, allDrafted, settings.budgetPerTeam) : null,
+    [isManualMode, manualTeams, allDrafted, settings.budgetPerTeam]
+  );
+
+  // Remaining-budget roster planner inputs - rebuilt on every sync as values and my roster change
+  const budgetPlanContext = useMemo(
+    () => createBudgetPlanContext(myRoster, moneyRemaining, settings.rosterSpots, players),
+    [myRoster, moneyRemaining, settings.rosterSpots, players]
+  );
 
   // Memoized callback for player detail modal
   const handlePlayerClick = useCallback((player: Player) => {
@@ -1082,6 +1377,18 @@ export function DraftRoom({ settings, players: initialPlayers, onComplete }: Dra
     setSelectedPlayerForDetail(null);
   }, []);
 
+  // Save a player's edited stat line, then revalue the league with it
+  const handleSaveStatOverrides = useCallback(async (player: Player, overrides: ProjectionStatOverrides | null) => {
+    if (!leagueId) return;
+    await saveStatOverrides(leagueId, player, overrides);
+    const recalculated = convertToPlayers(await calculateLeagueAuctionValues(settings, leagueId));
+    if (!isMountedRef.current) return;
+
+    setPlayers(prevPlayers => mergeRecalculatedValues(prevPlayers, recalculated));
+    setSelectedPlayerForDetail(prev => prev ? mergeRecalculatedValues([prev], recalculated)[0] : prev);
+    onProjectionsChange?.(recalculated);
+  }, [leagueId, settings, onProjectionsChange]);
+
   // Handler for opening Team Rankings modal
   const handleOpenTeamRankings = useCallback(() => {
     setIsTeamRankingsOpen(true);
@@ -1102,6 +1409,46 @@ export function DraftRoom({ settings, players: initialPlayers, onComplete }: Dra
     setIsProjectedStandingsOpen(false);
   }, []);
 
+  // Handler for opening Draft Replay modal
+  const handleOpenReplay = useCallback(() => {
+    setIsReplayOpen(true);
+  }, []);
+
+  // Handler for closing Draft Replay modal
+  const handleCloseReplay = useCallback(() => {
+    setIsReplayOpen(false);
+  }, []);
+
+  // Handler for opening the Farm Prospects modal
+  const handleOpenFarmProspects = useCallback(() => {
+    setIsFarmProspectsOpen(true);
+  }, []);
+
+  // Handler for closing the Farm Prospects modal
+  const handleCloseFarmProspects = useCallback(() => {
+    setIsFarmProspectsOpen(false);
+  }, []);
+
+  // Handler for opening the manual mode teams editor
+  const handleOpenManualTeams = useCallback(() => {
+    setIsManualTeamsOpen(true);
+  }, []);
+
+  // Handler for closing the manual mode teams editor
+  const handleCloseManualTeams = useCallback(() => {
+    setIsManualTeamsOpen(false);
+  }, []);
+
+  // Handler for opening the manual draft entries/history modal
+  const handleOpenDraftHistory = useCallback(() => {
+    setIsDraftHistoryOpen(true);
+  }, []);
+
+  // Handler for closing the manual draft entries/history modal
+  const handleCloseDraftHistory = useCallback(() => {
+    setIsDraftHistoryOpen(false);
+  }, []);
+
   const totalRosterSpots = Object.values(settings.rosterSpots).reduce((a, b) => a + b, 0);
   const isDraftComplete = myRoster.length >= totalRosterSpots;
 
@@ -1122,6 +1469,8 @@ export function DraftRoom({ settings, players: initialPlayers, onComplete }: Dra
         isMobile={isMobile}
         onOpenTeamRankings={handleOpenTeamRankings}
         onOpenProjectedStandings={handleOpenProjectedStandings}
+        onOpenReplay={leagueId ? handleOpenReplay : undefined}
+        onOpenFarmProspects={hasFarmSlots ? handleOpenFarmProspects : undefined}
       />
 
       {/* Main Content - scrollable container */}
@@ -1188,6 +1537,7 @@ export function DraftRoom({ settings, players: initialPlayers, onComplete }: Dra
                     positionalScarcity={inflationResult.positionalScarcity}
                     isManualMode={isManualMode}
                     onManualDraft={handleManualDraft}
+                    manualTeams={manualTeams}
                     onToggleTarget={handleToggleTarget}
                     isMobile={true}
                     maxPlayers={maxPlayersInQueue}
@@ -1203,6 +1553,12 @@ export function DraftRoom({ settings, players: initialPlayers, onComplete }: Dra
                     selectedTeam={selectedTeam}
                     onTeamSelect={handleTeamSelect}
                     isManualMode={isManualMode}
+                    onManageTeams={handleOpenManualTeams}
+                    onOpenDraftHistory={handleOpenDraftHistory}
+                    onUndo={handleUndo}
+                    onRedo={handleRedo}
+                    canUndo={undoStack.length > 0}
+                    canRedo={redoStack.length > 0}
                     isMobile={true}
                   />
                 </div>
@@ -1219,6 +1575,7 @@ export function DraftRoom({ settings, players: initialPlayers, onComplete }: Dra
                   positionalScarcity={inflationResult.positionalScarcity}
                   isManualMode={isManualMode}
                   onManualDraft={handleManualDraft}
+                  manualTeams={manualTeams}
                   onToggleTarget={handleToggleTarget}
                   maxPlayers={maxPlayersInQueue}
                 />
@@ -1234,6 +1591,12 @@ export function DraftRoom({ settings, players: initialPlayers, onComplete }: Dra
                   selectedTeam={selectedTeam}
                   onTeamSelect={handleTeamSelect}
                   isManualMode={isManualMode}
+                  onManageTeams={handleOpenManualTeams}
+                  onOpenDraftHistory={handleOpenDraftHistory}
+                  onUndo={handleUndo}
+                  onRedo={handleRedo}
+                  canUndo={undoStack.length > 0}
+                  canRedo={redoStack.length > 0}
                 />
               </div>
             </div>
@@ -1258,7 +1621,7 @@ export function DraftRoom({ settings, players: initialPlayers, onComplete }: Dra
           <div className="w-full">
             <TeamOverviewGrid
               settings={settings}
-              auctionData={syncResult?.auctionData ?? null}
+              auctionData={syncResult?.auctionData ?? manualAuctionData}
               allDrafted={allDrafted}
               selectedTeam={selectedTeam}
               isMobile={isMobile}
@@ -1293,12 +1656,22 @@ export function DraftRoom({ settings, players: initialPlayers, onComplete }: Dra
 
       {/* Player Detail Modal */}
       <PlayerDetailModal
+        key={selectedPlayerForDetail?.id}
         player={selectedPlayerForDetail}
         onClose={handleClosePlayerDetail}
         inflationResult={inflationResult}
         leagueSettings={settings}
         myMoneyRemaining={moneyRemaining}
         myRosterSpotsRemaining={Object.values(rosterNeedsRemaining).reduce((a, b) => a + b, 0)}
+        priceForecast={
+          selectedPlayerForDetail && priceForecasts?.stats === liveInflationStats
+            ? priceForecasts.byPlayerId.get(selectedPlayerForDetail.id) ?? null
+            : undefined
+        }
+        isForecastLoading={isForecastLoading}
+        budgetPlanContext={budgetPlanContext}
+        onSaveStatOverrides={leagueId ? handleSaveStatOverrides : undefined}
+        onChangePriceTargets={handleChangePriceTargets}
       />
 
       {/* Team Rankings Modal */}
@@ -1306,7 +1679,7 @@ export function DraftRoom({ settings, players: initialPlayers, onComplete }: Dra
         isOpen={isTeamRankingsOpen}
         onClose={handleCloseTeamRankings}
         settings={settings}
-        auctionData={syncResult?.auctionData ?? null}
+        auctionData={syncResult?.auctionData ?? manualAuctionData}
         allDrafted={allDrafted}
         selectedTeam={selectedTeam}
         isMobile={isMobile}
@@ -1317,24 +1690,72 @@ export function DraftRoom({ settings, players: initialPlayers, onComplete }: Dra
         isOpen={isProjectedStandingsOpen}
         onClose={handleCloseProjectedStandings}
         settings={settings}
-        auctionData={syncResult?.auctionData ?? null}
+        auctionData={syncResult?.auctionData ?? manualAuctionData}
         allPlayers={players}
         allDrafted={allDrafted}
         selectedTeam={selectedTeam}
         isMobile={isMobile}
       />
 
-      {/* Chat Assistant - Floating bubble */}
-      <ChatAssistant
-        myRoster={myRoster}
-        moneyRemaining={moneyRemaining}
-        rosterNeedsRemaining={rosterNeedsRemaining}
-        inflationRate={inflationRate}
-        players={players}
-        inflationResult={inflationResult}
-        leagueSettings={settings}
-        currentAuction={syncResult?.auctionData.currentAuction}
-      />
+      {/* Draft Replay Modal */}
+      {leagueId && (
+        <DraftReplay
+          isOpen={isReplayOpen}
+          onClose={handleCloseReplay}
+          leagueId={leagueId}
+          isMobile={isMobile}
+        />
+      )}
+
+      {/* Farm Prospects Modal */}
+      {hasFarmSlots && (
+        <FarmProspects
+          isOpen={isFarmProspectsOpen}
+          onClose={handleCloseFarmProspects}
+          settings={settings}
+          isMobile={isMobile}
+        />
+      )}
+
+      {/* Manual Teams Modal */}
+      {isManualMode && (
+        <ManualTeamsModal
+          isOpen={isManualTeamsOpen}
+          onClose={handleCloseManualTeams}
+          teams={manualTeams}
+          onSave={handleManualTeamsChange}
+        />
+      )}
+
+      {/* Manual Draft Entries / History Modal */}
+      {isManualMode && (
+        <DraftHistoryModal
+          isOpen={isDraftHistoryOpen}
+          onClose={handleCloseDraftHistory}
+          picks={allDrafted}
+          teams={manualTeams}
+          log={draftLog}
+          onEditPick={handleEditManualPick}
+          onUndo={handleUndo}
+          onRedo={handleRedo}
+          canUndo={undoStack.length > 0}
+          canRedo={redoStack.length > 0}
+        />
+      )}
+
+      {/* Chat Assistant - Floating bubble (premium; the server enforces it too) */}
+      {user?.entitlements?.features.chatAssistant !== false && (
+        <ChatAssistant
+          myRoster={myRoster}
+          moneyRemaining={moneyRemaining}
+          rosterNeedsRemaining={rosterNeedsRemaining}
+          inflationRate={inflationRate}
+          players={players}
+          inflationResult={inflationResult}
+          leagueSettings={settings}
+          currentAuction={syncResult?.auctionData.currentAuction}
+        />
+      )}
     </div>
   );
 }
@@ -3,10 +3,15 @@ import { SavedLeague, LeagueSettings } from '../lib/types';
 import {
   X, Save, RefreshCw, Database, AlertTriangle, Loader2,
   ChevronDown, ChevronRight, Users, Trophy,
-  Crown, Upload, FileSpreadsheet, Target
+  Crown, Upload, FileSpreadsheet, Target, Lock, UserPlus
 } from 'lucide-react';
 import { parseCSV } from '../lib/csvParser';
 import { hittingCategorySections, pitchingCategorySections } from '../lib/scoringCategories';
+import { ProjectionBlendEditor } from './ProjectionBlendEditor';
+import { KeeperEditor } from './KeeperEditor';
+import { LeagueMembersPanel } from './LeagueMembersPanel';
+import { CustomProjectionSetPicker } from './CustomProjectionSetPicker';
+import { defaultProjectionBlend } from '../lib/mockData';
 
 interface EditLeagueModalProps {
   league: SavedLeague;
@@ -37,6 +42,8 @@ export function EditLeagueModal({
     leagueFormat: false,
     scoring: false,
     roster: false,
+    keepers: false,
+    members: false,
     projections: true
   });
 
@@ -45,6 +52,8 @@ export function EditLeagueModal({
     { value: 'batx', label: 'THE BAT X', description: 'Advanced metrics', author: 'Derek Carty' },
     { value: 'ja', label: 'JA Projections', description: 'Jon Anderson (MLB Data Warehouse)' },
     { value: 'oopsy', label: 'OOPSY', description: 'Alternative FanGraphs model' },
+    { value: 'blend', label: 'Blend', description: 'Weighted average of systems' },
+    { value: 'custom', label: 'Custom', description: 'Your uploaded projections' },
   ];
 
   const scoringTypes: Array<{ value: LeagueSettings['scoringType']; label: string }> = [
@@ -170,11 +179,15 @@ export function EditLeagueModal({
   const settingsChanged = JSON.stringify(editedSettings) !== JSON.stringify(league.settings);
   const requiresReload =
     editedSettings.projectionSystem !== league.settings.projectionSystem ||
+    JSON.stringify(editedSettings.projectionBlend) !== JSON.stringify(league.settings.projectionBlend) ||
+    editedSettings.customProjectionSetId !== league.settings.customProjectionSetId ||
     editedSettings.numTeams !== league.settings.numTeams ||
     editedSettings.budgetPerTeam !== league.settings.budgetPerTeam ||
     editedSettings.leagueType !== league.settings.leagueType ||
     editedSettings.scoringType !== league.settings.scoringType ||
     JSON.stringify(editedSettings.rosterSpots) !== JSON.stringify(league.settings.rosterSpots) ||
+    JSON.stringify(editedSettings.keepers) !== JSON.stringify(league.settings.keepers) ||
+    JSON.stringify(editedSettings.farmSettings) !== JSON.stringify(league.settings.farmSettings) ||
     JSON.stringify(editedSettings.hittingCategories) !== JSON.stringify(league.settings.hittingCategories) ||
     JSON.stringify(editedSettings.pitchingCategories) !== JSON.stringify(league.settings.pitchingCategories) ||
     JSON.stringify(editedSettings.dynastySettings) !== JSON.stringify(league.settings.dynastySettings);
@@ -542,6 +555,85 @@ export function EditLeagueModal({
                       }`}>On</span>
                     </div>
                   </div>
+
+                  {/* Multi-Year Valuation */}
+                  <div>
+                    <label className="block text-white font-medium mb-1">Multi-Year Valuation</label>
+                    <p className="text-slate-300 text-sm mb-3">
+                      Projections are aged forward by position and priced over your keeper contracts
+                    </p>
+                    <div className="grid grid-cols-2 gap-4">
+                      {([
+                        { key: 'projectionYears', label: 'Seasons Projected', min: 3, max: 5, step: 1, fallback: 3 },
+                        { key: 'discountRate', label: 'Discount Rate (%)', min: 0, max: 100, step: 1, fallback: 15, percent: true },
+                        { key: 'contractYears', label: 'Contract Length (seasons)', min: 1, max: 10, step: 1, fallback: editedSettings.dynastySettings?.projectionYears ?? 3 },
+                        { key: 'salaryEscalator', label: 'Salary Raise per Season ($)', min: 0, max: 100, step: 1, fallback: 0 },
+                      ] as const).map(field => {
+                        const stored = editedSettings.dynastySettings?.[field.key];
+                        const isPercent = 'percent' in field;
+                        const value = stored === undefined ? field.fallback : isPercent ? Math.round(stored * 100) : stored;
+                        return (
+                          <div key={field.key}>
+                            <label className="block text-slate-300 mb-2 text-sm">{field.label}</label>
+                            <input
+                              type="number"
+                              value={value}
+                              onChange={(e) => {
+                                const next = Math.min(field.max, Math.max(field.min, Number(e.target.value)));
+                                setEditedSettings(prev => ({
+                                  ...prev,
+                                  dynastySettings: { ...prev.dynastySettings!, [field.key]: isPercent ? next / 100 : next }
+                                }));
+                                setHasUnsavedChanges(true);
+                              }}
+                              className="w-full px-4 py-3 bg-slate-800 border border-slate-700 rounded-xl text-white focus:ring-2 focus:ring-purple-500"
+                              min={field.min}
+                              max={field.max}
+                              step={field.step}
+                            />
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </div>
+
+                  {/* Farm System */}
+                  <div>
+                    <label className="block text-white font-medium mb-1">Farm System</label>
+                    <p className="text-slate-300 text-sm mb-3">
+                      Separate minor league roster slots, valued from the prospect list by level and ETA
+                    </p>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <label className="block text-slate-300 mb-2 text-sm">MiLB Slots per Team</label>
+                        <input
+                          type="number"
+                          value={editedSettings.farmSettings?.milbSlots ?? 0}
+                          onChange={(e) => handleSettingChange('farmSettings', {
+                            milbSlots: Math.min(50, Math.max(0, Number(e.target.value))),
+                            farmBudget: editedSettings.farmSettings?.farmBudget ?? 0,
+                          })}
+                          className="w-full px-4 py-3 bg-slate-800 border border-slate-700 rounded-xl text-white focus:ring-2 focus:ring-purple-500"
+                          min={0}
+                          max={50}
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-slate-300 mb-2 text-sm">Farm Budget per Team ($)</label>
+                        <input
+                          type="number"
+                          value={editedSettings.farmSettings?.farmBudget ?? 0}
+                          onChange={(e) => handleSettingChange('farmSettings', {
+                            milbSlots: editedSettings.farmSettings?.milbSlots ?? 0,
+                            farmBudget: Math.min(10000, Math.max(0, Number(e.target.value))),
+                          })}
+                          className="w-full px-4 py-3 bg-slate-800 border border-slate-700 rounded-xl text-white focus:ring-2 focus:ring-purple-500"
+                          min={0}
+                          max={10000}
+                        />
+                      </div>
+                    </div>
+                  </div>
                 </div>
               )}
             </div>
@@ -765,6 +857,34 @@ export function EditLeagueModal({
             </div>
           )}
 
+          {/* Keepers Section */}
+          <SectionHeader title="Keepers" icon={Lock} section="keepers" iconColor="text-amber-500" />
+          {expandedSections.keepers && (
+            <div className="space-y-4 pl-4 border-l-2 border-slate-700 ml-2">
+              <KeeperEditor
+                keepers={editedSettings.keepers ?? []}
+                playerNames={league.players.map(p => p.name)}
+                budgetPerTeam={editedSettings.budgetPerTeam}
+                onChange={(keepers) => handleSettingChange('keepers', keepers)}
+              />
+            </div>
+          )}
+
+          {/* Members Section - only leagues saved to the server can be shared */}
+          {!league.id.startsWith('league-') && (
+            <>
+              <SectionHeader title="Members" icon={UserPlus} section="members" iconColor="text-blue-500" />
+              {expandedSections.members && (
+                <div className="space-y-4 pl-4 border-l-2 border-slate-700 ml-2">
+                  <LeagueMembersPanel
+                    leagueId={league.id}
+                    couchManagerRoomId={editedSettings.couchManagerRoomId || undefined}
+                  />
+                </div>
+              )}
+            </>
+          )}
+
           {/* Projection System Section */}
           <SectionHeader title="Projection System" icon={Database} section="projections" />
           {expandedSections.projections && (
@@ -773,7 +893,13 @@ export function EditLeagueModal({
                 {projectionSystems.map((system) => (
                   <button
                     key={system.value}
-                    onClick={() => !system.disabled && handleSettingChange('projectionSystem', system.value)}
+                    onClick={() => {
+                      if (system.disabled) return;
+                      handleSettingChange('projectionSystem', system.value);
+                      if (system.value === 'blend' && !editedSettings.projectionBlend) {
+                        handleSettingChange('projectionBlend', defaultProjectionBlend);
+                      }
+                    }}
                     disabled={system.disabled}
                     className={`p-4 rounded-xl border transition-all text-left ${
                       system.disabled
@@ -793,6 +919,19 @@ export function EditLeagueModal({
                   </button>
                 ))}
               </div>
+              {editedSettings.projectionSystem === 'blend' && (
+                <ProjectionBlendEditor
+                  weights={editedSettings.projectionBlend ?? defaultProjectionBlend}
+                  onChange={(weights) => handleSettingChange('projectionBlend', weights)}
+                />
+              )}
+              {editedSettings.projectionSystem === 'custom' && (
+                <CustomProjectionSetPicker
+                  selectedSetId={editedSettings.customProjectionSetId}
+                  leagueId={league.id}
+                  onChange={(setId) => handleSettingChange('customProjectionSetId', setId)}
+                />
+              )}
             </div>
           )}
 
@@ -0,0 +1,135 @@
+import { useEffect, useMemo, useState } from 'react';
+import { LeagueSettings } from '../lib/types';
+import { fetchProspectValues, ProspectWithValue } from '../lib/auctionApi';
+import { Sprout, X, AlertCircle, Loader2 } from 'lucide-react';
+
+interface FarmProspectsProps {
+  isOpen: boolean;
+  onClose: () => void;
+  settings: LeagueSettings;
+  isMobile?: boolean;
+}
+
+export function FarmProspects({ isOpen, onClose, settings, isMobile }: FarmProspectsProps) {
+  const [prospects, setProspects] = useState<ProspectWithValue[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showAll, setShowAll] = useState(false);
+
+  // Load farm values when opened (they follow the league's farm settings)
+  useEffect(() => {
+    if (!isOpen) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    fetchProspectValues(settings)
+      .then(values => {
+        if (!cancelled) setProspects(values);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        setError(err instanceof Error ? err.message : 'Failed to load prospect values');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, settings]);
+
+  const farmPoolSize = useMemo(() => prospects.filter(p => p.isInFarmPool).length, [prospects]);
+  const visibleProspects = showAll ? prospects : prospects.slice(0, farmPoolSize);
+
+  if (!isOpen) return null;
+
+  const milbSlots = settings.farmSettings?.milbSlots ?? 0;
+  const farmBudget = settings.farmSettings?.farmBudget ?? 0;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div
+        className={`bg-slate-900 border border-slate-700 text-white w-full rounded-lg p-6 max-h-[90vh] flex flex-col ${isMobile ? 'max-w-lg' : 'max-w-3xl'}`}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-2">
+          <div className="flex items-center gap-2">
+            <Sprout className="w-5 h-5 text-lime-400" />
+            <h2 className="text-lg font-semibold">Farm Prospects</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 hover:bg-slate-800 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5 text-slate-400" />
+          </button>
+        </div>
+        <p className="text-slate-400 text-sm mb-4">
+          {milbSlots} MiLB slots per team{farmBudget > 0 ? ` · $${farmBudget} farm budget` : ''}. Values come from the prospect list by rank, level and ETA.
+        </p>
+
+        {isLoading || error || prospects.length === 0 ? (
+          <div className="flex flex-col items-center justify-center py-8 text-center">
+            {isLoading ? (
+              <Loader2 className="w-10 h-10 text-slate-500 animate-spin" />
+            ) : (
+              <>
+                <AlertCircle className="w-12 h-12 text-slate-500 mb-4" />
+                <p className="text-slate-400">{error ?? 'No prospect list is available.'}</p>
+              </>
+            )}
+          </div>
+        ) : (
+          <>
+            <div className="overflow-y-auto flex-1 min-h-0">
+              <table className="w-full text-sm">
+                <thead className="sticky top-0 bg-slate-900">
+                  <tr className="text-slate-400 text-left border-b border-slate-700">
+                    <th className="py-2 pr-2 font-medium">#</th>
+                    <th className="py-2 pr-2 font-medium">Prospect</th>
+                    <th className="py-2 pr-2 font-medium">Level</th>
+                    <th className="py-2 pr-2 font-medium">ETA</th>
+                    <th className="py-2 text-right font-medium">{farmBudget > 0 ? 'Farm $' : 'Future Value'}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visibleProspects.map(prospect => (
+                    <tr
+                      key={`${prospect.name}-${prospect.rank}`}
+                      className={`border-b border-slate-800 ${prospect.isInFarmPool ? '' : 'opacity-50'}`}
+                    >
+                      <td className="py-2 pr-2 text-slate-500">{prospect.rank}</td>
+                      <td className="py-2 pr-2">
+                        <div className="text-white">{prospect.name}</div>
+                        <div className="text-slate-500 text-xs">
+                          {prospect.positions.join(', ')}{prospect.team ? ` · ${prospect.team}` : ''}
+                          {prospect.age !== null ? ` · Age ${prospect.age}` : ''}
+                        </div>
+                      </td>
+                      <td className="py-2 pr-2 text-slate-300">{prospect.level}</td>
+                      <td className="py-2 pr-2 text-slate-300">{prospect.eta}</td>
+                      <td className="py-2 text-right text-lime-400 font-semibold">
+                        {farmBudget > 0 ? (prospect.isInFarmPool ? `$${prospect.farmValue}` : '--') : prospect.futureValue.toFixed(3)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {prospects.length > farmPoolSize && (
+              <button
+                onClick={() => setShowAll(value => !value)}
+                className="mt-3 text-sm text-lime-400 hover:text-lime-300 transition-colors self-start"
+              >
+                {showAll ? `Show the ${farmPoolSize} farm pool prospects` : `Show all ${prospects.length} prospects`}
+              </button>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
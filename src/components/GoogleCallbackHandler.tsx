@@ -1,15 +1,16 @@
 import { useEffect, useState, useRef } from 'react';
-import { handleGoogleCallback } from '../lib/authApi';
+import { handleGoogleCallback, isTwoFactorChallenge } from '../lib/authApi';
 import { useAuth } from '../contexts/AuthContext';
 import { Loader2, AlertCircle, CheckCircle } from 'lucide-react';
 
 interface GoogleCallbackHandlerProps {
   onSuccess: () => void;
   onError: (error: string) => void;
+  onTwoFactorRequired: () => void; // Account has 2FA - finish on the login page
 }
 
-export function GoogleCallbackHandler({ onSuccess, onError }: GoogleCallbackHandlerProps) {
-  const { refreshUser } = useAuth();
+export function GoogleCallbackHandler({ onSuccess, onError, onTwoFactorRequired }: GoogleCallbackHandlerProps) {
+  const { refreshUser, startTwoFactorChallenge } = useAuth();
   const [status, setStatus] = useState<'processing' | 'success' | 'error'>('processing');
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   // Guard against double execution (React StrictMode)
@@ -41,7 +42,14 @@ export function GoogleCallbackHandler({ onSuccess, onError }: GoogleCallbackHand
         }
 
         // Exchange code for tokens
-        await handleGoogleCallback(code);
+        const result = await handleGoogleCallback(code);
+
+        if (isTwoFactorChallenge(result)) {
+          startTwoFactorChallenge(result.challengeToken);
+          window.history.replaceState({}, document.title, '/');
+          onTwoFactorRequired();
+          return;
+        }
 
         // Refresh auth context with new user
         await refreshUser();
@@ -73,7 +81,7 @@ export function GoogleCallbackHandler({ onSuccess, onError }: GoogleCallbackHand
     }
 
     processCallback();
-  }, [onSuccess, onError, refreshUser]);
+  }, [onSuccess, onError, onTwoFactorRequired, refreshUser, startTwoFactorChallenge]);
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-950 via-slate-900 to-emerald-950 flex items-center justify-center p-4">
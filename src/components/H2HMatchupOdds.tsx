@@ -0,0 +1,137 @@
+import { useMemo } from 'react';
+import { getCategoryDisplayName, isLowerBetterCategory } from '../lib/teamProjections';
+import type { H2HTeamOdds } from '../lib/h2hSimulator';
+
+interface H2HMatchupOddsProps {
+  odds: H2HTeamOdds[];
+  categories: string[];
+  playoffTeams: number;
+  selectedTeam?: string | null;
+  isMobile?: boolean;
+}
+
+function formatPercent(rate: number): string {
+  return `${Math.round(rate * 100)}%`;
+}
+
+function getWinRateColor(rate: number): string {
+  if (rate >= 0.6) return 'text-emerald-400';
+  if (rate >= 0.5) return 'text-slate-200';
+  if (rate >= 0.4) return 'text-slate-400';
+  return 'text-red-400';
+}
+
+function formatRecord(team: H2HTeamOdds): string {
+  return `${team.expectedWins.toFixed(0)}-${team.expectedLosses.toFixed(0)}-${team.expectedTies.toFixed(0)}`;
+}
+
+/**
+ * Simulated H2H categories results: weekly category win rates, the average
+ * season category record, and playoff odds for each team
+ */
+export function H2HMatchupOdds({ odds, categories, playoffTeams, selectedTeam, isMobile }: H2HMatchupOddsProps) {
+  const sortedOdds = useMemo(
+    () => [...odds].sort((a, b) => b.playoffOdds - a.playoffOdds || a.averageFinish - b.averageFinish),
+    [odds]
+  );
+
+  if (isMobile) {
+    return (
+      <>
+        {sortedOdds.map((team, index) => (
+          <div
+            key={team.teamName}
+            className={`border-b border-slate-700/30 p-4 ${
+              team.teamName === selectedTeam ? 'bg-emerald-900/30' : ''
+            }`}
+          >
+            <div className="flex items-center justify-between mb-3">
+              <div className="flex items-center gap-2">
+                <span className="text-slate-400 text-sm font-medium">{index + 1}</span>
+                <span className={`font-semibold ${team.teamName === selectedTeam ? 'text-emerald-300' : 'text-white'}`}>
+                  {team.teamName}
+                </span>
+              </div>
+              <div className="text-right">
+                <div className="text-emerald-400 font-bold">{formatPercent(team.playoffOdds)} playoffs</div>
+                <div className="text-xs text-slate-500">{formatRecord(team)} avg record</div>
+              </div>
+            </div>
+            <div className="grid grid-cols-5 gap-2 text-xs">
+              {categories.map(cat => (
+                <div key={cat} className="text-center">
+                  <div className="text-slate-500 mb-0.5">{getCategoryDisplayName(cat)}</div>
+                  <div className={`font-medium ${getWinRateColor(team.categoryWinRates[cat] ?? 0)}`}>
+                    {formatPercent(team.categoryWinRates[cat] ?? 0)}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+        <div className="px-4 py-2 text-xs text-slate-500 text-center">
+          Category win % per week · top {playoffTeams} make the playoffs
+        </div>
+      </>
+    );
+  }
+
+  return (
+    <table className="w-full text-[11px]">
+      <thead className="sticky top-0 bg-slate-900">
+        <tr className="border-b border-slate-700/50 text-slate-400">
+          <th className="text-left py-1 px-1 font-medium">#</th>
+          <th className="text-left py-1 px-1 font-medium">Team</th>
+          {categories.map(cat => (
+            <th
+              key={cat}
+              className={`text-center py-1 px-0.5 font-medium whitespace-nowrap ${
+                isLowerBetterCategory(cat) ? 'text-red-400/70' : ''
+              }`}
+              title={`${getCategoryDisplayName(cat)} - share of weekly matchups won`}
+            >
+              {getCategoryDisplayName(cat)}
+            </th>
+          ))}
+          <th className="text-center py-1 px-1 font-medium" title="Average season category record (W-L-T)">Record</th>
+          <th className="text-center py-1 px-1 font-medium" title="Weekly matchups won (most categories)">Match W%</th>
+          <th className="text-center py-1 px-1 text-emerald-400 font-medium" title={`Chance of a top ${playoffTeams} finish`}>
+            Playoffs
+          </th>
+        </tr>
+      </thead>
+      <tbody>
+        {sortedOdds.map((team, index) => (
+          <tr
+            key={team.teamName}
+            className={`border-b border-slate-700/20 transition-colors ${
+              team.teamName === selectedTeam ? 'bg-emerald-900/20' : 'hover:bg-slate-700/30'
+            }`}
+          >
+            <td className="py-0.5 px-1 text-center text-slate-400">{index + 1}</td>
+            <td className="py-0.5 px-1 max-w-[120px] truncate">
+              <span
+                className={`font-medium ${team.teamName === selectedTeam ? 'text-emerald-300' : 'text-white'}`}
+                title={team.teamName}
+              >
+                {team.teamName}
+              </span>
+            </td>
+            {categories.map(cat => (
+              <td key={cat} className={`py-0.5 px-0.5 text-center ${getWinRateColor(team.categoryWinRates[cat] ?? 0)}`}>
+                {formatPercent(team.categoryWinRates[cat] ?? 0)}
+              </td>
+            ))}
+            <td className="py-0.5 px-1 text-center text-slate-300">{formatRecord(team)}</td>
+            <td className={`py-0.5 px-1 text-center ${getWinRateColor(team.matchupWinRate)}`}>
+              {formatPercent(team.matchupWinRate)}
+            </td>
+            <td className="py-0.5 px-1 text-center">
+              <span className="text-emerald-400 font-bold">{formatPercent(team.playoffOdds)}</span>
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
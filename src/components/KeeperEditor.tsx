@@ -0,0 +1,87 @@
+import { Plus, Trash2 } from 'lucide-react';
+import { KeeperEntry } from '../lib/types';
+
+interface KeeperEditorProps {
+  keepers: KeeperEntry[];
+  playerNames: string[];
+  budgetPerTeam: number;
+  onChange: (keepers: KeeperEntry[]) => void;
+}
+
+export function KeeperEditor({ keepers, playerNames, budgetPerTeam, onChange }: KeeperEditorProps) {
+  const totalSalary = keepers.reduce((sum, k) => sum + k.salary, 0);
+
+  const updateKeeper = (index: number, updates: Partial<KeeperEntry>) => {
+    onChange(keepers.map((keeper, i) => (i === index ? { ...keeper, ...updates } : keeper)));
+  };
+
+  const addKeeper = () => {
+    const lastTeam = keepers[keepers.length - 1]?.teamName ?? '';
+    onChange([...keepers, { teamName: lastTeam, playerName: '', salary: 1 }]);
+  };
+
+  return (
+    <div className="bg-slate-800/50 border border-slate-700 rounded-xl p-4 space-y-3">
+      <p className="text-slate-400 text-sm">
+        Keepers are removed from the auction pool and their salaries come out of each team&apos;s budget.
+        Keepers kept below value inflate every other player&apos;s price.
+      </p>
+      <datalist id="keeper-player-names">
+        {playerNames.map(name => (
+          <option key={name} value={name} />
+        ))}
+      </datalist>
+      {keepers.map((keeper, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <input
+            type="text"
+            placeholder="Team"
+            value={keeper.teamName}
+            onChange={(e) => updateKeeper(index, { teamName: e.target.value })}
+            className="w-36 px-2 py-1 bg-slate-900 border border-slate-700 rounded text-white text-sm focus:outline-none focus:border-red-500"
+          />
+          <input
+            type="text"
+            placeholder="Player"
+            list="keeper-player-names"
+            value={keeper.playerName}
+            onChange={(e) => updateKeeper(index, { playerName: e.target.value, playerId: undefined })}
+            className="flex-1 px-2 py-1 bg-slate-900 border border-slate-700 rounded text-white text-sm focus:outline-none focus:border-red-500"
+          />
+          <span className="text-slate-500 text-sm">$</span>
+          <input
+            type="number"
+            min="0"
+            max={budgetPerTeam}
+            value={keeper.salary}
+            onChange={(e) => updateKeeper(index, { salary: Math.min(budgetPerTeam, Math.max(0, parseInt(e.target.value, 10) || 0)) })}
+            className="w-16 px-2 py-1 bg-slate-900 border border-slate-700 rounded text-white text-sm focus:outline-none focus:border-red-500"
+          />
+          <button
+            type="button"
+            onClick={() => onChange(keepers.filter((_, i) => i !== index))}
+            className="p-1 text-slate-500 hover:text-red-400 transition-colors"
+            aria-label={`Remove keeper ${keeper.playerName}`}
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+      <div className="flex items-center justify-between">
+        <button
+          type="button"
+          onClick={addKeeper}
+          className="flex items-center gap-1 text-sm text-red-400 hover:text-red-300 transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          Add keeper
+        </button>
+        {keepers.length > 0 && (
+          <span className="text-slate-500 text-sm">
+            {keepers.length} kept · ${totalSalary} committed
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+import { useEffect, useState } from 'react';
+import { Check, Loader2, Mail, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { LeagueInvite } from '../lib/types';
+import { fetchLeagueInvites, respondToLeagueInvite } from '../lib/leaguesApi';
+
+interface LeagueInvitesPanelProps {
+  inviteToken?: string; // From an invite link I opened
+  onJoined: (leagueId: string) => void;
+}
+
+const ROLE_LABELS: Record<LeagueInvite['role'], string> = {
+  'co-manager': 'co-manager',
+  member: 'member (view only)',
+};
+
+/**
+ * The league invite from a link I opened, with accept/decline.
+ * Renders nothing when there isn't one.
+ */
+export function LeagueInvitesPanel({ inviteToken, onJoined }: LeagueInvitesPanelProps) {
+  const [invites, setInvites] = useState<LeagueInvite[]>([]);
+  const [respondingId, setRespondingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!inviteToken) return;
+    fetchLeagueInvites(inviteToken)
+      .then(setInvites)
+      .catch(error => {
+        console.error('[LeagueInvitesPanel] Failed to load invites:', error);
+      });
+  }, [inviteToken]);
+
+  const respond = async (invite: LeagueInvite, accept: boolean) => {
+    setRespondingId(invite.id);
+    try {
+      const { leagueId } = await respondToLeagueInvite(invite.id, accept, inviteToken);
+      setInvites(prev => prev.filter(i => i.id !== invite.id));
+      if (accept) {
+        toast.success(`Joined ${invite.leagueName}`);
+        onJoined(leagueId);
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to respond to invite');
+    } finally {
+      setRespondingId(null);
+    }
+  };
+
+  if (invites.length === 0) return null;
+
+  return (
+    <div className="mb-6 space-y-2 animate-fadeIn">
+      {invites.map(invite => (
+        <div
+          key={invite.id}
+          className="flex items-center justify-between gap-3 p-4 rounded-xl bg-blue-900/20 border border-blue-500/30"
+        >
+          <div className="flex items-center gap-3 min-w-0">
+            <Mail className="w-5 h-5 text-blue-400 flex-shrink-0" />
+            <div className="min-w-0">
+              <div className="text-white truncate">{invite.leagueName}</div>
+              <div className="text-sm text-slate-400">
+                {invite.invitedByName} invited you as a {ROLE_LABELS[invite.role]}
+              </div>
+            </div>
+          </div>
+          <div className="flex items-center gap-2 flex-shrink-0">
+            {respondingId === invite.id ? (
+              <Loader2 className="w-4 h-4 text-slate-400 animate-spin" />
+            ) : (
+              <>
+                <button
+                  onClick={() => respond(invite, true)}
+                  className="px-3 py-2 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 transition-all flex items-center gap-1 text-sm"
+                >
+                  <Check className="w-4 h-4" />
+                  Accept
+                </button>
+                <button
+                  onClick={() => respond(invite, false)}
+                  className="px-3 py-2 bg-slate-800 text-slate-300 border border-slate-700 rounded-lg hover:bg-slate-700 transition-all flex items-center gap-1 text-sm"
+                >
+                  <X className="w-4 h-4" />
+                  Decline
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,255 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Copy, Link, Loader2, Trash2, UserPlus } from 'lucide-react';
+import { toast } from 'sonner';
+import { LeagueInvite, LeagueMember } from '../lib/types';
+import {
+  assignLeagueMemberTeam,
+  createLeagueInvite,
+  fetchLeagueMembers,
+  removeLeagueMember,
+  revokeLeagueInvite,
+  updateLeagueMemberRole,
+} from '../lib/leaguesApi';
+import { fetchAuctionData } from '../lib/auctionApi';
+
+interface LeagueMembersPanelProps {
+  leagueId: string;
+  couchManagerRoomId?: string; // Suggests the room's team names when assigning teams
+}
+
+/**
+ * Members of a league I own, with invites by email or link. Invites aren't emailed
+ * yet, so the owner copies the link and sends it themselves.
+ * Co-managers can edit the draft (so two people can run one team); members only view it.
+ *
+ * As commissioner, assign each person the auction room team they run so their
+ * draft room opens on their own roster, budget, and max bids.
+ */
+export function LeagueMembersPanel({ leagueId, couchManagerRoomId }: LeagueMembersPanelProps) {
+  const [members, setMembers] = useState<LeagueMember[]>([]);
+  const [invites, setInvites] = useState<LeagueInvite[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<LeagueInvite['role']>('co-manager');
+  const [isInviting, setIsInviting] = useState(false);
+  const [inviteUrl, setInviteUrl] = useState<string | null>(null);
+  const [roomTeamNames, setRoomTeamNames] = useState<string[]>([]);
+
+  const load = useCallback(async () => {
+    try {
+      const result = await fetchLeagueMembers(leagueId);
+      setMembers(result.members);
+      setInvites(result.invites);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to load members');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [leagueId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useEffect(() => {
+    if (!couchManagerRoomId) return;
+    fetchAuctionData(couchManagerRoomId)
+      .then(data => setRoomTeamNames(data.teams.map(team => team.name)))
+      .catch(error => {
+        // Team names can still be typed in
+        console.error('[LeagueMembersPanel] Failed to load room teams:', error);
+      });
+  }, [couchManagerRoomId]);
+
+  const handleInvite = async () => {
+    setIsInviting(true);
+    try {
+      const email = inviteEmail.trim() || undefined;
+      const result = await createLeagueInvite(leagueId, inviteRole, email);
+      setInvites(prev => [result.invite, ...prev]);
+      setInviteUrl(result.inviteUrl);
+      setInviteEmail('');
+      toast.success(email
+        ? `Invite created - send ${email} the link below (no email is sent)`
+        : 'Invite created - share the link below');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to create invite');
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const handleCopyLink = async () => {
+    if (!inviteUrl) return;
+    try {
+      await navigator.clipboard.writeText(inviteUrl);
+      toast.success('Invite link copied');
+    } catch {
+      toast.error('Could not copy the link - select it and copy manually');
+    }
+  };
+
+  const runAction = async (action: () => Promise<void>, failure: string) => {
+    try {
+      await action();
+      await load();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : failure);
+    }
+  };
+
+  const handleTeamChange = (member: LeagueMember, value: string) => {
+    const teamName = value.trim() || null;
+    if (teamName === (member.teamName ?? null)) return;
+    runAction(() => assignLeagueMemberTeam(leagueId, member.userId, teamName), 'Failed to assign team');
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 text-slate-400 text-sm p-4">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        Loading members...
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-slate-800/50 border border-slate-700 rounded-xl p-4 space-y-4">
+      <p className="text-slate-400 text-sm">
+        Co-managers can run the draft with you. Members can follow along but can&apos;t change anything.
+        Give everyone their auction room team to see their own roster and budget when they open the draft.
+      </p>
+
+      {/* Members */}
+      <div className="space-y-2">
+        {members.map(member => (
+          <div key={member.userId} className="flex items-center gap-2">
+            <div className="flex-1 min-w-0">
+              <div className="text-white text-sm truncate">{member.name}</div>
+              <div className="text-slate-500 text-xs truncate">{member.email}</div>
+            </div>
+            <input
+              key={member.teamName ?? ''}
+              list={`league-teams-${leagueId}`}
+              placeholder="Team"
+              defaultValue={member.teamName ?? ''}
+              onBlur={(e) => handleTeamChange(member, e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') e.currentTarget.blur();
+              }}
+              aria-label={`Team for ${member.name}`}
+              className="w-36 px-2 py-1 bg-slate-900 border border-slate-700 rounded text-white text-sm focus:outline-none focus:border-red-500"
+            />
+            {member.role === 'owner' ? (
+              <span className="text-amber-400 text-sm">Owner</span>
+            ) : (
+              <>
+                <select
+                  value={member.role}
+                  onChange={(e) => runAction(
+                    () => updateLeagueMemberRole(leagueId, member.userId, e.target.value as LeagueInvite['role']),
+                    'Failed to change role'
+                  )}
+                  className="px-2 py-1 bg-slate-900 border border-slate-700 rounded text-white text-sm focus:outline-none focus:border-red-500"
+                >
+                  <option value="co-manager">Co-manager</option>
+                  <option value="member">Member</option>
+                </select>
+                <button
+                  type="button"
+                  onClick={() => {
+                    if (confirm(`Remove ${member.name} from this league?`)) {
+                      runAction(() => removeLeagueMember(leagueId, member.userId), 'Failed to remove member');
+                    }
+                  }}
+                  className="p-1 text-slate-500 hover:text-red-400 transition-colors"
+                  aria-label={`Remove ${member.name}`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </>
+            )}
+          </div>
+        ))}
+        <datalist id={`league-teams-${leagueId}`}>
+          {roomTeamNames.map(name => (
+            <option key={name} value={name} />
+          ))}
+        </datalist>
+      </div>
+
+      {/* Pending invites */}
+      {invites.length > 0 && (
+        <div className="space-y-2 pt-2 border-t border-slate-700">
+          <div className="text-slate-400 text-xs uppercase tracking-wide">Pending invites</div>
+          {invites.map(invite => (
+            <div key={invite.id} className="flex items-center gap-2 text-sm">
+              <span className="flex-1 text-slate-300 truncate">{invite.email ?? 'Invite link'}</span>
+              <span className="text-slate-500">{invite.role === 'co-manager' ? 'Co-manager' : 'Member'}</span>
+              <button
+                type="button"
+                onClick={() => runAction(() => revokeLeagueInvite(leagueId, invite.id), 'Failed to revoke invite')}
+                className="p-1 text-slate-500 hover:text-red-400 transition-colors"
+                aria-label="Revoke invite"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* New invite */}
+      <div className="flex items-center gap-2 pt-2 border-t border-slate-700">
+        <input
+          type="email"
+          placeholder="Email (optional - limits the link to that account, not emailed)"
+          value={inviteEmail}
+          onChange={(e) => setInviteEmail(e.target.value)}
+          className="flex-1 px-2 py-1 bg-slate-900 border border-slate-700 rounded text-white text-sm focus:outline-none focus:border-red-500"
+        />
+        <select
+          value={inviteRole}
+          onChange={(e) => setInviteRole(e.target.value as LeagueInvite['role'])}
+          className="px-2 py-1 bg-slate-900 border border-slate-700 rounded text-white text-sm focus:outline-none focus:border-red-500"
+        >
+          <option value="co-manager">Co-manager</option>
+          <option value="member">Member</option>
+        </select>
+        <button
+          type="button"
+          onClick={handleInvite}
+          disabled={isInviting}
+          className="flex items-center gap-1 text-sm text-red-400 hover:text-red-300 disabled:opacity-50 transition-colors"
+        >
+          {isInviting ? <Loader2 className="w-4 h-4 animate-spin" /> : <UserPlus className="w-4 h-4" />}
+          Invite
+        </button>
+      </div>
+
+      <p className="text-xs text-slate-500">
+        {"Invites aren't emailed - copy the link and send it to them yourself."}
+      </p>
+
+      {inviteUrl && (
+        <div className="flex items-center gap-2 p-2 bg-slate-900 border border-slate-700 rounded">
+          <Link className="w-4 h-4 text-slate-500 flex-shrink-0" />
+          <input
+            readOnly
+            value={inviteUrl}
+            onFocus={(e) => e.target.select()}
+            className="flex-1 bg-transparent text-slate-300 text-xs focus:outline-none"
+          />
+          <button
+            type="button"
+            onClick={handleCopyLink}
+            className="p-1 text-slate-400 hover:text-white transition-colors"
+            aria-label="Copy invite link"
+          >
+            <Copy className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
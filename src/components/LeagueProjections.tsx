@@ -354,7 +354,12 @@ export function LeagueProjections({ league, onBack }: LeagueProjectionsProps) {
         console.log(`[LeagueProjections] Syncing with Couch Managers room ${roomId}`);
       }
 
-      const result = await syncAuctionLite(roomId, league.settings);
+      const result = await syncAuctionLite(
+        roomId,
+        league.settings,
+        null,
+        league.id.startsWith('league-') ? undefined : league.id
+      );
 
       if (import.meta.env.DEV) {
         console.log(`[LeagueProjections] Sync successful! Matched ${result.matchedPlayers.length} players`);
@@ -468,7 +473,7 @@ export function LeagueProjections({ league, onBack }: LeagueProjectionsProps) {
     } finally {
       setIsSyncing(false);
     }
-  }, [league.settings]);
+  }, [league.id, league.settings]);
 
   // Sync on mount if a Couch Managers room ID is configured
   useEffect(() => {
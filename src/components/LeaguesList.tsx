@@ -1,8 +1,10 @@
 import { useState, useEffect } from 'react';
 import { SavedLeague, LeagueSettings, SubscriptionInfo, ScrapedAuctionData, Player } from '../lib/types';
-import { Plus, Calendar, Users, DollarSign, Trash2, Play, CheckCircle, Settings, User, Crown, Loader2, Pencil, Shield, BarChart3, TrendingUp } from 'lucide-react';
+import { Plus, Calendar, Users, DollarSign, Trash2, Play, CheckCircle, Settings, User, Crown, Loader2, Pencil, Shield, BarChart3, TrendingUp, FileSpreadsheet, LogOut, Eye, UserCheck } from 'lucide-react';
 import { EditLeagueModal } from './EditLeagueModal';
+import { LeagueInvitesPanel } from './LeagueInvitesPanel';
 import { ProjectedStandings } from './ProjectedStandings';
+import { DraftImportModal } from './DraftImportModal';
 import { fetchAuctionData } from '../lib/auctionApi';
 import { useIsMobile } from './ui/use-mobile';
 
@@ -16,11 +18,14 @@ interface LeaguesListProps {
   onEditLeague: (league: SavedLeague) => void;
   onReloadProjections: (league: SavedLeague, newProjectionSystem?: LeagueSettings['projectionSystem']) => Promise<void>;
   onViewProjections: (league: SavedLeague) => void;
+  onDraftImported?: (league: SavedLeague) => void;
   onLogout: () => void;
   onAccount: () => void;
   onAdmin?: () => void;
   profilePicture?: string;
   subscription?: SubscriptionInfo;
+  inviteToken?: string; // From an invite link opened before landing here
+  onInviteAccepted?: (leagueId: string) => void;
 }
 
 // Cache type for room data
@@ -42,15 +47,19 @@ export function LeaguesList({
   onEditLeague,
   onReloadProjections,
   onViewProjections,
+  onDraftImported,
   onLogout,
   onAccount,
   onAdmin,
   profilePicture,
-  subscription
+  subscription,
+  inviteToken,
+  onInviteAccepted,
 }: LeaguesListProps) {
   const [editingLeague, setEditingLeague] = useState<SavedLeague | null>(null);
   const [roomDataCache, setRoomDataCache] = useState<RoomDataCache>({});
   const [standingsLeague, setStandingsLeague] = useState<SavedLeague | null>(null);
+  const [importingLeague, setImportingLeague] = useState<SavedLeague | null>(null);
   const isMobile = useIsMobile();
 
   // Fetch room data for leagues with Couch Managers room IDs
@@ -139,6 +148,39 @@ export function LeaguesList({
     }
   };
 
+  // Leagues shared with me: co-managers can draft, members only view
+  const getRoleBadge = (role: SavedLeague['role'], compact = false) => {
+    if (!role || role === 'owner') return null;
+    const baseClasses = compact
+      ? "px-2 py-0.5 rounded text-xs flex items-center gap-1"
+      : "px-3 py-1 rounded-lg text-sm flex items-center gap-1";
+    const iconClass = compact ? "w-2.5 h-2.5" : "w-3 h-3";
+
+    return role === 'co-manager' ? (
+      <span className={`${baseClasses} bg-purple-900/30 text-purple-300 border border-purple-500/30`}>
+        <UserCheck className={iconClass} />
+        Co-manager
+      </span>
+    ) : (
+      <span className={`${baseClasses} bg-slate-800 text-slate-400 border border-slate-700`}>
+        <Eye className={iconClass} />
+        View only
+      </span>
+    );
+  };
+
+  const isOwner = (league: SavedLeague) => !league.role || league.role === 'owner';
+  const canEditDraft = (league: SavedLeague) => league.role !== 'member';
+
+  const confirmRemove = (league: SavedLeague) => {
+    const message = isOwner(league)
+      ? `Are you sure you want to delete "${league.leagueName}"?`
+      : `Leave "${league.leagueName}"? You'll need a new invite to rejoin.`;
+    if (confirm(message)) {
+      onDeleteLeague(league.id);
+    }
+  };
+
   return (
     <div className="min-h-screen" style={{ backgroundColor: '#0d0d0d' }}>
       {/* Animated background orbs - retro colors */}
@@ -223,6 +265,11 @@ export function LeaguesList({
           </div>
         </button>
 
+        {/* Invites to other people's leagues */}
+        {onInviteAccepted && (
+          <LeagueInvitesPanel inviteToken={inviteToken} onJoined={onInviteAccepted} />
+        )}
+
         {/* Leagues List */}
         {leagues.length > 0 ? (
           <div className={`space-y-${isMobile ? '3' : '4'}`}>
@@ -238,6 +285,7 @@ export function LeaguesList({
                     {/* Header row with name and status */}
                     <div className="flex items-start justify-between gap-2">
                       <h3 className="text-lg text-white font-medium leading-tight flex-1 min-w-0 truncate">{league.leagueName}</h3>
+                      {getRoleBadge(league.role, true)}
                       {getStatusBadge(league.status, true)}
                     </div>
 
@@ -252,6 +300,7 @@ export function LeaguesList({
                         ${league.settings.budgetPerTeam}
                       </span>
                       <span className="capitalize">{league.settings.scoringType.replace(/-/g, ' ')}</span>
+                      {league.myTeamName && <span className="text-slate-300">{league.myTeamName}</span>}
                     </div>
 
                     {/* Draft status info */}
@@ -331,24 +380,32 @@ export function LeaguesList({
                         </button>
                       )}
 
-                      <button
-                        onClick={() => setEditingLeague(league)}
-                        className="p-2.5 bg-slate-800 text-slate-400 border border-slate-700 rounded-lg hover:bg-blue-900/30 hover:text-blue-400 hover:border-blue-500/30 transition-all"
-                        title="Edit"
-                      >
-                        <Settings className="w-4 h-4" />
-                      </button>
+                      {league.status !== 'setup' && onDraftImported && !league.id.startsWith('league-') && canEditDraft(league) && (
+                        <button
+                          onClick={() => setImportingLeague(league)}
+                          className="p-2.5 bg-slate-800 text-slate-400 border border-slate-700 rounded-lg hover:bg-teal-900/30 hover:text-teal-400 hover:border-teal-500/30 transition-all"
+                          title="Import Draft Results"
+                        >
+                          <FileSpreadsheet className="w-4 h-4" />
+                        </button>
+                      )}
+
+                      {isOwner(league) && (
+                        <button
+                          onClick={() => setEditingLeague(league)}
+                          className="p-2.5 bg-slate-800 text-slate-400 border border-slate-700 rounded-lg hover:bg-blue-900/30 hover:text-blue-400 hover:border-blue-500/30 transition-all"
+                          title="Edit"
+                        >
+                          <Settings className="w-4 h-4" />
+                        </button>
+                      )}
 
                       <button
-                        onClick={() => {
-                          if (confirm(`Are you sure you want to delete "${league.leagueName}"?`)) {
-                            onDeleteLeague(league.id);
-                          }
-                        }}
+                        onClick={() => confirmRemove(league)}
                         className="p-2.5 bg-slate-800 text-slate-400 border border-slate-700 rounded-lg hover:bg-red-900/30 hover:text-red-400 hover:border-red-500/30 transition-all"
-                        title="Delete"
+                        title={isOwner(league) ? 'Delete' : 'Leave'}
                       >
-                        <Trash2 className="w-4 h-4" />
+                        {isOwner(league) ? <Trash2 className="w-4 h-4" /> : <LogOut className="w-4 h-4" />}
                       </button>
                     </div>
                   </div>
@@ -359,6 +416,7 @@ export function LeaguesList({
                       <div className="flex items-center gap-3 mb-3">
                         <h3 className="text-2xl text-white">{league.leagueName}</h3>
                         {getStatusBadge(league.status)}
+                        {getRoleBadge(league.role)}
                       </div>
 
                       <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
@@ -385,6 +443,12 @@ export function LeaguesList({
                         </div>
                       )}
 
+                      {league.myTeamName && (
+                        <div className="text-sm text-slate-400">
+                          Your team: {league.myTeamName}
+                        </div>
+                      )}
+
                       {league.status === 'setup' && league.setupStep && (
                         <div className="mt-2 text-sm text-blue-400">
                           Setup in progress - Step {league.setupStep} of 5
@@ -461,24 +525,32 @@ export function LeaguesList({
                         </button>
                       )}
 
-                      <button
-                        onClick={() => setEditingLeague(league)}
-                        className="px-4 py-3 bg-slate-800 text-slate-400 border border-slate-700 rounded-lg hover:bg-blue-900/30 hover:text-blue-400 hover:border-blue-500/30 transition-all"
-                        title="Edit league settings"
-                      >
-                        <Settings className="w-4 h-4" />
-                      </button>
+                      {league.status !== 'setup' && onDraftImported && !league.id.startsWith('league-') && canEditDraft(league) && (
+                        <button
+                          onClick={() => setImportingLeague(league)}
+                          className="px-4 py-3 bg-slate-800 text-slate-400 border border-slate-700 rounded-lg hover:bg-teal-900/30 hover:text-teal-400 hover:border-teal-500/30 transition-all"
+                          title="Import draft results from CSV"
+                        >
+                          <FileSpreadsheet className="w-4 h-4" />
+                        </button>
+                      )}
+
+                      {isOwner(league) && (
+                        <button
+                          onClick={() => setEditingLeague(league)}
+                          className="px-4 py-3 bg-slate-800 text-slate-400 border border-slate-700 rounded-lg hover:bg-blue-900/30 hover:text-blue-400 hover:border-blue-500/30 transition-all"
+                          title="Edit league settings"
+                        >
+                          <Settings className="w-4 h-4" />
+                        </button>
+                      )}
 
                       <button
-                        onClick={() => {
-                          if (confirm(`Are you sure you want to delete "${league.leagueName}"?`)) {
-                            onDeleteLeague(league.id);
-                          }
-                        }}
+                        onClick={() => confirmRemove(league)}
                         className="px-4 py-3 bg-slate-800 text-slate-400 border border-slate-700 rounded-lg hover:bg-red-900/30 hover:text-red-400 hover:border-red-500/30 transition-all"
-                        title="Delete league"
+                        title={isOwner(league) ? 'Delete league' : 'Leave league'}
                       >
-                        <Trash2 className="w-4 h-4" />
+                        {isOwner(league) ? <Trash2 className="w-4 h-4" /> : <LogOut className="w-4 h-4" />}
                       </button>
                     </div>
                   </div>
@@ -521,6 +593,19 @@ export function LeaguesList({
         />
       )}
 
+      {/* Draft Import Modal */}
+      {importingLeague && onDraftImported && (
+        <DraftImportModal
+          league={importingLeague}
+          isOpen={!!importingLeague}
+          onClose={() => setImportingLeague(null)}
+          onImported={(league) => {
+            setImportingLeague(null);
+            onDraftImported(league);
+          }}
+        />
+      )}
+
       {/* Projected Standings Modal */}
       {standingsLeague && (
         <ProjectedStandings
@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { DollarSign, Mail, Lock, User, Loader2, AlertCircle } from 'lucide-react';
+import { DollarSign, Mail, Lock, User, Loader2, AlertCircle, ShieldCheck } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 
 /**
@@ -40,7 +40,7 @@ interface LoginPageProps {
 }
 
 export function LoginPage({ onBack, onSuccess, onForgotPassword }: LoginPageProps) {
-  const { login, register, isLoading, error, clearError } = useAuth();
+  const { login, register, isLoading, error, clearError, twoFactorPending } = useAuth();
   const [isSignUp, setIsSignUp] = useState(false);
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
@@ -81,7 +81,9 @@ export function LoginPage({ onBack, onSuccess, onForgotPassword }: LoginPageProp
       if (isSignUp) {
         await register(email, password, name || undefined);
       } else {
-        await login(email, password);
+        const signedIn = await login(email, password);
+        // With 2FA on, the verify step takes over from here
+        if (!signedIn) return;
       }
       onSuccess();
     } catch {
@@ -254,105 +256,136 @@ export function LoginPage({ onBack, onSuccess, onForgotPassword }: LoginPageProp
           <p style={{ color: 'rgba(255,255,255,0.5)', marginTop: '16px' }}>Sign in to manage your drafts</p>
         </div>
 
-        {/* Login Form */}
-        <div
-          style={{
-            backgroundColor: 'rgba(255,255,255,0.03)',
-            backdropFilter: 'blur(12px)',
-            border: '1px solid rgba(255,255,255,0.08)',
-            borderRadius: '16px',
-            padding: '32px',
-          }}
-          className="animate-slideInLeft"
-        >
-          <div style={{ display: 'flex', gap: '8px', marginBottom: '24px' }}>
-            <button
-              onClick={() => { setIsSignUp(false); clearError(); setLocalError(null); }}
-              style={{
-                flex: 1,
-                padding: '10px',
-                borderRadius: '8px',
-                transition: 'all 0.3s',
-                border: 'none',
-                cursor: 'pointer',
-                fontWeight: 500,
-                ...(
-                  !isSignUp
-                    ? {
-                        background: `linear-gradient(90deg, ${colors.amber500}, ${colors.orange500}, ${colors.rose500})`,
-                        color: 'white',
-                        boxShadow: `0 10px 25px ${colors.orange500}40`,
-                      }
-                    : {
-                        backgroundColor: 'rgba(255,255,255,0.05)',
-                        color: 'rgba(255,255,255,0.6)',
-                        border: '1px solid rgba(255,255,255,0.1)',
-                      }
-                ),
-              }}
-            >
-              Login
-            </button>
-            <button
-              onClick={() => { setIsSignUp(true); clearError(); setLocalError(null); }}
-              style={{
-                flex: 1,
-                padding: '10px',
-                borderRadius: '8px',
-                transition: 'all 0.3s',
-                border: 'none',
-                cursor: 'pointer',
-                fontWeight: 500,
-                ...(
-                  isSignUp
-                    ? {
-                        background: `linear-gradient(90deg, ${colors.amber500}, ${colors.orange500}, ${colors.rose500})`,
-                        color: 'white',
-                        boxShadow: `0 10px 25px ${colors.orange500}40`,
-                      }
-                    : {
-                        backgroundColor: 'rgba(255,255,255,0.05)',
-                        color: 'rgba(255,255,255,0.6)',
-                        border: '1px solid rgba(255,255,255,0.1)',
-                      }
-                ),
-              }}
-            >
-              Sign Up
-            </button>
-          </div>
-
-          {/* Error Display */}
-          {displayError && (
-            <div
-              style={{
-                marginBottom: '16px',
-                padding: '12px',
-                backgroundColor: 'rgba(244, 63, 94, 0.15)',
-                border: `1px solid ${colors.rose500}50`,
-                borderRadius: '8px',
-                display: 'flex',
-                alignItems: 'center',
-                gap: '8px',
-                color: colors.rose400,
-              }}
-            >
-              <AlertCircle style={{ width: '20px', height: '20px', flexShrink: 0 }} />
-              <span style={{ fontSize: '14px' }}>{displayError}</span>
+        {twoFactorPending ? (
+          <TwoFactorStep onSuccess={onSuccess} />
+        ) : (
+          /* Login Form */
+          <div
+            style={{
+              backgroundColor: 'rgba(255,255,255,0.03)',
+              backdropFilter: 'blur(12px)',
+              border: '1px solid rgba(255,255,255,0.08)',
+              borderRadius: '16px',
+              padding: '32px',
+            }}
+            className="animate-slideInLeft"
+          >
+            <div style={{ display: 'flex', gap: '8px', marginBottom: '24px' }}>
+              <button
+                onClick={() => { setIsSignUp(false); clearError(); setLocalError(null); }}
+                style={{
+                  flex: 1,
+                  padding: '10px',
+                  borderRadius: '8px',
+                  transition: 'all 0.3s',
+                  border: 'none',
+                  cursor: 'pointer',
+                  fontWeight: 500,
+                  ...(
+                    !isSignUp
+                      ? {
+                          background: `linear-gradient(90deg, ${colors.amber500}, ${colors.orange500}, ${colors.rose500})`,
+                          color: 'white',
+                          boxShadow: `0 10px 25px ${colors.orange500}40`,
+                        }
+                      : {
+                          backgroundColor: 'rgba(255,255,255,0.05)',
+                          color: 'rgba(255,255,255,0.6)',
+                          border: '1px solid rgba(255,255,255,0.1)',
+                        }
+                  ),
+                }}
+              >
+                Login
+              </button>
+              <button
+                onClick={() => { setIsSignUp(true); clearError(); setLocalError(null); }}
+                style={{
+                  flex: 1,
+                  padding: '10px',
+                  borderRadius: '8px',
+                  transition: 'all 0.3s',
+                  border: 'none',
+                  cursor: 'pointer',
+                  fontWeight: 500,
+                  ...(
+                    isSignUp
+                      ? {
+                          background: `linear-gradient(90deg, ${colors.amber500}, ${colors.orange500}, ${colors.rose500})`,
+                          color: 'white',
+                          boxShadow: `0 10px 25px ${colors.orange500}40`,
+                        }
+                      : {
+                          backgroundColor: 'rgba(255,255,255,0.05)',
+                          color: 'rgba(255,255,255,0.6)',
+                          border: '1px solid rgba(255,255,255,0.1)',
+                        }
+                  ),
+                }}
+              >
+                Sign Up
+              </button>
             </div>
-          )}
 
-          <form onSubmit={handleSubmit} style={{ display: 'flex', flexDirection: 'column', gap: '16px' }}>
-            {isSignUp && (
+            {/* Error Display */}
+            {displayError && (
+              <div
+                style={{
+                  marginBottom: '16px',
+                  padding: '12px',
+                  backgroundColor: 'rgba(244, 63, 94, 0.15)',
+                  border: `1px solid ${colors.rose500}50`,
+                  borderRadius: '8px',
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '8px',
+                  color: colors.rose400,
+                }}
+              >
+                <AlertCircle style={{ width: '20px', height: '20px', flexShrink: 0 }} />
+                <span style={{ fontSize: '14px' }}>{displayError}</span>
+              </div>
+            )}
+
+            <form onSubmit={handleSubmit} style={{ display: 'flex', flexDirection: 'column', gap: '16px' }}>
+              {isSignUp && (
+                <div>
+                  <label style={{ display: 'block', color: 'rgba(255,255,255,0.7)', marginBottom: '8px' }}>
+                    <User style={{ width: '16px', height: '16px', display: 'inline', marginRight: '8px' }} />
+                    Name (optional)
+                  </label>
+                  <input
+                    type="text"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    style={{
+                      width: '100%',
+                      padding: '12px 16px',
+                      backgroundColor: 'rgba(255,255,255,0.05)',
+                      border: '1px solid rgba(255,255,255,0.1)',
+                      borderRadius: '8px',
+                      color: 'white',
+                      fontSize: '16px',
+                      outline: 'none',
+                      transition: 'all 0.3s',
+                    }}
+                    placeholder="Enter your name"
+                    disabled={isLoading}
+                    onFocus={(e) => e.target.style.borderColor = colors.orange500}
+                    onBlur={(e) => e.target.style.borderColor = 'rgba(255,255,255,0.1)'}
+                  />
+                </div>
+              )}
+
               <div>
                 <label style={{ display: 'block', color: 'rgba(255,255,255,0.7)', marginBottom: '8px' }}>
-                  <User style={{ width: '16px', height: '16px', display: 'inline', marginRight: '8px' }} />
-                  Name (optional)
+                  <Mail style={{ width: '16px', height: '16px', display: 'inline', marginRight: '8px' }} />
+                  Email
                 </label>
                 <input
-                  type="text"
-                  value={name}
-                  onChange={(e) => setName(e.target.value)}
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
                   style={{
                     width: '100%',
                     padding: '12px 16px',
@@ -364,100 +397,23 @@ export function LoginPage({ onBack, onSuccess, onForgotPassword }: LoginPageProp
                     outline: 'none',
                     transition: 'all 0.3s',
                   }}
-                  placeholder="Enter your name"
+                  placeholder="Enter your email"
+                  required
                   disabled={isLoading}
                   onFocus={(e) => e.target.style.borderColor = colors.orange500}
                   onBlur={(e) => e.target.style.borderColor = 'rgba(255,255,255,0.1)'}
                 />
               </div>
-            )}
-
-            <div>
-              <label style={{ display: 'block', color: 'rgba(255,255,255,0.7)', marginBottom: '8px' }}>
-                <Mail style={{ width: '16px', height: '16px', display: 'inline', marginRight: '8px' }} />
-                Email
-              </label>
-              <input
-                type="email"
-                value={email}
-                onChange={(e) => setEmail(e.target.value)}
-                style={{
-                  width: '100%',
-                  padding: '12px 16px',
-                  backgroundColor: 'rgba(255,255,255,0.05)',
-                  border: '1px solid rgba(255,255,255,0.1)',
-                  borderRadius: '8px',
-                  color: 'white',
-                  fontSize: '16px',
-                  outline: 'none',
-                  transition: 'all 0.3s',
-                }}
-                placeholder="Enter your email"
-                required
-                disabled={isLoading}
-                onFocus={(e) => e.target.style.borderColor = colors.orange500}
-                onBlur={(e) => e.target.style.borderColor = 'rgba(255,255,255,0.1)'}
-              />
-            </div>
-
-            <div>
-              <label style={{ display: 'block', color: 'rgba(255,255,255,0.7)', marginBottom: '8px' }}>
-                <Lock style={{ width: '16px', height: '16px', display: 'inline', marginRight: '8px' }} />
-                Password
-              </label>
-              <input
-                type="password"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                style={{
-                  width: '100%',
-                  padding: '12px 16px',
-                  backgroundColor: 'rgba(255,255,255,0.05)',
-                  border: '1px solid rgba(255,255,255,0.1)',
-                  borderRadius: '8px',
-                  color: 'white',
-                  fontSize: '16px',
-                  outline: 'none',
-                  transition: 'all 0.3s',
-                }}
-                placeholder={isSignUp ? 'Create a password (min 8 chars)' : 'Enter your password'}
-                required
-                disabled={isLoading}
-                onFocus={(e) => e.target.style.borderColor = colors.orange500}
-                onBlur={(e) => e.target.style.borderColor = 'rgba(255,255,255,0.1)'}
-              />
-              {!isSignUp && (
-                <div style={{ marginTop: '8px', textAlign: 'right' }}>
-                  <button
-                    type="button"
-                    onClick={onForgotPassword}
-                    style={{
-                      background: 'none',
-                      border: 'none',
-                      color: colors.orange400,
-                      fontSize: '14px',
-                      cursor: 'pointer',
-                      transition: 'color 0.3s',
-                    }}
-                    onMouseEnter={(e) => e.currentTarget.style.color = colors.amber400}
-                    onMouseLeave={(e) => e.currentTarget.style.color = colors.orange400}
-                  >
-                    Forgot password?
-                  </button>
-                </div>
-              )}
-            </div>
 
-            {isSignUp && (
               <div>
                 <label style={{ display: 'block', color: 'rgba(255,255,255,0.7)', marginBottom: '8px' }}>
                   <Lock style={{ width: '16px', height: '16px', display: 'inline', marginRight: '8px' }} />
-                  Confirm Password
+                  Password
                 </label>
                 <input
                   type="password"
-                  value={confirmPassword}
-                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
                   style={{
                     width: '100%',
                     padding: '12px 16px',
@@ -469,118 +425,168 @@ export function LoginPage({ onBack, onSuccess, onForgotPassword }: LoginPageProp
                     outline: 'none',
                     transition: 'all 0.3s',
                   }}
-                  placeholder="Confirm your password"
+                  placeholder={isSignUp ? 'Create a password (min 8 chars)' : 'Enter your password'}
                   required
                   disabled={isLoading}
                   onFocus={(e) => e.target.style.borderColor = colors.orange500}
                   onBlur={(e) => e.target.style.borderColor = 'rgba(255,255,255,0.1)'}
                 />
+                {!isSignUp && (
+                  <div style={{ marginTop: '8px', textAlign: 'right' }}>
+                    <button
+                      type="button"
+                      onClick={onForgotPassword}
+                      style={{
+                        background: 'none',
+                        border: 'none',
+                        color: colors.orange400,
+                        fontSize: '14px',
+                        cursor: 'pointer',
+                        transition: 'color 0.3s',
+                      }}
+                      onMouseEnter={(e) => e.currentTarget.style.color = colors.amber400}
+                      onMouseLeave={(e) => e.currentTarget.style.color = colors.orange400}
+                    >
+                      Forgot password?
+                    </button>
+                  </div>
+                )}
               </div>
-            )}
 
+              {isSignUp && (
+                <div>
+                  <label style={{ display: 'block', color: 'rgba(255,255,255,0.7)', marginBottom: '8px' }}>
+                    <Lock style={{ width: '16px', height: '16px', display: 'inline', marginRight: '8px' }} />
+                    Confirm Password
+                  </label>
+                  <input
+                    type="password"
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                    style={{
+                      width: '100%',
+                      padding: '12px 16px',
+                      backgroundColor: 'rgba(255,255,255,0.05)',
+                      border: '1px solid rgba(255,255,255,0.1)',
+                      borderRadius: '8px',
+                      color: 'white',
+                      fontSize: '16px',
+                      outline: 'none',
+                      transition: 'all 0.3s',
+                    }}
+                    placeholder="Confirm your password"
+                    required
+                    disabled={isLoading}
+                    onFocus={(e) => e.target.style.borderColor = colors.orange500}
+                    onBlur={(e) => e.target.style.borderColor = 'rgba(255,255,255,0.1)'}
+                  />
+                </div>
+              )}
+
+              <button
+                type="submit"
+                disabled={isLoading}
+                style={{
+                  width: '100%',
+                  padding: '14px',
+                  background: `linear-gradient(90deg, ${colors.amber500}, ${colors.orange500}, ${colors.rose500})`,
+                  color: 'white',
+                  borderRadius: '8px',
+                  border: 'none',
+                  fontWeight: 600,
+                  fontSize: '16px',
+                  cursor: isLoading ? 'not-allowed' : 'pointer',
+                  boxShadow: `0 15px 35px ${colors.orange500}40`,
+                  opacity: isLoading ? 0.7 : 1,
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  gap: '8px',
+                  transition: 'all 0.3s',
+                }}
+              >
+                {isLoading ? (
+                  <>
+                    <Loader2 style={{ width: '20px', height: '20px' }} className="animate-spin" />
+                    {isSignUp ? 'Creating Account...' : 'Signing In...'}
+                  </>
+                ) : (
+                  isSignUp ? 'Create Account' : 'Sign In'
+                )}
+              </button>
+            </form>
+
+            {/* Divider */}
+            <div style={{ position: 'relative', margin: '24px 0' }}>
+              <div style={{ position: 'absolute', inset: 0, display: 'flex', alignItems: 'center' }}>
+                <div style={{ width: '100%', borderTop: '1px solid rgba(255,255,255,0.1)' }} />
+              </div>
+              <div style={{ position: 'relative', display: 'flex', justifyContent: 'center', fontSize: '14px' }}>
+                <span style={{ padding: '0 16px', backgroundColor: colors.bg, color: 'rgba(255,255,255,0.4)' }}>Or continue with</span>
+              </div>
+            </div>
+
+            {/* Google OAuth Button */}
             <button
-              type="submit"
-              disabled={isLoading}
+              onClick={handleGoogleLogin}
+              disabled={isLoading || isGoogleLoading}
               style={{
                 width: '100%',
                 padding: '14px',
-                background: `linear-gradient(90deg, ${colors.amber500}, ${colors.orange500}, ${colors.rose500})`,
-                color: 'white',
+                backgroundColor: 'white',
+                color: '#1f2937',
                 borderRadius: '8px',
                 border: 'none',
-                fontWeight: 600,
+                fontWeight: 500,
                 fontSize: '16px',
-                cursor: isLoading ? 'not-allowed' : 'pointer',
-                boxShadow: `0 15px 35px ${colors.orange500}40`,
-                opacity: isLoading ? 0.7 : 1,
+                cursor: isLoading || isGoogleLoading ? 'not-allowed' : 'pointer',
                 display: 'flex',
                 alignItems: 'center',
                 justifyContent: 'center',
-                gap: '8px',
+                gap: '12px',
+                opacity: isLoading || isGoogleLoading ? 0.7 : 1,
                 transition: 'all 0.3s',
               }}
             >
-              {isLoading ? (
+              {isGoogleLoading ? (
                 <>
-                  <Loader2 style={{ width: '20px', height: '20px' }} className="animate-spin" />
-                  {isSignUp ? 'Creating Account...' : 'Signing In...'}
+                  <Loader2 style={{ width: '20px', height: '20px', color: '#4b5563' }} className="animate-spin" />
+                  <span>Connecting...</span>
                 </>
               ) : (
-                isSignUp ? 'Create Account' : 'Sign In'
+                <>
+                  <svg style={{ width: '20px', height: '20px' }} viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
+                    <path d="M22.56 12.25c0-.78-.07-1.53-.2-2.25H12v4.26h5.92c-.26 1.37-1.04 2.53-2.21 3.31v2.77h3.57c2.08-1.92 3.28-4.74 3.28-8.09z" fill="#4285F4"/>
+                    <path d="M12 23c2.97 0 5.46-.98 7.28-2.66l-3.57-2.77c-.98.66-2.23 1.06-3.71 1.06-2.86 0-5.29-1.93-6.16-4.53H2.18v2.84C3.99 20.53 7.7 23 12 23z" fill="#34A853"/>
+                    <path d="M5.84 14.09c-.22-.66-.35-1.36-.35-2.09s.13-1.43.35-2.09V7.07H2.18C1.43 8.55 1 10.22 1 12s.43 3.45 1.18 4.93l2.85-2.22.81-.62z" fill="#FBBC05"/>
+                    <path d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15C17.45 2.09 14.97 1 12 1 7.7 1 3.99 3.47 2.18 7.07l3.66 2.84c.87-2.6 3.3-4.53 6.16-4.53z" fill="#EA4335"/>
+                  </svg>
+                  <span>Continue with Google</span>
+                </>
               )}
             </button>
-          </form>
 
-          {/* Divider */}
-          <div style={{ position: 'relative', margin: '24px 0' }}>
-            <div style={{ position: 'absolute', inset: 0, display: 'flex', alignItems: 'center' }}>
-              <div style={{ width: '100%', borderTop: '1px solid rgba(255,255,255,0.1)' }} />
-            </div>
-            <div style={{ position: 'relative', display: 'flex', justifyContent: 'center', fontSize: '14px' }}>
-              <span style={{ padding: '0 16px', backgroundColor: colors.bg, color: 'rgba(255,255,255,0.4)' }}>Or continue with</span>
+            <div style={{ marginTop: '24px', paddingTop: '24px', borderTop: '1px solid rgba(255,255,255,0.08)' }}>
+              <p style={{ textAlign: 'center', color: 'rgba(255,255,255,0.5)', fontSize: '14px' }}>
+                {isSignUp ? 'Already have an account?' : "Don't have an account?"}{' '}
+                <button
+                  onClick={() => { setIsSignUp(!isSignUp); clearError(); setLocalError(null); }}
+                  style={{
+                    background: 'none',
+                    border: 'none',
+                    color: colors.orange400,
+                    cursor: 'pointer',
+                    transition: 'color 0.3s',
+                  }}
+                  onMouseEnter={(e) => e.currentTarget.style.color = colors.amber400}
+                  onMouseLeave={(e) => e.currentTarget.style.color = colors.orange400}
+                >
+                  {isSignUp ? 'Login' : 'Sign Up'}
+                </button>
+              </p>
             </div>
           </div>
-
-          {/* Google OAuth Button */}
-          <button
-            onClick={handleGoogleLogin}
-            disabled={isLoading || isGoogleLoading}
-            style={{
-              width: '100%',
-              padding: '14px',
-              backgroundColor: 'white',
-              color: '#1f2937',
-              borderRadius: '8px',
-              border: 'none',
-              fontWeight: 500,
-              fontSize: '16px',
-              cursor: isLoading || isGoogleLoading ? 'not-allowed' : 'pointer',
-              display: 'flex',
-              alignItems: 'center',
-              justifyContent: 'center',
-              gap: '12px',
-              opacity: isLoading || isGoogleLoading ? 0.7 : 1,
-              transition: 'all 0.3s',
-            }}
-          >
-            {isGoogleLoading ? (
-              <>
-                <Loader2 style={{ width: '20px', height: '20px', color: '#4b5563' }} className="animate-spin" />
-                <span>Connecting...</span>
-              </>
-            ) : (
-              <>
-                <svg style={{ width: '20px', height: '20px' }} viewBox="0 0 24 24" xmlns="http://www.w3.org/2000/svg">
-                  <path d="M22.56 12.25c0-.78-.07-1.53-.2-2.25H12v4.26h5.92c-.26 1.37-1.04 2.53-2.21 3.31v2.77h3.57c2.08-1.92 3.28-4.74 3.28-8.09z" fill="#4285F4"/>
-                  <path d="M12 23c2.97 0 5.46-.98 7.28-2.66l-3.57-2.77c-.98.66-2.23 1.06-3.71 1.06-2.86 0-5.29-1.93-6.16-4.53H2.18v2.84C3.99 20.53 7.7 23 12 23z" fill="#34A853"/>
-                  <path d="M5.84 14.09c-.22-.66-.35-1.36-.35-2.09s.13-1.43.35-2.09V7.07H2.18C1.43 8.55 1 10.22 1 12s.43 3.45 1.18 4.93l2.85-2.22.81-.62z" fill="#FBBC05"/>
-                  <path d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15C17.45 2.09 14.97 1 12 1 7.7 1 3.99 3.47 2.18 7.07l3.66 2.84c.87-2.6 3.3-4.53 6.16-4.53z" fill="#EA4335"/>
-                </svg>
-                <span>Continue with Google</span>
-              </>
-            )}
-          </button>
-
-          <div style={{ marginTop: '24px', paddingTop: '24px', borderTop: '1px solid rgba(255,255,255,0.08)' }}>
-            <p style={{ textAlign: 'center', color: 'rgba(255,255,255,0.5)', fontSize: '14px' }}>
-              {isSignUp ? 'Already have an account?' : "Don't have an account?"}{' '}
-              <button
-                onClick={() => { setIsSignUp(!isSignUp); clearError(); setLocalError(null); }}
-                style={{
-                  background: 'none',
-                  border: 'none',
-                  color: colors.orange400,
-                  cursor: 'pointer',
-                  transition: 'color 0.3s',
-                }}
-                onMouseEnter={(e) => e.currentTarget.style.color = colors.amber400}
-                onMouseLeave={(e) => e.currentTarget.style.color = colors.orange400}
-              >
-                {isSignUp ? 'Login' : 'Sign Up'}
-              </button>
-            </p>
-          </div>
-        </div>
+        )}
 
         <button
           onClick={onBack}
@@ -604,3 +610,148 @@ export function LoginPage({ onBack, onSuccess, onForgotPassword }: LoginPageProp
     </div>
   );
 }
+
+/**
+ * Second login step for accounts with 2FA: a code from the authenticator app,
+ * or one of the recovery codes saved at setup.
+ */
+function TwoFactorStep({ onSuccess }: { onSuccess: () => void }) {
+  const { verifyTwoFactor, cancelTwoFactor, isLoading, error } = useAuth();
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) return;
+
+    try {
+      await verifyTwoFactor(code.trim());
+      onSuccess();
+    } catch {
+      // Error is handled by AuthContext
+      setCode('');
+    }
+  };
+
+  return (
+    <div
+      style={{
+        backgroundColor: 'rgba(255,255,255,0.03)',
+        backdropFilter: 'blur(12px)',
+        border: '1px solid rgba(255,255,255,0.08)',
+        borderRadius: '16px',
+        padding: '32px',
+      }}
+      className="animate-slideInLeft"
+    >
+      <div style={{ textAlign: 'center', marginBottom: '24px' }}>
+        <ShieldCheck style={{ width: '40px', height: '40px', color: colors.amber400, margin: '0 auto 12px' }} />
+        <h2 style={{ color: 'white', fontSize: '1.25rem', fontWeight: 600, marginBottom: '8px' }}>
+          Two-factor authentication
+        </h2>
+        <p style={{ color: 'rgba(255,255,255,0.5)', fontSize: '14px' }}>
+          {useRecoveryCode
+            ? 'Enter one of the recovery codes you saved when you set up two-factor authentication.'
+            : 'Enter the 6-digit code from your authenticator app.'}
+        </p>
+      </div>
+
+      {error && (
+        <div
+          style={{
+            marginBottom: '16px',
+            padding: '12px',
+            backgroundColor: 'rgba(244, 63, 94, 0.15)',
+            border: `1px solid ${colors.rose500}50`,
+            borderRadius: '8px',
+            display: 'flex',
+            alignItems: 'center',
+            gap: '8px',
+            color: colors.rose400,
+          }}
+        >
+          <AlertCircle style={{ width: '20px', height: '20px', flexShrink: 0 }} />
+          <span style={{ fontSize: '14px' }}>{error}</span>
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} style={{ display: 'flex', flexDirection: 'column', gap: '16px' }}>
+        <input
+          type="text"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          inputMode={useRecoveryCode ? 'text' : 'numeric'}
+          autoComplete="one-time-code"
+          maxLength={useRecoveryCode ? 20 : 6}
+          autoFocus
+          style={{
+            width: '100%',
+            padding: '12px 16px',
+            backgroundColor: 'rgba(255,255,255,0.05)',
+            border: '1px solid rgba(255,255,255,0.1)',
+            borderRadius: '8px',
+            color: 'white',
+            fontSize: '20px',
+            letterSpacing: '0.3em',
+            textAlign: 'center',
+            outline: 'none',
+            transition: 'all 0.3s',
+          }}
+          placeholder={useRecoveryCode ? 'XXXXX-XXXXX' : '000000'}
+          disabled={isLoading}
+          onFocus={(e) => e.target.style.borderColor = colors.orange500}
+          onBlur={(e) => e.target.style.borderColor = 'rgba(255,255,255,0.1)'}
+        />
+
+        <button
+          type="submit"
+          disabled={isLoading || !code.trim()}
+          style={{
+            width: '100%',
+            padding: '14px',
+            background: `linear-gradient(90deg, ${colors.amber500}, ${colors.orange500}, ${colors.rose500})`,
+            color: 'white',
+            borderRadius: '8px',
+            border: 'none',
+            fontWeight: 600,
+            fontSize: '16px',
+            cursor: isLoading || !code.trim() ? 'not-allowed' : 'pointer',
+            boxShadow: `0 15px 35px ${colors.orange500}40`,
+            opacity: isLoading || !code.trim() ? 0.7 : 1,
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            gap: '8px',
+            transition: 'all 0.3s',
+          }}
+        >
+          {isLoading ? (
+            <>
+              <Loader2 style={{ width: '20px', height: '20px' }} className="animate-spin" />
+              Verifying...
+            </>
+          ) : (
+            'Verify'
+          )}
+        </button>
+      </form>
+
+      <div style={{ marginTop: '24px', display: 'flex', justifyContent: 'space-between', fontSize: '14px' }}>
+        <button
+          type="button"
+          onClick={() => { setUseRecoveryCode(!useRecoveryCode); setCode(''); }}
+          style={{ background: 'none', border: 'none', color: colors.orange400, cursor: 'pointer' }}
+        >
+          {useRecoveryCode ? 'Use authenticator code' : 'Use a recovery code'}
+        </button>
+        <button
+          type="button"
+          onClick={cancelTwoFactor}
+          style={{ background: 'none', border: 'none', color: 'rgba(255,255,255,0.5)', cursor: 'pointer' }}
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+import { useEffect, useState } from 'react';
+import { Users, X, AlertCircle } from 'lucide-react';
+
+interface ManualTeamsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  teams: string[];
+  onSave: (teams: string[]) => void;
+}
+
+export function ManualTeamsModal({ isOpen, onClose, teams, onSave }: ManualTeamsModalProps) {
+  const [names, setNames] = useState<string[]>(teams);
+
+  // Start from the current names each time the modal opens
+  useEffect(() => {
+    if (isOpen) setNames(teams);
+  }, [isOpen, teams]);
+
+  if (!isOpen) return null;
+
+  const trimmed = names.map(n => n.trim());
+  const hasEmpty = trimmed.some(n => !n);
+  const hasDuplicates = new Set(trimmed.map(n => n.toLowerCase())).size !== trimmed.length;
+
+  const handleSave = () => {
+    onSave(trimmed);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div
+        className="bg-slate-900 border border-slate-700 text-white max-w-md w-full rounded-lg p-6 max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center gap-2">
+            <Users className="w-5 h-5 text-blue-400" />
+            <h2 className="text-lg font-semibold">League Teams</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 hover:bg-slate-800 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5 text-slate-400" />
+          </button>
+        </div>
+
+        <p className="text-slate-400 text-sm mb-4">
+          Name each team in your auction. Picks are entered with the winning team, and renaming a team
+          updates the players it has already drafted.
+        </p>
+
+        <div className="space-y-2 mb-4">
+          {names.map((name, index) => (
+            <div key={index} className="flex items-center gap-3">
+              <span className="w-6 text-right text-slate-500 text-sm">{index + 1}</span>
+              <input
+                type="text"
+                value={name}
+                maxLength={100}
+                onChange={(e) => setNames(prev => prev.map((n, i) => (i === index ? e.target.value : n)))}
+                className="flex-1 px-3 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white focus:outline-none focus:border-emerald-500"
+              />
+              {index === 0 && <span className="text-emerald-400 text-xs">You</span>}
+            </div>
+          ))}
+        </div>
+
+        {(hasEmpty || hasDuplicates) && (
+          <div className="flex items-start gap-2 p-3 mb-4 bg-red-900/30 border border-red-500/30 rounded-lg text-red-300 text-sm">
+            <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
+            <span>{hasEmpty ? 'Every team needs a name.' : 'Team names must be unique.'}</span>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-slate-800 text-slate-300 border border-slate-700 rounded-lg hover:bg-slate-700 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={hasEmpty || hasDuplicates}
+            className="px-4 py-2 bg-gradient-to-r from-emerald-600 to-green-700 text-white rounded-lg hover:from-emerald-700 hover:to-green-800 transition-all disabled:opacity-50"
+          >
+            Save Teams
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
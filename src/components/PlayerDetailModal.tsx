@@ -1,7 +1,11 @@
 import { useState, useMemo } from 'react';
-import { Player, LeagueSettings, PositionalScarcity } from '../lib/types';
+import { Player, LeagueSettings, PositionalScarcity, PlayerPriceForecast, ProjectionStatOverrides } from '../lib/types';
 import { InflationResult, calculateStrategicMaxBid, HISTORICAL_INFLATION_BASELINES } from '../lib/calculations';
-import { X, TrendingUp, AlertCircle, ChevronDown, ChevronUp, Calculator, Target, AlertTriangle, CheckCircle, Info } from 'lucide-react';
+import { BudgetPlanContext, calculatePlannedMaxBid, analyzePlannedBid } from '../lib/budgetPlanner';
+import { ProjectionOverrideEditor } from './ProjectionOverrideEditor';
+import { PlayerPriceTargets, PriceTargets } from './PlayerPriceTargets';
+import { PlayerValueHistory } from './PlayerValueHistory';
+import { X, TrendingUp, AlertCircle, ChevronDown, ChevronUp, Calculator, Target, AlertTriangle, CheckCircle, Info, Dices, Loader2 } from 'lucide-react';
 
 interface PlayerDetailModalProps {
   player: Player | null;
@@ -10,6 +14,11 @@ interface PlayerDetailModalProps {
   leagueSettings?: LeagueSettings;
   myMoneyRemaining?: number;
   myRosterSpotsRemaining?: number;
+  priceForecast?: PlayerPriceForecast | null; // Simulated price distribution (null = not drafted in simulations)
+  isForecastLoading?: boolean;
+  budgetPlanContext?: BudgetPlanContext | null; // Remaining-budget roster planner inputs for my team
+  onSaveStatOverrides?: (player: Player, overrides: ProjectionStatOverrides | null) => Promise<void>; // Saved leagues only
+  onChangePriceTargets?: (player: Player, targets: PriceTargets) => void; // Pinned value and "max I'll pay"
 }
 
 export function PlayerDetailModal({
@@ -19,8 +28,17 @@ export function PlayerDetailModal({
   leagueSettings,
   myMoneyRemaining,
   myRosterSpotsRemaining,
+  priceForecast,
+  isForecastLoading,
+  budgetPlanContext,
+  onSaveStatOverrides,
+  onChangePriceTargets,
 }: PlayerDetailModalProps) {
   const [showInflationBreakdown, setShowInflationBreakdown] = useState(true);
+  // What-if bid, starting at the player's adjusted value (the modal is keyed by player)
+  const [plannedBidInput, setPlannedBidInput] = useState(() =>
+    player ? String(Math.max(1, Math.round(player.adjustedValue))) : ''
+  );
 
   // Calculate inflation breakdown components
   // Note: All hooks must be called before any early returns to avoid React error #310
@@ -63,6 +81,21 @@ export function PlayerDetailModal({
     };
   }, [player, inflationResult]);
 
+  // Roster planner max bid - cached per planner context, so once per sync
+  const plannedBid = useMemo(() => {
+    if (!player || !budgetPlanContext || (player.status !== 'available' && player.status !== 'on_block')) {
+      return null;
+    }
+    return calculatePlannedMaxBid(budgetPlanContext, player);
+  }, [player, budgetPlanContext]);
+
+  // Which planned players winning at the what-if bid would push out
+  const plannedBidImpact = useMemo(() => {
+    const bid = parseInt(plannedBidInput, 10);
+    if (!player || !budgetPlanContext || !plannedBid || isNaN(bid) || bid < 1) return null;
+    return analyzePlannedBid(budgetPlanContext, player, bid, plannedBid.basePlan);
+  }, [player, budgetPlanContext, plannedBid, plannedBidInput]);
+
   // Calculate strategic bid analysis
   const strategicAnalysis = useMemo(() => {
     if (!player || myMoneyRemaining === undefined || myRosterSpotsRemaining === undefined) {
@@ -72,9 +105,11 @@ export function PlayerDetailModal({
       myMoneyRemaining,
       myRosterSpotsRemaining,
       player.adjustedValue,
-      player.projectedValue
+      player.projectedValue,
+      plannedBid?.maxBid,
+      player.maxPrice
     );
-  }, [player, myMoneyRemaining, myRosterSpotsRemaining]);
+  }, [player, myMoneyRemaining, myRosterSpotsRemaining, plannedBid]);
 
   // Get historical context for this player's tier/price range
   const historicalContext = useMemo(() => {
@@ -148,6 +183,14 @@ export function PlayerDetailModal({
                   </span>
                 </>
               )}
+              {player.statOverrides && (
+                <>
+                  <span className="text-gray-400">•</span>
+                  <span className="px-2 py-0.5 bg-sky-100 text-sky-700 rounded text-sm font-medium">
+                    Edited projection
+                  </span>
+                </>
+              )}
             </div>
           </div>
           <button
@@ -188,6 +231,47 @@ export function PlayerDetailModal({
               </div>
             </div>
 
+            {/* Value over the preseason's projection updates */}
+            {leagueSettings && <PlayerValueHistory player={player} leagueSettings={leagueSettings} />}
+
+            {/* Simulated price range - how uncertain the adjusted value is */}
+            {(player.status === 'available' || player.status === 'on_block') && (isForecastLoading || priceForecast !== undefined) && (
+              <div className="mt-3 p-4 bg-indigo-50 border border-indigo-200 rounded-lg">
+                <div className="flex items-center gap-2 text-sm text-gray-600 mb-2">
+                  <Dices className="w-4 h-4 text-indigo-600" />
+                  Simulated Price
+                  {priceForecast && (
+                    <span className="ml-auto text-xs text-gray-500">
+                      Drafted in {Math.round(priceForecast.draftedRate * 100)}% of simulations
+                    </span>
+                  )}
+                </div>
+                {isForecastLoading ? (
+                  <div className="flex items-center gap-2 text-gray-500 text-sm">
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    Simulating the rest of the auction...
+                  </div>
+                ) : priceForecast ? (
+                  <div className="grid grid-cols-3 gap-4 text-center">
+                    <div>
+                      <div className="text-xs text-gray-500">Low (p10)</div>
+                      <div className="text-lg font-semibold text-gray-700">${priceForecast.p10}</div>
+                    </div>
+                    <div>
+                      <div className="text-xs text-gray-500">Median</div>
+                      <div className="text-2xl font-bold text-indigo-700">${priceForecast.p50}</div>
+                    </div>
+                    <div>
+                      <div className="text-xs text-gray-500">High (p90)</div>
+                      <div className="text-lg font-semibold text-gray-700">${priceForecast.p90}</div>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="text-sm text-gray-500">Not drafted in any simulated completion of the auction.</div>
+                )}
+              </div>
+            )}
+
             {player.status === 'drafted' && player.draftedPrice !== undefined && (
               <div className="mt-3 p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
                 <div className="flex items-center gap-2 text-yellow-800">
@@ -299,6 +383,11 @@ export function PlayerDetailModal({
             </div>
           )}
 
+          {/* My Price - pinned value and personal max */}
+          {onChangePriceTargets && player.status !== 'drafted' && player.status !== 'onMyTeam' && (
+            <PlayerPriceTargets player={player} onChange={onChangePriceTargets} />
+          )}
+
           {/* Strategic Analysis - Only show if user has selected a team */}
           {strategicAnalysis && myMoneyRemaining !== undefined && myRosterSpotsRemaining !== undefined && player.status !== 'drafted' && (
             <div className={`border rounded-lg overflow-hidden ${getRiskColor(strategicAnalysis.riskLevel)}`}>
@@ -348,15 +437,57 @@ export function PlayerDetailModal({
                     </span>
                   </div>
                   <div className="flex justify-between items-center text-sm">
-                    <span>Recommended Max Bid</span>
+                    <span>
+                      {strategicAnalysis.isPersonalCap
+                        ? "My Max (I'll Pay)"
+                        : strategicAnalysis.isPlanned ? 'Roster Plan Max Bid' : 'Recommended Max Bid'}
+                    </span>
                     <span className="font-medium">${strategicAnalysis.recommendedMax}</span>
                   </div>
-                  <div className="flex justify-between items-center text-sm opacity-75">
-                    <span>Absolute Max (50% rule)</span>
-                    <span>${strategicAnalysis.absoluteMax}</span>
-                  </div>
+                  {!strategicAnalysis.isPlanned && (
+                    <div className="flex justify-between items-center text-sm opacity-75">
+                      <span>Absolute Max (50% rule)</span>
+                      <span>${strategicAnalysis.absoluteMax}</span>
+                    </div>
+                  )}
                 </div>
 
+                {/* Roster planner what-if - which planned players a bid pushes out */}
+                {plannedBid && (
+                  <div className="bg-white/60 rounded-lg p-3 mb-4 text-sm">
+                    <div className="flex items-center gap-2 mb-2">
+                      <span>If you win at $</span>
+                      <input
+                        type="number"
+                        min="1"
+                        value={plannedBidInput}
+                        onChange={(e) => setPlannedBidInput(e.target.value)}
+                        className="w-20 px-2 py-1 bg-white border border-gray-300 rounded text-gray-900"
+                      />
+                    </div>
+                    {!plannedBidImpact ? null : !plannedBidImpact.plan ? (
+                      <div>This bid leaves too little to fill your remaining roster spots.</div>
+                    ) : plannedBidImpact.displaced.length === 0 ? (
+                      <div>Fits your roster plan without pushing anyone out.</div>
+                    ) : (
+                      <div>
+                        <div className="mb-1">
+                          Pushes out of your plan ({plannedBidImpact.valueChange >= 0 ? '+' : ''}
+                          {plannedBidImpact.valueChange.toFixed(1)} projected value):
+                        </div>
+                        <ul className="space-y-0.5">
+                          {plannedBidImpact.displaced.map(pick => (
+                            <li key={pick.player.id} className="flex justify-between">
+                              <span>{pick.player.name} <span className="opacity-70">({pick.slot})</span></span>
+                              <span>${pick.cost}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+                  </div>
+                )}
+
                 {/* Strategic Advice */}
                 <div className="bg-white/80 rounded-lg p-3 text-sm">
                   <div className="flex items-start gap-2">
@@ -418,6 +549,11 @@ export function PlayerDetailModal({
                 </>
               )}
             </div>
+            {onSaveStatOverrides && (
+              <div className="mt-3">
+                <ProjectionOverrideEditor player={player} onSave={onSaveStatOverrides} />
+              </div>
+            )}
           </div>
 
           {/* Historical Context */}
@@ -0,0 +1,113 @@
+import { useEffect, useState } from 'react';
+import { AlertCircle, DollarSign } from 'lucide-react';
+import { Player } from '../lib/types';
+
+export interface PriceTargets {
+  valueOverride?: number;
+  maxPrice?: number;
+}
+
+interface PlayerPriceTargetsProps {
+  player: Player;
+  onChange: (player: Player, targets: PriceTargets) => void;
+}
+
+function parsePrice(input: string): number | undefined | null {
+  const trimmed = input.trim();
+  if (!trimmed) return undefined;
+  const value = parseInt(trimmed, 10);
+  return isNaN(value) || value < 1 ? null : value;
+}
+
+/**
+ * Pins my own dollar value for a player and sets the most I'll pay.
+ * A max price also makes the player a target so I'm alerted when they
+ * hit the block below it.
+ */
+export function PlayerPriceTargets({ player, onChange }: PlayerPriceTargetsProps) {
+  const [valueInput, setValueInput] = useState('');
+  const [maxInput, setMaxInput] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setValueInput(player.valueOverride !== undefined ? String(player.valueOverride) : '');
+    setMaxInput(player.maxPrice !== undefined ? String(player.maxPrice) : '');
+    setError(null);
+  }, [player.id, player.valueOverride, player.maxPrice]);
+
+  const handleSave = () => {
+    const valueOverride = parsePrice(valueInput);
+    const maxPrice = parsePrice(maxInput);
+    if (valueOverride === null || maxPrice === null) {
+      setError('Prices must be whole dollars of at least $1');
+      return;
+    }
+    setError(null);
+    onChange(player, { valueOverride, maxPrice });
+  };
+
+  const isDirty =
+    valueInput !== (player.valueOverride !== undefined ? String(player.valueOverride) : '') ||
+    maxInput !== (player.maxPrice !== undefined ? String(player.maxPrice) : '');
+
+  return (
+    <div className="p-4 bg-amber-50 border border-amber-200 rounded-lg">
+      <div className="flex items-center gap-2 mb-3">
+        <DollarSign className="w-4 h-4 text-amber-600" />
+        <span className="text-sm font-medium text-gray-900">My Price</span>
+        {(player.valueOverride !== undefined || player.maxPrice !== undefined) && (
+          <button
+            onClick={() => onChange(player, {})}
+            className="ml-auto text-xs text-gray-600 hover:text-gray-900"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <label className="text-xs text-gray-600">
+          My value (replaces ${player.projectedValue} projection)
+          <input
+            type="number"
+            min={1}
+            value={valueInput}
+            onChange={(e) => setValueInput(e.target.value)}
+            placeholder="Market value"
+            className="mt-1 w-full px-2 py-1 border border-gray-300 rounded text-sm text-gray-900"
+          />
+        </label>
+        <label className="text-xs text-gray-600">
+          Max I&apos;ll pay
+          <input
+            type="number"
+            min={1}
+            value={maxInput}
+            onChange={(e) => setMaxInput(e.target.value)}
+            placeholder="No limit"
+            className="mt-1 w-full px-2 py-1 border border-gray-300 rounded text-sm text-gray-900"
+          />
+        </label>
+      </div>
+      <div className="flex items-center justify-between mt-3">
+        <p className="text-xs text-gray-500">
+          {player.maxPrice !== undefined
+            ? `You'll be alerted when ${player.name} is nominated below $${player.maxPrice}.`
+            : 'Set a max to be alerted when this player is nominated below it.'}
+        </p>
+        <button
+          onClick={handleSave}
+          disabled={!isDirty}
+          className="px-3 py-1 text-xs bg-amber-600 text-white rounded hover:bg-amber-700 disabled:opacity-50"
+        >
+          Save
+        </button>
+      </div>
+      {error && (
+        <div className="mt-2 flex items-center gap-2 text-red-600 text-sm">
+          <AlertCircle className="w-4 h-4" />
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,8 +1,8 @@
 import { useState, useMemo, useCallback, memo, useRef, useEffect } from 'react';
 import { Player, PositionalScarcity } from '../lib/types';
-import { getDraftSurplus } from '../lib/calculations';
+import { getDraftSurplus, getTargetPrice } from '../lib/calculations';
 import { getPlayerPhotoUrl } from '../lib/auctionApi';
-import { ArrowUpDown, Filter, TrendingUp, TrendingDown, User, Check, X, UserPlus, Info, AlertTriangle, Star } from 'lucide-react';
+import { ArrowUpDown, Filter, TrendingUp, TrendingDown, User, Check, X, Info, AlertTriangle, Star } from 'lucide-react';
 
 /**
  * Check if a player is a minor league player (has MiLB position marker)
@@ -21,18 +21,19 @@ function getPlayingPositions(positions: string[]): string[] {
 /**
  * Calculate the discount/premium percentage for a player
  * Positive = Premium (overpaying), Negative = Discount (good deal)
+ * Measured against my "max I'll pay" when set, otherwise the adjusted value
  * Returns null if calculation isn't possible
  */
 function getDiscountPremiumPercent(player: Player): number | null {
   if (player.status !== 'on_block' || player.currentBid === undefined) {
     return null;
   }
-  const adjustedValue = player.adjustedValue;
-  if (adjustedValue === 0) {
+  const targetPrice = getTargetPrice(player);
+  if (targetPrice === 0) {
     // Avoid division by zero - if adj value is 0, any bid is a premium
     return player.currentBid > 0 ? 100 : 0;
   }
-  return ((player.currentBid - adjustedValue) / adjustedValue) * 100;
+  return ((player.currentBid - targetPrice) / targetPrice) * 100;
 }
 
 // Virtualization constants
@@ -45,7 +46,8 @@ interface PlayerQueueProps {
   onPlayerClick: (player: Player) => void;
   positionalScarcity?: PositionalScarcity[];
   isManualMode?: boolean; // When true, allow manual entry of actual $ values
-  onManualDraft?: (player: Player, price: number, toMyTeam: boolean) => void;
+  onManualDraft?: (player: Player, price: number, teamName: string) => void;
+  manualTeams?: string[]; // Teams a manual pick can be assigned to (first is my team)
   isMobile?: boolean;
   /**
    * Callback to toggle a player's targeted status.
@@ -68,12 +70,15 @@ const MOBILE_ROW_HEIGHT = 64;
 // This is a safety filter in case more players somehow get through
 const DEFAULT_MAX_PLAYERS = 1200;
 
-export const PlayerQueue = memo(function PlayerQueue({ players, onPlayerClick, positionalScarcity, isManualMode, onManualDraft, isMobile, onToggleTarget, maxPlayers = DEFAULT_MAX_PLAYERS }: PlayerQueueProps) {
+export const PlayerQueue = memo(function PlayerQueue({ players, onPlayerClick, positionalScarcity, isManualMode, onManualDraft, manualTeams = [], isMobile, onToggleTarget, maxPlayers = DEFAULT_MAX_PLAYERS }: PlayerQueueProps) {
   const [searchQuery, setSearchQuery] = useState('');
   const [filterPosition, setFilterPosition] = useState<string>('all');
   // Track which player has manual entry input open, and the current input value
   const [editingPlayerId, setEditingPlayerId] = useState<string | null>(null);
   const [manualPriceInput, setManualPriceInput] = useState<string>('');
+  // Winning team for manual entry - stays on the last team used (falls back to my team after a rename)
+  const [manualTeamInput, setManualTeamInput] = useState<string>('');
+  const selectedManualTeam = manualTeams.includes(manualTeamInput) ? manualTeamInput : manualTeams[0];
   // Derive targeted player IDs from player data (persisted via isTargeted field)
   // Local state is only used as fallback when onToggleTarget is not provided
   const [localTargetedIds, setLocalTargetedIds] = useState<Set<string>>(new Set());
@@ -327,14 +332,14 @@ export const PlayerQueue = memo(function PlayerQueue({ players, onPlayerClick, p
   }, []);
 
   // Handler for manual draft entry
-  const handleManualDraftSubmit = useCallback((player: Player, toMyTeam: boolean) => {
+  const handleManualDraftSubmit = useCallback((player: Player) => {
     const price = parseInt(manualPriceInput, 10);
-    if (!isNaN(price) && price >= 0 && onManualDraft) {
-      onManualDraft(player, price, toMyTeam);
+    if (!isNaN(price) && price >= 0 && selectedManualTeam && onManualDraft) {
+      onManualDraft(player, price, selectedManualTeam);
       setEditingPlayerId(null);
       setManualPriceInput('');
     }
-  }, [manualPriceInput, onManualDraft]);
+  }, [manualPriceInput, selectedManualTeam, onManualDraft]);
 
   // Cancel manual entry
   const handleManualDraftCancel = useCallback(() => {
@@ -679,6 +684,11 @@ export const PlayerQueue = memo(function PlayerQueue({ players, onPlayerClick, p
                           2W
                         </span>
                       )}
+                      {player.statOverrides && (
+                        <span className="px-1 py-0.5 text-[10px] bg-sky-500/30 text-sky-400 border border-sky-500/40 rounded-full">
+                          ED
+                        </span>
+                      )}
                     </div>
                     <div className="text-slate-400 text-[11px] flex items-center gap-1">
                       <span>{getPlayingPositions(player.positions).join(', ') || 'UTIL'}</span>
@@ -736,8 +746,8 @@ export const PlayerQueue = memo(function PlayerQueue({ players, onPlayerClick, p
 
                     {/* Bid for on_block - colored based on comparison to Adj */}
                     {isOnBlock && player.currentBid !== undefined && (() => {
-                      const bidDiff = player.currentBid - player.adjustedValue;
-                      const isGoodDeal = bidDiff < 0; // Bid less than Adj = good deal
+                      const bidDiff = player.currentBid - getTargetPrice(player);
+                      const isGoodDeal = bidDiff < 0; // Bid less than Adj (or my max) = good deal
                       const isOverpay = bidDiff > 0; // Bid more than Adj = overpay
                       // Determine text color class with explicit color to avoid inheritance issues
                       const bidValueColor = isGoodDeal ? 'text-emerald-300' :
@@ -843,6 +853,14 @@ export const PlayerQueue = memo(function PlayerQueue({ players, onPlayerClick, p
                           2-WAY
                         </span>
                       )}
+                      {player.statOverrides && (
+                        <span
+                          className="px-1.5 py-0.5 text-xs font-semibold bg-sky-500/20 text-sky-400 border border-sky-500/40 rounded-full"
+                          title="Projection edited for this league"
+                        >
+                          EDITED
+                        </span>
+                      )}
                       {isOnBlock && (
                         <span className="px-2 py-0.5 text-xs font-semibold bg-red-600 text-white border border-red-500 rounded-full animate-pulse">
                           LIVE
@@ -930,6 +948,9 @@ export const PlayerQueue = memo(function PlayerQueue({ players, onPlayerClick, p
                   // For available/on_block players: show inflation-adjusted value with comparison indicator
                   <div className="flex items-center gap-1">
                     <span className="text-white">${Math.round(player.adjustedValue)}</span>
+                    {player.maxPrice !== undefined && (
+                      <span className="text-amber-400 text-xs" title="Max I'll pay">max ${player.maxPrice}</span>
+                    )}
                     {/* Value comparison indicator: Adj $ vs Proj $ */}
                     {valueChange !== null && valueChange !== 0 && (
                       (() => {
@@ -974,24 +995,27 @@ export const PlayerQueue = memo(function PlayerQueue({ players, onPlayerClick, p
                       value={manualPriceInput}
                       onChange={(e) => setManualPriceInput(e.target.value)}
                       onKeyDown={(e) => {
-                        if (e.key === 'Enter') handleManualDraftSubmit(player, true);
+                        if (e.key === 'Enter') handleManualDraftSubmit(player);
                         if (e.key === 'Escape') handleManualDraftCancel();
                       }}
                       autoFocus
                       className="w-12 px-1 py-0.5 bg-slate-700 border border-emerald-500 rounded text-white text-sm focus:outline-none"
                       placeholder="0"
                     />
-                    <button
-                      onClick={() => handleManualDraftSubmit(player, true)}
-                      className="p-0.5 text-emerald-400 hover:text-emerald-300 transition-colors"
-                      title="Add to My Team"
+                    <select
+                      value={selectedManualTeam ?? ''}
+                      onChange={(e) => setManualTeamInput(e.target.value)}
+                      className="w-24 px-1 py-0.5 bg-slate-700 border border-slate-600 rounded text-white text-xs focus:outline-none focus:border-emerald-500"
+                      title="Winning team"
                     >
-                      <UserPlus className="w-4 h-4" />
-                    </button>
+                      {manualTeams.map(team => (
+                        <option key={team} value={team}>{team}</option>
+                      ))}
+                    </select>
                     <button
-                      onClick={() => handleManualDraftSubmit(player, false)}
-                      className="p-0.5 text-blue-400 hover:text-blue-300 transition-colors"
-                      title="Mark as Drafted (Other Team)"
+                      onClick={() => handleManualDraftSubmit(player)}
+                      className="p-0.5 text-emerald-400 hover:text-emerald-300 transition-colors"
+                      title="Record Pick"
                     >
                       <Check className="w-4 h-4" />
                     </button>
@@ -1018,7 +1042,7 @@ export const PlayerQueue = memo(function PlayerQueue({ players, onPlayerClick, p
                     // Calculate color gradient based on how good/bad the deal is
                     // Positive diff = good deal (green), negative diff = overpay (red)
                     const bidDiff = isOnBlock && player.currentBid !== undefined
-                      ? player.adjustedValue - player.currentBid
+                      ? getTargetPrice(player) - player.currentBid
                       : 0;
 
                     // Calculate color based on difference magnitude
@@ -0,0 +1,87 @@
+import { useEffect, useState } from 'react';
+import { LineChart } from 'lucide-react';
+import { LeagueSettings, Player } from '../lib/types';
+import { fetchPlayerValueHistory, PlayerValueHistoryPoint } from '../lib/auctionApi';
+
+interface PlayerValueHistoryProps {
+  player: Player;
+  leagueSettings: LeagueSettings;
+}
+
+const WIDTH = 240;
+const HEIGHT = 48;
+const PADDING = 4;
+
+/**
+ * Sparkline of a player's auction value across the preseason's projection
+ * snapshots. Hidden for blended/custom projections and until there are at
+ * least two snapshots to compare.
+ */
+export function PlayerValueHistory({ player, leagueSettings }: PlayerValueHistoryProps) {
+  const [history, setHistory] = useState<PlayerValueHistoryPoint[]>([]);
+  const system = leagueSettings.projectionSystem;
+
+  useEffect(() => {
+    setHistory([]);
+    if (system === 'blend' || system === 'custom') return;
+
+    let cancelled = false;
+    fetchPlayerValueHistory(system, player.id, leagueSettings)
+      .then(points => {
+        if (!cancelled) setHistory(points);
+      })
+      .catch(() => {
+        // History is a nice-to-have; leave it hidden on failure
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [player.id, system, leagueSettings]);
+
+  if (history.length < 2) return null;
+
+  const values = history.map(point => point.auctionValue);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const range = max - min || 1;
+  const points = history.map((point, index) => {
+    const x = PADDING + (index / (history.length - 1)) * (WIDTH - PADDING * 2);
+    const y = HEIGHT - PADDING - ((point.auctionValue - min) / range) * (HEIGHT - PADDING * 2);
+    return `${x.toFixed(1)},${y.toFixed(1)}`;
+  });
+
+  const first = history[0];
+  const last = history[history.length - 1];
+  const change = last.auctionValue - first.auctionValue;
+  const formatDate = (iso: string) => new Date(iso).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+  return (
+    <div className="mt-3 p-4 bg-gray-50 border border-gray-200 rounded-lg">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center gap-2 text-sm text-gray-600">
+          <LineChart className="w-4 h-4 text-gray-500" />
+          Preseason value ({history.length} projection updates)
+        </div>
+        <span className={`text-sm font-semibold ${
+          change > 0 ? 'text-green-700' : change < 0 ? 'text-red-700' : 'text-gray-700'
+        }`}>
+          {change > 0 ? '+' : ''}{change}
+        </span>
+      </div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-12" preserveAspectRatio="none" role="img" aria-label={`Value from $${first.auctionValue} to $${last.auctionValue}`}>
+        <polyline
+          points={points.join(' ')}
+          fill="none"
+          stroke={change < 0 ? '#b91c1c' : '#15803d'}
+          strokeWidth="2"
+          strokeLinejoin="round"
+          vectorEffect="non-scaling-stroke"
+        />
+      </svg>
+      <div className="flex justify-between text-xs text-gray-500 mt-1">
+        <span>{formatDate(first.fetchedAt)} · ${first.auctionValue}</span>
+        <span>{formatDate(last.fetchedAt)} · ${last.auctionValue}</span>
+      </div>
+    </div>
+  );
+}
@@ -16,6 +16,8 @@ import {
   isLowerBetterCategory,
   type TeamProjectedStats,
 } from '../lib/teamProjections';
+import { simulateH2HSeason, getDefaultPlayoffTeams } from '../lib/h2hSimulator';
+import { H2HMatchupOdds } from './H2HMatchupOdds';
 
 interface ProjectedStandingsProps {
   isOpen: boolean;
@@ -29,6 +31,7 @@ interface ProjectedStandingsProps {
 }
 
 type SortColumn = 'rank' | 'team' | 'total' | string; // string for category columns
+type StandingsView = 'season' | 'h2h';
 
 export function ProjectedStandings({
   isOpen,
@@ -43,8 +46,13 @@ export function ProjectedStandings({
   const [sortBy, setSortBy] = useState<SortColumn>('rank');
   const [sortAsc, setSortAsc] = useState(true);
   const [showPrintView, setShowPrintView] = useState(false);
+  const [view, setView] = useState<StandingsView>('h2h');
   const printRef = useRef<HTMLDivElement>(null);
 
+  // H2H categories leagues get simulated weekly matchups instead of season totals
+  const isH2H = settings.scoringType === 'h2h-categories';
+  const showH2H = isH2H && view === 'h2h';
+
   // Get enabled categories
   const enabledCategories = useMemo(() => getEnabledCategories(settings), [settings]);
 
@@ -53,6 +61,14 @@ export function ProjectedStandings({
     return calculateProjectedStandings(allPlayers, allDrafted, settings, auctionData);
   }, [allPlayers, allDrafted, settings, auctionData]);
 
+  const playoffTeams = getDefaultPlayoffTeams(projectedStandings.length);
+
+  // Simulate the H2H season only while it's being shown
+  const h2hOdds = useMemo(() => {
+    if (!isOpen || !showH2H) return [];
+    return simulateH2HSeason(projectedStandings, enabledCategories, { playoffTeams });
+  }, [isOpen, showH2H, projectedStandings, enabledCategories, playoffTeams]);
+
   // Sort teams
   const sortedTeams = useMemo(() => {
     const sorted = [...projectedStandings];
@@ -171,6 +187,22 @@ export function ProjectedStandings({
     return <span className={`text-xs ${getRankColor()}`}>({rank})</span>;
   };
 
+  const ViewToggle = () => (
+    <div className="flex items-center bg-slate-800 rounded p-0.5 text-xs">
+      {(['h2h', 'season'] as const).map(option => (
+        <button
+          key={option}
+          onClick={() => setView(option)}
+          className={`px-2 py-0.5 rounded transition-colors ${
+            view === option ? 'bg-emerald-600 text-white' : 'text-slate-400 hover:text-white'
+          }`}
+        >
+          {option === 'h2h' ? 'H2H Odds' : 'Season Totals'}
+        </button>
+      ))}
+    </div>
+  );
+
   const SortIcon = ({ column }: { column: SortColumn }) => {
     if (sortBy !== column) return null;
     return sortAsc ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />;
@@ -278,6 +310,7 @@ export function ProjectedStandings({
             <h2 className="text-base font-semibold text-white">Projected Standings</h2>
           </div>
           <div className="flex items-center gap-2">
+            {isH2H && <ViewToggle />}
             <button
               onClick={handleSaveAsImage}
               className="p-2 hover:bg-slate-800 rounded-lg transition-colors"
@@ -296,7 +329,16 @@ export function ProjectedStandings({
 
         {/* Scrollable content */}
         <div className="flex-1 overflow-y-auto overscroll-contain">
-          {sortedTeams.map((team) => (
+          {showH2H && (
+            <H2HMatchupOdds
+              odds={h2hOdds}
+              categories={enabledCategories}
+              playoffTeams={playoffTeams}
+              selectedTeam={selectedTeam}
+              isMobile
+            />
+          )}
+          {!showH2H && sortedTeams.map((team) => (
             <div
               key={team.teamName}
               className={`border-b border-slate-700/30 p-4 ${
@@ -356,7 +398,9 @@ export function ProjectedStandings({
 
         {/* Legend */}
         <div className="border-t border-slate-700 px-4 py-2 bg-slate-800 text-xs text-slate-500 text-center">
-          Roto points: 1st = {numTeams} pts per category, last = 1 pt
+          {showH2H
+            ? 'Simulated H2H season vs a round-robin schedule'
+            : `Roto points: 1st = ${numTeams} pts per category, last = 1 pt`}
         </div>
       </div>
     );
@@ -379,6 +423,7 @@ export function ProjectedStandings({
             </span>
           </div>
           <div className="flex items-center gap-2">
+            {isH2H && <ViewToggle />}
             <button
               onClick={handleSaveAsImage}
               className="flex items-center gap-1.5 px-2 py-1 text-xs bg-slate-800 hover:bg-slate-700 rounded transition-colors"
@@ -398,116 +443,133 @@ export function ProjectedStandings({
 
         {/* Scrollable table */}
         <div className="flex-1 overflow-auto px-1" style={{ minHeight: 0 }}>
-          <table className="w-full text-[11px]">
-            <thead className="sticky top-0 bg-slate-900">
-              <tr className="border-b border-slate-700/50">
-                <th
-                  className="text-left py-1 px-1 text-slate-400 font-medium cursor-pointer hover:text-white transition-colors sticky left-0 bg-slate-900"
-                  onClick={() => handleSort('rank')}
-                >
-                  <div className="flex items-center gap-0.5">
-                    # <SortIcon column="rank" />
-                  </div>
-                </th>
-                <th
-                  className="text-left py-1 px-1 text-slate-400 font-medium cursor-pointer hover:text-white transition-colors sticky left-6 bg-slate-900"
-                  onClick={() => handleSort('team')}
-                >
-                  <div className="flex items-center gap-0.5">
-                    Team <SortIcon column="team" />
-                  </div>
-                </th>
-                {enabledCategories.map(cat => (
+          {showH2H ? (
+            <H2HMatchupOdds
+              odds={h2hOdds}
+              categories={enabledCategories}
+              playoffTeams={playoffTeams}
+              selectedTeam={selectedTeam}
+            />
+          ) : (
+            <table className="w-full text-[11px]">
+              <thead className="sticky top-0 bg-slate-900">
+                <tr className="border-b border-slate-700/50">
                   <th
-                    key={cat}
-                    className={`text-center py-1 px-0.5 text-slate-400 font-medium cursor-pointer hover:text-white transition-colors whitespace-nowrap ${
-                      isLowerBetterCategory(cat) ? 'text-red-400/70' : ''
-                    }`}
-                    onClick={() => handleSort(cat)}
-                    title={isLowerBetterCategory(cat) ? `${getCategoryDisplayName(cat)} (lower is better)` : getCategoryDisplayName(cat)}
+                    className="text-left py-1 px-1 text-slate-400 font-medium cursor-pointer hover:text-white transition-colors sticky left-0 bg-slate-900"
+                    onClick={() => handleSort('rank')}
+                  >
+                    <div className="flex items-center gap-0.5">
+                      # <SortIcon column="rank" />
+                    </div>
+                  </th>
+                  <th
+                    className="text-left py-1 px-1 text-slate-400 font-medium cursor-pointer hover:text-white transition-colors sticky left-6 bg-slate-900"
+                    onClick={() => handleSort('team')}
+                  >
+                    <div className="flex items-center gap-0.5">
+                      Team <SortIcon column="team" />
+                    </div>
+                  </th>
+                  {enabledCategories.map(cat => (
+                    <th
+                      key={cat}
+                      className={`text-center py-1 px-0.5 text-slate-400 font-medium cursor-pointer hover:text-white transition-colors whitespace-nowrap ${
+                        isLowerBetterCategory(cat) ? 'text-red-400/70' : ''
+                      }`}
+                      onClick={() => handleSort(cat)}
+                      title={isLowerBetterCategory(cat) ? `${getCategoryDisplayName(cat)} (lower is better)` : getCategoryDisplayName(cat)}
+                    >
+                      <div className="flex items-center justify-center gap-0.5">
+                        {getCategoryDisplayName(cat)}
+                        <SortIcon column={cat} />
+                      </div>
+                    </th>
+                  ))}
+                  <th
+                    className="text-center py-1 px-1 text-emerald-400 font-medium cursor-pointer hover:text-emerald-300 transition-colors"
+                    onClick={() => handleSort('total')}
+                    title="Total Roto Points"
                   >
                     <div className="flex items-center justify-center gap-0.5">
-                      {getCategoryDisplayName(cat)}
-                      <SortIcon column={cat} />
+                      Pts <SortIcon column="total" />
                     </div>
                   </th>
-                ))}
-                <th
-                  className="text-center py-1 px-1 text-emerald-400 font-medium cursor-pointer hover:text-emerald-300 transition-colors"
-                  onClick={() => handleSort('total')}
-                  title="Total Roto Points"
-                >
-                  <div className="flex items-center justify-center gap-0.5">
-                    Pts <SortIcon column="total" />
-                  </div>
-                </th>
-              </tr>
-            </thead>
-            <tbody>
-              {sortedTeams.map((team) => (
-                <tr
-                  key={team.teamName}
-                  className={`border-b border-slate-700/20 transition-colors ${
-                    team.teamName === selectedTeam
-                      ? 'bg-emerald-900/20'
-                      : 'hover:bg-slate-700/30'
-                  }`}
-                >
-                  {/* Rank */}
-                  <td className="py-0.5 px-1 text-center sticky left-0 bg-slate-900">
-                    <RankBadge rank={team.overallRank} size="small" />
-                  </td>
-
-                  {/* Team Name */}
-                  <td className="py-0.5 px-1 sticky left-6 bg-slate-900 max-w-[120px] truncate">
-                    <span className={`font-medium ${team.teamName === selectedTeam ? 'text-emerald-300' : 'text-white'}`} title={team.teamName}>
-                      {team.teamName}
-                    </span>
-                    <span className="text-slate-500 ml-0.5">({team.playerCount})</span>
-                  </td>
-
-                  {/* Category values */}
-                  {enabledCategories.map(cat => {
-                    const catData = team.categories[cat];
-                    return (
-                      <td key={cat} className="py-0.5 px-0.5 text-center">
-                        <div className="flex flex-col items-center leading-tight">
-                          <span className="text-white">
-                            {catData ? formatStatValue(catData.value, cat) : '-'}
-                          </span>
-                          {catData && (
-                            <span className={`text-[9px] ${
-                              catData.rank === 1 ? 'text-amber-400' :
-                              catData.rank === 2 ? 'text-slate-300' :
-                              catData.rank === 3 ? 'text-amber-600' :
-                              catData.rank <= numTeams / 3 ? 'text-emerald-400' :
-                              catData.rank <= (numTeams * 2) / 3 ? 'text-slate-500' :
-                              'text-red-400'
-                            }`}>({catData.rank})</span>
-                          )}
-                        </div>
-                      </td>
-                    );
-                  })}
-
-                  {/* Total Points */}
-                  <td className="py-0.5 px-1 text-center">
-                    <span className="text-emerald-400 font-bold">{team.totalRotoPoints.toFixed(1)}</span>
-                  </td>
                 </tr>
-              ))}
-            </tbody>
-          </table>
+              </thead>
+              <tbody>
+                {sortedTeams.map((team) => (
+                  <tr
+                    key={team.teamName}
+                    className={`border-b border-slate-700/20 transition-colors ${
+                      team.teamName === selectedTeam
+                        ? 'bg-emerald-900/20'
+                        : 'hover:bg-slate-700/30'
+                    }`}
+                  >
+                    {/* Rank */}
+                    <td className="py-0.5 px-1 text-center sticky left-0 bg-slate-900">
+                      <RankBadge rank={team.overallRank} size="small" />
+                    </td>
+
+                    {/* Team Name */}
+                    <td className="py-0.5 px-1 sticky left-6 bg-slate-900 max-w-[120px] truncate">
+                      <span className={`font-medium ${team.teamName === selectedTeam ? 'text-emerald-300' : 'text-white'}`} title={team.teamName}>
+                        {team.teamName}
+                      </span>
+                      <span className="text-slate-500 ml-0.5">({team.playerCount})</span>
+                    </td>
+
+                    {/* Category values */}
+                    {enabledCategories.map(cat => {
+                      const catData = team.categories[cat];
+                      return (
+                        <td key={cat} className="py-0.5 px-0.5 text-center">
+                          <div className="flex flex-col items-center leading-tight">
+                            <span className="text-white">
+                              {catData ? formatStatValue(catData.value, cat) : '-'}
+                            </span>
+                            {catData && (
+                              <span className={`text-[9px] ${
+                                catData.rank === 1 ? 'text-amber-400' :
+                                catData.rank === 2 ? 'text-slate-300' :
+                                catData.rank === 3 ? 'text-amber-600' :
+                                catData.rank <= numTeams / 3 ? 'text-emerald-400' :
+                                catData.rank <= (numTeams * 2) / 3 ? 'text-slate-500' :
+                                'text-red-400'
+                              }`}>({catData.rank})</span>
+                            )}
+                          </div>
+                        </td>
+                      );
+                    })}
+
+                    {/* Total Points */}
+                    <td className="py-0.5 px-1 text-center">
+                      <span className="text-emerald-400 font-bold">{team.totalRotoPoints.toFixed(1)}</span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
         </div>
 
         {/* Legend - more compact */}
         <div className="flex items-center gap-2 text-[10px] border-t border-slate-700 px-3 py-1 shrink-0 bg-slate-900">
-          <span className="text-slate-500">Roto: 1st={numTeams}pts</span>
-          <span className="text-slate-600">|</span>
-          <span className="text-emerald-400">●</span>
-          <span className="text-slate-500">Top 1/3</span>
-          <span className="text-red-400">●</span>
-          <span className="text-slate-500">Bottom 1/3</span>
+          {showH2H ? (
+            <span className="text-slate-500">
+              H2H: category win % per week from a simulated {numTeams}-team round robin, top {playoffTeams} make the playoffs
+            </span>
+          ) : (
+            <>
+              <span className="text-slate-500">Roto: 1st={numTeams}pts</span>
+              <span className="text-slate-600">|</span>
+              <span className="text-emerald-400">●</span>
+              <span className="text-slate-500">Top 1/3</span>
+              <span className="text-red-400">●</span>
+              <span className="text-slate-500">Bottom 1/3</span>
+            </>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,68 @@
+import { AlertCircle } from 'lucide-react';
+import { BlendableProjectionSystem, LeagueSettings } from '../lib/types';
+
+type ProjectionBlend = NonNullable<LeagueSettings['projectionBlend']>;
+
+const BLEND_SYSTEMS: Array<{ value: BlendableProjectionSystem; label: string }> = [
+  { value: 'steamer', label: 'Steamer' },
+  { value: 'batx', label: 'THE BAT X' },
+  { value: 'ja', label: 'JA Projections' },
+  { value: 'oopsy', label: 'OOPSY' },
+];
+
+interface ProjectionBlendEditorProps {
+  weights: ProjectionBlend;
+  onChange: (weights: ProjectionBlend) => void;
+}
+
+export function ProjectionBlendEditor({ weights, onChange }: ProjectionBlendEditorProps) {
+  const totalWeight = BLEND_SYSTEMS.reduce((sum, s) => sum + (weights[s.value] ?? 0), 0);
+
+  const handleWeightChange = (system: BlendableProjectionSystem, value: string) => {
+    const weight = Math.min(100, Math.max(0, parseInt(value, 10) || 0));
+    onChange({ ...weights, [system]: weight });
+  };
+
+  return (
+    <div className="bg-slate-800/50 border border-slate-700 rounded-xl p-4 space-y-3">
+      <p className="text-slate-400 text-sm">
+        Counting stats are averaged with these weights and rate stats are recomputed from the averaged totals.
+        Weights are relative - they don&apos;t need to add up to 100.
+      </p>
+      {BLEND_SYSTEMS.map(system => {
+        const weight = weights[system.value] ?? 0;
+        return (
+          <div key={system.value} className="flex items-center gap-3">
+            <span className="w-32 text-slate-300 text-sm">{system.label}</span>
+            <input
+              type="range"
+              min="0"
+              max="100"
+              step="5"
+              value={weight}
+              onChange={(e) => handleWeightChange(system.value, e.target.value)}
+              className="flex-1 accent-red-500"
+            />
+            <input
+              type="number"
+              min="0"
+              max="100"
+              value={weight}
+              onChange={(e) => handleWeightChange(system.value, e.target.value)}
+              className="w-16 px-2 py-1 bg-slate-900 border border-slate-700 rounded text-white text-sm focus:outline-none focus:border-red-500"
+            />
+            <span className="w-12 text-right text-slate-500 text-sm">
+              {totalWeight > 0 ? `${Math.round((weight / totalWeight) * 100)}%` : '-'}
+            </span>
+          </div>
+        );
+      })}
+      {totalWeight === 0 && (
+        <div className="flex items-center gap-2 text-red-300 text-sm">
+          <AlertCircle className="w-4 h-4" />
+          Give at least one projection system a weight.
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,200 @@
+import { useEffect, useState } from 'react';
+import { AlertCircle, Loader2, Pencil, RotateCcw } from 'lucide-react';
+import { Player, ProjectionStatOverrides } from '../lib/types';
+
+interface StatField {
+  stat: keyof Player['projectedStats'];
+  field: string; // Projection field the override is stored under
+  label: string;
+  decimals: number;
+}
+
+const HITTING_FIELDS: StatField[] = [
+  { stat: 'R', field: 'runs', label: 'Runs', decimals: 0 },
+  { stat: 'HR', field: 'homeRuns', label: 'Home Runs', decimals: 0 },
+  { stat: 'RBI', field: 'rbi', label: 'RBI', decimals: 0 },
+  { stat: 'SB', field: 'stolenBases', label: 'Stolen Bases', decimals: 0 },
+  { stat: 'AVG', field: 'battingAvg', label: 'Batting Avg', decimals: 3 },
+  { stat: 'OBP', field: 'onBasePct', label: 'OBP', decimals: 3 },
+];
+
+const PITCHING_FIELDS: StatField[] = [
+  { stat: 'IP', field: 'inningsPitched', label: 'Innings', decimals: 1 },
+  { stat: 'W', field: 'wins', label: 'Wins', decimals: 0 },
+  { stat: 'K', field: 'strikeouts', label: 'Strikeouts', decimals: 0 },
+  { stat: 'SV', field: 'saves', label: 'Saves', decimals: 0 },
+  { stat: 'HLD', field: 'holds', label: 'Holds', decimals: 0 },
+  { stat: 'ERA', field: 'era', label: 'ERA', decimals: 2 },
+  { stat: 'WHIP', field: 'whip', label: 'WHIP', decimals: 2 },
+];
+
+type StatGroup = 'hitting' | 'pitching';
+
+function formatStat(value: number | undefined, decimals: number): string {
+  return value === undefined ? '' : value.toFixed(decimals);
+}
+
+interface ProjectionOverrideEditorProps {
+  player: Player;
+  onSave: (player: Player, overrides: ProjectionStatOverrides | null) => Promise<void>;
+}
+
+/**
+ * Edits a player's projected stat line for the league (e.g. a closer's saves).
+ * Only changed stats are saved; related rate stats are recalculated on the server.
+ */
+export function ProjectionOverrideEditor({ player, onSave }: ProjectionOverrideEditorProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState<Record<string, string>>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isPitcher = player.positions.some(p => ['SP', 'RP', 'P'].includes(p));
+  const isHitter = player.isTwoWayPlayer || !isPitcher;
+  const groups: Array<{ group: StatGroup; fields: StatField[] }> = [
+    ...(isHitter ? [{ group: 'hitting' as const, fields: HITTING_FIELDS }] : []),
+    ...(isPitcher ? [{ group: 'pitching' as const, fields: PITCHING_FIELDS }] : []),
+  ];
+
+  // Close the editor when switching players
+  useEffect(() => {
+    setIsEditing(false);
+    setError(null);
+  }, [player.id]);
+
+  const startEditing = () => {
+    const values: Record<string, string> = {};
+    groups.forEach(({ group, fields }) => {
+      fields.forEach(f => {
+        values[`${group}.${f.field}`] = formatStat(player.projectedStats[f.stat], f.decimals);
+      });
+    });
+    setDraft(values);
+    setError(null);
+    setIsEditing(true);
+  };
+
+  const save = async (overrides: ProjectionStatOverrides | null) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onSave(player, overrides);
+      setIsEditing(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save projection');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = () => {
+    // Keep earlier edits and add stats that differ from the current line
+    const overrides: Record<StatGroup, Record<string, number>> = {
+      hitting: { ...player.statOverrides?.hitting },
+      pitching: { ...player.statOverrides?.pitching },
+    };
+    for (const { group, fields } of groups) {
+      for (const f of fields) {
+        const input = draft[`${group}.${f.field}`]?.trim();
+        if (!input) continue;
+        const value = parseFloat(input);
+        if (isNaN(value) || value < 0) {
+          setError(`${f.label} must be a non-negative number`);
+          return;
+        }
+        if (input !== formatStat(player.projectedStats[f.stat], f.decimals)) {
+          overrides[group][f.field] = value;
+        }
+      }
+    }
+    save({
+      hitting: Object.keys(overrides.hitting).length > 0 ? overrides.hitting : undefined,
+      pitching: Object.keys(overrides.pitching).length > 0 ? overrides.pitching : undefined,
+    });
+  };
+
+  return (
+    <div className="p-4 bg-sky-50 border border-sky-200 rounded-lg">
+      <div className="flex items-center gap-2">
+        <Pencil className="w-4 h-4 text-sky-600" />
+        <span className="text-sm font-medium text-gray-900">League Projection</span>
+        {player.statOverrides && (
+          <span className="px-2 py-0.5 bg-sky-100 text-sky-700 rounded text-xs font-medium">Edited</span>
+        )}
+        <div className="ml-auto flex items-center gap-2">
+          {player.statOverrides && !isEditing && (
+            <button
+              onClick={() => save(null)}
+              disabled={isSaving}
+              className="flex items-center gap-1 px-2 py-1 text-xs text-gray-600 hover:text-gray-900 disabled:opacity-50"
+            >
+              <RotateCcw className="w-3 h-3" />
+              Revert
+            </button>
+          )}
+          {!isEditing && (
+            <button
+              onClick={startEditing}
+              disabled={isSaving}
+              className="px-3 py-1 text-xs bg-sky-600 text-white rounded hover:bg-sky-700 disabled:opacity-50"
+            >
+              Edit stats
+            </button>
+          )}
+        </div>
+      </div>
+
+      {isEditing ? (
+        <div className="mt-3 space-y-3">
+          {groups.map(({ group, fields }) => (
+            <div key={group} className="grid grid-cols-4 gap-2">
+              {fields.map(f => (
+                <label key={f.field} className="text-xs text-gray-600">
+                  {f.label}
+                  <input
+                    type="number"
+                    min={0}
+                    step={f.decimals > 0 ? Math.pow(10, -f.decimals) : 1}
+                    value={draft[`${group}.${f.field}`] ?? ''}
+                    onChange={(e) => setDraft(prev => ({ ...prev, [`${group}.${f.field}`]: e.target.value }))}
+                    className="mt-1 w-full px-2 py-1 border border-gray-300 rounded text-sm text-gray-900"
+                  />
+                </label>
+              ))}
+            </div>
+          ))}
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setIsEditing(false)}
+              disabled={isSaving}
+              className="px-3 py-1 text-sm text-gray-600 hover:text-gray-900"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={isSaving}
+              className="flex items-center gap-1 px-3 py-1 text-sm bg-sky-600 text-white rounded hover:bg-sky-700 disabled:opacity-50"
+            >
+              {isSaving && <Loader2 className="w-3 h-3 animate-spin" />}
+              Save & revalue
+            </button>
+          </div>
+        </div>
+      ) : (
+        <p className="mt-2 text-xs text-gray-500">
+          {player.statOverrides
+            ? 'Values use your edited stat line instead of the projection system.'
+            : 'Disagree with the projection? Edit the stat line and values are recalculated for this league.'}
+        </p>
+      )}
+
+      {error && (
+        <div className="mt-2 flex items-center gap-2 text-red-600 text-sm">
+          <AlertCircle className="w-4 h-4" />
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
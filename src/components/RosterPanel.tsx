@@ -1,6 +1,6 @@
 import { Player, LeagueSettings } from '../lib/types';
 import { calculateTeamProjectedStats } from '../lib/calculations';
-import { ChevronDown } from 'lucide-react';
+import { ChevronDown, Users, Undo2, Redo2, History } from 'lucide-react';
 
 interface RosterPanelProps {
   roster: Player[];
@@ -10,6 +10,12 @@ interface RosterPanelProps {
   selectedTeam: string | null;
   onTeamSelect: (teamName: string) => void;
   isManualMode?: boolean; // When true, hide team dropdown and show direct roster
+  onManageTeams?: () => void; // Manual mode - edit the league's team names
+  onOpenDraftHistory?: () => void; // Manual mode - edit recorded picks and view the change log
+  onUndo?: () => void;
+  onRedo?: () => void;
+  canUndo?: boolean;
+  canRedo?: boolean;
   isMobile?: boolean;
 }
 
@@ -21,6 +27,12 @@ export function RosterPanel({
   selectedTeam,
   onTeamSelect,
   isManualMode,
+  onManageTeams,
+  onOpenDraftHistory,
+  onUndo,
+  onRedo,
+  canUndo,
+  canRedo,
   isMobile
 }: RosterPanelProps) {
   const stats = calculateTeamProjectedStats(roster);
@@ -56,8 +68,48 @@ export function RosterPanel({
 
         {/* Manual mode hint */}
         {isManualMode && (
-          <div className={`text-slate-400 ${isMobile ? 'text-xs' : 'text-sm'}`}>
-            Use "Enter $" in player queue to add players
+          <div className={`flex items-center justify-between gap-2 text-slate-400 ${isMobile ? 'text-xs' : 'text-sm'}`}>
+            <span>Use "Enter $" in player queue to record each pick</span>
+            <div className="flex items-center gap-1">
+              {onUndo && (
+                <button
+                  onClick={onUndo}
+                  disabled={!canUndo}
+                  className="p-1 bg-slate-800 border border-slate-600 rounded hover:border-emerald-500 hover:text-white transition-colors disabled:opacity-40"
+                  title="Undo last draft entry"
+                >
+                  <Undo2 className="w-3 h-3" />
+                </button>
+              )}
+              {onRedo && (
+                <button
+                  onClick={onRedo}
+                  disabled={!canRedo}
+                  className="p-1 bg-slate-800 border border-slate-600 rounded hover:border-emerald-500 hover:text-white transition-colors disabled:opacity-40"
+                  title="Redo draft entry"
+                >
+                  <Redo2 className="w-3 h-3" />
+                </button>
+              )}
+              {onOpenDraftHistory && (
+                <button
+                  onClick={onOpenDraftHistory}
+                  className="p-1 bg-slate-800 border border-slate-600 rounded hover:border-emerald-500 hover:text-white transition-colors"
+                  title="Edit picks and view history"
+                >
+                  <History className="w-3 h-3" />
+                </button>
+              )}
+              {onManageTeams && (
+                <button
+                  onClick={onManageTeams}
+                  className="flex items-center gap-1 px-2 py-1 text-xs bg-slate-800 border border-slate-600 rounded hover:border-emerald-500 hover:text-white transition-colors whitespace-nowrap"
+                >
+                  <Users className="w-3 h-3" />
+                  Teams
+                </button>
+              )}
+            </div>
           </div>
         )}
 
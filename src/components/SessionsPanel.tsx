@@ -0,0 +1,153 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Loader2, LogOut, Monitor, Smartphone } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  ActiveSession,
+  fetchSessions,
+  revokeOtherSessions,
+  revokeSession,
+} from '../lib/authApi';
+
+const MOBILE_DEVICES = ['iPhone', 'iPad', 'Android'];
+
+function formatRelativeTime(dateStr: string): string {
+  const diffMs = Date.now() - new Date(dateStr).getTime();
+  const diffMins = Math.floor(diffMs / 60000);
+  const diffHours = Math.floor(diffMs / 3600000);
+  const diffDays = Math.floor(diffMs / 86400000);
+
+  if (diffMins < 1) return 'just now';
+  if (diffMins < 60) return `${diffMins}m ago`;
+  if (diffHours < 24) return `${diffHours}h ago`;
+  return `${diffDays}d ago`;
+}
+
+interface SessionsPanelProps {
+  onLogout: () => void | Promise<void>; // Signing out this device logs out of the app
+}
+
+/**
+ * Devices signed in to my account, with sign out per device and everywhere else.
+ * Signing out a device stops it refreshing, so it's signed out within 15 minutes.
+ */
+export function SessionsPanel({ onLogout }: SessionsPanelProps) {
+  const [sessions, setSessions] = useState<ActiveSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isRevoking, setIsRevoking] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      setSessions(await fetchSessions());
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to load sessions');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleRevoke = async (session: ActiveSession) => {
+    if (session.current) {
+      await onLogout();
+      return;
+    }
+    try {
+      await revokeSession(session.id);
+      setSessions(prev => prev.filter(s => s.id !== session.id));
+      toast.success(`Signed out ${session.device}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to sign out that session');
+    }
+  };
+
+  const handleRevokeOthers = async () => {
+    // Sessions started before devices were tracked can't tell which one is this
+    // device, so everything gets signed out, including here
+    const knowsCurrent = sessions.some(s => s.current);
+    if (!knowsCurrent && !confirm('This will sign you out on every device, including this one. Continue?')) {
+      return;
+    }
+
+    setIsRevoking(true);
+    try {
+      const revoked = await revokeOtherSessions();
+      if (!knowsCurrent) {
+        await onLogout();
+        return;
+      }
+      toast.success(revoked === 1 ? 'Signed out 1 other session' : `Signed out ${revoked} other sessions`);
+      await load();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to sign out other sessions');
+    } finally {
+      setIsRevoking(false);
+    }
+  };
+
+  return (
+    <div className="bg-gradient-to-br from-slate-800 to-slate-900 border border-slate-700 rounded-2xl p-6 shadow-xl backdrop-blur-sm animate-slideInLeft" style={{ animationDelay: '0.15s' }}>
+      <div className="flex items-center justify-between gap-3 mb-6">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 bg-cyan-600/20 rounded-lg flex items-center justify-center">
+            <Monitor className="w-5 h-5 text-cyan-400" />
+          </div>
+          <h2 className="text-xl text-white">Active Sessions</h2>
+        </div>
+        {sessions.length > 1 && (
+          <button
+            onClick={handleRevokeOthers}
+            disabled={isRevoking}
+            className="flex items-center gap-2 px-3 py-2 text-sm bg-red-600/20 border border-red-500/30 text-red-300 rounded-lg hover:bg-red-600/30 transition-colors disabled:opacity-50"
+          >
+            {isRevoking ? <Loader2 className="w-4 h-4 animate-spin" /> : <LogOut className="w-4 h-4" />}
+            Sign out everywhere else
+          </button>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="w-6 h-6 text-slate-400 animate-spin" />
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {sessions.map(session => {
+            const DeviceIcon = MOBILE_DEVICES.some(device => session.device.endsWith(device)) ? Smartphone : Monitor;
+            return (
+              <div key={session.id} className="flex items-center gap-3 p-3 bg-slate-900/50 border border-slate-700 rounded-lg">
+                <DeviceIcon className="w-5 h-5 text-slate-400 flex-shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="text-white text-sm truncate" title={session.userAgent ?? undefined}>
+                      {session.device}
+                    </span>
+                    {session.current && (
+                      <span className="px-2 py-0.5 text-xs rounded-full bg-emerald-500/20 text-emerald-400">
+                        This device
+                      </span>
+                    )}
+                  </div>
+                  <div className="text-slate-500 text-xs truncate">
+                    {session.ipAddress ?? 'Unknown IP'} · Active {formatRelativeTime(session.lastUsedAt)} · Signed in {new Date(session.createdAt).toLocaleDateString()}
+                  </div>
+                </div>
+                <button
+                  onClick={() => handleRevoke(session)}
+                  className="px-3 py-1 text-sm text-slate-400 hover:text-red-400 transition-colors"
+                >
+                  Sign out
+                </button>
+              </div>
+            );
+          })}
+          {sessions.length === 0 && (
+            <p className="text-slate-400 text-sm">No active sessions.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
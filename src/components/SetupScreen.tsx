@@ -1,8 +1,10 @@
 import { useState, useRef, useEffect } from 'react';
 import { LeagueSettings, SavedLeague } from '../lib/types';
-import { defaultLeagueSettings } from '../lib/mockData';
+import { defaultLeagueSettings, defaultProjectionBlend } from '../lib/mockData';
 import { ChevronRight, ChevronLeft, Zap, Database, Crown, RefreshCw, Upload, X, FileSpreadsheet, Save, LogOut, Check, Loader2, AlertTriangle, Link, HelpCircle } from 'lucide-react';
 import { ScoringConfig } from './ScoringConfig';
+import { ProjectionBlendEditor } from './ProjectionBlendEditor';
+import { CustomProjectionSetPicker } from './CustomProjectionSetPicker';
 import { parseCSV } from '../lib/csvParser';
 import { useSetupAutoSave, clearDraftSetup } from '../hooks/useSetupAutoSave';
 import { useIsMobile } from './ui/use-mobile';
@@ -117,6 +119,8 @@ export function SetupScreen({
     { value: 'batx', label: 'THE BAT X', description: 'Advanced metrics-based projections', author: 'Derek Carty' },
     { value: 'ja', label: 'JA Projections', description: 'Jon Anderson (MLB Data Warehouse)' },
     { value: 'oopsy', label: 'OOPSY', description: 'Alternative projection model from FanGraphs' },
+    { value: 'blend', label: 'Blend', description: 'Weighted average of multiple projection systems' },
+    { value: 'custom', label: 'Custom', description: 'Your own projections uploaded from a spreadsheet' },
   ];
 
   const leagueTypes: Array<{ value: LeagueSettings['leagueType']; label: string; description: string; icon: React.ReactNode }> = [
@@ -944,7 +948,11 @@ export function SetupScreen({
                   {projectionSystems.map((system) => (
                     <button
                       key={system.value}
-                      onClick={() => !system.disabled && setSettings({ ...settings, projectionSystem: system.value })}
+                      onClick={() => !system.disabled && setSettings({
+                        ...settings,
+                        projectionSystem: system.value,
+                        projectionBlend: system.value === 'blend' ? settings.projectionBlend ?? defaultProjectionBlend : settings.projectionBlend,
+                      })}
                       disabled={system.disabled}
                       className={`${isMobile ? 'p-3' : 'p-6'} rounded-xl border-2 transition-all duration-200 ${
                         system.disabled
@@ -990,6 +998,25 @@ export function SetupScreen({
                   ))}
                 </div>
 
+                {settings.projectionSystem === 'blend' && (
+                  <div className="mt-4">
+                    <ProjectionBlendEditor
+                      weights={settings.projectionBlend ?? defaultProjectionBlend}
+                      onChange={(projectionBlend) => setSettings({ ...settings, projectionBlend })}
+                    />
+                  </div>
+                )}
+
+                {settings.projectionSystem === 'custom' && (
+                  <div className="mt-4">
+                    <CustomProjectionSetPicker
+                      selectedSetId={settings.customProjectionSetId}
+                      leagueId={existingLeague?.id}
+                      onChange={(customProjectionSetId) => setSettings({ ...settings, customProjectionSetId })}
+                    />
+                  </div>
+                )}
+
                 {!isMobile && (
                   <div className="bg-slate-800/50 border border-slate-700 rounded-xl p-6 mt-6">
                     <h3 className="text-slate-300 mb-4">Projection Details</h3>
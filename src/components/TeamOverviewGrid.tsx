@@ -21,6 +21,7 @@ interface TeamStats {
   moneyRemaining: number;
   effectiveRemaining: number;
   avgPerRemainingPlayer: number;
+  maxBid: number;
   rosterSpotsRemaining: number;
   isOnline: boolean;
   budgetHealth: 'healthy' | 'tight' | 'critical';
@@ -92,6 +93,11 @@ export function TeamOverviewGrid({
         ? Math.round(effectiveRemaining / rosterSpotsRemaining)
         : 0;
 
+      // Max bid keeps $1 for every other open spot (same reserve as server effective budget)
+      const maxBid = rosterSpotsRemaining > 0
+        ? Math.max(0, effectiveRemaining - (rosterSpotsRemaining - 1))
+        : 0;
+
       // Budget health indicator
       let budgetHealth: 'healthy' | 'tight' | 'critical' = 'healthy';
       if (avgPerRemainingPlayer <= 1) {
@@ -111,6 +117,7 @@ export function TeamOverviewGrid({
         moneyRemaining,
         effectiveRemaining,
         avgPerRemainingPlayer,
+        maxBid,
         rosterSpotsRemaining,
         isOnline: team.isOnline,
         budgetHealth,
@@ -256,7 +263,7 @@ export function TeamOverviewGrid({
                       ${team.effectiveRemaining}
                     </span>
                   </div>
-                  <div className="grid grid-cols-3 gap-2 text-xs">
+                  <div className="grid grid-cols-4 gap-2 text-xs">
                     <div>
                       <span className="text-slate-500">Players</span>
                       <div className="text-slate-300">{team.playersDrafted}/{totalRosterSpots}</div>
@@ -272,6 +279,10 @@ export function TeamOverviewGrid({
                         team.avgPerRemainingPlayer <= 3 ? 'text-amber-400' : 'text-slate-300'
                       }`}>${team.avgPerRemainingPlayer}</div>
                     </div>
+                    <div>
+                      <span className="text-slate-500">Max Bid</span>
+                      <div className="text-slate-300">${team.maxBid}</div>
+                    </div>
                   </div>
                 </div>
               ))}
@@ -319,6 +330,12 @@ export function TeamOverviewGrid({
                         Avg $/Spot <SortIcon column="avgLeft" />
                       </div>
                     </th>
+                    <th
+                      className="text-right py-3 px-2 text-slate-400 font-medium"
+                      title="Most this team can bid while keeping $1 for each other open spot"
+                    >
+                      Max Bid
+                    </th>
                     <th className="text-center py-3 px-2 text-slate-400 font-medium">Spots Left</th>
                   </tr>
                 </thead>
@@ -414,6 +431,11 @@ export function TeamOverviewGrid({
                         </span>
                       </td>
 
+                      {/* Max Bid */}
+                      <td className="py-3 px-2 text-right">
+                        <span className="text-white font-medium">${team.maxBid}</span>
+                      </td>
+
                       {/* Roster Spots Remaining */}
                       <td className="py-3 px-2 text-center">
                         <span className={`font-medium ${
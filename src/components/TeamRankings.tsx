@@ -1,5 +1,7 @@
 import { useMemo, useState, useRef, useCallback } from 'react';
 import { LeagueSettings, Player, ScrapedAuctionData } from '../lib/types';
+import { calculateProjectedStandings, getEnabledCategories, getTeamNames } from '../lib/teamProjections';
+import { simulateH2HSeason, getDefaultPlayoffTeams } from '../lib/h2hSimulator';
 import {
   Trophy,
   ChevronDown,
@@ -79,7 +81,9 @@ export function TeamRankings({
 
   // Calculate team rankings
   const teamRankings = useMemo((): TeamRankingData[] => {
-    if (!auctionData?.teams || auctionData.teams.length === 0) {
+    // Teams come from the auction room, or from drafted players for imported drafts
+    const teamNames = getTeamNames(allDrafted, auctionData);
+    if (teamNames.length === 0) {
       return [];
     }
 
@@ -99,8 +103,8 @@ export function TeamRankings({
       player.positions.some(pos => pitcherPositions.has(pos));
 
     // Calculate stats for each team
-    const teamsData: TeamRankingData[] = auctionData.teams.map(team => {
-      const teamPlayers = draftedByTeam.get(team.name) || [];
+    const teamsData: TeamRankingData[] = teamNames.map(teamName => {
+      const teamPlayers = draftedByTeam.get(teamName) || [];
 
       // Core metrics
       const totalZScore = teamPlayers.reduce((sum, p) => sum + (p.sgpValue || 0), 0);
@@ -153,7 +157,7 @@ export function TeamRankings({
       });
 
       return {
-        name: team.name,
+        name: teamName,
         totalZScore,
         dollarsPerZScore,
         moneySpent,
@@ -227,6 +231,17 @@ export function TeamRankings({
     return teamsData;
   }, [auctionData, allDrafted, settings.budgetPerTeam, totalRosterSpots, isMobile]);
 
+  // Playoff odds from a simulated H2H season (H2H categories leagues only)
+  const isH2H = settings.scoringType === 'h2h-categories';
+  const playoffOddsByTeam = useMemo(() => {
+    if (!isOpen || !isH2H) return new Map<string, number>();
+    const standings = calculateProjectedStandings(allDrafted, allDrafted, settings, auctionData);
+    const odds = simulateH2HSeason(standings, getEnabledCategories(settings), {
+      playoffTeams: getDefaultPlayoffTeams(standings.length),
+    });
+    return new Map(odds.map(o => [o.teamName, o.playoffOdds]));
+  }, [isOpen, isH2H, allDrafted, settings, auctionData]);
+
   // Sort teams
   const sortedTeams = useMemo(() => {
     const sorted = [...teamRankings];
@@ -541,6 +556,11 @@ export function TeamRankings({
                 </div>
                 <div className="text-xs text-slate-500">
                   {team.playersDrafted}/{team.rosterSpotsTotal}
+                  {playoffOddsByTeam.has(team.name) && (
+                    <span className="text-emerald-400 ml-1">
+                      · {Math.round((playoffOddsByTeam.get(team.name) ?? 0) * 100)}% playoffs
+                    </span>
+                  )}
                 </div>
               </div>
 
@@ -694,6 +714,9 @@ export function TeamRankings({
                   </th>
                   <th className="text-center py-1.5 px-1.5 text-slate-400 font-medium" title="Hitter Z-Score - Total projected value from position players">Hit</th>
                   <th className="text-center py-1.5 px-1.5 text-slate-400 font-medium" title="Pitcher Z-Score - Total projected value from pitchers">Pitch</th>
+                  {isH2H && (
+                    <th className="text-center py-1.5 px-1.5 text-slate-400 font-medium" title="Playoff Odds - Chance of making the playoffs in a simulated H2H season">Playoffs</th>
+                  )}
                   <th
                     className="text-right py-1.5 px-1.5 text-slate-400 font-medium cursor-pointer hover:text-white transition-colors"
                     onClick={() => handleSort('moneyRemaining')}
@@ -765,6 +788,15 @@ export function TeamRankings({
                       <span className="text-purple-400">{team.pitcherZScore.toFixed(1)}</span>
                     </td>
 
+                    {/* Playoff Odds */}
+                    {isH2H && (
+                      <td className="py-1 px-1.5 text-center">
+                        <span className="text-emerald-400 font-semibold">
+                          {Math.round((playoffOddsByTeam.get(team.name) ?? 0) * 100)}%
+                        </span>
+                      </td>
+                    )}
+
                     {/* Money Remaining */}
                     <td className="py-1 px-1.5 text-right">
                       <span className={`font-semibold ${
@@ -799,6 +831,7 @@ export function TeamRankings({
           <span className="text-slate-500">Val=Savings vs projected</span>
           <span className="text-amber-400">Hit</span>
           <span className="text-purple-400">Pitch</span>
+          {isH2H && <span className="text-slate-500">Playoffs=Simulated H2H season</span>}
         </div>
       </div>
     </div>
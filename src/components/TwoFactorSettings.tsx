@@ -0,0 +1,179 @@
+import { useState } from 'react';
+import { Copy, Loader2, ShieldCheck } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  disableTwoFactor,
+  enableTwoFactor,
+  setupTwoFactor,
+  TwoFactorSetup,
+} from '../lib/authApi';
+
+/**
+ * Two-factor authentication for my account.
+ * Setup shows a QR code for an authenticator app, confirms one code, then
+ * shows the recovery codes once. Turning it off takes a current code.
+ */
+export function TwoFactorSettings() {
+  const { user, setUser } = useAuth();
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+
+  const isEnabled = !!user?.twoFactorEnabled;
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setIsWorking(true);
+    try {
+      await action();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : failure);
+    } finally {
+      setIsWorking(false);
+      setCode('');
+    }
+  };
+
+  const handleStart = () => run(async () => {
+    setSetup(await setupTwoFactor());
+  }, 'Failed to start setup');
+
+  const handleEnable = () => run(async () => {
+    const result = await enableTwoFactor(code.trim());
+    setSetup(null);
+    setRecoveryCodes(result.recoveryCodes);
+    setUser(result.user);
+    toast.success('Two-factor authentication is on');
+  }, 'Failed to turn on two-factor authentication');
+
+  const handleDisable = () => run(async () => {
+    const result = await disableTwoFactor(code.trim());
+    setUser(result.user);
+    toast.success('Two-factor authentication is off');
+  }, 'Failed to turn off two-factor authentication');
+
+  const handleCopyCodes = async () => {
+    if (!recoveryCodes) return;
+    try {
+      await navigator.clipboard.writeText(recoveryCodes.join('\n'));
+      toast.success('Recovery codes copied');
+    } catch {
+      toast.error('Could not copy the codes - select them and copy manually');
+    }
+  };
+
+  const codeInput = (placeholder: string) => (
+    <input
+      type="text"
+      value={code}
+      onChange={(e) => setCode(e.target.value)}
+      autoComplete="one-time-code"
+      placeholder={placeholder}
+      className="flex-1 px-4 py-3 bg-slate-900/50 border border-slate-700 rounded-lg text-white placeholder-slate-500 focus:border-blue-500 focus:outline-none transition-colors"
+    />
+  );
+
+  return (
+    <div className="bg-gradient-to-br from-slate-800 to-slate-900 border border-slate-700 rounded-2xl p-6 shadow-xl backdrop-blur-sm animate-slideInLeft" style={{ animationDelay: '0.15s' }}>
+      <div className="flex items-center gap-3 mb-6">
+        <div className="w-10 h-10 bg-blue-600/20 rounded-lg flex items-center justify-center">
+          <ShieldCheck className="w-5 h-5 text-blue-400" />
+        </div>
+        <h2 className="text-xl text-white">Two-Factor Authentication</h2>
+        {isEnabled && (
+          <span className="px-2 py-1 text-xs rounded-full bg-emerald-500/20 text-emerald-400">On</span>
+        )}
+      </div>
+
+      {recoveryCodes ? (
+        <div className="space-y-4">
+          <p className="text-slate-300 text-sm">
+            Save these recovery codes somewhere safe. Each one signs you in once if you lose your
+            authenticator app. You won&apos;t see them again.
+          </p>
+          <div className="grid grid-cols-2 gap-2 p-4 bg-slate-900/50 border border-slate-700 rounded-lg font-mono text-white text-sm">
+            {recoveryCodes.map(recoveryCode => (
+              <span key={recoveryCode}>{recoveryCode}</span>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={handleCopyCodes}
+              className="flex items-center gap-2 px-4 py-2 bg-slate-700 text-white rounded-lg hover:bg-slate-600 transition-colors"
+            >
+              <Copy className="w-4 h-4" />
+              Copy
+            </button>
+            <button
+              onClick={() => setRecoveryCodes(null)}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              I&apos;ve saved them
+            </button>
+          </div>
+        </div>
+      ) : isEnabled ? (
+        <div className="space-y-4">
+          <p className="text-slate-400 text-sm">
+            Signing in asks for a code from your authenticator app. To turn this off, enter a current
+            code or a recovery code.
+          </p>
+          <div className="flex gap-2">
+            {codeInput('Code')}
+            <button
+              onClick={handleDisable}
+              disabled={isWorking || !code.trim()}
+              className="px-4 py-2 bg-red-600/20 border border-red-500/30 text-red-300 rounded-lg hover:bg-red-600/30 transition-colors disabled:opacity-50"
+            >
+              {isWorking ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Turn off'}
+            </button>
+          </div>
+        </div>
+      ) : setup ? (
+        <div className="space-y-4">
+          <p className="text-slate-300 text-sm">
+            Scan this QR code with an authenticator app (Google Authenticator, 1Password, Authy), then
+            enter the 6-digit code it shows.
+          </p>
+          <div className="flex flex-col sm:flex-row items-center gap-4">
+            <img src={setup.qrCodeDataUrl} alt="Two-factor QR code" className="w-40 h-40 rounded-lg bg-white p-2" />
+            <div className="text-sm">
+              <div className="text-slate-400 mb-1">Can&apos;t scan it? Enter this key:</div>
+              <code className="block break-all text-white font-mono">{setup.secret}</code>
+            </div>
+          </div>
+          <div className="flex gap-2">
+            {codeInput('123456')}
+            <button
+              onClick={handleEnable}
+              disabled={isWorking || !code.trim()}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              {isWorking ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Verify'}
+            </button>
+          </div>
+          <button
+            onClick={() => { setSetup(null); setCode(''); }}
+            className="text-slate-400 hover:text-white text-sm transition-colors"
+          >
+            Cancel
+          </button>
+        </div>
+      ) : (
+        <div className="flex items-center justify-between gap-4">
+          <p className="text-slate-400 text-sm">
+            Protect your leagues and phone number with a code from an authenticator app when you sign in.
+          </p>
+          <button
+            onClick={handleStart}
+            disabled={isWorking}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 flex-shrink-0"
+          >
+            {isWorking ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Turn on'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
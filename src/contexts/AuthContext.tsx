@@ -4,6 +4,8 @@ import {
   login as apiLogin,
   register as apiRegister,
   logout as apiLogout,
+  verifyTwoFactor as apiVerifyTwoFactor,
+  isTwoFactorChallenge,
   getCurrentUser,
   isAuthenticated as checkIsAuthenticated,
   clearTokens,
@@ -17,11 +19,18 @@ interface AuthContextType {
   isLoading: boolean;
   isAuthenticated: boolean;
   error: string | null;
-  login: (email: string, password: string) => Promise<void>;
+  // Resolves false when the password was right but a 2FA code is still needed
+  login: (email: string, password: string) => Promise<boolean>;
   register: (email: string, password: string, name?: string) => Promise<void>;
   logout: () => Promise<void>;
   refreshUser: () => Promise<void>;
+  setUser: (user: AuthUser) => void;
   clearError: () => void;
+  // Second login step (password or Google login on an account with 2FA)
+  twoFactorPending: boolean;
+  startTwoFactorChallenge: (challengeToken: string) => void;
+  verifyTwoFactor: (code: string) => Promise<void>;
+  cancelTwoFactor: () => void;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -47,6 +56,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<AuthUser | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [twoFactorChallenge, setTwoFactorChallenge] = useState<string | null>(null);
 
   // Check for existing session on mount
   useEffect(() => {
@@ -82,7 +92,12 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     try {
       const data: LoginRequest = { email, password };
       const response = await apiLogin(data);
+      if (isTwoFactorChallenge(response)) {
+        setTwoFactorChallenge(response.challengeToken);
+        return false;
+      }
       setUser(response.user);
+      return true;
     } catch (err) {
       const message = err instanceof AuthError
         ? err.message
@@ -151,6 +166,42 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     setError(null);
   }, []);
 
+  const startTwoFactorChallenge = useCallback((challengeToken: string) => {
+    setTwoFactorChallenge(challengeToken);
+  }, []);
+
+  const verifyTwoFactor = useCallback(async (code: string) => {
+    if (!twoFactorChallenge) {
+      throw new AuthError('Your sign-in attempt expired. Please sign in again.', 'INVALID_2FA_CHALLENGE', 401);
+    }
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await apiVerifyTwoFactor(twoFactorChallenge, code);
+      setTwoFactorChallenge(null);
+      setUser(response.user);
+    } catch (err) {
+      // An expired challenge can't be retried - go back to the password step
+      if (err instanceof AuthError && err.code === 'INVALID_2FA_CHALLENGE') {
+        setTwoFactorChallenge(null);
+      }
+      const message = err instanceof AuthError
+        ? err.message
+        : 'Failed to verify code. Please try again.';
+      setError(message);
+      throw err;
+    } finally {
+      setIsLoading(false);
+    }
+  }, [twoFactorChallenge]);
+
+  const cancelTwoFactor = useCallback(() => {
+    setTwoFactorChallenge(null);
+    setError(null);
+  }, []);
+
   const value: AuthContextType = {
     user,
     isLoading,
@@ -160,7 +211,12 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     register,
     logout,
     refreshUser,
+    setUser,
     clearError,
+    twoFactorPending: twoFactorChallenge !== null,
+    startTwoFactorChallenge,
+    verifyTwoFactor,
+    cancelTwoFactor,
   };
 
   return (
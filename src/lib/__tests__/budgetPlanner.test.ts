@@ -0,0 +1,161 @@
+/**
+ * Budget Planner Tests
+ * Tests the remaining-budget roster fill and the planner's max bid
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  analyzePlannedBid,
+  calculatePlannedMaxBid,
+  createBudgetPlanContext,
+  getOpenRosterSlots,
+  solveBudgetPlan,
+} from '../budgetPlanner';
+import type { LeagueSettings, Player } from '../types';
+
+type RosterSpots = LeagueSettings['rosterSpots'];
+
+const NO_SPOTS: RosterSpots = {
+  C: 0, '1B': 0, '2B': 0, '3B': 0, SS: 0, OF: 0, CI: 0, MI: 0, UTIL: 0, SP: 0, RP: 0, P: 0, Bench: 0,
+};
+
+function makePlayer(id: string, positions: string[], projectedValue: number, adjustedValue = projectedValue): Player {
+  return {
+    id,
+    name: `Player ${id}`,
+    team: 'NYY',
+    positions,
+    projectedValue,
+    adjustedValue,
+    projectedStats: {},
+    status: 'available',
+  };
+}
+
+describe('budgetPlanner', () => {
+  describe('getOpenRosterSlots', () => {
+    it('should place rostered players in the most specific slot they fit', () => {
+      const spots: RosterSpots = { ...NO_SPOTS, SS: 1, MI: 1, UTIL: 1 };
+      const roster = [makePlayer('ss', ['SS'], 10), makePlayer('2b', ['2B'], 10)];
+
+      expect(getOpenRosterSlots(spots, roster)).toEqual(['UTIL']);
+    });
+  });
+
+  describe('solveBudgetPlan', () => {
+    it('should fill every open slot within the budget', () => {
+      const spots: RosterSpots = { ...NO_SPOTS, OF: 3 };
+      const pool = [
+        makePlayer('star', ['OF'], 40),
+        makePlayer('good', ['OF'], 20),
+        makePlayer('ok', ['OF'], 10),
+        makePlayer('cheap1', ['OF'], 2),
+        makePlayer('cheap2', ['OF'], 1),
+      ];
+      const context = createBudgetPlanContext([], 32, spots, pool);
+
+      const plan = solveBudgetPlan(context);
+
+      expect(plan.picks).toHaveLength(3);
+      expect(plan.unfilledSlots).toEqual([]);
+      expect(plan.totalCost).toBeLessThanOrEqual(32);
+      expect(plan.picks.map(p => p.player.id).sort()).toEqual(['cheap1', 'good', 'ok']);
+    });
+
+    it('should leave slots open when nobody affordable fits them', () => {
+      const spots: RosterSpots = { ...NO_SPOTS, C: 1, OF: 1 };
+      const pool = [makePlayer('c', ['C'], 10), makePlayer('of', ['OF'], 1)];
+      const context = createBudgetPlanContext([], 5, spots, pool);
+
+      const plan = solveBudgetPlan(context);
+
+      expect(plan.picks.map(p => p.player.id)).toEqual(['of']);
+      expect(plan.unfilledSlots).toEqual(['C']);
+      expect(plan.totalCost).toBe(1);
+    });
+
+    it('should only consider available players', () => {
+      const spots: RosterSpots = { ...NO_SPOTS, OF: 1 };
+      const pool = [{ ...makePlayer('gone', ['OF'], 30), status: 'drafted' as const }, makePlayer('left', ['OF'], 5)];
+      const context = createBudgetPlanContext([], 50, spots, pool);
+
+      expect(solveBudgetPlan(context).picks.map(p => p.player.id)).toEqual(['left']);
+    });
+  });
+
+  describe('calculatePlannedMaxBid', () => {
+    const spots: RosterSpots = { ...NO_SPOTS, OF: 3 };
+    const pool = [
+      makePlayer('star', ['OF'], 40),
+      makePlayer('good', ['OF'], 20),
+      makePlayer('ok', ['OF'], 10),
+      makePlayer('cheap1', ['OF'], 2),
+      makePlayer('cheap2', ['OF'], 1),
+    ];
+    const star = pool[0];
+
+    it('should keep $1 in reserve for every other open slot', () => {
+      const context = createBudgetPlanContext([], 45, spots, pool);
+
+      const { maxBid } = calculatePlannedMaxBid(context, star);
+
+      expect(maxBid).toBeGreaterThan(0);
+      expect(maxBid).toBeLessThanOrEqual(45 - 2);
+    });
+
+    it('should return 0 when the budget only covers $1 per open slot minus one', () => {
+      const context = createBudgetPlanContext([], 2, spots, pool);
+
+      expect(calculatePlannedMaxBid(context, star).maxBid).toBe(0);
+    });
+
+    it('should allow a $1 bid when the budget exactly covers the open slots', () => {
+      const context = createBudgetPlanContext([], 3, spots, pool);
+
+      expect(calculatePlannedMaxBid(context, star).maxBid).toBe(1);
+    });
+
+    it('should return 0 for a player who only weakens the plan', () => {
+      const context = createBudgetPlanContext([], 20, { ...NO_SPOTS, OF: 1 }, [
+        makePlayer('good', ['OF'], 20, 10),
+        makePlayer('bust', ['OF'], 0, 1),
+      ]);
+
+      expect(calculatePlannedMaxBid(context, context.candidates[1].player).maxBid).toBe(0);
+    });
+
+    it('should stop at the bid where the player no longer beats the plan without them', () => {
+      const target = makePlayer('target', ['OF'], 9, 20);
+      // Without the target: a + b = 12. With them: target + a = 19 while $5
+      // is left for a, then target + b = 11 once only $1 is left.
+      const context = createBudgetPlanContext([], 30, { ...NO_SPOTS, OF: 2 }, [
+        target,
+        makePlayer('a', ['OF'], 10, 5),
+        makePlayer('b', ['OF'], 2, 1),
+      ]);
+
+      const { maxBid, basePlan } = calculatePlannedMaxBid(context, target);
+
+      expect(basePlan.totalValue).toBe(12);
+      expect(maxBid).toBe(25);
+    });
+
+    it('should keep the plan at least as strong for every bid up to the max', () => {
+      const context = createBudgetPlanContext([], 45, spots, pool);
+      const { maxBid, basePlan } = calculatePlannedMaxBid(context, star);
+
+      expect(maxBid).toBeGreaterThan(0);
+      for (let bid = 1; bid <= maxBid; bid++) {
+        expect(analyzePlannedBid(context, star, bid, basePlan).valueChange).toBeGreaterThanOrEqual(0);
+      }
+    });
+
+    it('should cache the analysis per context', () => {
+      const context = createBudgetPlanContext([], 45, spots, pool);
+      const first = calculatePlannedMaxBid(context, star);
+
+      expect(calculatePlannedMaxBid(context, star)).toBe(first);
+      expect(calculatePlannedMaxBid(createBudgetPlanContext([], 45, spots, pool), star)).not.toBe(first);
+    });
+  });
+});
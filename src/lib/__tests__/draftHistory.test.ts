@@ -0,0 +1,182 @@
+/**
+ * Draft History Tests
+ * Tests the manual draft log: appending, undo/redo replay and team renames
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  MAX_DRAFT_LOG_ENTRIES,
+  appendDraftLog,
+  appendTeamRenames,
+  applyManualPick,
+  describeDraftAction,
+  getUndoRedoStacks,
+  getUnsavedDraftLog,
+} from '../draftHistory';
+import type { DraftAction, Player } from '../types';
+
+function makeDraft(playerId: string, teamName: string, price: number): DraftAction {
+  return {
+    type: 'draft',
+    playerId,
+    playerName: `Player ${playerId}`,
+    from: null,
+    to: { teamName, price },
+  };
+}
+
+function makePlayer(overrides: Partial<Player> = {}): Player {
+  return {
+    id: 'p1',
+    name: 'Player p1',
+    team: 'NYY',
+    positions: ['OF'],
+    projectedValue: 20,
+    adjustedValue: 22,
+    projectedStats: {},
+    status: 'available',
+    ...overrides,
+  };
+}
+
+describe('draftHistory', () => {
+  describe('appendDraftLog', () => {
+    it('should append an entry with a unique id and timestamp', () => {
+      const log = appendDraftLog(appendDraftLog([], 'do', makeDraft('p1', 'Team A', 10)), 'undo', makeDraft('p1', 'Team A', 10));
+
+      expect(log).toHaveLength(2);
+      expect(log[0].op).toBe('do');
+      expect(log[1].op).toBe('undo');
+      expect(log[0].id).not.toBe(log[1].id);
+      expect(new Date(log[0].at).toISOString()).toBe(log[0].at);
+      expect(log[0].by).toBeUndefined();
+    });
+
+    it('should not mutate the existing log', () => {
+      const log = appendDraftLog([], 'do', makeDraft('p1', 'Team A', 10));
+      appendDraftLog(log, 'do', makeDraft('p2', 'Team A', 5));
+
+      expect(log).toHaveLength(1);
+    });
+
+    it('should drop the oldest entries past the limit', () => {
+      let log = appendDraftLog([], 'do', makeDraft('first', 'Team A', 1));
+      for (let i = 0; i < MAX_DRAFT_LOG_ENTRIES; i++) {
+        log = appendDraftLog(log, 'do', makeDraft(`p${i}`, 'Team A', 1));
+      }
+
+      expect(log).toHaveLength(MAX_DRAFT_LOG_ENTRIES);
+      expect(log[0].action.playerId).toBe('p0');
+    });
+  });
+
+  describe('getUnsavedDraftLog', () => {
+    it('should return only entries with unsaved ids', () => {
+      const log = appendDraftLog(appendDraftLog([], 'do', makeDraft('p1', 'Team A', 10)), 'do', makeDraft('p2', 'Team A', 5));
+
+      expect(getUnsavedDraftLog(log, new Set([log[0].id]))).toEqual([log[1]]);
+      expect(getUnsavedDraftLog(null, new Set())).toEqual([]);
+    });
+  });
+
+  describe('getUndoRedoStacks', () => {
+    it('should move actions between the stacks on undo and redo', () => {
+      const first = makeDraft('p1', 'Team A', 10);
+      const second = makeDraft('p2', 'Team B', 5);
+      let log = appendDraftLog([], 'do', first);
+      log = appendDraftLog(log, 'do', second);
+      log = appendDraftLog(log, 'undo', second);
+
+      expect(getUndoRedoStacks(log)).toEqual({ undo: [first], redo: [second] });
+
+      log = appendDraftLog(log, 'redo', second);
+      expect(getUndoRedoStacks(log)).toEqual({ undo: [first, second], redo: [] });
+    });
+
+    it('should clear the redo stack on a new action', () => {
+      const first = makeDraft('p1', 'Team A', 10);
+      const second = makeDraft('p2', 'Team B', 5);
+      let log = appendDraftLog([], 'do', first);
+      log = appendDraftLog(log, 'undo', first);
+      log = appendDraftLog(log, 'do', second);
+
+      expect(getUndoRedoStacks(log)).toEqual({ undo: [second], redo: [] });
+    });
+
+    it('should ignore undo and redo with empty stacks', () => {
+      let log = appendDraftLog([], 'undo', makeDraft('p1', 'Team A', 10));
+      log = appendDraftLog(log, 'redo', makeDraft('p1', 'Team A', 10));
+
+      expect(getUndoRedoStacks(log)).toEqual({ undo: [], redo: [] });
+    });
+  });
+
+  describe('appendTeamRenames', () => {
+    it('should log one rename entry per renamed team', () => {
+      const log = appendTeamRenames([], new Map([['Team A', 'Aces'], ['Team B', 'Bats']]));
+
+      expect(log).toHaveLength(2);
+      expect(log[0].op).toBe('do');
+      expect(log[0].action).toMatchObject({
+        type: 'rename_team',
+        from: { teamName: 'Team A', price: 0 },
+        to: { teamName: 'Aces', price: 0 },
+      });
+      expect(describeDraftAction(log[1].action)).toBe('Renamed Team B to Bats');
+    });
+
+    it('should rename the team on earlier actions when replayed', () => {
+      const first = makeDraft('p1', 'Team A', 10);
+      const second = makeDraft('p2', 'Team B', 5);
+      let log = appendDraftLog([], 'do', first);
+      log = appendDraftLog(log, 'do', second);
+      log = appendDraftLog(log, 'undo', second);
+      log = appendTeamRenames(log, new Map([['Team A', 'Aces'], ['Team B', 'Bats']]));
+
+      const { undo, redo } = getUndoRedoStacks(log);
+      expect(undo).toEqual([{ ...first, to: { teamName: 'Aces', price: 10 } }]);
+      expect(redo).toEqual([{ ...second, to: { teamName: 'Bats', price: 5 } }]);
+    });
+
+    it('should keep saved entries unchanged so only the renames are unsaved', () => {
+      const log = appendDraftLog([], 'do', makeDraft('p1', 'Team A', 10));
+      const savedIds = new Set(log.map(entry => entry.id));
+      const renamedLog = appendTeamRenames(log, new Map([['Team A', 'Aces']]));
+
+      expect(renamedLog[0]).toBe(log[0]);
+      expect(getUnsavedDraftLog(renamedLog, savedIds).map(entry => entry.action.type)).toEqual(['rename_team']);
+    });
+
+    it('should not touch the redo stack', () => {
+      const first = makeDraft('p1', 'Team A', 10);
+      let log = appendDraftLog([], 'do', first);
+      log = appendDraftLog(log, 'undo', first);
+      log = appendTeamRenames(log, new Map([['Team C', 'Cats']]));
+
+      expect(getUndoRedoStacks(log)).toEqual({ undo: [], redo: [first] });
+    });
+  });
+
+  describe('applyManualPick', () => {
+    it('should put the player on my team when my team made the pick', () => {
+      const player = applyManualPick(makePlayer(), { teamName: 'Mine', price: 12 }, 'Mine');
+
+      expect(player).toMatchObject({ status: 'onMyTeam', draftedPrice: 12, draftedBy: 'Mine' });
+    });
+
+    it('should mark the player drafted when another team made the pick', () => {
+      const player = applyManualPick(makePlayer(), { teamName: 'Team A', price: 7 }, 'Mine');
+
+      expect(player).toMatchObject({ status: 'drafted', draftedPrice: 7, draftedBy: 'Team A' });
+    });
+
+    it('should return the player to available for a null pick', () => {
+      const drafted = makePlayer({ status: 'drafted', draftedPrice: 7, draftedBy: 'Team A' });
+      const player = applyManualPick(drafted, null, 'Mine');
+
+      expect(player.status).toBe('available');
+      expect(player.draftedPrice).toBeUndefined();
+      expect(player.draftedBy).toBeUndefined();
+    });
+  });
+});
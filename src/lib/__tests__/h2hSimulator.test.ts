@@ -0,0 +1,83 @@
+/**
+ * H2H Simulator Tests
+ * Tests the round-robin schedule, category comparisons and seeded results
+ */
+
+import { describe, it, expect } from 'vitest';
+import { simulateH2HSeason } from '../h2hSimulator';
+import type { TeamProjectedStats } from '../teamProjections';
+
+function makeTeam(teamName: string, values: Record<string, number>): TeamProjectedStats {
+  const categories: TeamProjectedStats['categories'] = {};
+  Object.entries(values).forEach(([cat, value]) => {
+    categories[cat] = { value, rank: 1, isLowerBetter: cat === 'ERA' || cat === 'WHIP' };
+  });
+  return { teamName, categories, totalRotoPoints: 0, overallRank: 1, playerCount: 23 };
+}
+
+const AVERAGE_TEAM = { R: 850, HR: 230, SB: 120, AVG: 0.260, ERA: 3.90, WHIP: 1.25 };
+const CATEGORIES = Object.keys(AVERAGE_TEAM);
+
+describe('h2hSimulator', () => {
+  describe('simulateH2HSeason', () => {
+    it('should return no odds without two teams or any categories', () => {
+      expect(simulateH2HSeason([makeTeam('Solo', AVERAGE_TEAM)], CATEGORIES)).toEqual([]);
+      expect(simulateH2HSeason([makeTeam('A', AVERAGE_TEAM), makeTeam('B', AVERAGE_TEAM)], [])).toEqual([]);
+    });
+
+    it('should give each team a bye week with an odd team count', () => {
+      const standings = ['A', 'B', 'C'].map(name => makeTeam(name, AVERAGE_TEAM));
+
+      // 3 teams over 6 weeks: each team sits out 2 weeks and plays 4 matchups
+      const odds = simulateH2HSeason(standings, CATEGORIES, { regularSeasonWeeks: 6, simulations: 50 });
+
+      odds.forEach(team => {
+        expect(team.expectedWins + team.expectedLosses + team.expectedTies).toBeCloseTo(4 * CATEGORIES.length);
+      });
+    });
+
+    it('should have equal teams win about half their matchups', () => {
+      const standings = ['A', 'B', 'C', 'D'].map(name => makeTeam(name, AVERAGE_TEAM));
+
+      const odds = simulateH2HSeason(standings, CATEGORIES, { simulations: 500 });
+
+      odds.forEach(team => {
+        expect(team.matchupWinRate).toBeGreaterThan(0.45);
+        expect(team.matchupWinRate).toBeLessThan(0.55);
+        CATEGORIES.forEach(cat => {
+          expect(team.categoryWinRates[cat]).toBeGreaterThan(0.45);
+          expect(team.categoryWinRates[cat]).toBeLessThan(0.55);
+        });
+        expect(team.playoffOdds).toBeGreaterThan(0.35);
+        expect(team.playoffOdds).toBeLessThan(0.65);
+      });
+    });
+
+    it('should treat ERA and WHIP as lower is better', () => {
+      const aces = makeTeam('Aces', { ...AVERAGE_TEAM, ERA: 3.00, WHIP: 1.05 });
+      const bombs = makeTeam('Bombs', { ...AVERAGE_TEAM, ERA: 5.00, WHIP: 1.45 });
+
+      const [acesOdds, bombsOdds] = simulateH2HSeason([aces, bombs], CATEGORIES, { simulations: 200 });
+
+      expect(acesOdds.categoryWinRates.ERA).toBeGreaterThan(0.8);
+      expect(acesOdds.categoryWinRates.WHIP).toBeGreaterThan(0.8);
+      expect(bombsOdds.categoryWinRates.ERA).toBeLessThan(0.2);
+      expect(acesOdds.matchupWinRate).toBeGreaterThan(bombsOdds.matchupWinRate);
+    });
+
+    it('should return the same odds for the same seed', () => {
+      const standings = [
+        makeTeam('A', AVERAGE_TEAM),
+        makeTeam('B', { ...AVERAGE_TEAM, HR: 250 }),
+        makeTeam('C', { ...AVERAGE_TEAM, SB: 90 }),
+        makeTeam('D', { ...AVERAGE_TEAM, ERA: 3.60 }),
+      ];
+      const options = { simulations: 100, seed: 42 };
+
+      const first = simulateH2HSeason(standings, CATEGORIES, options);
+
+      expect(simulateH2HSeason(standings, CATEGORIES, options)).toEqual(first);
+      expect(simulateH2HSeason(standings, CATEGORIES, { ...options, seed: 43 })).not.toEqual(first);
+    });
+  });
+});
@@ -147,6 +147,30 @@ export async function updateUserRole(
   });
 }
 
+/**
+ * Grant or revoke premium
+ */
+export async function updateUserSubscription(
+  userId: string,
+  tier: 'free' | 'premium'
+): Promise<{ success: boolean; user: Pick<AdminUserEntry, 'id' | 'email' | 'name' | 'subscriptionTier'>; message: string }> {
+  return adminFetch(`/users/${userId}/subscription`, {
+    method: 'PUT',
+    body: JSON.stringify({ tier }),
+  });
+}
+
+/**
+ * Reset a user's two-factor authentication
+ */
+export async function resetUserTwoFactor(
+  userId: string
+): Promise<{ success: boolean; message: string }> {
+  return adminFetch(`/users/${userId}/two-factor`, {
+    method: 'DELETE',
+  });
+}
+
 // =============================================================================
 // ERROR LOGS
 // =============================================================================
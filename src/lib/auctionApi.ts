@@ -1,9 +1,17 @@
 import type {
   ScrapedAuctionData,
   AuctionSyncResult,
+  AuctionSyncDelta,
+  AuctionRoomDiff,
+  EnhancedInflationStats,
+  PlayerPriceForecast,
   Player,
   LeagueSettings,
+  CustomProjectionRow,
+  CustomProjectionSetSummary,
+  ProjectionStatOverrides,
 } from './types';
+import { AuthError, authenticatedFetch, throwIfUpgradeRequired } from './authApi';
 
 // Get API base URL from environment variables
 // In development: defaults to empty string (relative URLs proxied by Vite)
@@ -42,6 +50,25 @@ const API_URL = getApiUrl();
 const API_BASE = `${API_URL}/api/auction`;
 const PROJECTIONS_BASE = `${API_URL}/api/projections`;
 
+// Delay before reopening a dropped live stream, doubling up to the max
+const STREAM_RETRY_MS = 5 * 1000;
+const STREAM_MAX_RETRY_MS = 60 * 1000;
+
+/**
+ * Custom projection sets and league stat overrides are private to their owners,
+ * so requests that use either must be authenticated
+ */
+function fetchForProjections(
+  settings: LeagueSettings,
+  url: string,
+  options: RequestInit,
+  leagueId?: string
+): Promise<Response> {
+  return settings.projectionSystem === 'custom' || leagueId
+    ? authenticatedFetch(url, options)
+    : fetch(url, options);
+}
+
 // Types for projection API responses
 export interface ProjectionMetadata {
   system: string;
@@ -107,6 +134,7 @@ export interface NormalizedProjection {
     battersFaced: number;
     qualityStarts: number;
   };
+  statOverrides?: ProjectionStatOverrides; // League stat edits applied to this line
 }
 
 export interface ProjectionsResponse {
@@ -119,16 +147,34 @@ export interface PlayerWithValue extends NormalizedProjection {
   auctionValue: number;
   sgpValue?: number;
   pointsValue?: number;
+  pointsAboveReplacement?: number;
   tier: number;
   isInDraftPool: boolean;
+  keeperSalary?: number;
+  keptBy?: string;
   // Dynasty-specific fields
   dynastyRank?: number;
   dynastyValue?: number;
   steamerValue?: number;
+  multiYearValue?: number;
+  yearlyValues?: number[];
   blendedScore?: number;
   ageAdjustment?: number;
 }
 
+export interface ProspectWithValue {
+  name: string;
+  team: string;
+  positions: string[];
+  level: 'MLB' | 'AAA' | 'AA' | 'A+' | 'A' | 'other';
+  eta: number;
+  rank: number;
+  age: number | null;
+  futureValue: number;
+  farmValue: number;
+  isInFarmPool: boolean;
+}
+
 export interface CalculatedValuesResponse {
   projectionSystem: string;
   calculatedAt: string;
@@ -144,7 +190,11 @@ export interface CalculatedValuesResponse {
     pitcherBudget: number;
     leagueType?: 'redraft' | 'dynasty';
     dynastyWeight?: number;
+    keeperCount?: number;
+    keeperSalaries?: number;
+    keeperSurplus?: number;
   };
+  categoryWarnings?: string[];
   players: PlayerWithValue[];
 }
 
@@ -167,6 +217,7 @@ export async function fetchAuctionData(roomId: string): Promise<ScrapedAuctionDa
 /**
  * Syncs auction data with player projections and calculates inflation.
  * This is the main endpoint for the DraftRoom to use.
+ * Live sync is a premium feature (UpgradeRequiredError otherwise).
  */
 export async function syncAuction(
   roomId: string,
@@ -188,7 +239,7 @@ export async function syncAuction(
     0
   );
 
-  const response = await fetch(`${API_BASE}/${roomId}/sync`, {
+  const response = await authenticatedFetch(`${API_BASE}/${roomId}/sync`, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
@@ -200,11 +251,13 @@ export async function syncAuction(
         budgetPerTeam: settings.budgetPerTeam,
         totalRosterSpots,
         rosterSpots: settings.rosterSpots, // Include per-position slots for scarcity calculation
+        keepers: settings.keepers,
       },
     }),
   });
 
   if (!response.ok) {
+    await throwIfUpgradeRequired(response);
     if (response.status === 404) {
       throw new Error(`Auction room ${roomId} not found`);
     }
@@ -215,14 +268,69 @@ export async function syncAuction(
   return response.json();
 }
 
+/**
+ * Applies an incremental sync response to the previous full result.
+ * Changed players replace their old entries; players that no longer have a
+ * match move to the unmatched list. Players and teams the room dropped are removed.
+ */
+export function applyAuctionSyncDelta(
+  previous: AuctionSyncResult,
+  delta: AuctionSyncDelta
+): AuctionSyncResult {
+  const changedPlayers = new Map(delta.changedPlayers.map(p => [p.couchManagersId, p]));
+  const changedMatches = new Map(delta.changedMatches.map(m => [m.scrapedPlayer.couchManagersId, m]));
+  const changedTeams = new Map(delta.changedTeams.map(t => [t.name, t]));
+  const removedPlayerIds = new Set(delta.removedPlayerIds);
+  const removedTeamNames = new Set(delta.removedTeamNames);
+  // Replaced or removed - either way the previous entry is dropped
+  const isStale = (couchManagersId: number) =>
+    changedPlayers.has(couchManagersId) || removedPlayerIds.has(couchManagersId);
+
+  const players = previous.auctionData.players
+    .filter(p => !removedPlayerIds.has(p.couchManagersId))
+    .map(p => changedPlayers.get(p.couchManagersId) ?? p);
+  const knownPlayerIds = new Set(players.map(p => p.couchManagersId));
+  players.push(...delta.changedPlayers.filter(p => !knownPlayerIds.has(p.couchManagersId)));
+
+  const teams = previous.auctionData.teams
+    .filter(t => !removedTeamNames.has(t.name))
+    .map(t => changedTeams.get(t.name) ?? t);
+  const knownTeams = new Set(teams.map(t => t.name));
+  teams.push(...delta.changedTeams.filter(t => !knownTeams.has(t.name)));
+
+  const matchedPlayers = [
+    ...previous.matchedPlayers.filter(m => !isStale(m.scrapedPlayer.couchManagersId)),
+    ...delta.changedMatches,
+  ];
+  const unmatchedPlayers = [
+    ...previous.unmatchedPlayers.filter(p => !isStale(p.couchManagersId)),
+    ...delta.changedPlayers.filter(p => !changedMatches.has(p.couchManagersId)),
+  ];
+
+  return {
+    auctionData: { ...delta.auctionData, players, teams },
+    matchedPlayers,
+    inflationStats: delta.inflationStats,
+    unmatchedPlayers,
+    cursor: delta.cursor,
+  };
+}
+
 /**
  * Lightweight sync that uses server-cached projections instead of sending full player list.
  * Much smaller payload - only sends league config and projection system.
  * Supports both redraft and dynasty modes.
+ *
+ * Pass the previous result to sync incrementally: the server then returns only
+ * what changed since that result's cursor, which is merged into a full result here.
+ * Falls back to a full snapshot when the server no longer knows the cursor.
+ * Live sync is a premium feature (UpgradeRequiredError otherwise).
  */
 export async function syncAuctionLite(
   roomId: string,
-  settings: LeagueSettings
+  settings: LeagueSettings,
+  previous?: AuctionSyncResult | null,
+  leagueId?: string
 ): Promise<AuctionSyncResult> {
   // Calculate total roster spots
   const totalRosterSpots = Object.values(settings.rosterSpots).reduce(
@@ -230,13 +338,16 @@ export async function syncAuctionLite(
     0
   );
 
-  const response = await fetch(`${API_BASE}/${roomId}/sync-lite`, {
+  const response = await authenticatedFetch(`${API_BASE}/${roomId}/sync-lite`, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
     },
     body: JSON.stringify({
       projectionSystem: settings.projectionSystem || 'steamer',
+      projectionBlend: settings.projectionSystem === 'blend' ? settings.projectionBlend : undefined,
+      customProjectionSetId: settings.projectionSystem === 'custom' ? settings.customProjectionSetId : undefined,
+      leagueId,
       leagueConfig: {
         numTeams: settings.numTeams,
         budgetPerTeam: settings.budgetPerTeam,
@@ -249,11 +360,14 @@ export async function syncAuctionLite(
         // Dynasty settings
         leagueType: settings.leagueType || 'redraft',
         dynastySettings: settings.dynastySettings,
+        keepers: settings.keepers,
       },
+      cursor: previous?.cursor,
     }),
   });
 
   if (!response.ok) {
+    await throwIfUpgradeRequired(response);
     if (response.status === 404) {
       throw new Error(`Auction room ${roomId} not found`);
     }
@@ -265,9 +379,112 @@ export async function syncAuctionLite(
     throw new Error(error.error || 'Failed to sync auction data');
   }
 
+  const data: AuctionSyncResult | AuctionSyncDelta = await response.json();
+  if ('mode' in data && data.mode === 'delta') {
+    if (!previous) {
+      throw new Error('Received incremental sync without a previous result');
+    }
+    return applyAuctionSyncDelta(previous, data);
+  }
+  return data as AuctionSyncResult;
+}
+
+/**
+ * Calculates inflation for a manual draft (no Couch Managers room).
+ * Drafted players must carry draftedBy (winning team) and draftedPrice so
+ * the server can build team budget constraints. Undrafted players only count
+ * toward remaining value and scarcity, so only those with value need sending.
+ */
+export async function calculateManualInflation(
+  players: Player[],
+  teams: string[],
+  settings: LeagueSettings
+): Promise<EnhancedInflationStats> {
+  const totalRosterSpots = Object.values(settings.rosterSpots).reduce(
+    (sum, count) => sum + count,
+    0
+  );
+
+  const response = await authenticatedFetch(`${API_BASE}/manual/inflation`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      leagueConfig: {
+        numTeams: settings.numTeams,
+        budgetPerTeam: settings.budgetPerTeam,
+        totalRosterSpots,
+        rosterSpots: settings.rosterSpots,
+        keepers: settings.keepers,
+      },
+      teams,
+      players: players.map(p => ({
+        id: p.id,
+        name: p.name,
+        team: p.team,
+        positions: p.positions,
+        projectedValue: p.projectedValue,
+        draftedBy: p.draftedBy,
+        draftedPrice: p.draftedBy ? p.draftedPrice ?? 0 : undefined,
+      })),
+    }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to calculate inflation');
+  }
+
   return response.json();
 }
 
+/**
+ * Simulates the rest of the auction on the server and returns each remaining
+ * player's forecast price distribution (players unlikely to be drafted are omitted)
+ */
+export async function fetchPriceForecasts(
+  remainingPlayers: Player[],
+  inflationStats: Pick<EnhancedInflationStats, 'teamConstraints' | 'positionalScarcity'>
+): Promise<PlayerPriceForecast[]> {
+  // The server only simulates the top 1.5 players per open spot, so don't send the rest
+  const openSpots = inflationStats.teamConstraints.reduce((sum, t) => sum + t.rosterSpotsRemaining, 0);
+  const pool = [...remainingPlayers]
+    .sort((a, b) => b.projectedValue - a.projectedValue)
+    .slice(0, Math.ceil(openSpots * 1.5));
+
+  const response = await authenticatedFetch(`${API_BASE}/forecast`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      players: pool.map(p => ({
+        id: p.id,
+        projectedValue: p.projectedValue,
+        positions: p.positions,
+      })),
+      teams: inflationStats.teamConstraints.map(t => ({
+        teamName: t.teamName,
+        rawRemaining: t.rawRemaining,
+        rosterSpotsRemaining: t.rosterSpotsRemaining,
+      })),
+      positionalScarcity: inflationStats.positionalScarcity.map(s => ({
+        position: s.position,
+        inflationAdjustment: s.inflationAdjustment,
+      })),
+    }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to forecast prices');
+  }
+
+  const data: { forecasts: PlayerPriceForecast[] } = await response.json();
+  return data.forecasts;
+}
+
 /**
  * Fetches only the current auction info (lightweight endpoint for quick updates)
  */
@@ -285,6 +502,108 @@ export async function fetchCurrentAuction(roomId: string): Promise<{
   return response.json();
 }
 
+/**
+ * Subscribes to live room changes over Server-Sent Events.
+ * The stream needs my access token, so it's read with fetch rather than
+ * EventSource (which can't send headers) and reopened here when it drops.
+ * onConnectionChange reports when the stream is up so callers can fall back
+ * to polling while it is down. It stays closed when I'm not allowed to stream
+ * (signed out, tier without live sync) or the room doesn't exist.
+ *
+ * @returns Function that closes the stream
+ */
+export function subscribeToAuctionRoom(
+  roomId: string,
+  handlers: {
+    onDiff: (diff: AuctionRoomDiff) => void;
+    onError?: (message: string) => void;
+    onConnectionChange?: (connected: boolean) => void;
+  }
+): () => void {
+  if (typeof ReadableStream === 'undefined' || typeof TextDecoderStream === 'undefined') {
+    handlers.onConnectionChange?.(false);
+    return () => {};
+  }
+
+  const controller = new AbortController();
+  let retryMs = STREAM_RETRY_MS;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // Returns false once the server says the room is no longer watched
+  const handleEvent = (type: string, data: string): boolean => {
+    try {
+      if (type === 'diff') {
+        handlers.onDiff(JSON.parse(data) as AuctionRoomDiff);
+      } else if (type === 'error' || type === 'closed') {
+        handlers.onError?.((JSON.parse(data) as { message: string }).message);
+      }
+    } catch {
+      // Ignore malformed events - the next diff or fallback poll will catch up
+    }
+    return type !== 'closed';
+  };
+
+  const connect = async () => {
+    let shouldRetry = true;
+    try {
+      const response = await authenticatedFetch(`${API_BASE}/${roomId}/stream`, {
+        headers: { Accept: 'text/event-stream' },
+        signal: controller.signal,
+      });
+      if (!response.ok || !response.body) {
+        // A busy or failing server may recover; being refused won't change
+        shouldRetry = response.status >= 500;
+        return;
+      }
+
+      handlers.onConnectionChange?.(true);
+      retryMs = STREAM_RETRY_MS;
+
+      const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = '';
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        // Events are separated by a blank line; keep any partial event for the next chunk
+        buffer += value;
+        const blocks = buffer.split('\n\n');
+        buffer = blocks.pop() ?? '';
+        for (const block of blocks) {
+          const lines = block.split('\n');
+          const type = lines.find(line => line.startsWith('event:'))?.slice(6).trim();
+          const data = lines.filter(line => line.startsWith('data:')).map(line => line.slice(5).trim()).join('\n');
+          if (type && data && !handleEvent(type, data)) {
+            shouldRetry = false;
+          }
+        }
+      }
+    } catch (error) {
+      // Dropped connections are retried; a lost sign-in is not
+      if (error instanceof AuthError) {
+        shouldRetry = false;
+      }
+    } finally {
+      if (!controller.signal.aborted) {
+        handlers.onConnectionChange?.(false);
+        if (shouldRetry) {
+          retryTimer = setTimeout(() => void connect(), retryMs);
+          retryMs = Math.min(retryMs * 2, STREAM_MAX_RETRY_MS);
+        }
+      }
+    }
+  };
+
+  void connect();
+
+  return () => {
+    controller.abort();
+    if (retryTimer) {
+      clearTimeout(retryTimer);
+    }
+  };
+}
+
 /**
  * Normalizes a player name for matching (client-side utility)
  */
@@ -357,12 +676,14 @@ export async function fetchProjections(
 
 /**
  * Calculates auction values for a league based on projections and settings
- * This is the main function to use when setting up a league
+ * This is the main function to use when setting up a league.
+ * Pass a saved league's ID to apply its per-player stat overrides.
  */
 export async function calculateLeagueAuctionValues(
-  leagueSettings: LeagueSettings
+  leagueSettings: LeagueSettings,
+  leagueId?: string
 ): Promise<CalculatedValuesResponse> {
-  const response = await fetch(`${PROJECTIONS_BASE}/calculate-values`, {
+  const response = await fetchForProjections(leagueSettings, `${PROJECTIONS_BASE}/calculate-values`, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
@@ -370,8 +691,9 @@ export async function calculateLeagueAuctionValues(
     body: JSON.stringify({
       projectionSystem: leagueSettings.projectionSystem,
       leagueSettings,
+      leagueId,
     }),
-  });
+  }, leagueId);
 
   if (!response.ok) {
     const error = await response.json().catch(() => ({}));
@@ -381,6 +703,27 @@ export async function calculateLeagueAuctionValues(
   return response.json();
 }
 
+/**
+ * Farm values for the prospect list (dynasty leagues with MiLB slots)
+ */
+export async function fetchProspectValues(leagueSettings: LeagueSettings): Promise<ProspectWithValue[]> {
+  const response = await fetch(`${PROJECTIONS_BASE}/prospect-values`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ leagueSettings }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to load prospect values');
+  }
+
+  const data: { prospects: ProspectWithValue[] } = await response.json();
+  return data.prospects;
+}
+
 /**
  * Forces a refresh of projections cache for a system
  */
@@ -418,6 +761,100 @@ export async function getProjectionsCacheStatus(
   return response.json();
 }
 
+// =============================================================================
+// CUSTOM PROJECTIONS API
+// =============================================================================
+
+/**
+ * Lists custom projection sets I uploaded or that are shared with my leagues
+ */
+export async function fetchCustomProjectionSets(): Promise<CustomProjectionSetSummary[]> {
+  const response = await authenticatedFetch(`${PROJECTIONS_BASE}/custom`);
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to load custom projection sets');
+  }
+
+  const data: { sets: CustomProjectionSetSummary[] } = await response.json();
+  return data.sets;
+}
+
+/**
+ * Uploads a column-mapped projection set
+ *
+ * @param leagueId - Share the set with this league (must be a league I own)
+ */
+export async function uploadCustomProjectionSet(
+  name: string,
+  projections: CustomProjectionRow[],
+  leagueId?: string
+): Promise<CustomProjectionSetSummary> {
+  const response = await authenticatedFetch(`${PROJECTIONS_BASE}/custom`, {
+    method: 'POST',
+    body: JSON.stringify({ name, leagueId, projections }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.message || error.error || 'Failed to upload custom projections');
+  }
+
+  const data: { set: CustomProjectionSetSummary } = await response.json();
+  return data.set;
+}
+
+/**
+ * Deletes a custom projection set I uploaded
+ */
+export async function deleteCustomProjectionSet(id: string): Promise<void> {
+  const response = await authenticatedFetch(`${PROJECTIONS_BASE}/custom/${id}`, {
+    method: 'DELETE',
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to delete custom projection set');
+  }
+}
+
+// =============================================================================
+// PROJECTION SNAPSHOTS API
+// =============================================================================
+
+export interface PlayerValueHistoryPoint {
+  snapshotId: string;
+  fetchedAt: string;
+  auctionValue: number;
+}
+
+/**
+ * A player's auction value in each of this season's projection snapshots, oldest first
+ * Only the fetched systems keep snapshots; blended and custom projections have no history.
+ * Requires sign-in.
+ */
+export async function fetchPlayerValueHistory(
+  system: 'steamer' | 'batx' | 'ja' | 'oopsy',
+  playerId: string,
+  leagueSettings: LeagueSettings
+): Promise<PlayerValueHistoryPoint[]> {
+  const response = await authenticatedFetch(`${PROJECTIONS_BASE}/${system}/value-history`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ playerId, leagueSettings }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to load value history');
+  }
+
+  const data: { history: PlayerValueHistoryPoint[] } = await response.json();
+  return data.history;
+}
+
 // =============================================================================
 // DYNASTY RANKINGS API
 // =============================================================================
@@ -606,6 +1043,27 @@ export function convertToPlayers(
   return players;
 }
 
+/**
+ * Replaces projected values and stats with recalculated ones (e.g. after a
+ * stat override), keeping each player's draft status and bids
+ */
+export function mergeRecalculatedValues(players: Player[], recalculated: Player[]): Player[] {
+  const byId = new Map(recalculated.map(p => [p.id, p]));
+  return players.map(p => {
+    const fresh = byId.get(p.id);
+    if (!fresh) return p;
+    return {
+      ...p,
+      projectedValue: fresh.projectedValue,
+      adjustedValue: p.status === 'available' ? fresh.adjustedValue : p.adjustedValue,
+      projectedStats: fresh.projectedStats,
+      tier: fresh.tier,
+      sgpValue: fresh.sgpValue,
+      statOverrides: fresh.statOverrides,
+    };
+  });
+}
+
 /**
  * Creates a Player object from a single projection entry
  */
@@ -653,6 +1111,7 @@ function createPlayerFromProjection(p: CalculatedValuesResponse['players'][0]):
     tier: p.tier,
     isInDraftPool: p.isInDraftPool,
     sgpValue: p.sgpValue,
+    statOverrides: p.statOverrides,
   };
 }
 
@@ -723,5 +1182,8 @@ function combineTwoWayPlayer(
     isInDraftPool: hitter.isInDraftPool || pitcher.isInDraftPool,
     isTwoWayPlayer: true, // Flag to indicate this is a combined two-way player
     sgpValue: combinedSgpValue,
+    statOverrides: hitter.statOverrides || pitcher.statOverrides
+      ? { ...hitter.statOverrides, ...pitcher.statOverrides }
+      : undefined,
   };
 }
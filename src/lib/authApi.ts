@@ -3,6 +3,8 @@
  * Handles all auth-related API calls to the backend
  */
 
+import type { Entitlements, PremiumFeature, SubscriptionInfo } from './types';
+
 // Get API base URL from environment variables
 // Ensure the URL has a protocol prefix
 function getApiUrl(): string {
@@ -50,6 +52,9 @@ export interface AuthUser {
   profilePictureUrl: string | null;
   authProvider: 'email' | 'google';
   subscriptionTier: 'free' | 'premium';
+  subscription?: SubscriptionInfo;
+  entitlements?: Entitlements; // What my tier unlocks
+  twoFactorEnabled?: boolean;
   createdAt: string;
   lastLoginAt: string | null;
 }
@@ -60,6 +65,34 @@ export interface LoginResponse {
   refreshToken: string;
 }
 
+/**
+ * Login reply for accounts with 2FA: no tokens until verifyTwoFactor succeeds
+ */
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  challengeToken: string;
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+  qrCodeDataUrl: string;
+}
+
+/**
+ * A device signed in to my account
+ */
+export interface ActiveSession {
+  id: string;
+  device: string; // e.g. "Chrome on macOS"
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  current: boolean;
+}
+
 export interface RegisterRequest {
   email: string;
   password: string;
@@ -83,6 +116,39 @@ export class AuthError extends Error {
   }
 }
 
+// Server error code when a free account is at its league limit
+const LEAGUE_LIMIT_REACHED_CODE = 'SUB_002';
+
+/**
+ * A request needed a higher subscription tier (402), or a free account hit
+ * its league limit. The message explains what premium unlocks.
+ */
+export class UpgradeRequiredError extends Error {
+  constructor(
+    message: string,
+    public feature?: PremiumFeature
+  ) {
+    super(message);
+    this.name = 'UpgradeRequiredError';
+  }
+}
+
+/**
+ * Throws UpgradeRequiredError when a response says the user's tier doesn't
+ * include what they asked for. Leaves the body readable for other errors.
+ */
+export async function throwIfUpgradeRequired(response: Response): Promise<void> {
+  if (response.status !== 402 && response.status !== 403) return;
+
+  const data = await response.clone().json().catch(() => ({}));
+  if (response.status === 402 || data.code === LEAGUE_LIMIT_REACHED_CODE) {
+    throw new UpgradeRequiredError(
+      data.message || 'This feature requires a premium subscription',
+      data.feature
+    );
+  }
+}
+
 // Token management
 export function getAccessToken(): string | null {
   return localStorage.getItem(ACCESS_TOKEN_KEY);
@@ -151,16 +217,40 @@ export async function register(data: RegisterRequest): Promise<LoginResponse> {
   return result;
 }
 
+export function isTwoFactorChallenge(
+  result: LoginResponse | TwoFactorChallenge
+): result is TwoFactorChallenge {
+  return 'twoFactorRequired' in result && result.twoFactorRequired === true;
+}
+
 /**
  * Login with email and password
+ * Returns a challenge instead of a session when the account has 2FA on
  */
-export async function login(data: LoginRequest): Promise<LoginResponse> {
+export async function login(data: LoginRequest): Promise<LoginResponse | TwoFactorChallenge> {
   const response = await fetch(`${AUTH_BASE}/login`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify(data),
   });
 
+  const result = await handleResponse<LoginResponse | TwoFactorChallenge>(response);
+  if (!isTwoFactorChallenge(result)) {
+    setTokens(result.accessToken, result.refreshToken);
+  }
+  return result;
+}
+
+/**
+ * Finish a 2FA login with an authenticator or recovery code
+ */
+export async function verifyTwoFactor(challengeToken: string, code: string): Promise<LoginResponse> {
+  const response = await fetch(`${AUTH_BASE}/2fa/verify`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ challengeToken, code }),
+  });
+
   const result = await handleResponse<LoginResponse>(response);
   setTokens(result.accessToken, result.refreshToken);
   return result;
@@ -285,18 +375,77 @@ export function initiateGoogleLogin(): void {
  * Handle Google OAuth callback
  * Called when user is redirected back from Google with auth code
  */
-export async function handleGoogleCallback(code: string): Promise<LoginResponse> {
+export async function handleGoogleCallback(code: string): Promise<LoginResponse | TwoFactorChallenge> {
   const response = await fetch(`${AUTH_BASE}/google/callback`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify({ code }),
   });
 
-  const result = await handleResponse<LoginResponse>(response);
-  setTokens(result.accessToken, result.refreshToken);
+  const result = await handleResponse<LoginResponse | TwoFactorChallenge>(response);
+  if (!isTwoFactorChallenge(result)) {
+    setTokens(result.accessToken, result.refreshToken);
+  }
   return result;
 }
 
+/**
+ * Start 2FA enrollment - returns the secret and a QR code to scan
+ */
+export async function setupTwoFactor(): Promise<TwoFactorSetup> {
+  const response = await authenticatedFetch(`${AUTH_BASE}/2fa/setup`, { method: 'POST' });
+  return handleResponse<TwoFactorSetup>(response);
+}
+
+/**
+ * Confirm enrollment with a code from the authenticator app
+ * The recovery codes are only returned here - show them once
+ */
+export async function enableTwoFactor(code: string): Promise<{ user: AuthUser; recoveryCodes: string[] }> {
+  const response = await authenticatedFetch(`${AUTH_BASE}/2fa/enable`, {
+    method: 'POST',
+    body: JSON.stringify({ code }),
+  });
+  return handleResponse<{ user: AuthUser; recoveryCodes: string[] }>(response);
+}
+
+/**
+ * Turn off 2FA (needs a current authenticator or recovery code)
+ */
+export async function disableTwoFactor(code: string): Promise<{ user: AuthUser }> {
+  const response = await authenticatedFetch(`${AUTH_BASE}/2fa/disable`, {
+    method: 'POST',
+    body: JSON.stringify({ code }),
+  });
+  return handleResponse<{ user: AuthUser }>(response);
+}
+
+/**
+ * List the devices signed in to my account
+ */
+export async function fetchSessions(): Promise<ActiveSession[]> {
+  const response = await authenticatedFetch(`${AUTH_BASE}/sessions`);
+  const result = await handleResponse<{ sessions: ActiveSession[] }>(response);
+  return result.sessions;
+}
+
+/**
+ * Sign out one device
+ */
+export async function revokeSession(sessionId: string): Promise<void> {
+  const response = await authenticatedFetch(`${AUTH_BASE}/sessions/${sessionId}`, { method: 'DELETE' });
+  await handleResponse<{ success: boolean }>(response);
+}
+
+/**
+ * Sign out every device except this one
+ */
+export async function revokeOtherSessions(): Promise<number> {
+  const response = await authenticatedFetch(`${AUTH_BASE}/sessions`, { method: 'DELETE' });
+  const result = await handleResponse<{ success: boolean; revoked: number }>(response);
+  return result.revoked;
+}
+
 /**
  * Create an authenticated fetch wrapper that auto-refreshes tokens
  */
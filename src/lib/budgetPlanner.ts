@@ -0,0 +1,332 @@
+/**
+ * Remaining-Budget Roster Planner
+ * Plans how to fill my open roster slots from the available pool under my
+ * remaining budget. Each player costs their inflation-adjusted value (min $1)
+ * and contributes their projected value - the dollar value of their category
+ * (or points) contribution - so the plan maximizes projected standings.
+ *
+ * The planner's max bid for a player is the highest price at which buying
+ * them still leaves a plan at least as strong as the best plan without them.
+ */
+
+import type { LeagueSettings, Player } from './types';
+
+type RosterSlot = keyof LeagueSettings['rosterSpots'];
+
+export interface PlanCandidate {
+  player: Player;
+  cost: number;
+  value: number;
+}
+
+export interface PlannedPick extends PlanCandidate {
+  slot: RosterSlot;
+}
+
+export interface BudgetPlanContext {
+  budget: number;
+  openSlots: RosterSlot[];
+  candidates: PlanCandidate[];
+}
+
+export interface BudgetPlan {
+  picks: PlannedPick[];
+  totalCost: number;
+  totalValue: number;
+  /** Open slots no candidate could fill */
+  unfilledSlots: RosterSlot[];
+}
+
+export interface PlannedBidAnalysis {
+  /** Highest bid that keeps the plan at least as strong (0 = no room for the player) */
+  maxBid: number;
+  /** Best plan without the player */
+  basePlan: BudgetPlan;
+}
+
+export interface PlannedBidImpact {
+  /** Best plan after winning the player at the bid (null = the bid doesn't fit) */
+  plan: BudgetPlan | null;
+  /** Planned players the bid pushes out of the base plan */
+  displaced: PlannedPick[];
+  /** Projected value gained (or lost) compared to the base plan */
+  valueChange: number;
+}
+
+// Most restrictive first, so specific slots are filled before flexible ones
+const SLOT_ORDER: RosterSlot[] = ['C', 'SS', '2B', '3B', '1B', 'OF', 'SP', 'RP', 'MI', 'CI', 'UTIL', 'P', 'Bench'];
+
+// Bench players rarely count toward standings, so they add little to the plan
+const BENCH_VALUE_WEIGHT = 0.2;
+// Only the top of the pool is considered (plenty for any open roster)
+const MAX_CANDIDATES = 300;
+// Guard against pathological swap loops
+const MAX_SWAPS = 1000;
+
+// Max bids per planner context - a context lives until the next sync, so
+// reopening a player between syncs doesn't re-run the search
+const plannedMaxBidCache = new WeakMap<BudgetPlanContext, Map<string, PlannedBidAnalysis>>();
+
+function isPitcher(player: Player): boolean {
+  return player.positions.some(pos => pos === 'SP' || pos === 'RP' || pos === 'P');
+}
+
+function canFillSlot(player: Player, slot: RosterSlot): boolean {
+  switch (slot) {
+    case 'Bench':
+      return true;
+    case 'UTIL':
+      return !isPitcher(player) || player.isTwoWayPlayer === true;
+    case 'P':
+      return isPitcher(player);
+    case 'CI':
+      return player.positions.includes('1B') || player.positions.includes('3B');
+    case 'MI':
+      return player.positions.includes('2B') || player.positions.includes('SS');
+    case 'OF':
+      return player.positions.some(pos => pos === 'OF' || pos === 'LF' || pos === 'CF' || pos === 'RF');
+    default:
+      return player.positions.includes(slot);
+  }
+}
+
+function slotValue(candidate: PlanCandidate, slot: RosterSlot): number {
+  return slot === 'Bench' ? candidate.value * BENCH_VALUE_WEIGHT : candidate.value;
+}
+
+/**
+ * Open roster slots after placing my current players in the most specific slot each fits
+ */
+export function getOpenRosterSlots(
+  rosterSpots: LeagueSettings['rosterSpots'],
+  myRoster: Player[]
+): RosterSlot[] {
+  const remaining = { ...rosterSpots };
+
+  myRoster.forEach(player => {
+    const slot = SLOT_ORDER.find(s => remaining[s] > 0 && canFillSlot(player, s));
+    if (slot) remaining[slot]--;
+  });
+
+  return SLOT_ORDER.flatMap(slot => Array<RosterSlot>(Math.max(0, remaining[slot])).fill(slot));
+}
+
+/**
+ * Builds the planner inputs from my roster and the available pool
+ */
+export function createBudgetPlanContext(
+  myRoster: Player[],
+  moneyRemaining: number,
+  rosterSpots: LeagueSettings['rosterSpots'],
+  availablePlayers: Player[]
+): BudgetPlanContext {
+  const candidates = availablePlayers
+    .filter(p => p.status === 'available' || p.status === 'on_block')
+    .sort((a, b) => b.projectedValue - a.projectedValue)
+    .slice(0, MAX_CANDIDATES)
+    .map(player => ({
+      player,
+      cost: Math.max(1, Math.round(player.adjustedValue)),
+      value: Math.max(0, player.projectedValue),
+    }));
+
+  return {
+    budget: Math.max(0, moneyRemaining),
+    openSlots: getOpenRosterSlots(rosterSpots, myRoster),
+    candidates,
+  };
+}
+
+/**
+ * Solves for the roster fill with the most projected value under the budget.
+ * Starts from the cheapest fill, then repeatedly makes the affordable upgrade
+ * with the most value per extra dollar until no upgrade is left.
+ *
+ * @param context - Planner inputs
+ * @param forced - A pick that must be in the plan (e.g. a player being bid on)
+ */
+export function solveBudgetPlan(context: BudgetPlanContext, forced?: PlannedPick): BudgetPlan {
+  const { candidates } = context;
+  const slots = [...context.openSlots];
+  const eligible = new Map(
+    [...new Set(slots)].map(slot => [slot, candidates.filter(c => canFillSlot(c.player, slot))])
+  );
+  const assigned: (PlanCandidate | null)[] = slots.map(() => null);
+  const used = new Set<string>();
+  let budget = context.budget;
+  let fixedIndex = -1;
+
+  if (forced) {
+    fixedIndex = slots.indexOf(forced.slot);
+    if (fixedIndex !== -1) {
+      assigned[fixedIndex] = forced;
+      used.add(forced.player.id);
+      budget -= forced.cost;
+    }
+  }
+
+  // Cheapest fill first (best value among equally cheap players), within the
+  // budget - slots nobody affordable can fill are left open
+  const byCost = [...candidates].sort((a, b) => a.cost - b.cost || b.value - a.value);
+  let spent = 0;
+  slots.forEach((slot, i) => {
+    if (i === fixedIndex) return;
+    const filler = byCost.find(c => !used.has(c.player.id) && canFillSlot(c.player, slot));
+    if (filler && filler.cost <= budget - spent) {
+      assigned[i] = filler;
+      used.add(filler.player.id);
+      spent += filler.cost;
+    }
+  });
+
+  // Upgrade by value per extra dollar (free upgrades first)
+  for (let swaps = 0; swaps < MAX_SWAPS; swaps++) {
+    const slack = budget - spent;
+    let best: { index: number; candidate: PlanCandidate; costChange: number; score: number } | null = null;
+
+    for (let i = 0; i < slots.length; i++) {
+      if (i === fixedIndex) continue;
+      const slot = slots[i];
+      const current = assigned[i];
+      const currentValue = current ? slotValue(current, slot) : 0;
+      const currentCost = current?.cost ?? 0;
+
+      for (const candidate of eligible.get(slot) ?? []) {
+        if (used.has(candidate.player.id)) continue;
+        const valueChange = slotValue(candidate, slot) - currentValue;
+        const costChange = candidate.cost - currentCost;
+        if (valueChange <= 0 || costChange > slack) continue;
+
+        const score = costChange <= 0 ? Infinity : valueChange / costChange;
+        if (!best || score > best.score) {
+          best = { index: i, candidate, costChange, score };
+        }
+      }
+    }
+
+    if (!best) break;
+    const { index, candidate, costChange } = best;
+    const previous = assigned[index];
+    if (previous) used.delete(previous.player.id);
+    assigned[index] = candidate;
+    used.add(candidate.player.id);
+    spent += costChange;
+  }
+
+  const picks: PlannedPick[] = [];
+  const unfilledSlots: RosterSlot[] = [];
+  slots.forEach((slot, i) => {
+    const candidate = assigned[i];
+    if (candidate) {
+      picks.push({ player: candidate.player, cost: candidate.cost, value: candidate.value, slot });
+    } else {
+      unfilledSlots.push(slot);
+    }
+  });
+
+  return {
+    picks,
+    totalCost: picks.reduce((sum, p) => sum + p.cost, 0),
+    totalValue: picks.reduce((sum, p) => sum + slotValue(p, p.slot), 0),
+    unfilledSlots,
+  };
+}
+
+/**
+ * Best plan that includes the player at the given price (tries each open slot type they fit)
+ */
+function solveWithPlayer(context: BudgetPlanContext, player: Player, bid: number): BudgetPlan | null {
+  const withoutPlayer = { ...context, candidates: context.candidates.filter(c => c.player.id !== player.id) };
+  const value = Math.max(0, player.projectedValue);
+  let best: BudgetPlan | null = null;
+
+  for (const slot of new Set(context.openSlots)) {
+    if (!canFillSlot(player, slot)) continue;
+    const plan = solveBudgetPlan(withoutPlayer, { player, cost: bid, value, slot });
+    if (plan.totalCost <= context.budget && (!best || plan.totalValue > best.totalValue)) {
+      best = plan;
+    }
+  }
+
+  return best;
+}
+
+function getBasePlan(context: BudgetPlanContext, player: Player): BudgetPlan {
+  return solveBudgetPlan({ ...context, candidates: context.candidates.filter(c => c.player.id !== player.id) });
+}
+
+/**
+ * Highest bid on the player that leaves a plan at least as strong as skipping them.
+ * Results are cached per context.
+ */
+export function calculatePlannedMaxBid(context: BudgetPlanContext, player: Player): PlannedBidAnalysis {
+  let cached = plannedMaxBidCache.get(context);
+  if (!cached) {
+    cached = new Map();
+    plannedMaxBidCache.set(context, cached);
+  }
+
+  let analysis = cached.get(player.id);
+  if (!analysis) {
+    analysis = searchPlannedMaxBid(context, player);
+    cached.set(player.id, analysis);
+  }
+  return analysis;
+}
+
+function searchPlannedMaxBid(context: BudgetPlanContext, player: Player): PlannedBidAnalysis {
+  const basePlan = getBasePlan(context, player);
+  // $1 has to stay in reserve for every other open slot
+  const ceiling = context.budget - Math.max(0, context.openSlots.length - 1);
+
+  const isWorthIt = (bid: number) => {
+    const plan = solveWithPlayer(context, player, bid);
+    return plan !== null && plan.totalValue >= basePlan.totalValue;
+  };
+
+  if (ceiling < 1 || !isWorthIt(1)) {
+    return { maxBid: 0, basePlan };
+  }
+
+  // The best plan only weakens as the price rises, so binary search the break-even bid
+  let low = 1;
+  let high = ceiling;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (isWorthIt(mid)) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  // The greedy solver doesn't always find the best plan, so a lower bid can come
+  // out weaker than the one found. Scan down so every bid up to the max is worth it.
+  for (let bid = low - 1; bid > 1; bid--) {
+    if (!isWorthIt(bid)) low = bid - 1;
+  }
+
+  return { maxBid: low, basePlan };
+}
+
+/**
+ * How winning the player at a bid changes the plan - which planned players it pushes out
+ */
+export function analyzePlannedBid(
+  context: BudgetPlanContext,
+  player: Player,
+  bid: number,
+  basePlan: BudgetPlan = getBasePlan(context, player)
+): PlannedBidImpact {
+  const plan = solveWithPlayer(context, player, bid);
+  if (!plan) {
+    return { plan: null, displaced: [], valueChange: 0 };
+  }
+
+  const keptIds = new Set(plan.picks.map(p => p.player.id));
+  return {
+    plan,
+    displaced: basePlan.picks.filter(p => !keptIds.has(p.player.id)),
+    valueChange: plan.totalValue - basePlan.totalValue,
+  };
+}
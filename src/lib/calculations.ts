@@ -320,6 +320,14 @@ export function adjustPlayerValuesWithTiers(
       };
     }
 
+    // A pinned value replaces the market estimate
+    if (player.valueOverride !== undefined) {
+      return {
+        ...player,
+        adjustedValue: player.valueOverride,
+      };
+    }
+
     // Get highest scarcity adjustment among player's positions
     let maxScarcityAdjustment = 1.0;
     let highestScarcityLevel: PositionalScarcity['scarcityLevel'] | undefined;
@@ -343,6 +351,21 @@ export function adjustPlayerValuesWithTiers(
   });
 }
 
+/**
+ * The price bids on a player are judged against: my "max I'll pay" when set,
+ * otherwise the adjusted value (which is the pinned value when one is set)
+ */
+export function getTargetPrice(player: Player): number {
+  return player.maxPrice ?? player.adjustedValue;
+}
+
+/**
+ * Whether I've pinned a value or set a max price for a player
+ */
+export function hasPriceTargets(player: Pick<Player, 'valueOverride' | 'maxPrice'>): boolean {
+  return player.valueOverride !== undefined || player.maxPrice !== undefined;
+}
+
 /**
  * Calculates the surplus/deficit for a drafted player
  * Positive = overpay, Negative = steal/value
@@ -442,8 +465,12 @@ export interface StrategicBidAnalysis {
   competitiveMaxBid: number;
   /** Hard ceiling - 50% of effective budget (don't put all eggs in one basket) */
   absoluteMax: number;
-  /** Recommended max bid (min of competitive and absolute) */
+  /** Recommended max bid (roster planner's max bid when available, else min of competitive and absolute) */
   recommendedMax: number;
+  /** Whether recommendedMax comes from the remaining-budget roster planner */
+  isPlanned: boolean;
+  /** Whether recommendedMax was capped by my "max I'll pay" for the player */
+  isPersonalCap: boolean;
   /** What % of effective budget the adjusted value represents */
   adjustedValuePercent: number;
   /** Risk level based on adjusted value vs limits */
@@ -462,12 +489,16 @@ export interface StrategicBidAnalysis {
  * @param rosterSpotsRemaining - Number of roster spots left to fill
  * @param adjustedValue - The player's inflation-adjusted value
  * @param projectedValue - The player's base projected value
+ * @param plannedMaxBid - Max bid from the remaining-budget roster planner (replaces the fixed limits)
+ * @param personalMaxPrice - My "max I'll pay" for the player, which caps the recommendation
  */
 export function calculateStrategicMaxBid(
   moneyRemaining: number,
   rosterSpotsRemaining: number,
   adjustedValue: number,
-  projectedValue: number
+  projectedValue: number,
+  plannedMaxBid?: number,
+  personalMaxPrice?: number
 ): StrategicBidAnalysis {
   // Calculate effective budget after $1 minimums for remaining spots
   // Reserve $1 for each remaining spot except the one we're bidding on
@@ -484,8 +515,16 @@ export function calculateStrategicMaxBid(
   // This prevents roster-crippling bids
   const absoluteMax = Math.max(1, Math.floor(effectiveBudget * 0.5));
 
-  // Recommended max is the more conservative of the two limits
-  const recommendedMax = Math.min(competitiveMaxBid, absoluteMax);
+  // The planner knows what the rest of the roster will cost; without it,
+  // recommended max is the more conservative of the two fixed limits
+  const isPlanned = plannedMaxBid !== undefined;
+  const strategicMax = isPlanned
+    ? Math.min(plannedMaxBid, effectiveBudget)
+    : Math.min(competitiveMaxBid, absoluteMax);
+
+  // Never recommend more than I've decided to pay
+  const isPersonalCap = personalMaxPrice !== undefined && personalMaxPrice < strategicMax;
+  const recommendedMax = isPersonalCap ? personalMaxPrice : strategicMax;
 
   // Calculate what % of effective budget the adjusted value represents
   const adjustedValuePercent = effectiveBudget > 0
@@ -524,6 +563,8 @@ export function calculateStrategicMaxBid(
     competitiveMaxBid: Math.round(competitiveMaxBid),
     absoluteMax,
     recommendedMax: Math.round(recommendedMax),
+    isPlanned,
+    isPersonalCap,
     adjustedValuePercent,
     riskLevel,
     advice,
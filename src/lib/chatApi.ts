@@ -4,6 +4,8 @@
  * Frontend API client for the LLM-powered draft assistant.
  */
 
+import { authenticatedFetch } from './authApi';
+
 // Get API base URL from environment variables
 function getApiUrl(): string {
   const rawUrl = import.meta.env.VITE_API_URL;
@@ -79,8 +81,8 @@ export interface ChatDraftContext {
     position: string;
     scarcityLevel: string;
   }>;
-  /** Projection system being used (steamer, batx, ja) */
-  projectionSystem?: 'steamer' | 'batx' | 'ja';
+  /** Projection system being used (steamer, batx, ja, oopsy, blend, custom) */
+  projectionSystem?: 'steamer' | 'batx' | 'ja' | 'oopsy' | 'blend' | 'custom';
   /** Current season year */
   season?: number;
   /** League scoring type */
@@ -154,11 +156,9 @@ export async function sendChatMessage(
   conversationHistory: ChatHistoryMessage[],
   draftContext: ChatDraftContext
 ): Promise<string> {
-  const response = await fetch(CHAT_BASE, {
+  // Signed in, since the assistant is a premium feature
+  const response = await authenticatedFetch(CHAT_BASE, {
     method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
     body: JSON.stringify({
       message,
       conversationHistory,
@@ -33,7 +33,7 @@ const RANK_PATTERNS = [
  * Finds a column index using flexible matching.
  * First tries exact matches, then partial matches.
  */
-function findColumnIndex(headers: string[], patterns: string[], partialMatch = false): number {
+export function findColumnIndex(headers: string[], patterns: string[], partialMatch = false): number {
   // Try exact matches first
   for (const pattern of patterns) {
     const idx = headers.findIndex(h => h === pattern);
@@ -187,7 +187,7 @@ export function parseCSV(text: string): CustomDynastyRanking[] {
 /**
  * Parses a single CSV line, handling quoted fields correctly.
  */
-function parseCSVLine(line: string, delimiter: string): string[] {
+export function parseCSVLine(line: string, delimiter: string): string[] {
   const values: string[] = [];
   let current = '';
   let inQuotes = false;
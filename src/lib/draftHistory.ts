@@ -0,0 +1,137 @@
+/**
+ * Manual Draft History
+ * Command log for manual draft entries - every draft, removal, price change,
+ * team reassignment and team rename is appended as a DraftLogEntry. Undo/redo
+ * stacks are derived by replaying the log, so the log itself stays a complete
+ * audit trail.
+ */
+
+import type { DraftAction, DraftLogEntry, ManualPick, Player } from './types';
+
+// Oldest entries are dropped beyond this (matches the server-side limit)
+export const MAX_DRAFT_LOG_ENTRIES = 500;
+
+/**
+ * Appends an entry to the log, trimming the oldest entries past the limit.
+ * `by` is left for the server to stamp when the entry is saved.
+ */
+export function appendDraftLog(
+  log: DraftLogEntry[],
+  op: DraftLogEntry['op'],
+  action: DraftAction
+): DraftLogEntry[] {
+  const entry: DraftLogEntry = {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    op,
+    action,
+    at: new Date().toISOString(),
+  };
+  return [...log, entry].slice(-MAX_DRAFT_LOG_ENTRIES);
+}
+
+/**
+ * Entries the server doesn't have yet. Both logs are append-only, so only
+ * entries with new ids need sending.
+ */
+export function getUnsavedDraftLog(log: DraftLogEntry[] | null, savedIds: Set<string>): DraftLogEntry[] {
+  return (log ?? []).filter(entry => !savedIds.has(entry.id));
+}
+
+/**
+ * Logs team renames (old name -> new name). Earlier entries keep the names they
+ * were made with; replaying the log carries them over to the new names.
+ */
+export function appendTeamRenames(log: DraftLogEntry[], renamed: Map<string, string>): DraftLogEntry[] {
+  let next = log;
+  for (const [oldName, newName] of renamed) {
+    next = appendDraftLog(next, 'do', {
+      type: 'rename_team',
+      playerId: '',
+      playerName: '',
+      from: { teamName: oldName, price: 0 },
+      to: { teamName: newName, price: 0 },
+    });
+  }
+  return next;
+}
+
+function renamePick(pick: ManualPick | null, oldName: string, newName: string): ManualPick | null {
+  return pick?.teamName === oldName ? { ...pick, teamName: newName } : pick;
+}
+
+function renameTeamInActions(actions: DraftAction[], oldName: string, newName: string): DraftAction[] {
+  return actions.map(action => ({
+    ...action,
+    from: renamePick(action.from, oldName, newName),
+    to: renamePick(action.to, oldName, newName),
+  }));
+}
+
+/**
+ * Replays the log into undo/redo stacks (last element = next to undo/redo).
+ * A new 'do' clears the redo stack, as in any editor. Team renames aren't
+ * undoable - they rename the team on the actions logged before them.
+ */
+export function getUndoRedoStacks(log: DraftLogEntry[]): {
+  undo: DraftAction[];
+  redo: DraftAction[];
+} {
+  let undo: DraftAction[] = [];
+  let redo: DraftAction[] = [];
+
+  for (const entry of log) {
+    if (entry.action.type === 'rename_team') {
+      const oldName = entry.action.from?.teamName;
+      const newName = entry.action.to?.teamName;
+      if (oldName && newName) {
+        undo = renameTeamInActions(undo, oldName, newName);
+        redo = renameTeamInActions(redo, oldName, newName);
+      }
+    } else if (entry.op === 'do') {
+      undo.push(entry.action);
+      redo = [];
+    } else if (entry.op === 'undo') {
+      const action = undo.pop();
+      if (action) redo.push(action);
+    } else {
+      const action = redo.pop();
+      if (action) undo.push(action);
+    }
+  }
+
+  return { undo, redo };
+}
+
+/**
+ * Applies a manual pick to a player (null = back to available)
+ */
+export function applyManualPick(player: Player, pick: ManualPick | null, myTeam: string | null): Player {
+  if (!pick) {
+    return { ...player, status: 'available', draftedPrice: undefined, draftedBy: undefined };
+  }
+  return {
+    ...player,
+    status: pick.teamName === myTeam ? 'onMyTeam' : 'drafted',
+    draftedPrice: pick.price,
+    draftedBy: pick.teamName,
+  };
+}
+
+/**
+ * Human-readable summary of an action for the audit trail
+ */
+export function describeDraftAction(action: DraftAction): string {
+  const { playerName, from, to } = action;
+  switch (action.type) {
+    case 'draft':
+      return `Drafted ${playerName} to ${to?.teamName} for $${to?.price}`;
+    case 'undraft':
+      return `Removed ${playerName} from ${from?.teamName} ($${from?.price})`;
+    case 'change_price':
+      return `Changed ${playerName} price from $${from?.price} to $${to?.price}`;
+    case 'reassign_team':
+      return `Moved ${playerName} from ${from?.teamName} to ${to?.teamName}`;
+    case 'rename_team':
+      return `Renamed ${from?.teamName} to ${to?.teamName}`;
+  }
+}
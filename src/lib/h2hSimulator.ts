@@ -0,0 +1,286 @@
+/**
+ * H2H Categories Matchup Simulator
+ * Turns projected team season totals into weekly category distributions and
+ * simulates a round-robin schedule to estimate category win rates and playoff odds
+ */
+
+import { isLowerBetterCategory, isRatioCategory, type TeamProjectedStats } from './teamProjections';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface H2HSimulationOptions {
+  regularSeasonWeeks?: number;
+  playoffTeams?: number;
+  simulations?: number;
+  seed?: number;
+}
+
+export interface H2HTeamOdds {
+  teamName: string;
+  // Share of weekly category matchups won (ties count as half)
+  categoryWinRates: Record<string, number>;
+  // Average season category record (each category is a W/L/T every week)
+  expectedWins: number;
+  expectedLosses: number;
+  expectedTies: number;
+  // Share of weekly matchups won outright (most categories)
+  matchupWinRate: number;
+  playoffOdds: number;
+  averageFinish: number;
+}
+
+interface WeeklyDistribution {
+  mean: number;
+  stdDev: number;
+  decimals: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+// Weeks in an MLB season - season totals are spread across these
+const MLB_SEASON_WEEKS = 26;
+
+const DEFAULT_REGULAR_SEASON_WEEKS = 22;
+const DEFAULT_SIMULATIONS = 1000;
+const DEFAULT_SEED = 20260401;
+
+/**
+ * Weekly counting stats are more volatile than a Poisson process
+ * (streaks, two-start weeks, off days), so widen sqrt(mean)
+ */
+const COUNTING_DISPERSION = 1.25;
+
+/**
+ * Typical week-to-week standard deviation of team ratio stats
+ */
+const RATIO_STAT_WEEKLY_SD: Record<string, number> = {
+  'AVG': 0.020,
+  'OBP': 0.020,
+  'SLG': 0.040,
+  'OPS': 0.055,
+  'ISO': 0.030,
+  'ERA': 1.10,
+  'WHIP': 0.14,
+  'K/9': 1.0,
+  'K9': 1.0,
+  'BB/9': 0.6,
+  'BB9': 0.6,
+};
+
+// Fallback for other ratio stats, as a fraction of the team's rate
+const RATIO_STAT_DEFAULT_CV = 0.12;
+
+// ============================================================================
+// MAIN SIMULATION
+// ============================================================================
+
+/**
+ * Simulate H2H category seasons from projected standings
+ *
+ * Each week every team draws a stat line from its weekly distributions and is
+ * compared category by category with its round-robin opponent. Playoff spots
+ * go to the best category records (random tiebreak).
+ */
+export function simulateH2HSeason(
+  standings: TeamProjectedStats[],
+  categories: string[],
+  options: H2HSimulationOptions = {}
+): H2HTeamOdds[] {
+  const numTeams = standings.length;
+  if (numTeams < 2 || categories.length === 0) return [];
+
+  const weeks = options.regularSeasonWeeks ?? DEFAULT_REGULAR_SEASON_WEEKS;
+  const playoffTeams = Math.min(options.playoffTeams ?? getDefaultPlayoffTeams(numTeams), numTeams);
+  const simulations = options.simulations ?? DEFAULT_SIMULATIONS;
+  const random = createRandom(options.seed ?? DEFAULT_SEED);
+
+  const distributions = standings.map(team =>
+    categories.map(cat => getWeeklyDistribution(team.categories[cat]?.value ?? 0, cat))
+  );
+  const schedule = buildRoundRobinSchedule(numTeams, weeks);
+
+  // Accumulators
+  const categoryWins = standings.map(() => categories.map(() => 0));
+  const seasonWins = new Array<number>(numTeams).fill(0);
+  const seasonLosses = new Array<number>(numTeams).fill(0);
+  const seasonTies = new Array<number>(numTeams).fill(0);
+  const matchupWins = new Array<number>(numTeams).fill(0);
+  const matchupsPlayed = new Array<number>(numTeams).fill(0);
+  const playoffAppearances = new Array<number>(numTeams).fill(0);
+  const finishTotals = new Array<number>(numTeams).fill(0);
+
+  for (let sim = 0; sim < simulations; sim++) {
+    const wins = new Array<number>(numTeams).fill(0);
+    const losses = new Array<number>(numTeams).fill(0);
+    const ties = new Array<number>(numTeams).fill(0);
+
+    for (const pairings of schedule) {
+      const weekLines = distributions.map(teamDists => teamDists.map(dist => sampleWeeklyStat(dist, random)));
+
+      for (const [home, away] of pairings) {
+        let homeCats = 0;
+        let awayCats = 0;
+
+        categories.forEach((cat, c) => {
+          const result = compareCategory(weekLines[home][c], weekLines[away][c], cat);
+          if (result > 0) {
+            homeCats++;
+            wins[home]++;
+            losses[away]++;
+            categoryWins[home][c]++;
+          } else if (result < 0) {
+            awayCats++;
+            wins[away]++;
+            losses[home]++;
+            categoryWins[away][c]++;
+          } else {
+            ties[home]++;
+            ties[away]++;
+            categoryWins[home][c] += 0.5;
+            categoryWins[away][c] += 0.5;
+          }
+        });
+
+        matchupsPlayed[home]++;
+        matchupsPlayed[away]++;
+        if (homeCats > awayCats) matchupWins[home]++;
+        else if (awayCats > homeCats) matchupWins[away]++;
+        else {
+          matchupWins[home] += 0.5;
+          matchupWins[away] += 0.5;
+        }
+      }
+    }
+
+    // Final standings by category win percentage, random tiebreak
+    const order = standings
+      .map((_, t) => {
+        const played = wins[t] + losses[t] + ties[t];
+        return { t, score: played > 0 ? (wins[t] + ties[t] / 2) / played : 0, tiebreak: random() };
+      })
+      .sort((a, b) => b.score - a.score || a.tiebreak - b.tiebreak);
+
+    order.forEach(({ t }, place) => {
+      finishTotals[t] += place + 1;
+      if (place < playoffTeams) playoffAppearances[t]++;
+      seasonWins[t] += wins[t];
+      seasonLosses[t] += losses[t];
+      seasonTies[t] += ties[t];
+    });
+  }
+
+  return standings.map((team, t) => {
+    const categoryWinRates: Record<string, number> = {};
+    categories.forEach((cat, c) => {
+      categoryWinRates[cat] = matchupsPlayed[t] > 0 ? categoryWins[t][c] / matchupsPlayed[t] : 0;
+    });
+
+    return {
+      teamName: team.teamName,
+      categoryWinRates,
+      expectedWins: seasonWins[t] / simulations,
+      expectedLosses: seasonLosses[t] / simulations,
+      expectedTies: seasonTies[t] / simulations,
+      matchupWinRate: matchupsPlayed[t] > 0 ? matchupWins[t] / matchupsPlayed[t] : 0,
+      playoffOdds: playoffAppearances[t] / simulations,
+      averageFinish: finishTotals[t] / simulations,
+    };
+  });
+}
+
+/**
+ * Default playoff field size for a league
+ */
+export function getDefaultPlayoffTeams(numTeams: number): number {
+  if (numTeams >= 10) return 6;
+  if (numTeams >= 6) return 4;
+  return 2;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Weekly distribution for a category from a team's projected season value
+ */
+function getWeeklyDistribution(seasonValue: number, category: string): WeeklyDistribution {
+  if (isRatioCategory(category)) {
+    const stdDev = RATIO_STAT_WEEKLY_SD[category] ?? seasonValue * RATIO_STAT_DEFAULT_CV;
+    return { mean: seasonValue, stdDev, decimals: 3 };
+  }
+
+  const mean = seasonValue / MLB_SEASON_WEEKS;
+  return { mean, stdDev: Math.sqrt(mean) * COUNTING_DISPERSION, decimals: 0 };
+}
+
+function sampleWeeklyStat(dist: WeeklyDistribution, random: () => number): number {
+  const value = Math.max(0, dist.mean + dist.stdDev * sampleStandardNormal(random));
+  const scale = Math.pow(10, dist.decimals);
+  return Math.round(value * scale) / scale;
+}
+
+/**
+ * Compare one category: positive if the first team wins, negative if the second does
+ */
+function compareCategory(a: number, b: number, category: string): number {
+  if (a === b) return 0;
+  const firstIsHigher = a > b ? 1 : -1;
+  return isLowerBetterCategory(category) ? -firstIsHigher : firstIsHigher;
+}
+
+/**
+ * Round-robin schedule using the circle method, repeated to fill the season
+ * With an odd number of teams one team has a bye each week
+ */
+function buildRoundRobinSchedule(numTeams: number, weeks: number): Array<Array<[number, number]>> {
+  const slots = numTeams % 2 === 0 ? numTeams : numTeams + 1;
+  const bye = slots > numTeams ? numTeams : -1;
+  const rounds = slots - 1;
+  const schedule: Array<Array<[number, number]>> = [];
+
+  for (let week = 0; week < weeks; week++) {
+    const round = week % rounds;
+    // Fix team 0, rotate the rest by the round number
+    const order = [0, ...Array.from({ length: rounds }, (_, i) => 1 + ((i + round) % rounds))];
+    const pairings: Array<[number, number]> = [];
+
+    for (let i = 0; i < slots / 2; i++) {
+      const home = order[i];
+      const away = order[slots - 1 - i];
+      if (home !== bye && away !== bye) {
+        pairings.push([home, away]);
+      }
+    }
+    schedule.push(pairings);
+  }
+
+  return schedule;
+}
+
+/**
+ * Seeded PRNG (mulberry32) so odds don't shift every time the view re-renders
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Standard normal sample (Box-Muller)
+ */
+function sampleStandardNormal(random: () => number): number {
+  const u = 1 - random(); // (0, 1] so log is finite
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
@@ -3,8 +3,19 @@
  * Handles all league-related API calls to the backend for persistent storage
  */
 
-import { SavedLeague, LeagueSettings } from './types';
-import { authenticatedFetch, AuthError } from './authApi';
+import {
+  SavedLeague,
+  LeagueSettings,
+  DraftTimelineEvent,
+  DraftImportResult,
+  DraftLogEntry,
+  Player,
+  ProjectionStatOverrides,
+  LeagueInvite,
+  LeagueMember,
+  LeagueRole,
+} from './types';
+import { authenticatedFetch, AuthError, throwIfUpgradeRequired, UpgradeRequiredError } from './authApi';
 
 // Get API base URL from environment variables
 function getApiUrl(): string {
@@ -44,6 +55,7 @@ export class LeagueApiError extends Error {
 // Handle API errors
 async function handleResponse<T>(response: Response): Promise<T> {
   if (!response.ok) {
+    await throwIfUpgradeRequired(response);
     const data = await response.json().catch(() => ({}));
     throw new LeagueApiError(
       data.error || data.message || 'An error occurred',
@@ -116,7 +128,7 @@ export async function createLeague(league: SavedLeague): Promise<SavedLeague> {
     const result = await handleResponse<{ league: SavedLeague }>(response);
     return result.league;
   } catch (error) {
-    if (error instanceof AuthError) {
+    if (error instanceof AuthError || error instanceof UpgradeRequiredError) {
       throw error;
     }
     console.error('[leaguesApi] Failed to create league:', error);
@@ -159,7 +171,7 @@ export async function updateLeague(id: string, league: Partial<SavedLeague>): Pr
     const result = await handleResponse<{ league: SavedLeague }>(response);
     return result.league;
   } catch (error) {
-    if (error instanceof AuthError) {
+    if (error instanceof AuthError || error instanceof UpgradeRequiredError) {
       throw error;
     }
     console.error('[leaguesApi] Failed to update league:', error);
@@ -207,6 +219,8 @@ export interface DraftPlayerState {
   draftedPrice?: number;
   draftedBy?: string;
   isTargeted?: boolean; // Whether the player is marked as a target/watchlist player
+  valueOverride?: number; // Pinned dollar value
+  maxPrice?: number; // Personal "max I'll pay"
 }
 
 /**
@@ -214,6 +228,7 @@ export interface DraftPlayerState {
  */
 export interface FetchDraftStateResult {
   players: DraftPlayerState[];
+  log: DraftLogEntry[];             // Manual draft history (undo/redo and audit trail)
   lastModified: string | null;
 }
 
@@ -224,9 +239,15 @@ export interface FetchDraftStateResult {
 export async function fetchDraftState(leagueId: string): Promise<FetchDraftStateResult> {
   try {
     const response = await authenticatedFetch(`${LEAGUES_BASE}/${leagueId}/draft-state`);
-    const result = await handleResponse<{ leagueId: string; players: DraftPlayerState[]; lastModified: string }>(response);
+    const result = await handleResponse<{
+      leagueId: string;
+      players: DraftPlayerState[];
+      log?: DraftLogEntry[];
+      lastModified: string;
+    }>(response);
     return {
       players: result.players,
+      log: result.log ?? [],
       lastModified: result.lastModified,
     };
   } catch (error) {
@@ -235,7 +256,7 @@ export async function fetchDraftState(leagueId: string): Promise<FetchDraftState
     }
     console.error('[leaguesApi] Failed to fetch draft state:', error);
     // Return empty result on error - draft state may not exist yet
-    return { players: [], lastModified: null };
+    return { players: [], log: [], lastModified: null };
   }
 }
 
@@ -254,16 +275,18 @@ export interface SaveDraftStateResult {
  * Save draft state to the server
  * Only non-available players are saved to minimize storage
  * @param expectedLastModified - For optimistic locking: the lastModified timestamp from the last read
+ * @param logEntries - Manual draft log entries not saved yet; the server appends them
  */
 export async function saveDraftState(
   leagueId: string,
   players: DraftPlayerState[],
-  expectedLastModified?: string
+  expectedLastModified?: string,
+  logEntries?: DraftLogEntry[]
 ): Promise<SaveDraftStateResult> {
   try {
     const response = await authenticatedFetch(`${LEAGUES_BASE}/${leagueId}/draft-state`, {
       method: 'PUT',
-      body: JSON.stringify({ players, expectedLastModified }),
+      body: JSON.stringify({ players, expectedLastModified, logEntries }),
     });
 
     // Check for conflict (409)
@@ -294,6 +317,222 @@ export async function saveDraftState(
   }
 }
 
+// =============================================================================
+// DRAFT TIMELINE
+// =============================================================================
+
+/**
+ * Fetch the pick-by-pick draft timeline for a league (for draft replay)
+ */
+export async function fetchDraftTimeline(leagueId: string): Promise<DraftTimelineEvent[]> {
+  try {
+    const response = await authenticatedFetch(`${LEAGUES_BASE}/${leagueId}/timeline`);
+    const result = await handleResponse<{ leagueId: string; totalPicks: number; events: DraftTimelineEvent[] }>(response);
+    return result.events;
+  } catch (error) {
+    if (error instanceof AuthError || error instanceof LeagueApiError) {
+      throw error;
+    }
+    console.error('[leaguesApi] Failed to fetch draft timeline:', error);
+    throw new LeagueApiError(
+      'Failed to fetch draft timeline',
+      'FETCH_ERROR',
+      500
+    );
+  }
+}
+
+// =============================================================================
+// DRAFT IMPORT
+// =============================================================================
+
+export interface DraftImportOptions {
+  myTeamName?: string;
+  resolutions?: Record<number, string>; // CSV row number -> player ID
+  skipUnmatched?: boolean; // Import without the rows left unresolved
+  dryRun?: boolean;
+}
+
+/**
+ * Import offline draft results from CSV text.
+ * With dryRun, only reports matches without saving.
+ */
+export async function importDraftResults(
+  leagueId: string,
+  csv: string,
+  options: DraftImportOptions = {}
+): Promise<DraftImportResult> {
+  try {
+    const response = await authenticatedFetch(`${LEAGUES_BASE}/${leagueId}/draft-import`, {
+      method: 'POST',
+      body: JSON.stringify({ csv, ...options }),
+    });
+    return await handleResponse<DraftImportResult>(response);
+  } catch (error) {
+    if (error instanceof AuthError || error instanceof LeagueApiError) {
+      throw error;
+    }
+    console.error('[leaguesApi] Failed to import draft results:', error);
+    throw new LeagueApiError(
+      'Failed to import draft results',
+      'IMPORT_ERROR',
+      500
+    );
+  }
+}
+
+// =============================================================================
+// PROJECTION OVERRIDES
+// =============================================================================
+
+/**
+ * Save a player's edited stat line for a league, or revert it with null.
+ * Values pick up the change the next time they're calculated for the league.
+ */
+export async function saveStatOverrides(
+  leagueId: string,
+  player: Player,
+  overrides: ProjectionStatOverrides | null
+): Promise<ProjectionStatOverrides | null> {
+  const externalId = player.externalId ?? player.id;
+  const isPitcher = !player.isTwoWayPlayer && player.positions.every(p => ['SP', 'RP', 'P'].includes(p));
+
+  try {
+    const response = await authenticatedFetch(
+      `${LEAGUES_BASE}/${leagueId}/players/${encodeURIComponent(externalId)}/overrides`,
+      {
+        method: 'PUT',
+        body: JSON.stringify({
+          player: {
+            mlbamId: player.mlbamId,
+            name: player.name,
+            team: player.team,
+            positions: player.positions,
+            playerType: isPitcher ? 'pitcher' : 'hitter',
+          },
+          overrides,
+        }),
+      }
+    );
+    const result = await handleResponse<{ externalId: string; statOverrides: ProjectionStatOverrides | null }>(response);
+    return result.statOverrides;
+  } catch (error) {
+    if (error instanceof AuthError || error instanceof LeagueApiError) {
+      throw error;
+    }
+    console.error('[leaguesApi] Failed to save stat overrides:', error);
+    throw new LeagueApiError(
+      'Failed to save projection edits',
+      'SAVE_ERROR',
+      500
+    );
+  }
+}
+
+// =============================================================================
+// LEAGUE SHARING
+// =============================================================================
+
+/**
+ * The pending invite for an invite link I opened (empty without a token)
+ */
+export async function fetchLeagueInvites(token?: string): Promise<LeagueInvite[]> {
+  const query = token ? `?token=${encodeURIComponent(token)}` : '';
+  const response = await authenticatedFetch(`${LEAGUES_BASE}/invites${query}`);
+  const result = await handleResponse<{ invites: LeagueInvite[] }>(response);
+  return result.invites;
+}
+
+/**
+ * Accept or decline an invite. Every invite needs the token from its link.
+ */
+export async function respondToLeagueInvite(
+  inviteId: string,
+  accept: boolean,
+  token?: string
+): Promise<{ leagueId: string }> {
+  const response = await authenticatedFetch(
+    `${LEAGUES_BASE}/invites/${inviteId}/${accept ? 'accept' : 'decline'}`,
+    {
+      method: 'POST',
+      body: JSON.stringify({ token }),
+    }
+  );
+  return handleResponse<{ leagueId: string }>(response);
+}
+
+/**
+ * Members of a league; pending invites are only returned to the owner
+ */
+export async function fetchLeagueMembers(leagueId: string): Promise<{
+  members: LeagueMember[];
+  invites: LeagueInvite[];
+  role: LeagueRole;
+}> {
+  const response = await authenticatedFetch(`${LEAGUES_BASE}/${leagueId}/members`);
+  return handleResponse(response);
+}
+
+/**
+ * Invite someone to a league I own. Without an email, anyone with the link can join.
+ */
+export async function createLeagueInvite(
+  leagueId: string,
+  role: LeagueInvite['role'],
+  email?: string
+): Promise<{ invite: LeagueInvite; inviteUrl: string }> {
+  const response = await authenticatedFetch(`${LEAGUES_BASE}/${leagueId}/invites`, {
+    method: 'POST',
+    body: JSON.stringify({ role, email: email || undefined }),
+  });
+  return handleResponse(response);
+}
+
+export async function revokeLeagueInvite(leagueId: string, inviteId: string): Promise<void> {
+  const response = await authenticatedFetch(`${LEAGUES_BASE}/${leagueId}/invites/${inviteId}`, {
+    method: 'DELETE',
+  });
+  await handleResponse<{ success: boolean }>(response);
+}
+
+export async function updateLeagueMemberRole(
+  leagueId: string,
+  userId: string,
+  role: LeagueInvite['role']
+): Promise<void> {
+  const response = await authenticatedFetch(`${LEAGUES_BASE}/${leagueId}/members/${userId}`, {
+    method: 'PUT',
+    body: JSON.stringify({ role }),
+  });
+  await handleResponse<{ success: boolean }>(response);
+}
+
+/**
+ * Assign a member of a league I own (or myself) the auction room team they run.
+ * Pass null to unassign.
+ */
+export async function assignLeagueMemberTeam(
+  leagueId: string,
+  userId: string,
+  teamName: string | null
+): Promise<void> {
+  const response = await authenticatedFetch(`${LEAGUES_BASE}/${leagueId}/members/${userId}`, {
+    method: 'PUT',
+    body: JSON.stringify({ teamName }),
+  });
+  await handleResponse<{ success: boolean }>(response);
+}
+
+/**
+ * Remove a member from a league I own, or pass my own ID to leave a league
+ */
+export async function removeLeagueMember(leagueId: string, userId: string): Promise<void> {
+  const response = await authenticatedFetch(`${LEAGUES_BASE}/${leagueId}/members/${userId}`, {
+    method: 'DELETE',
+  });
+  await handleResponse<{ success: boolean }>(response);
+}
+
 // =============================================================================
 // LEAGUE SYNC
 // =============================================================================
@@ -0,0 +1,71 @@
+/**
+ * Manual Draft Helpers
+ * Team state for drafts entered by hand (no Couch Managers room), shaped like
+ * synced auction data so the team grid, rankings and standings work unchanged
+ */
+
+import type { Player, ScrapedAuctionData } from './types';
+
+export const MY_MANUAL_TEAM = 'My Team';
+
+/**
+ * Default team names for a manual draft - "My Team" first, then numbered opponents
+ */
+export function getDefaultManualTeams(numTeams: number): string[] {
+  return [
+    MY_MANUAL_TEAM,
+    ...Array.from({ length: Math.max(0, numTeams - 1) }, (_, i) => `Team ${i + 2}`),
+  ];
+}
+
+/**
+ * Builds per-team budgets from manually entered picks.
+ * Teams that appear on picks but not in teamNames are appended so no spending is lost.
+ * Shared with the server's manual inflation endpoint.
+ */
+export function buildManualTeams(
+  teamNames: string[],
+  allDrafted: Array<Pick<Player, 'draftedBy' | 'draftedPrice'>>,
+  budgetPerTeam: number
+): ScrapedAuctionData['teams'] {
+  const totals = new Map<string, { spent: number; playersDrafted: number }>();
+  teamNames.forEach(name => totals.set(name, { spent: 0, playersDrafted: 0 }));
+
+  allDrafted.forEach(p => {
+    if (!p.draftedBy) return;
+    const team = totals.get(p.draftedBy) ?? { spent: 0, playersDrafted: 0 };
+    team.spent += p.draftedPrice || 0;
+    team.playersDrafted += 1;
+    totals.set(p.draftedBy, team);
+  });
+
+  return Array.from(totals.entries()).map(([name, team]) => ({
+    name,
+    budget: budgetPerTeam,
+    spent: team.spent,
+    remaining: budgetPerTeam - team.spent,
+    playersDrafted: team.playersDrafted,
+    isOnline: false,
+  }));
+}
+
+/**
+ * Builds auction data for a manual draft so components that read synced
+ * room data (team grid, rankings, standings) can show manual teams
+ */
+export function buildManualAuctionData(
+  teamNames: string[],
+  allDrafted: Player[],
+  budgetPerTeam: number
+): ScrapedAuctionData {
+  const teams = buildManualTeams(teamNames, allDrafted, budgetPerTeam);
+  return {
+    roomId: '',
+    scrapedAt: new Date().toISOString(),
+    status: 'active',
+    players: [],
+    teams,
+    totalPlayersDrafted: allDrafted.length,
+    totalMoneySpent: teams.reduce((sum, t) => sum + t.spent, 0),
+  };
+}
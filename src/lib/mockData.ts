@@ -1,5 +1,8 @@
 import { Player, LeagueSettings } from './types';
 
+// Starting weights when a league switches to blended projections
+export const defaultProjectionBlend: NonNullable<LeagueSettings['projectionBlend']> = { steamer: 50, batx: 30, ja: 20 };
+
 export const defaultLeagueSettings: LeagueSettings = {
   leagueName: 'My Fantasy League',
   couchManagerRoomId: '',
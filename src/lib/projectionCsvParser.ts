@@ -0,0 +1,175 @@
+/**
+ * CSV Parser for Custom Projections
+ * Reads a hitter or pitcher projection spreadsheet and maps its columns to
+ * projection fields. Columns are matched automatically (like dynasty ranking
+ * uploads) and the mapping can be adjusted before the rows are built.
+ */
+
+import { findColumnIndex, parseCSVLine } from './csvParser';
+import type { CustomProjectionRow } from './types';
+
+export type ProjectionPlayerType = CustomProjectionRow['playerType'];
+
+export interface ProjectionColumnField {
+  field: string;
+  label: string;
+  patterns: string[];
+  isStat: boolean;
+}
+
+export interface ProjectionCsvTable {
+  headers: string[];
+  rows: string[][];
+}
+
+// Projection field -> column index (-1 = not mapped)
+export type ProjectionColumnMapping = Record<string, number>;
+
+const IDENTITY_FIELDS: ProjectionColumnField[] = [
+  { field: 'name', label: 'Name', patterns: ['name', 'player', 'playername', 'player_name', 'fullname'], isStat: false },
+  { field: 'team', label: 'Team', patterns: ['team', 'tm', 'mlbteam', 'org'], isStat: false },
+  { field: 'positions', label: 'Positions', patterns: ['pos', 'position', 'positions', 'minpos', 'eligibility'], isStat: false },
+  { field: 'mlbamId', label: 'MLBAM ID', patterns: ['mlbamid', 'xmlbamid', 'mlbam_id', 'mlb_id', 'mlbid'], isStat: false },
+  { field: 'externalId', label: 'FanGraphs ID', patterns: ['playerid', 'fangraphsid', 'fangraphs_id', 'fg_id', 'fgid'], isStat: false },
+];
+
+const stat = (field: string, label: string, patterns: string[]): ProjectionColumnField =>
+  ({ field, label, patterns, isStat: true });
+
+// Stat fields match the server's HittingStats / PitchingStats
+const HITTING_FIELDS: ProjectionColumnField[] = [
+  stat('games', 'G', ['g', 'games']),
+  stat('plateAppearances', 'PA', ['pa', 'plateappearances']),
+  stat('atBats', 'AB', ['ab', 'atbats']),
+  stat('runs', 'R', ['r', 'runs']),
+  stat('hits', 'H', ['h', 'hits']),
+  stat('singles', '1B', ['1b', 'singles']),
+  stat('doubles', '2B', ['2b', 'doubles']),
+  stat('triples', '3B', ['3b', 'triples']),
+  stat('homeRuns', 'HR', ['hr', 'homeruns']),
+  stat('rbi', 'RBI', ['rbi']),
+  stat('stolenBases', 'SB', ['sb', 'stolenbases']),
+  stat('caughtStealing', 'CS', ['cs', 'caughtstealing']),
+  stat('walks', 'BB', ['bb', 'walks']),
+  stat('strikeouts', 'SO', ['so', 'k', 'strikeouts']),
+  stat('battingAvg', 'AVG', ['avg', 'ba']),
+  stat('onBasePct', 'OBP', ['obp']),
+  stat('sluggingPct', 'SLG', ['slg']),
+  stat('ops', 'OPS', ['ops']),
+  stat('wOBA', 'wOBA', ['woba']),
+  stat('wrcPlus', 'wRC+', ['wrc+', 'wrcplus']),
+  stat('war', 'WAR', ['war']),
+];
+
+const PITCHING_FIELDS: ProjectionColumnField[] = [
+  stat('games', 'G', ['g', 'games']),
+  stat('gamesStarted', 'GS', ['gs', 'gamesstarted']),
+  stat('inningsPitched', 'IP', ['ip', 'innings']),
+  stat('wins', 'W', ['w', 'wins']),
+  stat('losses', 'L', ['l', 'losses']),
+  stat('saves', 'SV', ['sv', 'saves']),
+  stat('holds', 'HLD', ['hld', 'holds']),
+  stat('qualityStarts', 'QS', ['qs']),
+  stat('hitsAllowed', 'H', ['h', 'ha', 'hitsallowed']),
+  stat('earnedRuns', 'ER', ['er']),
+  stat('homeRunsAllowed', 'HR', ['hr', 'hra']),
+  stat('walks', 'BB', ['bb', 'walks']),
+  stat('strikeouts', 'SO', ['so', 'k', 'strikeouts']),
+  stat('battersFaced', 'TBF', ['tbf', 'bf']),
+  stat('era', 'ERA', ['era']),
+  stat('whip', 'WHIP', ['whip']),
+  stat('k9', 'K/9', ['k/9', 'k9']),
+  stat('bb9', 'BB/9', ['bb/9', 'bb9']),
+  stat('kPercent', 'K%', ['k%', 'kpct']),
+  stat('bbPercent', 'BB%', ['bb%', 'bbpct']),
+  stat('fip', 'FIP', ['fip']),
+  stat('war', 'WAR', ['war']),
+];
+
+/**
+ * Fields a hitter or pitcher file can map (identity fields first)
+ */
+export function getProjectionColumnFields(playerType: ProjectionPlayerType): ProjectionColumnField[] {
+  return [...IDENTITY_FIELDS, ...(playerType === 'hitter' ? HITTING_FIELDS : PITCHING_FIELDS)];
+}
+
+/**
+ * Splits a CSV (or tab-separated) file into headers and rows
+ */
+export function readProjectionCsv(text: string): ProjectionCsvTable {
+  const lines = text.trim().split(/\r?\n/);
+  if (lines.length < 2) {
+    throw new Error('File must contain a header row and at least one data row');
+  }
+
+  const delimiter = lines[0].includes('\t') ? '\t' : ',';
+  return {
+    headers: parseCSVLine(lines[0], delimiter),
+    rows: lines.slice(1).filter(line => line.trim()).map(line => parseCSVLine(line, delimiter)),
+  };
+}
+
+/**
+ * Guesses the column for each field by header name (exact matches only -
+ * stat headers are too short to match partially)
+ */
+export function suggestColumnMapping(headers: string[], playerType: ProjectionPlayerType): ProjectionColumnMapping {
+  const normalized = headers.map(h => h.trim().toLowerCase());
+  const mapping: ProjectionColumnMapping = {};
+  getProjectionColumnFields(playerType).forEach(({ field, patterns }) => {
+    mapping[field] = findColumnIndex(normalized, patterns);
+  });
+  return mapping;
+}
+
+/**
+ * Parses a numeric cell. Percentages ("25.1%") become fractions.
+ */
+function parseNumber(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const trimmed = value.trim().replace(/,/g, '');
+  const isPercent = trimmed.endsWith('%');
+  const number = parseFloat(isPercent ? trimmed.slice(0, -1) : trimmed);
+  if (!Number.isFinite(number)) return undefined;
+  return isPercent ? number / 100 : number;
+}
+
+/**
+ * Builds upload rows from a mapped table. Rows without a name are skipped.
+ */
+export function buildProjectionRows(
+  table: ProjectionCsvTable,
+  mapping: ProjectionColumnMapping,
+  playerType: ProjectionPlayerType
+): CustomProjectionRow[] {
+  if ((mapping.name ?? -1) === -1) {
+    throw new Error('Map a column to Name before uploading');
+  }
+
+  const cell = (values: string[], field: string) => {
+    const index = mapping[field] ?? -1;
+    return index === -1 ? undefined : values[index]?.trim() || undefined;
+  };
+  const statFields = getProjectionColumnFields(playerType).filter(f => f.isStat);
+
+  return table.rows
+    .filter(values => cell(values, 'name'))
+    .map(values => {
+      const stats: Record<string, number> = {};
+      statFields.forEach(({ field }) => {
+        const value = parseNumber(cell(values, field));
+        if (value !== undefined) stats[field] = value;
+      });
+
+      const mlbamId = parseNumber(cell(values, 'mlbamId'));
+      return {
+        name: cell(values, 'name') ?? '',
+        team: cell(values, 'team'),
+        positions: cell(values, 'positions'),
+        playerType,
+        mlbamId: mlbamId && mlbamId > 0 ? Math.round(mlbamId) : undefined,
+        externalId: cell(values, 'externalId'),
+        ...(playerType === 'hitter' ? { hitting: stats } : { pitching: stats }),
+      };
+    });
+}
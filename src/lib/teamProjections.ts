@@ -157,7 +157,7 @@ export function calculateProjectedStandings(
 /**
  * Get list of team names from auction data or drafted players
  */
-function getTeamNames(allDrafted: Player[], auctionData: ScrapedAuctionData | null): string[] {
+export function getTeamNames(allDrafted: Player[], auctionData: ScrapedAuctionData | null): string[] {
   if (auctionData?.teams && auctionData.teams.length > 0) {
     return auctionData.teams.map(t => t.name);
   }
@@ -584,6 +584,13 @@ export function isLowerBetterCategory(category: string): boolean {
   return LOWER_IS_BETTER_CATEGORIES.has(category);
 }
 
+/**
+ * Check if a category is a ratio stat (weighted average rather than a sum)
+ */
+export function isRatioCategory(category: string): boolean {
+  return HITTING_RATIO_STATS.has(category) || PITCHING_RATIO_STATS.has(category);
+}
+
 /**
  * Format stat value for display
  */
@@ -1,6 +1,14 @@
+// Live auction platforms (validated on the server by AUCTION_SOURCE_TYPES)
+export type AuctionSourceType = 'couchmanagers';
+
+export type BlendableProjectionSystem = 'steamer' | 'batx' | 'ja' | 'oopsy';
+
 export interface LeagueSettings {
   leagueName: string;
   couchManagerRoomId: string;
+  // Live auction platform the league syncs from (couchManagerRoomId mirrors the ID for Couch Managers)
+  auctionSourceType?: AuctionSourceType;
+  auctionSourceId?: string;
   numTeams: number;
   budgetPerTeam: number;
   rosterSpots: {
@@ -20,13 +28,28 @@ export interface LeagueSettings {
   };
   leagueType: 'redraft' | 'dynasty';
   scoringType: 'rotisserie' | 'h2h-categories' | 'h2h-points';
-  projectionSystem: 'steamer' | 'batx' | 'ja' | 'oopsy';
+  projectionSystem: 'steamer' | 'batx' | 'ja' | 'oopsy' | 'blend' | 'custom';
+  // Relative weight per system when projectionSystem is 'blend' (e.g. { steamer: 50, batx: 30, ja: 20 })
+  projectionBlend?: Partial<Record<BlendableProjectionSystem, number>>;
+  // Uploaded projection set when projectionSystem is 'custom'
+  customProjectionSetId?: string;
   // Dynasty-specific settings (only used when leagueType === 'dynasty')
   dynastySettings?: {
     dynastyWeight: number; // 0.0-1.0 (how much to weight dynasty rankings vs projections)
     includeMinors: boolean; // Include minor league players in rankings
     rankingsSource?: 'harryknowsball' | 'custom'; // Source of dynasty rankings (undefined = not selected yet)
     customRankings?: CustomDynastyRanking[]; // User-uploaded custom rankings
+    projectionYears?: number; // Seasons to project forward, 3-5 (default 3)
+    discountRate?: number; // Yearly discount on future seasons (default 0.15)
+    contractYears?: number; // Keeper contract length in seasons (default: the projection window)
+    salaryEscalator?: number; // $ added to a kept player's salary each season (default 0)
+  };
+  // Players kept before the auction, removed from the pool at their keeper salary
+  keepers?: KeeperEntry[];
+  // Minor league roster slots and farm budget per team (dynasty leagues)
+  farmSettings?: {
+    milbSlots: number;
+    farmBudget: number; // Separate from budgetPerTeam; 0 when MiLB players aren't bought
   };
   // Scoring categories for Roto and H2H Categories
   hittingCategories?: {
@@ -491,7 +514,19 @@ export interface Player {
   isInDraftPool?: boolean; // Whether player is in the draftable pool
   isTwoWayPlayer?: boolean; // Whether this is a combined two-way player (e.g., Ohtani)
   isTargeted?: boolean; // Whether player is marked as a target/watchlist player
+  valueOverride?: number; // Pinned dollar value - replaces the inflation-adjusted value
+  maxPrice?: number; // Personal "max I'll pay" - bids are judged against it and targets alert below it
   sgpValue?: number; // SGP (Z-Score) - measures player value relative to league average
+  statOverrides?: ProjectionStatOverrides; // League stat edits applied to this player's projection
+}
+
+/**
+ * A league's edits to a player's projected stat line, keyed by projection
+ * field (saves, homeRuns, ...). Derived stats are recalculated on the server.
+ */
+export interface ProjectionStatOverrides {
+  hitting?: Record<string, number>;
+  pitching?: Record<string, number>;
 }
 
 export interface DraftedPlayer extends Player {
@@ -512,6 +547,42 @@ export interface DraftState {
   rosterNeedsRemaining: LeagueSettings['rosterSpots'];
 }
 
+/**
+ * A pick as entered in manual mode: winning team and price
+ */
+export interface ManualPick {
+  teamName: string;
+  price: number;
+}
+
+export type DraftActionType = 'draft' | 'undraft' | 'change_price' | 'reassign_team' | 'rename_team';
+
+/**
+ * One manual draft change. `from`/`to` are the player's pick before and after
+ * (null = available), so undoing an action applies `from` again.
+ * 'rename_team' carries no player: `from`/`to` hold the old and new team name
+ * (price 0), and it renames the team on earlier actions instead of being undoable.
+ */
+export interface DraftAction {
+  type: DraftActionType;
+  playerId: string;
+  playerName: string;
+  from: ManualPick | null;
+  to: ManualPick | null;
+}
+
+/**
+ * Entry in the append-only manual draft log, which doubles as the audit trail.
+ * 'undo' and 'redo' entries repeat the action they reverted or reapplied.
+ */
+export interface DraftLogEntry {
+  id: string;
+  op: 'do' | 'undo' | 'redo';
+  action: DraftAction;
+  at: string;                       // ISO timestamp
+  by?: string;                      // Who made the change - set by the server when saved
+}
+
 export interface SavedLeague {
   id: string;
   leagueName: string;
@@ -521,15 +592,51 @@ export interface SavedLeague {
   lastModified: string;
   status: 'setup' | 'drafting' | 'complete';
   setupStep?: number; // Current step in setup wizard (1-5), only for status='setup'
+  role?: LeagueRole; // My access to the league (leagues I created are 'owner')
+  myTeamName?: string; // Couch Managers team the commissioner assigned me
+}
+
+// Owners manage the league, co-managers also edit draft state, members are read-only
+export type LeagueRole = 'owner' | 'co-manager' | 'member';
+
+export interface LeagueMember {
+  userId: string;
+  name: string;
+  email: string;
+  role: LeagueRole;
+  teamName?: string;
+  joinedAt: string;
 }
 
+export interface LeagueInvite {
+  id: string;
+  leagueId: string;
+  leagueName: string;
+  email: string | null;             // null = link invite, anyone with the link can accept
+  role: Exclude<LeagueRole, 'owner'>;
+  invitedByName: string;
+  expiresAt: string;
+  createdAt: string;
+}
+
+export type SubscriptionTier = 'free' | 'premium';
+
 export interface SubscriptionInfo {
-  tier: 'free' | 'premium';
+  tier: SubscriptionTier;
   status: 'active' | 'cancelled' | 'past_due';
   currentPeriodEnd?: string; // ISO date string for when subscription ends
   cancelAtPeriodEnd?: boolean; // If true, subscription won't renew
 }
 
+// Features gated by subscription tier
+export type PremiumFeature = 'liveSync' | 'chatAssistant' | 'smsAlerts' | 'dynastyMode';
+
+export interface Entitlements {
+  tier: SubscriptionTier;
+  features: Record<PremiumFeature, boolean>;
+  maxLeagues: number | null; // Leagues I can own; null = unlimited
+}
+
 export interface UserData {
   username: string;
   email: string;
@@ -551,6 +658,7 @@ export interface ScrapedPlayer {
   status: 'available' | 'drafted' | 'on_block' | 'passed';
   winningBid?: number;
   winningTeam?: string;
+  saleOrder?: number; // Position in Couch Managers' recent auction list (higher = sold later)
   stats?: {
     avg?: string;
     hr?: number;
@@ -626,6 +734,126 @@ export interface AuctionSyncResult {
   matchedPlayers: MatchedPlayer[];
   inflationStats: InflationStats;
   unmatchedPlayers: ScrapedPlayer[];
+  /** Pass back on the next sync to receive an AuctionSyncDelta */
+  cursor?: string;
+}
+
+/**
+ * Incremental sync response - only what changed since the client's cursor
+ */
+export interface AuctionSyncDelta {
+  mode: 'delta';
+  cursor: string;
+  baseCursor: string;
+  auctionData: Omit<ScrapedAuctionData, 'players' | 'teams'>;
+  changedPlayers: ScrapedPlayer[];
+  changedMatches: MatchedPlayer[];
+  changedTeams: ScrapedAuctionData['teams'];
+  removedPlayerIds: number[];
+  removedTeamNames: string[];
+  inflationStats: InflationStats;
+}
+
+/**
+ * Incremental room change pushed over the live auction stream
+ */
+export interface AuctionRoomDiff {
+  roomId: string;
+  scrapedAt: string;
+  status: ScrapedAuctionData['status'];
+  newlyDrafted: ScrapedPlayer[];
+  bidChanges: {
+    playerId: number;
+    playerName: string;
+    previousBid: number | null;
+    currentBid: number;
+    currentBidder: string;
+    timeRemaining: number;
+  }[];
+  closedAuctions: number[];
+  teamChanges: {
+    name: string;
+    previousRemaining: number | null;
+    remaining: number;
+    spent: number;
+    playersDrafted: number;
+  }[];
+  totalPlayersDrafted: number;
+  totalMoneySpent: number;
+}
+
+/**
+ * One pick in a league's draft timeline, with league state as of that pick
+ */
+export interface DraftTimelineEvent {
+  pickNumber: number;
+  draftedAt: string;
+  player: {
+    id: string;
+    name: string;
+    team: string | null;
+    positions: string[];
+  };
+  draftedBy: string | null;
+  price: number;
+  projectedValue: number | null;
+  inflationRateAtPick: number | null;
+  inflation: {
+    overallInflationRate: number;
+    totalProjectedValue: number;
+    totalActualSpent: number;
+    draftedPlayersCount: number;
+    tierInflation: TierInflationData[];
+  };
+  teamBudgets: {
+    name: string;
+    spent: number;
+    remaining: number;
+    playersDrafted: number;
+  }[];
+  positionalScarcity: PositionalScarcity[];
+}
+
+/**
+ * One row of an imported draft results CSV
+ */
+export interface DraftImportRow {
+  rowNumber: number;                // Line number in the CSV (header is line 1)
+  playerName: string;
+  mlbTeam: string;
+  positions: string[];              // Optional column - helps disambiguate matches
+  price: number;
+  fantasyTeam: string;
+  pickNumber?: number;
+}
+
+export interface DraftImportCandidate {
+  id: string;
+  name: string;
+  team: string;
+  positions: string[];
+  projectedValue: number;
+}
+
+/**
+ * Row that could not be matched to a projection, with likely players
+ * the user can pick from to resolve it
+ */
+export interface DraftImportUnmatchedRow {
+  row: DraftImportRow;
+  candidates: DraftImportCandidate[];
+}
+
+export interface DraftImportResult {
+  leagueId: string;
+  applied: boolean;                 // false for dry runs
+  complete: boolean;                // Every row imported, so the draft is (or would be) marked complete
+  totalRows: number;
+  importedCount: number;
+  teams: string[];
+  unmatched: DraftImportUnmatchedRow[];
+  rowErrors: { rowNumber: number; message: string }[];
+  lastModified?: string;
 }
 
 export interface SyncState {
@@ -668,6 +896,30 @@ export interface EnhancedInflationStats extends InflationStats {
   leagueEffectiveBudget: number;    // Sum of all team effectiveBudgets
   adjustedRemainingBudget: number;  // Effective budget for forward-looking inflation
   remainingProjectedValue: number;  // Sum of projected values for undrafted players
+  keeperSalaries?: number;          // Budget already committed to keepers
+  keeperSurplus?: number;           // Keeper value above salary (inflates the rest of the pool)
+}
+
+/**
+ * Simulated final price distribution for a player still in the pool
+ */
+export interface PlayerPriceForecast {
+  playerId: string;
+  p10: number;
+  p50: number;
+  p90: number;
+  mean: number;
+  draftedRate: number;              // Share of simulations in which the player was drafted (0-1)
+}
+
+/**
+ * Player a team kept going into the auction
+ */
+export interface KeeperEntry {
+  teamName: string;       // Fantasy team keeping the player
+  playerName: string;
+  playerId?: string;      // Projection external ID when picked from the pool
+  salary: number;         // Keeper salary charged against the team's budget
 }
 
 /**
@@ -679,6 +931,33 @@ export interface CustomDynastyRanking {
   playerId?: string;      // Optional player ID (FanGraphs, MLB, etc.)
 }
 
+/**
+ * One row of an uploaded projection spreadsheet after column mapping.
+ * Stats are keyed by projection field (homeRuns, era, ...); unmapped stats are derived on the server.
+ */
+export interface CustomProjectionRow {
+  name: string;
+  team?: string;
+  positions?: string;     // Eligibility as written, e.g. "SS/2B"
+  playerType: 'hitter' | 'pitcher';
+  mlbamId?: number;
+  externalId?: string;
+  hitting?: Record<string, number>;
+  pitching?: Record<string, number>;
+}
+
+/**
+ * Uploaded projection set (projections stay on the server)
+ */
+export interface CustomProjectionSetSummary {
+  id: string;
+  name: string;
+  leagueId: string | null;  // Shared with this league's members; null = only the uploader
+  hitterCount: number;
+  pitcherCount: number;
+  createdAt: string;
+}
+
 // =============================================================================
 // ADMIN DASHBOARD TYPES
 // =============================================================================
@@ -717,6 +996,7 @@ export interface AdminUserEntry {
   role: 'user' | 'admin';
   subscriptionTier: string;
   authProvider: string;
+  twoFactorEnabled: boolean;
   createdAt: string;
   lastLoginAt: string | null;
   leagueCount: number;